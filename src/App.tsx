@@ -5,6 +5,8 @@ import ProtectedRoute from '@/components/ProtectedRoute'
 import Login from '@/pages/Login'
 import Dashboard from '@/pages/Dashboard'
 import Projects from '@/pages/Projects'
+import Portfolio from '@/pages/Portfolio'
+import Objectives from '@/pages/Objectives'
 import ProjectDetail from '@/pages/ProjectDetail'
 import ProjectOverview from '@/pages/ProjectOverview'
 import ProjectSettings from '@/pages/ProjectSettings'
@@ -24,6 +26,9 @@ import Planner from '@/pages/Planner'
 import Calendar from '@/pages/Calendar'
 import ProjectCalendarView from '@/pages/ProjectCalendarView'
 import TimelineView from '@/pages/TimelineView'
+import ResourcesView from '@/pages/ResourcesView'
+import FlowMetricsView from '@/pages/FlowMetricsView'
+import PlanningPokerView from '@/pages/PlanningPokerView'
 
 
 function App() {
@@ -81,6 +86,22 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/portfolio"
+          element={
+            <ProtectedRoute>
+              <Portfolio />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/objectives"
+          element={
+            <ProtectedRoute>
+              <Objectives />
+            </ProtectedRoute>
+          }
+        />
         {/* Project Detail with nested routes */}
         <Route
           path="/projects/:projectId"
@@ -93,9 +114,12 @@ function App() {
           <Route index element={<Navigate to="overview" replace />} />
           <Route path="overview" element={<ProjectOverview />} />
           <Route path="kanban" element={<KanbanView />} />
+          <Route path="flow" element={<FlowMetricsView />} />
           <Route path="backlog" element={<BacklogView />} />
           <Route path="sprints" element={<SprintsView />} />
+          <Route path="poker" element={<PlanningPokerView />} />
           <Route path="gantt" element={<GanttView />} />
+          <Route path="resources" element={<ResourcesView />} />
           <Route path="wbs" element={<WBSView />} />
           <Route path="grid" element={<GridView />} />
           <Route path="calendar" element={<ProjectCalendarView />} />
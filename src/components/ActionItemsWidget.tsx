@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react'
 import { Box, Typography, CircularProgress, Chip, Stack, IconButton, useTheme } from '@mui/material'
-import { CheckCircle, Person, TrendingUp, KeyboardArrowUp, KeyboardArrowDown } from '@mui/icons-material'
+import { CheckCircle, Person, TrendingUp, KeyboardArrowUp, KeyboardArrowDown, Event } from '@mui/icons-material'
 import { supabase } from '@/lib/supabase'
+import { filterByStrategicScope, resolveStrategicScope, type StrategicValue } from '@/utils/strategicScope'
+import { isActionOverdue } from '@/utils/retrospective'
 import { IOSWidget } from './ui'
 
 interface ActionItem {
@@ -11,11 +13,14 @@ interface ActionItem {
   sprint_name: string
   assigned_to_name?: string
   votes: number
+  due_date: string | null
+  /** Days since the action was written */
+  days_open: number
 }
 
 interface ActionItemsWidgetProps {
   teamId?: string | null
-  strategicFilter?: 'all' | 'yes' | 'no'
+  strategicFilter?: StrategicValue
 }
 
 const ITEMS_PER_PAGE = 2
@@ -46,22 +51,16 @@ export default function ActionItemsWidget({ teamId, strategicFilter = 'all' }: A
       let retroIds: string[] | null = null
       const needSprintScope = teamId || strategicFilter !== 'all'
       if (needSprintScope) {
-        if (strategicFilter !== 'all') {
-          const { data: strategicProjects } = await supabase
-            .from('projects')
-            .select('id')
-            .eq('strategic_planning', strategicFilter === 'yes')
-          const projectIds = (strategicProjects ?? []).map((p: any) => p.id)
-
-          if (strategicFilter === 'no') {
+        const strategicScope = await resolveStrategicScope(strategicFilter)
+        if (strategicScope) {
+          if (strategicScope.includeNull) {
             // Two-query approach to avoid PostgREST OR+IS NULL unreliability
             const collectedSprintIds: string[] = []
-            if (projectIds.length > 0) {
-              let q1 = supabase.from('sprints').select('id').in('project_id', projectIds)
-              if (teamId) q1 = q1.eq('team_id', teamId)
-              const { data: d1 } = await q1
-              ;(d1 ?? []).forEach((s: any) => collectedSprintIds.push(s.id))
-            }
+            let q1 = supabase.from('sprints').select('id')
+            q1 = filterByStrategicScope(q1, 'project_id', strategicScope)
+            if (teamId) q1 = q1.eq('team_id', teamId)
+            const { data: d1 } = await q1
+            ;(d1 ?? []).forEach((s: any) => collectedSprintIds.push(s.id))
             let q2 = supabase.from('sprints').select('id').is('project_id', null)
             if (teamId) q2 = q2.eq('team_id', teamId)
             const { data: d2 } = await q2
@@ -74,12 +73,10 @@ export default function ActionItemsWidget({ teamId, strategicFilter = 'all' }: A
               retroIds = []
             }
           } else {
-            // "Sim": single query
+            // Objective: single query
             let sprintsQ = supabase.from('sprints').select('id')
             if (teamId) sprintsQ = sprintsQ.eq('team_id', teamId)
-            sprintsQ = projectIds.length > 0
-              ? sprintsQ.in('project_id', projectIds)
-              : sprintsQ.in('project_id', ['00000000-0000-0000-0000-000000000000'])
+            sprintsQ = filterByStrategicScope(sprintsQ, 'project_id', strategicScope)
             const { data: teamSprints } = await sprintsQ
             const sprintIds = (teamSprints ?? []).map((s: any) => s.id)
             if (sprintIds.length > 0) {
@@ -112,13 +109,15 @@ export default function ActionItemsWidget({ teamId, strategicFilter = 'all' }: A
 
       // Fetch action items from retrospectives
       let itemsQuery = supabase
-        .from('retrospective_items')
+        .from('retrospective_items_visible')
         .select(
           `
           id,
           content,
           status,
           votes,
+          due_date,
+          created_at,
           sprint_retrospectives!retrospective_id(
             sprint_id,
             sprints(name)
@@ -127,6 +126,7 @@ export default function ActionItemsWidget({ teamId, strategicFilter = 'all' }: A
         `
         )
         .eq('category', 'action_item')
+        .not('content', 'is', null)
         .order('votes', { ascending: false })
         .order('created_at', { ascending: false })
 
@@ -154,6 +154,8 @@ export default function ActionItemsWidget({ teamId, strategicFilter = 'all' }: A
           sprint_name: sprint?.name || 'Sprint desconhecido',
           assigned_to_name: profile?.full_name,
           votes: item.votes || 0,
+          due_date: item.due_date,
+          days_open: Math.max(0, Math.floor((Date.now() - new Date(item.created_at).getTime()) / (24 * 60 * 60 * 1000))),
         }
       })
 
@@ -253,6 +255,7 @@ export default function ActionItemsWidget({ teamId, strategicFilter = 'all' }: A
           <Stack spacing={1.5} sx={{ flex: 1, overflowY: 'auto' }}>
             {paginatedItems.map((item) => {
               const statusStyle = getStatusColor(item.status)
+              const overdue = isActionOverdue(item)
               return (
                 <Box
                   key={item.id}
@@ -294,10 +297,25 @@ export default function ActionItemsWidget({ teamId, strategicFilter = 'all' }: A
 
                   <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                     <Typography variant="caption" color="text.secondary" sx={{ fontSize: '0.7rem' }}>
-                      {item.sprint_name}
+                      {item.sprint_name} · há {item.days_open} {item.days_open === 1 ? 'dia' : 'dias'}
                     </Typography>
 
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      {item.due_date && (
+                        <Chip
+                          icon={<Event sx={{ fontSize: 12 }} />}
+                          label={overdue ? 'Atrasada' : new Date(`${item.due_date}T00:00:00`).toLocaleDateString('pt-BR')}
+                          size="small"
+                          sx={{
+                            bgcolor: overdue ? 'rgba(239, 68, 68, 0.1)' : 'rgba(107, 114, 128, 0.1)',
+                            color: overdue ? '#ef4444' : '#6b7280',
+                            fontWeight: 600,
+                            fontSize: '0.65rem',
+                            height: 18,
+                            '& .MuiChip-icon': { color: 'inherit' },
+                          }}
+                        />
+                      )}
                       {item.votes > 0 && (
                         <Chip
                           label={`${item.votes} votos`}
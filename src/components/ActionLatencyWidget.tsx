@@ -17,6 +17,11 @@ import {
   CalendarToday,
 } from "@mui/icons-material";
 import { supabase } from "@/lib/supabase";
+import {
+  isInStrategicScope,
+  resolveStrategicScope,
+  type StrategicValue,
+} from "@/utils/strategicScope";
 import { IOSWidget } from "./ui";
 
 interface ProjectLatency {
@@ -30,7 +35,7 @@ interface ProjectLatency {
 
 interface ActionLatencyWidgetProps {
   teamId?: string | null;
-  strategicFilter?: "all" | "yes" | "no";
+  strategicFilter?: StrategicValue;
 }
 
 const ITEMS_PER_PAGE = 4;
@@ -120,20 +125,16 @@ export default function ActionLatencyWidget({
       // ── 1. Resolve active project IDs respecting filters ──────────────────
       let activeProjectIds: string[] | null = null;
 
-      if (strategicFilter !== "all") {
-        const { data: filtered } = await supabase
-          .from("projects")
-          .select("id")
-          .eq("status", "active")
-          .eq("strategic_planning", strategicFilter === "yes");
-        activeProjectIds = (filtered ?? []).map((p: any) => p.id);
-      } else {
-        const { data: all } = await supabase
-          .from("projects")
-          .select("id")
-          .eq("status", "active");
-        activeProjectIds = (all ?? []).map((p: any) => p.id);
-      }
+      const { data: all } = await supabase
+        .from("projects")
+        .select("id")
+        .eq("status", "active");
+      activeProjectIds = (all ?? []).map((p: any) => p.id);
+
+      const strategicScope = await resolveStrategicScope(strategicFilter);
+      activeProjectIds = activeProjectIds.filter((id) =>
+        isInStrategicScope(strategicScope, id),
+      );
 
       // Apply team filter: keep only projects that have at least one sprint
       // belonging to the selected team
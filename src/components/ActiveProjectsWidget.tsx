@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { Box, Typography, CircularProgress, Chip, LinearProgress, IconButton, useTheme } from '@mui/material'
 import { Assignment, CalendarToday, KeyboardArrowUp, KeyboardArrowDown } from '@mui/icons-material'
 import { supabase } from '@/lib/supabase'
+import { filterByStrategicScope, resolveStrategicScope, type StrategicValue } from '@/utils/strategicScope'
 import ProjectDetailsModal from './ProjectDetailsModal'
 import { IOSWidget } from './ui'
 
@@ -18,7 +19,7 @@ interface ActiveProject {
 
 interface ActiveProjectsWidgetProps {
   teamId?: string | null
-  strategicFilter?: 'all' | 'yes' | 'no'
+  strategicFilter?: StrategicValue
 }
 
 const ITEMS_PER_PAGE = 2
@@ -54,10 +55,9 @@ export default function ActiveProjectsWidget({ teamId, strategicFilter = 'all' }
         .eq('status', 'active')
         .order('end_date', { ascending: true })
 
-      if (strategicFilter !== 'all') {
-        projectQuery = projectQuery.eq('strategic_planning', strategicFilter === 'yes')
-        // Note: projects always have strategic_planning set, so no NULL handling needed here
-      }
+      // Projects always exist here, so includeNull does not apply
+      const strategicScope = await resolveStrategicScope(strategicFilter)
+      projectQuery = filterByStrategicScope(projectQuery, 'id', strategicScope)
 
       if (teamId) {
         const { data: teamSprints } = await supabase
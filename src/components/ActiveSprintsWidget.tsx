@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { Box, Typography, CircularProgress, Chip, LinearProgress, IconButton, useTheme } from '@mui/material'
 import { SpaceDashboard, CalendarToday, KeyboardArrowUp, KeyboardArrowDown } from '@mui/icons-material'
 import { supabase } from '@/lib/supabase'
+import { filterByStrategicScope, resolveStrategicScope, type StrategicValue } from '@/utils/strategicScope'
 import SprintDetailsModal from './SprintDetailsModal'
 import { IOSWidget } from './ui'
 
@@ -18,7 +19,7 @@ interface ActiveSprint {
 
 interface ActiveSprintsWidgetProps {
   teamId?: string | null
-  strategicFilter?: 'all' | 'yes' | 'no'
+  strategicFilter?: StrategicValue
 }
 
 const ITEMS_PER_PAGE = 2
@@ -58,23 +59,18 @@ export default function ActiveSprintsWidget({ teamId, strategicFilter = 'all' }:
         sprintsQuery = sprintsQuery.eq('team_id', teamId)
       }
 
-      if (strategicFilter !== 'all') {
-        const { data: strategicProjects } = await supabase
-          .from('projects')
-          .select('id')
-          .eq('strategic_planning', strategicFilter === 'yes')
-        const projectIds = (strategicProjects ?? []).map((p: any) => p.id)
-        if (strategicFilter === 'no') {
-          // "Não": two separate queries to avoid PostgREST OR+IS NULL unreliability
+      const strategicScope = await resolveStrategicScope(strategicFilter)
+      if (strategicScope) {
+        if (strategicScope.includeNull) {
+          // "Sem objetivo": two separate queries to avoid PostgREST OR+IS NULL unreliability
           const collectedIds: string[] = []
 
-          if (projectIds.length > 0) {
-            let q1 = supabase.from('sprints').select('id, name, start_date, end_date, project_id, team_id')
-              .eq('status', 'active').in('project_id', projectIds).order('end_date', { ascending: true })
-            if (teamId) q1 = q1.eq('team_id', teamId)
-            const { data: d1 } = await q1
-            ;(d1 ?? []).forEach((s: any) => collectedIds.push(s.id))
-          }
+          let q1 = supabase.from('sprints').select('id, name, start_date, end_date, project_id, team_id')
+            .eq('status', 'active').order('end_date', { ascending: true })
+          q1 = filterByStrategicScope(q1, 'project_id', strategicScope)
+          if (teamId) q1 = q1.eq('team_id', teamId)
+          const { data: d1 } = await q1
+          ;(d1 ?? []).forEach((s: any) => collectedIds.push(s.id))
 
           let q2 = supabase.from('sprints').select('id, name, start_date, end_date, project_id, team_id')
             .eq('status', 'active').is('project_id', null).order('end_date', { ascending: true })
@@ -126,10 +122,8 @@ export default function ActiveSprintsWidget({ teamId, strategicFilter = 'all' }:
           setLoading(false)
           return
         } else {
-          // "Sim": only explicitly strategic projects
-          sprintsQuery = projectIds.length > 0
-            ? sprintsQuery.in('project_id', projectIds)
-            : sprintsQuery.in('project_id', ['00000000-0000-0000-0000-000000000000'])
+          // Objective: only the projects contributing to it
+          sprintsQuery = filterByStrategicScope(sprintsQuery, 'project_id', strategicScope)
         }
       }
 
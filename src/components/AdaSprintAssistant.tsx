@@ -17,12 +17,14 @@ import {
   ExpandMore,
   ExpandLess,
   Warning,
+  Loop,
 } from "@mui/icons-material";
 import AdaModal from "./AdaModal";
+import type { RecurringAction } from "@/utils/retrospective";
 
 interface RetrospectiveItem {
   id: string;
-  category: "went_well" | "to_improve" | "action_item";
+  category: "went_well" | "to_improve" | "action_item" | "other";
   content: string;
   votes: number;
   status: string;
@@ -37,6 +39,8 @@ interface AdaSprintAssistantProps {
   actionItems: RetrospectiveItem[];
   improvementPoints: RetrospectiveItem[];
   pendingActions: RetrospectiveItem[];
+  /** Actions written again in several recent retrospectives */
+  recurringActions?: RecurringAction[];
   sprintCount?: number;
   isLoadingCount?: boolean;
 }
@@ -51,6 +55,7 @@ function generateAdaMessage(
   moodRating: number,
   improvementPoints: RetrospectiveItem[],
   pendingActions: RetrospectiveItem[],
+  recurringActions: RecurringAction[],
 ): string {
   const parts: string[] = [];
 
@@ -110,6 +115,14 @@ function generateAdaMessage(
         `${topPendingActions.length > 1 ? "Existem ações" : "Há uma ação"} pendente${topPendingActions.length > 1 ? "s" : ""} da retrospectiva anterior: ${actionTexts.join(", ")}.`,
       );
     }
+
+    // Actions the team keeps writing without solving
+    const topRecurring = recurringActions[0];
+    if (topRecurring) {
+      parts.push(
+        `A ação "${topRecurring.content}" já apareceu em ${topRecurring.sprintNames.length} retrospectivas. Vale transformá-la em trabalho planejado neste sprint.`,
+      );
+    }
   }
 
   return parts.join(" ");
@@ -136,6 +149,7 @@ export default function AdaSprintAssistant({
   actionItems,
   improvementPoints,
   pendingActions,
+  recurringActions = [],
   sprintCount,
   isLoadingCount = false,
 }: AdaSprintAssistantProps) {
@@ -152,8 +166,17 @@ export default function AdaSprintAssistant({
       moodRating,
       improvementPoints,
       pendingActions,
+      recurringActions,
     );
-  }, [loading, hasData, sprintName, moodRating, improvementPoints, pendingActions]);
+  }, [
+    loading,
+    hasData,
+    sprintName,
+    moodRating,
+    improvementPoints,
+    pendingActions,
+    recurringActions,
+  ]);
 
   const sprintCountingMessage = useMemo(() => {
     if (loading || isLoadingCount) return "";
@@ -353,7 +376,8 @@ export default function AdaSprintAssistant({
           {hasData &&
             (pendingActions.length > 0 ||
               improvementPoints.length > 0 ||
-              actionItems.length > 0) && (
+              actionItems.length > 0 ||
+              recurringActions.length > 0) && (
               <Box
                 sx={{
                   mt: 2,
@@ -375,6 +399,28 @@ export default function AdaSprintAssistant({
                     }}
                   />
                 )}
+                {recurringActions.length > 0 && (
+                  <Tooltip
+                    title={recurringActions
+                      .map(
+                        (action) =>
+                          `${action.content} (${action.sprintNames.join(", ")})`,
+                      )
+                      .join(" • ")}
+                  >
+                    <Chip
+                      icon={<Loop sx={{ fontSize: 14 }} />}
+                      label={`${recurringActions.length} ${recurringActions.length === 1 ? "ação recorrente" : "ações recorrentes"}`}
+                      size="small"
+                      sx={{
+                        bgcolor: alpha("#ef4444", 0.1),
+                        color: "#ef4444",
+                        fontWeight: 600,
+                        "& .MuiChip-icon": { color: "#ef4444" },
+                      }}
+                    />
+                  </Tooltip>
+                )}
                 {improvementPoints.length > 0 && (
                   <Chip
                     icon={<CheckCircle sx={{ fontSize: 14 }} />}
@@ -12,9 +12,13 @@ import {
   ReferenceLine,
 } from 'recharts'
 import { TrendingDown } from '@mui/icons-material'
+import { useSprintSnapshots } from '@/hooks/useSprintScope'
+import { buildSprintScopeSeries } from '@/utils/sprintScope'
 
 interface BurndownChartProps {
   sprint: {
+    /** Enables the daily scope snapshots; without it history is rebuilt from the current stories */
+    id?: string
     start_date: string
     end_date: string
   }
@@ -28,50 +32,12 @@ interface BurndownChartProps {
 export default function BurndownChart({ sprint, stories }: BurndownChartProps) {
   const theme = useTheme()
   const isDarkMode = theme.palette.mode === 'dark'
-  const chartData = useMemo(() => {
-    const startDate = new Date(sprint.start_date)
-    const endDate = new Date(sprint.end_date)
-    const today = new Date()
+  const { data: snapshots = [] } = useSprintSnapshots(sprint.id)
 
-    // Calculate total points
-    const totalPoints = stories.reduce((sum, story) => sum + (story.story_points || 0), 0)
-
-    // Calculate number of days
-    const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))
-
-    // Generate data points for each day
-    const data = []
-    for (let i = 0; i <= totalDays; i++) {
-      const currentDate = new Date(startDate)
-      currentDate.setDate(startDate.getDate() + i)
-
-      // Ideal burndown (linear)
-      const idealRemaining = totalPoints - (totalPoints / totalDays) * i
-
-      // Actual burndown (based on completed stories)
-      const completedByDate = stories.filter((story) => {
-        if (story.status !== 'done' || !story.completed_at) return false
-        const completedDate = new Date(story.completed_at)
-        return completedDate <= currentDate
-      })
-      const completedPoints = completedByDate.reduce((sum, story) => sum + (story.story_points || 0), 0)
-      const actualRemaining = totalPoints - completedPoints
-
-      // Only show actual data up to today
-      const isToday = currentDate.toDateString() === today.toDateString()
-      const isFuture = currentDate > today
-
-      data.push({
-        day: i,
-        date: currentDate.toLocaleDateString('pt-BR', { month: 'short', day: 'numeric' }),
-        ideal: Math.max(0, idealRemaining),
-        actual: isFuture ? null : actualRemaining,
-        isToday,
-      })
-    }
-
-    return data
-  }, [sprint, stories])
+  const { points: chartData, hasEstimatedDays } = useMemo(
+    () => buildSprintScopeSeries(sprint, snapshots, stories),
+    [sprint, snapshots, stories]
+  )
 
   const totalPoints = stories.reduce((sum, story) => sum + (story.story_points || 0), 0)
   const completedPoints = stories
@@ -203,7 +169,7 @@ export default function BurndownChart({ sprint, stories }: BurndownChartProps) {
           {/* Actual Line */}
           <Line
             type="monotone"
-            dataKey="actual"
+            dataKey="remaining"
             name="Real"
             stroke="#6366f1"
             strokeWidth={3}
@@ -230,6 +196,12 @@ export default function BurndownChart({ sprint, stories }: BurndownChartProps) {
         </LineChart>
       </ResponsiveContainer>
 
+      {hasEstimatedDays && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          Dias sem registro diário foram estimados a partir das histórias atuais do sprint.
+        </Typography>
+      )}
+
       {/* Status Message */}
       <Box
         sx={{
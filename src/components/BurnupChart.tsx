@@ -0,0 +1,220 @@
+import { useMemo } from 'react'
+import { Box, Typography, Paper, Chip, useTheme } from '@mui/material'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts'
+import { TrendingUp } from '@mui/icons-material'
+import { useSprintSnapshots } from '@/hooks/useSprintScope'
+import { buildSprintScopeSeries, type SprintScopePoint } from '@/utils/sprintScope'
+
+interface BurnupChartProps {
+  sprint: {
+    id: string
+    start_date: string
+    end_date: string
+  }
+  stories: Array<{
+    story_points: number
+    status: string
+    completed_at?: string
+  }>
+}
+
+const SCOPE_COLOR = '#f59e0b'
+const DONE_COLOR = '#10b981'
+
+/** Marks the days where the scope changed */
+function ScopeChangeDot({ cx, cy, payload }: { cx?: number; cy?: number; payload?: SprintScopePoint }) {
+  if (!payload || payload.scopeDelta === 0 || cx === undefined || cy === undefined) return null
+  return (
+    <circle
+      cx={cx}
+      cy={cy}
+      r={5}
+      fill={payload.scopeDelta > 0 ? SCOPE_COLOR : '#ef4444'}
+      stroke="white"
+      strokeWidth={2}
+    />
+  )
+}
+
+export default function BurnupChart({ sprint, stories }: BurnupChartProps) {
+  const theme = useTheme()
+  const isDarkMode = theme.palette.mode === 'dark'
+  const { data: snapshots = [] } = useSprintSnapshots(sprint.id)
+
+  const { points: chartData, committedPoints, hasEstimatedDays } = useMemo(
+    () => buildSprintScopeSeries(sprint, snapshots, stories),
+    [sprint, snapshots, stories]
+  )
+
+  const currentScope = stories.reduce((sum, story) => sum + (story.story_points || 0), 0)
+  const scopeChange = currentScope - committedPoints
+
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const point = payload[0].payload as SprintScopePoint
+      return (
+        <Paper
+          elevation={3}
+          sx={{
+            p: 2,
+            bgcolor: isDarkMode ? '#1e293b' : 'white',
+            border: '2px solid rgba(245, 158, 11, 0.2)',
+          }}
+        >
+          <Typography variant="caption" fontWeight={700} sx={{ display: 'block', mb: 1 }}>
+            {point.date}
+          </Typography>
+          {payload.map((entry: any, index: number) => (
+            <Typography
+              key={index}
+              variant="caption"
+              sx={{ display: 'block', color: entry.color, fontWeight: 600 }}
+            >
+              {entry.name}: {entry.value !== null ? Math.round(entry.value) : '-'} pontos
+            </Typography>
+          ))}
+          {point.scopeDelta !== 0 && (
+            <Typography variant="caption" sx={{ display: 'block', mt: 0.5, fontWeight: 700 }}>
+              Escopo {point.scopeDelta > 0 ? '+' : ''}
+              {point.scopeDelta} pts neste dia
+            </Typography>
+          )}
+        </Paper>
+      )
+    }
+    return null
+  }
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        borderRadius: 3,
+        background: isDarkMode
+          ? 'linear-gradient(135deg, #1e293b 0%, #0f172a 100%)'
+          : 'linear-gradient(135deg, #ffffff 0%, #f8fafc 100%)',
+        border: '2px solid rgba(245, 158, 11, 0.1)',
+      }}
+    >
+      {/* Header */}
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 3, gap: 1, flexWrap: 'wrap' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Box
+            sx={{
+              width: 40,
+              height: 40,
+              borderRadius: 2,
+              background: 'linear-gradient(135deg, #f59e0b 0%, #10b981 100%)',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+            }}
+          >
+            <TrendingUp sx={{ color: 'white', fontSize: 20 }} />
+          </Box>
+          <Box>
+            <Typography variant="h6" fontWeight={700}>
+              Burnup Chart
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              Entregue x Escopo
+            </Typography>
+          </Box>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Chip
+            label={`${committedPoints} pts comprometidos`}
+            sx={{ bgcolor: 'rgba(99, 102, 241, 0.1)', color: '#6366f1', fontWeight: 700 }}
+          />
+          {scopeChange !== 0 && (
+            <Chip
+              label={`${scopeChange > 0 ? '+' : ''}${scopeChange} pts de escopo`}
+              sx={{
+                bgcolor: scopeChange > 0 ? 'rgba(245, 158, 11, 0.1)' : 'rgba(239, 68, 68, 0.1)',
+                color: scopeChange > 0 ? SCOPE_COLOR : '#ef4444',
+                fontWeight: 700,
+              }}
+            />
+          )}
+        </Box>
+      </Box>
+
+      {/* Chart */}
+      <ResponsiveContainer width="100%" height={300}>
+        <LineChart data={chartData} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(245, 158, 11, 0.1)" />
+          <XAxis
+            dataKey="date"
+            stroke="#6b7280"
+            style={{ fontSize: 12, fontWeight: 600 }}
+            tick={{ fill: '#6b7280' }}
+          />
+          <YAxis
+            stroke="#6b7280"
+            style={{ fontSize: 12, fontWeight: 600 }}
+            tick={{ fill: '#6b7280' }}
+            label={{ value: 'Story Points', angle: -90, position: 'insideLeft', style: { fill: '#6b7280', fontWeight: 600 } }}
+          />
+          <Tooltip content={<CustomTooltip />} />
+          <Legend wrapperStyle={{ fontSize: 14, fontWeight: 600 }} iconType="line" />
+
+          <Line
+            type="linear"
+            dataKey="idealDone"
+            name="Ideal"
+            stroke="#9ca3af"
+            strokeWidth={2}
+            strokeDasharray="5 5"
+            dot={false}
+            activeDot={false}
+          />
+          <Line
+            type="stepAfter"
+            dataKey="scope"
+            name="Escopo"
+            stroke={SCOPE_COLOR}
+            strokeWidth={2}
+            dot={<ScopeChangeDot />}
+          />
+          <Line
+            type="monotone"
+            dataKey="completed"
+            name="Concluído"
+            stroke={DONE_COLOR}
+            strokeWidth={3}
+            dot={{ fill: DONE_COLOR, r: 4 }}
+            activeDot={{ r: 6, stroke: DONE_COLOR, strokeWidth: 2, fill: 'white' }}
+          />
+
+          {chartData.findIndex((d) => d.isToday) >= 0 && (
+            <ReferenceLine
+              x={chartData.find((d) => d.isToday)?.date}
+              stroke="#6366f1"
+              strokeWidth={2}
+              strokeDasharray="3 3"
+              label={{ value: 'Hoje', position: 'top', fill: '#6366f1', fontWeight: 700, fontSize: 12 }}
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+
+      {hasEstimatedDays && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          Dias sem registro diário foram estimados a partir das histórias atuais do sprint.
+        </Typography>
+      )}
+    </Paper>
+  )
+}
@@ -15,6 +15,7 @@ import { Save, Functions, PersonOutline } from "@mui/icons-material";
 import toast from "react-hot-toast";
 import Modal from "./Modal";
 import { supabase } from "@/lib/supabase";
+import { EpicSelect } from "@/components/backlog";
 
 interface CreateBacklogItemModalProps {
   open: boolean;
@@ -29,6 +30,7 @@ interface CreateBacklogItemModalProps {
     story_points: number;
     project_id: string;
     assigned_to: string;
+    parent_task_id?: string | null;
   };
 }
 
@@ -62,6 +64,7 @@ export default function CreateBacklogItemModal({
     story_points: 0,
     project_id: "",
     assigned_to: "",
+    parent_task_id: "",
   });
 
   useEffect(() => {
@@ -76,6 +79,7 @@ export default function CreateBacklogItemModal({
           story_points: item.story_points || 0,
           project_id: item.project_id || "",
           assigned_to: item.assigned_to || "",
+          parent_task_id: item.parent_task_id || "",
         });
       } else {
         resetForm();
@@ -167,6 +171,7 @@ export default function CreateBacklogItemModal({
       story_points: 0,
       project_id: "",
       assigned_to: "",
+      parent_task_id: "",
     });
   };
 
@@ -200,6 +205,7 @@ export default function CreateBacklogItemModal({
             story_points: formData.story_points,
             project_id: formData.project_id,
             assigned_to: formData.assigned_to || null,
+            parent_task_id: formData.parent_task_id || null,
           })
           .eq("id", item.id);
 
@@ -216,6 +222,7 @@ export default function CreateBacklogItemModal({
             story_points: formData.story_points,
             project_id: formData.project_id,
             assigned_to: formData.assigned_to || null,
+            parent_task_id: formData.parent_task_id || null,
             sprint_id: null, // Backlog items have no sprint
             created_by: user.user?.id,
           },
@@ -276,7 +283,12 @@ export default function CreateBacklogItemModal({
                 required
                 value={formData.project_id}
                 onChange={(e) =>
-                  setFormData({ ...formData, project_id: e.target.value, assigned_to: "" })
+                  setFormData({
+                    ...formData,
+                    project_id: e.target.value,
+                    assigned_to: "",
+                    parent_task_id: "",
+                  })
                 }
               >
                 <MenuItem value="">
@@ -368,6 +380,16 @@ export default function CreateBacklogItemModal({
                 ))}
               </TextField>
             </Grid>
+
+            <Grid item xs={12}>
+              <EpicSelect
+                projectId={formData.project_id}
+                value={formData.parent_task_id}
+                onChange={(value) =>
+                  setFormData({ ...formData, parent_task_id: value })
+                }
+              />
+            </Grid>
           </Grid>
 
           <Box>
@@ -26,6 +26,9 @@ import {
   useSprintCount,
   generateFullSprintName,
 } from "@/hooks/useSprintRetrospectiveInsights";
+import { useSaveSprintCapacity } from "@/hooks/useSprintCapacity";
+import { SprintCapacityPlanner } from "@/components/capacity";
+import type { SprintMemberCapacityInput } from "@/types";
 
 interface CreateSprintModalProps {
   open: boolean;
@@ -72,6 +75,8 @@ export default function CreateSprintModal({
     project_id: "",
     velocity: 0,
   });
+  const [capacity, setCapacity] = useState<SprintMemberCapacityInput[]>([]);
+  const saveCapacity = useSaveSprintCapacity();
 
   // Fetch retrospective insights for Ada
   const {
@@ -193,7 +198,7 @@ export default function CreateSprintModal({
       // Generate the full sprint name with automatic prefix
       const fullSprintName = generateFullSprintName(sprintCount, formData.user_title);
 
-      const { error } = await supabase.from("sprints").insert([
+      const { data: createdSprint, error } = await supabase.from("sprints").insert([
         {
           name: fullSprintName,
           goal: formData.goal,
@@ -205,10 +210,17 @@ export default function CreateSprintModal({
           velocity: formData.velocity,
           created_by: user?.id,
         },
-      ]);
+      ]).select("id").single();
 
       if (error) throw error;
 
+      if (capacity.length > 0) {
+        // The sprint is kept even if the capacity fails to save (the hook reports it)
+        await saveCapacity
+          .mutateAsync({ sprintId: createdSprint.id, members: capacity })
+          .catch(() => undefined);
+      }
+
       toast.success("Sprint criado com sucesso!");
       setFormData({
         user_title: "",
@@ -220,6 +232,7 @@ export default function CreateSprintModal({
         project_id: defaultProjectId || "",
         velocity: 0,
       });
+      setCapacity([]);
       onSuccess();
       onClose();
     } catch (error) {
@@ -312,6 +325,7 @@ export default function CreateSprintModal({
                   actionItems={retroInsights?.actionItems || []}
                   improvementPoints={retroInsights?.improvementPoints || []}
                   pendingActions={retroInsights?.pendingActions || []}
+                  recurringActions={retroInsights?.recurringActions || []}
                   sprintCount={sprintCount}
                   isLoadingCount={isLoadingCount}
                 />
@@ -429,6 +443,18 @@ export default function CreateSprintModal({
                 </Box>
               )}
 
+              {/* Member availability and team capacity */}
+              {formData.team_id && (
+                <SprintCapacityPlanner
+                  teamId={formData.team_id}
+                  projectId={formData.project_id || undefined}
+                  startDate={formData.start_date}
+                  endDate={formData.end_date}
+                  value={capacity}
+                  onChange={setCapacity}
+                />
+              )}
+
               <Box
                 sx={{
                   display: "grid",
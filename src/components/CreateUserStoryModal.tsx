@@ -28,6 +28,8 @@ import toast from "react-hot-toast";
 import Modal from "./Modal";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
+import { EpicSelect } from "@/components/backlog";
+import { LabelsInput } from "@/components/kanban";
 import { useTaskMilestone } from "@/hooks/useTaskMilestone";
 
 interface CreateUserStoryModalProps {
@@ -90,6 +92,8 @@ export default function CreateUserStoryModal({
     story_points: 0,
     assigned_to: "",
     due_date: "",
+    parent_task_id: "",
+    labels: [] as string[],
   });
 
   useEffect(() => {
@@ -104,6 +108,8 @@ export default function CreateUserStoryModal({
         story_points: 0,
         assigned_to: "",
         due_date: "",
+        parent_task_id: "",
+        labels: [],
       });
       setSelectedPredecessors([]);
     }
@@ -224,6 +230,8 @@ export default function CreateUserStoryModal({
           project_id: projectId,
           assigned_to: formData.assigned_to || null,
           due_date: formData.due_date || null,
+          parent_task_id: formData.parent_task_id || null,
+          labels: formData.labels,
           created_by: authData.user?.id,
           // Stamp completion time if created directly as done
           completed_at: formData.status === "done" ? new Date().toISOString() : null,
@@ -392,6 +400,12 @@ export default function CreateUserStoryModal({
             </TextField>
           </Box>
 
+          <LabelsInput
+            projectId={projectId}
+            value={formData.labels}
+            onChange={(labels) => setFormData((prev) => ({ ...prev, labels }))}
+          />
+
           <Box
             sx={{
               display: "grid",
@@ -469,6 +483,15 @@ export default function CreateUserStoryModal({
             </TextField>
           </Box>
 
+          {/* Epic */}
+          {projectId && (
+            <EpicSelect
+              projectId={projectId}
+              value={formData.parent_task_id}
+              onChange={(value) => handleChange("parent_task_id", value)}
+            />
+          )}
+
           {/* Due Date */}
           <TextField
             fullWidth
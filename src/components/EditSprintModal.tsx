@@ -20,6 +20,9 @@ import {
 import toast from 'react-hot-toast'
 import Modal from './Modal'
 import { supabase } from '@/lib/supabase'
+import { useSaveSprintCapacity } from '@/hooks/useSprintCapacity'
+import { SprintCapacityPlanner } from '@/components/capacity'
+import type { SprintMemberCapacityInput } from '@/types'
 
 interface EditSprintModalProps {
   open: boolean
@@ -75,10 +78,13 @@ export default function EditSprintModal({
     project_id: '',
     velocity: 0,
   })
+  const [capacity, setCapacity] = useState<SprintMemberCapacityInput[]>([])
+  const saveCapacity = useSaveSprintCapacity()
 
   useEffect(() => {
     if (open) {
       fetchTeamsAndProjects()
+      setCapacity([])
       if (sprint) {
         setFormData({
           name: sprint.name || '',
@@ -164,6 +170,11 @@ export default function EditSprintModal({
 
       if (error) throw error
 
+      if (capacity.length > 0) {
+        // The sprint is kept even if the capacity fails to save (the hook reports it)
+        await saveCapacity.mutateAsync({ sprintId: sprint.id, members: capacity }).catch(() => undefined)
+      }
+
       toast.success('Sprint atualizado com sucesso!')
       onSuccess()
       onClose()
@@ -344,6 +355,19 @@ export default function EditSprintModal({
                 </Box>
               )}
 
+              {/* Member availability and team capacity */}
+              {formData.team_id && (
+                <SprintCapacityPlanner
+                  teamId={formData.team_id}
+                  projectId={formData.project_id || undefined}
+                  sprintId={sprint.id}
+                  startDate={formData.start_date}
+                  endDate={formData.end_date}
+                  value={capacity}
+                  onChange={setCapacity}
+                />
+              )}
+
               <Box
                 sx={{
                   display: 'grid',
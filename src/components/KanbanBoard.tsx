@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react'
-import { Box, Typography, Paper, Chip, Dialog, DialogTitle, DialogContent, DialogActions, Button, List, ListItem, ListItemText, Divider, useTheme } from '@mui/material'
+import { useState, useEffect, useMemo } from 'react'
+import { Box, Typography, Paper, Chip, Tooltip, Dialog, DialogTitle, DialogContent, DialogActions, Button, List, ListItem, ListItemText, Divider, useTheme } from '@mui/material'
 import {
   DndContext,
   DragEndEvent,
@@ -21,6 +21,20 @@ import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import confetti from 'canvas-confetti'
 import { useTaskMilestone } from '@/hooks/useTaskMilestone'
+import type { EpicRow } from '@/utils/epics'
+import { buildSwimlanes } from '@/utils/kanbanFilters'
+import type { KanbanSwimlaneMode } from '@/types'
+import {
+  DEFAULT_WORKFLOW,
+  checkColumnMove,
+  countByColumn,
+  getColumnUpdate,
+  getTaskColumn,
+  getWipScope,
+  isOverWip,
+  type BoardColumn,
+  type ResolvedWorkflow,
+} from '@/utils/kanbanWorkflow'
 
 interface Sprint {
   id: string
@@ -40,7 +54,14 @@ interface UserStory {
   start_date?: string | null
   end_date?: string | null
   profiles?: { full_name: string }
+  assigned_to_profile?: { full_name: string }
   subtasks?: Array<{ status: string }>
+  parent_task_id?: string | null
+  workflow_column_id?: string | null
+  labels?: string[] | null
+  project_id?: string
+  sprint_id?: string | null
+  task_type?: string | null
 }
 
 interface TaskDependency {
@@ -54,19 +75,24 @@ interface KanbanBoardProps {
   onDeleteStory: (storyId: string, title: string) => void
   currentSprintId?: string
   isStakeholder?: boolean
+  /** Epics and features of the project, for the card chips and swimlanes */
+  epicsById?: Map<string, EpicRow>
+  /** Swimlanes by assignee, priority, top-level epic or blocked / pending dependency */
+  swimlaneBy?: KanbanSwimlaneMode
+  /** Columns, WIP limits and allowed moves of the project; one column per status by default */
+  workflow?: ResolvedWorkflow
+  /** Stories the WIP limits count, e.g. the whole sprint while the board is filtered */
+  wipScope?: UserStory[]
 }
 
-const columns = [
-  { id: 'todo', label: 'A Fazer', color: '#6b7280', bgColor: 'rgba(107, 114, 128, 0.1)' },
-  { id: 'in-progress', label: 'Em Progresso', color: '#f59e0b', bgColor: 'rgba(245, 158, 11, 0.1)' },
-  { id: 'review', label: 'Em Revisão', color: '#8b5cf6', bgColor: 'rgba(139, 92, 246, 0.1)' },
-  { id: 'done', label: 'Concluído', color: '#10b981', bgColor: 'rgba(16, 185, 129, 0.1)' },
-  { id: 'blocked', label: 'Bloqueado', color: '#ef4444', bgColor: 'rgba(239, 68, 68, 0.1)' },
-]
+const WIP_EXCEEDED_COLOR = '#ef4444'
+
+// Column droppables are "column-<column id>", or "column-<column id>::<lane>" in swimlanes
+const parseColumnId = (overId: string) => overId.replace('column-', '').split('::')[0]
 
 // Droppable Column Component
-function DroppableColumn({ id, children }: { id: string; children: React.ReactNode }) {
-  const droppableId = `column-${id}`
+function DroppableColumn({ id, lane, children }: { id: string; lane?: string; children: React.ReactNode }) {
+  const droppableId = lane ? `column-${id}::${lane}` : `column-${id}`
   const { setNodeRef, isOver } = useDroppable({ id: droppableId })
 
   return (
@@ -74,7 +100,7 @@ function DroppableColumn({ id, children }: { id: string; children: React.ReactNo
       ref={setNodeRef}
       sx={{
         flex: 1,
-        minHeight: 300,
+        minHeight: lane ? 80 : 300,
         overflowY: 'auto',
         pr: 0.5,
         transition: 'all 0.2s ease',
@@ -88,7 +114,17 @@ function DroppableColumn({ id, children }: { id: string; children: React.ReactNo
   )
 }
 
-export default function KanbanBoard({ stories, onRefresh, onDeleteStory, currentSprintId, isStakeholder = false }: KanbanBoardProps) {
+export default function KanbanBoard({
+  stories,
+  onRefresh,
+  onDeleteStory,
+  currentSprintId,
+  isStakeholder = false,
+  epicsById,
+  swimlaneBy = 'none',
+  workflow = DEFAULT_WORKFLOW,
+  wipScope,
+}: KanbanBoardProps) {
   const theme = useTheme()
   const { user } = useAuth()
   const { checkAndNotifyMilestone } = useTaskMilestone()
@@ -104,7 +140,11 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
 
   // Block reason modal state
   const [blockReasonModalOpen, setBlockReasonModalOpen] = useState(false)
-  const [pendingBlockStory, setPendingBlockStory] = useState<{ id: string; title: string } | null>(null)
+  const [pendingBlockStory, setPendingBlockStory] = useState<{
+    id: string
+    title: string
+    workflowColumnId: string | null
+  } | null>(null)
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -156,15 +196,28 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
     }, 250)
   }
 
-  useEffect(() => {
-    // Group stories by status
-    const grouped = columns.reduce((acc, col) => {
-      acc[col.id] = stories.filter((story) => story.status === col.id)
+  // Workflow columns; columns for statuses the workflow does not map only while they hold stories
+  const columns = useMemo(
+    () =>
+      workflow.columns
+        .filter((column) => !column.implicit || stories.some((story) => getTaskColumn(workflow, story).id === column.id))
+        .map((column) => ({ ...column, bgColor: `${column.color}1a` })),
+    [workflow, stories]
+  )
+
+  const wipCounts = useMemo(() => countByColumn(workflow, wipScope || stories), [workflow, wipScope, stories])
+
+  // Group stories by column
+  const groupStories = () =>
+    columns.reduce((acc, col) => {
+      acc[col.id] = stories.filter((story) => getTaskColumn(workflow, story).id === col.id)
       return acc
     }, {} as Record<string, UserStory[]>)
 
-    setStoriesByStatus(grouped)
-  }, [stories])
+  useEffect(() => {
+    setStoriesByStatus(groupStories())
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stories, columns])
 
   // Fetch dependencies for all stories
   useEffect(() => {
@@ -285,6 +338,7 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
         assigned_to: storyToClone.assigned_to,
         sprint_id: targetSprintId,
         project_id: storyToClone.project_id,
+        parent_task_id: storyToClone.parent_task_id,
       })
 
       if (error) throw error
@@ -335,18 +389,18 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
 
     // Check if we're over a column droppable (has 'column-' prefix)
     if (overId.startsWith('column-')) {
-      overId = overId.replace('column-', '')
+      overId = parseColumnId(overId)
     }
 
     // Find the active story from the current grouped state
     let activeStory: UserStory | undefined
-    let currentStatus = ''
+    let currentColumn = ''
 
-    for (const [status, storyList] of Object.entries(storiesByStatus)) {
+    for (const [columnId, storyList] of Object.entries(storiesByStatus)) {
       const found = storyList.find((s) => s.id === activeId)
       if (found) {
         activeStory = found
-        currentStatus = status
+        currentColumn = columnId
         break
       }
     }
@@ -359,27 +413,28 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
     // If we're over a card, find which column it belongs to
     let targetColumn = overId
     if (!isOverColumn) {
-      for (const [status, storyList] of Object.entries(storiesByStatus)) {
+      for (const [columnId, storyList] of Object.entries(storiesByStatus)) {
         if (storyList.some((s) => s.id === overId)) {
-          targetColumn = status
+          targetColumn = columnId
           break
         }
       }
     }
 
     // Only update if actually moving to a different column
-    if (currentStatus !== targetColumn && columns.some((col) => col.id === targetColumn)) {
+    const target = columns.find((col) => col.id === targetColumn)
+    if (currentColumn !== targetColumn && target) {
       setStoriesByStatus((prev) => {
         const newState = { ...prev }
 
         // Remove from current column
-        newState[currentStatus] = newState[currentStatus].filter((s) => s.id !== activeId)
+        newState[currentColumn] = newState[currentColumn].filter((s) => s.id !== activeId)
 
         // Add to target column
         if (!newState[targetColumn]) {
           newState[targetColumn] = []
         }
-        newState[targetColumn] = [...newState[targetColumn], { ...activeStory!, status: targetColumn }]
+        newState[targetColumn] = [...newState[targetColumn], { ...activeStory!, ...getColumnUpdate(workflow, target) }]
 
         return newState
       })
@@ -392,11 +447,7 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
 
     if (!over) {
       // Reset to original state if dropped outside
-      const grouped = columns.reduce((acc, col) => {
-        acc[col.id] = stories.filter((story) => story.status === col.id)
-        return acc
-      }, {} as Record<string, UserStory[]>)
-      setStoriesByStatus(grouped)
+      setStoriesByStatus(groupStories())
       return
     }
 
@@ -405,56 +456,68 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
 
     // Check if we're over a column droppable (has 'column-' prefix)
     if (overId.startsWith('column-')) {
-      overId = overId.replace('column-', '')
+      overId = parseColumnId(overId)
     }
 
     // Find the original story from the stories prop
     const story = stories.find((s) => s.id === storyId)
     if (!story) {
       // Reset if story not found
-      const grouped = columns.reduce((acc, col) => {
-        acc[col.id] = stories.filter((story) => story.status === col.id)
-        return acc
-      }, {} as Record<string, UserStory[]>)
-      setStoriesByStatus(grouped)
+      setStoriesByStatus(groupStories())
       return
     }
 
     // Determine the target column
-    let newStatus = overId
+    let targetColumnId = overId
 
     // Check if we're over a column
     const isOverColumn = columns.some((col) => col.id === overId)
 
     // If dropped over a card, find which column it belongs to
     if (!isOverColumn) {
-      for (const [status, storyList] of Object.entries(storiesByStatus)) {
+      for (const [columnId, storyList] of Object.entries(storiesByStatus)) {
         if (storyList.some((s) => s.id === overId)) {
-          newStatus = status
+          targetColumnId = columnId
           break
         }
       }
     }
 
     // Check if it's a valid column
-    const isValidColumn = columns.some((col) => col.id === newStatus)
-    if (!isValidColumn) {
+    const targetColumn = columns.find((col) => col.id === targetColumnId)
+    if (!targetColumn) {
       // Reset to original state
-      const grouped = columns.reduce((acc, col) => {
-        acc[col.id] = stories.filter((story) => story.status === col.id)
-        return acc
-      }, {} as Record<string, UserStory[]>)
-      setStoriesByStatus(grouped)
+      setStoriesByStatus(groupStories())
       return
     }
 
-    // Don't update if status hasn't changed
-    if (story.status === newStatus) {
+    // Don't update if the column hasn't changed
+    if (getTaskColumn(workflow, story).id === targetColumn.id) {
       return
     }
 
+    // Check the workflow: allowed transitions and WIP limits
+    const move = checkColumnMove(workflow, story, targetColumn, getWipScope(story, wipScope || stories))
+    if (!move.allowed) {
+      toast.error(move.message || 'Movimento não permitido', { duration: 4000 })
+      setStoriesByStatus(groupStories())
+      return
+    }
+    if (move.message) {
+      toast(`⚠️ ${move.message}`, {
+        duration: 4000,
+        style: {
+          background: '#fef3c7',
+          color: '#92400e',
+        },
+      })
+    }
+
+    const columnUpdate = getColumnUpdate(workflow, targetColumn)
+    const newStatus = columnUpdate.status
+
     // Check if moving to "done" and has incomplete predecessors
-    if (newStatus === 'done') {
+    if (newStatus === 'done' && story.status !== 'done') {
       const check = canMoveToDone(storyId)
       if (!check.allowed) {
         toast.error(`Não é possível concluir: ${check.reason}`, {
@@ -467,11 +530,7 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
           },
         })
         // Reset to original state
-        const grouped = columns.reduce((acc, col) => {
-          acc[col.id] = stories.filter((story) => story.status === col.id)
-          return acc
-        }, {} as Record<string, UserStory[]>)
-        setStoriesByStatus(grouped)
+        setStoriesByStatus(groupStories())
         return
       }
     }
@@ -479,20 +538,16 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
     // Check if blocking a story - require reason
     if (newStatus === 'blocked' && story.status !== 'blocked') {
       // Store the pending block action and show modal
-      setPendingBlockStory({ id: storyId, title: story.title })
+      setPendingBlockStory({ id: storyId, title: story.title, workflowColumnId: columnUpdate.workflow_column_id })
       setBlockReasonModalOpen(true)
       // Reset to original state while waiting for user input
-      const grouped = columns.reduce((acc, col) => {
-        acc[col.id] = stories.filter((s) => s.status === col.id)
-        return acc
-      }, {} as Record<string, UserStory[]>)
-      setStoriesByStatus(grouped)
+      setStoriesByStatus(groupStories())
       return
     }
 
     try {
       // Update status in database
-      const updateData: Record<string, unknown> = { status: newStatus }
+      const updateData: Record<string, unknown> = { ...columnUpdate }
 
       // Clear blocked_comment_id if unblocking
       if (story.status === 'blocked' && newStatus !== 'blocked') {
@@ -500,9 +555,9 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
       }
 
       // Stamp completion time so milestone timing is accurate
-      if (newStatus === 'done') {
+      if (newStatus === 'done' && story.status !== 'done') {
         updateData.completed_at = new Date().toISOString()
-      } else if (story.status === 'done') {
+      } else if (newStatus !== 'done' && story.status === 'done') {
         updateData.completed_at = null
       }
 
@@ -511,7 +566,7 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
       if (error) throw error
 
       // Celebrate if moved to 'done' column
-      if (newStatus === 'done') {
+      if (newStatus === 'done' && story.status !== 'done') {
         celebrateCompletion()
         // Fire-and-forget: check for gamification milestone
         if (user) void checkAndNotifyMilestone(user.id)
@@ -533,11 +588,7 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
       console.error('Error updating story status:', error)
       toast.error('Erro ao atualizar status')
       // Reset to original state on error
-      const grouped = columns.reduce((acc, col) => {
-        acc[col.id] = stories.filter((story) => story.status === col.id)
-        return acc
-      }, {} as Record<string, UserStory[]>)
-      setStoriesByStatus(grouped)
+      setStoriesByStatus(groupStories())
     }
   }
 
@@ -564,6 +615,7 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
         .from('tasks')
         .update({
           status: 'blocked',
+          workflow_column_id: pendingBlockStory.workflowColumnId,
           blocked_comment_id: commentData.id,
         })
         .eq('id', pendingBlockStory.id)
@@ -610,6 +662,98 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
 
   const activeStory = activeId ? stories.find((s) => s.id === activeId) : null
 
+  const { swimlanes, laneOf } = useMemo(
+    () =>
+      buildSwimlanes(swimlaneBy, stories, {
+        epicsById,
+        hasPendingDependency: (storyId) =>
+          (storyDependencies[storyId] || []).some((d) => d.predecessor_status !== 'done'),
+      }),
+    [swimlaneBy, epicsById, stories, storyDependencies]
+  )
+
+  const renderColumnHeader = (column: (typeof columns)[number]) => {
+    const stats = getColumnStats(column.id)
+    const wipCount = wipCounts.get(column.id) || 0
+    const overWip = isOverWip(column, wipCount)
+
+    return (
+      <Box sx={{ mb: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+          <Typography variant="subtitle2" fontWeight={700} sx={{ color: column.color }}>
+            {column.name}
+          </Typography>
+          <Tooltip
+            title={
+              column.wip_limit === null
+                ? ''
+                : overWip
+                  ? `Limite WIP excedido (${wipCount}/${column.wip_limit})`
+                  : `Limite WIP: ${column.wip_limit}`
+            }
+          >
+            <Chip
+              label={column.wip_limit === null ? stats.count : `${wipCount}/${column.wip_limit}`}
+              size="small"
+              sx={{
+                bgcolor: overWip ? WIP_EXCEEDED_COLOR : isDarkMode ? '#1e293b' : 'white',
+                color: overWip ? 'white' : column.color,
+                fontWeight: 700,
+                fontSize: '0.75rem',
+                height: 24,
+              }}
+            />
+          </Tooltip>
+        </Box>
+
+        {stats.points > 0 && (
+          <Typography variant="caption" color="text.secondary" fontWeight={600}>
+            {stats.points} pontos
+          </Typography>
+        )}
+      </Box>
+    )
+  }
+
+  const renderCards = (column: BoardColumn, columnStories: UserStory[], compact: boolean) =>
+    columnStories.length === 0 ? (
+      <Box
+        sx={{
+          textAlign: 'center',
+          py: compact ? 2 : 6,
+          px: 2,
+          borderRadius: 2,
+          border: `2px dashed ${column.color}40`,
+          bgcolor: isDarkMode ? 'rgba(30, 41, 59, 0.5)' : 'rgba(255,255,255,0.5)',
+          minHeight: compact ? 60 : 200,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+        }}
+      >
+        <Typography variant="caption" color="text.secondary">
+          Arraste histórias aqui
+        </Typography>
+      </Box>
+    ) : (
+      columnStories.map((story) => (
+        <KanbanCard
+          key={story.id}
+          story={story}
+          onDelete={isStakeholder ? undefined : onDeleteStory}
+          onClick={(storyId) => {
+            setSelectedStoryId(storyId)
+            setStoryDetailsOpen(true)
+          }}
+          onReplicate={currentSprintId && !isStakeholder ? handleOpenReplicateDialog : undefined}
+          onSendToBacklog={currentSprintId && !isStakeholder ? handleSendToBacklog : undefined}
+          predecessorInfo={getPredecessorInfo(story.id)}
+          epic={story.parent_task_id ? epicsById?.get(story.parent_task_id) : undefined}
+          isStakeholder={isStakeholder}
+        />
+      ))
+    )
+
   return (
     <DndContext
       sensors={sensors}
@@ -618,112 +762,142 @@ export default function KanbanBoard({ stories, onRefresh, onDeleteStory, current
       onDragOver={handleDragOver}
       onDragEnd={handleDragEnd}
     >
-      <Box
-        sx={{
-          display: 'grid',
-          gridTemplateColumns: {
-            xs: '1fr',
-            sm: 'repeat(2, 1fr)',
-            md: 'repeat(3, 1fr)',
-            lg: 'repeat(5, 1fr)',
-          },
-          gap: 2,
-          pb: 2,
-        }}
-      >
-        {columns.map((column) => {
-          const stats = getColumnStats(column.id)
-          const columnStories = storiesByStatus[column.id] || []
-
-          return (
-            <SortableContext
-              key={column.id}
-              id={column.id}
-              items={columnStories.map((s) => s.id)}
-              strategy={verticalListSortingStrategy}
-            >
+      {swimlanes ? (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pb: 2 }}>
+          {/* Column headers, shared by all swimlanes */}
+          <Box sx={{ display: { xs: 'none', lg: 'grid' }, gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))`, gap: 2 }}>
+            {columns.map((column) => (
+              <Paper
+                key={column.id}
+                elevation={0}
+                sx={{ p: 2, pb: 0.5, borderRadius: 3, bgcolor: column.bgColor, border: `2px solid ${column.color}30` }}
+              >
+                {renderColumnHeader(column)}
+              </Paper>
+            ))}
+          </Box>
+
+          {swimlanes.map((lane) => {
+            const laneStories = stories.filter((story) => laneOf.get(story.id) === lane.id)
+            const lanePoints = laneStories.reduce((sum, story) => sum + (story.story_points || 0), 0)
+
+            return (
               <Paper
+                key={lane.id}
                 elevation={0}
                 sx={{
                   p: 2,
                   borderRadius: 3,
-                  bgcolor: column.bgColor,
-                  border: `2px solid ${column.color}30`,
-                  minHeight: 500,
-                  display: 'flex',
-                  flexDirection: 'column',
+                  border: `2px solid ${lane.color}30`,
+                  borderLeft: `6px solid ${lane.color}`,
                 }}
               >
-                {/* Column Header */}
-                <Box sx={{ mb: 2 }}>
-                  <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
-                    <Typography variant="subtitle2" fontWeight={700} sx={{ color: column.color }}>
-                      {column.label}
-                    </Typography>
-                    <Chip
-                      label={stats.count}
-                      size="small"
-                      sx={{
-                        bgcolor: isDarkMode ? '#1e293b' : 'white',
-                        color: column.color,
-                        fontWeight: 700,
-                        fontSize: '0.75rem',
-                        height: 24,
-                      }}
-                    />
-                  </Box>
-
-                  {stats.points > 0 && (
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+                  <Typography variant="subtitle2" fontWeight={700} sx={{ color: lane.color }}>
+                    {lane.label}
+                  </Typography>
+                  <Chip
+                    label={laneStories.length}
+                    size="small"
+                    sx={{ bgcolor: `${lane.color}1a`, color: lane.color, fontWeight: 700, fontSize: '0.75rem', height: 24 }}
+                  />
+                  {lanePoints > 0 && (
                     <Typography variant="caption" color="text.secondary" fontWeight={600}>
-                      {stats.points} pontos
+                      {lanePoints} pontos
                     </Typography>
                   )}
                 </Box>
 
-                {/* Cards */}
-                <DroppableColumn id={column.id}>
-                  {columnStories.length === 0 ? (
-                    <Box
-                      sx={{
-                        textAlign: 'center',
-                        py: 6,
-                        px: 2,
-                        borderRadius: 2,
-                        border: `2px dashed ${column.color}40`,
-                        bgcolor: isDarkMode ? 'rgba(30, 41, 59, 0.5)' : 'rgba(255,255,255,0.5)',
-                        minHeight: 200,
-                        display: 'flex',
-                        alignItems: 'center',
-                        justifyContent: 'center',
-                      }}
-                    >
-                      <Typography variant="caption" color="text.secondary">
-                        Arraste histórias aqui
-                      </Typography>
-                    </Box>
-                  ) : (
-                    columnStories.map((story) => (
-                      <KanbanCard
-                        key={story.id}
-                        story={story}
-                        onDelete={isStakeholder ? undefined : onDeleteStory}
-                        onClick={(storyId) => {
-                          setSelectedStoryId(storyId)
-                          setStoryDetailsOpen(true)
-                        }}
-                        onReplicate={currentSprintId && !isStakeholder ? handleOpenReplicateDialog : undefined}
-                        onSendToBacklog={currentSprintId && !isStakeholder ? handleSendToBacklog : undefined}
-                        predecessorInfo={getPredecessorInfo(story.id)}
-                        isStakeholder={isStakeholder}
-                      />
-                    ))
-                  )}
-                </DroppableColumn>
+                <Box
+                  sx={{
+                    display: 'grid',
+                    gridTemplateColumns: {
+                      xs: '1fr',
+                      sm: 'repeat(2, 1fr)',
+                      md: 'repeat(3, 1fr)',
+                      lg: `repeat(${columns.length}, minmax(0, 1fr))`,
+                    },
+                    gap: 2,
+                  }}
+                >
+                  {columns.map((column) => {
+                    const cellStories = (storiesByStatus[column.id] || []).filter(
+                      (story) => laneOf.get(story.id) === lane.id
+                    )
+
+                    return (
+                      <SortableContext
+                        key={column.id}
+                        id={`${column.id}::${lane.id}`}
+                        items={cellStories.map((s) => s.id)}
+                        strategy={verticalListSortingStrategy}
+                      >
+                        <Box sx={{ p: 1, borderRadius: 2, bgcolor: column.bgColor, display: 'flex', flexDirection: 'column' }}>
+                          <Typography
+                            variant="caption"
+                            fontWeight={700}
+                            sx={{ color: column.color, mb: 1, display: { lg: 'none' } }}
+                          >
+                            {column.name}
+                          </Typography>
+                          <DroppableColumn id={column.id} lane={lane.id}>
+                            {renderCards(column, cellStories, true)}
+                          </DroppableColumn>
+                        </Box>
+                      </SortableContext>
+                    )
+                  })}
+                </Box>
               </Paper>
-            </SortableContext>
-          )
-        })}
-      </Box>
+            )
+          })}
+        </Box>
+      ) : (
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: {
+              xs: '1fr',
+              sm: 'repeat(2, 1fr)',
+              md: 'repeat(3, 1fr)',
+              lg: `repeat(${columns.length}, minmax(0, 1fr))`,
+            },
+            gap: 2,
+            pb: 2,
+          }}
+        >
+          {columns.map((column) => {
+            const columnStories = storiesByStatus[column.id] || []
+
+            return (
+              <SortableContext
+                key={column.id}
+                id={column.id}
+                items={columnStories.map((s) => s.id)}
+                strategy={verticalListSortingStrategy}
+              >
+                <Paper
+                  elevation={0}
+                  sx={{
+                    p: 2,
+                    borderRadius: 3,
+                    bgcolor: column.bgColor,
+                    border: `2px solid ${column.color}30`,
+                    minHeight: 500,
+                    display: 'flex',
+                    flexDirection: 'column',
+                  }}
+                >
+                  {renderColumnHeader(column)}
+
+                  {/* Cards */}
+                  <DroppableColumn id={column.id}>{renderCards(column, columnStories, false)}</DroppableColumn>
+                </Paper>
+              </SortableContext>
+            )
+          })}
+        </Box>
+      )}
 
       {/* Drag Overlay */}
       <DragOverlay>
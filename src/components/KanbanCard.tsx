@@ -3,6 +3,8 @@ import { Box, Typography, Chip, LinearProgress, Avatar, IconButton, Tooltip, Men
 import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { Flag, Functions, Delete, DragIndicator, Assignment, MoreVert, ContentCopy, Inventory, CalendarMonth, AccountTree } from '@mui/icons-material'
+import { EpicChip } from './backlog'
+import type { EpicRow } from '@/utils/epics'
 
 interface KanbanCardProps {
   story: {
@@ -16,12 +18,15 @@ interface KanbanCardProps {
     end_date?: string | null
     profiles?: { full_name: string }
     subtasks?: Array<{ status: string }>
+    labels?: string[] | null
   }
   onDelete?: (id: string, title: string) => void
   onClick: (id: string) => void
   onReplicate?: (storyId: string) => void
   onSendToBacklog?: (storyId: string, title: string) => void
   predecessorInfo?: { total: number; incomplete: number } | null
+  /** Epic or feature the story belongs to */
+  epic?: EpicRow
   isStakeholder?: boolean
 }
 
@@ -32,7 +37,7 @@ const priorityConfig: Record<string, { label: string; color: string }> = {
   urgent: { label: 'Urgente', color: '#dc2626' },
 }
 
-export default function KanbanCard({ story, onDelete, onClick, onReplicate, onSendToBacklog, predecessorInfo, isStakeholder = false }: KanbanCardProps) {
+export default function KanbanCard({ story, onDelete, onClick, onReplicate, onSendToBacklog, predecessorInfo, epic, isStakeholder = false }: KanbanCardProps) {
   const theme = useTheme()
   const isDarkMode = theme.palette.mode === 'dark'
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
@@ -217,6 +222,18 @@ export default function KanbanCard({ story, onDelete, onClick, onReplicate, onSe
 
         {/* Metadata */}
         <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mb: 1.5 }}>
+          {epic && <EpicChip epic={epic} dense />}
+
+          {(story.labels || []).map((label) => (
+            <Chip
+              key={label}
+              label={label}
+              size="small"
+              variant="outlined"
+              sx={{ height: 20, fontSize: '0.65rem', fontWeight: 600, color: 'text.secondary' }}
+            />
+          ))}
+
           {story.priority && (
             <Chip
               label={priorityConfig[story.priority]?.label || story.priority}
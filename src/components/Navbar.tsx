@@ -30,6 +30,8 @@ import {
   Close,
   ViewKanban,
   CalendarMonth,
+  ViewTimeline,
+  Flag,
 } from "@mui/icons-material";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/lib/supabase";
@@ -109,6 +111,8 @@ export default function Navbar() {
   // Main navigation items
   const menuItems = [
     { label: "Painel", path: "/dashboard", icon: <Dashboard /> },
+    { label: "Portfólio", path: "/portfolio", icon: <ViewTimeline /> },
+    { label: "Objetivos", path: "/objectives", icon: <Flag /> },
     { label: "Planner", path: "/planner", icon: <ViewKanban /> },
     { label: "Calendário", path: "/calendar", icon: <CalendarMonth /> },
     { label: "Times", path: "/teams", icon: <People /> },
@@ -36,13 +36,16 @@ import {
   Edit as EditIcon,
   CloudUpload,
   BarChart,
+  History,
 } from "@mui/icons-material";
 import Modal from "./Modal";
 import SprintDetailsModal from "./SprintDetailsModal";
 import CreateBacklogItemModal from "./CreateBacklogItemModal";
 import CreateSprintModal from "./CreateSprintModal";
 import { TasksByStatusModal } from "./dashboard";
+import { ActivityHistory } from "./activity";
 import { supabase } from "@/lib/supabase";
+import { isEpicLevel } from "@/utils/epics";
 import toast from "react-hot-toast";
 
 interface ProjectDetailsModalProps {
@@ -78,6 +81,7 @@ interface BacklogItem {
   story_points: number;
   assigned_to: string;
   assigned_to_profile?: { full_name: string };
+  parent_task_id: string | null;
 }
 
 interface TeamMember {
@@ -391,7 +395,7 @@ export default function ProjectDetailsModal({
         supabase
           .from("tasks")
           .select(
-            "id, title, description, status, priority, story_points, assigned_to, assigned_to_profile:profiles!assigned_to(full_name)"
+            "id, title, description, status, priority, story_points, assigned_to, parent_task_id, task_type, assigned_to_profile:profiles!assigned_to(full_name)"
           )
           .eq("project_id", project.id)
           .is("sprint_id", null)
@@ -410,8 +414,9 @@ export default function ProjectDetailsModal({
 
       setSprints(sprintsRes.data || []);
 
-      // Transform backlog items to handle assigned_to_profile array
-      const transformedBacklog = (backlogRes.data || []).map((item: any) => ({
+      // Transform backlog items to handle assigned_to_profile array (epics
+      // and features are not backlog items)
+      const transformedBacklog = (backlogRes.data || []).filter((item: any) => !isEpicLevel(item)).map((item: any) => ({
         ...item,
         assigned_to_profile: Array.isArray(item.assigned_to_profile)
           ? item.assigned_to_profile[0]
@@ -888,6 +893,7 @@ export default function ProjectDetailsModal({
             <Tab label="Visão Geral" icon={<BarChart />} iconPosition="start" />
             <Tab label="Sprints" icon={<SpaceDashboard />} iconPosition="start" />
             <Tab label="Backlog" icon={<Inventory />} iconPosition="start" />
+            <Tab label="Histórico" icon={<History />} iconPosition="start" />
           </Tabs>
         </Box>
 
@@ -1338,6 +1344,11 @@ export default function ProjectDetailsModal({
           </Box>
         )}
 
+        {/* Histórico Tab */}
+        {activeTab === 3 && (
+          <ActivityHistory entityType="project" entityId={project.id} />
+        )}
+
         {/* Process Map Section - At the bottom */}
         <Card
           elevation={0}
@@ -1568,6 +1579,7 @@ export default function ProjectDetailsModal({
             story_points: selectedBacklogItem.story_points,
             project_id: project.id,
             assigned_to: selectedBacklogItem.assigned_to,
+            parent_task_id: selectedBacklogItem.parent_task_id,
           }}
         />
       )}
@@ -4,7 +4,6 @@ import {
   Typography,
   Paper,
   TextField,
-  Button,
   IconButton,
   Chip,
   CircularProgress,
@@ -28,57 +27,63 @@ import {
   SentimentNeutral,
   SentimentSatisfied,
   SentimentVerySatisfied,
+  Workspaces,
+  CallSplit,
+  AddCircleOutline,
+  RemoveCircleOutline,
+  VisibilityOff,
+  Event,
+  AssignmentTurnedIn,
+  Tune,
+  Lightbulb,
 } from "@mui/icons-material";
 import toast from "react-hot-toast";
 import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRetrospectiveRealtime } from "@/hooks/useRetrospectiveRealtime";
+import { useRetrospectiveTemplates } from "@/hooks/useRetrospectiveTemplates";
+import {
+  ActionItemDialog,
+  CarriedOverActions,
+  RetroFacilitatorBar,
+  RetroGroupDialog,
+  RetroTemplateDialog,
+} from "./retrospective";
+import {
+  CUSTOM_TEMPLATE_PREFIX,
+  RETRO_TEMPLATES,
+  buildCardGroups,
+  getItemColumnKey,
+  getRetroColumns,
+  getTemplateName,
+  isActionOverdue,
+  resolveTemplateColumns,
+  type RetroCardGroup,
+} from "@/utils/retrospective";
+import type {
+  RetrospectiveColumn,
+  RetrospectiveItem,
+  RetrospectiveItemCategory,
+  RetrospectiveVote,
+  SprintRetrospective,
+} from "@/types";
 
 interface RetrospectiveBoardProps {
   sprintId: string;
   sprintName: string;
+  /** Team of the sprint; its members can own action items */
+  teamId?: string;
 }
 
-interface RetroItem {
-  id: string;
-  category: "went_well" | "to_improve" | "action_item";
-  content: string;
-  votes: number;
-  status: string;
-  assigned_to?: string;
-  profiles?: { full_name: string };
-  assigned_to_profile?: { full_name: string };
-  created_by_profile?: { full_name: string };
-  created_by: string;
-}
-
-interface Retrospective {
-  id: string;
-  mood_rating: number;
-  summary: string;
-}
+type RetroItem = RetrospectiveItem;
 
-const columns = [
-  {
-    id: "went_well",
-    title: "O que foi bem? 😊",
-    color: "#10b981",
-    bgColor: "rgba(16, 185, 129, 0.1)",
-    icon: ThumbUp,
-  },
-  {
-    id: "to_improve",
-    title: "O que melhorar? 🤔",
-    color: "#f59e0b",
-    bgColor: "rgba(245, 158, 11, 0.1)",
-    icon: TrendingUp,
-  },
-  {
-    id: "action_item",
-    title: "Ações para o próximo sprint 🎯",
-    color: "#6366f1",
-    bgColor: "rgba(99, 102, 241, 0.1)",
-    icon: CheckCircle,
-  },
-];
+// Column icon by the base category its cards count as
+const categoryIcons: Record<RetrospectiveItemCategory, typeof ThumbUp> = {
+  went_well: ThumbUp,
+  to_improve: TrendingUp,
+  action_item: CheckCircle,
+  other: Lightbulb,
+};
 
 const moodIcons = [
   {
@@ -101,30 +106,64 @@ const moodIcons = [
 export default function RetrospectiveBoard({
   sprintId,
   sprintName,
+  teamId,
 }: RetrospectiveBoardProps) {
   const theme = useTheme();
   const isDarkMode = theme.palette.mode === "dark";
+  const { user } = useAuth();
+  const currentUser = user?.id || "";
   const [loading, setLoading] = useState(true);
-  const [retrospective, setRetrospective] = useState<Retrospective | null>(
-    null,
-  );
+  const [retrospective, setRetrospective] =
+    useState<SprintRetrospective | null>(null);
   const [items, setItems] = useState<RetroItem[]>([]);
+  const [myVotes, setMyVotes] = useState<
+    Pick<RetrospectiveVote, "id" | "item_id">[]
+  >([]);
   const [newItemContent, setNewItemContent] = useState<Record<string, string>>(
     {},
   );
-  const [currentUser, setCurrentUser] = useState<string>("");
   const [editingItemId, setEditingItemId] = useState<string | null>(null);
   const [editingContent, setEditingContent] = useState<string>("");
+  const [groupingItem, setGroupingItem] = useState<RetroItem | null>(null);
+  const [selectedAction, setSelectedAction] = useState<RetroItem | null>(
+    null,
+  );
+  const [facilitatorName, setFacilitatorName] = useState<string>("");
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const { data: teamTemplates = [] } = useRetrospectiveTemplates(teamId);
+
+  const { participants } = useRetrospectiveRealtime(retrospective?.id, {
+    onItemsChange: () => {
+      if (retrospective) fetchItems(retrospective.id);
+    },
+    onRetrospectiveChange: (changes) =>
+      setRetrospective((prev) => (prev ? { ...prev, ...changes } : prev)),
+  });
 
   useEffect(() => {
     fetchRetrospective();
-    getCurrentUser();
   }, [sprintId]);
 
-  const getCurrentUser = async () => {
-    const { data } = await supabase.auth.getUser();
-    if (data.user) setCurrentUser(data.user.id);
-  };
+  const facilitatorId =
+    retrospective?.facilitator_id || retrospective?.created_by || null;
+  const isFacilitator = !!currentUser && facilitatorId === currentUser;
+  const phase = retrospective?.phase || "write";
+  const columns = getRetroColumns(retrospective);
+
+  useEffect(() => {
+    if (!facilitatorId) return;
+    const online = participants.find((p) => p.id === facilitatorId);
+    if (online) {
+      setFacilitatorName(online.full_name);
+      return;
+    }
+    supabase
+      .from("profiles")
+      .select("full_name")
+      .eq("id", facilitatorId)
+      .single()
+      .then(({ data }) => setFacilitatorName(data?.full_name || ""));
+  }, [facilitatorId, participants]);
 
   const fetchRetrospective = async () => {
     setLoading(true);
@@ -149,6 +188,7 @@ export default function RetrospectiveBoard({
               meeting_date: new Date().toISOString().split("T")[0],
               mood_rating: 3,
               created_by: user.user?.id,
+              facilitator_id: user.user?.id,
             },
           ])
           .select()
@@ -159,40 +199,55 @@ export default function RetrospectiveBoard({
       }
 
       setRetrospective(retro);
+      await fetchItems(retro.id);
+    } catch (error) {
+      console.error("Error fetching retrospective:", error);
+      toast.error("Erro ao carregar retrospectiva");
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      // Fetch items
-      const { data: itemsData, error: itemsError } = await supabase
-        .from("retrospective_items")
-        .select(
-          "*, assigned_to_profile:profiles!assigned_to(full_name), created_by_profile:profiles!created_by(full_name)",
-        )
-        .eq("retrospective_id", retro.id)
-        .order("votes", { ascending: false })
-        .order("created_at");
+  // Cards and the current user's votes, refetched on every live change
+  const fetchItems = async (retrospectiveId: string) => {
+    try {
+      const [
+        { data: itemsData, error: itemsError },
+        { data: votesData, error: votesError },
+      ] = await Promise.all([
+        supabase
+          .from("retrospective_items_visible")
+          .select("*, assigned_to_profile:profiles!assigned_to(full_name)")
+          .eq("retrospective_id", retrospectiveId)
+          .order("created_at"),
+        supabase
+          .from("retrospective_votes")
+          .select("id, item_id")
+          .eq("retrospective_id", retrospectiveId)
+          .eq("user_id", currentUser),
+      ]);
 
       if (itemsError) throw itemsError;
+      if (votesError) throw votesError;
 
-      // Transform items to handle profile arrays
+      // Transform items to handle profile arrays; covered cards come without content
       const transformedItems = (itemsData || []).map((item: any) => ({
         ...item,
+        content: item.content ?? "",
         assigned_to_profile: Array.isArray(item.assigned_to_profile)
           ? item.assigned_to_profile[0]
           : item.assigned_to_profile,
-        created_by_profile: Array.isArray(item.created_by_profile)
-          ? item.created_by_profile[0]
-          : item.created_by_profile,
       }));
       setItems(transformedItems);
+      setMyVotes(votesData || []);
     } catch (error) {
-      console.error("Error fetching retrospective:", error);
-      toast.error("Erro ao carregar retrospectiva");
-    } finally {
-      setLoading(false);
+      console.error("Error fetching retrospective items:", error);
+      toast.error("Erro ao carregar itens da retrospectiva");
     }
   };
 
-  const handleAddItem = async (category: string) => {
-    const content = newItemContent[category]?.trim();
+  const handleAddItem = async (column: RetrospectiveColumn) => {
+    const content = newItemContent[column.key]?.trim();
     if (!content) {
       toast.error("Digite o conteúdo do item");
       return;
@@ -203,7 +258,8 @@ export default function RetrospectiveBoard({
       const { error } = await supabase.from("retrospective_items").insert([
         {
           retrospective_id: retrospective!.id,
-          category,
+          category: column.category,
+          column_key: column.key,
           content,
           created_by: user.user?.id,
         },
@@ -211,9 +267,9 @@ export default function RetrospectiveBoard({
 
       if (error) throw error;
 
-      setNewItemContent({ ...newItemContent, [category]: "" });
+      setNewItemContent({ ...newItemContent, [column.key]: "" });
       toast.success("Item adicionado!");
-      await fetchRetrospective();
+      await fetchItems(retrospective!.id);
     } catch (error) {
       console.error("Error adding item:", error);
       toast.error("Erro ao adicionar item");
@@ -230,7 +286,7 @@ export default function RetrospectiveBoard({
       if (error) throw error;
 
       toast.success("Item removido!");
-      await fetchRetrospective();
+      await fetchItems(retrospective!.id);
     } catch (error) {
       console.error("Error deleting item:", error);
       toast.error("Erro ao remover item");
@@ -265,29 +321,181 @@ export default function RetrospectiveBoard({
       toast.success("Item atualizado!");
       setEditingItemId(null);
       setEditingContent("");
-      await fetchRetrospective();
+      await fetchItems(retrospective!.id);
     } catch (error) {
       console.error("Error updating item:", error);
       toast.error("Erro ao atualizar item");
     }
   };
 
-  const handleVote = async (itemId: string, currentVotes: number) => {
+  const handleVote = async (itemId: string) => {
+    if (myVotes.length >= (retrospective?.votes_per_person || 0)) {
+      toast.error("Você já usou todos os seus votos");
+      return;
+    }
+
     try {
-      const { error } = await supabase
-        .from("retrospective_items")
-        .update({ votes: currentVotes + 1 })
-        .eq("id", itemId);
+      const { data, error } = await supabase
+        .from("retrospective_votes")
+        .insert([
+          {
+            retrospective_id: retrospective!.id,
+            item_id: itemId,
+            user_id: currentUser,
+          },
+        ])
+        .select("id, item_id")
+        .single();
 
       if (error) throw error;
 
-      await fetchRetrospective();
+      setMyVotes((prev) => [...prev, data]);
     } catch (error) {
       console.error("Error voting:", error);
       toast.error("Erro ao votar");
     }
   };
 
+  const handleRemoveVote = async (itemId: string) => {
+    const vote = myVotes.find((v) => v.item_id === itemId);
+    if (!vote) return;
+
+    try {
+      const { error } = await supabase
+        .from("retrospective_votes")
+        .delete()
+        .eq("id", vote.id);
+
+      if (error) throw error;
+
+      setMyVotes((prev) => prev.filter((v) => v.id !== vote.id));
+    } catch (error) {
+      console.error("Error removing vote:", error);
+      toast.error("Erro ao remover voto");
+    }
+  };
+
+  const handleUpdateRetrospective = async (
+    changes: Partial<SprintRetrospective>,
+  ) => {
+    if (!retrospective) return;
+    const previous = retrospective;
+    setRetrospective({ ...retrospective, ...changes });
+
+    try {
+      const { error } = await supabase
+        .from("sprint_retrospectives")
+        .update(changes)
+        .eq("id", retrospective.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error updating retrospective:", error);
+      toast.error("Erro ao atualizar retrospectiva");
+      setRetrospective(previous);
+    }
+  };
+
+  const handleClaimFacilitation = async () => {
+    if (!retrospective) return;
+
+    try {
+      const { error } = await supabase.rpc(
+        "claim_retrospective_facilitation",
+        { p_retrospective_id: retrospective.id },
+      );
+
+      if (error) throw error;
+
+      setRetrospective({ ...retrospective, facilitator_id: currentUser });
+      toast.success("Você assumiu a facilitação!");
+    } catch (error) {
+      console.error("Error claiming facilitation:", error);
+      toast.error("Erro ao assumir a facilitação");
+    }
+  };
+
+  const handleGroupItem = async (
+    mode: "group" | "merge",
+    targetId: string,
+  ) => {
+    if (!groupingItem) return;
+
+    try {
+      if (mode === "merge") {
+        const { error } = await supabase.rpc("merge_retrospective_items", {
+          p_target_id: targetId,
+          p_source_id: groupingItem.id,
+        });
+
+        if (error) throw error;
+      } else {
+        // Cards already grouped under this one move along with it
+        const { error } = await supabase.rpc("group_retrospective_item", {
+          p_item_id: groupingItem.id,
+          p_group_id: targetId,
+        });
+
+        if (error) throw error;
+      }
+
+      toast.success(
+        mode === "merge" ? "Cartões mesclados!" : "Cartões agrupados!",
+      );
+      setGroupingItem(null);
+      await fetchItems(retrospective!.id);
+    } catch (error) {
+      console.error("Error grouping items:", error);
+      toast.error("Erro ao agrupar cartões");
+    }
+  };
+
+  const handleUngroupItem = async (itemId: string) => {
+    try {
+      const { error } = await supabase.rpc("group_retrospective_item", {
+        p_item_id: itemId,
+        p_group_id: null,
+      });
+
+      if (error) throw error;
+
+      await fetchItems(retrospective!.id);
+    } catch (error) {
+      console.error("Error ungrouping item:", error);
+      toast.error("Erro ao desagrupar cartão");
+    }
+  };
+
+  // Columns are copied into the retrospective, so later edits of a team
+  // format don't move cards of past retrospectives
+  const handleChangeTemplate = (template: string) => {
+    const templateColumns = resolveTemplateColumns(template, teamTemplates);
+    if (!templateColumns) return;
+    handleUpdateRetrospective({ template, columns: templateColumns });
+  };
+
+  const templateOptions = [
+    ...RETRO_TEMPLATES.map((t) => ({ key: t.key, name: t.name })),
+    ...teamTemplates.map((t) => ({
+      key: `${CUSTOM_TEMPLATE_PREFIX}${t.id}`,
+      name: t.name,
+    })),
+  ];
+  if (
+    retrospective &&
+    !templateOptions.some((o) => o.key === retrospective.template)
+  ) {
+    templateOptions.push({
+      key: retrospective.template,
+      name: getTemplateName(retrospective.template, teamTemplates),
+    });
+  }
+
+  // Cards are written in the write phase; action items also come out of
+  // the discussion
+  const canWriteIn = (category: string) =>
+    phase === "write" || (phase === "discuss" && category === "action_item");
+
   const handleMoodChange = async (newMood: number) => {
     if (!retrospective) return;
 
@@ -307,6 +515,354 @@ export default function RetrospectiveBoard({
     }
   };
 
+  const votesLeft = Math.max(
+    0,
+    (retrospective?.votes_per_person || 0) - myVotes.length,
+  );
+
+  /** A card; group is set for the card heading a group (the one voted on) */
+  const renderCard = (
+    item: RetroItem,
+    column: RetrospectiveColumn,
+    group: RetroCardGroup<RetroItem> | null,
+  ) => {
+    // While writing anonymously, other participants' cards stay covered
+    const covered =
+      !!retrospective?.anonymous &&
+      phase === "write" &&
+      item.created_by !== currentUser;
+    const canEdit =
+      item.created_by === currentUser && canWriteIn(item.category);
+    const canGroup = isFacilitator && phase === "group";
+    const isAction = item.category === "action_item" && !covered;
+    const overdue = isAction && isActionOverdue(item);
+    const myItemVotes = myVotes.filter((v) => v.item_id === item.id).length;
+    const authorName =
+      item.assigned_to_profile?.full_name || item.author_name;
+
+    return (
+      <Paper
+        key={item.id}
+        elevation={0}
+        sx={{
+          p: 2,
+          bgcolor: isDarkMode ? "#1e293b" : "white",
+          border:
+            editingItemId === item.id
+              ? `2px solid ${column.color}`
+              : isDarkMode
+                ? "1px solid rgba(255, 255, 255, 0.08)"
+                : "1px solid rgba(0, 0, 0, 0.08)",
+          borderRadius: 2,
+          transition: "all 0.2s ease",
+          "&:hover": {
+            boxShadow: "0 4px 8px rgba(0, 0, 0, 0.1)",
+          },
+        }}
+      >
+        {editingItemId === item.id ? (
+          /* Edit Mode */
+          <Box>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              maxRows={4}
+              size="small"
+              value={editingContent}
+              onChange={(e) => setEditingContent(e.target.value)}
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === "Escape") {
+                  handleCancelEdit();
+                } else if (e.key === "Enter" && e.ctrlKey) {
+                  handleSaveEdit(item.id);
+                }
+              }}
+              sx={{
+                mb: 1.5,
+                "& .MuiOutlinedInput-root": {
+                  borderRadius: 1.5,
+                  fontSize: "0.875rem",
+                },
+              }}
+              placeholder="Digite o conteúdo..."
+            />
+            <Box
+              sx={{
+                display: "flex",
+                justifyContent: "flex-end",
+                gap: 1,
+              }}
+            >
+              <Tooltip title="Cancelar (Esc)">
+                <IconButton
+                  size="small"
+                  onClick={handleCancelEdit}
+                  sx={{
+                    bgcolor: "rgba(107, 114, 128, 0.1)",
+                    "&:hover": {
+                      bgcolor: "rgba(107, 114, 128, 0.2)",
+                    },
+                  }}
+                >
+                  <Close sx={{ fontSize: 18, color: "#6b7280" }} />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Salvar (Ctrl+Enter)">
+                <IconButton
+                  size="small"
+                  onClick={() => handleSaveEdit(item.id)}
+                  sx={{
+                    bgcolor: `${column.color}20`,
+                    "&:hover": { bgcolor: `${column.color}30` },
+                  }}
+                >
+                  <Check
+                    sx={{ fontSize: 18, color: column.color }}
+                  />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          </Box>
+        ) : (
+          /* View Mode */
+          <>
+            <Box
+              sx={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "start",
+                mb: 1,
+              }}
+            >
+              <Typography
+                variant="body2"
+                sx={{ flex: 1, pr: 1, whiteSpace: "pre-wrap" }}
+              >
+                {covered ? (
+                  <Box
+                    component="span"
+                    sx={{
+                      display: "inline-flex",
+                      alignItems: "center",
+                      gap: 0.5,
+                      color: "text.secondary",
+                      fontStyle: "italic",
+                    }}
+                  >
+                    <VisibilityOff sx={{ fontSize: 16 }} />
+                    Cartão de outro participante
+                  </Box>
+                ) : (
+                  item.content
+                )}
+              </Typography>
+              {(canEdit || canGroup || isAction) && (
+                <Box
+                  sx={{ display: "flex", gap: 0.5, flexShrink: 0 }}
+                >
+                  {isAction && (
+                    <Tooltip title="Responsável, prazo e tarefa">
+                      <IconButton
+                        size="small"
+                        onClick={() => setSelectedAction(item)}
+                        sx={{
+                          opacity: 0.6,
+                          "&:hover": {
+                            opacity: 1,
+                            bgcolor: `${column.color}15`,
+                          },
+                        }}
+                      >
+                        <Tune sx={{ fontSize: 16, color: column.color }} />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  {canGroup && (
+                    <Tooltip
+                      title={group ? "Agrupar ou mesclar" : "Desagrupar"}
+                    >
+                      <IconButton
+                        size="small"
+                        onClick={() =>
+                          group
+                            ? setGroupingItem(item)
+                            : handleUngroupItem(item.id)
+                        }
+                        sx={{
+                          opacity: 0.6,
+                          "&:hover": {
+                            opacity: 1,
+                            bgcolor: `${column.color}15`,
+                          },
+                        }}
+                      >
+                        {group ? (
+                          <Workspaces
+                            sx={{ fontSize: 16, color: column.color }}
+                          />
+                        ) : (
+                          <CallSplit
+                            sx={{ fontSize: 16, color: column.color }}
+                          />
+                        )}
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  {canEdit && (
+                    <>
+                      <Tooltip title="Editar">
+                        <IconButton
+                          size="small"
+                          onClick={() => handleStartEdit(item)}
+                          sx={{
+                            opacity: 0.6,
+                            "&:hover": {
+                              opacity: 1,
+                              bgcolor: `${column.color}15`,
+                            },
+                          }}
+                        >
+                          <Edit
+                            sx={{ fontSize: 16, color: column.color }}
+                          />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Excluir">
+                        <IconButton
+                          size="small"
+                          onClick={() => handleDeleteItem(item.id)}
+                          sx={{
+                            opacity: 0.6,
+                            "&:hover": {
+                              opacity: 1,
+                              bgcolor: "rgba(239, 68, 68, 0.1)",
+                            },
+                          }}
+                        >
+                          <Delete
+                            sx={{ fontSize: 16, color: "#ef4444" }}
+                          />
+                        </IconButton>
+                      </Tooltip>
+                    </>
+                  )}
+                </Box>
+              )}
+            </Box>
+
+            {isAction && (item.due_date || item.task_id) && (
+              <Box
+                sx={{ display: "flex", gap: 0.5, flexWrap: "wrap", mb: 1 }}
+              >
+                {item.due_date && (
+                  <Chip
+                    icon={<Event sx={{ fontSize: 12 }} />}
+                    label={new Date(
+                      `${item.due_date}T00:00:00`,
+                    ).toLocaleDateString("pt-BR")}
+                    size="small"
+                    color={overdue ? "error" : "default"}
+                    variant={overdue ? "filled" : "outlined"}
+                    sx={{ height: 20, fontSize: "0.65rem" }}
+                  />
+                )}
+                {item.task_id && (
+                  <Chip
+                    icon={<AssignmentTurnedIn sx={{ fontSize: 12 }} />}
+                    label="Tarefa"
+                    size="small"
+                    color="primary"
+                    variant="outlined"
+                    sx={{ height: 20, fontSize: "0.65rem" }}
+                  />
+                )}
+              </Box>
+            )}
+
+            <Box
+              sx={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+              }}
+            >
+              {group && phase === "vote" ? (
+                <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+                  <Tooltip title="Remover voto">
+                    <span>
+                      <IconButton
+                        size="small"
+                        disabled={myItemVotes === 0}
+                        onClick={() => handleRemoveVote(item.id)}
+                      >
+                        <RemoveCircleOutline sx={{ fontSize: 18 }} />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Typography
+                    variant="caption"
+                    fontWeight={700}
+                    sx={{
+                      color: column.color,
+                      minWidth: 16,
+                      textAlign: "center",
+                    }}
+                  >
+                    {myItemVotes > 0 ? "●".repeat(myItemVotes) : "0"}
+                  </Typography>
+                  <Tooltip title="Votar neste item">
+                    <span>
+                      <IconButton
+                        size="small"
+                        disabled={votesLeft === 0}
+                        onClick={() => handleVote(item.id)}
+                      >
+                        <AddCircleOutline
+                          sx={{ fontSize: 18, color: column.color }}
+                        />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </Box>
+              ) : group && phase === "discuss" ? (
+                <Chip
+                  icon={<ThumbUp sx={{ fontSize: 14 }} />}
+                  label={group.totalVotes}
+                  size="small"
+                  sx={{
+                    height: 24,
+                    fontWeight: 700,
+                    bgcolor: `${column.color}15`,
+                    color: column.color,
+                    "& .MuiChip-icon": { color: column.color },
+                  }}
+                />
+              ) : (
+                <Box />
+              )}
+
+              {authorName && (
+                <Chip
+                  label={authorName}
+                  size="small"
+                  icon={<Person sx={{ fontSize: 12 }} />}
+                  sx={{
+                    height: 20,
+                    fontSize: "0.65rem",
+                    bgcolor: `${column.color}15`,
+                    color: column.color,
+                  }}
+                />
+              )}
+            </Box>
+          </>
+        )}
+      </Paper>
+    );
+  };
+
   if (loading) {
     return (
       <Box sx={{ display: "flex", justifyContent: "center", py: 8 }}>
@@ -412,28 +968,62 @@ export default function RetrospectiveBoard({
         </Box>
       </Paper>
 
+      {retrospective && (
+        <RetroFacilitatorBar
+          retrospective={retrospective}
+          isFacilitator={isFacilitator}
+          facilitatorName={facilitatorName}
+          participants={participants}
+          votesUsed={myVotes.length}
+          onChange={handleUpdateRetrospective}
+          onClaimFacilitation={handleClaimFacilitation}
+          templateName={getTemplateName(
+            retrospective.template,
+            teamTemplates,
+          )}
+          templateOptions={templateOptions}
+          canChangeTemplate={phase === "write" && items.length === 0}
+          onChangeTemplate={handleChangeTemplate}
+          onManageTemplates={
+            teamId ? () => setTemplatesOpen(true) : undefined
+          }
+        />
+      )}
+
+      <CarriedOverActions
+        sprintId={sprintId}
+        onOpenAction={setSelectedAction}
+      />
+
       {/* Retrospective Board */}
       <Box
         sx={{
           display: "grid",
-          gridTemplateColumns: { xs: "1fr", md: "repeat(3, 1fr)" },
+          gridTemplateColumns: {
+            xs: "1fr",
+            md: `repeat(${Math.min(columns.length, 3)}, 1fr)`,
+            lg: `repeat(${columns.length}, minmax(0, 1fr))`,
+          },
           gap: 3,
         }}
       >
         {columns.map((column) => {
-          const Icon = column.icon;
+          const Icon = categoryIcons[column.category];
           const columnItems = items.filter(
-            (item) => item.category === column.id,
+            (item) => getItemColumnKey(item) === column.key,
           );
+          const groups = buildCardGroups(columnItems, {
+            byVotes: phase === "discuss",
+          });
 
           return (
             <Paper
-              key={column.id}
+              key={column.key}
               elevation={0}
               sx={{
                 p: 2,
                 borderRadius: 3,
-                bgcolor: column.bgColor,
+                bgcolor: `${column.color}1a`,
                 border: `2px solid ${column.color}30`,
                 display: "flex",
                 flexDirection: "column",
@@ -466,238 +1056,107 @@ export default function RetrospectiveBoard({
               </Box>
 
               {/* Add Item */}
-              <Box sx={{ mb: 2 }}>
-                <TextField
-                  fullWidth
-                  size="small"
-                  placeholder="Adicionar item..."
-                  value={newItemContent[column.id] || ""}
-                  onChange={(e) =>
-                    setNewItemContent({
-                      ...newItemContent,
-                      [column.id]: e.target.value,
-                    })
-                  }
-                  onKeyPress={(e) => {
-                    if (e.key === "Enter") {
-                      handleAddItem(column.id);
+              {canWriteIn(column.category) && (
+                <Box sx={{ mb: 2 }}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    placeholder="Adicionar item..."
+                    value={newItemContent[column.key] || ""}
+                    onChange={(e) =>
+                      setNewItemContent({
+                        ...newItemContent,
+                        [column.key]: e.target.value,
+                      })
                     }
-                  }}
-                  InputProps={{
-                    endAdornment: (
-                      <IconButton
-                        size="small"
-                        onClick={() => handleAddItem(column.id)}
-                      >
-                        <Add />
-                      </IconButton>
-                    ),
-                  }}
-                  sx={{
-                    bgcolor: isDarkMode ? "#1e293b" : "white",
-                    "& .MuiOutlinedInput-root": {
-                      borderRadius: 2,
-                    },
-                  }}
-                />
-              </Box>
-
-              {/* Items */}
-              <Stack spacing={1.5} sx={{ flex: 1 }}>
-                {columnItems.map((item) => (
-                  <Paper
-                    key={item.id}
-                    elevation={0}
+                    onKeyPress={(e) => {
+                      if (e.key === "Enter") {
+                        handleAddItem(column);
+                      }
+                    }}
+                    InputProps={{
+                      endAdornment: (
+                        <IconButton
+                          size="small"
+                          onClick={() => handleAddItem(column)}
+                        >
+                          <Add />
+                        </IconButton>
+                      ),
+                    }}
                     sx={{
-                      p: 2,
                       bgcolor: isDarkMode ? "#1e293b" : "white",
-                      border:
-                        editingItemId === item.id
-                          ? `2px solid ${column.color}`
-                          : isDarkMode
-                            ? "1px solid rgba(255, 255, 255, 0.08)"
-                            : "1px solid rgba(0, 0, 0, 0.08)",
-                      borderRadius: 2,
-                      transition: "all 0.2s ease",
-                      "&:hover": {
-                        boxShadow: "0 4px 8px rgba(0, 0, 0, 0.1)",
+                      "& .MuiOutlinedInput-root": {
+                        borderRadius: 2,
                       },
                     }}
-                  >
-                    {editingItemId === item.id ? (
-                      /* Edit Mode */
-                      <Box>
-                        <TextField
-                          fullWidth
-                          multiline
-                          minRows={2}
-                          maxRows={4}
-                          size="small"
-                          value={editingContent}
-                          onChange={(e) => setEditingContent(e.target.value)}
-                          autoFocus
-                          onKeyDown={(e) => {
-                            if (e.key === "Escape") {
-                              handleCancelEdit();
-                            } else if (e.key === "Enter" && e.ctrlKey) {
-                              handleSaveEdit(item.id);
-                            }
-                          }}
-                          sx={{
-                            mb: 1.5,
-                            "& .MuiOutlinedInput-root": {
-                              borderRadius: 1.5,
-                              fontSize: "0.875rem",
-                            },
-                          }}
-                          placeholder="Digite o conteúdo..."
-                        />
-                        <Box
-                          sx={{
-                            display: "flex",
-                            justifyContent: "flex-end",
-                            gap: 1,
-                          }}
-                        >
-                          <Tooltip title="Cancelar (Esc)">
-                            <IconButton
-                              size="small"
-                              onClick={handleCancelEdit}
-                              sx={{
-                                bgcolor: "rgba(107, 114, 128, 0.1)",
-                                "&:hover": {
-                                  bgcolor: "rgba(107, 114, 128, 0.2)",
-                                },
-                              }}
-                            >
-                              <Close sx={{ fontSize: 18, color: "#6b7280" }} />
-                            </IconButton>
-                          </Tooltip>
-                          <Tooltip title="Salvar (Ctrl+Enter)">
-                            <IconButton
-                              size="small"
-                              onClick={() => handleSaveEdit(item.id)}
-                              sx={{
-                                bgcolor: `${column.color}20`,
-                                "&:hover": { bgcolor: `${column.color}30` },
-                              }}
-                            >
-                              <Check
-                                sx={{ fontSize: 18, color: column.color }}
-                              />
-                            </IconButton>
-                          </Tooltip>
-                        </Box>
-                      </Box>
-                    ) : (
-                      /* View Mode */
-                      <>
-                        <Box
-                          sx={{
-                            display: "flex",
-                            justifyContent: "space-between",
-                            alignItems: "start",
-                            mb: 1,
-                          }}
-                        >
-                          <Typography
-                            variant="body2"
-                            sx={{ flex: 1, pr: 1, whiteSpace: "pre-wrap" }}
-                          >
-                            {item.content}
-                          </Typography>
-                          {item.created_by === currentUser && (
-                            <Box
-                              sx={{ display: "flex", gap: 0.5, flexShrink: 0 }}
-                            >
-                              <Tooltip title="Editar">
-                                <IconButton
-                                  size="small"
-                                  onClick={() => handleStartEdit(item)}
-                                  sx={{
-                                    opacity: 0.6,
-                                    "&:hover": {
-                                      opacity: 1,
-                                      bgcolor: `${column.color}15`,
-                                    },
-                                  }}
-                                >
-                                  <Edit
-                                    sx={{ fontSize: 16, color: column.color }}
-                                  />
-                                </IconButton>
-                              </Tooltip>
-                              <Tooltip title="Excluir">
-                                <IconButton
-                                  size="small"
-                                  onClick={() => handleDeleteItem(item.id)}
-                                  sx={{
-                                    opacity: 0.6,
-                                    "&:hover": {
-                                      opacity: 1,
-                                      bgcolor: "rgba(239, 68, 68, 0.1)",
-                                    },
-                                  }}
-                                >
-                                  <Delete
-                                    sx={{ fontSize: 16, color: "#ef4444" }}
-                                  />
-                                </IconButton>
-                              </Tooltip>
-                            </Box>
-                          )}
-                        </Box>
-
-                        <Box
-                          sx={{
-                            display: "flex",
-                            justifyContent: "space-between",
-                            alignItems: "center",
-                          }}
-                        >
-                          <Tooltip title="Votar neste item">
-                            <Button
-                              size="small"
-                              startIcon={<ThumbUp sx={{ fontSize: 14 }} />}
-                              onClick={() => handleVote(item.id, item.votes)}
-                              sx={{
-                                minWidth: "auto",
-                                px: 1,
-                                fontSize: "0.75rem",
-                                color: column.color,
-                              }}
-                            >
-                              {item.votes}
-                            </Button>
-                          </Tooltip>
-
-                          {(item.assigned_to_profile?.full_name ||
-                            item.created_by_profile?.full_name) && (
-                            <Chip
-                              label={
-                                item.assigned_to_profile?.full_name ||
-                                item.created_by_profile?.full_name
-                              }
-                              size="small"
-                              icon={<Person sx={{ fontSize: 12 }} />}
-                              sx={{
-                                height: 20,
-                                fontSize: "0.65rem",
-                                bgcolor: `${column.color}15`,
-                                color: column.color,
-                              }}
-                            />
-                          )}
-                        </Box>
-                      </>
+                  />
+                </Box>
+              )}
+
+              {/* Items */}
+              <Stack spacing={1.5} sx={{ flex: 1 }}>
+                {groups.map((group) => (
+                  <Box key={group.head.id}>
+                    {renderCard(group.head, column, group)}
+                    {group.members.length > 0 && (
+                      <Stack
+                        spacing={1}
+                        sx={{
+                          mt: 1,
+                          ml: 2,
+                          pl: 1.5,
+                          borderLeft: `3px solid ${column.color}40`,
+                        }}
+                      >
+                        {group.members.map((member) =>
+                          renderCard(member, column, null),
+                        )}
+                      </Stack>
                     )}
-                  </Paper>
+                  </Box>
                 ))}
               </Stack>
             </Paper>
           );
         })}
       </Box>
+
+      <RetroGroupDialog
+        open={!!groupingItem}
+        item={groupingItem}
+        targets={
+          groupingItem
+            ? buildCardGroups(
+                items.filter(
+                  (i) =>
+                    getItemColumnKey(i) === getItemColumnKey(groupingItem),
+                ),
+              )
+                .map((g) => g.head)
+                .filter((head) => head.id !== groupingItem.id)
+            : []
+        }
+        onClose={() => setGroupingItem(null)}
+        onConfirm={handleGroupItem}
+      />
+
+      <ActionItemDialog
+        open={!!selectedAction}
+        item={selectedAction}
+        teamId={teamId}
+        onClose={() => setSelectedAction(null)}
+        onChanged={() => retrospective && fetchItems(retrospective.id)}
+      />
+
+      {teamId && (
+        <RetroTemplateDialog
+          open={templatesOpen}
+          teamId={teamId}
+          templates={teamTemplates}
+          onClose={() => setTemplatesOpen(false)}
+        />
+      )}
     </Box>
   );
 }
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import {
   Box,
   Typography,
@@ -9,6 +9,10 @@ import {
   CircularProgress,
   Stack,
   Chip,
+  Autocomplete,
+  ToggleButton,
+  ToggleButtonGroup,
+  Divider,
 } from '@mui/material'
 import {
   Visibility,
@@ -17,22 +21,32 @@ import {
   Assignment,
   ThumbUp,
   ThumbDown,
+  Undo,
 } from '@mui/icons-material'
 import toast from 'react-hot-toast'
 import { supabase } from '@/lib/supabase'
 
+interface ReviewStory {
+  id: string
+  title: string
+  status: string
+  story_points?: number | null
+}
+
 interface ReviewMeetingFormProps {
   sprintId: string
   sprintName: string
-  stories: Array<{
-    id: string
-    title: string
-    status: string
-  }>
+  stories: ReviewStory[]
+  /** Suggested attendees */
+  members?: Array<{ id: string; full_name: string }>
+  /** Called after rejected stories were sent back to the backlog */
+  onStoriesChange?: () => void
 }
 
 interface SprintReview {
   id: string
+  meeting_date: string
+  attendees: string[] | null
   demo_notes: string
   stakeholder_feedback: string
   accepted_stories: number
@@ -41,18 +55,55 @@ interface SprintReview {
   next_steps: string
 }
 
-export default function ReviewMeetingForm({ sprintId, sprintName, stories }: ReviewMeetingFormProps) {
+interface StoryFeedbackRow {
+  story_id: string
+  demonstrated: boolean
+  accepted: boolean
+  feedback: string | null
+  returned_to_backlog_at: string | null
+  story: ReviewStory | ReviewStory[] | null
+}
+
+/** Not demonstrated, or demonstrated and then accepted / rejected */
+type StoryDecision = 'pending' | 'accepted' | 'rejected'
+
+interface StoryFeedback {
+  decision: StoryDecision
+  feedback: string
+  returnedToBacklogAt: string | null
+}
+
+const decisionConfig: Record<StoryDecision, { label: string; color: string }> = {
+  pending: { label: 'Não demonstrada', color: '#6b7280' },
+  accepted: { label: 'Aceita', color: '#10b981' },
+  rejected: { label: 'Rejeitada', color: '#ef4444' },
+}
+
+const emptyFeedback: StoryFeedback = { decision: 'pending', feedback: '', returnedToBacklogAt: null }
+
+const toDecision = (row: Pick<StoryFeedbackRow, 'demonstrated' | 'accepted'>): StoryDecision =>
+  !row.demonstrated ? 'pending' : row.accepted ? 'accepted' : 'rejected'
+
+export default function ReviewMeetingForm({
+  sprintId,
+  sprintName,
+  stories,
+  members = [],
+  onStoriesChange,
+}: ReviewMeetingFormProps) {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [review, setReview] = useState<SprintReview | null>(null)
   const [formData, setFormData] = useState({
+    meeting_date: new Date().toISOString().split('T')[0],
+    attendees: [] as string[],
     demo_notes: '',
     stakeholder_feedback: '',
-    accepted_stories: 0,
-    rejected_stories: 0,
     overall_satisfaction: 3,
     next_steps: '',
   })
+  const [storyFeedback, setStoryFeedback] = useState<Record<string, StoryFeedback>>({})
+  const [feedbackStories, setFeedbackStories] = useState<ReviewStory[]>([])
 
   useEffect(() => {
     fetchReview()
@@ -72,13 +123,39 @@ export default function ReviewMeetingForm({ sprintId, sprintName, stories }: Rev
       if (data) {
         setReview(data)
         setFormData({
+          meeting_date: data.meeting_date || new Date().toISOString().split('T')[0],
+          attendees: data.attendees || [],
           demo_notes: data.demo_notes || '',
           stakeholder_feedback: data.stakeholder_feedback || '',
-          accepted_stories: data.accepted_stories || 0,
-          rejected_stories: data.rejected_stories || 0,
           overall_satisfaction: data.overall_satisfaction || 3,
           next_steps: data.next_steps || '',
         })
+
+        const { data: feedbackData, error: feedbackError } = await supabase
+          .from('review_story_feedback')
+          .select('story_id, demonstrated, accepted, feedback, returned_to_backlog_at, story:tasks!story_id(id, title, status, story_points)')
+          .eq('review_id', data.id)
+
+        if (feedbackError) throw feedbackError
+
+        const rows = (feedbackData || []) as StoryFeedbackRow[]
+        setStoryFeedback(
+          Object.fromEntries(
+            rows.map((row) => [
+              row.story_id,
+              {
+                decision: toDecision(row),
+                feedback: row.feedback || '',
+                returnedToBacklogAt: row.returned_to_backlog_at,
+              },
+            ])
+          )
+        )
+        setFeedbackStories(
+          rows
+            .map((row) => (Array.isArray(row.story) ? row.story[0] : row.story))
+            .filter((story): story is ReviewStory => !!story)
+        )
       }
     } catch (error) {
       console.error('Error fetching review:', error)
@@ -88,37 +165,107 @@ export default function ReviewMeetingForm({ sprintId, sprintName, stories }: Rev
     }
   }
 
+  // Reviewed stories that already left the sprint (rejected and sent to the backlog)
+  const returnedStories = useMemo(
+    () => feedbackStories.filter((story) => !stories.some((s) => s.id === story.id)),
+    [feedbackStories, stories]
+  )
+  const reviewStories = useMemo(() => [...stories, ...returnedStories], [stories, returnedStories])
+
+  const getFeedback = (storyId: string) => storyFeedback[storyId] || emptyFeedback
+
+  const updateFeedback = (storyId: string, changes: Partial<StoryFeedback>) => {
+    setStoryFeedback((prev) => ({ ...prev, [storyId]: { ...(prev[storyId] || emptyFeedback), ...changes } }))
+  }
+
+  // The aggregate counts are derived from the per-story decisions
+  const acceptedCount = reviewStories.filter((s) => getFeedback(s.id).decision === 'accepted').length
+  const rejectedCount = reviewStories.filter((s) => getFeedback(s.id).decision === 'rejected').length
+  const storiesToReturn = stories.filter((s) => getFeedback(s.id).decision === 'rejected')
+
   const handleSave = async () => {
+    if (!formData.meeting_date) {
+      toast.error('Informe a data da reunião')
+      return
+    }
+
     setSaving(true)
     try {
       const { data: user } = await supabase.auth.getUser()
+      const reviewData = {
+        ...formData,
+        accepted_stories: acceptedCount,
+        rejected_stories: rejectedCount,
+      }
 
-      if (review) {
+      let reviewId = review?.id
+      if (reviewId) {
         // Update existing review
-        const { error } = await supabase
-          .from('sprint_reviews')
-          .update({
-            ...formData,
-            meeting_date: new Date().toISOString().split('T')[0],
-          })
-          .eq('id', review.id)
+        const { error } = await supabase.from('sprint_reviews').update(reviewData).eq('id', reviewId)
 
         if (error) throw error
       } else {
         // Create new review
-        const { error } = await supabase.from('sprint_reviews').insert([
-          {
-            sprint_id: sprintId,
-            ...formData,
-            meeting_date: new Date().toISOString().split('T')[0],
-            created_by: user.user?.id,
-          },
-        ])
+        const { data: created, error } = await supabase
+          .from('sprint_reviews')
+          .insert([
+            {
+              sprint_id: sprintId,
+              ...reviewData,
+              created_by: user.user?.id,
+            },
+          ])
+          .select('id')
+          .single()
 
         if (error) throw error
+        reviewId = created.id
+      }
+
+      if (reviewStories.length > 0) {
+        const { error: feedbackError } = await supabase.from('review_story_feedback').upsert(
+          reviewStories.map((story) => {
+            const { decision, feedback } = getFeedback(story.id)
+            return {
+              review_id: reviewId,
+              story_id: story.id,
+              demonstrated: decision !== 'pending',
+              accepted: decision === 'accepted',
+              feedback: feedback.trim() || null,
+            }
+          }),
+          { onConflict: 'review_id,story_id' }
+        )
+
+        if (feedbackError) throw feedbackError
       }
 
-      toast.success('Sprint review salvo com sucesso!')
+      // Rejected stories go back to the product backlog
+      if (storiesToReturn.length > 0) {
+        const ids = storiesToReturn.map((s) => s.id)
+        const { error: backlogError } = await supabase
+          .from('tasks')
+          .update({ sprint_id: null, status: 'todo' })
+          .in('id', ids)
+
+        if (backlogError) throw backlogError
+
+        const { error: returnedError } = await supabase
+          .from('review_story_feedback')
+          .update({ returned_to_backlog_at: new Date().toISOString() })
+          .eq('review_id', reviewId)
+          .in('story_id', ids)
+
+        if (returnedError) throw returnedError
+
+        onStoriesChange?.()
+      }
+
+      toast.success(
+        storiesToReturn.length > 0
+          ? `Sprint review salvo! ${storiesToReturn.length} história(s) rejeitada(s) voltaram ao Backlog`
+          : 'Sprint review salvo com sucesso!'
+      )
       await fetchReview()
     } catch (error) {
       console.error('Error saving review:', error)
@@ -175,17 +322,17 @@ export default function ReviewMeetingForm({ sprintId, sprintName, stories }: Rev
           />
           <Chip
             icon={<ThumbUp />}
-            label={`${formData.accepted_stories} aceitas`}
+            label={`${acceptedCount} aceitas`}
             sx={{
               bgcolor: 'rgba(99, 102, 241, 0.1)',
               color: '#6366f1',
               fontWeight: 600,
             }}
           />
-          {formData.rejected_stories > 0 && (
+          {rejectedCount > 0 && (
             <Chip
               icon={<ThumbDown />}
-              label={`${formData.rejected_stories} rejeitadas`}
+              label={`${rejectedCount} rejeitadas`}
               sx={{
                 bgcolor: 'rgba(239, 68, 68, 0.1)',
                 color: '#ef4444',
@@ -198,6 +345,147 @@ export default function ReviewMeetingForm({ sprintId, sprintName, stories }: Rev
 
       {/* Form */}
       <Stack spacing={3}>
+        <Paper
+          elevation={0}
+          sx={{
+            p: 3,
+            borderRadius: 3,
+            border: '2px solid rgba(99, 102, 241, 0.1)',
+          }}
+        >
+          <Typography variant="h6" fontWeight={700} gutterBottom>
+            Reunião
+          </Typography>
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '200px 1fr' }, gap: 2 }}>
+            <TextField
+              type="date"
+              label="Data da Reunião"
+              value={formData.meeting_date}
+              onChange={(e) => setFormData({ ...formData, meeting_date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <Autocomplete
+              multiple
+              freeSolo
+              options={members.map((member) => member.full_name)}
+              value={formData.attendees}
+              onChange={(_, attendees) =>
+                setFormData({
+                  ...formData,
+                  attendees: Array.from(new Set(attendees.map((a) => a.trim()).filter(Boolean))),
+                })
+              }
+              renderTags={(attendees, getTagProps) =>
+                attendees.map((attendee, index) => (
+                  <Chip {...getTagProps({ index })} key={attendee} label={attendee} size="small" />
+                ))
+              }
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Participantes"
+                  placeholder={formData.attendees.length === 0 ? 'Time e stakeholders (Enter para adicionar)' : ''}
+                />
+              )}
+            />
+          </Box>
+        </Paper>
+
+        <Paper
+          elevation={0}
+          sx={{
+            p: 3,
+            borderRadius: 3,
+            border: '2px solid rgba(99, 102, 241, 0.1)',
+          }}
+        >
+          <Typography variant="h6" fontWeight={700} gutterBottom>
+            Aceite das Histórias
+          </Typography>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+            Registre cada história demonstrada. As rejeitadas voltam ao Backlog do produto ao salvar.
+          </Typography>
+
+          {reviewStories.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 3 }}>
+              Nenhuma história neste sprint
+            </Typography>
+          ) : (
+            <Stack divider={<Divider />} spacing={2}>
+              {reviewStories.map((story) => {
+                const { decision, feedback, returnedToBacklogAt } = getFeedback(story.id)
+                const returned = !stories.some((s) => s.id === story.id)
+                return (
+                  <Box key={story.id}>
+                    <Box
+                      sx={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        alignItems: 'center',
+                        gap: 2,
+                        flexWrap: 'wrap',
+                        mb: 1,
+                      }}
+                    >
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, minWidth: 0, flexWrap: 'wrap' }}>
+                        <Typography variant="body1" fontWeight={600}>
+                          {story.title}
+                        </Typography>
+                        {!!story.story_points && (
+                          <Chip label={`${story.story_points} pts`} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+                        )}
+                        {returned && (
+                          <Chip
+                            icon={<Undo sx={{ fontSize: 14 }} />}
+                            label={
+                              returnedToBacklogAt
+                                ? `Devolvida ao Backlog em ${new Date(returnedToBacklogAt).toLocaleDateString('pt-BR')}`
+                                : 'Fora do sprint'
+                            }
+                            size="small"
+                            sx={{ height: 20, fontSize: '0.7rem', bgcolor: 'rgba(239, 68, 68, 0.1)', color: '#ef4444' }}
+                          />
+                        )}
+                      </Box>
+                      <ToggleButtonGroup
+                        value={decision}
+                        exclusive
+                        size="small"
+                        disabled={returned}
+                        onChange={(_, value: StoryDecision | null) => value && updateFeedback(story.id, { decision: value })}
+                      >
+                        {(Object.keys(decisionConfig) as StoryDecision[]).map((key) => (
+                          <ToggleButton
+                            key={key}
+                            value={key}
+                            sx={{
+                              px: 1.5,
+                              '&.Mui-selected': {
+                                bgcolor: `${decisionConfig[key].color}1a`,
+                                color: decisionConfig[key].color,
+                                fontWeight: 700,
+                              },
+                            }}
+                          >
+                            {decisionConfig[key].label}
+                          </ToggleButton>
+                        ))}
+                      </ToggleButtonGroup>
+                    </Box>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      placeholder="Feedback sobre esta história..."
+                      value={feedback}
+                      onChange={(e) => updateFeedback(story.id, { feedback: e.target.value })}
+                    />
+                  </Box>
+                )
+              })}
+            </Stack>
+          )}
+        </Paper>
+
         <Paper
           elevation={0}
           sx={{
@@ -216,31 +504,7 @@ export default function ReviewMeetingForm({ sprintId, sprintName, stories }: Rev
             placeholder="Descreva as histórias demonstradas, funcionalidades apresentadas e principais destaques..."
             value={formData.demo_notes}
             onChange={(e) => setFormData({ ...formData, demo_notes: e.target.value })}
-            sx={{ mb: 2 }}
           />
-
-          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
-            <TextField
-              type="number"
-              label="Histórias Aceitas"
-              value={formData.accepted_stories}
-              onChange={(e) => setFormData({ ...formData, accepted_stories: parseInt(e.target.value) || 0 })}
-              inputProps={{ min: 0, max: stories.length }}
-              InputProps={{
-                startAdornment: <ThumbUp sx={{ mr: 1, color: '#10b981' }} />,
-              }}
-            />
-            <TextField
-              type="number"
-              label="Histórias Rejeitadas"
-              value={formData.rejected_stories}
-              onChange={(e) => setFormData({ ...formData, rejected_stories: parseInt(e.target.value) || 0 })}
-              inputProps={{ min: 0, max: stories.length }}
-              InputProps={{
-                startAdornment: <ThumbDown sx={{ mr: 1, color: '#ef4444' }} />,
-              }}
-            />
-          </Box>
         </Paper>
 
         <Paper
@@ -56,11 +56,15 @@ import CreateUserStoryModal from './CreateUserStoryModal'
 import CreateSubtaskModal from './CreateSubtaskModal'
 import KanbanBoard from './KanbanBoard'
 import BurndownChart from './BurndownChart'
+import BurnupChart from './BurnupChart'
+import SprintScopeChanges from './SprintScopeChanges'
 import VelocityChart from './VelocityChart'
 import RetrospectiveBoard from './RetrospectiveBoard'
 import ReviewMeetingForm from './ReviewMeetingForm'
 import AdaModal from './AdaModal'
 import { supabase } from '@/lib/supabase'
+import { getItemColumnKey, getRetroColumns } from '@/utils/retrospective'
+import type { RetrospectiveColumn, RetrospectiveItemCategory } from '@/types'
 
 interface SprintDetailsModalProps {
   open: boolean
@@ -229,7 +233,7 @@ export default function SprintDetailsModal({ open, onClose, sprint }: SprintDeta
 
       // Get action items
       const { data: actions, error: actionsError } = await supabase
-        .from('retrospective_items')
+        .from('retrospective_items_visible')
         .select('content')
         .eq('retrospective_id', retro.id)
         .eq('category', 'action_item')
@@ -372,25 +376,29 @@ export default function SprintDetailsModal({ open, onClose, sprint }: SprintDeta
 
     // Fetch retrospective data
     interface RetroItem {
-      category: string
+      category: RetrospectiveItemCategory
+      column_key: string | null
       content: string
       votes: number
     }
     let retroItems: RetroItem[] = []
     let retroMoodRating = 0
+    let retroColumns: RetrospectiveColumn[] = getRetroColumns(null)
     try {
       const { data: retroData } = await supabase
         .from('sprint_retrospectives')
-        .select('id, mood_rating')
+        .select('id, mood_rating, columns')
         .eq('sprint_id', sprint.id)
         .single()
 
       if (retroData) {
         retroMoodRating = retroData.mood_rating || 0
+        retroColumns = getRetroColumns(retroData)
         const { data: itemsData } = await supabase
-          .from('retrospective_items')
-          .select('category, content, votes')
+          .from('retrospective_items_visible')
+          .select('category, column_key, content, votes')
           .eq('retrospective_id', retroData.id)
+          .not('content', 'is', null)
           .order('votes', { ascending: false })
 
         if (itemsData) {
@@ -891,15 +899,22 @@ export default function SprintDetailsModal({ open, onClose, sprint }: SprintDeta
         yPosition += 18
       }
 
-      // Retrospective categories
-      const retroCategories = [
-        { id: 'went_well', title: 'O que foi bem', color: successColor },
-        { id: 'to_improve', title: 'O que melhorar', color: warningColor },
-        { id: 'action_item', title: 'Ações para o próximo sprint', color: primaryColor },
-      ]
+      // Retrospective columns of the format used, colored by base category
+      const categoryColors: Record<RetrospectiveItemCategory, [number, number, number]> = {
+        went_well: successColor,
+        to_improve: warningColor,
+        action_item: primaryColor,
+        other: grayColor,
+      }
+      const retroCategories = retroColumns.map((column) => ({
+        id: column.key,
+        // jsPDF's standard fonts can't draw emoji
+        title: column.title.replace(/[^\p{L}\p{N}\p{P}\s]/gu, '').trim(),
+        color: categoryColors[column.category] || grayColor,
+      }))
 
       retroCategories.forEach((category) => {
-        const items = retroItems.filter((item) => item.category === category.id)
+        const items = retroItems.filter((item) => getItemColumnKey(item) === category.id)
         if (items.length === 0) return
 
         checkNewPage(20 + items.length * 12)
@@ -1341,12 +1356,22 @@ export default function SprintDetailsModal({ open, onClose, sprint }: SprintDeta
               >
                 <BurndownChart
                   sprint={{
+                    id: sprint.id,
+                    start_date: sprint.start_date,
+                    end_date: sprint.end_date,
+                  }}
+                  stories={stories}
+                />
+                <BurnupChart
+                  sprint={{
+                    id: sprint.id,
                     start_date: sprint.start_date,
                     end_date: sprint.end_date,
                   }}
                   stories={stories}
                 />
                 <VelocityChart teamId={sprint.team_id} currentSprintId={sprint.id} />
+                <SprintScopeChanges sprint={{ id: sprint.id, start_date: sprint.start_date }} />
               </Box>
             </Box>
           )}
@@ -1946,12 +1971,22 @@ export default function SprintDetailsModal({ open, onClose, sprint }: SprintDeta
 
           {/* Tab Panel 1: Retrospective */}
           {activeTab === 1 && (
-            <RetrospectiveBoard sprintId={sprint.id} sprintName={sprint.name} />
+            <RetrospectiveBoard
+              sprintId={sprint.id}
+              sprintName={sprint.name}
+              teamId={sprint.team_id}
+            />
           )}
 
           {/* Tab Panel 2: Review */}
           {activeTab === 2 && (
-            <ReviewMeetingForm sprintId={sprint.id} sprintName={sprint.name} stories={stories} />
+            <ReviewMeetingForm
+              sprintId={sprint.id}
+              sprintName={sprint.name}
+              stories={stories}
+              members={teamMembers}
+              onStoriesChange={fetchUserStories}
+            />
           )}
         </Box>
       </Modal>
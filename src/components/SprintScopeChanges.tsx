@@ -0,0 +1,77 @@
+import { Box, Chip, Paper, Typography, useTheme } from '@mui/material'
+import { AddCircleOutline, RemoveCircleOutline, SwapVert } from '@mui/icons-material'
+import { useSprintScopeChanges } from '@/hooks/useSprintScope'
+
+interface SprintScopeChangesProps {
+  sprint: {
+    id: string
+    start_date: string
+  }
+}
+
+/**
+ * Stories added to or removed from the sprint after it started
+ */
+export default function SprintScopeChanges({ sprint }: SprintScopeChangesProps) {
+  const theme = useTheme()
+  const isDarkMode = theme.palette.mode === 'dark'
+  const { data: changes = [] } = useSprintScopeChanges(sprint)
+
+  if (changes.length === 0) return null
+
+  const added = changes.filter((c) => c.kind === 'added').reduce((sum, c) => sum + c.points, 0)
+  const removed = changes.filter((c) => c.kind === 'removed').reduce((sum, c) => sum + c.points, 0)
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        borderRadius: 3,
+        bgcolor: isDarkMode ? '#1e293b' : '#fffbeb',
+        border: '2px solid rgba(245, 158, 11, 0.2)',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 2, gap: 1, flexWrap: 'wrap' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <SwapVert sx={{ color: '#f59e0b' }} />
+          <Typography variant="subtitle1" fontWeight={700}>
+            Mudanças de Escopo
+          </Typography>
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Chip size="small" label={`+${added} pts adicionados`} sx={{ bgcolor: 'rgba(245, 158, 11, 0.15)', color: '#d97706', fontWeight: 700 }} />
+          <Chip size="small" label={`-${removed} pts removidos`} sx={{ bgcolor: 'rgba(239, 68, 68, 0.1)', color: '#ef4444', fontWeight: 700 }} />
+        </Box>
+      </Box>
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+        {changes.map((change) => {
+          const isAdded = change.kind === 'added'
+          const Icon = isAdded ? AddCircleOutline : RemoveCircleOutline
+          return (
+            <Box key={change.id} sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <Icon sx={{ fontSize: 18, color: isAdded ? '#f59e0b' : '#ef4444' }} />
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography variant="body2" fontWeight={600} noWrap>
+                  {change.title}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {isAdded ? 'Adicionada' : 'Removida'} em{' '}
+                  {new Date(change.changed_at).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' })}
+                  {change.user_name ? ` por ${change.user_name}` : ''}
+                </Typography>
+              </Box>
+              <Chip
+                size="small"
+                label={`${isAdded ? '+' : '-'}${change.points} pts`}
+                sx={{ fontWeight: 700, color: isAdded ? '#d97706' : '#ef4444' }}
+                variant="outlined"
+              />
+            </Box>
+          )
+        })}
+      </Box>
+    </Paper>
+  )
+}
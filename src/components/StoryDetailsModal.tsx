@@ -45,11 +45,14 @@ import {
   Send,
   ChatBubbleOutline,
   Close,
+  History,
 } from "@mui/icons-material";
 import toast from "react-hot-toast";
 import Modal from "./Modal";
 import CreateSubtaskModal from "./CreateSubtaskModal";
 import BlockReasonModal from "./BlockReasonModal";
+import { ActivityHistory } from "./activity";
+import { LabelsInput } from "./kanban";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/contexts/AuthContext";
 import confetti from "canvas-confetti";
@@ -91,6 +94,7 @@ interface Story {
   end_date: string | null;
   planned_duration: number | null;
   project_id: string;
+  labels?: string[] | null;
   assigned_to_profile?: { full_name: string };
   subtasks?: Subtask[];
 }
@@ -186,6 +190,7 @@ export default function StoryDetailsModal({
     due_date: "",
     start_date: "",
     end_date: "",
+    labels: [] as string[],
   });
 
   // Celebration confetti for subtask completion
@@ -253,6 +258,7 @@ export default function StoryDetailsModal({
           ? storyData.start_date.split("T")[0]
           : "",
         end_date: storyData.end_date ? storyData.end_date.split("T")[0] : "",
+        labels: storyData.labels || [],
       });
     } catch (error) {
       console.error("Error fetching story:", error);
@@ -510,6 +516,7 @@ export default function StoryDetailsModal({
             due_date: formData.due_date || null,
             start_date: formData.start_date || null,
             end_date: formData.end_date || null,
+            labels: formData.labels,
             planned_duration: planned_duration,
             blocked_comment_id: commentData.id,
           })
@@ -528,6 +535,7 @@ export default function StoryDetailsModal({
           due_date: formData.due_date || null,
           start_date: formData.start_date || null,
           end_date: formData.end_date || null,
+          labels: formData.labels,
           planned_duration: planned_duration,
         };
 
@@ -750,6 +758,11 @@ export default function StoryDetailsModal({
                 iconPosition="start"
                 label={`Dependências (${predecessors.length + successors.length})`}
               />
+              <Tab
+                icon={<History />}
+                iconPosition="start"
+                label="Histórico"
+              />
             </Tabs>
           </Box>
 
@@ -1396,6 +1409,14 @@ export default function StoryDetailsModal({
                     </TextField>
                   </Box>
 
+                  <LabelsInput
+                    projectId={story?.project_id}
+                    value={formData.labels}
+                    onChange={(labels) =>
+                      setFormData((prev) => ({ ...prev, labels }))
+                    }
+                  />
+
                   <Box
                     sx={{
                       display: "grid",
@@ -1546,6 +1567,7 @@ export default function StoryDetailsModal({
                           end_date: story.end_date
                             ? story.end_date.split("T")[0]
                             : "",
+                          labels: story.labels || [],
                         });
                       }}
                       disabled={saving}
@@ -2548,6 +2570,11 @@ export default function StoryDetailsModal({
               </Box>
             </Box>
           )}
+
+          {/* Tab 4: History */}
+          {activeTab === 4 && (
+            <ActivityHistory entityType="task" entityId={storyId} />
+          )}
         </Box>
       </Modal>
 
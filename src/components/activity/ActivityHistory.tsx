@@ -0,0 +1,140 @@
+import { Avatar, Box, Chip, CircularProgress, Typography } from '@mui/material'
+import { AddCircleOutline, Edit, DeleteOutline, CheckCircle } from '@mui/icons-material'
+import { useEntityActivity } from '@/hooks/useActivityLog'
+import type { ActivityLogEntry } from '@/types'
+import {
+  ACTIVITY_ENTITY_LABELS,
+  formatActivityTime,
+  formatActivityValue,
+  getActivityChanges,
+  getActivityFieldLabel,
+  getActivityTitle,
+} from '@/utils/activityLog'
+
+interface ActivityHistoryProps {
+  /** 'project' lists everything logged under the project */
+  entityType: 'task' | 'project'
+  entityId: string
+}
+
+const ACTION_STYLE = {
+  created: { Icon: AddCircleOutline, color: '#6366f1' },
+  updated: { Icon: Edit, color: '#f59e0b' },
+  deleted: { Icon: DeleteOutline, color: '#ef4444' },
+} as const
+
+function getEntryStyle(entry: ActivityLogEntry) {
+  if (entry.entity_type === 'task' && entry.details?.changes?.status?.new === 'done' && entry.action === 'updated') {
+    return { Icon: CheckCircle, color: '#10b981' }
+  }
+  return ACTION_STYLE[entry.action] ?? ACTION_STYLE.updated
+}
+
+/**
+ * Audit trail of an entity: who changed what, with before → after values
+ */
+export default function ActivityHistory({ entityType, entityId }: ActivityHistoryProps) {
+  const { data, isLoading, error } = useEntityActivity(entityType, entityId)
+  const entries = data?.entries || []
+  const references = data?.references || {}
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress size={28} />
+      </Box>
+    )
+  }
+
+  if (error) {
+    return (
+      <Typography variant="body2" color="error" sx={{ textAlign: 'center', py: 4 }}>
+        Erro ao carregar histórico
+      </Typography>
+    )
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+        Nenhuma alteração registrada
+      </Typography>
+    )
+  }
+
+  return (
+    <Box sx={{ maxHeight: 500, overflowY: 'auto', pr: 1 }}>
+      {entries.map((entry, index) => {
+        const { Icon, color } = getEntryStyle(entry)
+        const changes = getActivityChanges(entry)
+        const isLast = index === entries.length - 1
+        // On a project or task history, name the item only when it is not the entity itself
+        const showName = entry.entity_id !== entityId
+
+        return (
+          <Box key={entry.id} sx={{ display: 'flex', gap: 1.5 }}>
+            <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', width: 32, flexShrink: 0 }}>
+              <Box
+                sx={{
+                  width: 32,
+                  height: 32,
+                  borderRadius: '50%',
+                  bgcolor: `${color}1a`,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  flexShrink: 0,
+                }}
+              >
+                <Icon sx={{ fontSize: 16, color }} />
+              </Box>
+              {!isLast && <Box sx={{ width: '2px', flex: 1, minHeight: 12, bgcolor: 'divider', my: 0.5 }} />}
+            </Box>
+
+            <Box sx={{ flex: 1, minWidth: 0, pb: isLast ? 0 : 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                <Typography variant="body2" fontWeight={700} sx={{ color }}>
+                  {getActivityTitle(entry)}
+                </Typography>
+                {showName && entry.details?.name && (
+                  <Typography variant="body2" fontWeight={500} noWrap sx={{ maxWidth: 280 }}>
+                    {entry.details.name}
+                  </Typography>
+                )}
+                {showName && entry.entity_type !== 'task' && entry.entity_type !== 'comment' && (
+                  <Chip label={ACTIVITY_ENTITY_LABELS[entry.entity_type]} size="small" sx={{ height: 18, fontSize: '0.65rem' }} />
+                )}
+              </Box>
+
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75, mt: 0.25 }}>
+                <Avatar src={entry.user?.avatar_url || undefined} sx={{ width: 18, height: 18, fontSize: '0.6rem' }}>
+                  {entry.user?.full_name?.charAt(0).toUpperCase() || '?'}
+                </Avatar>
+                <Typography variant="caption" color="text.secondary">
+                  {entry.user?.full_name || 'Sistema'} · {formatActivityTime(entry.created_at)}
+                </Typography>
+              </Box>
+
+              {changes.length > 0 && (
+                <Box sx={{ mt: 1, pl: 1.5, borderLeft: '2px solid', borderColor: 'divider' }}>
+                  {changes.map(([field, change]) => (
+                    <Typography key={field} variant="caption" component="div" sx={{ lineHeight: 1.6 }}>
+                      <Box component="span" sx={{ fontWeight: 600 }}>
+                        {getActivityFieldLabel(field)}:
+                      </Box>{' '}
+                      <Box component="span" sx={{ color: 'text.disabled', textDecoration: 'line-through' }}>
+                        {formatActivityValue(field, change.old, references)}
+                      </Box>
+                      {' → '}
+                      <Box component="span">{formatActivityValue(field, change.new, references)}</Box>
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+            </Box>
+          </Box>
+        )
+      })}
+    </Box>
+  )
+}
@@ -0,0 +1 @@
+export { default as ActivityHistory } from './ActivityHistory'
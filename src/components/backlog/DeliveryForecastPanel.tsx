@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Card,
+  Chip,
+  CircularProgress,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography,
+  useTheme,
+} from '@mui/material'
+import { Insights } from '@mui/icons-material'
+import { Bar, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { useForecastTeams, useVelocityHistory } from '@/hooks/useVelocityHistory'
+import {
+  FORECAST_CONFIDENCE_LEVELS,
+  getSprintFinishDate,
+  runMonteCarloForecast,
+  type ForecastConfidence,
+} from '@/utils/monteCarloForecast'
+
+export interface ForecastItem {
+  id: string
+  title: string
+  story_points: number | null
+  status: string
+}
+
+interface DeliveryForecastPanelProps {
+  /** Backlog items in priority order */
+  items: ForecastItem[]
+  /** Limits the team choice to the project's teams */
+  projectId?: string
+}
+
+/** Below this many completed sprints the forecast is flagged as unreliable */
+const MIN_RELIABLE_SAMPLES = 3
+
+const CONFIDENCE_COLORS: Record<ForecastConfidence, string> = {
+  50: '#f59e0b',
+  85: '#6366f1',
+  95: '#10b981',
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('pt-BR', { day: '2-digit', month: 'short', year: 'numeric' })
+
+/**
+ * Monte Carlo forecast of when the ordered backlog (up to a cut line) is done,
+ * sampled from the chosen team's velocity history
+ */
+export default function DeliveryForecastPanel({ items, projectId }: DeliveryForecastPanelProps) {
+  const theme = useTheme()
+  const isDarkMode = theme.palette.mode === 'dark'
+  const { data: teams = [] } = useForecastTeams(projectId)
+  const [teamId, setTeamId] = useState('')
+  const [cutItemId, setCutItemId] = useState('')
+  const { data: history, isLoading } = useVelocityHistory(teamId || undefined)
+
+  useEffect(() => {
+    if (!teams.some((t) => t.id === teamId)) setTeamId(teams[0]?.id || '')
+  }, [teams, teamId])
+
+  useEffect(() => {
+    if (cutItemId && !items.some((i) => i.id === cutItemId)) setCutItemId('')
+  }, [items, cutItemId])
+
+  const scope = useMemo(() => {
+    const cutIndex = cutItemId ? items.findIndex((i) => i.id === cutItemId) : items.length - 1
+    const open = items.slice(0, cutIndex + 1).filter((i) => i.status !== 'done')
+    return {
+      itemCount: open.length,
+      points: open.reduce((sum, i) => sum + (i.story_points || 0), 0),
+      unestimated: open.filter((i) => !i.story_points).length,
+    }
+  }, [items, cutItemId])
+
+  const velocities = useMemo(() => (history?.samples || []).map((s) => s.completedPoints), [history])
+
+  const forecast = useMemo(
+    () => runMonteCarloForecast({ velocities, remainingPoints: scope.points }),
+    [velocities, scope.points]
+  )
+
+  const averageVelocity =
+    velocities.length > 0 ? Math.round(velocities.reduce((a, b) => a + b, 0) / velocities.length) : 0
+
+  const chartData = (forecast?.distribution || []).map((bucket) => ({
+    label: `${bucket.sprints}`,
+    probability: Math.round(bucket.probability * 1000) / 10,
+    cumulative: Math.round(bucket.cumulative * 1000) / 10,
+  }))
+
+  return (
+    <Card
+      elevation={0}
+      sx={{
+        p: 3,
+        mb: 3,
+        background: isDarkMode
+          ? 'linear-gradient(135deg, #1e293b 0%, #0f172a 100%)'
+          : 'linear-gradient(135deg, #ffffff 0%, #f8fafc 100%)',
+        border: '2px solid rgba(99, 102, 241, 0.1)',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+        <Insights sx={{ color: '#6366f1' }} />
+        <Typography variant="h6" fontWeight={700} sx={{ flex: 1 }}>
+          Previsão de Entrega
+        </Typography>
+        <Chip size="small" label="Monte Carlo" sx={{ fontWeight: 600 }} />
+      </Box>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 2fr' }, gap: 2, mb: 2 }}>
+        <TextField
+          select
+          size="small"
+          label="Time"
+          value={teamId}
+          onChange={(e) => setTeamId(e.target.value)}
+          disabled={teams.length === 0}
+        >
+          {teams.map((team) => (
+            <MenuItem key={team.id} value={team.id}>
+              {team.name}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Linha de corte"
+          value={cutItemId}
+          onChange={(e) => setCutItemId(e.target.value)}
+        >
+          <MenuItem value="">Todo o backlog</MenuItem>
+          {items.map((item, index) => (
+            <MenuItem key={item.id} value={item.id}>
+              Até #{index + 1} — {item.title}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+        <Chip size="small" label={`${scope.points} pts restantes`} />
+        <Chip size="small" label={`${scope.itemCount} itens`} />
+        {history && (
+          <>
+            <Chip size="small" label={`${history.samples.length} sprints no histórico`} />
+            <Chip size="small" label={`Velocidade média ${averageVelocity} pts`} />
+            <Chip size="small" label={`Sprints de ${history.sprintLengthDays} dias`} />
+          </>
+        )}
+      </Box>
+
+      {scope.unestimated > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {scope.unestimated} {scope.unestimated === 1 ? 'item sem estimativa não entra' : 'itens sem estimativa não entram'} na
+          previsão.
+        </Alert>
+      )}
+
+      {!teamId ? (
+        <Typography variant="body2" color="text.secondary">
+          Nenhum time disponível para basear a previsão.
+        </Typography>
+      ) : isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={28} />
+        </Box>
+      ) : !forecast || !history ? (
+        <Alert severity="info">
+          O time ainda não tem sprints concluídos com pontos entregues. Conclua ao menos um sprint para gerar a
+          previsão.
+        </Alert>
+      ) : scope.points === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Não há pontos em aberto até a linha de corte.
+        </Typography>
+      ) : (
+        <>
+          {history.samples.length < MIN_RELIABLE_SAMPLES && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Histórico curto ({history.samples.length} sprint{history.samples.length > 1 ? 's' : ''}): use a
+              previsão com cautela.
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' }, gap: 2, mb: 3 }}>
+            {FORECAST_CONFIDENCE_LEVELS.map((level) => {
+              const sprints = forecast.sprintsAt[level]
+              const color = CONFIDENCE_COLORS[level]
+              return (
+                <Paper
+                  key={level}
+                  elevation={0}
+                  sx={{ p: 2, borderRadius: 2, border: `2px solid ${color}33`, bgcolor: `${color}0d` }}
+                >
+                  <Typography variant="caption" color="text.secondary" fontWeight={600}>
+                    {level}% de confiança
+                  </Typography>
+                  <Typography variant="h5" fontWeight={800} sx={{ color }}>
+                    {formatDate(getSprintFinishDate(history.nextSprintStart, history.sprintLengthDays, sprints))}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    até {sprints} sprint{sprints > 1 ? 's' : ''}
+                  </Typography>
+                </Paper>
+              )
+            })}
+          </Box>
+
+          <Typography variant="subtitle2" fontWeight={700} sx={{ mb: 1 }}>
+            Sprints necessários em {forecast.trials.toLocaleString('pt-BR')} simulações
+          </Typography>
+          <ResponsiveContainer width="100%" height={200}>
+            <ComposedChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(99, 102, 241, 0.1)" />
+              <XAxis dataKey="label" tick={{ fill: '#6b7280', fontSize: 12 }} />
+              <YAxis unit="%" tick={{ fill: '#6b7280', fontSize: 12 }} domain={[0, 100]} />
+              <Tooltip
+                formatter={(value, name) => [`${value}%`, name]}
+                labelFormatter={(label) => `${label} sprint(s)`}
+              />
+              <Bar dataKey="probability" name="Probabilidade" fill="#6366f1" radius={[4, 4, 0, 0]} />
+              <Line type="monotone" dataKey="cumulative" name="Acumulado" stroke="#10b981" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+          <Typography variant="caption" color="text.secondary">
+            Próximo sprint a partir de {formatDate(history.nextSprintStart)}. Datas em dias corridos.
+          </Typography>
+        </>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,34 @@
+import { Chip, Tooltip } from '@mui/material'
+import { AccountTree } from '@mui/icons-material'
+import { EPIC_LEVEL_CONFIG, getEpicColor, type EpicRow } from '@/utils/epics'
+
+interface EpicChipProps {
+  epic: Pick<EpicRow, 'id' | 'title' | 'task_type'>
+  /** Smaller chip for Kanban cards */
+  dense?: boolean
+}
+
+/**
+ * Epic or feature a story belongs to, in the epic's color
+ */
+export default function EpicChip({ epic, dense = false }: EpicChipProps) {
+  const color = getEpicColor(epic.id)
+
+  return (
+    <Tooltip title={`${EPIC_LEVEL_CONFIG[epic.task_type].label}: ${epic.title}`}>
+      <Chip
+        label={epic.title}
+        size="small"
+        icon={<AccountTree sx={{ fontSize: dense ? 12 : 14, color: `${color} !important` }} />}
+        sx={{
+          maxWidth: dense ? 160 : 200,
+          height: dense ? 20 : undefined,
+          bgcolor: `${color}1a`,
+          color,
+          fontWeight: 600,
+          fontSize: dense ? '0.65rem' : '0.7rem',
+        }}
+      />
+    </Tooltip>
+  )
+}
@@ -0,0 +1,34 @@
+import { FormControl, InputLabel, MenuItem, Select } from '@mui/material'
+import { EPIC_FILTER_ALL, EPIC_FILTER_NONE, type EpicSummary } from '@/utils/epics'
+
+interface EpicFilterProps {
+  value: string
+  onChange: (value: string) => void
+  summaries: EpicSummary[]
+  minWidth?: number
+}
+
+/**
+ * Filter by epic or feature; an epic also matches the stories of its features
+ */
+export default function EpicFilter({ value, onChange, summaries, minWidth = 180 }: EpicFilterProps) {
+  return (
+    <FormControl size="small" sx={{ minWidth }}>
+      <InputLabel>Épico</InputLabel>
+      <Select value={value} label="Épico" onChange={(e) => onChange(e.target.value)}>
+        <MenuItem value={EPIC_FILTER_ALL}>Todos os épicos</MenuItem>
+        {summaries.flatMap((epic) => [
+          <MenuItem key={epic.id} value={epic.id}>
+            {epic.title}
+          </MenuItem>,
+          ...epic.features.map((feature) => (
+            <MenuItem key={feature.id} value={feature.id} sx={{ pl: 4 }}>
+              {feature.title}
+            </MenuItem>
+          )),
+        ])}
+        <MenuItem value={EPIC_FILTER_NONE}>Sem épico</MenuItem>
+      </Select>
+    </FormControl>
+  )
+}
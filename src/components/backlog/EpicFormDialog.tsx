@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+} from '@mui/material'
+import { useSaveEpic } from '@/hooks/useEpics'
+import { EPIC_LEVEL_CONFIG, type EpicLevel, type EpicRow } from '@/utils/epics'
+
+interface EpicFormDialogProps {
+  open: boolean
+  onClose: () => void
+  projectId: string
+  /** Epic or feature being edited, null to create one */
+  epic: EpicRow | null
+  /** Epics of the project, offered as the parent of a feature */
+  epics: EpicRow[]
+  /** Level of a new item */
+  defaultLevel?: EpicLevel
+  /** Epic of a new feature */
+  defaultParentId?: string
+}
+
+const STATUS_OPTIONS = [
+  { value: 'todo', label: 'A Fazer' },
+  { value: 'in-progress', label: 'Em Progresso' },
+  { value: 'done', label: 'Concluído' },
+]
+
+const emptyForm = {
+  title: '',
+  description: '',
+  task_type: 'epic' as EpicLevel,
+  parent_task_id: '',
+  status: 'todo',
+}
+
+export default function EpicFormDialog({
+  open,
+  onClose,
+  projectId,
+  epic,
+  epics,
+  defaultLevel = 'epic',
+  defaultParentId = '',
+}: EpicFormDialogProps) {
+  const [form, setForm] = useState(emptyForm)
+  const saveEpic = useSaveEpic()
+
+  useEffect(() => {
+    if (!open) return
+    setForm(
+      epic
+        ? {
+            title: epic.title,
+            description: epic.description || '',
+            task_type: epic.task_type,
+            parent_task_id: epic.parent_task_id || '',
+            status: epic.status,
+          }
+        : { ...emptyForm, task_type: defaultLevel, parent_task_id: defaultParentId }
+    )
+  }, [open, epic, defaultLevel, defaultParentId])
+
+  const parentOptions = epics.filter((e) => e.task_type === 'epic' && e.id !== epic?.id)
+  const level = EPIC_LEVEL_CONFIG[form.task_type]
+
+  const handleSave = async () => {
+    await saveEpic.mutateAsync({
+      id: epic?.id,
+      project_id: projectId,
+      title: form.title,
+      description: form.description,
+      task_type: form.task_type,
+      parent_task_id: form.parent_task_id || null,
+      status: form.status,
+    })
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ fontWeight: 700 }}>
+        {epic ? `Editar ${level.label}` : form.task_type === 'epic' ? 'Novo Épico' : 'Nova Funcionalidade'}
+      </DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            label="Título"
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            required
+            fullWidth
+            autoFocus
+          />
+          <TextField
+            label="Descrição"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            multiline
+            rows={3}
+            fullWidth
+          />
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+            <TextField
+              select
+              label="Nível"
+              value={form.task_type}
+              onChange={(e) => setForm({ ...form, task_type: e.target.value as EpicLevel })}
+              // An epic with features cannot become a feature itself
+              disabled={!!epic && epics.some((e) => e.parent_task_id === epic.id && e.task_type === 'feature')}
+            >
+              {(Object.keys(EPIC_LEVEL_CONFIG) as EpicLevel[]).map((value) => (
+                <MenuItem key={value} value={value}>
+                  {EPIC_LEVEL_CONFIG[value].label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Status"
+              value={form.status}
+              onChange={(e) => setForm({ ...form, status: e.target.value })}
+            >
+              {STATUS_OPTIONS.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+          {form.task_type === 'feature' && (
+            <TextField
+              select
+              label="Épico"
+              value={form.parent_task_id}
+              onChange={(e) => setForm({ ...form, parent_task_id: e.target.value })}
+              fullWidth
+            >
+              <MenuItem value="">Sem épico</MenuItem>
+              {parentOptions.map((option) => (
+                <MenuItem key={option.id} value={option.id}>
+                  {option.title}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!form.title.trim() || saveEpic.isPending}
+          sx={{ background: 'linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)' }}
+        >
+          {saveEpic.isPending ? 'Salvando...' : 'Salvar'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import { Box, Button, Chip, IconButton, LinearProgress, Paper, Tooltip, Typography } from '@mui/material'
+import { AccountTree, Add, Delete, Edit } from '@mui/icons-material'
+import EpicFormDialog from './EpicFormDialog'
+import { useDeleteEpic } from '@/hooks/useEpics'
+import { EPIC_FILTER_ALL, type EpicLevel, type EpicRow, type EpicSummary } from '@/utils/epics'
+
+interface EpicPanelProps {
+  projectId: string
+  epics: EpicRow[]
+  summaries: EpicSummary[]
+  /** Current epic filter; clicking an epic toggles it */
+  selected: string
+  onSelect: (value: string) => void
+  isStakeholder?: boolean
+}
+
+const formatPoints = (summary: EpicSummary) =>
+  summary.totalPoints > 0
+    ? `${summary.donePoints}/${summary.totalPoints} pts`
+    : `${summary.doneCount}/${summary.storyCount} itens`
+
+/**
+ * Epics and features of the project with the progress of their stories,
+ * measured in story points
+ */
+export default function EpicPanel({
+  projectId,
+  epics,
+  summaries,
+  selected,
+  onSelect,
+  isStakeholder = false,
+}: EpicPanelProps) {
+  const deleteEpic = useDeleteEpic()
+  const [dialog, setDialog] = useState<{
+    open: boolean
+    epic: EpicRow | null
+    level: EpicLevel
+    parentId: string
+  }>({ open: false, epic: null, level: 'epic', parentId: '' })
+
+  const handleDelete = (summary: EpicSummary) => {
+    const confirmed = window.confirm(
+      `Excluir "${summary.title}"? As histórias continuam no backlog, sem épico.`
+    )
+    if (!confirmed) return
+    if (selected === summary.id) onSelect(EPIC_FILTER_ALL)
+    deleteEpic.mutate(summary.id)
+  }
+
+  const renderRow = (summary: EpicSummary, nested: boolean) => {
+    const isSelected = selected === summary.id
+
+    return (
+      <Box
+        key={summary.id}
+        onClick={() => onSelect(isSelected ? EPIC_FILTER_ALL : summary.id)}
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1.5,
+          p: 1,
+          pl: nested ? 4 : 1,
+          borderRadius: 2,
+          cursor: 'pointer',
+          bgcolor: isSelected ? `${summary.color}1a` : 'transparent',
+          '&:hover': { bgcolor: `${summary.color}14` },
+        }}
+      >
+        <Box sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: summary.color, flexShrink: 0 }} />
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body2" fontWeight={nested ? 500 : 700} noWrap>
+              {summary.title}
+            </Typography>
+            {summary.status === 'done' && (
+              <Chip label="Concluído" size="small" sx={{ height: 18, fontSize: '0.65rem', fontWeight: 600 }} />
+            )}
+          </Box>
+          <LinearProgress
+            variant="determinate"
+            value={summary.progress * 100}
+            sx={{
+              mt: 0.5,
+              height: 6,
+              borderRadius: 3,
+              bgcolor: `${summary.color}1f`,
+              '& .MuiLinearProgress-bar': { borderRadius: 3, bgcolor: summary.color },
+            }}
+          />
+        </Box>
+        <Typography variant="caption" color="text.secondary" sx={{ width: 90, textAlign: 'right' }}>
+          {formatPoints(summary)}
+        </Typography>
+        <Typography variant="caption" fontWeight={700} sx={{ width: 36, textAlign: 'right' }}>
+          {Math.round(summary.progress * 100)}%
+        </Typography>
+        {!isStakeholder && (
+          <Box sx={{ display: 'flex' }} onClick={(e) => e.stopPropagation()}>
+            {summary.task_type === 'epic' && (
+              <Tooltip title="Nova funcionalidade">
+                <IconButton
+                  size="small"
+                  onClick={() => setDialog({ open: true, epic: null, level: 'feature', parentId: summary.id })}
+                >
+                  <Add fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+            <IconButton
+              size="small"
+              onClick={() => setDialog({ open: true, epic: summary, level: summary.task_type, parentId: '' })}
+            >
+              <Edit fontSize="small" />
+            </IconButton>
+            <IconButton size="small" onClick={() => handleDelete(summary)}>
+              <Delete fontSize="small" />
+            </IconButton>
+          </Box>
+        )}
+      </Box>
+    )
+  }
+
+  return (
+    <Paper elevation={0} sx={{ p: 2.5, mb: 3, borderRadius: 3, border: '2px solid rgba(99, 102, 241, 0.1)' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: summaries.length > 0 ? 1.5 : 0.5 }}>
+        <AccountTree sx={{ color: '#6366f1' }} />
+        <Typography variant="subtitle1" fontWeight={700} sx={{ flex: 1 }}>
+          Épicos
+        </Typography>
+        {!isStakeholder && (
+          <Button
+            size="small"
+            startIcon={<Add />}
+            onClick={() => setDialog({ open: true, epic: null, level: 'epic', parentId: '' })}
+          >
+            Novo Épico
+          </Button>
+        )}
+      </Box>
+
+      {summaries.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Agrupe as histórias do backlog em épicos e funcionalidades para acompanhar o progresso de cada entrega.
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+          {summaries.map((summary) => [
+            renderRow(summary, false),
+            ...summary.features.map((feature) => renderRow(feature, true)),
+          ])}
+        </Box>
+      )}
+
+      <EpicFormDialog
+        open={dialog.open}
+        onClose={() => setDialog({ ...dialog, open: false })}
+        projectId={projectId}
+        epic={dialog.epic}
+        epics={epics}
+        defaultLevel={dialog.level}
+        defaultParentId={dialog.parentId}
+      />
+    </Paper>
+  )
+}
@@ -0,0 +1,44 @@
+import { MenuItem, TextField } from '@mui/material'
+import { useEpics } from '@/hooks/useEpics'
+
+interface EpicSelectProps {
+  projectId: string
+  /** Epic or feature id, '' for none */
+  value: string
+  onChange: (value: string) => void
+  disabled?: boolean
+}
+
+/**
+ * Epic or feature a story hangs below (its parent_task_id)
+ */
+export default function EpicSelect({ projectId, value, onChange, disabled = false }: EpicSelectProps) {
+  const { data } = useEpics(projectId)
+  const summaries = data?.summaries || []
+  // Parents that are not epics (e.g. phases) are kept but not shown
+  const isKnown = !!data?.epics.some((epic) => epic.id === value)
+
+  return (
+    <TextField
+      select
+      label="Épico"
+      value={isKnown ? value : ''}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled || !projectId}
+      helperText={projectId && summaries.length === 0 ? 'Nenhum épico neste projeto' : undefined}
+      fullWidth
+    >
+      <MenuItem value="">Sem épico</MenuItem>
+      {summaries.flatMap((epic) => [
+        <MenuItem key={epic.id} value={epic.id}>
+          {epic.title}
+        </MenuItem>,
+        ...epic.features.map((feature) => (
+          <MenuItem key={feature.id} value={feature.id} sx={{ pl: 4 }}>
+            {feature.title}
+          </MenuItem>
+        )),
+      ])}
+    </TextField>
+  )
+}
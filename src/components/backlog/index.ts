@@ -0,0 +1,7 @@
+export { default as DeliveryForecastPanel } from './DeliveryForecastPanel'
+export type { ForecastItem } from './DeliveryForecastPanel'
+export { default as EpicChip } from './EpicChip'
+export { default as EpicFilter } from './EpicFilter'
+export { default as EpicFormDialog } from './EpicFormDialog'
+export { default as EpicPanel } from './EpicPanel'
+export { default as EpicSelect } from './EpicSelect'
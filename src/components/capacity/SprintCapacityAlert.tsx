@@ -0,0 +1,68 @@
+import { Alert, Box, Typography } from '@mui/material'
+import { Groups } from '@mui/icons-material'
+import { useSprintCapacitySummary } from '@/hooks/useSprintCapacity'
+import { getCapacityOverload } from '@/utils/sprintCapacity'
+
+interface SprintCapacityAlertProps {
+  sprint: {
+    id: string
+    team_id: string
+    project_id?: string | null
+    start_date: string
+    end_date: string
+  }
+  /** Story points and estimated hours of the stories in the sprint */
+  committed: {
+    points: number
+    hours: number
+  }
+  /** Extra styles for the root element (e.g. spacing) */
+  sx?: Record<string, unknown>
+}
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}h`
+
+/**
+ * Committed work against the sprint capacity, with a warning when it goes
+ * over (renders nothing when the capacity was not planned)
+ */
+export default function SprintCapacityAlert({ sprint, committed, sx }: SprintCapacityAlertProps) {
+  const { capacity } = useSprintCapacitySummary(sprint)
+
+  if (!capacity) return null
+
+  const overload = getCapacityOverload(capacity, committed)
+
+  if (!overload.points && !overload.hours) {
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, ...sx }}>
+        <Groups sx={{ fontSize: 14, color: 'text.secondary' }} />
+        <Typography variant="caption" color="text.secondary">
+          Capacidade: {committed.points}
+          {capacity.points !== null ? `/${capacity.points}` : ''} pts · {formatHours(committed.hours)}/
+          {formatHours(capacity.availableHours)}
+        </Typography>
+      </Box>
+    )
+  }
+
+  return (
+    <Alert severity="warning" icon={<Groups fontSize="inherit" />} sx={{ py: 0.5, ...sx }}>
+      <Typography variant="body2" fontWeight={600}>
+        Compromisso acima da capacidade do time
+      </Typography>
+      {overload.points && (
+        <Typography variant="caption" component="div">
+          {overload.points.committed} pts comprometidos para {overload.points.capacity} pts de capacidade (+
+          {overload.points.committed - overload.points.capacity} pts)
+        </Typography>
+      )}
+      {overload.hours && (
+        <Typography variant="caption" component="div">
+          {formatHours(overload.hours.committed)} estimadas para {formatHours(overload.hours.capacity)} disponíveis (+
+          {formatHours(overload.hours.committed - overload.hours.capacity)})
+        </Typography>
+      )}
+    </Alert>
+  )
+}
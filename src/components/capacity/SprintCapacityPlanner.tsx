@@ -0,0 +1,225 @@
+import { useEffect, useMemo } from 'react'
+import {
+  Alert,
+  Avatar,
+  Box,
+  Chip,
+  CircularProgress,
+  InputAdornment,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { Groups } from '@mui/icons-material'
+import { useProjectCalendar } from '@/hooks/useProjectCalendar'
+import { useSprintCapacity, useTeamMembers } from '@/hooks/useSprintCapacity'
+import { useVelocityHistory } from '@/hooks/useVelocityHistory'
+import { calculateSprintCapacity, getSprintWorkingDays } from '@/utils/sprintCapacity'
+import type { SprintMemberCapacityInput } from '@/types'
+
+interface SprintCapacityPlannerProps {
+  teamId: string
+  projectId?: string
+  /** Existing sprint, to load the availability already recorded */
+  sprintId?: string
+  startDate: string
+  endDate: string
+  value: SprintMemberCapacityInput[]
+  onChange: (value: SprintMemberCapacityInput[]) => void
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(' ')
+    .map((part) => part[0])
+    .slice(0, 2)
+    .join('')
+    .toUpperCase()
+
+/**
+ * Per-member availability of a sprint (days off, hours per day) with the
+ * resulting team capacity in hours and points
+ */
+export default function SprintCapacityPlanner({
+  teamId,
+  projectId,
+  sprintId,
+  startDate,
+  endDate,
+  value,
+  onChange,
+}: SprintCapacityPlannerProps) {
+  const { data: members = [], isLoading: membersLoading } = useTeamMembers(teamId)
+  const { data: saved = [], isLoading: savedLoading } = useSprintCapacity(sprintId)
+  const { calendar } = useProjectCalendar(projectId)
+  const { data: history } = useVelocityHistory(teamId)
+  const loading = membersLoading || (!!sprintId && savedLoading)
+
+  // One row per team member: keep edits, then the recorded availability, then defaults
+  useEffect(() => {
+    if (loading) return
+    const rows = members.map(
+      (member) =>
+        value.find((row) => row.user_id === member.id) ||
+        saved.find((row) => row.user_id === member.id) || {
+          user_id: member.id,
+          days_off: 0,
+          hours_per_day: calendar.hoursPerDay,
+          notes: null,
+        }
+    )
+    const sameMembers =
+      rows.length === value.length && rows.every((row, index) => row.user_id === value[index].user_id)
+    if (!sameMembers) onChange(rows)
+  }, [loading, members, saved, calendar.hoursPerDay, value, onChange])
+
+  const workingDays = getSprintWorkingDays({ start_date: startDate, end_date: endDate }, calendar)
+
+  const capacity = useMemo(() => {
+    const velocities = (history?.samples || [])
+      .filter((s) => s.sprintId !== sprintId)
+      .map((s) => ({
+        points: s.completedPoints,
+        workingDays: getSprintWorkingDays({ start_date: s.startDate, end_date: s.endDate }, calendar),
+      }))
+    return calculateSprintCapacity(value, workingDays, calendar, velocities)
+  }, [value, workingDays, calendar, history, sprintId])
+
+  const updateRow = (userId: string, changes: Partial<SprintMemberCapacityInput>) => {
+    onChange(value.map((row) => (row.user_id === userId ? { ...row, ...changes } : row)))
+  }
+
+  const memberById = new Map(members.map((m) => [m.id, m]))
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: 2,
+        border: '2px solid rgba(99, 102, 241, 0.1)',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+        <Groups sx={{ color: '#6366f1' }} />
+        <Typography variant="subtitle1" fontWeight={700}>
+          Capacidade do Time
+        </Typography>
+      </Box>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : members.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          O time não tem membros cadastrados.
+        </Typography>
+      ) : !startDate || !endDate ? (
+        <Typography variant="body2" color="text.secondary">
+          Informe as datas do sprint para calcular a capacidade.
+        </Typography>
+      ) : (
+        <>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1.5 }}>
+            {workingDays} dias úteis no sprint (feriados do calendário do projeto já descontados). Informe as
+            folgas de cada pessoa e as horas por dia de quem trabalha meio período.
+          </Typography>
+
+          {value.map((row) => {
+            const member = memberById.get(row.user_id)
+            const name = member?.full_name || 'Usuário'
+            const available = Math.max(0, workingDays - (Number(row.days_off) || 0))
+
+            return (
+              <Box
+                key={row.user_id}
+                sx={{
+                  display: 'grid',
+                  gridTemplateColumns: { xs: '1fr', sm: '2fr 1fr 1fr 2fr' },
+                  alignItems: 'center',
+                  gap: 1.5,
+                  py: 1,
+                  borderBottom: '1px solid',
+                  borderColor: 'divider',
+                }}
+              >
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, minWidth: 0 }}>
+                  <Avatar src={member?.avatar_url || undefined} sx={{ width: 28, height: 28, fontSize: '0.75rem' }}>
+                    {getInitials(name)}
+                  </Avatar>
+                  <Box sx={{ minWidth: 0 }}>
+                    <Typography variant="body2" fontWeight={600} noWrap>
+                      {name}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {available} dia{available !== 1 ? 's' : ''} · {available * (Number(row.hours_per_day) || 0)}h
+                    </Typography>
+                  </Box>
+                </Box>
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Folgas"
+                  value={row.days_off}
+                  onChange={(e) =>
+                    updateRow(row.user_id, {
+                      days_off: Math.min(workingDays, Math.max(0, parseFloat(e.target.value) || 0)),
+                    })
+                  }
+                  InputProps={{ endAdornment: <InputAdornment position="end">dias</InputAdornment> }}
+                  inputProps={{ min: 0, max: workingDays, step: 0.5 }}
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Horas/dia"
+                  value={row.hours_per_day}
+                  onChange={(e) =>
+                    updateRow(row.user_id, {
+                      hours_per_day: Math.min(24, Math.max(0, parseFloat(e.target.value) || 0)),
+                    })
+                  }
+                  InputProps={{ endAdornment: <InputAdornment position="end">h</InputAdornment> }}
+                  inputProps={{ min: 0, max: 24, step: 0.5 }}
+                />
+                <TextField
+                  size="small"
+                  label="Observação"
+                  placeholder="Ex: férias 10 a 14"
+                  value={row.notes || ''}
+                  onChange={(e) => updateRow(row.user_id, { notes: e.target.value })}
+                />
+              </Box>
+            )
+          })}
+
+          <Box sx={{ display: 'flex', gap: 1, mt: 2, flexWrap: 'wrap' }}>
+            <Chip size="small" label={`${capacity.availableDays} pessoa-dias`} />
+            <Chip
+              size="small"
+              label={`${capacity.availableHours}h disponíveis`}
+              sx={{ bgcolor: 'rgba(99, 102, 241, 0.1)', color: '#6366f1', fontWeight: 700 }}
+            />
+            <Chip size="small" label={`${Math.round(capacity.availability * 100)}% de disponibilidade`} />
+            {capacity.points !== null && (
+              <Chip
+                size="small"
+                label={`≈ ${capacity.points} pts`}
+                sx={{ bgcolor: 'rgba(16, 185, 129, 0.1)', color: '#10b981', fontWeight: 700 }}
+              />
+            )}
+          </Box>
+          {capacity.points !== null ? (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              Pontos estimados pelo ritmo dos últimos sprints (média de {capacity.averageVelocity} pts por sprint)
+              aplicado aos {capacity.availableDays} dias-pessoa disponíveis.
+            </Typography>
+          ) : (
+            <Alert severity="info" sx={{ mt: 1.5 }}>
+              Sem sprints concluídos para este time: a capacidade em pontos aparece após o primeiro sprint.
+            </Alert>
+          )}
+        </>
+      )}
+    </Box>
+  )
+}
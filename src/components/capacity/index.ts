@@ -0,0 +1,2 @@
+export { default as SprintCapacityPlanner } from './SprintCapacityPlanner'
+export { default as SprintCapacityAlert } from './SprintCapacityAlert'
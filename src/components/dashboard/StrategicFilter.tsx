@@ -2,20 +2,20 @@ import { useRef, useState, useEffect } from "react";
 import { Box, Typography, Collapse } from "@mui/material";
 import { ExpandMore, Insights } from "@mui/icons-material";
 import { useTheme as useMUITheme } from "@mui/material/styles";
+import { useObjectiveOptions } from "@/hooks/useObjectives";
+import {
+  STRATEGIC_ALL,
+  STRATEGIC_NONE,
+  type StrategicValue,
+} from "@/utils/strategicScope";
 
-export type StrategicValue = "all" | "yes" | "no";
+export type { StrategicValue };
 
 interface StrategicFilterProps {
   value: StrategicValue;
   onChange: (value: StrategicValue) => void;
 }
 
-const OPTIONS: { value: StrategicValue; label: string }[] = [
-  { value: "all", label: "Todos" },
-  { value: "yes", label: "Sim" },
-  { value: "no", label: "Não" },
-];
-
 export default function StrategicFilter({
   value,
   onChange,
@@ -39,8 +39,19 @@ export default function StrategicFilter({
     return () => document.removeEventListener("mousedown", handler);
   }, [open]);
 
-  const isActive = value !== "all";
-  const label = OPTIONS.find((o) => o.value === value)?.label ?? "Todos";
+  const { data: objectives = [] } = useObjectiveOptions();
+
+  // Cancelled objectives only while selected
+  const options: { value: StrategicValue; label: string }[] = [
+    { value: STRATEGIC_ALL, label: "Todos" },
+    ...objectives
+      .filter((o) => o.status !== "cancelled" || o.id === value)
+      .map((o) => ({ value: o.id, label: o.title })),
+    { value: STRATEGIC_NONE, label: "Sem objetivo" },
+  ];
+
+  const isActive = value !== STRATEGIC_ALL;
+  const label = options.find((o) => o.value === value)?.label ?? "Todos";
 
   const pillBg = isDark ? "rgba(255,255,255,0.06)" : "rgba(0,0,0,0.04)";
   const pillBgHover = isDark ? "rgba(255,255,255,0.10)" : "rgba(0,0,0,0.07)";
@@ -93,9 +104,12 @@ export default function StrategicFilter({
             letterSpacing: "0.01em",
             lineHeight: 1,
             whiteSpace: "nowrap",
+            maxWidth: 240,
+            overflow: "hidden",
+            textOverflow: "ellipsis",
           }}
         >
-          {isActive ? `Estratégico: ${label}` : "Estratégico"}
+          {isActive ? `Objetivo: ${label}` : "Objetivos"}
         </Typography>
         <ExpandMore
           sx={{
@@ -116,6 +130,9 @@ export default function StrategicFilter({
             top: "calc(100% + 6px)",
             left: 0,
             minWidth: 160,
+            maxWidth: 320,
+            maxHeight: 360,
+            overflowY: "auto",
             bgcolor: dropdownBg,
             border: "1px solid",
             borderColor: dropdownBorder,
@@ -123,16 +140,15 @@ export default function StrategicFilter({
             boxShadow: isDark
               ? "0 8px 24px rgba(0,0,0,0.5)"
               : "0 8px 24px rgba(0,0,0,0.10)",
-            overflow: "hidden",
             zIndex: 1400,
             py: 0.5,
           }}
         >
-          {OPTIONS.map((opt, idx) => {
+          {options.map((opt, idx) => {
             const isSelected = value === opt.value;
             return (
               <Box key={opt.value}>
-                {idx === 1 && (
+                {(idx === 1 || opt.value === STRATEGIC_NONE) && (
                   <Box
                     sx={{
                       height: "1px",
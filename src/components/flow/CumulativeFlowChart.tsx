@@ -0,0 +1,40 @@
+import { Area, AreaChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import type { TaskStatus } from '@/types'
+import type { CumulativeFlowPoint } from '@/utils/flowMetrics'
+import { TASK_STATUS_CONFIG } from '@/utils/kanbanWorkflow'
+
+interface CumulativeFlowChartProps {
+  data: CumulativeFlowPoint[]
+}
+
+/** Bottom to top: finished work first, so the bands read as the board left to right upwards */
+const STACK_ORDER: TaskStatus[] = ['done', 'review', 'in-progress', 'blocked', 'todo']
+
+/**
+ * Cumulative flow diagram: tasks per status at the end of each day
+ */
+export default function CumulativeFlowChart({ data }: CumulativeFlowChartProps) {
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <AreaChart data={data} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="rgba(99, 102, 241, 0.1)" />
+        <XAxis dataKey="label" tick={{ fill: '#6b7280', fontSize: 12 }} minTickGap={20} />
+        <YAxis allowDecimals={false} tick={{ fill: '#6b7280', fontSize: 12 }} />
+        <Tooltip />
+        <Legend />
+        {STACK_ORDER.map((status) => (
+          <Area
+            key={status}
+            type="monotone"
+            dataKey={status}
+            name={TASK_STATUS_CONFIG[status].label}
+            stackId="flow"
+            stroke={TASK_STATUS_CONFIG[status].color}
+            fill={TASK_STATUS_CONFIG[status].color}
+            fillOpacity={0.6}
+          />
+        ))}
+      </AreaChart>
+    </ResponsiveContainer>
+  )
+}
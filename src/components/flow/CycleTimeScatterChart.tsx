@@ -0,0 +1,68 @@
+import { CartesianGrid, ReferenceLine, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from 'recharts'
+import { Paper, Typography } from '@mui/material'
+import {
+  FLOW_PERCENTILE_COLORS,
+  FLOW_PERCENTILES,
+  type CompletedFlowItem,
+  type FlowPercentile,
+} from '@/utils/flowMetrics'
+
+interface CycleTimeScatterChartProps {
+  items: CompletedFlowItem[]
+  percentiles: Record<FlowPercentile, number> | null
+}
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })
+
+function ItemTooltip({ active, payload }: { active?: boolean; payload?: Array<{ payload: CompletedFlowItem }> }) {
+  if (!active || !payload?.length) return null
+  const item = payload[0].payload
+  return (
+    <Paper elevation={3} sx={{ p: 1.5, maxWidth: 260 }}>
+      <Typography variant="caption" fontWeight={700} sx={{ display: 'block' }}>
+        {item.title}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+        Concluída em {formatDate(item.completedTime)}
+      </Typography>
+      <Typography variant="caption" sx={{ display: 'block' }}>
+        Cycle time: {item.cycleTimeDays} dias
+      </Typography>
+    </Paper>
+  )
+}
+
+/**
+ * Cycle time of each completed task by completion date, with percentile lines
+ */
+export default function CycleTimeScatterChart({ items, percentiles }: CycleTimeScatterChartProps) {
+  const data = items.filter((item) => item.cycleTimeDays !== null)
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <ScatterChart margin={{ top: 10, right: 60, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="rgba(99, 102, 241, 0.1)" />
+        <XAxis
+          dataKey="completedTime"
+          type="number"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={formatDate}
+          tick={{ fill: '#6b7280', fontSize: 12 }}
+        />
+        <YAxis dataKey="cycleTimeDays" unit="d" tick={{ fill: '#6b7280', fontSize: 12 }} />
+        <Tooltip content={<ItemTooltip />} />
+        <Scatter data={data} fill="#6366f1" fillOpacity={0.7} />
+        {percentiles &&
+          FLOW_PERCENTILES.map((p) => (
+            <ReferenceLine
+              key={p}
+              y={percentiles[p]}
+              stroke={FLOW_PERCENTILE_COLORS[p]}
+              strokeDasharray="6 4"
+              label={{ value: `P${p}: ${percentiles[p]}d`, position: 'right', fill: FLOW_PERCENTILE_COLORS[p], fontSize: 11 }}
+            />
+          ))}
+      </ScatterChart>
+    </ResponsiveContainer>
+  )
+}
@@ -0,0 +1,23 @@
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import type { LeadTimeBucket } from '@/utils/flowMetrics'
+
+interface LeadTimeDistributionChartProps {
+  buckets: LeadTimeBucket[]
+}
+
+/**
+ * How many completed tasks took each range of days from creation to done
+ */
+export default function LeadTimeDistributionChart({ buckets }: LeadTimeDistributionChartProps) {
+  return (
+    <ResponsiveContainer width="100%" height={260}>
+      <BarChart data={buckets} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="rgba(99, 102, 241, 0.1)" />
+        <XAxis dataKey="label" tick={{ fill: '#6b7280', fontSize: 12 }} />
+        <YAxis allowDecimals={false} tick={{ fill: '#6b7280', fontSize: 12 }} />
+        <Tooltip formatter={(value) => [`${value} tarefa(s)`, 'Concluídas']} />
+        <Bar dataKey="count" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
@@ -0,0 +1,36 @@
+import { Bar, BarChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import type { ThroughputWeek } from '@/utils/flowMetrics'
+
+interface ThroughputChartProps {
+  weeks: ThroughputWeek[]
+}
+
+/**
+ * Tasks completed per week, with the average of the period
+ */
+export default function ThroughputChart({ weeks }: ThroughputChartProps) {
+  const average = weeks.length > 0 ? weeks.reduce((sum, week) => sum + week.count, 0) / weeks.length : 0
+
+  return (
+    <ResponsiveContainer width="100%" height={260}>
+      <BarChart data={weeks} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="rgba(99, 102, 241, 0.1)" />
+        <XAxis dataKey="label" tick={{ fill: '#6b7280', fontSize: 12 }} />
+        <YAxis allowDecimals={false} tick={{ fill: '#6b7280', fontSize: 12 }} />
+        <Tooltip
+          formatter={(value) => [`${value} tarefa(s)`, 'Concluídas']}
+          labelFormatter={(label) => `Semana de ${label}`}
+        />
+        <Bar dataKey="count" fill="#10b981" radius={[4, 4, 0, 0]} />
+        {average > 0 && (
+          <ReferenceLine
+            y={average}
+            stroke="#6366f1"
+            strokeDasharray="6 4"
+            label={{ value: `Média: ${average.toFixed(1)}`, position: 'insideTopRight', fill: '#6366f1', fontSize: 11 }}
+          />
+        )}
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
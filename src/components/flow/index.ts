@@ -0,0 +1,4 @@
+export { default as CumulativeFlowChart } from './CumulativeFlowChart'
+export { default as CycleTimeScatterChart } from './CycleTimeScatterChart'
+export { default as LeadTimeDistributionChart } from './LeadTimeDistributionChart'
+export { default as ThroughputChart } from './ThroughputChart'
@@ -0,0 +1,196 @@
+import { useMemo, useState } from 'react'
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material'
+import { Close, FileDownload, Flag } from '@mui/icons-material'
+import { summarizeBaselineVariance } from '@/utils/gantt/baselineComparison'
+import { parseDateKey } from '@/utils/gantt/workingCalendar'
+import type { BaselineComparison, ProjectBaseline } from '@/types/hybrid'
+
+interface BaselineVarianceDialogProps {
+  open: boolean
+  onClose: () => void
+  baseline: ProjectBaseline | undefined
+  comparisons: BaselineComparison[]
+  onExport: () => void
+}
+
+const formatDate = (value: string | null) =>
+  value ? parseDateKey(value).toLocaleDateString('pt-BR') : '-'
+
+function VarianceCell({ days }: { days: number }) {
+  return (
+    <TableCell
+      align="center"
+      sx={{
+        fontWeight: days !== 0 ? 600 : 400,
+        color: days > 0 ? '#ef4444' : days < 0 ? '#10b981' : 'text.secondary',
+      }}
+    >
+      {days > 0 ? `+${days}` : days}
+    </TableCell>
+  )
+}
+
+export default function BaselineVarianceDialog({
+  open,
+  onClose,
+  baseline,
+  comparisons,
+  onExport,
+}: BaselineVarianceDialogProps) {
+  const [onlyVariances, setOnlyVariances] = useState(true)
+
+  const summary = useMemo(() => summarizeBaselineVariance(comparisons), [comparisons])
+  const rows = useMemo(
+    () =>
+      onlyVariances
+        ? comparisons.filter((r) => r.start_variance_days !== 0 || r.end_variance_days !== 0)
+        : comparisons,
+    [comparisons, onlyVariances]
+  )
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Box sx={{ flex: 1 }}>
+          <Typography variant="h6">Variação da Linha de Base</Typography>
+          {baseline && (
+            <Typography variant="body2" color="text.secondary">
+              {baseline.baseline_number}. {baseline.name} —{' '}
+              {new Date(baseline.created_at).toLocaleDateString('pt-BR')}
+            </Typography>
+          )}
+        </Box>
+        <IconButton onClick={onClose} size="small">
+          <Close />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+          <Chip size="small" label={`${summary.comparedTasks} tarefas comparadas`} />
+          <Chip
+            size="small"
+            label={`${summary.lateTasks} atrasadas`}
+            sx={{ bgcolor: 'rgba(239, 68, 68, 0.1)', color: '#ef4444', fontWeight: 600 }}
+          />
+          <Chip
+            size="small"
+            label={`${summary.earlyTasks} adiantadas`}
+            sx={{ bgcolor: 'rgba(16, 185, 129, 0.1)', color: '#10b981', fontWeight: 600 }}
+          />
+          <Chip
+            size="small"
+            icon={<Flag sx={{ fontSize: 14 }} />}
+            label={`${summary.slippedMilestones} marcos atrasados`}
+            sx={{ bgcolor: 'rgba(245, 158, 11, 0.1)', color: '#b45309', fontWeight: 600 }}
+          />
+          {summary.maxEndVariance > 0 && (
+            <Typography variant="caption" color="text.secondary">
+              Maior atraso: {summary.maxEndVariance} dias úteis
+            </Typography>
+          )}
+          <Box sx={{ flex: 1 }} />
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={onlyVariances}
+                onChange={(e) => setOnlyVariances(e.target.checked)}
+              />
+            }
+            label={<Typography variant="body2">Somente com variação</Typography>}
+          />
+        </Box>
+
+        <TableContainer sx={{ maxHeight: 480 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>EDT</TableCell>
+                <TableCell>Tarefa</TableCell>
+                <TableCell align="center">Início LB</TableCell>
+                <TableCell align="center">Início Atual</TableCell>
+                <TableCell align="center">Var. Início</TableCell>
+                <TableCell align="center">Término LB</TableCell>
+                <TableCell align="center">Término Atual</TableCell>
+                <TableCell align="center">Var. Término</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} align="center" sx={{ py: 4, color: 'text.secondary' }}>
+                    {onlyVariances
+                      ? 'Nenhuma tarefa desviou da linha de base'
+                      : 'Nenhuma tarefa na linha de base'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => (
+                  <TableRow
+                    key={row.task_id}
+                    sx={row.is_slipped_milestone ? { bgcolor: 'rgba(239, 68, 68, 0.05)' } : undefined}
+                  >
+                    <TableCell sx={{ color: 'text.secondary' }}>{row.wbs_code || '-'}</TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                        {row.is_milestone && (
+                          <Flag
+                            sx={{
+                              fontSize: 14,
+                              color: row.is_slipped_milestone ? '#ef4444' : '#f59e0b',
+                            }}
+                          />
+                        )}
+                        {row.task_title}
+                      </Box>
+                    </TableCell>
+                    <TableCell align="center">{formatDate(row.baseline_start)}</TableCell>
+                    <TableCell align="center">{formatDate(row.current_start)}</TableCell>
+                    <VarianceCell days={row.start_variance_days} />
+                    <TableCell align="center">{formatDate(row.baseline_end)}</TableCell>
+                    <TableCell align="center">{formatDate(row.current_end)}</TableCell>
+                    <VarianceCell days={row.end_variance_days} />
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          Variações em dias úteis: positivo = atrasado em relação à linha de base.
+        </Typography>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Fechar</Button>
+        <Button
+          variant="contained"
+          startIcon={<FileDownload />}
+          onClick={onExport}
+          disabled={comparisons.length === 0}
+        >
+          Exportar para Excel
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
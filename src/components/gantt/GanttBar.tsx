@@ -1,5 +1,17 @@
 import { Box, Tooltip, Typography, alpha } from '@mui/material'
-import type { HierarchicalTask } from '@/types/hybrid'
+import { Warning } from '@mui/icons-material'
+import { parseDateKey } from '@/utils/gantt/workingCalendar'
+import type { GanttDragMode, HierarchicalTask } from '@/types/hybrid'
+
+/** Baseline position of the task, drawn as a ghost bar under the current bar */
+interface GanttBaselineBar {
+  x: number
+  width: number
+  start: string | null
+  end: string | null
+  /** Finish variance in working days (positive = late) */
+  endVariance: number
+}
 
 interface GanttBarProps {
   task: HierarchicalTask
@@ -8,9 +20,20 @@ interface GanttBarProps {
   width: number
   height: number
   isSelected: boolean
+  /** Constraint conflict message, if the task cannot meet its constraint */
+  warning?: string
+  baseline?: GanttBaselineBar
+  /** Bar is being dragged (tooltip hidden, bar highlighted) */
+  isDragging?: boolean
+  /** Bar is under the pointer while drawing a link */
+  isLinkTarget?: boolean
+  /** Starts a drag interaction; omitted for read-only bars */
+  onDragStart?: (event: React.PointerEvent, mode: GanttDragMode) => void
   onClick: () => void
 }
 
+const formatBaselineDate = (value: string) => parseDateKey(value).toLocaleDateString('pt-BR')
+
 const statusColors: Record<string, string> = {
   'todo': '#6b7280',
   'in-progress': '#f59e0b',
@@ -26,52 +49,248 @@ export default function GanttBar({
   width,
   height,
   isSelected,
+  warning,
+  baseline,
+  isDragging = false,
+  isLinkTarget = false,
+  onDragStart,
   onClick,
 }: GanttBarProps) {
   const baseColor = task.is_critical ? '#ef4444' : task.is_summary ? '#8b5cf6' : '#6366f1'
   const statusColor = statusColors[task.status] || '#6366f1'
   const progress = task.percent_complete || 0
+  const isMilestone = task.task_type === 'milestone'
+
+  const startDrag = (mode: GanttDragMode) => (event: React.PointerEvent) => {
+    if (!onDragStart || event.button !== 0) return
+    event.stopPropagation()
+    onDragStart(event, mode)
+  }
+
+  // Dot after the bar end; drag it onto another bar to create a dependency
+  const linkHandle = onDragStart && (isSelected || isDragging) && (
+    <Tooltip title="Arraste até outra tarefa para vincular" placement="top">
+      <Box
+        onPointerDown={startDrag('link')}
+        sx={{
+          position: 'absolute',
+          left: x + (isMilestone ? height / 2 : width) + 4,
+          top: y + height / 2 - 5,
+          width: 10,
+          height: 10,
+          borderRadius: '50%',
+          bgcolor: 'background.paper',
+          border: '2px solid #6366f1',
+          cursor: 'crosshair',
+          zIndex: 5,
+          '&:hover': { bgcolor: '#6366f1' },
+        }}
+      />
+    </Tooltip>
+  )
+
+  const dragOutline = isLinkTarget
+    ? '0 0 0 2px #10b981'
+    : isDragging
+    ? '0 4px 12px rgba(99, 102, 241, 0.4)'
+    : null
+
+  const baselineInfo = baseline && (
+    <Typography
+      variant="caption"
+      display="block"
+      sx={{ color: baseline.endVariance > 0 ? '#fca5a5' : 'inherit', mt: 0.5 }}
+    >
+      Linha de base: {baseline.start && formatBaselineDate(baseline.start)}
+      {baseline.end && !isMilestone && ` - ${formatBaselineDate(baseline.end)}`}
+      {baseline.endVariance !== 0 &&
+        ` (${baseline.endVariance > 0 ? '+' : ''}${baseline.endVariance} ${
+          Math.abs(baseline.endVariance) === 1 ? 'dia' : 'dias'
+        })`}
+    </Typography>
+  )
+
+  // Ghost bar at the baseline dates, just below the current bar
+  const baselineBar = baseline && (
+    isMilestone ? (
+      <Box
+        sx={{
+          position: 'absolute',
+          left: baseline.x - 5,
+          top: y + height - 4,
+          width: 10,
+          height: 10,
+          transform: 'rotate(45deg)',
+          border: '2px solid #94a3b8',
+          bgcolor: 'rgba(148, 163, 184, 0.3)',
+          pointerEvents: 'none',
+        }}
+      />
+    ) : (
+      <Box
+        sx={{
+          position: 'absolute',
+          left: baseline.x,
+          top: y + height + 2,
+          width: Math.max(baseline.width, 4),
+          height: 6,
+          borderRadius: 0.5,
+          bgcolor: 'rgba(148, 163, 184, 0.6)',
+          pointerEvents: 'none',
+        }}
+      />
+    )
+  )
 
   // Milestone diamond
-  if (task.task_type === 'milestone') {
+  if (isMilestone) {
     return (
-      <Tooltip
-        title={
-          <Box>
-            <Typography variant="body2" fontWeight={600}>{task.title}</Typography>
-            <Typography variant="caption">Marco</Typography>
-          </Box>
-        }
-        arrow
-      >
-        <Box
-          onClick={onClick}
-          sx={{
-            position: 'absolute',
-            left: x - height / 2,
-            top: y,
-            width: height,
-            height: height,
-            bgcolor: '#f59e0b',
-            transform: 'rotate(45deg)',
-            cursor: 'pointer',
-            border: isSelected ? '2px solid #1f2937' : 'none',
-            boxShadow: isSelected ? '0 0 0 2px white' : 'none',
-            transition: 'all 0.2s',
-            '&:hover': {
-              transform: 'rotate(45deg) scale(1.1)',
-              boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
-            },
-          }}
-        />
-      </Tooltip>
+      <>
+        {baselineBar}
+        <Tooltip
+          open={isDragging ? false : undefined}
+          title={
+            <Box>
+              <Typography variant="body2" fontWeight={600}>{task.title}</Typography>
+              <Typography variant="caption">Marco</Typography>
+              {baselineInfo}
+              {warning && (
+                <Typography variant="caption" display="block" sx={{ color: '#fca5a5', mt: 0.5 }}>
+                  ⚠ {warning}
+                </Typography>
+              )}
+            </Box>
+          }
+          arrow
+        >
+          <Box
+            onClick={onClick}
+            onPointerDown={startDrag('move')}
+            sx={{
+              position: 'absolute',
+              left: x - height / 2,
+              top: y,
+              width: height,
+              height: height,
+              bgcolor: '#f59e0b',
+              transform: 'rotate(45deg)',
+              cursor: onDragStart ? 'grab' : 'pointer',
+              border: isSelected ? '2px solid #1f2937' : warning ? '2px solid #ef4444' : 'none',
+              boxShadow: dragOutline ?? (isSelected ? '0 0 0 2px white' : 'none'),
+              transition: 'all 0.2s',
+              '&:hover': {
+                transform: 'rotate(45deg) scale(1.1)',
+                boxShadow: '0 4px 8px rgba(0,0,0,0.2)',
+              },
+            }}
+          />
+        </Tooltip>
+        {linkHandle}
+      </>
     )
   }
 
   // Summary bar (thinner, different style)
   if (task.is_summary) {
     return (
+      <>
+        {baselineBar}
+        <Tooltip
+          title={
+            <Box>
+              <Typography variant="body2" fontWeight={600}>{task.title}</Typography>
+              <Typography variant="caption">
+                {task.start_date && new Date(task.start_date).toLocaleDateString('pt-BR')}
+                {task.end_date && ` - ${new Date(task.end_date).toLocaleDateString('pt-BR')}`}
+              </Typography>
+              <Typography variant="caption" display="block">
+                Progresso: {progress}%
+              </Typography>
+              {baselineInfo}
+            </Box>
+          }
+          arrow
+        >
+          <Box
+            onClick={onClick}
+            sx={{
+              position: 'absolute',
+              left: x,
+              top: y + height / 2 - 3,
+              width: width,
+              height: 6,
+              cursor: 'pointer',
+            }}
+          >
+            {/* Background */}
+            <Box
+              sx={{
+                position: 'absolute',
+                width: '100%',
+                height: '100%',
+                bgcolor: alpha(baseColor, 0.3),
+                borderRadius: 1,
+              }}
+            />
+            {/* Progress */}
+            <Box
+              sx={{
+                position: 'absolute',
+                width: `${progress}%`,
+                height: '100%',
+                bgcolor: baseColor,
+                borderRadius: 1,
+              }}
+            />
+            {/* End caps */}
+            <Box
+              sx={{
+                position: 'absolute',
+                left: 0,
+                top: -3,
+                width: 6,
+                height: 12,
+                bgcolor: baseColor,
+                borderRadius: '2px 0 0 2px',
+              }}
+            />
+            <Box
+              sx={{
+                position: 'absolute',
+                right: 0,
+                top: -3,
+                width: 6,
+                height: 12,
+                bgcolor: baseColor,
+                borderRadius: '0 2px 2px 0',
+              }}
+            />
+            {/* Selection indicator */}
+            {isSelected && (
+              <Box
+                sx={{
+                  position: 'absolute',
+                  top: -4,
+                  left: -2,
+                  right: -2,
+                  bottom: -4,
+                  border: '2px solid #1f2937',
+                  borderRadius: 1,
+                }}
+              />
+            )}
+          </Box>
+        </Tooltip>
+      </>
+    )
+  }
+
+  // Regular task bar
+  return (
+    <>
+      {baselineBar}
       <Tooltip
+        open={isDragging ? false : undefined}
         title={
           <Box>
             <Typography variant="body2" fontWeight={600}>{task.title}</Typography>
@@ -82,19 +301,47 @@ export default function GanttBar({
             <Typography variant="caption" display="block">
               Progresso: {progress}%
             </Typography>
+            {task.slack !== null && task.slack !== undefined && (
+              <Typography variant="caption" display="block">
+                Folga: {task.slack} {Math.abs(task.slack) === 1 ? 'dia' : 'dias'}
+              </Typography>
+            )}
+            {task.assigned_to_profile && (
+              <Typography variant="caption" display="block">
+                Responsável: {task.assigned_to_profile.full_name}
+              </Typography>
+            )}
+            {baselineInfo}
+            {warning && (
+              <Typography variant="caption" display="block" sx={{ color: '#fca5a5', mt: 0.5 }}>
+                ⚠ {warning}
+              </Typography>
+            )}
           </Box>
         }
         arrow
       >
         <Box
           onClick={onClick}
+          onPointerDown={startDrag('move')}
           sx={{
             position: 'absolute',
             left: x,
-            top: y + height / 2 - 3,
+            top: y,
             width: width,
-            height: 6,
-            cursor: 'pointer',
+            height: height,
+            borderRadius: 1.5,
+            overflow: 'hidden',
+            cursor: onDragStart ? (isDragging ? 'grabbing' : 'grab') : 'pointer',
+            border: isSelected ? '2px solid #1f2937' : warning ? '2px dashed #ef4444' : 'none',
+            boxShadow: dragOutline ?? (isSelected
+              ? '0 0 0 2px white, 0 4px 8px rgba(0,0,0,0.2)'
+              : '0 1px 3px rgba(0,0,0,0.1)'),
+            transition: 'all 0.2s',
+            '&:hover': {
+              transform: 'translateY(-1px)',
+              boxShadow: '0 4px 8px rgba(0,0,0,0.15)',
+            },
           }}
         >
           {/* Background */}
@@ -103,179 +350,119 @@ export default function GanttBar({
               position: 'absolute',
               width: '100%',
               height: '100%',
-              bgcolor: alpha(baseColor, 0.3),
-              borderRadius: 1,
+              bgcolor: alpha(baseColor, 0.2),
             }}
           />
-          {/* Progress */}
+
+          {/* Progress fill */}
           <Box
             sx={{
               position: 'absolute',
               width: `${progress}%`,
               height: '100%',
               bgcolor: baseColor,
-              borderRadius: 1,
+              transition: 'width 0.3s',
             }}
           />
-          {/* End caps */}
+
+          {/* Status indicator */}
           <Box
             sx={{
               position: 'absolute',
               left: 0,
-              top: -3,
-              width: 6,
-              height: 12,
-              bgcolor: baseColor,
-              borderRadius: '2px 0 0 2px',
+              top: 0,
+              bottom: 0,
+              width: 4,
+              bgcolor: statusColor,
             }}
           />
-          <Box
-            sx={{
-              position: 'absolute',
-              right: 0,
-              top: -3,
-              width: 6,
-              height: 12,
-              bgcolor: baseColor,
-              borderRadius: '0 2px 2px 0',
-            }}
-          />
-          {/* Selection indicator */}
-          {isSelected && (
-            <Box
+
+          {/* Text label */}
+          {width > 60 && (
+            <Typography
+              variant="caption"
               sx={{
                 position: 'absolute',
-                top: -4,
-                left: -2,
-                right: -2,
-                bottom: -4,
-                border: '2px solid #1f2937',
-                borderRadius: 1,
+                left: 8,
+                top: '50%',
+                transform: 'translateY(-50%)',
+                color: progress > 50 ? 'white' : 'text.primary',
+                fontWeight: 500,
+                maxWidth: width - 16,
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+                textShadow: progress > 50 ? '0 1px 2px rgba(0,0,0,0.3)' : 'none',
+              }}
+            >
+              {task.title}
+            </Typography>
+          )}
+
+          {/* Constraint conflict */}
+          {warning && (
+            <Warning
+              sx={{
+                position: 'absolute',
+                right: width > 100 ? 36 : 4,
+                top: '50%',
+                transform: 'translateY(-50%)',
+                fontSize: 14,
+                color: '#ef4444',
               }}
             />
           )}
-        </Box>
-      </Tooltip>
-    )
-  }
 
-  // Regular task bar
-  return (
-    <Tooltip
-      title={
-        <Box>
-          <Typography variant="body2" fontWeight={600}>{task.title}</Typography>
-          <Typography variant="caption">
-            {task.start_date && new Date(task.start_date).toLocaleDateString('pt-BR')}
-            {task.end_date && ` - ${new Date(task.end_date).toLocaleDateString('pt-BR')}`}
-          </Typography>
-          <Typography variant="caption" display="block">
-            Progresso: {progress}%
-          </Typography>
-          {task.assigned_to_profile && (
-            <Typography variant="caption" display="block">
-              Responsável: {task.assigned_to_profile.full_name}
+          {/* Progress percentage */}
+          {width > 100 && (
+            <Typography
+              variant="caption"
+              sx={{
+                position: 'absolute',
+                right: 8,
+                top: '50%',
+                transform: 'translateY(-50%)',
+                color: progress > 80 ? 'white' : 'text.secondary',
+                fontWeight: 600,
+                fontSize: '0.65rem',
+              }}
+            >
+              {progress}%
             </Typography>
           )}
-        </Box>
-      }
-      arrow
-    >
-      <Box
-        onClick={onClick}
-        sx={{
-          position: 'absolute',
-          left: x,
-          top: y,
-          width: width,
-          height: height,
-          borderRadius: 1.5,
-          overflow: 'hidden',
-          cursor: 'pointer',
-          border: isSelected ? '2px solid #1f2937' : 'none',
-          boxShadow: isSelected
-            ? '0 0 0 2px white, 0 4px 8px rgba(0,0,0,0.2)'
-            : '0 1px 3px rgba(0,0,0,0.1)',
-          transition: 'all 0.2s',
-          '&:hover': {
-            transform: 'translateY(-1px)',
-            boxShadow: '0 4px 8px rgba(0,0,0,0.15)',
-          },
-        }}
-      >
-        {/* Background */}
-        <Box
-          sx={{
-            position: 'absolute',
-            width: '100%',
-            height: '100%',
-            bgcolor: alpha(baseColor, 0.2),
-          }}
-        />
-
-        {/* Progress fill */}
-        <Box
-          sx={{
-            position: 'absolute',
-            width: `${progress}%`,
-            height: '100%',
-            bgcolor: baseColor,
-            transition: 'width 0.3s',
-          }}
-        />
-
-        {/* Status indicator */}
-        <Box
-          sx={{
-            position: 'absolute',
-            left: 0,
-            top: 0,
-            bottom: 0,
-            width: 4,
-            bgcolor: statusColor,
-          }}
-        />
 
-        {/* Text label */}
-        {width > 60 && (
-          <Typography
-            variant="caption"
-            sx={{
-              position: 'absolute',
-              left: 8,
-              top: '50%',
-              transform: 'translateY(-50%)',
-              color: progress > 50 ? 'white' : 'text.primary',
-              fontWeight: 500,
-              maxWidth: width - 16,
-              overflow: 'hidden',
-              textOverflow: 'ellipsis',
-              whiteSpace: 'nowrap',
-              textShadow: progress > 50 ? '0 1px 2px rgba(0,0,0,0.3)' : 'none',
-            }}
-          >
-            {task.title}
-          </Typography>
-        )}
-
-        {/* Progress percentage */}
-        {width > 100 && (
-          <Typography
-            variant="caption"
-            sx={{
-              position: 'absolute',
-              right: 8,
-              top: '50%',
-              transform: 'translateY(-50%)',
-              color: progress > 80 ? 'white' : 'text.secondary',
-              fontWeight: 600,
-              fontSize: '0.65rem',
-            }}
-          >
-            {progress}%
-          </Typography>
-        )}
-      </Box>
-    </Tooltip>
+          {/* Drag handles: resize edges and progress */}
+          {onDragStart && (
+            <>
+              <Box
+                onPointerDown={startDrag('resize-start')}
+                sx={{ position: 'absolute', left: 0, top: 0, bottom: 0, width: 6, cursor: 'ew-resize' }}
+              />
+              <Box
+                onPointerDown={startDrag('resize-end')}
+                sx={{ position: 'absolute', right: 0, top: 0, bottom: 0, width: 6, cursor: 'ew-resize' }}
+              />
+              <Box
+                onPointerDown={startDrag('progress')}
+                sx={{
+                  position: 'absolute',
+                  left: `calc(${progress}% - 5px)`,
+                  bottom: 0,
+                  width: 0,
+                  height: 0,
+                  borderLeft: '5px solid transparent',
+                  borderRight: '5px solid transparent',
+                  borderBottom: '6px solid #1f2937',
+                  cursor: 'col-resize',
+                  opacity: isSelected || isDragging ? 0.8 : 0,
+                  '&:hover': { opacity: 1 },
+                }}
+              />
+            </>
+          )}
+        </Box>
+      </Tooltip>
+      {linkHandle}
+    </>
   )
 }
@@ -0,0 +1,215 @@
+import { useState } from 'react'
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material'
+import {
+  Add,
+  Check,
+  Delete,
+  History,
+  TableChart,
+  VisibilityOff,
+} from '@mui/icons-material'
+import { useBaselines, useCreateBaseline, useDeleteBaseline } from '@/hooks/useBaselines'
+import type { GanttViewState } from '@/types/hybrid'
+
+interface GanttBaselineMenuProps {
+  projectId: string
+  showBaseline: GanttViewState['showBaseline']
+  onShowBaselineChange: (baselineNumber: GanttViewState['showBaseline']) => void
+  onOpenVariance: () => void
+  disabled?: boolean
+}
+
+export default function GanttBaselineMenu({
+  projectId,
+  showBaseline,
+  onShowBaselineChange,
+  onOpenVariance,
+  disabled,
+}: GanttBaselineMenuProps) {
+  const { data: baselines = [], isLoading } = useBaselines(projectId)
+  const createBaseline = useCreateBaseline()
+  const deleteBaseline = useDeleteBaseline()
+
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+
+  const nextNumber = baselines.reduce((max, b) => Math.max(max, b.baseline_number), 0) + 1
+
+  const openSaveDialog = () => {
+    setAnchorEl(null)
+    setName(`Linha de Base ${nextNumber}`)
+    setDescription('')
+    setDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+
+    await createBaseline.mutateAsync({
+      projectId,
+      name: name.trim(),
+      description: description.trim() || undefined,
+    })
+    setDialogOpen(false)
+    onShowBaselineChange(nextNumber)
+  }
+
+  const handleDelete = (id: string, baselineNumber: number) => {
+    if (!window.confirm('Excluir esta linha de base?')) return
+
+    deleteBaseline.mutate({ id, projectId })
+    if (showBaseline === baselineNumber) {
+      onShowBaselineChange(null)
+    }
+  }
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={<History />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        disabled={disabled}
+      >
+        {showBaseline ? `LB ${showBaseline}` : 'Linha de Base'}
+      </Button>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={!!anchorEl}
+        onClose={() => setAnchorEl(null)}
+        PaperProps={{ sx: { minWidth: 280 } }}
+      >
+        <MenuItem onClick={openSaveDialog}>
+          <ListItemIcon>
+            <Add fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Salvar linha de base" secondary={`Nº ${nextNumber}`} />
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null)
+            onOpenVariance()
+          }}
+          disabled={!showBaseline}
+        >
+          <ListItemIcon>
+            <TableChart fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Tabela de variação" />
+        </MenuItem>
+
+        <Divider />
+
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null)
+            onShowBaselineChange(null)
+          }}
+          selected={!showBaseline}
+        >
+          <ListItemIcon>
+            <VisibilityOff fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Não exibir linha de base" />
+        </MenuItem>
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+            <CircularProgress size={20} />
+          </Box>
+        ) : (
+          baselines.map((baseline) => (
+            <MenuItem
+              key={baseline.id}
+              onClick={() => {
+                setAnchorEl(null)
+                onShowBaselineChange(baseline.baseline_number)
+              }}
+              selected={showBaseline === baseline.baseline_number}
+            >
+              <ListItemIcon>
+                {showBaseline === baseline.baseline_number && <Check fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText
+                primary={`${baseline.baseline_number}. ${baseline.name}`}
+                secondary={`${new Date(baseline.created_at).toLocaleDateString('pt-BR')} · ${
+                  baseline.task_count ?? 0
+                } tarefas`}
+              />
+              <IconButton
+                size="small"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleDelete(baseline.id, baseline.baseline_number)
+                }}
+                sx={{ ml: 1, color: 'error.main' }}
+              >
+                <Delete fontSize="small" />
+              </IconButton>
+            </MenuItem>
+          ))
+        )}
+      </Menu>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Salvar Linha de Base</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            As datas, durações e horas atuais de todas as tarefas serão registradas para
+            comparação futura.
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            label="Nome"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            size="small"
+            multiline
+            minRows={2}
+            label="Descrição"
+            placeholder="Ex: Cronograma aprovado na reunião de kickoff"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancelar</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={!name.trim() || createBaseline.isPending}
+            startIcon={createBaseline.isPending ? <CircularProgress size={16} /> : undefined}
+          >
+            Salvar
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
@@ -9,6 +9,7 @@ import {
   CircularProgress,
   useTheme,
   Button,
+  Alert,
 } from '@mui/material'
 import {
   ZoomIn,
@@ -18,9 +19,17 @@ import {
   ExpandMore,
   Flag,
   FileDownload,
+  Undo,
+  Tune,
 } from '@mui/icons-material'
 import { useTaskHierarchy, buildTaskTree, flattenTaskTree } from '@/hooks/useTaskHierarchy'
 import { useDependencies } from '@/hooks/useDependencies'
+import { useCriticalPath } from '@/hooks/useCriticalPath'
+import { useProjectCalendar } from '@/hooks/useProjectCalendar'
+import { useBaselines, useBaselineTasks } from '@/hooks/useBaselines'
+import { useGanttEditing } from '@/hooks/useGanttEditing'
+import { compareWithBaseline } from '@/utils/gantt/baselineComparison'
+import { getScheduleStartDate } from '@/utils/gantt/criticalPath'
 import { exportGanttToXLSX } from '@/utils/exportGanttToXLSX'
 import { supabase } from '@/lib/supabase'
 import toast from 'react-hot-toast'
@@ -30,9 +39,26 @@ import {
   dateRangeToWidth,
   getProjectDateRange,
   addDays,
+  pixelsToDays,
 } from '@/utils/gantt/dateCalculations'
-import type { GanttZoomLevel } from '@/types/hybrid'
+import {
+  calculateDuration,
+  calculateEndDate,
+  getNonWorkingDays,
+  parseDateKey,
+  snapToWorkingDay,
+} from '@/utils/gantt/workingCalendar'
+import type {
+  GanttDragMode,
+  GanttViewState,
+  GanttZoomLevel,
+  HierarchicalTask,
+} from '@/types/hybrid'
 import GanttBar from './GanttBar'
+import GanttBaselineMenu from './GanttBaselineMenu'
+import BaselineVarianceDialog from './BaselineVarianceDialog'
+import ResourceLevelingDialog from './ResourceLevelingDialog'
+import { MSProjectMenu } from '@/components/msproject'
 import GanttTimeline from './GanttTimeline'
 import GanttDependencyLines from './GanttDependencyLines'
 
@@ -58,15 +84,42 @@ interface TeamMember {
   avatar_url: string | null
 }
 
+/** Bar drag in progress; coordinates are relative to the chart content */
+interface DragState {
+  taskId: string
+  mode: GanttDragMode
+  originX: number
+  originY: number
+  pointerX: number
+  pointerY: number
+  barX: number
+  barWidth: number
+  /** Pointer moved past the click threshold */
+  moved: boolean
+}
+
+/** Pixels the pointer must travel before a press becomes a drag */
+const DRAG_THRESHOLD = 3
+
+const formatShortDate = (date: Date) =>
+  date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })
+
 export default function GanttChart({ projectId }: GanttChartProps) {
   const theme = useTheme()
   const isDarkMode = theme.palette.mode === 'dark'
   const { data: tasks = [], isLoading } = useTaskHierarchy(projectId)
   const { data: dependencies = [] } = useDependencies(projectId)
+  const { calendar } = useProjectCalendar(projectId)
   const [zoom, setZoom] = useState<GanttZoomLevel>('week')
   const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
   const [selectedId, setSelectedId] = useState<string | null>(null)
   const [isExporting, setIsExporting] = useState(false)
+  const [showBaseline, setShowBaseline] = useState<GanttViewState['showBaseline']>(null)
+  const [varianceOpen, setVarianceOpen] = useState(false)
+  const [levelingOpen, setLevelingOpen] = useState(false)
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const dragRef = useRef<DragState | null>(null)
+  dragRef.current = drag
   const [projectName, setProjectName] = useState('')
   const [projectManager, setProjectManager] = useState('')
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
@@ -138,22 +191,241 @@ export default function GanttChart({ projectId }: GanttChartProps) {
     fetchProjectData()
   }, [projectId])
 
+  // Critical path is computed live so bars reflect dependency types, lags and constraints
+  const projectStartDate = useMemo(() => getScheduleStartDate(tasks), [tasks])
+  const { tasksWithCPM, cycleDescription, constraintWarnings } = useCriticalPath({
+    tasks,
+    dependencies,
+    projectStartDate,
+    calendar,
+  })
+
+  // Baseline overlay and variance
+  const { data: baselines = [] } = useBaselines(projectId)
+  const selectedBaseline = baselines.find((b) => b.baseline_number === showBaseline)
+  const { data: baselineTasks = [] } = useBaselineTasks(selectedBaseline?.id)
+  const baselineComparisons = useMemo(
+    () => (selectedBaseline ? compareWithBaseline(tasks, baselineTasks, calendar) : []),
+    [selectedBaseline, tasks, baselineTasks, calendar]
+  )
+  const comparisonByTask = useMemo(
+    () => new Map(baselineComparisons.map((c) => [c.task_id, c])),
+    [baselineComparisons]
+  )
+
+  const { rescheduleTask, setProgress, linkTasks, applySchedule, undo, canUndo, lastEditLabel } = useGanttEditing({
+    projectId,
+    tasks,
+    dependencies,
+    calendar,
+  })
+
+  // Attach incoming dependencies so links (including ones drawn here) get lines
+  const tasksWithLinks = useMemo(() => {
+    const bySuccessor = new Map<string, typeof dependencies>()
+    dependencies.forEach((dep) => {
+      bySuccessor.set(dep.successor_id, [...(bySuccessor.get(dep.successor_id) || []), dep])
+    })
+    return tasksWithCPM.map((task) => ({ ...task, dependencies: bySuccessor.get(task.id) || [] }))
+  }, [tasksWithCPM, dependencies])
+
   // Build tree and flatten
-  const taskTree = useMemo(() => buildTaskTree(tasks), [tasks])
+  const taskTree = useMemo(() => buildTaskTree(tasksWithLinks), [tasksWithLinks])
   const flatTasks = useMemo(
     () => flattenTaskTree(taskTree, expandedIds),
     [taskTree, expandedIds]
   )
   const visibleTasks = flatTasks.filter((t) => t._visible)
 
-  // Calculate date range
-  const dateRange = useMemo(() => getProjectDateRange(tasks), [tasks])
+  // Calculate date range (baseline dates included so ghost bars stay visible)
+  const dateRange = useMemo(
+    () =>
+      getProjectDateRange([
+        ...tasks,
+        ...baselineComparisons.map((c) => ({ start_date: c.baseline_start, end_date: c.baseline_end })),
+      ]),
+    [tasks, baselineComparisons]
+  )
   const timelineUnits = useMemo(
-    () => generateTimelineUnits(dateRange.start, dateRange.end, zoom),
-    [dateRange, zoom]
+    () => generateTimelineUnits(dateRange.start, dateRange.end, zoom, calendar),
+    [dateRange, zoom, calendar]
+  )
+  // Weekends and holidays are only shaded where a day is wide enough to see
+  const nonWorkingDays = useMemo(
+    () =>
+      zoom === 'day' || zoom === 'week'
+        ? getNonWorkingDays(dateRange.start, dateRange.end, calendar)
+        : [],
+    [dateRange, zoom, calendar]
   )
   const timelineWidth = timelineUnits.reduce((sum, u) => sum + u.width, 0)
 
+  const toContentPoint = (event: { clientX: number; clientY: number }) => {
+    const container = chartRef.current
+    if (!container) return { x: 0, y: 0 }
+    const rect = container.getBoundingClientRect()
+    return {
+      x: event.clientX - rect.left + container.scrollLeft,
+      y: event.clientY - rect.top + container.scrollTop,
+    }
+  }
+
+  const getTaskDates = (task: HierarchicalTask) => {
+    const start = parseDateKey(task.start_date as string)
+    const end = task.end_date
+      ? parseDateKey(task.end_date)
+      : calculateEndDate(start, task.planned_duration || 1, calendar)
+    return { start, end }
+  }
+
+  // Dates (or progress) the dragged bar would get if dropped now
+  const getDragPreview = (state: DragState) => {
+    const task = tasks.find((t) => t.id === state.taskId)
+    if (!task?.start_date) return null
+
+    const { start, end } = getTaskDates(task)
+    const days = pixelsToDays(state.pointerX - state.originX, zoom)
+    const isMilestone = task.task_type === 'milestone'
+
+    switch (state.mode) {
+      case 'move': {
+        const newStart = snapToWorkingDay(addDays(start, days), calendar)
+        const newEnd = isMilestone
+          ? newStart
+          : calculateEndDate(newStart, calculateDuration(start, end, calendar), calendar)
+        return { start: newStart, end: newEnd, percent: task.percent_complete }
+      }
+      case 'resize-start': {
+        const newStart = snapToWorkingDay(addDays(start, days), calendar)
+        return {
+          start: newStart > end ? snapToWorkingDay(end, calendar, -1) : newStart,
+          end,
+          percent: task.percent_complete,
+        }
+      }
+      case 'resize-end': {
+        const newEnd = snapToWorkingDay(addDays(end, days), calendar, -1)
+        return { start, end: newEnd < start ? start : newEnd, percent: task.percent_complete }
+      }
+      case 'progress': {
+        const ratio = (state.pointerX - state.barX) / Math.max(state.barWidth, 1)
+        const percent = Math.min(100, Math.max(0, Math.round((ratio * 100) / 5) * 5))
+        return { start, end, percent }
+      }
+      default:
+        return { start, end, percent: task.percent_complete }
+    }
+  }
+
+  // Bar under the pointer while drawing a link (summary rows can't be linked)
+  const getLinkTarget = (state: DragState) => {
+    const target = visibleTasks[Math.floor(state.pointerY / ROW_HEIGHT)]
+    if (!target || target.id === state.taskId || target.is_summary) return null
+    return target
+  }
+
+  const handleDragStart = (task: HierarchicalTask, barX: number, barWidth: number) =>
+    (event: React.PointerEvent, mode: GanttDragMode) => {
+      const point = toContentPoint(event)
+      setSelectedId(task.id)
+      setDrag({
+        taskId: task.id,
+        mode,
+        originX: point.x,
+        originY: point.y,
+        pointerX: point.x,
+        pointerY: point.y,
+        barX,
+        barWidth,
+        moved: false,
+      })
+    }
+
+  // Applies a finished drag; kept in a ref so the window listeners below
+  // always see the current tasks and zoom without rebinding
+  const handleDropRef = useRef<(state: DragState) => void>(() => {})
+  handleDropRef.current = (state: DragState) => {
+    if (state.mode === 'link') {
+      const target = getLinkTarget(state)
+      if (target) void linkTasks(state.taskId, target.id)
+      return
+    }
+
+    const preview = getDragPreview(state)
+    if (!preview) return
+
+    if (state.mode === 'progress') {
+      void setProgress(state.taskId, preview.percent)
+    } else {
+      void rescheduleTask(
+        state.taskId,
+        preview.start,
+        preview.end,
+        state.mode === 'move' ? 'Mover tarefa' : 'Alterar duração'
+      )
+    }
+  }
+
+  // Track the pointer on the window so drags keep working outside the bar
+  const isDragActive = drag !== null
+  useEffect(() => {
+    if (!isDragActive) return
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const point = toContentPoint(event)
+      setDrag((prev) =>
+        prev && {
+          ...prev,
+          pointerX: point.x,
+          pointerY: point.y,
+          moved:
+            prev.moved ||
+            Math.abs(point.x - prev.originX) > DRAG_THRESHOLD ||
+            Math.abs(point.y - prev.originY) > DRAG_THRESHOLD,
+        }
+      )
+    }
+
+    const handlePointerUp = () => {
+      const state = dragRef.current
+      setDrag(null)
+      if (state?.moved) handleDropRef.current(state)
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setDrag(null)
+    }
+
+    window.addEventListener('pointermove', handlePointerMove)
+    window.addEventListener('pointerup', handlePointerUp)
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove)
+      window.removeEventListener('pointerup', handlePointerUp)
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isDragActive])
+
+  // Ctrl+Z undoes the last Gantt change (outside text fields)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (target.closest('input, textarea, [contenteditable="true"]')) return
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        void undo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo])
+
+  const activeDrag = drag?.moved ? drag : null
+  const dragPreview = activeDrag && activeDrag.mode !== 'link' ? getDragPreview(activeDrag) : null
+  const linkTarget = activeDrag?.mode === 'link' ? getLinkTarget(activeDrag) : null
+
   const toggleExpand = (taskId: string) => {
     setExpandedIds((prev) => {
       const next = new Set(prev)
@@ -208,6 +480,12 @@ export default function GanttChart({ projectId }: GanttChartProps) {
         tasks,
         dependencies,
         teamMembers: teamMembersMap,
+        baseline: selectedBaseline
+          ? {
+              name: `${selectedBaseline.baseline_number}. ${selectedBaseline.name}`,
+              comparisons: baselineComparisons,
+            }
+          : undefined,
       })
 
       toast.dismiss(loadingToast)
@@ -288,6 +566,38 @@ export default function GanttChart({ projectId }: GanttChartProps) {
 
         <Box sx={{ flex: 1 }} />
 
+        <GanttBaselineMenu
+          projectId={projectId}
+          showBaseline={showBaseline}
+          onShowBaselineChange={setShowBaseline}
+          onOpenVariance={() => setVarianceOpen(true)}
+          disabled={tasks.length === 0}
+        />
+
+        <MSProjectMenu projectId={projectId} projectName={projectName} />
+
+        <Tooltip title="Nivelar recursos sobrealocados">
+          <span>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<Tune />}
+              onClick={() => setLevelingOpen(true)}
+              disabled={tasks.length === 0}
+            >
+              Nivelar
+            </Button>
+          </span>
+        </Tooltip>
+
+        <Tooltip title={canUndo ? `Desfazer: ${lastEditLabel} (Ctrl+Z)` : 'Nada para desfazer'}>
+          <span>
+            <IconButton size="small" onClick={() => void undo()} disabled={!canUndo}>
+              <Undo />
+            </IconButton>
+          </span>
+        </Tooltip>
+
         <Tooltip title="Ir para hoje">
           <IconButton size="small" onClick={scrollToToday}>
             <Today />
@@ -318,6 +628,30 @@ export default function GanttChart({ projectId }: GanttChartProps) {
         </Tooltip>
       </Box>
 
+      {cycleDescription && (
+        <Alert severity="warning" sx={{ mb: 2, borderRadius: 2 }}>
+          Ciclo de dependências detectado: {cycleDescription}. O caminho crítico pode estar incorreto.
+        </Alert>
+      )}
+
+      {constraintWarnings.size > 0 && (
+        <Alert severity="error" sx={{ mb: 2, borderRadius: 2 }}>
+          <Typography variant="body2" fontWeight={600}>
+            {constraintWarnings.size === 1
+              ? '1 tarefa não consegue cumprir sua restrição de data'
+              : `${constraintWarnings.size} tarefas não conseguem cumprir suas restrições de data`}
+          </Typography>
+          {tasks
+            .filter((t) => constraintWarnings.has(t.id))
+            .slice(0, 5)
+            .map((t) => (
+              <Typography key={t.id} variant="caption" display="block">
+                {t.wbs_code ? `${t.wbs_code} ` : ''}{t.title} — {constraintWarnings.get(t.id)}
+              </Typography>
+            ))}
+        </Alert>
+      )}
+
       {/* Main Chart */}
       <Paper
         sx={{
@@ -446,6 +780,8 @@ export default function GanttChart({ projectId }: GanttChartProps) {
               flex: 1,
               overflow: 'auto',
               position: 'relative',
+              userSelect: drag ? 'none' : 'auto',
+              cursor: activeDrag?.mode === 'link' ? 'crosshair' : 'default',
             }}
           >
             {/* Grid Background */}
@@ -476,25 +812,22 @@ export default function GanttChart({ projectId }: GanttChartProps) {
                 />
               ))}
 
-              {/* Weekend highlights */}
-              {timelineUnits
-                .filter((u) => u.isWeekend)
-                .map((unit, i) => {
-                  const x = dateToX(unit.date, dateRange.start, zoom)
-                  return (
-                    <Box
-                      key={`weekend-${i}`}
-                      sx={{
-                        position: 'absolute',
-                        top: 0,
-                        left: x,
-                        width: unit.width,
-                        height: '100%',
-                        bgcolor: isDarkMode ? 'rgba(255, 255, 255, 0.03)' : 'rgba(0, 0, 0, 0.03)',
-                      }}
-                    />
-                  )
-                })}
+              {/* Non-working day highlights (weekends and holidays) */}
+              {nonWorkingDays.map(({ date, holidayName }) => (
+                <Box
+                  key={`non-working-${date.getTime()}`}
+                  sx={{
+                    position: 'absolute',
+                    top: 0,
+                    left: dateToX(date, dateRange.start, zoom),
+                    width: dateRangeToWidth(date, date, zoom),
+                    height: '100%',
+                    bgcolor: holidayName
+                      ? 'rgba(245, 158, 11, 0.08)'
+                      : isDarkMode ? 'rgba(255, 255, 255, 0.03)' : 'rgba(0, 0, 0, 0.03)',
+                  }}
+                />
+              ))}
 
               {/* Today marker */}
               {todayX >= 0 && todayX <= timelineWidth && (
@@ -515,29 +848,109 @@ export default function GanttChart({ projectId }: GanttChartProps) {
               {visibleTasks.map((task, index) => {
                 if (!task.start_date) return null
 
-                const startDate = new Date(task.start_date)
-                const endDate = task.end_date
-                  ? new Date(task.end_date)
-                  : addDays(startDate, (task.planned_duration || 1) - 1)
+                const isDragged = activeDrag?.taskId === task.id
+                const { start: startDate, end: endDate } =
+                  isDragged && dragPreview ? dragPreview : getTaskDates(task)
 
                 const x = dateToX(startDate, dateRange.start, zoom)
                 const width = dateRangeToWidth(startDate, endDate, zoom)
                 const y = index * ROW_HEIGHT + 4
 
+                // Bars get thinner to make room for the baseline ghost bar
+                const comparison = comparisonByTask.get(task.id)
+                const baselineStart = comparison?.baseline_start
+                  ? parseDateKey(comparison.baseline_start)
+                  : null
+                const baselineEnd = comparison?.baseline_end
+                  ? parseDateKey(comparison.baseline_end)
+                  : baselineStart
+
                 return (
                   <GanttBar
                     key={task.id}
-                    task={task}
+                    task={
+                      isDragged && dragPreview
+                        ? { ...task, percent_complete: dragPreview.percent }
+                        : task
+                    }
                     x={x}
                     y={y}
                     width={Math.max(width, 20)}
-                    height={ROW_HEIGHT - 8}
+                    height={selectedBaseline ? ROW_HEIGHT - 16 : ROW_HEIGHT - 8}
                     isSelected={selectedId === task.id}
+                    warning={constraintWarnings.get(task.id)}
+                    baseline={
+                      comparison && baselineStart && baselineEnd
+                        ? {
+                            x: dateToX(baselineStart, dateRange.start, zoom),
+                            width: dateRangeToWidth(baselineStart, baselineEnd, zoom),
+                            start: comparison.baseline_start,
+                            end: comparison.baseline_end,
+                            endVariance: comparison.end_variance_days,
+                          }
+                        : undefined
+                    }
+                    isDragging={drag?.taskId === task.id}
+                    isLinkTarget={linkTarget?.id === task.id}
+                    onDragStart={task.is_summary ? undefined : handleDragStart(task, x, Math.max(width, 20))}
                     onClick={() => setSelectedId(task.id)}
                   />
                 )
               })}
 
+              {/* New dates while dragging */}
+              {activeDrag && dragPreview && (
+                <Chip
+                  size="small"
+                  label={
+                    activeDrag.mode === 'progress'
+                      ? `${dragPreview.percent}%`
+                      : `${formatShortDate(dragPreview.start)} – ${formatShortDate(dragPreview.end)}`
+                  }
+                  sx={{
+                    position: 'absolute',
+                    left: dateToX(dragPreview.start, dateRange.start, zoom),
+                    top: Math.max(
+                      visibleTasks.findIndex((t) => t.id === activeDrag.taskId) * ROW_HEIGHT - 20,
+                      0
+                    ),
+                    height: 18,
+                    fontSize: '0.65rem',
+                    fontWeight: 600,
+                    bgcolor: '#1f2937',
+                    color: 'white',
+                    pointerEvents: 'none',
+                    zIndex: 20,
+                  }}
+                />
+              )}
+
+              {/* Link being drawn */}
+              {activeDrag?.mode === 'link' && (
+                <svg
+                  style={{
+                    position: 'absolute',
+                    top: 0,
+                    left: 0,
+                    width: '100%',
+                    height: '100%',
+                    pointerEvents: 'none',
+                    overflow: 'visible',
+                    zIndex: 20,
+                  }}
+                >
+                  <line
+                    x1={activeDrag.originX}
+                    y1={activeDrag.originY}
+                    x2={activeDrag.pointerX}
+                    y2={activeDrag.pointerY}
+                    stroke={linkTarget ? '#10b981' : '#6366f1'}
+                    strokeWidth={2}
+                    strokeDasharray="4 3"
+                  />
+                </svg>
+              )}
+
               {/* Dependency lines */}
               <GanttDependencyLines
                 tasks={visibleTasks}
@@ -585,11 +998,41 @@ export default function GanttChart({ projectId }: GanttChartProps) {
           <Box sx={{ width: 16, height: 8, bgcolor: '#ef4444', borderRadius: 1 }} />
           <Typography variant="caption" color="text.secondary">Caminho Crítico</Typography>
         </Box>
+        {selectedBaseline && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Box sx={{ width: 16, height: 6, bgcolor: 'rgba(148, 163, 184, 0.6)', borderRadius: 0.5 }} />
+            <Typography variant="caption" color="text.secondary">
+              Linha de Base {selectedBaseline.baseline_number}
+            </Typography>
+          </Box>
+        )}
         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
           <Box sx={{ width: 2, height: 16, bgcolor: '#ef4444' }} />
           <Typography variant="caption" color="text.secondary">Hoje</Typography>
         </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Box sx={{ width: 16, height: 12, bgcolor: 'rgba(245, 158, 11, 0.25)', borderRadius: 0.5 }} />
+          <Typography variant="caption" color="text.secondary">Feriado</Typography>
+        </Box>
       </Paper>
+
+      <BaselineVarianceDialog
+        open={varianceOpen}
+        onClose={() => setVarianceOpen(false)}
+        baseline={selectedBaseline}
+        comparisons={baselineComparisons}
+        onExport={handleExport}
+      />
+
+      <ResourceLevelingDialog
+        open={levelingOpen}
+        onClose={() => setLevelingOpen(false)}
+        projectId={projectId}
+        tasks={tasksWithCPM}
+        dependencies={dependencies}
+        calendar={calendar}
+        onApply={(changes) => applySchedule(changes, 'Nivelamento de recursos')}
+      />
     </Box>
   )
 }
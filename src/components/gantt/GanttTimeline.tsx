@@ -1,15 +1,8 @@
-import { Box, Typography } from '@mui/material'
-
-interface TimelineUnit {
-  date: Date
-  label: string
-  width: number
-  isWeekend: boolean
-  isToday: boolean
-}
+import { Box, Tooltip, Typography } from '@mui/material'
+import type { GanttTimelineUnit } from '@/types/hybrid'
 
 interface GanttTimelineProps {
-  units: TimelineUnit[]
+  units: GanttTimelineUnit[]
   isDarkMode?: boolean
 }
 
@@ -23,47 +16,50 @@ export default function GanttTimeline({ units, isDarkMode }: GanttTimelineProps)
       }}
     >
       {units.map((unit, index) => (
-        <Box
-          key={index}
-          sx={{
-            width: unit.width,
-            flexShrink: 0,
-            display: 'flex',
-            flexDirection: 'column',
-            borderRight: '1px solid',
-            borderColor: isDarkMode ? 'rgba(255, 255, 255, 0.1)' : 'divider',
-            bgcolor: unit.isToday
-              ? 'rgba(239, 68, 68, 0.1)'
-              : unit.isWeekend
-              ? isDarkMode ? 'rgba(255, 255, 255, 0.03)' : 'rgba(0, 0, 0, 0.03)'
-              : 'transparent',
-          }}
-        >
+        <Tooltip key={index} title={unit.holidayName || ''} arrow disableInteractive>
           <Box
             sx={{
-              flex: 1,
+              width: unit.width,
+              flexShrink: 0,
               display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              px: 0.5,
+              flexDirection: 'column',
+              borderRight: '1px solid',
+              borderColor: isDarkMode ? 'rgba(255, 255, 255, 0.1)' : 'divider',
+              bgcolor: unit.isToday
+                ? 'rgba(239, 68, 68, 0.1)'
+                : unit.holidayName
+                ? 'rgba(245, 158, 11, 0.12)'
+                : unit.isWeekend
+                ? isDarkMode ? 'rgba(255, 255, 255, 0.03)' : 'rgba(0, 0, 0, 0.03)'
+                : 'transparent',
             }}
           >
-            <Typography
-              variant="caption"
+            <Box
               sx={{
-                fontWeight: unit.isToday ? 700 : 500,
-                color: unit.isToday ? 'error.main' : 'text.secondary',
-                fontSize: '0.7rem',
-                textAlign: 'center',
-                whiteSpace: 'nowrap',
-                overflow: 'hidden',
-                textOverflow: 'ellipsis',
+                flex: 1,
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                px: 0.5,
               }}
             >
-              {unit.label}
-            </Typography>
+              <Typography
+                variant="caption"
+                sx={{
+                  fontWeight: unit.isToday ? 700 : 500,
+                  color: unit.isToday ? 'error.main' : 'text.secondary',
+                  fontSize: '0.7rem',
+                  textAlign: 'center',
+                  whiteSpace: 'nowrap',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                }}
+              >
+                {unit.label}
+              </Typography>
+            </Box>
           </Box>
-        </Box>
+        </Tooltip>
       ))}
     </Box>
   )
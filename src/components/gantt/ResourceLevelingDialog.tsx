@@ -0,0 +1,207 @@
+import { useMemo, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material'
+import { ArrowForward, Close, Tune } from '@mui/icons-material'
+import { useProjectAllocations, useUserAllocations } from '@/hooks/useResourceAllocations'
+import { levelResources } from '@/utils/gantt/resourceLeveling'
+import type { TaskDateChange } from '@/utils/gantt/rescheduling'
+import { parseDateKey, type WorkingCalendar } from '@/utils/gantt/workingCalendar'
+import type { HierarchicalTask, TaskDependency } from '@/types/hybrid'
+
+interface ResourceLevelingDialogProps {
+  open: boolean
+  onClose: () => void
+  projectId: string
+  /** Tasks with CPM slack applied */
+  tasks: HierarchicalTask[]
+  dependencies: TaskDependency[]
+  calendar: WorkingCalendar
+  onApply: (changes: TaskDateChange[]) => Promise<boolean>
+}
+
+/** Conflicts listed before collapsing into a count */
+const MAX_CONFLICTS_SHOWN = 5
+
+const formatDate = (value: string) => parseDateKey(value).toLocaleDateString('pt-BR')
+
+function DateShift({ from, to }: { from: string; to: string }) {
+  if (from === to) return <>{formatDate(from)}</>
+  return (
+    <Box sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}>
+      <Typography variant="body2" color="text.secondary" sx={{ textDecoration: 'line-through' }}>
+        {formatDate(from)}
+      </Typography>
+      <ArrowForward sx={{ fontSize: 12, color: 'text.secondary' }} />
+      <Typography variant="body2" fontWeight={600}>
+        {formatDate(to)}
+      </Typography>
+    </Box>
+  )
+}
+
+export default function ResourceLevelingDialog({
+  open,
+  onClose,
+  projectId,
+  tasks,
+  dependencies,
+  calendar,
+  onApply,
+}: ResourceLevelingDialogProps) {
+  const [isApplying, setIsApplying] = useState(false)
+
+  // People on this project, then their allocations everywhere (other projects count too)
+  const { data: projectAllocations = [], isLoading: loadingProject } = useProjectAllocations(
+    open ? projectId : undefined
+  )
+  const userIds = useMemo(
+    () => Array.from(new Set(projectAllocations.map((a) => a.user_id))),
+    [projectAllocations]
+  )
+  const { data: allocations = [], isLoading: loadingUsers } = useUserAllocations(open ? userIds : [])
+  const isLoading = loadingProject || loadingUsers
+
+  const result = useMemo(
+    () =>
+      open && !isLoading
+        ? levelResources({ tasks, dependencies, allocations, calendar })
+        : { changes: [], unresolved: [] },
+    [open, isLoading, tasks, dependencies, allocations, calendar]
+  )
+
+  const handleApply = async () => {
+    setIsApplying(true)
+    const applied = await onApply(result.changes)
+    setIsApplying(false)
+    if (applied) onClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Box sx={{ flex: 1 }}>
+          <Typography variant="h6">Nivelamento de Recursos</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Atrasa tarefas não críticas dentro da folga para eliminar sobrealocações
+          </Typography>
+        </Box>
+        <IconButton onClick={onClose} size="small">
+          <Close />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : (
+          <>
+            {result.unresolved.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                <Typography variant="body2" fontWeight={600} sx={{ mb: 0.5 }}>
+                  {result.unresolved.length === 1
+                    ? '1 sobrealocação não pôde ser resolvida dentro da folga'
+                    : `${result.unresolved.length} sobrealocações não puderam ser resolvidas dentro da folga`}
+                </Typography>
+                {result.unresolved.slice(0, MAX_CONFLICTS_SHOWN).map((conflict) => (
+                  <Typography key={`${conflict.userId}:${conflict.date}`} variant="caption" display="block">
+                    {conflict.userName} — {formatDate(conflict.date)}: {Math.round(conflict.load)}%
+                  </Typography>
+                ))}
+                {result.unresolved.length > MAX_CONFLICTS_SHOWN && (
+                  <Typography variant="caption" display="block">
+                    e mais {result.unresolved.length - MAX_CONFLICTS_SHOWN}...
+                  </Typography>
+                )}
+              </Alert>
+            )}
+
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+              <Chip size="small" label={`${result.changes.length} tarefas a reagendar`} />
+              <Typography variant="caption" color="text.secondary">
+                Tarefas críticas, iniciadas ou com restrição fixa (MSO/MFO) não são movidas; prioridade
+                baixa é atrasada primeiro.
+              </Typography>
+            </Box>
+
+            <TableContainer sx={{ maxHeight: 420 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>EDT</TableCell>
+                    <TableCell>Tarefa</TableCell>
+                    <TableCell>Início</TableCell>
+                    <TableCell>Término</TableCell>
+                    <TableCell align="center">Atraso</TableCell>
+                    <TableCell>Motivo</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {result.changes.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center" sx={{ py: 4, color: 'text.secondary' }}>
+                        {result.unresolved.length > 0
+                          ? 'Nenhuma tarefa pode ser atrasada dentro da folga disponível'
+                          : 'Nenhuma sobrealocação encontrada'}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    result.changes.map((change) => (
+                      <TableRow key={change.id}>
+                        <TableCell sx={{ color: 'text.secondary' }}>{change.wbs_code || '-'}</TableCell>
+                        <TableCell>{change.title}</TableCell>
+                        <TableCell>
+                          <DateShift from={change.previous_start} to={change.start_date} />
+                        </TableCell>
+                        <TableCell>
+                          <DateShift from={change.previous_end} to={change.end_date} />
+                        </TableCell>
+                        <TableCell align="center" sx={{ fontWeight: 600, color: '#f59e0b' }}>
+                          +{change.delay}
+                        </TableCell>
+                        <TableCell sx={{ color: 'text.secondary' }}>{change.reason}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              Atrasos em dias úteis. A alteração pode ser desfeita com Ctrl+Z.
+            </Typography>
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button
+          variant="contained"
+          startIcon={isApplying ? <CircularProgress size={16} /> : <Tune />}
+          onClick={handleApply}
+          disabled={isLoading || isApplying || result.changes.length === 0}
+        >
+          Aplicar Nivelamento
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
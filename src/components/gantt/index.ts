@@ -2,3 +2,6 @@ export { default as GanttChart } from './GanttChart'
 export { default as GanttBar } from './GanttBar'
 export { default as GanttTimeline } from './GanttTimeline'
 export { default as GanttDependencyLines } from './GanttDependencyLines'
+export { default as GanttBaselineMenu } from './GanttBaselineMenu'
+export { default as BaselineVarianceDialog } from './BaselineVarianceDialog'
+export { default as ResourceLevelingDialog } from './ResourceLevelingDialog'
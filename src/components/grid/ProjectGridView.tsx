@@ -54,6 +54,7 @@ import {
   PersonOutline,
   DragIndicator,
   OpenWith,
+  Warning,
 } from "@mui/icons-material";
 import { supabase } from "@/lib/supabase";
 import { queryKeys } from "@/lib/queryClient";
@@ -70,14 +71,34 @@ import {
   useOutdentTask,
   useReorderTasks,
 } from "@/hooks/useTaskHierarchy";
+import { useProjectCalendar } from "@/hooks/useProjectCalendar";
+import { useProjectWorkflow } from "@/hooks/useWorkflow";
+import { useDependencies } from "@/hooks/useDependencies";
+import { useCriticalPath } from "@/hooks/useCriticalPath";
+import { getScheduleStartDate } from "@/utils/gantt/criticalPath";
+import {
+  calculateSummaryRollup,
+  isSummaryTask,
+  type SummaryRollup,
+} from "@/utils/gantt/summaryRollup";
+import {
+  calculateDuration,
+  calculateEndDate,
+  parseDateKey,
+  toDateKey,
+  type WorkingCalendar,
+} from "@/utils/gantt/workingCalendar";
 import type {
   HierarchicalTask,
   TaskStatus,
   TaskPriority,
+  ConstraintType,
 } from "@/types/hybrid";
+import { CONSTRAINT_TYPE_INFO } from "@/types/hybrid";
 import GridToolbar from "./GridToolbar";
 import BlockReasonModal from "../BlockReasonModal";
 import toast from "react-hot-toast";
+import { checkStatusChange, getColumnUpdate, getWipScope } from "@/utils/kanbanWorkflow";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -126,9 +147,15 @@ interface TaskHandlers {
   teamMembers: TeamMember[];
   // Pre-computed per-task completion %; avoids recursive traversal inside every row render
   percentMap: ReadonlyMap<string, number>;
+  // Dates and duration of parent tasks, derived from their children (read-only)
+  summaryRollup: ReadonlyMap<string, SummaryRollup>;
   onToggleExpand: (id: string) => void;
   projectId: string;
   isDarkMode: boolean;
+  // Project working calendar (durations are counted in working days)
+  calendar: WorkingCalendar;
+  // Constraint conflict message per task id (from the CPM scheduler)
+  constraintWarnings: ReadonlyMap<string, string>;
 }
 
 interface ConfirmMoveState {
@@ -140,6 +167,14 @@ interface ConfirmMoveState {
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
+// Fields of summary tasks derived from their children (see summaryRollup)
+const ROLLUP_FIELDS = [
+  "start_date",
+  "end_date",
+  "planned_duration",
+  "percent_complete",
+];
+
 const statusOptions: { value: TaskStatus; label: string; color: string }[] = [
   { value: "todo", label: "A Fazer", color: "#6b7280" },
   { value: "in-progress", label: "Em Progresso", color: "#f59e0b" },
@@ -189,24 +224,6 @@ function getTaskDescendants(
   return children.flatMap((c) => [c, ...getTaskDescendants(c.id, allTasks)]);
 }
 
-/**
- * Recursively computes the completion percentage for a task.
- * - Leaf tasks  → stored percent_complete value.
- * - Parent tasks → arithmetic mean of all direct children (each also computed
- *   recursively so deeply nested trees stay consistent).
- */
-function computePercent(task: HierarchicalTask): number {
-  if (!task.children || task.children.length === 0) {
-    return task.percent_complete || 0;
-  }
-  // Blocked children are excluded from the average (they are on hold)
-  const active = task.children.filter((c) => c.status !== "blocked");
-  if (active.length === 0) return task.percent_complete || 0;
-  const avg =
-    active.reduce((sum, c) => sum + computePercent(c), 0) / active.length;
-  return Math.round(avg);
-}
-
 // ─── CannotCompleteDialog ─────────────────────────────────────────────────────
 
 function CannotCompleteDialog({
@@ -451,7 +468,7 @@ function DroppableSprintHeaderRow({
     >
       {/* drag handle col spacer */}
       <TableCell sx={{ width: 28, p: 0 }} />
-      <TableCell colSpan={11} sx={{ pl: "10px !important" }}>
+      <TableCell colSpan={12} sx={{ pl: "10px !important" }}>
         <Box sx={{ display: "flex", alignItems: "center", gap: 1.5 }}>
           {!isBacklog && (
             <Typography
@@ -587,6 +604,9 @@ const SortableTaskRow = memo(function SortableTaskRow({
     onUpdate,
     teamMembers,
     percentMap,
+    summaryRollup,
+    calendar,
+    constraintWarnings,
     onToggleExpand,
     isDarkMode,
   } = handlers;
@@ -678,9 +698,71 @@ const SortableTaskRow = memo(function SortableTaskRow({
                 {task.title}
               </Typography>
             )}
+
+            {constraintWarnings.has(task.id) && (
+              <Tooltip title={constraintWarnings.get(task.id)}>
+                <Warning sx={{ fontSize: 16, color: "#ef4444", ml: 0.5 }} />
+              </Tooltip>
+            )}
           </Box>
         );
 
+      case "constraint": {
+        const constraintType = task.constraint_type || "asap";
+        const needsDate = !["asap", "alap"].includes(constraintType);
+        return (
+          <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+            <Select
+              size="small"
+              value={constraintType}
+              disabled={task.is_summary}
+              onChange={(e) => {
+                const type = e.target.value as ConstraintType;
+                onUpdate(task.id, {
+                  constraint_type: type,
+                  constraint_date: ["asap", "alap"].includes(type)
+                    ? null
+                    : task.constraint_date || task.start_date?.split("T")[0] || null,
+                });
+              }}
+              renderValue={(value) => value.toUpperCase()}
+              sx={{ minWidth: 80, "& .MuiSelect-select": { py: 0.5 } }}
+            >
+              {(Object.keys(CONSTRAINT_TYPE_INFO) as ConstraintType[]).map(
+                (type) => (
+                  <MenuItem key={type} value={type}>
+                    <Tooltip title={CONSTRAINT_TYPE_INFO[type].description} placement="right">
+                      <Typography variant="body2">
+                        <strong>{type.toUpperCase()}</strong> ·{" "}
+                        {CONSTRAINT_TYPE_INFO[type].label}
+                      </Typography>
+                    </Tooltip>
+                  </MenuItem>
+                ),
+              )}
+            </Select>
+            {needsDate && (
+              <TextField
+                size="small"
+                type="date"
+                value={
+                  editing?.field === "constraint_date"
+                    ? editing.value
+                    : task.constraint_date?.split("T")[0] || ""
+                }
+                onChange={(e) =>
+                  setEditing({ field: "constraint_date", value: e.target.value })
+                }
+                onBlur={() => void handleCommit()}
+                onKeyDown={handleKeyDown}
+                InputLabelProps={{ shrink: true }}
+                sx={{ width: 140, "& input": { py: 0.75 } }}
+              />
+            )}
+          </Box>
+        );
+      }
+
       case "status":
         return (
           <Select
@@ -751,11 +833,11 @@ const SortableTaskRow = memo(function SortableTaskRow({
           />
         );
 
-        // Parent task → read-only, computed from children
-        if (task._hasChildren) {
+        // Summary task → read-only, computed from children
+        if (summaryRollup.has(task.id)) {
           return (
             <Tooltip
-              title="Calculado automaticamente pelas tarefas filhas"
+              title="Média das tarefas filhas ponderada pela duração"
               placement="top"
             >
               <Box
@@ -820,12 +902,29 @@ const SortableTaskRow = memo(function SortableTaskRow({
 
       case "start_date":
       case "end_date": {
-        const dateValue = task[field as "start_date" | "end_date"];
+        const dateField = field as "start_date" | "end_date";
+        const rollup = summaryRollup.get(task.id);
+        const dateValue = rollup?.[dateField] ?? task[dateField];
         const formatDate = (d: string | null) => {
           if (!d) return "-";
           const [yr, mo, dy] = d.split("T")[0].split("-").map(Number);
           return new Date(yr, mo - 1, dy).toLocaleDateString("pt-BR");
         };
+
+        // Summary task → read-only, spans its children
+        if (summaryRollup.has(task.id)) {
+          return (
+            <Tooltip
+              title="Calculado automaticamente pelas tarefas filhas"
+              placement="top"
+            >
+              <Typography variant="body2" color="text.secondary">
+                {formatDate(dateValue)}
+              </Typography>
+            </Tooltip>
+          );
+        }
+
         return isEditing ? (
           <TextField
             autoFocus
@@ -855,23 +954,31 @@ const SortableTaskRow = memo(function SortableTaskRow({
       }
 
       case "planned_duration": {
-        const dur = (() => {
-          if (!task.start_date || !task.end_date)
-            return task.planned_duration || null;
-          const [sy, sm, sd] = task.start_date
-            .split("T")[0]
-            .split("-")
-            .map(Number);
-          const [ey, em, ed] = task.end_date
-            .split("T")[0]
-            .split("-")
-            .map(Number);
-          const diff =
-            new Date(ey, em - 1, ed).getTime() -
-            new Date(sy, sm - 1, sd).getTime();
-          const days = Math.ceil(diff / 86400000) + 1;
-          return days > 0 ? days : 1;
-        })();
+        const dur =
+          task.start_date && task.end_date
+            ? calculateDuration(
+                parseDateKey(task.start_date),
+                parseDateKey(task.end_date),
+                calendar,
+              )
+            : task.planned_duration || null;
+
+        // Summary task → read-only, spans its children
+        if (summaryRollup.has(task.id)) {
+          const rolledDuration =
+            summaryRollup.get(task.id)?.planned_duration ?? dur;
+          return (
+            <Tooltip
+              title="Calculado automaticamente pelas tarefas filhas"
+              placement="top"
+            >
+              <Typography variant="body2" color="text.secondary">
+                {rolledDuration ? `${rolledDuration}d` : "-"}
+              </Typography>
+            </Tooltip>
+          );
+        }
+
         return isEditing ? (
           <TextField
             autoFocus
@@ -1048,6 +1155,7 @@ const SortableTaskRow = memo(function SortableTaskRow({
       <TableCell>{renderCell("start_date")}</TableCell>
       <TableCell>{renderCell("end_date")}</TableCell>
       <TableCell>{renderCell("planned_duration")}</TableCell>
+      <TableCell>{renderCell("constraint")}</TableCell>
       <TableCell>{renderCell("percent_complete")}</TableCell>
       <TableCell>{renderCell("status")}</TableCell>
       <TableCell>{renderCell("priority")}</TableCell>
@@ -1083,6 +1191,16 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
   const isDarkMode = theme.palette.mode === "dark";
 
   const { data: tasks = [], isLoading } = useTaskHierarchy(projectId);
+  const { calendar } = useProjectCalendar(projectId);
+  const workflow = useProjectWorkflow(projectId);
+  const { data: dependencies = [] } = useDependencies(projectId);
+  const scheduleStartDate = useMemo(() => getScheduleStartDate(tasks), [tasks]);
+  const { constraintWarnings } = useCriticalPath({
+    tasks,
+    dependencies,
+    projectStartDate: scheduleStartDate,
+    calendar,
+  });
   // Stable ref so callbacks can read the latest tasks without being in their dep array
   const tasksRef = useRef(tasks);
   tasksRef.current = tasks;
@@ -1158,6 +1276,7 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
   const [pendingBlockTask, setPendingBlockTask] = useState<{
     id: string;
     title: string;
+    workflowColumnId: string | null;
   } | null>(null);
   const [noChildDoneTask, setNoChildDoneTask] = useState<{
     title: string;
@@ -1174,18 +1293,23 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
   // ── Tree / grouped list ───────────────────────────────────────────────────────
   const taskTree = useMemo(() => buildTaskTree(tasks), [tasks]);
 
-  // Pre-compute completion % for every task once per tree change (O(n) walk)
+  // Parent tasks roll up dates, duration-weighted % and hours from their
+  // children; computed here too so rows are right before the refetch lands
+  const summaryRollup = useMemo(
+    () => calculateSummaryRollup(tasks, calendar),
+    [tasks, calendar],
+  );
+
   const percentMap = useMemo(() => {
     const map = new Map<string, number>();
-    function walk(nodes: HierarchicalTask[]) {
-      for (const node of nodes) {
-        map.set(node.id, computePercent(node));
-        if (node.children?.length) walk(node.children);
-      }
-    }
-    walk(taskTree);
+    tasks.forEach((t) =>
+      map.set(
+        t.id,
+        summaryRollup.get(t.id)?.percent_complete ?? (t.percent_complete || 0),
+      ),
+    );
     return map;
-  }, [taskTree]);
+  }, [tasks, summaryRollup]);
 
   const groupedRenderList = useMemo((): RenderItem[] => {
     if (sprints.length === 0) {
@@ -1261,22 +1385,14 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
   }, [visibleTaskItems, selectedIds]);
 
   // ── Cell editing helpers (pure, no closure over state) ───────────────────────
+  // Durations are working days in the project calendar
   const calcDuration = (start: string | null, end: string | null) => {
     if (!start || !end) return null;
-    const [sy, sm, sd] = start.split("T")[0].split("-").map(Number);
-    const [ey, em, ed] = end.split("T")[0].split("-").map(Number);
-    const diff =
-      new Date(ey, em - 1, ed).getTime() - new Date(sy, sm - 1, sd).getTime();
-    const days = Math.ceil(diff / 86400000) + 1;
-    return days > 0 ? days : 1;
+    return calculateDuration(parseDateKey(start), parseDateKey(end), calendar);
   };
 
-  const calcEndDate = (start: string, days: number) => {
-    const [y, m, d] = start.split("T")[0].split("-").map(Number);
-    const date = new Date(y, m - 1, d);
-    date.setDate(date.getDate() + days - 1);
-    return date.toISOString().split("T")[0];
-  };
+  const calcEndDate = (start: string, days: number) =>
+    toDateKey(calculateEndDate(parseDateKey(start), days, calendar));
 
   // ── Cell editing save (new signature: receives id+field+value from row) ────────
   const handleSaveEdit = useCallback(
@@ -1284,26 +1400,30 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
       const task = tasksRef.current.find((t) => t.id === id);
       if (!task) return;
 
+      // Summary dates, duration and % are rolled up from children; epics
+      // and features keep their own
+      const isRolledUp =
+        isSummaryTask(task) &&
+        tasksRef.current.some((t) => t.parent_task_id === id);
+      if (isRolledUp && ROLLUP_FIELDS.includes(field)) return;
+
       let updateValue: unknown = value;
       const extra: Record<string, unknown> = {};
 
       if (field === "percent_complete") {
         updateValue = Math.min(100, Math.max(0, parseInt(value) || 0));
         const newPct = updateValue as number;
-        const isLeaf = !tasksRef.current.some(
-          (t) => t.parent_task_id === task.id,
-        );
-        if (isLeaf) {
-          if (newPct === 100 && task.status !== "done") {
-            extra.status = "done";
-            extra.completed_at = new Date().toISOString();
-          } else if (newPct < 100 && task.status === "done") {
-            extra.status = "in-progress";
-            extra.completed_at = null;
-          }
+        if (newPct === 100 && task.status !== "done") {
+          extra.status = "done";
+          extra.completed_at = new Date().toISOString();
+        } else if (newPct < 100 && task.status === "done") {
+          extra.status = "in-progress";
+          extra.completed_at = null;
         }
       } else if (["planned_duration", "story_points"].includes(field)) {
         updateValue = parseInt(value) || 0;
+      } else if (field === "constraint_date") {
+        updateValue = value || null;
       }
       if (field === "start_date" && value) {
         if (task.end_date)
@@ -1336,44 +1456,9 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
         void checkAndNotifyMilestone(user.id);
       }
 
-      if (field === "percent_complete" && task.parent_task_id) {
-        let workingTasks = tasksRef.current.map((t) =>
-          t.id === id ? { ...t, percent_complete: updateValue as number } : t,
-        );
-        let childId = id;
-
-        while (true) {
-          const child = workingTasks.find((t) => t.id === childId);
-          if (!child?.parent_task_id) break;
-
-          const parentId = child.parent_task_id;
-          const activeChildren = workingTasks.filter(
-            (t) => t.parent_task_id === parentId && t.status !== "blocked",
-          );
-          if (activeChildren.length === 0) break;
-
-          const avg = Math.round(
-            activeChildren.reduce(
-              (sum, c) => sum + (c.percent_complete || 0),
-              0,
-            ) / activeChildren.length,
-          );
-          await supabase
-            .from("tasks")
-            .update({ percent_complete: avg })
-            .eq("id", parentId);
-          workingTasks = workingTasks.map((t) =>
-            t.id === parentId ? { ...t, percent_complete: avg } : t,
-          );
-          childId = parentId;
-        }
-
-        queryClient.invalidateQueries({
-          queryKey: queryKeys.tasks.hierarchy(projectId),
-        });
-      }
+      // Parent percent, dates and hours are rolled up by useUpdateTask
     },
-    [updateTask, projectId, user, checkAndNotifyMilestone, queryClient],
+    [updateTask, projectId, user, checkAndNotifyMilestone, calendar],
   );
 
   // ── Task CRUD ─────────────────────────────────────────────────────────────────
@@ -1487,8 +1572,25 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
   // ── Status / blocking ────────────────────────────────────────────────────────
   const handleStatusChange = useCallback(
     async (task: HierarchicalTask, newStatus: TaskStatus) => {
+      // Kanban workflow: allowed transitions and WIP limits
+      const move = checkStatusChange(
+        workflow,
+        task,
+        newStatus,
+        getWipScope(task, tasksRef.current),
+      );
+      if (!move.allowed) {
+        toast.error(move.message || "Movimento não permitido");
+        return;
+      }
+      const columnUpdate = getColumnUpdate(workflow, move.column);
+
       if (newStatus === "blocked" && task.status !== "blocked") {
-        setPendingBlockTask({ id: task.id, title: task.title });
+        setPendingBlockTask({
+          id: task.id,
+          title: task.title,
+          workflowColumnId: columnUpdate.workflow_column_id,
+        });
         setBlockReasonModalOpen(true);
         return;
       }
@@ -1509,19 +1611,21 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
         }
       }
 
-      const updates: Record<string, unknown> = { status: newStatus };
+      const updates: Record<string, unknown> = { ...columnUpdate };
       if (task.status === "blocked" && newStatus !== "blocked")
         updates.blocked_comment_id = null;
       if (newStatus === "done") {
         updates.completed_at = new Date().toISOString();
-        // Sync percent to 100 for leaf tasks (parent % is always computed)
-        if (!isParent) updates.percent_complete = 100;
+        // Sync percent to 100 unless it is rolled up (summary % is computed)
+        if (!isParent || !isSummaryTask(task))
+          updates.percent_complete = 100;
       } else if (task.status === "done") {
         updates.completed_at = null;
       }
 
       try {
         await updateTask.mutateAsync({ id: task.id, projectId, updates });
+        if (move.message) toast(`⚠️ ${move.message}`);
 
         if (
           newStatus === "done" &&
@@ -1532,55 +1636,12 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
           void checkAndNotifyMilestone(user.id);
         }
 
-        // Propagate the changed task's effective percent up to its parent(s).
-        // This also handles blocked-status changes, which alter the active pool.
-        if (task.parent_task_id) {
-          const newPct =
-            !isParent && newStatus === "done"
-              ? 100
-              : task.percent_complete || 0;
-          let workingTasks = tasksRef.current.map((t) =>
-            t.id === task.id
-              ? { ...t, status: newStatus, percent_complete: newPct }
-              : t,
-          );
-          let childId = task.id;
-
-          while (true) {
-            const child = workingTasks.find((t) => t.id === childId);
-            if (!child?.parent_task_id) break;
-
-            const parentId = child.parent_task_id;
-            const activeChildren = workingTasks.filter(
-              (t) => t.parent_task_id === parentId && t.status !== "blocked",
-            );
-            if (activeChildren.length === 0) break;
-
-            const avg = Math.round(
-              activeChildren.reduce(
-                (sum, c) => sum + (c.percent_complete || 0),
-                0,
-              ) / activeChildren.length,
-            );
-            await supabase
-              .from("tasks")
-              .update({ percent_complete: avg })
-              .eq("id", parentId);
-            workingTasks = workingTasks.map((t) =>
-              t.id === parentId ? { ...t, percent_complete: avg } : t,
-            );
-            childId = parentId;
-          }
-
-          queryClient.invalidateQueries({
-            queryKey: queryKeys.tasks.hierarchy(projectId),
-          });
-        }
+        // Parent percent (blocked children are left out) is rolled up by useUpdateTask
       } catch {
         // mutation onError already shows a toast
       }
     },
-    [updateTask, projectId, user, checkAndNotifyMilestone, queryClient],
+    [updateTask, projectId, user, checkAndNotifyMilestone, workflow],
   );
 
   const handleBlockConfirm = useCallback(
@@ -1602,6 +1663,7 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
           projectId,
           updates: {
             status: "blocked" as TaskStatus,
+            workflow_column_id: pendingBlockTask.workflowColumnId,
             blocked_comment_id: commentData.id,
           },
         });
@@ -1776,9 +1838,12 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
         updateTask.mutate({ id, projectId, updates }),
       teamMembers,
       percentMap,
+      summaryRollup,
       onToggleExpand: toggleExpand,
       projectId,
       isDarkMode,
+      calendar,
+      constraintWarnings,
     }),
     [
       handleSaveEdit,
@@ -1787,8 +1852,11 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
       projectId,
       teamMembers,
       percentMap,
+      summaryRollup,
       toggleExpand,
       isDarkMode,
+      calendar,
+      constraintWarnings,
     ],
   );
 
@@ -1899,6 +1967,7 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
                     { label: "Início", width: 120 },
                     { label: "Término", width: 120 },
                     { label: "Duração", width: 80 },
+                    { label: "Restrição", width: 110 },
                     { label: "% Concluído", width: 140 },
                     { label: "Status", width: 130 },
                     { label: "Prioridade", width: 110 },
@@ -1926,7 +1995,7 @@ export default function ProjectGridView({ projectId }: ProjectGridViewProps) {
               <TableBody>
                 {groupedRenderList.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={12} align="center" sx={{ py: 8 }}>
+                    <TableCell colSpan={13} align="center" sx={{ py: 8 }}>
                       <Box sx={{ textAlign: "center" }}>
                         <RadioButtonUnchecked
                           sx={{ fontSize: 48, color: "text.disabled", mb: 2 }}
@@ -0,0 +1,266 @@
+import { useState } from 'react'
+import {
+  Autocomplete,
+  Badge,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  InputAdornment,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import { Bookmark, BookmarkAdd, Clear, Delete, Link as LinkIcon, Search, ViewStream } from '@mui/icons-material'
+import toast from 'react-hot-toast'
+import { useDeleteKanbanFilter, useSaveKanbanFilter, useSavedKanbanFilters } from '@/hooks/useKanbanFilters'
+import {
+  DEFAULT_KANBAN_FILTERS,
+  KANBAN_PRIORITIES,
+  SWIMLANE_MODE_LABELS,
+  UNASSIGNED_FILTER,
+  countActiveFilters,
+  normalizeKanbanFilters,
+} from '@/utils/kanbanFilters'
+import type { KanbanFilters, KanbanSwimlaneMode } from '@/types'
+
+interface KanbanFilterBarProps {
+  projectId: string
+  filters: KanbanFilters
+  onChange: (filters: KanbanFilters) => void
+  members: Array<{ id: string; full_name: string }>
+  /** Labels used by the stories on the board */
+  labelOptions: string[]
+  /** Epic swimlanes only make sense when the project has epics */
+  hasEpics: boolean
+}
+
+/**
+ * Text, assignee, priority and label filters of the Kanban board, the
+ * swimlane choice, and the user's saved filters
+ */
+export default function KanbanFilterBar({
+  projectId,
+  filters,
+  onChange,
+  members,
+  labelOptions,
+  hasEpics,
+}: KanbanFilterBarProps) {
+  const { data: savedFilters = [] } = useSavedKanbanFilters(projectId)
+  const saveFilter = useSaveKanbanFilter()
+  const deleteFilter = useDeleteKanbanFilter()
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null)
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false)
+  const [filterName, setFilterName] = useState('')
+
+  const activeCount = countActiveFilters(filters)
+  const update = (changes: Partial<KanbanFilters>) => onChange({ ...filters, ...changes })
+
+  const handleSave = () => {
+    saveFilter.mutate(
+      { projectId, name: filterName, filters },
+      {
+        onSuccess: () => {
+          setSaveDialogOpen(false)
+          setFilterName('')
+        },
+      }
+    )
+  }
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+    toast.success('Link copiado!')
+  }
+
+  const swimlaneModes = (Object.keys(SWIMLANE_MODE_LABELS) as KanbanSwimlaneMode[]).filter(
+    (mode) => mode !== 'epic' || hasEpics
+  )
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center', flexWrap: 'wrap', mb: 3 }}>
+      <TextField
+        size="small"
+        placeholder="Buscar histórias"
+        value={filters.text}
+        onChange={(e) => update({ text: e.target.value })}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <Search sx={{ fontSize: 18 }} />
+            </InputAdornment>
+          ),
+        }}
+        sx={{ minWidth: 200 }}
+      />
+
+      <TextField
+        select
+        size="small"
+        label="Responsável"
+        value={filters.assignee}
+        onChange={(e) => update({ assignee: e.target.value })}
+        sx={{ minWidth: 170 }}
+      >
+        <MenuItem value="all">Todos</MenuItem>
+        <MenuItem value={UNASSIGNED_FILTER}>Sem responsável</MenuItem>
+        {members.length > 0 && <Divider />}
+        {members.map((member) => (
+          <MenuItem key={member.id} value={member.id}>
+            {member.full_name}
+          </MenuItem>
+        ))}
+      </TextField>
+
+      <TextField
+        select
+        size="small"
+        label="Prioridade"
+        value={filters.priority}
+        onChange={(e) => update({ priority: e.target.value })}
+        sx={{ minWidth: 140 }}
+      >
+        <MenuItem value="all">Todas</MenuItem>
+        {KANBAN_PRIORITIES.map((priority) => (
+          <MenuItem key={priority.value} value={priority.value}>
+            {priority.label}
+          </MenuItem>
+        ))}
+      </TextField>
+
+      <Autocomplete
+        multiple
+        size="small"
+        options={labelOptions}
+        value={filters.labels}
+        onChange={(_, labels) => update({ labels })}
+        limitTags={2}
+        renderInput={(params) => <TextField {...params} label="Etiquetas" />}
+        noOptionsText="Nenhuma etiqueta no quadro"
+        sx={{ minWidth: 200 }}
+      />
+
+      <TextField
+        select
+        size="small"
+        label="Raias"
+        value={filters.swimlanes}
+        onChange={(e) => update({ swimlanes: e.target.value as KanbanSwimlaneMode })}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <ViewStream sx={{ fontSize: 18 }} />
+            </InputAdornment>
+          ),
+        }}
+        sx={{ minWidth: 200 }}
+      >
+        {swimlaneModes.map((mode) => (
+          <MenuItem key={mode} value={mode}>
+            {SWIMLANE_MODE_LABELS[mode]}
+          </MenuItem>
+        ))}
+      </TextField>
+
+      <Tooltip title="Filtros salvos">
+        <IconButton onClick={(e) => setMenuAnchor(e.currentTarget)}>
+          <Badge badgeContent={savedFilters.length} color="primary">
+            <Bookmark />
+          </Badge>
+        </IconButton>
+      </Tooltip>
+
+      <Tooltip title="Copiar link desta visão">
+        <IconButton onClick={handleCopyLink}>
+          <LinkIcon />
+        </IconButton>
+      </Tooltip>
+
+      {activeCount > 0 && (
+        <Button
+          size="small"
+          startIcon={<Clear />}
+          onClick={() => onChange({ ...DEFAULT_KANBAN_FILTERS, swimlanes: filters.swimlanes })}
+        >
+          Limpar ({activeCount})
+        </Button>
+      )}
+
+      <Menu anchorEl={menuAnchor} open={!!menuAnchor} onClose={() => setMenuAnchor(null)}>
+        {savedFilters.length === 0 && (
+          <MenuItem disabled>
+            <Typography variant="body2">Nenhum filtro salvo</Typography>
+          </MenuItem>
+        )}
+        {savedFilters.map((saved) => (
+          <MenuItem
+            key={saved.id}
+            onClick={() => {
+              onChange(normalizeKanbanFilters(saved.filters))
+              setMenuAnchor(null)
+            }}
+          >
+            <ListItemText primary={saved.name} />
+            <IconButton
+              size="small"
+              edge="end"
+              sx={{ ml: 2 }}
+              onClick={(e) => {
+                e.stopPropagation()
+                if (window.confirm(`Excluir o filtro "${saved.name}"?`)) deleteFilter.mutate(saved.id)
+              }}
+            >
+              <Delete fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            setMenuAnchor(null)
+            setSaveDialogOpen(true)
+          }}
+        >
+          <ListItemIcon>
+            <BookmarkAdd fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Salvar filtro atual" />
+        </MenuItem>
+      </Menu>
+
+      <Dialog open={saveDialogOpen} onClose={() => setSaveDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Salvar filtro</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Nome"
+            placeholder="Ex.: Daily - Ana"
+            value={filterName}
+            onChange={(e) => setFilterName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && filterName.trim()) handleSave()
+            }}
+            helperText="Um filtro com o mesmo nome será substituído"
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveDialogOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!filterName.trim() || saveFilter.isPending}>
+            Salvar
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
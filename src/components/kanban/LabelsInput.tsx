@@ -0,0 +1,38 @@
+import { Autocomplete, Chip, TextField } from '@mui/material'
+import { useProjectLabels } from '@/hooks/useKanbanFilters'
+
+interface LabelsInputProps {
+  projectId: string | undefined
+  value: string[]
+  onChange: (labels: string[]) => void
+  disabled?: boolean
+}
+
+/**
+ * Labels of a task: suggests the labels already used in the project and
+ * accepts new ones (Enter to add)
+ */
+export default function LabelsInput({ projectId, value, onChange, disabled = false }: LabelsInputProps) {
+  const { data: options = [] } = useProjectLabels(projectId)
+
+  return (
+    <Autocomplete
+      multiple
+      freeSolo
+      disabled={disabled}
+      options={options}
+      value={value}
+      onChange={(_, labels) =>
+        onChange(Array.from(new Set(labels.map((label) => label.trim()).filter(Boolean))))
+      }
+      renderTags={(labels, getTagProps) =>
+        labels.map((label, index) => (
+          <Chip {...getTagProps({ index })} key={label} label={label} size="small" />
+        ))
+      }
+      renderInput={(params) => (
+        <TextField {...params} label="Etiquetas" placeholder={value.length === 0 ? 'Digite e pressione Enter' : ''} />
+      )}
+    />
+  )
+}
@@ -0,0 +1,2 @@
+export { default as KanbanFilterBar } from './KanbanFilterBar'
+export { default as LabelsInput } from './LabelsInput'
@@ -0,0 +1,271 @@
+import { useRef, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Step,
+  StepLabel,
+  Stepper,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { CheckCircle, UploadFile, Warning } from '@mui/icons-material'
+import { useProjectCalendar } from '@/hooks/useProjectCalendar'
+import { useImportMSProject, type MSProjectImportReport } from '@/hooks/useMSProject'
+import { parseMSProjectXML, type MSProjectImport } from '@/utils/msProjectXml'
+import MSProjectReportList from './MSProjectReportList'
+
+interface MSProjectImportDialogProps {
+  open: boolean
+  onClose: () => void
+  projectId: string
+}
+
+const steps = ['Arquivo', 'Revisão', 'Relatório']
+
+/** Tasks previewed before importing */
+const PREVIEW_LIMIT = 8
+
+export default function MSProjectImportDialog({ open, onClose, projectId }: MSProjectImportDialogProps) {
+  const { calendar } = useProjectCalendar(projectId)
+  const importProject = useImportMSProject()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [activeStep, setActiveStep] = useState(0)
+  const [fileName, setFileName] = useState('')
+  const [parsed, setParsed] = useState<MSProjectImport | null>(null)
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [importDependencies, setImportDependencies] = useState(true)
+  const [createBaseline, setCreateBaseline] = useState(true)
+  const [baselineName, setBaselineName] = useState('')
+  const [report, setReport] = useState<MSProjectImportReport | null>(null)
+
+  const handleClose = () => {
+    if (importProject.isPending) return
+    setActiveStep(0)
+    setFileName('')
+    setParsed(null)
+    setParseError(null)
+    setReport(null)
+    onClose()
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setParseError(null)
+
+    try {
+      const data = parseMSProjectXML(await file.text(), calendar)
+      if (data.tasks.length === 0) throw new Error('O arquivo não contém tarefas')
+      setParsed(data)
+      setCreateBaseline(data.hasBaseline)
+      setBaselineName(`${data.projectName} (MS Project)`)
+      setActiveStep(1)
+    } catch (error) {
+      setParsed(null)
+      setParseError(error instanceof Error ? error.message : 'Não foi possível ler o arquivo')
+    }
+  }
+
+  const handleImport = async () => {
+    if (!parsed) return
+    try {
+      const result = await importProject.mutateAsync({
+        projectId,
+        data: parsed,
+        importDependencies,
+        baselineName: createBaseline && parsed.hasBaseline ? baselineName.trim() || 'MS Project' : null,
+      })
+      setReport(result)
+      setActiveStep(2)
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Importar do MS Project</DialogTitle>
+
+      <DialogContent dividers>
+        <Stepper activeStep={activeStep} alternativeLabel sx={{ mb: 3 }}>
+          {steps.map((label) => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {activeStep === 0 && (
+          <Box sx={{ textAlign: 'center', py: 3 }}>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xml,application/xml,text/xml"
+              hidden
+              onChange={(e) => {
+                void handleFile(e.target.files?.[0])
+                e.target.value = ''
+              }}
+            />
+            <Button
+              variant="outlined"
+              size="large"
+              startIcon={<UploadFile />}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Selecionar arquivo .xml
+            </Button>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              No MS Project, use Arquivo → Salvar como → Formato XML (*.xml)
+            </Typography>
+            {parseError && (
+              <Alert severity="error" sx={{ mt: 2, textAlign: 'left' }}>
+                {fileName}: {parseError}
+              </Alert>
+            )}
+          </Box>
+        )}
+
+        {activeStep === 1 && parsed && (
+          <Box>
+            <Typography variant="subtitle1" fontWeight={700}>
+              {parsed.projectName}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {fileName}
+            </Typography>
+
+            <Box sx={{ display: 'flex', gap: 1, my: 2, flexWrap: 'wrap' }}>
+              <Chip size="small" label={`${parsed.tasks.length} tarefas`} />
+              <Chip size="small" label={`${parsed.tasks.filter((t) => t.isSummary).length} resumos`} />
+              <Chip size="small" label={`${parsed.tasks.filter((t) => t.taskType === 'milestone').length} marcos`} />
+              <Chip size="small" label={`${parsed.links.length} vínculos`} />
+              {parsed.hasBaseline && <Chip size="small" color="primary" label="Linha de base" />}
+            </Box>
+
+            <Box sx={{ mb: 2, pl: 1, borderLeft: '3px solid', borderColor: 'divider' }}>
+              {parsed.tasks.slice(0, PREVIEW_LIMIT).map((task) => (
+                <Typography
+                  key={task.uid}
+                  variant="body2"
+                  noWrap
+                  sx={{ pl: (task.outlineLevel - 1) * 2, fontWeight: task.isSummary ? 600 : 400 }}
+                >
+                  {task.wbsCode ? `${task.wbsCode} ` : ''}
+                  {task.title}
+                </Typography>
+              ))}
+              {parsed.tasks.length > PREVIEW_LIMIT && (
+                <Typography variant="caption" color="text.secondary">
+                  e mais {parsed.tasks.length - PREVIEW_LIMIT} tarefas...
+                </Typography>
+              )}
+            </Box>
+
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={importDependencies}
+                  onChange={(e) => setImportDependencies(e.target.checked)}
+                  disabled={parsed.links.length === 0}
+                />
+              }
+              label="Importar vínculos entre tarefas"
+            />
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={createBaseline && parsed.hasBaseline}
+                    onChange={(e) => setCreateBaseline(e.target.checked)}
+                    disabled={!parsed.hasBaseline}
+                  />
+                }
+                label={parsed.hasBaseline ? 'Criar linha de base' : 'Arquivo sem linha de base'}
+              />
+              {createBaseline && parsed.hasBaseline && (
+                <TextField
+                  size="small"
+                  label="Nome da linha de base"
+                  value={baselineName}
+                  onChange={(e) => setBaselineName(e.target.value)}
+                  sx={{ flex: 1 }}
+                />
+              )}
+            </Box>
+
+            {parsed.warnings.length > 0 && (
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="body2" fontWeight={600} sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                  <Warning sx={{ fontSize: 18, color: '#f59e0b' }} />
+                  Itens que não serão importados
+                </Typography>
+                <MSProjectReportList items={parsed.warnings} />
+              </Box>
+            )}
+          </Box>
+        )}
+
+        {activeStep === 2 && report && (
+          <Box>
+            <Alert icon={<CheckCircle />} severity="success" sx={{ mb: 2 }}>
+              {report.tasksCreated} tarefas e {report.dependenciesCreated} vínculos importados
+              {report.baselineNumber !== null && `; linha de base ${report.baselineNumber} criada`}.
+            </Alert>
+            {report.warnings.length > 0 ? (
+              <>
+                <Typography variant="body2" fontWeight={600}>
+                  Não mapeado
+                </Typography>
+                <MSProjectReportList items={report.warnings} />
+              </>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                Todo o conteúdo do arquivo foi mapeado.
+              </Typography>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        {activeStep === 2 ? (
+          <Button variant="contained" onClick={handleClose}>
+            Concluir
+          </Button>
+        ) : (
+          <>
+            <Button onClick={handleClose} disabled={importProject.isPending}>
+              Cancelar
+            </Button>
+            {activeStep === 1 && (
+              <>
+                <Button onClick={() => setActiveStep(0)} disabled={importProject.isPending}>
+                  Voltar
+                </Button>
+                <Button
+                  variant="contained"
+                  onClick={handleImport}
+                  disabled={importProject.isPending}
+                  startIcon={importProject.isPending ? <CircularProgress size={16} /> : undefined}
+                >
+                  Importar
+                </Button>
+              </>
+            )}
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  )
+}
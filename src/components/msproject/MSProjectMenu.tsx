@@ -0,0 +1,121 @@
+import { useState } from 'react'
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Typography,
+} from '@mui/material'
+import { Download, ImportExport, Upload } from '@mui/icons-material'
+import { useTaskHierarchy } from '@/hooks/useTaskHierarchy'
+import { useDependencies } from '@/hooks/useDependencies'
+import { useProjectCalendar } from '@/hooks/useProjectCalendar'
+import { useBaselines, useBaselineTasks } from '@/hooks/useBaselines'
+import { buildMSProjectXML } from '@/utils/msProjectXml'
+import toast from 'react-hot-toast'
+import MSProjectImportDialog from './MSProjectImportDialog'
+import MSProjectReportList from './MSProjectReportList'
+
+interface MSProjectMenuProps {
+  projectId: string
+  projectName: string
+}
+
+/**
+ * Toolbar menu to import an MS Project XML file or export the project to one
+ */
+export default function MSProjectMenu({ projectId, projectName }: MSProjectMenuProps) {
+  const { data: tasks = [] } = useTaskHierarchy(projectId)
+  const { data: dependencies = [] } = useDependencies(projectId)
+  const { calendar } = useProjectCalendar(projectId)
+  const { data: baselines = [] } = useBaselines(projectId)
+  // Latest baseline goes out as the MS Project baseline
+  const { data: baselineTasks = [] } = useBaselineTasks(baselines[0]?.id)
+
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null)
+  const [importOpen, setImportOpen] = useState(false)
+  const [exportWarnings, setExportWarnings] = useState<string[] | null>(null)
+
+  const handleExport = () => {
+    setAnchorEl(null)
+    try {
+      const { xml, warnings } = buildMSProjectXML({
+        projectName: projectName || 'Projeto',
+        tasks,
+        dependencies,
+        calendar,
+        baselineTasks,
+      })
+
+      const blob = new Blob([xml], { type: 'application/xml' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${(projectName || 'Projeto').replace(/[^\w-]+/g, '_')}.xml`
+      link.click()
+      URL.revokeObjectURL(url)
+
+      if (warnings.length > 0) {
+        setExportWarnings(warnings)
+      } else {
+        toast.success('Cronograma exportado para o MS Project')
+      }
+    } catch (error) {
+      console.error('Error exporting MS Project XML:', error)
+      toast.error('Erro ao exportar para o MS Project')
+    }
+  }
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={<ImportExport />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+      >
+        MS Project
+      </Button>
+
+      <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={() => setAnchorEl(null)}>
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null)
+            setImportOpen(true)
+          }}
+        >
+          <ListItemIcon>
+            <Upload fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Importar XML" secondary="Tarefas, vínculos e linha de base" />
+        </MenuItem>
+        <MenuItem onClick={handleExport} disabled={tasks.length === 0}>
+          <ListItemIcon>
+            <Download fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Exportar XML" secondary="Abre no MS Project 2010 ou superior" />
+        </MenuItem>
+      </Menu>
+
+      <MSProjectImportDialog open={importOpen} onClose={() => setImportOpen(false)} projectId={projectId} />
+
+      <Dialog open={!!exportWarnings} onClose={() => setExportWarnings(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Cronograma exportado</DialogTitle>
+        <DialogContent dividers>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            O arquivo foi gerado. Alguns dados não têm equivalente no MS Project:
+          </Typography>
+          <MSProjectReportList items={exportWarnings || []} />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setExportWarnings(null)}>Fechar</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
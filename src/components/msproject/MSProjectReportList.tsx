@@ -0,0 +1,22 @@
+import { List, ListItem, ListItemIcon, ListItemText } from '@mui/material'
+import { InfoOutlined } from '@mui/icons-material'
+
+interface MSProjectReportListProps {
+  items: string[]
+}
+
+/** Items of an import/export report that had no mapping */
+export default function MSProjectReportList({ items }: MSProjectReportListProps) {
+  return (
+    <List dense disablePadding>
+      {items.map((item) => (
+        <ListItem key={item} disableGutters>
+          <ListItemIcon sx={{ minWidth: 28 }}>
+            <InfoOutlined sx={{ fontSize: 16, color: 'text.secondary' }} />
+          </ListItemIcon>
+          <ListItemText primary={item} primaryTypographyProps={{ variant: 'body2' }} />
+        </ListItem>
+      ))}
+    </List>
+  )
+}
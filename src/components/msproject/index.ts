@@ -0,0 +1,3 @@
+export { default as MSProjectMenu } from './MSProjectMenu'
+export { default as MSProjectImportDialog } from './MSProjectImportDialog'
+export { default as MSProjectReportList } from './MSProjectReportList'
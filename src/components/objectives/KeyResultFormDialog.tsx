@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { useSaveKeyResult } from '@/hooks/useObjectives'
+import { KEY_RESULT_MEASURE_LABELS } from '@/utils/okrProgress'
+import type { KeyResult, KeyResultMeasure } from '@/types'
+
+interface KeyResultFormDialogProps {
+  open: boolean
+  onClose: () => void
+  objectiveId: string
+  /** Key result being edited, null to create one */
+  keyResult: KeyResult | null
+  /** order_index given to a new key result */
+  nextOrder: number
+}
+
+const MEASURE_HELP: Record<KeyResultMeasure, string> = {
+  points: 'Progresso = story points concluídos / total dos itens vinculados (usa a contagem de itens enquanto não houver estimativas).',
+  items: 'Progresso = itens concluídos / total dos itens vinculados.',
+  manual: 'Progresso = (valor atual − inicial) / (meta − inicial), atualizado manualmente.',
+}
+
+const emptyForm = {
+  title: '',
+  measure: 'points' as KeyResultMeasure,
+  start_value: '0',
+  target_value: '100',
+  current_value: '0',
+  unit: '',
+}
+
+export default function KeyResultFormDialog({
+  open,
+  onClose,
+  objectiveId,
+  keyResult,
+  nextOrder,
+}: KeyResultFormDialogProps) {
+  const [form, setForm] = useState(emptyForm)
+  const saveKeyResult = useSaveKeyResult()
+
+  useEffect(() => {
+    if (!open) return
+    setForm(
+      keyResult
+        ? {
+            title: keyResult.title,
+            measure: keyResult.measure,
+            start_value: String(keyResult.start_value),
+            target_value: String(keyResult.target_value),
+            current_value: String(keyResult.current_value),
+            unit: keyResult.unit || '',
+          }
+        : emptyForm
+    )
+  }, [open, keyResult])
+
+  const handleSave = async () => {
+    await saveKeyResult.mutateAsync({
+      id: keyResult?.id,
+      objective_id: objectiveId,
+      title: form.title,
+      measure: form.measure,
+      start_value: Number(form.start_value),
+      target_value: Number(form.target_value),
+      current_value: Number(form.current_value),
+      unit: form.unit,
+      order_index: keyResult ? keyResult.order_index : nextOrder,
+    })
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ fontWeight: 700 }}>
+        {keyResult ? 'Editar Resultado-Chave' : 'Novo Resultado-Chave'}
+      </DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            label="Resultado-chave"
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            placeholder="Ex.: Entregar o novo portal de autoatendimento"
+            required
+            fullWidth
+            autoFocus
+          />
+          <Box>
+            <TextField
+              select
+              label="Medição"
+              value={form.measure}
+              onChange={(e) => setForm({ ...form, measure: e.target.value as KeyResultMeasure })}
+              fullWidth
+            >
+              {(Object.keys(KEY_RESULT_MEASURE_LABELS) as KeyResultMeasure[]).map((measure) => (
+                <MenuItem key={measure} value={measure}>
+                  {KEY_RESULT_MEASURE_LABELS[measure]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+              {MEASURE_HELP[form.measure]}
+            </Typography>
+          </Box>
+          {form.measure === 'manual' && (
+            <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 2 }}>
+              <TextField
+                label="Inicial"
+                type="number"
+                value={form.start_value}
+                onChange={(e) => setForm({ ...form, start_value: e.target.value })}
+              />
+              <TextField
+                label="Atual"
+                type="number"
+                value={form.current_value}
+                onChange={(e) => setForm({ ...form, current_value: e.target.value })}
+              />
+              <TextField
+                label="Meta"
+                type="number"
+                value={form.target_value}
+                onChange={(e) => setForm({ ...form, target_value: e.target.value })}
+              />
+              <TextField
+                label="Unidade"
+                value={form.unit}
+                onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                placeholder="%"
+              />
+            </Box>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!form.title.trim() || saveKeyResult.isPending}
+          sx={{ background: 'linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)' }}
+        >
+          {saveKeyResult.isPending ? 'Salvando...' : 'Salvar'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react'
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material'
+import { Delete, Folder, SubdirectoryArrowRight } from '@mui/icons-material'
+import {
+  useAddKeyResultLink,
+  useLinkableTasks,
+  useRemoveKeyResultLink,
+  type LinkableTask,
+} from '@/hooks/useObjectives'
+import type { KeyResultWithProgress } from '@/utils/okrProgress'
+
+interface LinkWorkDialogProps {
+  open: boolean
+  onClose: () => void
+  keyResult: KeyResultWithProgress | null
+  projects: { id: string; name: string; status: string }[]
+}
+
+const TASK_TYPE_LABELS: Record<string, string> = {
+  task: 'Tarefa',
+  milestone: 'Marco',
+  phase: 'Fase',
+  summary: 'Resumo',
+  epic: 'Épico',
+  feature: 'Funcionalidade',
+}
+
+/**
+ * Link whole projects or single work items (with everything below them)
+ * to a key result
+ */
+export default function LinkWorkDialog({ open, onClose, keyResult, projects }: LinkWorkDialogProps) {
+  const [projectId, setProjectId] = useState('')
+  const [scope, setScope] = useState<'project' | 'task'>('project')
+  const [selectedTask, setSelectedTask] = useState<LinkableTask | null>(null)
+
+  const { data: tasks = [], isLoading: loadingTasks } = useLinkableTasks(
+    scope === 'task' && projectId ? projectId : undefined
+  )
+  const addLink = useAddKeyResultLink()
+  const removeLink = useRemoveKeyResultLink()
+
+  useEffect(() => {
+    if (open) {
+      setProjectId('')
+      setScope('project')
+      setSelectedTask(null)
+    }
+  }, [open])
+
+  const links = keyResult?.links || []
+  const linkedTaskIds = new Set(links.map((l) => l.task_id).filter(Boolean))
+  const projectLinked = links.some((l) => l.project_id === projectId)
+
+  const handleAdd = async () => {
+    if (!keyResult || !projectId) return
+    await addLink.mutateAsync(
+      scope === 'task' && selectedTask
+        ? { keyResultId: keyResult.id, taskId: selectedTask.id }
+        : { keyResultId: keyResult.id, projectId }
+    )
+    setSelectedTask(null)
+  }
+
+  const canAdd =
+    !!projectId && (scope === 'project' ? !projectLinked : !!selectedTask) && !addLink.isPending
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        <Typography variant="h6" component="span" fontWeight={700}>
+          Trabalho vinculado
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {keyResult?.title}
+        </Typography>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        <Box sx={{ mb: 3, p: 2, bgcolor: 'rgba(99, 102, 241, 0.04)', borderRadius: 2 }}>
+          <TextField
+            select
+            size="small"
+            label="Projeto"
+            value={projectId}
+            onChange={(e) => {
+              setProjectId(e.target.value)
+              setSelectedTask(null)
+            }}
+            fullWidth
+            sx={{ mb: 2 }}
+          >
+            {projects.map((project) => (
+              <MenuItem key={project.id} value={project.id}>
+                {project.name}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <ToggleButtonGroup
+            value={scope}
+            exclusive
+            size="small"
+            fullWidth
+            onChange={(_, value) => value && setScope(value)}
+            sx={{ mb: 2 }}
+          >
+            <ToggleButton value="project">Projeto inteiro</ToggleButton>
+            <ToggleButton value="task">Item específico</ToggleButton>
+          </ToggleButtonGroup>
+
+          {scope === 'task' && (
+            <Autocomplete
+              options={tasks.filter((t) => !linkedTaskIds.has(t.id))}
+              loading={loadingTasks}
+              disabled={!projectId}
+              getOptionLabel={(option) => option.title}
+              value={selectedTask}
+              onChange={(_, value) => setSelectedTask(value)}
+              renderInput={(params) => (
+                <TextField {...params} size="small" label="Item" placeholder="Buscar épico, história ou tarefa..." />
+              )}
+              renderOption={(props, option) => (
+                <li {...props} key={option.id}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, width: '100%' }}>
+                    <Typography variant="body2" sx={{ flex: 1 }} noWrap>
+                      {option.title}
+                    </Typography>
+                    {option.task_type && option.task_type !== 'task' && (
+                      <Chip size="small" label={TASK_TYPE_LABELS[option.task_type] || option.task_type} />
+                    )}
+                    {!!option.story_points && (
+                      <Typography variant="caption" color="text.secondary">
+                        {option.story_points} pts
+                      </Typography>
+                    )}
+                  </Box>
+                </li>
+              )}
+              sx={{ mb: 2 }}
+            />
+          )}
+
+          <Button
+            variant="contained"
+            fullWidth
+            onClick={handleAdd}
+            disabled={!canAdd}
+            sx={{ background: 'linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)' }}
+          >
+            {scope === 'project' && projectLinked ? 'Projeto já vinculado' : 'Vincular'}
+          </Button>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            Um item vinculado conta com tudo o que está abaixo dele (histórias de um épico, tarefas de uma fase).
+          </Typography>
+        </Box>
+
+        <Typography variant="subtitle2" fontWeight={600} gutterBottom>
+          Vínculos ({links.length})
+        </Typography>
+        {links.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Nenhum trabalho vinculado. O progresso deste resultado-chave fica em 0%.
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+            {links.map((link) => (
+              <Box
+                key={link.id}
+                sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1, borderRadius: 1.5, bgcolor: 'action.hover' }}
+              >
+                {link.project_id ? (
+                  <Folder sx={{ fontSize: 18, color: '#6366f1' }} />
+                ) : (
+                  <SubdirectoryArrowRight sx={{ fontSize: 18, color: '#8b5cf6' }} />
+                )}
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body2" fontWeight={600} noWrap>
+                    {link.project?.name || link.task?.title || 'Item removido'}
+                  </Typography>
+                  {link.task && (
+                    <Typography variant="caption" color="text.secondary">
+                      {projects.find((p) => p.id === link.task?.project_id)?.name || 'Sem projeto'}
+                    </Typography>
+                  )}
+                </Box>
+                <IconButton
+                  size="small"
+                  onClick={() => removeLink.mutate(link.id)}
+                  disabled={removeLink.isPending}
+                >
+                  <Delete fontSize="small" />
+                </IconButton>
+              </Box>
+            ))}
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose}>Fechar</Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,226 @@
+import {
+  Avatar,
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  LinearProgress,
+  Paper,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import { Add, Delete, Edit, Flag, Link as LinkIcon, TrendingDown } from '@mui/icons-material'
+import { parseDateKey } from '@/utils/gantt/workingCalendar'
+import {
+  KEY_RESULT_MEASURE_LABELS,
+  OBJECTIVE_STATUS_CONFIG,
+  type KeyResultWithProgress,
+  type ObjectiveWithProgress,
+} from '@/utils/okrProgress'
+
+interface ObjectiveCardProps {
+  objective: ObjectiveWithProgress
+  onEdit: () => void
+  onDelete: () => void
+  onAddKeyResult: () => void
+  onEditKeyResult: (keyResult: KeyResultWithProgress) => void
+  onDeleteKeyResult: (keyResult: KeyResultWithProgress) => void
+  onLinkWork: (keyResult: KeyResultWithProgress) => void
+  onOpenProject: (projectId: string) => void
+}
+
+const formatDate = (value: string) =>
+  parseDateKey(value.split('T')[0]).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short', year: 'numeric' })
+
+const formatNumber = (value: number) => value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })
+
+const progressColor = (progress: number) => (progress >= 0.7 ? '#10b981' : progress >= 0.4 ? '#f59e0b' : '#6366f1')
+
+/**
+ * Objective with its key results, their progress and the linked work
+ */
+export default function ObjectiveCard({
+  objective,
+  onEdit,
+  onDelete,
+  onAddKeyResult,
+  onEditKeyResult,
+  onDeleteKeyResult,
+  onLinkWork,
+  onOpenProject,
+}: ObjectiveCardProps) {
+  const status = OBJECTIVE_STATUS_CONFIG[objective.status]
+  const progress = objective.progress ?? 0
+
+  return (
+    <Paper elevation={0} sx={{ p: 3, borderRadius: 3, border: '2px solid rgba(99, 102, 241, 0.1)' }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2, mb: 2 }}>
+        <Flag sx={{ color: status.color, mt: 0.5 }} />
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <Typography variant="h6" fontWeight={700}>
+              {objective.title}
+            </Typography>
+            <Chip
+              size="small"
+              label={status.label}
+              sx={{ bgcolor: `${status.color}1a`, color: status.color, fontWeight: 700 }}
+            />
+            {objective.behind && (
+              <Chip
+                size="small"
+                icon={<TrendingDown sx={{ fontSize: 16 }} />}
+                label="Abaixo do esperado"
+                sx={{ bgcolor: 'rgba(245, 158, 11, 0.12)', color: '#f59e0b', fontWeight: 700 }}
+              />
+            )}
+          </Box>
+          {objective.description && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+              {objective.description}
+            </Typography>
+          )}
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mt: 1, flexWrap: 'wrap' }}>
+            {objective.owner && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+                <Avatar src={objective.owner.avatar_url || undefined} sx={{ width: 22, height: 22, fontSize: 11 }}>
+                  {objective.owner.full_name.charAt(0)}
+                </Avatar>
+                <Typography variant="caption" fontWeight={600}>
+                  {objective.owner.full_name}
+                </Typography>
+              </Box>
+            )}
+            {(objective.start_date || objective.end_date) && (
+              <Typography variant="caption" color="text.secondary">
+                {objective.start_date ? formatDate(objective.start_date) : '…'} –{' '}
+                {objective.end_date ? formatDate(objective.end_date) : '…'}
+              </Typography>
+            )}
+          </Box>
+        </Box>
+        <IconButton size="small" onClick={onEdit}>
+          <Edit fontSize="small" />
+        </IconButton>
+        <IconButton size="small" onClick={onDelete}>
+          <Delete fontSize="small" />
+        </IconButton>
+      </Box>
+
+      {/* Objective progress (average of the key results) */}
+      {objective.progress !== null && (
+        <Box sx={{ mb: 2 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+            <Typography variant="caption" color="text.secondary" fontWeight={600}>
+              Progresso do objetivo
+            </Typography>
+            <Typography variant="caption" fontWeight={700}>
+              {Math.round(progress * 100)}%
+              {objective.expectedProgress !== null && objective.status === 'active' && (
+                <Typography component="span" variant="caption" color="text.secondary">
+                  {' '}
+                  · esperado {Math.round(objective.expectedProgress * 100)}%
+                </Typography>
+              )}
+            </Typography>
+          </Box>
+          <Box sx={{ position: 'relative' }}>
+            <LinearProgress
+              variant="determinate"
+              value={progress * 100}
+              sx={{
+                height: 10,
+                borderRadius: 5,
+                bgcolor: 'rgba(99, 102, 241, 0.1)',
+                '& .MuiLinearProgress-bar': { borderRadius: 5, bgcolor: progressColor(progress) },
+              }}
+            />
+            {objective.expectedProgress !== null && objective.status === 'active' && (
+              <Tooltip title="Progresso esperado pelo tempo decorrido">
+                <Box
+                  sx={{
+                    position: 'absolute',
+                    top: -3,
+                    bottom: -3,
+                    left: `${objective.expectedProgress * 100}%`,
+                    width: 2,
+                    bgcolor: 'text.primary',
+                    opacity: 0.5,
+                  }}
+                />
+              </Tooltip>
+            )}
+          </Box>
+        </Box>
+      )}
+
+      {/* Key results */}
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+        {objective.keyResults.map((kr) => (
+          <Box key={kr.id} sx={{ p: 1.5, borderRadius: 2, bgcolor: 'rgba(99, 102, 241, 0.04)' }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography variant="body2" fontWeight={600}>
+                  {kr.title}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {KEY_RESULT_MEASURE_LABELS[kr.measure]} · {formatNumber(kr.result.current)} /{' '}
+                  {formatNumber(kr.result.target)} {kr.result.unit}
+                </Typography>
+              </Box>
+              <Typography variant="body2" fontWeight={800} sx={{ color: progressColor(kr.result.progress) }}>
+                {Math.round(kr.result.progress * 100)}%
+              </Typography>
+              {kr.measure !== 'manual' && (
+                <Tooltip title="Vincular trabalho">
+                  <IconButton size="small" onClick={() => onLinkWork(kr)}>
+                    <LinkIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              )}
+              <IconButton size="small" onClick={() => onEditKeyResult(kr)}>
+                <Edit fontSize="small" />
+              </IconButton>
+              <IconButton size="small" onClick={() => onDeleteKeyResult(kr)}>
+                <Delete fontSize="small" />
+              </IconButton>
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              value={kr.result.progress * 100}
+              sx={{
+                mt: 1,
+                height: 6,
+                borderRadius: 3,
+                bgcolor: 'rgba(99, 102, 241, 0.1)',
+                '& .MuiLinearProgress-bar': { borderRadius: 3, bgcolor: progressColor(kr.result.progress) },
+              }}
+            />
+            {kr.links.length > 0 && (
+              <Box sx={{ display: 'flex', gap: 0.5, mt: 1, flexWrap: 'wrap' }}>
+                {kr.links.map((link) => {
+                  const projectId = link.project_id || link.task?.project_id
+                  return (
+                    <Chip
+                      key={link.id}
+                      size="small"
+                      variant="outlined"
+                      label={link.project?.name || link.task?.title || 'Item removido'}
+                      onClick={projectId ? () => onOpenProject(projectId) : undefined}
+                      sx={{ maxWidth: 240 }}
+                    />
+                  )
+                })}
+              </Box>
+            )}
+          </Box>
+        ))}
+      </Box>
+
+      <Button size="small" startIcon={<Add />} onClick={onAddKeyResult} sx={{ mt: 1.5 }}>
+        Resultado-chave
+      </Button>
+    </Paper>
+  )
+}
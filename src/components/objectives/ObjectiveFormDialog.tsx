@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+} from '@mui/material'
+import { useSaveObjective } from '@/hooks/useObjectives'
+import { OBJECTIVE_STATUS_CONFIG } from '@/utils/okrProgress'
+import type { ObjectiveStatus, StrategicObjective } from '@/types'
+
+interface ObjectiveFormDialogProps {
+  open: boolean
+  onClose: () => void
+  /** Objective being edited, null to create one */
+  objective: StrategicObjective | null
+  profiles: { id: string; full_name: string }[]
+}
+
+const emptyForm = {
+  title: '',
+  description: '',
+  owner_id: '',
+  start_date: '',
+  end_date: '',
+  status: 'active' as ObjectiveStatus,
+}
+
+export default function ObjectiveFormDialog({ open, onClose, objective, profiles }: ObjectiveFormDialogProps) {
+  const [form, setForm] = useState(emptyForm)
+  const saveObjective = useSaveObjective()
+
+  useEffect(() => {
+    if (!open) return
+    setForm(
+      objective
+        ? {
+            title: objective.title,
+            description: objective.description || '',
+            owner_id: objective.owner_id || '',
+            start_date: objective.start_date || '',
+            end_date: objective.end_date || '',
+            status: objective.status,
+          }
+        : emptyForm
+    )
+  }, [open, objective])
+
+  const invalidPeriod = !!form.start_date && !!form.end_date && form.end_date < form.start_date
+
+  const handleSave = async () => {
+    await saveObjective.mutateAsync({
+      id: objective?.id,
+      title: form.title,
+      description: form.description,
+      owner_id: form.owner_id || null,
+      start_date: form.start_date || null,
+      end_date: form.end_date || null,
+      status: form.status,
+    })
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ fontWeight: 700 }}>{objective ? 'Editar Objetivo' : 'Novo Objetivo'}</DialogTitle>
+      <DialogContent dividers>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            label="Objetivo"
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            placeholder="Ex.: Reduzir o tempo de atendimento ao cliente"
+            required
+            fullWidth
+            autoFocus
+          />
+          <TextField
+            label="Descrição"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            multiline
+            minRows={2}
+            fullWidth
+          />
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+            <TextField
+              select
+              label="Responsável"
+              value={form.owner_id}
+              onChange={(e) => setForm({ ...form, owner_id: e.target.value })}
+            >
+              <MenuItem value="">Sem responsável</MenuItem>
+              {profiles.map((profile) => (
+                <MenuItem key={profile.id} value={profile.id}>
+                  {profile.full_name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Status"
+              value={form.status}
+              onChange={(e) => setForm({ ...form, status: e.target.value as ObjectiveStatus })}
+            >
+              {(Object.keys(OBJECTIVE_STATUS_CONFIG) as ObjectiveStatus[]).map((status) => (
+                <MenuItem key={status} value={status}>
+                  {OBJECTIVE_STATUS_CONFIG[status].label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Início"
+              type="date"
+              value={form.start_date}
+              onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Fim"
+              type="date"
+              value={form.end_date}
+              onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+              error={invalidPeriod}
+              helperText={invalidPeriod ? 'O fim deve ser depois do início' : undefined}
+            />
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={!form.title.trim() || invalidPeriod || saveObjective.isPending}
+          sx={{ background: 'linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)' }}
+        >
+          {saveObjective.isPending ? 'Salvando...' : 'Salvar'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,87 @@
+import { useNavigate } from 'react-router-dom'
+import { Box, Button, Chip, CircularProgress, LinearProgress, Paper, Typography } from '@mui/material'
+import { Flag, OpenInNew } from '@mui/icons-material'
+import { useObjectives } from '@/hooks/useObjectives'
+import { OBJECTIVE_STATUS_CONFIG } from '@/utils/okrProgress'
+
+interface ProjectObjectivesPanelProps {
+  projectId: string
+}
+
+/**
+ * Strategic objectives and key results a project contributes to, directly
+ * or through its linked work items
+ */
+export default function ProjectObjectivesPanel({ projectId }: ProjectObjectivesPanelProps) {
+  const navigate = useNavigate()
+  const { data: objectives = [], isLoading } = useObjectives()
+
+  const contributions = objectives
+    .filter((objective) => objective.projectIds.includes(projectId))
+    .map((objective) => ({
+      objective,
+      keyResults: objective.keyResults.filter((kr) =>
+        kr.links.some((link) => link.project_id === projectId || link.task?.project_id === projectId)
+      ),
+    }))
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <Flag sx={{ color: '#6366f1' }} />
+        <Typography variant="h6" fontWeight={700} sx={{ flex: 1 }}>
+          Objetivos Estratégicos
+        </Typography>
+        <Button size="small" endIcon={<OpenInNew fontSize="small" />} onClick={() => navigate('/objectives')}>
+          Ver OKRs
+        </Button>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size={28} />
+        </Box>
+      ) : contributions.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Este projeto ainda não está vinculado a nenhum resultado-chave.
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {contributions.map(({ objective, keyResults }) => (
+            <Box key={objective.id}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Typography variant="subtitle2" fontWeight={700} sx={{ flex: 1 }}>
+                  {objective.title}
+                </Typography>
+                <Chip
+                  size="small"
+                  label={OBJECTIVE_STATUS_CONFIG[objective.status].label}
+                  sx={{
+                    bgcolor: `${OBJECTIVE_STATUS_CONFIG[objective.status].color}1a`,
+                    color: OBJECTIVE_STATUS_CONFIG[objective.status].color,
+                    fontWeight: 700,
+                  }}
+                />
+              </Box>
+              {keyResults.map((kr) => (
+                <Box key={kr.id} sx={{ display: 'flex', alignItems: 'center', gap: 2, pl: 1, mb: 0.75 }}>
+                  <Typography variant="body2" color="text.secondary" sx={{ flex: 1, minWidth: 0 }} noWrap>
+                    {kr.title}
+                  </Typography>
+                  <LinearProgress
+                    variant="determinate"
+                    value={kr.result.progress * 100}
+                    sx={{ width: 120, height: 6, borderRadius: 3 }}
+                  />
+                  <Typography variant="caption" fontWeight={700} sx={{ width: 36, textAlign: 'right' }}>
+                    {Math.round(kr.result.progress * 100)}%
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Paper>
+  )
+}
@@ -0,0 +1,5 @@
+export { default as ObjectiveCard } from './ObjectiveCard'
+export { default as ObjectiveFormDialog } from './ObjectiveFormDialog'
+export { default as KeyResultFormDialog } from './KeyResultFormDialog'
+export { default as LinkWorkDialog } from './LinkWorkDialog'
+export { default as ProjectObjectivesPanel } from './ProjectObjectivesPanel'
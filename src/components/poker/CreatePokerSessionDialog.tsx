@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material'
+import { supabase } from '@/lib/supabase'
+import { useCreatePlanningPokerSession } from '@/hooks/usePlanningPoker'
+import { POKER_DECKS } from '@/utils/planningPoker'
+import type { PlanningPokerDeck, PlanningPokerSession } from '@/types'
+
+interface CreatePokerSessionDialogProps {
+  open: boolean
+  projectId: string
+  onClose: () => void
+  onCreated: (session: PlanningPokerSession) => void
+}
+
+// Scope value of a backlog refinement session
+const BACKLOG_SCOPE = 'backlog'
+
+/**
+ * Opens a planning poker session for one of the project's open sprints or
+ * for a refinement of the backlog
+ */
+export default function CreatePokerSessionDialog({ open, projectId, onClose, onCreated }: CreatePokerSessionDialogProps) {
+  const createSession = useCreatePlanningPokerSession()
+  const [sprints, setSprints] = useState<Array<{ id: string; name: string }>>([])
+  const [scope, setScope] = useState(BACKLOG_SCOPE)
+  const [name, setName] = useState('')
+  const [deck, setDeck] = useState<PlanningPokerDeck>('fibonacci')
+
+  useEffect(() => {
+    if (!open) return
+    setScope(BACKLOG_SCOPE)
+    setName(`Refinamento ${new Date().toLocaleDateString('pt-BR')}`)
+    setDeck('fibonacci')
+
+    supabase
+      .from('sprints')
+      .select('id, name')
+      .eq('project_id', projectId)
+      .in('status', ['planning', 'active'])
+      .order('start_date', { ascending: true })
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching sprints:', error)
+        setSprints(data || [])
+      })
+  }, [open, projectId])
+
+  const handleScopeChange = (value: string) => {
+    setScope(value)
+    const sprint = sprints.find((s) => s.id === value)
+    setName(sprint ? `Planning poker - ${sprint.name}` : `Refinamento ${new Date().toLocaleDateString('pt-BR')}`)
+  }
+
+  const handleCreate = () => {
+    createSession.mutate(
+      { projectId, sprintId: scope === BACKLOG_SCOPE ? null : scope, name, deck },
+      {
+        onSuccess: (session) => {
+          onCreated(session)
+          onClose()
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Nova sessão de planning poker</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2.5} sx={{ mt: 1 }}>
+          <TextField
+            select
+            fullWidth
+            size="small"
+            label="Histórias de"
+            value={scope}
+            onChange={(e) => handleScopeChange(e.target.value)}
+          >
+            <MenuItem value={BACKLOG_SCOPE}>Refinamento do backlog</MenuItem>
+            {sprints.map((sprint) => (
+              <MenuItem key={sprint.id} value={sprint.id}>
+                {sprint.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField fullWidth size="small" label="Nome" value={name} onChange={(e) => setName(e.target.value)} />
+          <Box>
+            <Typography variant="caption" color="text.secondary" fontWeight={600} sx={{ display: 'block', mb: 1 }}>
+              Baralho
+            </Typography>
+            <ToggleButtonGroup
+              value={deck}
+              exclusive
+              size="small"
+              fullWidth
+              onChange={(_, value: PlanningPokerDeck | null) => value && setDeck(value)}
+            >
+              {(Object.keys(POKER_DECKS) as PlanningPokerDeck[]).map((key) => (
+                <ToggleButton key={key} value={key}>
+                  {POKER_DECKS[key].label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              {POKER_DECKS[deck].cards.map((card) => card.value).join(' · ')}
+            </Typography>
+          </Box>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button variant="contained" disabled={!name.trim() || createSession.isPending} onClick={handleCreate}>
+          Criar sessão
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
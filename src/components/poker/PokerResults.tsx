@@ -0,0 +1,97 @@
+import { Box, Chip, Stack, Tooltip, Typography } from '@mui/material'
+import { CheckCircle, CallSplit, RecordVoiceOver } from '@mui/icons-material'
+import type { PlanningPokerDeck, PlanningPokerVote } from '@/types'
+import { summarizeVotes } from '@/utils/planningPoker'
+
+interface PokerResultsProps {
+  deck: PlanningPokerDeck
+  /** Revealed cards of the round */
+  votes: PlanningPokerVote[]
+}
+
+/**
+ * Revealed round: cards per value, spread between the smallest and the
+ * largest card, and who voted far from the rest
+ */
+export default function PokerResults({ deck, votes }: PokerResultsProps) {
+  const summary = summarizeVotes(deck, votes)
+  const maxCount = Math.max(1, ...summary.distribution.map((entry) => entry.count))
+  const outliers = votes.filter((vote) => summary.outlierUserIds.includes(vote.user_id))
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap', gap: 1 }}>
+        {summary.consensus ? (
+          <Chip icon={<CheckCircle sx={{ fontSize: 16 }} />} label="Consenso!" color="success" size="small" sx={{ fontWeight: 700 }} />
+        ) : (
+          summary.min &&
+          summary.max && (
+            <Tooltip title="Cartas do baralho entre o menor e o maior voto">
+              <Chip
+                icon={<CallSplit sx={{ fontSize: 16 }} />}
+                label={`Dispersão: ${summary.min} a ${summary.max} (${summary.spread} ${summary.spread === 1 ? 'carta' : 'cartas'})`}
+                size="small"
+                color={summary.spread >= 3 ? 'warning' : 'default'}
+                sx={{ fontWeight: 600 }}
+              />
+            </Tooltip>
+          )
+        )}
+        {summary.mostVoted && <Chip label={`Mais votado: ${summary.mostVoted}`} size="small" variant="outlined" />}
+        {summary.suggested && <Chip label={`Mediana: ${summary.suggested}`} size="small" variant="outlined" />}
+      </Stack>
+
+      <Stack spacing={1}>
+        {summary.distribution.map((entry) => (
+          <Box key={entry.value} sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+            <Typography variant="body2" fontWeight={700} sx={{ width: 40, textAlign: 'right' }}>
+              {entry.value}
+            </Typography>
+            <Box sx={{ flex: 1, height: 20, borderRadius: 1, bgcolor: 'rgba(99, 102, 241, 0.08)' }}>
+              <Box
+                sx={{
+                  width: `${(entry.count / maxCount) * 100}%`,
+                  height: '100%',
+                  borderRadius: 1,
+                  bgcolor: entry.value === summary.suggested ? '#6366f1' : 'rgba(99, 102, 241, 0.45)',
+                }}
+              />
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ width: 90 }}>
+              {entry.count} {entry.count === 1 ? 'voto' : 'votos'}
+            </Typography>
+          </Box>
+        ))}
+      </Stack>
+
+      {outliers.length > 0 && (
+        <Box
+          sx={{
+            mt: 2,
+            p: 1.5,
+            borderRadius: 2,
+            bgcolor: 'rgba(245, 158, 11, 0.08)',
+            border: '1px solid rgba(245, 158, 11, 0.3)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: 1,
+            flexWrap: 'wrap',
+          }}
+        >
+          <RecordVoiceOver sx={{ fontSize: 18, color: '#f59e0b' }} />
+          <Typography variant="body2" fontWeight={600}>
+            Ouça quem votou longe do grupo:
+          </Typography>
+          {outliers.map((vote) => (
+            <Chip
+              key={vote.id}
+              label={`${vote.user?.full_name || 'Participante'}: ${vote.value}`}
+              size="small"
+              sx={{ bgcolor: 'rgba(245, 158, 11, 0.15)', color: '#b45309', fontWeight: 600 }}
+            />
+          ))}
+        </Box>
+      )}
+    </Box>
+  )
+}
@@ -0,0 +1,370 @@
+import { useEffect, useState } from 'react'
+import {
+  Avatar,
+  Badge,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Grid,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Paper,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import {
+  CheckCircle,
+  Lock,
+  RecordVoiceOver,
+  Replay,
+  Style,
+  Visibility,
+  Done,
+  SkipNext,
+} from '@mui/icons-material'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  usePlanningPokerEstimates,
+  usePlanningPokerStories,
+  usePlanningPokerVotes,
+  usePlayPokerCard,
+  useRecordPokerEstimate,
+  useClaimPokerFacilitation,
+  useUpdatePlanningPokerSession,
+  type PokerStory,
+} from '@/hooks/usePlanningPoker'
+import { usePlanningPokerRealtime } from '@/hooks/usePlanningPokerRealtime'
+import type { PlanningPokerSession } from '@/types'
+import { POKER_DECKS, getCardPoints, getSizedCards, summarizeVotes } from '@/utils/planningPoker'
+import PokerResults from './PokerResults'
+import PokerSessionLog from './PokerSessionLog'
+
+interface PokerRoomProps {
+  session: PlanningPokerSession
+}
+
+/**
+ * Live planning poker room. Everyone plays a hidden card for the story
+ * picked by the facilitator; the cards are revealed together and the
+ * agreed value is written to the story points of the task.
+ */
+export default function PokerRoom({ session }: PokerRoomProps) {
+  const { user } = useAuth()
+  const { data: stories = [], isLoading: storiesLoading } = usePlanningPokerStories(session)
+  const { data: votes = [] } = usePlanningPokerVotes(session.id)
+  const { data: estimates = [] } = usePlanningPokerEstimates(session.id)
+  const updateSession = useUpdatePlanningPokerSession()
+  const playCard = usePlayPokerCard()
+  const recordEstimate = useRecordPokerEstimate()
+  const claimFacilitation = useClaimPokerFacilitation()
+
+  const isFacilitator = session.facilitator_id === user?.id
+  const isActive = session.status === 'active'
+  const currentStory = stories.find((story) => story.id === session.current_task_id)
+
+  const roundVotes = votes.filter(
+    (vote) => vote.task_id === session.current_task_id && vote.round === session.round
+  )
+  const myVote = roundVotes.find((vote) => vote.user_id === user?.id)
+  const { participants } = usePlanningPokerRealtime(session.id, !!myVote)
+
+  const summary = summarizeVotes(session.deck, roundVotes)
+  const estimatedIds = new Set(estimates.map((estimate) => estimate.task_id))
+  const facilitatorName = participants.find((p) => p.id === session.facilitator_id)?.full_name
+
+  // Value the facilitator is about to record; starts at the median of the round
+  const [agreedValue, setAgreedValue] = useState('')
+  useEffect(() => {
+    setAgreedValue(session.revealed ? summary.suggested || '' : '')
+  }, [session.revealed, session.current_task_id, session.round, summary.suggested])
+
+  const startStory = (story: PokerStory | null) => {
+    // Returning to a story continues after its previous rounds so the log keeps them apart
+    const lastRound = story
+      ? Math.max(0, ...votes.filter((vote) => vote.task_id === story.id).map((vote) => vote.round))
+      : 0
+    updateSession.mutate({
+      session,
+      changes: { current_task_id: story?.id ?? null, round: lastRound + 1, revealed: false },
+    })
+  }
+
+  const selectStory = (story: PokerStory) => {
+    if (!isFacilitator || !isActive || story.id === session.current_task_id) return
+    startStory(story)
+  }
+
+  // Next story without an estimate, after the current one in the list
+  const goToNextStory = () => {
+    const currentIndex = stories.findIndex((story) => story.id === session.current_task_id)
+    const pending = stories.filter((story) => !estimatedIds.has(story.id) && story.id !== session.current_task_id)
+    startStory(pending.find((story) => stories.indexOf(story) > currentIndex) || pending[0] || null)
+  }
+
+  const handleRecord = () => {
+    recordEstimate.mutate(
+      { sessionId: session.id, value: agreedValue, storyPoints: getCardPoints(session.deck, agreedValue) },
+      { onSuccess: goToNextStory }
+    )
+  }
+
+  const handleClose = () => {
+    if (window.confirm('Encerrar a sessão? Ninguém poderá votar depois disso.')) {
+      updateSession.mutate({
+        session,
+        changes: { status: 'closed', revealed: true, closed_at: new Date().toISOString() },
+      })
+    }
+  }
+
+  const handlePlay = (value: string) => {
+    if (!isActive || session.revealed || !currentStory) return
+    playCard.mutate({ session, value: myVote?.value === value ? null : value })
+  }
+
+  // Before the reveal presence says who voted; afterwards the cards say it
+  const voters = session.revealed
+    ? roundVotes.map((vote) => ({ id: vote.user_id, full_name: vote.user?.full_name || 'Participante', card: vote.value }))
+    : participants.map((p) => ({ id: p.id, full_name: p.full_name, card: p.voted ? '✓' : null }))
+  const votedCount = session.revealed ? roundVotes.length : participants.filter((p) => p.voted).length
+
+  return (
+    <Box>
+      <Paper elevation={0} sx={{ p: 2, mb: 3, borderRadius: 3, border: '2px solid rgba(99, 102, 241, 0.2)' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, flexWrap: 'wrap' }}>
+          <Box>
+            <Typography variant="h6" fontWeight={700}>
+              {session.name}
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 1, mt: 0.5, flexWrap: 'wrap' }}>
+              <Chip label={session.sprint?.name || 'Refinamento do backlog'} size="small" variant="outlined" />
+              <Chip icon={<Style sx={{ fontSize: 16 }} />} label={POKER_DECKS[session.deck].label} size="small" variant="outlined" />
+              {!isActive && <Chip icon={<Lock sx={{ fontSize: 16 }} />} label="Encerrada" size="small" />}
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, flexWrap: 'wrap' }}>
+            <Chip
+              icon={<RecordVoiceOver sx={{ fontSize: 16 }} />}
+              label={`Facilitação: ${isFacilitator ? 'você' : facilitatorName || 'ninguém na sala'}`}
+              size="small"
+              sx={{ fontWeight: 600 }}
+            />
+            {isActive && !isFacilitator && (
+              <Button size="small" onClick={() => claimFacilitation.mutate(session.id)}>
+                Assumir facilitação
+              </Button>
+            )}
+            {isActive && isFacilitator && (
+              <Button size="small" color="error" onClick={handleClose}>
+                Encerrar sessão
+              </Button>
+            )}
+          </Box>
+        </Box>
+      </Paper>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={4}>
+          <Paper elevation={0} sx={{ borderRadius: 3, border: '2px solid rgba(99, 102, 241, 0.1)', overflow: 'hidden' }}>
+            <Box sx={{ p: 2, pb: 1 }}>
+              <Typography variant="subtitle1" fontWeight={700}>
+                Histórias ({estimatedIds.size}/{stories.length} estimadas)
+              </Typography>
+              {isFacilitator && isActive && (
+                <Typography variant="caption" color="text.secondary">
+                  Clique em uma história para estimá-la
+                </Typography>
+              )}
+            </Box>
+            {storiesLoading ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                <CircularProgress size={24} />
+              </Box>
+            ) : stories.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ p: 2, textAlign: 'center' }}>
+                Nenhuma história a estimar
+              </Typography>
+            ) : (
+              <List dense sx={{ maxHeight: 480, overflowY: 'auto' }}>
+                {stories.map((story) => (
+                  <ListItemButton
+                    key={story.id}
+                    selected={story.id === session.current_task_id}
+                    disabled={!isFacilitator && story.id !== session.current_task_id}
+                    onClick={() => selectStory(story)}
+                    sx={{ '&.Mui-disabled': { opacity: 1 } }}
+                  >
+                    <ListItemText
+                      primary={story.title}
+                      primaryTypographyProps={{ variant: 'body2', fontWeight: story.id === session.current_task_id ? 700 : 500 }}
+                    />
+                    {estimatedIds.has(story.id) && <CheckCircle sx={{ fontSize: 16, color: '#10b981', mr: 1 }} />}
+                    <Chip
+                      label={story.story_points ?? '-'}
+                      size="small"
+                      sx={{ minWidth: 32, fontWeight: 700, bgcolor: 'rgba(99, 102, 241, 0.1)', color: '#6366f1' }}
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            )}
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={8}>
+          <Paper elevation={0} sx={{ p: 3, mb: 3, borderRadius: 3, border: '2px solid rgba(99, 102, 241, 0.1)' }}>
+            {!currentStory ? (
+              <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+                {!isActive
+                  ? 'Sessão encerrada'
+                  : isFacilitator
+                    ? 'Escolha uma história para começar a votação'
+                    : 'Aguardando a facilitação escolher uma história'}
+              </Typography>
+            ) : (
+              <>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, mb: 1 }}>
+                  <Typography variant="h6" fontWeight={700}>
+                    {currentStory.title}
+                  </Typography>
+                  <Chip label={`Rodada ${session.round}`} size="small" sx={{ fontWeight: 600 }} />
+                </Box>
+                {currentStory.description && (
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 2, whiteSpace: 'pre-wrap' }}>
+                    {currentStory.description}
+                  </Typography>
+                )}
+
+                <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap', my: 2 }}>
+                  {voters.map((voter) => (
+                    <Tooltip key={voter.id} title={voter.full_name}>
+                      <Badge
+                        overlap="circular"
+                        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+                        badgeContent={voter.card}
+                        color={session.revealed ? 'primary' : 'success'}
+                        invisible={!voter.card}
+                      >
+                        <Avatar sx={{ width: 36, height: 36, bgcolor: voter.card ? '#6366f1' : 'grey.400' }}>
+                          {voter.full_name.charAt(0).toUpperCase()}
+                        </Avatar>
+                      </Badge>
+                    </Tooltip>
+                  ))}
+                  <Typography variant="caption" color="text.secondary" sx={{ alignSelf: 'center' }}>
+                    {votedCount} {votedCount === 1 ? 'voto' : 'votos'}
+                    {!session.revealed && ` de ${participants.length} na sala`}
+                  </Typography>
+                </Box>
+
+                {session.revealed ? (
+                  roundVotes.length > 0 ? (
+                    <PokerResults deck={session.deck} votes={roundVotes} />
+                  ) : (
+                    <Typography variant="body2" color="text.secondary">
+                      Ninguém votou nesta rodada
+                    </Typography>
+                  )
+                ) : (
+                  isActive && (
+                    <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                      {POKER_DECKS[session.deck].cards.map((card) => {
+                        const selected = myVote?.value === card.value
+                        return (
+                          <Paper
+                            key={card.value}
+                            elevation={selected ? 6 : 0}
+                            onClick={() => handlePlay(card.value)}
+                            sx={{
+                              width: 56,
+                              height: 80,
+                              display: 'flex',
+                              alignItems: 'center',
+                              justifyContent: 'center',
+                              borderRadius: 2,
+                              cursor: 'pointer',
+                              fontWeight: 700,
+                              fontSize: '1.25rem',
+                              border: '2px solid',
+                              borderColor: selected ? '#6366f1' : 'rgba(99, 102, 241, 0.2)',
+                              bgcolor: selected ? '#6366f1' : 'white',
+                              color: selected ? 'white' : '#6366f1',
+                              transform: selected ? 'translateY(-6px)' : 'none',
+                              transition: 'all 0.15s',
+                              '&:hover': { borderColor: '#6366f1' },
+                            }}
+                          >
+                            {card.value}
+                          </Paper>
+                        )
+                      })}
+                    </Box>
+                  )
+                )}
+
+                {isFacilitator && isActive && (
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 3, flexWrap: 'wrap' }}>
+                    {!session.revealed ? (
+                      <Button
+                        variant="contained"
+                        startIcon={<Visibility />}
+                        disabled={votedCount === 0 || updateSession.isPending}
+                        onClick={() => updateSession.mutate({ session, changes: { revealed: true } })}
+                      >
+                        Revelar cartas
+                      </Button>
+                    ) : (
+                      <>
+                        <TextField
+                          select
+                          size="small"
+                          label="Valor acordado"
+                          value={agreedValue}
+                          onChange={(e) => setAgreedValue(e.target.value)}
+                          sx={{ minWidth: 160 }}
+                        >
+                          {getSizedCards(session.deck).map((card) => (
+                            <MenuItem key={card.value} value={card.value}>
+                              {session.deck === 'tshirt' ? `${card.value} (${card.points} pts)` : card.value}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                        <Button
+                          variant="contained"
+                          startIcon={<Done />}
+                          disabled={!agreedValue || recordEstimate.isPending}
+                          onClick={handleRecord}
+                        >
+                          Registrar e avançar
+                        </Button>
+                        <Button
+                          variant="outlined"
+                          startIcon={<Replay />}
+                          disabled={updateSession.isPending}
+                          onClick={() =>
+                            updateSession.mutate({ session, changes: { round: session.round + 1, revealed: false } })
+                          }
+                        >
+                          Votar novamente
+                        </Button>
+                      </>
+                    )}
+                    <Button startIcon={<SkipNext />} disabled={updateSession.isPending} onClick={goToNextStory}>
+                      Pular
+                    </Button>
+                  </Box>
+                )}
+              </>
+            )}
+          </Paper>
+
+          <PokerSessionLog estimates={estimates} votes={votes} />
+        </Grid>
+      </Grid>
+    </Box>
+  )
+}
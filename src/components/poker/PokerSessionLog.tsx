@@ -0,0 +1,74 @@
+import { Box, Chip, Paper, Stack, Typography } from '@mui/material'
+import { History } from '@mui/icons-material'
+import type { PlanningPokerEstimate, PlanningPokerVote } from '@/types'
+
+interface PokerSessionLogProps {
+  estimates: PlanningPokerEstimate[]
+  /** Every card visible to the user; rounds already closed are visible to all */
+  votes: PlanningPokerVote[]
+}
+
+/**
+ * Agreed values of the session, newest first, with the cards of each
+ * round that led to them
+ */
+export default function PokerSessionLog({ estimates, votes }: PokerSessionLogProps) {
+  return (
+    <Paper elevation={0} sx={{ p: 3, borderRadius: 3, border: '2px solid rgba(99, 102, 241, 0.1)' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <History sx={{ color: '#6366f1' }} />
+        <Typography variant="subtitle1" fontWeight={700}>
+          Registro da sessão
+        </Typography>
+      </Box>
+
+      {estimates.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 2 }}>
+          Nenhuma história estimada ainda
+        </Typography>
+      ) : (
+        <Stack spacing={1.5}>
+          {estimates.map((estimate) => {
+            const rounds = Array.from({ length: estimate.rounds }, (_, i) => i + 1).map((round) => ({
+              round,
+              votes: votes.filter((vote) => vote.task_id === estimate.task_id && vote.round === round),
+            }))
+
+            return (
+              <Box
+                key={estimate.id}
+                sx={{ p: 1.5, borderRadius: 2, bgcolor: 'rgba(99, 102, 241, 0.04)', border: '1px solid rgba(99, 102, 241, 0.1)' }}
+              >
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 1, mb: 1 }}>
+                  <Typography variant="body2" fontWeight={600} sx={{ flex: 1 }}>
+                    {estimate.task?.title || 'História removida'}
+                  </Typography>
+                  <Chip
+                    label={
+                      estimate.story_points !== null && estimate.story_points !== Number(estimate.value)
+                        ? `${estimate.value} (${estimate.story_points} pts)`
+                        : `${estimate.value} pts`
+                    }
+                    size="small"
+                    sx={{ fontWeight: 700, bgcolor: '#6366f1', color: 'white' }}
+                  />
+                </Box>
+                {rounds.map(({ round, votes: roundVotes }) =>
+                  roundVotes.length > 0 ? (
+                    <Typography key={round} variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                      Rodada {round}:{' '}
+                      {roundVotes.map((vote) => `${vote.user?.full_name?.split(' ')[0] || '?'} ${vote.value}`).join(' · ')}
+                    </Typography>
+                  ) : null
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  {new Date(estimate.decided_at).toLocaleString('pt-BR')}
+                </Typography>
+              </Box>
+            )
+          })}
+        </Stack>
+      )}
+    </Paper>
+  )
+}
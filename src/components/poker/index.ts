@@ -0,0 +1,4 @@
+export { default as CreatePokerSessionDialog } from './CreatePokerSessionDialog'
+export { default as PokerResults } from './PokerResults'
+export { default as PokerRoom } from './PokerRoom'
+export { default as PokerSessionLog } from './PokerSessionLog'
@@ -0,0 +1,95 @@
+import { Box, Chip, Paper, Typography } from '@mui/material'
+import { ArrowForward, CallSplit, Warning } from '@mui/icons-material'
+import { parseDateKey } from '@/utils/gantt/workingCalendar'
+import type { PortfolioLink } from '@/utils/portfolio'
+
+interface PortfolioDependenciesProps {
+  links: PortfolioLink[]
+  projectNames: Map<string, string>
+  onOpenProject: (projectId: string) => void
+}
+
+const formatDate = (key: string | null) =>
+  key ? parseDateKey(key).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short' }) : 'sem data'
+
+/**
+ * List of task dependencies between different projects, conflicts first
+ */
+export default function PortfolioDependencies({ links, projectNames, onOpenProject }: PortfolioDependenciesProps) {
+  const sorted = [...links].sort((a, b) => Number(b.conflict) - Number(a.conflict))
+  const conflicts = links.filter((link) => link.conflict).length
+
+  return (
+    <Paper elevation={0} sx={{ p: 3, borderRadius: 3, border: '2px solid rgba(139, 92, 246, 0.15)' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <CallSplit sx={{ color: '#8b5cf6' }} />
+        <Typography variant="subtitle1" fontWeight={700} sx={{ flex: 1 }}>
+          Dependências entre Projetos
+        </Typography>
+        {conflicts > 0 && (
+          <Chip
+            size="small"
+            icon={<Warning sx={{ fontSize: 16 }} />}
+            label={`${conflicts} em conflito`}
+            sx={{ bgcolor: 'rgba(239, 68, 68, 0.1)', color: '#ef4444', fontWeight: 700 }}
+          />
+        )}
+      </Box>
+
+      {sorted.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Nenhuma tarefa depende de outro projeto.
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          {sorted.map((link) => (
+            <Box
+              key={link.id}
+              sx={{
+                display: 'grid',
+                gridTemplateColumns: { xs: '1fr', md: '1fr auto 1fr auto' },
+                alignItems: 'center',
+                gap: 1.5,
+                p: 1.5,
+                borderRadius: 2,
+                bgcolor: link.conflict ? 'rgba(239, 68, 68, 0.05)' : 'rgba(139, 92, 246, 0.04)',
+              }}
+            >
+              {[link.predecessor, link.successor].map((end, index) => (
+                <Box key={end.taskId} sx={{ minWidth: 0, gridColumn: { md: index === 0 ? 1 : 3 } }}>
+                  <Typography
+                    variant="caption"
+                    fontWeight={700}
+                    color="primary"
+                    onClick={() => onOpenProject(end.projectId)}
+                    sx={{ cursor: 'pointer', '&:hover': { textDecoration: 'underline' } }}
+                  >
+                    {projectNames.get(end.projectId) || 'Projeto'}
+                  </Typography>
+                  <Typography variant="body2" fontWeight={600} noWrap>
+                    {end.title}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {formatDate(end.date)}
+                  </Typography>
+                </Box>
+              ))}
+              <ArrowForward sx={{ gridColumn: { md: 2 }, gridRow: { md: 1 }, color: link.conflict ? '#ef4444' : '#8b5cf6' }} />
+              <Chip
+                size="small"
+                label={link.conflict ? `${link.type} · sucessora antes da antecessora` : link.type}
+                sx={{
+                  gridColumn: { md: 4 },
+                  gridRow: { md: 1 },
+                  fontWeight: 700,
+                  bgcolor: link.conflict ? 'rgba(239, 68, 68, 0.1)' : 'rgba(139, 92, 246, 0.1)',
+                  color: link.conflict ? '#ef4444' : '#8b5cf6',
+                }}
+              />
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Paper>
+  )
+}
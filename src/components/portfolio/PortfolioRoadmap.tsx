@@ -0,0 +1,393 @@
+import { useMemo } from 'react'
+import { Box, Chip, Tooltip, Typography, useTheme } from '@mui/material'
+import { Block, HourglassEmpty, Schedule, Star } from '@mui/icons-material'
+import { parseDateKey, toDateKey } from '@/utils/gantt/workingCalendar'
+import {
+  PORTFOLIO_HEALTH_CONFIG,
+  type PortfolioLink,
+  type PortfolioProject,
+} from '@/utils/portfolio'
+
+export type PortfolioZoom = 'month' | 'quarter'
+
+interface PortfolioRoadmapProps {
+  projects: PortfolioProject[]
+  links: PortfolioLink[]
+  zoom: PortfolioZoom
+  teamNames: Map<string, string>
+  onOpenProject: (projectId: string) => void
+}
+
+const LABEL_WIDTH = 300
+const HEADER_HEIGHT = 40
+const ROW_HEIGHT = 64
+const BAR_TOP = 12
+const BAR_HEIGHT = 18
+const PHASE_TOP = 36
+const PHASE_HEIGHT = 10
+const PX_PER_DAY: Record<PortfolioZoom, number> = { month: 4, quarter: 1.5 }
+
+const DAY_MS = 86400000
+
+const formatDate = (key: string) =>
+  parseDateKey(key).toLocaleDateString('pt-BR', { day: '2-digit', month: 'short', year: 'numeric' })
+
+/**
+ * All projects on one time axis: project span, phases, milestones and the
+ * dependencies that cross project boundaries
+ */
+export default function PortfolioRoadmap({ projects, links, zoom, teamNames, onOpenProject }: PortfolioRoadmapProps) {
+  const theme = useTheme()
+  const isDarkMode = theme.palette.mode === 'dark'
+  const pxPerDay = PX_PER_DAY[zoom]
+  const todayKey = toDateKey(new Date())
+
+  // Axis from the first month with work to two weeks after the last finish
+  const range = useMemo(() => {
+    const starts = projects.map((p) => p.start).filter((d): d is string => !!d)
+    const ends = projects.map((p) => p.end).filter((d): d is string => !!d)
+    const first = parseDateKey(starts.length > 0 ? starts.reduce((a, b) => (a < b ? a : b)) : todayKey)
+    const last = parseDateKey(ends.length > 0 ? ends.reduce((a, b) => (a > b ? a : b)) : todayKey)
+    const start = new Date(first.getFullYear(), first.getMonth(), 1)
+    const end = new Date(last.getFullYear(), last.getMonth() + 1, 14)
+    return { start, days: Math.round((end.getTime() - start.getTime()) / DAY_MS) }
+  }, [projects, todayKey])
+
+  const xOf = (key: string, endOfDay = false) =>
+    (Math.round((parseDateKey(key).getTime() - range.start.getTime()) / DAY_MS) + (endOfDay ? 1 : 0)) * pxPerDay
+
+  const width = range.days * pxPerDay
+
+  const ticks = useMemo(() => {
+    const list: { key: string; x: number; label: string; major: boolean }[] = []
+    const cursor = new Date(range.start)
+    const endMs = range.start.getTime() + range.days * DAY_MS
+    while (cursor.getTime() < endMs) {
+      const month = cursor.getMonth()
+      const isQuarterStart = month % 3 === 0
+      list.push({
+        key: toDateKey(cursor),
+        x: Math.round((cursor.getTime() - range.start.getTime()) / DAY_MS) * pxPerDay,
+        label:
+          zoom === 'month'
+            ? cursor.toLocaleDateString('pt-BR', { month: 'short', year: '2-digit' })
+            : isQuarterStart
+            ? `T${month / 3 + 1} ${cursor.getFullYear()}`
+            : '',
+        major: zoom === 'month' || isQuarterStart,
+      })
+      cursor.setMonth(month + 1)
+    }
+    return list
+  }, [range, pxPerDay, zoom])
+
+  const rowIndex = new Map(projects.map((p, index) => [p.id, index]))
+  const visibleLinks = links.filter(
+    (link) =>
+      link.predecessor.date &&
+      link.successor.date &&
+      rowIndex.has(link.predecessor.projectId) &&
+      rowIndex.has(link.successor.projectId)
+  )
+
+  const gridColor = isDarkMode ? 'rgba(255,255,255,0.06)' : 'rgba(99, 102, 241, 0.08)'
+  const height = projects.length * ROW_HEIGHT
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        borderRadius: 3,
+        border: '2px solid rgba(99, 102, 241, 0.1)',
+        overflow: 'hidden',
+        bgcolor: 'background.paper',
+      }}
+    >
+      {/* Project labels and health */}
+      <Box sx={{ width: LABEL_WIDTH, flexShrink: 0, borderRight: '2px solid rgba(99, 102, 241, 0.1)' }}>
+        <Box
+          sx={{
+            height: HEADER_HEIGHT,
+            display: 'flex',
+            alignItems: 'center',
+            px: 2,
+            borderBottom: '1px solid',
+            borderColor: 'divider',
+          }}
+        >
+          <Typography variant="caption" fontWeight={700} color="text.secondary">
+            PROJETO / SAÚDE
+          </Typography>
+        </Box>
+        {projects.map((project) => {
+          const health = PORTFOLIO_HEALTH_CONFIG[project.health]
+          const teams = project.teamIds.map((id) => teamNames.get(id)).filter(Boolean)
+          return (
+            <Box
+              key={project.id}
+              sx={{
+                height: ROW_HEIGHT,
+                px: 2,
+                display: 'flex',
+                flexDirection: 'column',
+                justifyContent: 'center',
+                borderBottom: '1px solid',
+                borderColor: 'divider',
+                borderLeft: `4px solid ${health.color}`,
+              }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, minWidth: 0 }}>
+                {project.objectiveIds.length > 0 && (
+                  <Tooltip title={`Contribui para ${project.objectiveIds.length} objetivo(s) estratégico(s)`}>
+                    <Star sx={{ fontSize: 14, color: '#f59e0b' }} />
+                  </Tooltip>
+                )}
+                <Typography
+                  variant="body2"
+                  fontWeight={700}
+                  noWrap
+                  onClick={() => onOpenProject(project.id)}
+                  sx={{ cursor: 'pointer', flex: 1, '&:hover': { color: '#6366f1' } }}
+                >
+                  {project.name}
+                </Typography>
+                <Tooltip
+                  title={project.healthReasons.length > 0 ? project.healthReasons.join(' · ') : 'Sem alertas'}
+                >
+                  <Chip
+                    size="small"
+                    label={health.label}
+                    sx={{ height: 20, fontSize: '0.65rem', fontWeight: 700, bgcolor: `${health.color}20`, color: health.color }}
+                  />
+                </Tooltip>
+              </Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mt: 0.5 }}>
+                <Tooltip
+                  title={
+                    project.plannedFinish
+                      ? `Previsto ${formatDate(project.plannedFinish)} (${
+                          project.plannedFinishSource === 'baseline' ? 'linha de base' : 'data do projeto'
+                        })${project.forecastFinish ? ` · Projeção ${formatDate(project.forecastFinish)}` : ''}`
+                      : 'Sem data prevista'
+                  }
+                >
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.25 }}>
+                    <Schedule sx={{ fontSize: 13, color: (project.slipDays || 0) > 0 ? '#ef4444' : 'text.secondary' }} />
+                    <Typography variant="caption" color={(project.slipDays || 0) > 0 ? '#ef4444' : 'text.secondary'}>
+                      {project.slipDays === null ? '—' : project.slipDays > 0 ? `+${project.slipDays}d` : 'Em dia'}
+                    </Typography>
+                  </Box>
+                </Tooltip>
+                <Tooltip title="Tarefas bloqueadas">
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.25 }}>
+                    <Block sx={{ fontSize: 13, color: project.blockedCount > 0 ? '#ef4444' : 'text.secondary' }} />
+                    <Typography variant="caption" color={project.blockedCount > 0 ? '#ef4444' : 'text.secondary'}>
+                      {project.blockedCount}
+                    </Typography>
+                  </Box>
+                </Tooltip>
+                <Tooltip title="Dias sem movimentação">
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.25 }}>
+                    <HourglassEmpty sx={{ fontSize: 13, color: 'text.secondary' }} />
+                    <Typography variant="caption" color="text.secondary">
+                      {project.idleDays < 0 ? '—' : `${project.idleDays}d`}
+                    </Typography>
+                  </Box>
+                </Tooltip>
+                {teams.length > 0 && (
+                  <Typography variant="caption" color="text.secondary" noWrap sx={{ flex: 1, minWidth: 0 }}>
+                    {teams.join(', ')}
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+          )
+        })}
+      </Box>
+
+      {/* Time axis */}
+      <Box sx={{ flex: 1, overflowX: 'auto' }}>
+        <Box sx={{ position: 'relative', width, minWidth: '100%' }}>
+          <Box sx={{ position: 'relative', height: HEADER_HEIGHT, borderBottom: '1px solid', borderColor: 'divider' }}>
+            {ticks.map((tick) => (
+              <Typography
+                key={tick.key}
+                variant="caption"
+                fontWeight={600}
+                color="text.secondary"
+                sx={{ position: 'absolute', left: tick.x + 4, top: 12, whiteSpace: 'nowrap' }}
+              >
+                {tick.label}
+              </Typography>
+            ))}
+          </Box>
+
+          <Box sx={{ position: 'relative', height }}>
+            {/* Month grid and today line */}
+            {ticks.map((tick) => (
+              <Box
+                key={tick.key}
+                sx={{
+                  position: 'absolute',
+                  left: tick.x,
+                  top: 0,
+                  bottom: 0,
+                  borderLeft: `1px ${tick.major ? 'solid' : 'dashed'} ${gridColor}`,
+                }}
+              />
+            ))}
+            {projects.map((project, index) => (
+              <Box
+                key={project.id}
+                sx={{
+                  position: 'absolute',
+                  left: 0,
+                  right: 0,
+                  top: (index + 1) * ROW_HEIGHT - 1,
+                  borderBottom: '1px solid',
+                  borderColor: 'divider',
+                }}
+              />
+            ))}
+            <Box
+              sx={{
+                position: 'absolute',
+                left: xOf(todayKey),
+                top: 0,
+                bottom: 0,
+                borderLeft: '2px solid #ef4444',
+                opacity: 0.6,
+                zIndex: 1,
+              }}
+            />
+
+            {projects.map((project, index) => {
+              const top = index * ROW_HEIGHT
+              const health = PORTFOLIO_HEALTH_CONFIG[project.health]
+              const progress = project.taskCount > 0 ? project.doneCount / project.taskCount : 0
+
+              return (
+                <Box key={project.id}>
+                  {project.start && project.end && (
+                    <Tooltip
+                      title={`${project.name}: ${formatDate(project.start)} → ${formatDate(project.end)} · ${Math.round(
+                        progress * 100
+                      )}% concluído`}
+                    >
+                      <Box
+                        onClick={() => onOpenProject(project.id)}
+                        sx={{
+                          position: 'absolute',
+                          top: top + BAR_TOP,
+                          left: xOf(project.start),
+                          width: Math.max(xOf(project.end, true) - xOf(project.start), 4),
+                          height: BAR_HEIGHT,
+                          borderRadius: 1,
+                          bgcolor: `${health.color}30`,
+                          border: `1px solid ${health.color}`,
+                          overflow: 'hidden',
+                          cursor: 'pointer',
+                        }}
+                      >
+                        <Box sx={{ width: `${progress * 100}%`, height: '100%', bgcolor: `${health.color}90` }} />
+                      </Box>
+                    </Tooltip>
+                  )}
+
+                  {/* Planned finish marker when the forecast slipped past it */}
+                  {project.plannedFinish && (project.slipDays || 0) > 0 && (
+                    <Tooltip title={`Término previsto: ${formatDate(project.plannedFinish)}`}>
+                      <Box
+                        sx={{
+                          position: 'absolute',
+                          top: top + BAR_TOP - 4,
+                          left: xOf(project.plannedFinish, true) - 1,
+                          height: BAR_HEIGHT + 8,
+                          borderLeft: '2px dashed #6b7280',
+                          zIndex: 2,
+                        }}
+                      />
+                    </Tooltip>
+                  )}
+
+                  {project.phases.map((phase) => (
+                    <Tooltip key={phase.id} title={`Fase: ${phase.title} (${formatDate(phase.start)} → ${formatDate(phase.end)})`}>
+                      <Box
+                        sx={{
+                          position: 'absolute',
+                          top: top + PHASE_TOP,
+                          left: xOf(phase.start),
+                          width: Math.max(xOf(phase.end, true) - xOf(phase.start), 3),
+                          height: PHASE_HEIGHT,
+                          borderRadius: 0.5,
+                          bgcolor: phase.status === 'done' ? 'rgba(16, 185, 129, 0.5)' : 'rgba(99, 102, 241, 0.45)',
+                          border: '1px solid',
+                          borderColor: 'background.paper',
+                        }}
+                      />
+                    </Tooltip>
+                  ))}
+
+                  {project.milestones.map((milestone) => (
+                    <Tooltip key={milestone.id} title={`Marco: ${milestone.title} (${formatDate(milestone.date)})`}>
+                      <Box
+                        sx={{
+                          position: 'absolute',
+                          top: top + BAR_TOP + BAR_HEIGHT / 2 - 6,
+                          left: xOf(milestone.date, true) - 6,
+                          width: 12,
+                          height: 12,
+                          transform: 'rotate(45deg)',
+                          bgcolor: milestone.done ? '#10b981' : '#1f2937',
+                          border: '2px solid white',
+                          zIndex: 3,
+                        }}
+                      />
+                    </Tooltip>
+                  ))}
+                </Box>
+              )
+            })}
+
+            {/* Cross-project dependencies */}
+            <svg
+              width={Math.max(width, 1)}
+              height={height}
+              style={{ position: 'absolute', left: 0, top: 0, pointerEvents: 'none', zIndex: 4 }}
+            >
+              <defs>
+                <marker id="portfolio-arrow" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+                  <path d="M0,0 L8,4 L0,8 z" fill="#8b5cf6" />
+                </marker>
+                <marker id="portfolio-arrow-conflict" markerWidth="8" markerHeight="8" refX="7" refY="4" orient="auto">
+                  <path d="M0,0 L8,4 L0,8 z" fill="#ef4444" />
+                </marker>
+              </defs>
+              {visibleLinks.map((link) => {
+                const fromEnd = link.type[0] === 'F'
+                const toEnd = link.type[1] === 'F'
+                const x1 = xOf(link.predecessor.date!, fromEnd)
+                const x2 = xOf(link.successor.date!, toEnd)
+                const y1 = rowIndex.get(link.predecessor.projectId)! * ROW_HEIGHT + BAR_TOP + BAR_HEIGHT / 2
+                const y2 = rowIndex.get(link.successor.projectId)! * ROW_HEIGHT + BAR_TOP + BAR_HEIGHT / 2
+                const bend = Math.max(Math.abs(x2 - x1) / 2, 24)
+                const color = link.conflict ? '#ef4444' : '#8b5cf6'
+                return (
+                  <path
+                    key={link.id}
+                    d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={1.5}
+                    strokeDasharray={link.conflict ? '4 3' : undefined}
+                    markerEnd={`url(#${link.conflict ? 'portfolio-arrow-conflict' : 'portfolio-arrow'})`}
+                  />
+                )
+              })}
+            </svg>
+          </Box>
+        </Box>
+      </Box>
+    </Box>
+  )
+}
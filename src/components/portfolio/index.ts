@@ -0,0 +1,3 @@
+export { default as PortfolioRoadmap } from './PortfolioRoadmap'
+export type { PortfolioZoom } from './PortfolioRoadmap'
+export { default as PortfolioDependencies } from './PortfolioDependencies'
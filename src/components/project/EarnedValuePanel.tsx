@@ -0,0 +1,277 @@
+import { useMemo, useState } from 'react'
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  MenuItem,
+  Paper,
+  TextField,
+  Tooltip as MuiTooltip,
+  Typography,
+  alpha,
+  useTheme,
+} from '@mui/material'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts'
+import { PictureAsPdf, ShowChart } from '@mui/icons-material'
+import { useBaselines, useBaselineTasks } from '@/hooks/useBaselines'
+import { useTaskHierarchy } from '@/hooks/useTaskHierarchy'
+import { useProjectCalendar } from '@/hooks/useProjectCalendar'
+import { calculateEarnedValue } from '@/utils/gantt/earnedValue'
+import { exportEarnedValueToPDF, formatEarnedValue, formatIndex } from '@/utils/exportEarnedValueToPDF'
+import toast from 'react-hot-toast'
+
+interface EarnedValuePanelProps {
+  projectId: string
+  projectName: string
+}
+
+const formatShortDate = (value: string) => {
+  const [, m, d] = value.split('-')
+  return `${d}/${m}`
+}
+
+/** Green at or above plan, amber slightly below, red beyond 10% */
+const indexColor = (value: number | null) =>
+  value === null ? '#6b7280' : value >= 1 ? '#10b981' : value >= 0.9 ? '#f59e0b' : '#ef4444'
+
+const varianceColor = (value: number) => (value >= 0 ? '#10b981' : '#ef4444')
+
+export default function EarnedValuePanel({ projectId, projectName }: EarnedValuePanelProps) {
+  const theme = useTheme()
+  const isDarkMode = theme.palette.mode === 'dark'
+  const [baselineId, setBaselineId] = useState<string | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const { data: baselines = [], isLoading: baselinesLoading } = useBaselines(projectId)
+  // Latest baseline unless the user picks another
+  const baseline = baselines.find((b) => b.id === baselineId) || baselines[0]
+  const { data: baselineTasks = [], isLoading: baselineTasksLoading } = useBaselineTasks(baseline?.id)
+  const { data: tasks = [], isLoading: tasksLoading } = useTaskHierarchy(projectId)
+  const { calendar } = useProjectCalendar(projectId)
+
+  const result = useMemo(
+    () => (baseline ? calculateEarnedValue(tasks, baselineTasks, calendar) : null),
+    [baseline, tasks, baselineTasks, calendar]
+  )
+
+  const isLoading = baselinesLoading || baselineTasksLoading || tasksLoading
+
+  const handleExport = async () => {
+    if (!result || !baseline) return
+    setIsExporting(true)
+    try {
+      await exportEarnedValueToPDF({
+        projectName,
+        baselineName: `${baseline.baseline_number}. ${baseline.name}`,
+        metrics: result.metrics,
+        curve: result.curve,
+      })
+      toast.success('Relatório de valor agregado exportado!')
+    } catch (error) {
+      toast.error('Erro ao exportar relatório')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const metrics = result?.metrics
+  const amount = (value: number) => (metrics ? formatEarnedValue(value, metrics.unit) : '-')
+
+  const tiles = metrics
+    ? [
+        { label: 'PV', hint: 'Valor planejado', value: amount(metrics.pv), color: '#6366f1' },
+        { label: 'EV', hint: 'Valor agregado', value: amount(metrics.ev), color: '#10b981' },
+        { label: 'AC', hint: 'Custo real', value: amount(metrics.ac), color: '#ef4444' },
+        { label: 'SPI', hint: 'Desempenho de prazo (EV / PV)', value: formatIndex(metrics.spi), color: indexColor(metrics.spi) },
+        { label: 'CPI', hint: 'Desempenho de custo (EV / AC)', value: formatIndex(metrics.cpi), color: indexColor(metrics.cpi) },
+        { label: 'EAC', hint: 'Estimativa no término (BAC / CPI)', value: amount(metrics.eac), color: '#8b5cf6' },
+        { label: 'VAC', hint: 'Variação no término (BAC - EAC)', value: amount(metrics.vac), color: varianceColor(metrics.vac) },
+      ]
+    : []
+
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length && metrics) {
+      return (
+        <Paper
+          elevation={3}
+          sx={{
+            p: 1.5,
+            bgcolor: isDarkMode ? '#1e293b' : 'white',
+            border: '2px solid rgba(99, 102, 241, 0.2)',
+          }}
+        >
+          <Typography variant="caption" fontWeight={700} sx={{ display: 'block', mb: 0.5 }}>
+            {payload[0].payload.date.split('-').reverse().join('/')}
+          </Typography>
+          {payload.map((entry: any) => (
+            <Typography
+              key={entry.dataKey}
+              variant="caption"
+              sx={{ display: 'block', color: entry.color, fontWeight: 600 }}
+            >
+              {entry.name}: {entry.value !== null ? formatEarnedValue(entry.value, metrics.unit) : '-'}
+            </Typography>
+          ))}
+        </Paper>
+      )
+    }
+    return null
+  }
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3, flexWrap: 'wrap' }}>
+        <Box
+          sx={{
+            width: 48,
+            height: 48,
+            borderRadius: 2,
+            bgcolor: 'rgba(16, 185, 129, 0.1)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            color: '#10b981',
+          }}
+        >
+          <ShowChart />
+        </Box>
+        <Box sx={{ flex: 1 }}>
+          <Typography variant="h6" fontWeight={700}>
+            Valor Agregado (EVM)
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {metrics
+              ? `${metrics.unit === 'cost' ? 'Custo' : 'Horas de trabalho'} comparados à linha de base — ${metrics.earned_percent}% agregado de ${metrics.planned_percent}% planejado`
+              : 'Indicadores de prazo e custo em relação à linha de base'}
+          </Typography>
+        </Box>
+        {baselines.length > 0 && (
+          <TextField
+            select
+            size="small"
+            label="Linha de base"
+            value={baseline?.id || ''}
+            onChange={(e) => setBaselineId(e.target.value)}
+            sx={{ minWidth: 200 }}
+          >
+            {baselines.map((b) => (
+              <MenuItem key={b.id} value={b.id}>
+                {b.baseline_number}. {b.name}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={isExporting ? <CircularProgress size={16} /> : <PictureAsPdf />}
+          onClick={handleExport}
+          disabled={!metrics || isExporting}
+        >
+          Exportar PDF
+        </Button>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+          <CircularProgress size={28} />
+        </Box>
+      ) : !baseline ? (
+        <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+          Salve uma linha de base no Gantt para acompanhar o valor agregado.
+        </Typography>
+      ) : metrics && metrics.bac === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+          A linha de base não tem horas estimadas nem custos planejados para calcular o valor agregado.
+        </Typography>
+      ) : (
+        <>
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: 'repeat(2, 1fr)', sm: 'repeat(4, 1fr)', md: 'repeat(7, 1fr)' },
+              gap: 1.5,
+              mb: 3,
+            }}
+          >
+            {tiles.map((tile) => (
+              <MuiTooltip key={tile.label} title={tile.hint}>
+                <Box
+                  sx={{
+                    p: 1.5,
+                    borderRadius: 2,
+                    bgcolor: alpha(tile.color, 0.06),
+                    border: '1px solid',
+                    borderColor: alpha(tile.color, 0.2),
+                  }}
+                >
+                  <Typography variant="caption" fontWeight={700} sx={{ color: tile.color }}>
+                    {tile.label}
+                  </Typography>
+                  <Typography variant="subtitle1" fontWeight={700} noWrap>
+                    {tile.value}
+                  </Typography>
+                </Box>
+              </MuiTooltip>
+            ))}
+          </Box>
+
+          {metrics && (
+            <Box sx={{ display: 'flex', gap: 1, mb: 2, flexWrap: 'wrap' }}>
+              <Chip size="small" label={`BAC ${amount(metrics.bac)}`} />
+              <Chip
+                size="small"
+                label={`SV ${amount(metrics.sv)}`}
+                sx={{ bgcolor: alpha(varianceColor(metrics.sv), 0.1), color: varianceColor(metrics.sv), fontWeight: 600 }}
+              />
+              <Chip
+                size="small"
+                label={`CV ${amount(metrics.cv)}`}
+                sx={{ bgcolor: alpha(varianceColor(metrics.cv), 0.1), color: varianceColor(metrics.cv), fontWeight: 600 }}
+              />
+              <Chip size="small" label={`ETC ${amount(metrics.etc)}`} />
+            </Box>
+          )}
+
+          {result && result.curve.length > 1 && (
+            <ResponsiveContainer width="100%" height={280}>
+              <LineChart data={result.curve} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(99, 102, 241, 0.1)" />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={formatShortDate}
+                  stroke="#6b7280"
+                  style={{ fontSize: 12 }}
+                  tick={{ fill: '#6b7280' }}
+                />
+                <YAxis stroke="#6b7280" style={{ fontSize: 12 }} tick={{ fill: '#6b7280' }} />
+                <Tooltip content={<CustomTooltip />} />
+                <Legend wrapperStyle={{ fontSize: 13, fontWeight: 600 }} iconType="line" />
+                {metrics && (
+                  <ReferenceLine x={metrics.status_date} stroke="#ef4444" strokeDasharray="4 4" />
+                )}
+                <Line type="monotone" dataKey="pv" name="PV" stroke="#6366f1" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="ev" name="EV" stroke="#10b981" strokeWidth={2} dot={false} connectNulls={false} />
+                <Line type="monotone" dataKey="ac" name="AC" stroke="#ef4444" strokeWidth={2} dot={false} connectNulls={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            EV e AC no passado são distribuídos linearmente entre o início e a conclusão de cada tarefa.
+          </Typography>
+        </>
+      )}
+    </Paper>
+  )
+}
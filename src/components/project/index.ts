@@ -3,3 +3,4 @@ export { default as WizardStepBasicInfo } from './WizardStepBasicInfo'
 export { default as WizardStepMethodology } from './WizardStepMethodology'
 export { default as WizardStepModules } from './WizardStepModules'
 export { default as WizardStepReview } from './WizardStepReview'
+export { default as EarnedValuePanel } from './EarnedValuePanel'
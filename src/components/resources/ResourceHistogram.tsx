@@ -0,0 +1,185 @@
+import {
+  Avatar,
+  Box,
+  Tooltip,
+  Typography,
+  useTheme,
+} from '@mui/material'
+import { Warning } from '@mui/icons-material'
+import { parseDateKey } from '@/utils/gantt/workingCalendar'
+import { FULL_ALLOCATION, type ResourceLoadGranularity } from '@/utils/gantt/resourceLoad'
+import type { ProjectMember } from '@/hooks/useResourceAllocations'
+import type { ResourceLoadBucket } from '@/types/hybrid'
+
+interface ResourceHistogramProps {
+  members: ProjectMember[]
+  load: Map<string, ResourceLoadBucket[]>
+  granularity: ResourceLoadGranularity
+}
+
+const NAME_WIDTH = 200
+const ROW_HEIGHT = 64
+/** Bars are scaled so 150% fills the row */
+const MAX_SCALE = 150
+
+const getLoadColor = (load: number) =>
+  load > FULL_ALLOCATION ? '#ef4444' : load >= 80 ? '#f59e0b' : '#10b981'
+
+const formatPeriod = (date: string, granularity: ResourceLoadGranularity) => {
+  const d = parseDateKey(date)
+  return granularity === 'week'
+    ? `${String(d.getDate()).padStart(2, '0')}/${String(d.getMonth() + 1).padStart(2, '0')}`
+    : String(d.getDate())
+}
+
+export default function ResourceHistogram({ members, load, granularity }: ResourceHistogramProps) {
+  const theme = useTheme()
+  const isDarkMode = theme.palette.mode === 'dark'
+  const columnWidth = granularity === 'week' ? 56 : 28
+  const periods = load.get(members[0]?.id)?.map((b) => b.date) ?? []
+
+  if (members.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+        Nenhum membro nos times deste projeto
+      </Typography>
+    )
+  }
+
+  return (
+    <Box sx={{ overflowX: 'auto' }}>
+      <Box sx={{ minWidth: NAME_WIDTH + periods.length * columnWidth }}>
+        {/* Period header */}
+        <Box
+          sx={{
+            display: 'flex',
+            height: 32,
+            alignItems: 'center',
+            borderBottom: '1px solid',
+            borderColor: 'divider',
+            bgcolor: isDarkMode ? 'rgba(30, 41, 59, 0.95)' : 'grey.100',
+          }}
+        >
+          <Typography variant="caption" fontWeight={700} sx={{ width: NAME_WIDTH, flexShrink: 0, px: 2 }}>
+            Pessoa
+          </Typography>
+          {periods.map((date) => (
+            <Typography
+              key={date}
+              variant="caption"
+              color="text.secondary"
+              sx={{ width: columnWidth, flexShrink: 0, textAlign: 'center', fontSize: '0.65rem' }}
+            >
+              {formatPeriod(date, granularity)}
+            </Typography>
+          ))}
+        </Box>
+
+        {members.map((member) => {
+          const buckets = load.get(member.id) || []
+          const overallocated = buckets.filter((b) => b.isOverallocated).length
+
+          return (
+            <Box
+              key={member.id}
+              sx={{
+                display: 'flex',
+                height: ROW_HEIGHT,
+                borderBottom: '1px solid',
+                borderColor: isDarkMode ? 'rgba(255, 255, 255, 0.06)' : 'divider',
+              }}
+            >
+              <Box
+                sx={{
+                  width: NAME_WIDTH,
+                  flexShrink: 0,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 1,
+                  px: 2,
+                }}
+              >
+                <Avatar src={member.avatar_url || undefined} sx={{ width: 28, height: 28, fontSize: '0.75rem' }}>
+                  {member.full_name.charAt(0)}
+                </Avatar>
+                <Box sx={{ minWidth: 0 }}>
+                  <Typography variant="body2" fontWeight={600} noWrap>
+                    {member.full_name}
+                  </Typography>
+                  {overallocated > 0 && (
+                    <Typography
+                      variant="caption"
+                      sx={{ color: '#ef4444', display: 'flex', alignItems: 'center', gap: 0.25 }}
+                    >
+                      <Warning sx={{ fontSize: 12 }} />
+                      Sobrealocado
+                    </Typography>
+                  )}
+                </Box>
+              </Box>
+
+              {/* Bars, with the 100% capacity line */}
+              <Box sx={{ display: 'flex', position: 'relative', alignItems: 'flex-end' }}>
+                <Box
+                  sx={{
+                    position: 'absolute',
+                    left: 0,
+                    right: 0,
+                    bottom: ((ROW_HEIGHT - 8) * FULL_ALLOCATION) / MAX_SCALE,
+                    borderTop: '1px dashed',
+                    borderColor: 'rgba(239, 68, 68, 0.4)',
+                    pointerEvents: 'none',
+                  }}
+                />
+                {buckets.map((bucket) => (
+                  <Tooltip
+                    key={bucket.date}
+                    arrow
+                    title={
+                      <Box>
+                        <Typography variant="caption" fontWeight={700} display="block">
+                          {parseDateKey(bucket.date).toLocaleDateString('pt-BR')}
+                          {granularity === 'week' && ' (semana)'}
+                        </Typography>
+                        <Typography variant="caption" display="block">
+                          Carga: {bucket.load}%
+                          {granularity === 'week' && bucket.peak !== bucket.load && ` · pico ${bucket.peak}%`}
+                        </Typography>
+                        {bucket.tasks.map((t) => (
+                          <Typography key={t.taskId} variant="caption" display="block" sx={{ opacity: 0.85 }}>
+                            {t.percent}% · {t.title}
+                            {t.projectName && ` (${t.projectName})`}
+                          </Typography>
+                        ))}
+                      </Box>
+                    }
+                  >
+                    <Box
+                      sx={{
+                        width: columnWidth,
+                        height: ROW_HEIGHT - 8,
+                        display: 'flex',
+                        alignItems: 'flex-end',
+                        justifyContent: 'center',
+                      }}
+                    >
+                      <Box
+                        sx={{
+                          width: columnWidth - 6,
+                          height: `${(Math.min(bucket.load, MAX_SCALE) / MAX_SCALE) * 100}%`,
+                          bgcolor: getLoadColor(bucket.peak),
+                          opacity: bucket.load > 0 ? 0.85 : 0,
+                          borderRadius: '3px 3px 0 0',
+                        }}
+                      />
+                    </Box>
+                  </Tooltip>
+                ))}
+              </Box>
+            </Box>
+          )
+        })}
+      </Box>
+    </Box>
+  )
+}
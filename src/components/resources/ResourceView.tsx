@@ -0,0 +1,284 @@
+import { useMemo, useState } from 'react'
+import {
+  Avatar,
+  Box,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import { ChevronLeft, ChevronRight, Edit, Today } from '@mui/icons-material'
+import { useTaskHierarchy } from '@/hooks/useTaskHierarchy'
+import { useProjectCalendar } from '@/hooks/useProjectCalendar'
+import {
+  useProjectAllocations,
+  useProjectMembers,
+  useUserAllocations,
+  type ProjectMember,
+} from '@/hooks/useResourceAllocations'
+import { addDays, startOfWeek } from '@/utils/gantt/dateCalculations'
+import { parseDateKey } from '@/utils/gantt/workingCalendar'
+import {
+  calculateResourceLoad,
+  getAllocationRange,
+  summarizeResourceLoad,
+  type ResourceLoadGranularity,
+} from '@/utils/gantt/resourceLoad'
+import type { HierarchicalTask, ResourceAllocation } from '@/types/hybrid'
+import ResourceHistogram from './ResourceHistogram'
+import TaskAllocationDialog from './TaskAllocationDialog'
+
+interface ResourceViewProps {
+  projectId: string
+}
+
+/** Days shown in the histogram for each granularity */
+const HORIZON_DAYS: Record<ResourceLoadGranularity, number> = {
+  day: 28,
+  week: 7 * 12,
+}
+
+const formatDate = (value: string | null) =>
+  value ? parseDateKey(value).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' }) : '-'
+
+export default function ResourceView({ projectId }: ResourceViewProps) {
+  const { data: tasks = [], isLoading: tasksLoading } = useTaskHierarchy(projectId)
+  const { data: teamMembers = [], isLoading: membersLoading } = useProjectMembers(projectId)
+  const { data: projectAllocations = [] } = useProjectAllocations(projectId)
+  const { calendar } = useProjectCalendar(projectId)
+
+  const [granularity, setGranularity] = useState<ResourceLoadGranularity>('week')
+  const [from, setFrom] = useState(() => startOfWeek(new Date()))
+  const [editingTask, setEditingTask] = useState<HierarchicalTask | null>(null)
+
+  // Team members plus anyone allocated here from outside the project teams
+  const members = useMemo(() => {
+    const byId = new Map<string, ProjectMember>(teamMembers.map((m) => [m.id, m]))
+    projectAllocations.forEach((a) => {
+      if (a.user && !byId.has(a.user_id)) byId.set(a.user_id, a.user)
+    })
+    return Array.from(byId.values())
+  }, [teamMembers, projectAllocations])
+
+  // Load is computed across every project these people work on
+  const { data: allAllocations = [], isLoading: loadLoading } = useUserAllocations(
+    members.map((m) => m.id)
+  )
+
+  const to = useMemo(() => addDays(from, HORIZON_DAYS[granularity] - 1), [from, granularity])
+  const load = useMemo(
+    () =>
+      calculateResourceLoad(
+        allAllocations,
+        members.map((m) => m.id),
+        from,
+        to,
+        granularity,
+        calendar
+      ),
+    [allAllocations, members, from, to, granularity, calendar]
+  )
+
+  const allocationsByTask = useMemo(() => {
+    const map = new Map<string, ResourceAllocation[]>()
+    projectAllocations.forEach((a) => map.set(a.task_id, [...(map.get(a.task_id) || []), a]))
+    return map
+  }, [projectAllocations])
+
+  const editingAllocations = useMemo(
+    () => (editingTask ? allocationsByTask.get(editingTask.id) || [] : []),
+    [editingTask, allocationsByTask]
+  )
+
+  const workTasks = tasks.filter((t) => !t.is_summary)
+
+  // Person is over-allocated somewhere inside this allocation's range
+  const isOverallocatedOn = (allocation: ResourceAllocation) => {
+    const range = getAllocationRange(allocation)
+    if (!range) return false
+    return (
+      summarizeResourceLoad(allAllocations, allocation.user_id, range.start, range.end, calendar)
+        .overallocatedDays > 0
+    )
+  }
+
+  const shift = (direction: 1 | -1) => {
+    setFrom((prev) => addDays(prev, direction * (granularity === 'week' ? 28 : 7)))
+  }
+
+  if (tasksLoading || membersLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+        <CircularProgress />
+      </Box>
+    )
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      {/* Histogram */}
+      <Paper sx={{ borderRadius: 2, border: '1px solid', borderColor: 'divider', overflow: 'hidden' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1.5, flexWrap: 'wrap' }}>
+          <Box sx={{ flex: 1 }}>
+            <Typography variant="subtitle1" fontWeight={700}>
+              Carga de Trabalho
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              Alocação em todos os projetos · {from.toLocaleDateString('pt-BR')} a{' '}
+              {to.toLocaleDateString('pt-BR')}
+            </Typography>
+          </Box>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={granularity}
+            onChange={(_, value) => value && setGranularity(value)}
+          >
+            <ToggleButton value="day">Dia</ToggleButton>
+            <ToggleButton value="week">Semana</ToggleButton>
+          </ToggleButtonGroup>
+          <Tooltip title="Anterior">
+            <IconButton size="small" onClick={() => shift(-1)}>
+              <ChevronLeft />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Semana atual">
+            <IconButton size="small" onClick={() => setFrom(startOfWeek(new Date()))}>
+              <Today />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Próximo">
+            <IconButton size="small" onClick={() => shift(1)}>
+              <ChevronRight />
+            </IconButton>
+          </Tooltip>
+        </Box>
+
+        {loadLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <ResourceHistogram members={members} load={load} granularity={granularity} />
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2, px: 2, py: 1, borderTop: '1px solid', borderColor: 'divider' }}>
+          {[
+            { color: '#10b981', label: 'Até 80%' },
+            { color: '#f59e0b', label: '80–100%' },
+            { color: '#ef4444', label: 'Acima de 100%' },
+          ].map((item) => (
+            <Box key={item.label} sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+              <Box sx={{ width: 12, height: 12, bgcolor: item.color, borderRadius: 0.5 }} />
+              <Typography variant="caption" color="text.secondary">{item.label}</Typography>
+            </Box>
+          ))}
+        </Box>
+      </Paper>
+
+      {/* Task allocations */}
+      <Paper sx={{ borderRadius: 2, border: '1px solid', borderColor: 'divider', overflow: 'hidden' }}>
+        <Box sx={{ p: 1.5 }}>
+          <Typography variant="subtitle1" fontWeight={700}>
+            Alocações por Tarefa
+          </Typography>
+        </Box>
+        <TableContainer sx={{ maxHeight: 480 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell width={80}>EDT</TableCell>
+                <TableCell>Tarefa</TableCell>
+                <TableCell width={130}>Período</TableCell>
+                <TableCell>Recursos</TableCell>
+                <TableCell width={56} />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {workTasks.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} align="center" sx={{ py: 4, color: 'text.secondary' }}>
+                    Nenhuma tarefa no projeto
+                  </TableCell>
+                </TableRow>
+              ) : (
+                workTasks.map((task) => {
+                  const taskAllocations = allocationsByTask.get(task.id) || []
+
+                  return (
+                    <TableRow key={task.id} hover>
+                      <TableCell sx={{ color: 'text.secondary' }}>{task.wbs_code || '-'}</TableCell>
+                      <TableCell>{task.title}</TableCell>
+                      <TableCell sx={{ color: 'text.secondary' }}>
+                        {formatDate(task.start_date)} – {formatDate(task.end_date)}
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                          {taskAllocations.length === 0 && (
+                            <Typography variant="caption" color="text.secondary">
+                              Sem alocação
+                            </Typography>
+                          )}
+                          {taskAllocations.map((allocation) => {
+                            const overallocated = isOverallocatedOn(allocation)
+                            return (
+                              <Tooltip
+                                key={allocation.id}
+                                title={overallocated ? 'Sobrealocado neste período' : ''}
+                              >
+                                <Chip
+                                  size="small"
+                                  avatar={
+                                    <Avatar src={allocation.user?.avatar_url || undefined}>
+                                      {allocation.user?.full_name?.charAt(0)}
+                                    </Avatar>
+                                  }
+                                  label={`${allocation.user?.full_name?.split(' ')[0] || 'Usuário'} ${allocation.allocation_percent}%`}
+                                  sx={
+                                    overallocated
+                                      ? { bgcolor: 'rgba(239, 68, 68, 0.1)', color: '#ef4444', fontWeight: 600 }
+                                      : undefined
+                                  }
+                                />
+                              </Tooltip>
+                            )
+                          })}
+                        </Box>
+                      </TableCell>
+                      <TableCell>
+                        <Tooltip title="Editar alocação">
+                          <IconButton size="small" onClick={() => setEditingTask(task)}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <TaskAllocationDialog
+        open={!!editingTask}
+        onClose={() => setEditingTask(null)}
+        projectId={projectId}
+        task={editingTask}
+        allocations={editingAllocations}
+        members={members}
+      />
+    </Box>
+  )
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react'
+import {
+  Autocomplete,
+  Avatar,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  InputAdornment,
+  Slider,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { Add, Close, Delete } from '@mui/icons-material'
+import { useSetTaskAllocations, type ProjectMember } from '@/hooks/useResourceAllocations'
+import type { HierarchicalTask, ResourceAllocation, ResourceAllocationCreate } from '@/types/hybrid'
+
+interface TaskAllocationDialogProps {
+  open: boolean
+  onClose: () => void
+  projectId: string
+  task: HierarchicalTask | null
+  allocations: ResourceAllocation[]
+  members: ProjectMember[]
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(' ')
+    .map((part) => part[0])
+    .slice(0, 2)
+    .join('')
+    .toUpperCase()
+
+export default function TaskAllocationDialog({
+  open,
+  onClose,
+  projectId,
+  task,
+  allocations,
+  members,
+}: TaskAllocationDialogProps) {
+  const setTaskAllocations = useSetTaskAllocations()
+  const [rows, setRows] = useState<ResourceAllocationCreate[]>([])
+  const [newMember, setNewMember] = useState<ProjectMember | null>(null)
+
+  // Start from the saved allocations; the assignee is suggested at 100%
+  useEffect(() => {
+    if (!open || !task) return
+
+    const saved = allocations.map((a) => ({
+      user_id: a.user_id,
+      allocation_percent: a.allocation_percent,
+      start_date: a.start_date,
+      end_date: a.end_date,
+    }))
+    if (saved.length === 0 && task.assigned_to) {
+      saved.push({ user_id: task.assigned_to, allocation_percent: 100, start_date: null, end_date: null })
+    }
+    setRows(saved)
+    setNewMember(null)
+  }, [open, task, allocations])
+
+  const memberById = new Map(members.map((m) => [m.id, m]))
+  const availableMembers = members.filter((m) => !rows.some((r) => r.user_id === m.id))
+
+  const updateRow = (userId: string, updates: Partial<ResourceAllocationCreate>) => {
+    setRows((prev) => prev.map((r) => (r.user_id === userId ? { ...r, ...updates } : r)))
+  }
+
+  const handleAdd = () => {
+    if (!newMember) return
+    setRows((prev) => [
+      ...prev,
+      { user_id: newMember.id, allocation_percent: 100, start_date: null, end_date: null },
+    ])
+    setNewMember(null)
+  }
+
+  const handleSave = async () => {
+    if (!task) return
+    await setTaskAllocations.mutateAsync({ taskId: task.id, projectId, allocations: rows })
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Box sx={{ flex: 1 }}>
+          <Typography variant="h6">Alocação de Recursos</Typography>
+          {task && (
+            <Typography variant="body2" color="text.secondary">
+              {task.wbs_code ? `${task.wbs_code} - ` : ''}{task.title}
+            </Typography>
+          )}
+        </Box>
+        <IconButton onClick={onClose} size="small">
+          <Close />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        {rows.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 2 }}>
+            Nenhuma pessoa alocada nesta tarefa
+          </Typography>
+        ) : (
+          rows.map((row) => {
+            const member = memberById.get(row.user_id)
+            const name =
+              member?.full_name ||
+              allocations.find((a) => a.user_id === row.user_id)?.user?.full_name ||
+              'Usuário'
+
+            return (
+              <Box
+                key={row.user_id}
+                sx={{
+                  py: 1.5,
+                  borderBottom: '1px solid',
+                  borderColor: 'divider',
+                }}
+              >
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+                  <Avatar src={member?.avatar_url || undefined} sx={{ width: 32, height: 32, fontSize: '0.8rem' }}>
+                    {getInitials(name)}
+                  </Avatar>
+                  <Typography variant="body2" fontWeight={600} sx={{ flex: 1 }} noWrap>
+                    {name}
+                  </Typography>
+                  <Slider
+                    size="small"
+                    min={5}
+                    max={100}
+                    step={5}
+                    value={row.allocation_percent}
+                    onChange={(_, value) => updateRow(row.user_id, { allocation_percent: value as number })}
+                    sx={{ width: 140 }}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    value={row.allocation_percent}
+                    onChange={(e) =>
+                      updateRow(row.user_id, {
+                        allocation_percent: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)),
+                      })
+                    }
+                    InputProps={{ endAdornment: <InputAdornment position="end">%</InputAdornment> }}
+                    inputProps={{ min: 1, max: 100 }}
+                    sx={{ width: 90 }}
+                  />
+                  <IconButton
+                    size="small"
+                    onClick={() => setRows((prev) => prev.filter((r) => r.user_id !== row.user_id))}
+                    sx={{ color: 'error.main' }}
+                  >
+                    <Delete fontSize="small" />
+                  </IconButton>
+                </Box>
+                <Box sx={{ display: 'flex', gap: 1.5, mt: 1, pl: 5.5 }}>
+                  <TextField
+                    size="small"
+                    type="date"
+                    label="Início"
+                    value={row.start_date || ''}
+                    onChange={(e) => updateRow(row.user_id, { start_date: e.target.value || null })}
+                    InputLabelProps={{ shrink: true }}
+                    helperText={!row.start_date ? 'Data da tarefa' : undefined}
+                    sx={{ flex: 1 }}
+                  />
+                  <TextField
+                    size="small"
+                    type="date"
+                    label="Término"
+                    value={row.end_date || ''}
+                    onChange={(e) => updateRow(row.user_id, { end_date: e.target.value || null })}
+                    InputLabelProps={{ shrink: true }}
+                    helperText={!row.end_date ? 'Data da tarefa' : undefined}
+                    sx={{ flex: 1 }}
+                  />
+                </Box>
+              </Box>
+            )
+          })
+        )}
+
+        <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+          <Autocomplete
+            options={availableMembers}
+            getOptionLabel={(option) => option.full_name}
+            value={newMember}
+            onChange={(_, value) => setNewMember(value)}
+            renderInput={(params) => (
+              <TextField {...params} size="small" label="Adicionar pessoa" placeholder="Buscar membro..." />
+            )}
+            noOptionsText="Nenhum membro disponível"
+            sx={{ flex: 1 }}
+          />
+          <Button variant="outlined" startIcon={<Add />} onClick={handleAdd} disabled={!newMember}>
+            Adicionar
+          </Button>
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={setTaskAllocations.isPending}
+          startIcon={setTaskAllocations.isPending ? <CircularProgress size={16} /> : undefined}
+        >
+          Salvar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,3 @@
+export { default as ResourceView } from './ResourceView'
+export { default as ResourceHistogram } from './ResourceHistogram'
+export { default as TaskAllocationDialog } from './TaskAllocationDialog'
@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { AssignmentTurnedIn } from '@mui/icons-material'
+import type { RetrospectiveItem } from '@/types'
+import { useTeamMembers } from '@/hooks/useSprintCapacity'
+import { useConvertActionToTask, useUpdateActionItem } from '@/hooks/useRetrospectiveActions'
+import { ACTION_STATUS_CONFIG } from '@/utils/retrospective'
+
+interface ActionItemDialogProps {
+  open: boolean
+  item: RetrospectiveItem | null
+  teamId?: string
+  onClose: () => void
+  /** Called after the item was saved or turned into a task */
+  onChanged: () => void
+}
+
+/**
+ * Owner, due date and status of an action item, and its conversion into a
+ * task of the next sprint
+ */
+export default function ActionItemDialog({ open, item, teamId, onClose, onChanged }: ActionItemDialogProps) {
+  const { data: members = [] } = useTeamMembers(teamId)
+  const updateAction = useUpdateActionItem()
+  const convertAction = useConvertActionToTask()
+  const [assignedTo, setAssignedTo] = useState('')
+  const [dueDate, setDueDate] = useState('')
+  const [status, setStatus] = useState('pending')
+
+  useEffect(() => {
+    if (open && item) {
+      setAssignedTo(item.assigned_to || '')
+      setDueDate(item.due_date || '')
+      setStatus(item.status || 'pending')
+    }
+  }, [open, item])
+
+  if (!item) return null
+
+  const handleSave = () => {
+    updateAction.mutate(
+      {
+        itemId: item.id,
+        changes: {
+          assigned_to: assignedTo || null,
+          due_date: dueDate || null,
+          // A linked task drives the status
+          ...(item.task_id ? {} : { status }),
+        },
+      },
+      {
+        onSuccess: () => {
+          onChanged()
+          onClose()
+        },
+      }
+    )
+  }
+
+  const handleConvert = () => {
+    // Save the owner and due date first so the task inherits them
+    updateAction.mutate(
+      { itemId: item.id, changes: { assigned_to: assignedTo || null, due_date: dueDate || null } },
+      {
+        onSuccess: () =>
+          convertAction.mutate(item.id, {
+            onSuccess: () => {
+              onChanged()
+              onClose()
+            },
+          }),
+      }
+    )
+  }
+
+  const saving = updateAction.isPending || convertAction.isPending
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Ação da retrospectiva</DialogTitle>
+      <DialogContent>
+        <Box
+          sx={{
+            p: 1.5,
+            mb: 2.5,
+            borderRadius: 2,
+            bgcolor: 'rgba(99, 102, 241, 0.06)',
+            whiteSpace: 'pre-wrap',
+          }}
+        >
+          <Typography variant="body2">{item.content}</Typography>
+        </Box>
+
+        <Stack spacing={2}>
+          <TextField
+            select
+            fullWidth
+            size="small"
+            label="Responsável"
+            value={assignedTo}
+            onChange={(e) => setAssignedTo(e.target.value)}
+          >
+            <MenuItem value="">
+              <em>Sem responsável</em>
+            </MenuItem>
+            {members.map((member) => (
+              <MenuItem key={member.id} value={member.id}>
+                {member.full_name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            fullWidth
+            size="small"
+            type="date"
+            label="Prazo"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            select
+            fullWidth
+            size="small"
+            label="Status"
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+            disabled={!!item.task_id}
+            helperText={item.task_id ? 'Acompanha o status da tarefa vinculada' : undefined}
+          >
+            {Object.entries(ACTION_STATUS_CONFIG).map(([key, config]) => (
+              <MenuItem key={key} value={key}>
+                {config.label}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Stack>
+
+        {item.task_id && (
+          <Chip
+            icon={<AssignmentTurnedIn sx={{ fontSize: 16 }} />}
+            label="Convertida em tarefa"
+            size="small"
+            color="primary"
+            variant="outlined"
+            sx={{ mt: 2 }}
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        {!item.task_id && (
+          <Button onClick={handleConvert} disabled={saving} sx={{ mr: 'auto' }}>
+            Converter em tarefa
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          Salvar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,129 @@
+import { Box, Chip, CircularProgress, IconButton, Paper, Stack, Tooltip, Typography } from '@mui/material'
+import { AssignmentTurnedIn, Event, History, OpenInNew, Person } from '@mui/icons-material'
+import { useCarriedOverActions, type CarriedOverAction } from '@/hooks/useRetrospectiveActions'
+import { ACTION_STATUS_CONFIG, getCarryOverLabel, isActionOverdue } from '@/utils/retrospective'
+
+interface CarriedOverActionsProps {
+  sprintId: string
+  onOpenAction: (action: CarriedOverAction) => void
+}
+
+/**
+ * Actions from earlier retrospectives that are still open, with how long
+ * they have been carried over, so the team reviews them before writing new ones
+ */
+export default function CarriedOverActions({ sprintId, onOpenAction }: CarriedOverActionsProps) {
+  const { data: actions = [], isLoading } = useCarriedOverActions(sprintId)
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 2, mb: 3 }}>
+        <CircularProgress size={24} />
+      </Box>
+    )
+  }
+
+  if (actions.length === 0) return null
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{ p: 2, mb: 3, borderRadius: 3, border: '2px solid rgba(245, 158, 11, 0.3)', bgcolor: 'rgba(245, 158, 11, 0.05)' }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1.5 }}>
+        <History sx={{ color: '#f59e0b' }} />
+        <Typography variant="subtitle1" fontWeight={700}>
+          Ações em aberto de sprints anteriores
+        </Typography>
+        <Chip label={actions.length} size="small" sx={{ fontWeight: 700, bgcolor: 'rgba(245, 158, 11, 0.15)', color: '#b45309' }} />
+      </Box>
+
+      <Stack spacing={1}>
+        {actions.map((action) => {
+          const status = ACTION_STATUS_CONFIG[action.status] || ACTION_STATUS_CONFIG.pending
+          const overdue = isActionOverdue(action)
+
+          return (
+            <Box
+              key={action.id}
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1,
+                p: 1.5,
+                borderRadius: 2,
+                bgcolor: 'background.paper',
+                border: '1px solid rgba(0, 0, 0, 0.08)',
+                flexWrap: 'wrap',
+              }}
+            >
+              <Box sx={{ flex: 1, minWidth: 200 }}>
+                <Typography variant="body2" fontWeight={600} sx={{ whiteSpace: 'pre-wrap' }}>
+                  {action.content}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {action.sprintName}
+                </Typography>
+              </Box>
+
+              <Tooltip title="Tempo em aberto">
+                <Chip
+                  icon={<History sx={{ fontSize: 14 }} />}
+                  label={getCarryOverLabel(action.sprintsAgo, action.daysOpen)}
+                  size="small"
+                  sx={{
+                    height: 22,
+                    fontWeight: 600,
+                    bgcolor: action.sprintsAgo > 1 ? 'rgba(239, 68, 68, 0.1)' : 'rgba(245, 158, 11, 0.1)',
+                    color: action.sprintsAgo > 1 ? '#ef4444' : '#b45309',
+                    '& .MuiChip-icon': { color: 'inherit' },
+                  }}
+                />
+              </Tooltip>
+              {action.assigned_to_profile && (
+                <Chip
+                  icon={<Person sx={{ fontSize: 14 }} />}
+                  label={action.assigned_to_profile.full_name}
+                  size="small"
+                  sx={{ height: 22 }}
+                />
+              )}
+              {action.due_date && (
+                <Chip
+                  icon={<Event sx={{ fontSize: 14 }} />}
+                  label={new Date(`${action.due_date}T00:00:00`).toLocaleDateString('pt-BR')}
+                  size="small"
+                  color={overdue ? 'error' : 'default'}
+                  variant={overdue ? 'filled' : 'outlined'}
+                  sx={{ height: 22 }}
+                />
+              )}
+              {action.task && (
+                <Tooltip title={action.task.title}>
+                  <Chip
+                    icon={<AssignmentTurnedIn sx={{ fontSize: 14 }} />}
+                    label="Tarefa"
+                    size="small"
+                    color="primary"
+                    variant="outlined"
+                    sx={{ height: 22 }}
+                  />
+                </Tooltip>
+              )}
+              <Chip
+                label={status.label}
+                size="small"
+                sx={{ height: 22, fontWeight: 700, bgcolor: `${status.color}1a`, color: status.color }}
+              />
+              <Tooltip title="Detalhes da ação">
+                <IconButton size="small" onClick={() => onOpenAction(action)}>
+                  <OpenInNew sx={{ fontSize: 16 }} />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          )
+        })}
+      </Stack>
+    </Paper>
+  )
+}
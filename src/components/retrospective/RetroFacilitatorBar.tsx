@@ -0,0 +1,241 @@
+import { useState } from 'react'
+import {
+  Avatar,
+  AvatarGroup,
+  Box,
+  Button,
+  Chip,
+  FormControlLabel,
+  IconButton,
+  Menu,
+  MenuItem,
+  Paper,
+  Step,
+  StepLabel,
+  Stepper,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import { ArrowBack, ArrowForward, HowToVote, RecordVoiceOver, Timer, ViewColumn, Settings } from '@mui/icons-material'
+import type { SprintRetrospective } from '@/types'
+import type { RetroParticipant } from '@/hooks/useRetrospectiveRealtime'
+import { RETRO_PHASES, RETRO_TIMER_PRESETS, getPhaseIndex } from '@/utils/retrospective'
+import RetroTimer from './RetroTimer'
+
+interface RetroFacilitatorBarProps {
+  retrospective: SprintRetrospective
+  isFacilitator: boolean
+  facilitatorName?: string
+  participants: RetroParticipant[]
+  /** Dot votes the current user already placed */
+  votesUsed: number
+  onChange: (changes: Partial<SprintRetrospective>) => void
+  onClaimFacilitation: () => void
+  templateName: string
+  /** Built-in and team formats the facilitator can pick */
+  templateOptions: Array<{ key: string; name: string }>
+  /** The format can only change before any card is written */
+  canChangeTemplate: boolean
+  onChangeTemplate: (template: string) => void
+  /** Opens the team's custom formats; absent without a team */
+  onManageTemplates?: () => void
+}
+
+/**
+ * Phase, timer and settings of a retrospective. Everyone sees them; only
+ * the facilitator can change them.
+ */
+export default function RetroFacilitatorBar({
+  retrospective,
+  isFacilitator,
+  facilitatorName,
+  participants,
+  votesUsed,
+  onChange,
+  onClaimFacilitation,
+  templateName,
+  templateOptions,
+  canChangeTemplate,
+  onChangeTemplate,
+  onManageTemplates,
+}: RetroFacilitatorBarProps) {
+  const [timerAnchor, setTimerAnchor] = useState<HTMLElement | null>(null)
+  const phaseIndex = getPhaseIndex(retrospective.phase)
+  const phase = RETRO_PHASES[phaseIndex]
+
+  const goToPhase = (index: number) => {
+    // A new phase starts without a running timer
+    onChange({ phase: RETRO_PHASES[index].key, timer_ends_at: null })
+  }
+
+  const startTimer = (minutes: number) => {
+    onChange({ timer_ends_at: new Date(Date.now() + minutes * 60 * 1000).toISOString() })
+    setTimerAnchor(null)
+  }
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{ p: 2, mb: 3, borderRadius: 3, border: '2px solid rgba(99, 102, 241, 0.2)' }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <Stepper activeStep={phaseIndex} sx={{ flex: 1, minWidth: 320 }}>
+          {RETRO_PHASES.map((p) => (
+            <Step key={p.key} completed={getPhaseIndex(p.key) < phaseIndex}>
+              <StepLabel>{p.label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+        <RetroTimer endsAt={retrospective.timer_ends_at} />
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mt: 1.5 }}>
+        {phase.hint}
+        {retrospective.phase === 'vote' && ` (${retrospective.votes_per_person} votos por pessoa)`}
+      </Typography>
+
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          gap: 2,
+          mt: 2,
+          flexWrap: 'wrap',
+        }}
+      >
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, flexWrap: 'wrap' }}>
+          <Chip
+            icon={<RecordVoiceOver sx={{ fontSize: 16 }} />}
+            label={`Facilitação: ${isFacilitator ? 'você' : facilitatorName || 'ninguém'}`}
+            size="small"
+            sx={{ fontWeight: 600 }}
+          />
+          {isFacilitator && canChangeTemplate ? (
+            <TextField
+              select
+              size="small"
+              label="Formato"
+              value={retrospective.template}
+              onChange={(e) => onChangeTemplate(e.target.value)}
+              sx={{ minWidth: 180 }}
+            >
+              {templateOptions.map((option) => (
+                <MenuItem key={option.key} value={option.key}>
+                  {option.name}
+                </MenuItem>
+              ))}
+            </TextField>
+          ) : (
+            <Chip icon={<ViewColumn sx={{ fontSize: 16 }} />} label={templateName} size="small" variant="outlined" />
+          )}
+          {onManageTemplates && (
+            <Tooltip title="Formatos do time">
+              <IconButton size="small" onClick={onManageTemplates}>
+                <Settings sx={{ fontSize: 18 }} />
+              </IconButton>
+            </Tooltip>
+          )}
+          {!isFacilitator && (
+            <Button size="small" onClick={onClaimFacilitation}>
+              Assumir facilitação
+            </Button>
+          )}
+          {participants.length > 0 && (
+            <Tooltip title={participants.map((p) => p.full_name).join(', ')}>
+              <AvatarGroup max={6} sx={{ '& .MuiAvatar-root': { width: 28, height: 28, fontSize: '0.75rem' } }}>
+                {participants.map((participant) => (
+                  <Avatar key={participant.id} sx={{ bgcolor: '#6366f1' }}>
+                    {participant.full_name.charAt(0).toUpperCase()}
+                  </Avatar>
+                ))}
+              </AvatarGroup>
+            </Tooltip>
+          )}
+          {retrospective.phase === 'vote' && (
+            <Chip
+              icon={<HowToVote sx={{ fontSize: 16 }} />}
+              label={`Seus votos: ${votesUsed}/${retrospective.votes_per_person}`}
+              size="small"
+              color={votesUsed >= retrospective.votes_per_person ? 'default' : 'primary'}
+              sx={{ fontWeight: 700 }}
+            />
+          )}
+        </Box>
+
+        {isFacilitator && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            {retrospective.phase === 'write' && (
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={retrospective.anonymous}
+                    onChange={(e) => onChange({ anonymous: e.target.checked })}
+                  />
+                }
+                label={<Typography variant="body2">Escrita anônima</Typography>}
+              />
+            )}
+            {retrospective.phase !== 'discuss' && (
+              <TextField
+                select
+                size="small"
+                label="Votos por pessoa"
+                value={retrospective.votes_per_person}
+                onChange={(e) => onChange({ votes_per_person: Number(e.target.value) })}
+                sx={{ width: 140 }}
+              >
+                {[1, 2, 3, 4, 5, 6, 8, 10].map((n) => (
+                  <MenuItem key={n} value={n}>
+                    {n}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+            <Button size="small" variant="outlined" startIcon={<Timer />} onClick={(e) => setTimerAnchor(e.currentTarget)}>
+              Timer
+            </Button>
+            <Menu anchorEl={timerAnchor} open={!!timerAnchor} onClose={() => setTimerAnchor(null)}>
+              {RETRO_TIMER_PRESETS.map((minutes) => (
+                <MenuItem key={minutes} onClick={() => startTimer(minutes)}>
+                  {minutes} minutos
+                </MenuItem>
+              ))}
+              {retrospective.timer_ends_at && (
+                <MenuItem
+                  onClick={() => {
+                    onChange({ timer_ends_at: null })
+                    setTimerAnchor(null)
+                  }}
+                  sx={{ color: 'error.main' }}
+                >
+                  Parar timer
+                </MenuItem>
+              )}
+            </Menu>
+            <Button
+              size="small"
+              startIcon={<ArrowBack />}
+              disabled={phaseIndex === 0}
+              onClick={() => goToPhase(phaseIndex - 1)}
+            >
+              Voltar
+            </Button>
+            <Button
+              size="small"
+              variant="contained"
+              endIcon={<ArrowForward />}
+              disabled={phaseIndex === RETRO_PHASES.length - 1}
+              onClick={() => goToPhase(phaseIndex + 1)}
+            >
+              {phaseIndex < RETRO_PHASES.length - 1 ? RETRO_PHASES[phaseIndex + 1].label : 'Concluído'}
+            </Button>
+          </Box>
+        )}
+      </Box>
+    </Paper>
+  )
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material'
+import type { RetrospectiveItem } from '@/types'
+
+type GroupMode = 'group' | 'merge'
+
+interface RetroGroupDialogProps {
+  open: boolean
+  /** Card being grouped or merged */
+  item: RetrospectiveItem | null
+  /** Cards heading a group in the same column */
+  targets: RetrospectiveItem[]
+  onClose: () => void
+  onConfirm: (mode: GroupMode, targetId: string) => void
+}
+
+/**
+ * Lets the facilitator stack a card under a similar one (both stay) or
+ * merge it into that card (contents and votes are combined)
+ */
+export default function RetroGroupDialog({ open, item, targets, onClose, onConfirm }: RetroGroupDialogProps) {
+  const [mode, setMode] = useState<GroupMode>('group')
+  const [targetId, setTargetId] = useState('')
+
+  useEffect(() => {
+    if (open) {
+      setMode('group')
+      setTargetId('')
+    }
+  }, [open])
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Agrupar cartão</DialogTitle>
+      <DialogContent>
+        {item && (
+          <Box
+            sx={{
+              p: 1.5,
+              mb: 2,
+              borderRadius: 2,
+              bgcolor: 'rgba(99, 102, 241, 0.06)',
+              whiteSpace: 'pre-wrap',
+            }}
+          >
+            <Typography variant="body2">{item.content}</Typography>
+          </Box>
+        )}
+
+        <ToggleButtonGroup
+          value={mode}
+          exclusive
+          size="small"
+          fullWidth
+          onChange={(_, value: GroupMode | null) => value && setMode(value)}
+          sx={{ mb: 1 }}
+        >
+          <ToggleButton value="group">Agrupar</ToggleButton>
+          <ToggleButton value="merge">Mesclar</ToggleButton>
+        </ToggleButtonGroup>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 2 }}>
+          {mode === 'group'
+            ? 'Os cartões ficam empilhados e recebem os votos em conjunto.'
+            : 'O texto é adicionado ao cartão escolhido e este cartão é removido.'}
+        </Typography>
+
+        {targets.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 2 }}>
+            Não há outros cartões nesta coluna
+          </Typography>
+        ) : (
+          <RadioGroup value={targetId} onChange={(e) => setTargetId(e.target.value)}>
+            {targets.map((target) => (
+              <FormControlLabel
+                key={target.id}
+                value={target.id}
+                control={<Radio size="small" />}
+                label={
+                  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                    {target.content}
+                  </Typography>
+                }
+                sx={{ alignItems: 'flex-start', mb: 1, '& .MuiRadio-root': { pt: 0.25 } }}
+              />
+            ))}
+          </RadioGroup>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button variant="contained" disabled={!targetId} onClick={() => onConfirm(mode, targetId)}>
+          {mode === 'group' ? 'Agrupar' : 'Mesclar'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,243 @@
+import { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import { Add, Delete } from '@mui/icons-material'
+import type { RetrospectiveColumn, RetrospectiveItemCategory, RetrospectiveTemplate } from '@/types'
+import { useDeleteRetrospectiveTemplate, useSaveRetrospectiveTemplate } from '@/hooks/useRetrospectiveTemplates'
+import { RETRO_CATEGORY_LABELS, RETRO_TEMPLATES, validateRetroColumns } from '@/utils/retrospective'
+
+interface RetroTemplateDialogProps {
+  open: boolean
+  teamId: string
+  templates: RetrospectiveTemplate[]
+  onClose: () => void
+}
+
+const newColumnKey = () => `col_${Math.random().toString(36).slice(2, 8)}`
+
+/**
+ * Custom column sets of a team: each column has a title, a color and the
+ * base category its cards count as in reports
+ */
+export default function RetroTemplateDialog({ open, teamId, templates, onClose }: RetroTemplateDialogProps) {
+  const saveTemplate = useSaveRetrospectiveTemplate()
+  const deleteTemplate = useDeleteRetrospectiveTemplate()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [baseKey, setBaseKey] = useState('classic')
+  const [columns, setColumns] = useState<RetrospectiveColumn[]>([])
+
+  const startNew = (key = 'classic') => {
+    const base = RETRO_TEMPLATES.find((t) => t.key === key) || RETRO_TEMPLATES[0]
+    setEditingId(null)
+    setBaseKey(base.key)
+    setColumns(base.columns.map((column) => ({ ...column })))
+  }
+
+  useEffect(() => {
+    if (open) {
+      setName('')
+      startNew()
+    }
+  }, [open])
+
+  const startEdit = (template: RetrospectiveTemplate) => {
+    setEditingId(template.id)
+    setName(template.name)
+    setColumns(template.columns.map((column) => ({ ...column })))
+  }
+
+  const updateColumn = (index: number, changes: Partial<RetrospectiveColumn>) => {
+    setColumns((prev) => prev.map((column, i) => (i === index ? { ...column, ...changes } : column)))
+  }
+
+  const validationError = !name.trim() ? 'Dê um nome ao formato' : validateRetroColumns(columns)
+
+  const handleSave = () => {
+    if (validationError) return
+    saveTemplate.mutate(
+      { id: editingId || undefined, teamId, name, columns },
+      { onSuccess: (template) => setEditingId(template.id) }
+    )
+  }
+
+  const handleDelete = (template: RetrospectiveTemplate) => {
+    if (!window.confirm(`Remover o formato "${template.name}"?`)) return
+    deleteTemplate.mutate(template, {
+      onSuccess: () => {
+        if (editingId === template.id) {
+          setName('')
+          startNew()
+        }
+      },
+    })
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Formatos do time</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', gap: 3, flexDirection: { xs: 'column', md: 'row' } }}>
+          <Box sx={{ width: { md: 220 }, flexShrink: 0 }}>
+            <Button
+              fullWidth
+              variant="outlined"
+              startIcon={<Add />}
+              onClick={() => {
+                setName('')
+                startNew()
+              }}
+              sx={{ mb: 1 }}
+            >
+              Novo formato
+            </Button>
+            {templates.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 2 }}>
+                Nenhum formato personalizado
+              </Typography>
+            ) : (
+              <List dense disablePadding>
+                {templates.map((template) => (
+                  <ListItemButton
+                    key={template.id}
+                    selected={editingId === template.id}
+                    onClick={() => startEdit(template)}
+                    sx={{ borderRadius: 1 }}
+                  >
+                    <ListItemText primary={template.name} secondary={`${template.columns.length} colunas`} />
+                    <Tooltip title="Remover">
+                      <IconButton
+                        size="small"
+                        edge="end"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleDelete(template)
+                        }}
+                      >
+                        <Delete sx={{ fontSize: 18 }} />
+                      </IconButton>
+                    </Tooltip>
+                  </ListItemButton>
+                ))}
+              </List>
+            )}
+          </Box>
+
+          <Divider orientation="vertical" flexItem sx={{ display: { xs: 'none', md: 'block' } }} />
+
+          <Box sx={{ flex: 1 }}>
+            <Box sx={{ display: 'flex', gap: 2, mb: 2, mt: 0.5 }}>
+              <TextField
+                size="small"
+                label="Nome"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                sx={{ flex: 1 }}
+              />
+              {!editingId && (
+                <TextField
+                  select
+                  size="small"
+                  label="Começar de"
+                  value={baseKey}
+                  onChange={(e) => startNew(e.target.value)}
+                  sx={{ width: 200 }}
+                >
+                  {RETRO_TEMPLATES.map((template) => (
+                    <MenuItem key={template.key} value={template.key}>
+                      {template.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+            </Box>
+
+            <Stack spacing={1.5}>
+              {columns.map((column, index) => (
+                <Box key={column.key} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <input
+                    type="color"
+                    value={column.color}
+                    onChange={(e) => updateColumn(index, { color: e.target.value })}
+                    style={{ width: 36, height: 36, padding: 0, border: 'none', background: 'transparent', cursor: 'pointer' }}
+                  />
+                  <TextField
+                    size="small"
+                    label="Coluna"
+                    value={column.title}
+                    onChange={(e) => updateColumn(index, { title: e.target.value })}
+                    sx={{ flex: 1 }}
+                  />
+                  <TextField
+                    select
+                    size="small"
+                    label="Conta como"
+                    value={column.category}
+                    onChange={(e) => updateColumn(index, { category: e.target.value as RetrospectiveItemCategory })}
+                    sx={{ width: 150 }}
+                  >
+                    {Object.entries(RETRO_CATEGORY_LABELS).map(([key, label]) => (
+                      <MenuItem key={key} value={key}>
+                        {label}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <IconButton
+                    size="small"
+                    disabled={columns.length <= 2}
+                    onClick={() => setColumns((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Delete sx={{ fontSize: 18 }} />
+                  </IconButton>
+                </Box>
+              ))}
+            </Stack>
+
+            <Button
+              size="small"
+              startIcon={<Add />}
+              disabled={columns.length >= 6}
+              onClick={() =>
+                setColumns((prev) => [...prev, { key: newColumnKey(), title: '', color: '#6b7280', category: 'other' }])
+              }
+              sx={{ mt: 1.5 }}
+            >
+              Adicionar coluna
+            </Button>
+
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              "Conta como" define onde os cartões entram nos relatórios e nos insights da Ada.
+            </Typography>
+            {validationError && (
+              <Typography variant="caption" color="error" sx={{ display: 'block', mt: 0.5 }}>
+                {validationError}
+              </Typography>
+            )}
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Fechar</Button>
+        <Button variant="contained" disabled={!!validationError || saveTemplate.isPending} onClick={handleSave}>
+          Salvar formato
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react'
+import { Chip } from '@mui/material'
+import { Timer, TimerOff } from '@mui/icons-material'
+import { formatCountdown, getRemainingSeconds } from '@/utils/retrospective'
+
+interface RetroTimerProps {
+  /** Shared end of the countdown, set by the facilitator */
+  endsAt: string | null
+}
+
+/**
+ * Countdown every participant sees ticking to the same end time
+ */
+export default function RetroTimer({ endsAt }: RetroTimerProps) {
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    if (!endsAt) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [endsAt])
+
+  const remaining = getRemainingSeconds(endsAt, now)
+  if (remaining === null) return null
+
+  const expired = remaining === 0
+  const color = expired ? '#ef4444' : remaining <= 30 ? '#f59e0b' : '#6366f1'
+
+  return (
+    <Chip
+      icon={expired ? <TimerOff sx={{ fontSize: 18 }} /> : <Timer sx={{ fontSize: 18 }} />}
+      label={expired ? 'Tempo esgotado' : formatCountdown(remaining)}
+      sx={{
+        height: 32,
+        px: 0.5,
+        fontSize: '0.95rem',
+        fontWeight: 800,
+        fontVariantNumeric: 'tabular-nums',
+        bgcolor: `${color}1a`,
+        color,
+        '& .MuiChip-icon': { color },
+      }}
+    />
+  )
+}
@@ -0,0 +1,6 @@
+export { default as ActionItemDialog } from './ActionItemDialog'
+export { default as CarriedOverActions } from './CarriedOverActions'
+export { default as RetroFacilitatorBar } from './RetroFacilitatorBar'
+export { default as RetroGroupDialog } from './RetroGroupDialog'
+export { default as RetroTemplateDialog } from './RetroTemplateDialog'
+export { default as RetroTimer } from './RetroTimer'
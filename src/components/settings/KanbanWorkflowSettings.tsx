@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  IconButton,
+  MenuItem,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import { Add, ArrowDownward, ArrowUpward, Delete, RestartAlt, Save } from '@mui/icons-material'
+import {
+  useResetWorkflow,
+  useSaveWorkflow,
+  useWorkflowDefinition,
+  type WorkflowColumnDraft,
+} from '@/hooks/useWorkflow'
+import { TASK_STATUS_CONFIG, TASK_STATUSES, WIP_POLICY_LABELS, transitionKey } from '@/utils/kanbanWorkflow'
+import type { TaskStatus, WipPolicy } from '@/types/hybrid'
+
+interface KanbanWorkflowSettingsProps {
+  projectId: string
+}
+
+let draftCounter = 0
+const newKey = () => `new-${++draftCounter}`
+
+const defaultDrafts = (): WorkflowColumnDraft[] =>
+  TASK_STATUSES.map((status) => ({
+    key: newKey(),
+    name: TASK_STATUS_CONFIG[status].label,
+    status,
+    color: TASK_STATUS_CONFIG[status].color,
+    wip_limit: null,
+    wip_policy: 'warn',
+  }))
+
+export default function KanbanWorkflowSettings({ projectId }: KanbanWorkflowSettingsProps) {
+  const { data, isLoading } = useWorkflowDefinition(projectId)
+  const saveWorkflow = useSaveWorkflow()
+  const resetWorkflow = useResetWorkflow()
+
+  const [columns, setColumns] = useState<WorkflowColumnDraft[]>([])
+  const [restricted, setRestricted] = useState(false)
+  const [allowed, setAllowed] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    if (!data) return
+    setColumns(
+      data.columns.length > 0
+        ? data.columns.map((column) => ({
+            key: column.id,
+            id: column.id,
+            name: column.name,
+            status: column.status,
+            color: column.color,
+            wip_limit: column.wip_limit,
+            wip_policy: column.wip_policy,
+          }))
+        : defaultDrafts()
+    )
+    setRestricted(data.transitions.length > 0)
+    setAllowed(new Set(data.transitions.map((t) => transitionKey(t.from_column_id, t.to_column_id))))
+  }, [data])
+
+  const updateColumn = (key: string, changes: Partial<WorkflowColumnDraft>) =>
+    setColumns((prev) => prev.map((column) => (column.key === key ? { ...column, ...changes } : column)))
+
+  const moveColumn = (index: number, offset: number) =>
+    setColumns((prev) => {
+      const next = [...prev]
+      const [column] = next.splice(index, 1)
+      next.splice(index + offset, 0, column)
+      return next
+    })
+
+  const toggleTransition = (from: string, to: string) =>
+    setAllowed((prev) => {
+      const next = new Set(prev)
+      const key = transitionKey(from, to)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+
+  const handleRestrict = (value: boolean) => {
+    setRestricted(value)
+    // Start from "anything goes" so turning the rules on does not freeze the board
+    if (value && allowed.size === 0) {
+      setAllowed(
+        new Set(
+          columns.flatMap((from) =>
+            columns.filter((to) => to.key !== from.key).map((to) => transitionKey(from.key, to.key))
+          )
+        )
+      )
+    }
+  }
+
+  const handleSave = () => {
+    const transitions = restricted
+      ? columns.flatMap((from) =>
+          columns
+            .filter((to) => to.key !== from.key && allowed.has(transitionKey(from.key, to.key)))
+            .map((to): [string, string] => [from.key, to.key])
+        )
+      : []
+    saveWorkflow.mutate({ projectId, columns, transitions })
+  }
+
+  const handleReset = () => {
+    const confirmed = window.confirm(
+      'Restaurar o fluxo padrão? As colunas personalizadas, limites WIP e transições serão removidos.'
+    )
+    if (confirmed) resetWorkflow.mutate(projectId)
+  }
+
+  const unmappedStatuses = TASK_STATUSES.filter((status) => !columns.some((column) => column.status === status))
+  const isValid = columns.length > 0 && columns.every((column) => column.name.trim())
+  const isCustom = (data?.columns.length || 0) > 0
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+        <CircularProgress size={28} />
+      </Box>
+    )
+  }
+
+  return (
+    <Box>
+      {/* Columns */}
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+        {columns.map((column, index) => (
+          <Box key={column.key} sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+            <input
+              type="color"
+              value={column.color}
+              onChange={(e) => updateColumn(column.key, { color: e.target.value })}
+              style={{ width: 36, height: 36, padding: 0, border: 'none', background: 'transparent', cursor: 'pointer' }}
+            />
+            <TextField
+              size="small"
+              label="Coluna"
+              value={column.name}
+              onChange={(e) => updateColumn(column.key, { name: e.target.value })}
+              sx={{ flex: 1, minWidth: 140 }}
+            />
+            <TextField
+              select
+              size="small"
+              label="Status"
+              value={column.status}
+              onChange={(e) => updateColumn(column.key, { status: e.target.value as TaskStatus })}
+              sx={{ width: 150 }}
+            >
+              {TASK_STATUSES.map((status) => (
+                <MenuItem key={status} value={status}>
+                  {TASK_STATUS_CONFIG[status].label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              type="number"
+              label="Limite WIP"
+              value={column.wip_limit ?? ''}
+              onChange={(e) =>
+                updateColumn(column.key, { wip_limit: e.target.value ? Math.max(1, Number(e.target.value)) : null })
+              }
+              inputProps={{ min: 1 }}
+              sx={{ width: 110 }}
+            />
+            <TextField
+              select
+              size="small"
+              label="Ao exceder"
+              value={column.wip_policy}
+              onChange={(e) => updateColumn(column.key, { wip_policy: e.target.value as WipPolicy })}
+              disabled={column.wip_limit === null}
+              sx={{ width: 120 }}
+            >
+              {(Object.keys(WIP_POLICY_LABELS) as WipPolicy[]).map((policy) => (
+                <MenuItem key={policy} value={policy}>
+                  {WIP_POLICY_LABELS[policy]}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Box sx={{ display: 'flex' }}>
+              <IconButton size="small" disabled={index === 0} onClick={() => moveColumn(index, -1)}>
+                <ArrowUpward fontSize="small" />
+              </IconButton>
+              <IconButton size="small" disabled={index === columns.length - 1} onClick={() => moveColumn(index, 1)}>
+                <ArrowDownward fontSize="small" />
+              </IconButton>
+              <IconButton
+                size="small"
+                disabled={columns.length === 1}
+                onClick={() => setColumns((prev) => prev.filter((c) => c.key !== column.key))}
+              >
+                <Delete fontSize="small" />
+              </IconButton>
+            </Box>
+          </Box>
+        ))}
+      </Box>
+
+      <Button
+        size="small"
+        startIcon={<Add />}
+        sx={{ mt: 1.5 }}
+        onClick={() =>
+          setColumns((prev) => [
+            ...prev,
+            { key: newKey(), name: '', status: 'in-progress', color: '#6366f1', wip_limit: null, wip_policy: 'warn' },
+          ])
+        }
+      >
+        Adicionar coluna
+      </Button>
+
+      {unmappedStatuses.length > 0 && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          Sem coluna: {unmappedStatuses.map((status) => TASK_STATUS_CONFIG[status].label).join(', ')}. Tarefas
+          nesses status aparecem em uma coluna padrão enquanto existirem.
+        </Typography>
+      )}
+
+      {/* Transitions */}
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mt: 3 }}>
+        <Box>
+          <Typography variant="body2" fontWeight={600}>
+            Restringir transições
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Permitir apenas os movimentos marcados (linha = origem, coluna = destino)
+          </Typography>
+        </Box>
+        <Switch checked={restricted} onChange={(e) => handleRestrict(e.target.checked)} />
+      </Box>
+
+      {restricted && (
+        <Box sx={{ overflowX: 'auto', mt: 1 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>De \ Para</TableCell>
+                {columns.map((to) => (
+                  <TableCell key={to.key} align="center" sx={{ color: to.color, fontWeight: 700 }}>
+                    {to.name || '—'}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {columns.map((from) => (
+                <TableRow key={from.key}>
+                  <TableCell sx={{ color: from.color, fontWeight: 700 }}>{from.name || '—'}</TableCell>
+                  {columns.map((to) => (
+                    <TableCell key={to.key} align="center" padding="checkbox">
+                      {from.key === to.key ? (
+                        '—'
+                      ) : (
+                        <Checkbox
+                          size="small"
+                          checked={allowed.has(transitionKey(from.key, to.key))}
+                          onChange={() => toggleTransition(from.key, to.key)}
+                        />
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 3 }}>
+        {isCustom && (
+          <Tooltip title="Uma coluna por status, sem limites nem restrições">
+            <Button startIcon={<RestartAlt />} onClick={handleReset} disabled={resetWorkflow.isPending}>
+              Restaurar padrão
+            </Button>
+          </Tooltip>
+        )}
+        <Button
+          variant="contained"
+          startIcon={saveWorkflow.isPending ? <CircularProgress size={18} color="inherit" /> : <Save />}
+          onClick={handleSave}
+          disabled={!isValid || saveWorkflow.isPending}
+        >
+          Salvar fluxo
+        </Button>
+      </Box>
+    </Box>
+  )
+}
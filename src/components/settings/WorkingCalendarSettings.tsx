@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react'
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Chip,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  CircularProgress,
+} from '@mui/material'
+import { Add, Delete, EventBusy, EventAvailable } from '@mui/icons-material'
+import {
+  useCalendarExceptions,
+  useCreateCalendarException,
+  useDeleteCalendarException,
+} from '@/hooks/useProjectCalendar'
+import { getBrazilianHolidays, parseDateKey, toDateKey } from '@/utils/gantt/workingCalendar'
+
+interface WorkingCalendarSettingsProps {
+  projectId: string
+  useNationalHolidays: boolean
+}
+
+const formatDate = (value: string) =>
+  parseDateKey(value).toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  })
+
+export default function WorkingCalendarSettings({
+  projectId,
+  useNationalHolidays,
+}: WorkingCalendarSettingsProps) {
+  const { data: exceptions = [], isLoading } = useCalendarExceptions(projectId)
+  const createException = useCreateCalendarException()
+  const deleteException = useDeleteCalendarException()
+
+  const [date, setDate] = useState('')
+  const [name, setName] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+
+  // Next national holidays, as a reminder of what is already excluded
+  const upcomingHolidays = useMemo(() => {
+    if (!useNationalHolidays) return []
+    const today = toDateKey(new Date())
+    const year = new Date().getFullYear()
+    return [...getBrazilianHolidays(year), ...getBrazilianHolidays(year + 1)]
+      .filter((h) => h.date >= today)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(0, 5)
+  }, [useNationalHolidays])
+
+  const handleAdd = async () => {
+    if (!date || !name.trim()) return
+
+    await createException.mutateAsync({
+      project_id: projectId,
+      exception_date: date,
+      name: name.trim(),
+      is_working: isWorking,
+    })
+    setDate('')
+    setName('')
+  }
+
+  return (
+    <Box>
+      {upcomingHolidays.length > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+            Próximos feriados nacionais
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+            {upcomingHolidays.map((holiday) => (
+              <Tooltip key={holiday.date} title={formatDate(holiday.date)}>
+                <Chip
+                  label={holiday.name}
+                  size="small"
+                  sx={{ fontSize: '0.7rem', bgcolor: 'rgba(245, 158, 11, 0.1)', color: '#b45309' }}
+                />
+              </Tooltip>
+            ))}
+          </Box>
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          fullWidth
+          value={isWorking ? 'working' : 'holiday'}
+          onChange={(_, value) => value && setIsWorking(value === 'working')}
+        >
+          <ToggleButton value="holiday">
+            <EventBusy sx={{ fontSize: 16, mr: 0.5 }} />
+            Folga / Feriado
+          </ToggleButton>
+          <ToggleButton value="working">
+            <EventAvailable sx={{ fontSize: 16, mr: 0.5 }} />
+            Dia Útil Extra
+          </ToggleButton>
+        </ToggleButtonGroup>
+        <TextField
+          size="small"
+          type="date"
+          label="Data"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          size="small"
+          label="Descrição"
+          placeholder={isWorking ? 'Ex: Sábado de entrega' : 'Ex: Aniversário da cidade'}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={createException.isPending ? <CircularProgress size={16} /> : <Add />}
+          onClick={handleAdd}
+          disabled={!date || !name.trim() || createException.isPending}
+        >
+          Adicionar Exceção
+        </Button>
+      </Box>
+
+      <Box sx={{ mt: 2 }}>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+            <CircularProgress size={20} />
+          </Box>
+        ) : exceptions.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 1 }}>
+            Nenhuma exceção cadastrada
+          </Typography>
+        ) : (
+          exceptions.map((exception) => (
+            <Box
+              key={exception.id}
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1,
+                py: 0.75,
+                borderBottom: '1px solid',
+                borderColor: 'divider',
+              }}
+            >
+              {exception.is_working ? (
+                <EventAvailable sx={{ fontSize: 18, color: '#10b981' }} />
+              ) : (
+                <EventBusy sx={{ fontSize: 18, color: '#f59e0b' }} />
+              )}
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <Typography variant="body2" fontWeight={600} noWrap>
+                  {exception.name}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {formatDate(exception.exception_date)}
+                </Typography>
+              </Box>
+              <IconButton
+                size="small"
+                onClick={() => deleteException.mutate({ id: exception.id, projectId })}
+                sx={{ color: 'error.main' }}
+              >
+                <Delete fontSize="small" />
+              </IconButton>
+            </Box>
+          ))
+        )}
+      </Box>
+    </Box>
+  )
+}
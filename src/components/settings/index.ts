@@ -1,2 +1,4 @@
 export { default as ProfilePhotoUpload } from './ProfilePhotoUpload'
 export { default as DashboardPreferences } from './DashboardPreferences'
+export { default as WorkingCalendarSettings } from './WorkingCalendarSettings'
+export { default as KanbanWorkflowSettings } from './KanbanWorkflowSettings'
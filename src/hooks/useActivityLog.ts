@@ -0,0 +1,177 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import type { ActivityAction, ActivityLogEntry } from '@/types'
+import { ACTIVITY_REFERENCE_FIELDS } from '@/utils/activityLog'
+
+const ACTIVITY_SELECT = `
+  *,
+  user:profiles!activities_user_id_fkey(full_name, avatar_url)
+`
+
+const NAME_COLUMNS = {
+  profiles: 'full_name',
+  sprints: 'name',
+  tasks: 'title',
+  teams: 'name',
+  projects: 'name',
+} as const
+
+const HISTORY_LIMIT = 200
+
+export interface ActivityHistory {
+  entries: ActivityLogEntry[]
+  /** Display names of the ids found in the logged changes */
+  references: Record<string, string>
+}
+
+/** Restricts the feed to projects; null means no restriction */
+export interface ActivityScope {
+  projectIds: string[]
+  /** projectIds lists the projects left out instead of the ones shown */
+  exclude: boolean
+  /** Also include entries not tied to a project (teams) */
+  includeNoProject: boolean
+}
+
+export interface ActivityFeedFilters {
+  scope?: ActivityScope | null
+  projectId?: string | null
+  userId?: string | null
+  action?: ActivityAction | null
+  limit?: number
+}
+
+export interface ActivityFilterOptions {
+  projects: { id: string; name: string }[]
+  people: { id: string; full_name: string }[]
+}
+
+const EMPTY_ID = '00000000-0000-0000-0000-000000000000'
+
+/**
+ * Resolve names for every id referenced in the changes of the given entries
+ */
+async function fetchReferences(entries: ActivityLogEntry[]): Promise<Record<string, string>> {
+  const idsByTable = new Map<keyof typeof NAME_COLUMNS, Set<string>>()
+
+  entries.forEach((entry) => {
+    Object.entries(entry.details?.changes || {}).forEach(([field, change]) => {
+      const table = ACTIVITY_REFERENCE_FIELDS[field]
+      if (!table) return
+      const ids = idsByTable.get(table) || new Set<string>()
+      ;[change.old, change.new].forEach((value) => {
+        if (typeof value === 'string') ids.add(value)
+      })
+      idsByTable.set(table, ids)
+    })
+  })
+
+  const references: Record<string, string> = {}
+  await Promise.all(
+    Array.from(idsByTable.entries())
+      .filter(([, ids]) => ids.size > 0)
+      .map(async ([table, ids]) => {
+        const column = NAME_COLUMNS[table]
+        const { data, error } = await supabase.from(table).select(`id, ${column}`).in('id', Array.from(ids))
+        if (error) throw error
+        ;(data || []).forEach((row: Record<string, string>) => {
+          references[row.id] = row[column]
+        })
+      })
+  )
+  return references
+}
+
+/**
+ * Hook to fetch the history of a task (including its comments) or a project
+ * (everything logged under it)
+ */
+export function useEntityActivity(entityType: 'task' | 'project', entityId: string | undefined) {
+  return useQuery({
+    queryKey:
+      entityType === 'project'
+        ? queryKeys.activities.project(entityId || '')
+        : queryKeys.activities.entity(entityType, entityId || ''),
+    queryFn: async (): Promise<ActivityHistory> => {
+      if (!entityId) return { entries: [], references: {} }
+
+      let query = supabase
+        .from('activities')
+        .select(ACTIVITY_SELECT)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT)
+
+      query =
+        entityType === 'project'
+          ? query.eq('project_id', entityId)
+          : query.or(`entity_id.eq.${entityId},details->>task_id.eq.${entityId}`)
+
+      const { data, error } = await query
+      if (error) throw error
+
+      const entries = (data || []) as ActivityLogEntry[]
+      return { entries, references: await fetchReferences(entries) }
+    },
+    enabled: !!entityId,
+    // Edits elsewhere in the modal are not tracked by react-query
+    staleTime: 0,
+  })
+}
+
+/**
+ * Hook to fetch the cross-project activity feed
+ */
+export function useActivityFeed(filters: ActivityFeedFilters) {
+  const { scope = null, projectId = null, userId = null, action = null, limit = 50 } = filters
+
+  return useQuery({
+    queryKey: queryKeys.activities.feed({ scope, projectId, userId, action, limit }),
+    queryFn: async (): Promise<ActivityLogEntry[]> => {
+      let query = supabase
+        .from('activities')
+        .select(ACTIVITY_SELECT)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (projectId) {
+        query = query.eq('project_id', projectId)
+      } else if (scope) {
+        const ids = scope.projectIds.length > 0 ? scope.projectIds : [EMPTY_ID]
+        const operator = scope.exclude ? 'not.in' : 'in'
+        query = scope.includeNoProject
+          ? query.or(`project_id.is.null,project_id.${operator}.(${ids.join(',')})`)
+          : query.filter('project_id', operator, `(${ids.join(',')})`)
+      }
+      if (userId) query = query.eq('user_id', userId)
+      if (action) query = query.eq('action', action)
+
+      const { data, error } = await query
+      if (error) throw error
+      return (data || []) as ActivityLogEntry[]
+    },
+  })
+}
+
+/**
+ * Hook to list the projects and people available as feed filters
+ */
+export function useActivityFilterOptions() {
+  return useQuery({
+    queryKey: queryKeys.activities.filterOptions(),
+    queryFn: async (): Promise<ActivityFilterOptions> => {
+      const [projectsRes, peopleRes] = await Promise.all([
+        supabase.from('projects').select('id, name').order('name'),
+        supabase.from('profiles').select('id, full_name').order('full_name'),
+      ])
+      if (projectsRes.error) throw projectsRes.error
+      if (peopleRes.error) throw peopleRes.error
+
+      return {
+        projects: projectsRes.data || [],
+        people: (peopleRes.data || []).filter((p) => p.full_name),
+      }
+    },
+    staleTime: 1000 * 60 * 10,
+  })
+}
@@ -0,0 +1,121 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import type { ProjectBaseline, TaskBaseline } from '@/types/hybrid'
+import toast from 'react-hot-toast'
+
+/**
+ * Hook to list the saved baselines of a project (newest first)
+ */
+export function useBaselines(projectId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.baselines.list(projectId || ''),
+    queryFn: async (): Promise<ProjectBaseline[]> => {
+      if (!projectId) return []
+
+      const { data, error } = await supabase
+        .from('project_baselines')
+        .select(`
+          *,
+          created_by_profile:profiles!project_baselines_created_by_fkey(id, full_name),
+          task_baselines(count)
+        `)
+        .eq('project_id', projectId)
+        .order('baseline_number', { ascending: false })
+
+      if (error) throw error
+
+      return (data || []).map(({ task_baselines, ...baseline }) => ({
+        ...baseline,
+        task_count: (task_baselines as { count: number }[] | null)?.[0]?.count ?? 0,
+        created_by_profile: baseline.created_by_profile || undefined,
+      }))
+    },
+    enabled: !!projectId,
+  })
+}
+
+/**
+ * Hook to fetch the task snapshots of a baseline
+ */
+export function useBaselineTasks(baselineId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.baselines.detail(baselineId || ''),
+    queryFn: async (): Promise<TaskBaseline[]> => {
+      if (!baselineId) return []
+
+      const { data, error } = await supabase
+        .from('task_baselines')
+        .select('*')
+        .eq('baseline_id', baselineId)
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!baselineId,
+    staleTime: Infinity, // baselines are immutable snapshots
+  })
+}
+
+/**
+ * Hook to save a new numbered baseline of the current schedule
+ */
+export function useCreateBaseline() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      projectId,
+      name,
+      description,
+    }: {
+      projectId: string
+      name: string
+      description?: string
+    }) => {
+      const { data, error } = await supabase.rpc('create_project_baseline', {
+        p_project_id: projectId,
+        p_name: name,
+        p_description: description || null,
+      })
+
+      if (error) throw error
+      return { projectId, baselineId: data as string }
+    },
+    onSuccess: ({ projectId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.baselines.list(projectId) })
+      toast.success('Linha de base salva')
+    },
+    onError: (error) => {
+      console.error('Error creating baseline:', error)
+      toast.error('Erro ao salvar linha de base')
+    },
+  })
+}
+
+/**
+ * Hook to delete a baseline (task snapshots cascade)
+ */
+export function useDeleteBaseline() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, projectId }: { id: string; projectId: string }) => {
+      const { error } = await supabase
+        .from('project_baselines')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      return { projectId }
+    },
+    onSuccess: ({ projectId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.baselines.list(projectId) })
+      toast.success('Linha de base excluída')
+    },
+    onError: (error) => {
+      console.error('Error deleting baseline:', error)
+      toast.error('Erro ao excluir linha de base')
+    },
+  })
+}
@@ -2,41 +2,69 @@ import { useMemo } from 'react'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { supabase } from '@/lib/supabase'
 import type { HierarchicalTask, TaskDependency } from '@/types/hybrid'
-import { calculateCriticalPath, applyCriticalPathToTasks, type CPMTask } from '@/utils/gantt/criticalPath'
+import {
+  calculateCriticalPath,
+  applyCriticalPathToTasks,
+  describeCycle,
+  describeConstraintConflict,
+  type CPMResult,
+  type CPMTask,
+} from '@/utils/gantt/criticalPath'
+import { DEFAULT_WORKING_CALENDAR, type WorkingCalendar } from '@/utils/gantt/workingCalendar'
 import toast from 'react-hot-toast'
 
 interface UseCriticalPathOptions {
   tasks: HierarchicalTask[]
   dependencies: TaskDependency[]
   projectStartDate?: Date
+  calendar?: WorkingCalendar
 }
 
 export function useCriticalPath({
   tasks,
   dependencies,
-  projectStartDate = new Date(),
+  projectStartDate,
+  calendar = DEFAULT_WORKING_CALENDAR,
 }: UseCriticalPathOptions) {
-  const cpmResult = useMemo(() => {
+  // Defaults to today, resolved once so the memos below stay stable
+  const startDate = useMemo(() => projectStartDate ?? new Date(), [projectStartDate])
+
+  const cpmResult = useMemo((): CPMResult => {
     if (tasks.length === 0) {
       return {
         tasks: new Map<string, CPMTask>(),
-        criticalPath: [] as string[],
+        criticalPath: [],
         projectDuration: 0,
+        cycle: null,
+        conflicts: [],
       }
     }
 
-    return calculateCriticalPath(tasks, dependencies)
-  }, [tasks, dependencies])
+    return calculateCriticalPath(tasks, dependencies, { projectStartDate: startDate, calendar })
+  }, [tasks, dependencies, startDate, calendar])
+
+  // Constraint conflict message per task id, for warnings in Gantt and grid
+  const constraintWarnings = useMemo(() => {
+    const warnings = new Map<string, string>()
+    cpmResult.conflicts.forEach((conflict) => {
+      warnings.set(conflict.taskId, describeConstraintConflict(conflict))
+    })
+    return warnings
+  }, [cpmResult])
 
   const tasksWithCPM = useMemo(() => {
-    return applyCriticalPathToTasks(tasks, cpmResult, projectStartDate)
-  }, [tasks, cpmResult, projectStartDate])
+    return applyCriticalPathToTasks(tasks, cpmResult, startDate, calendar)
+  }, [tasks, cpmResult, startDate, calendar])
 
   return {
     cpmResult,
     tasksWithCPM,
     criticalPath: cpmResult.criticalPath,
     projectDuration: cpmResult.projectDuration,
+    cycle: cpmResult.cycle,
+    cycleDescription: cpmResult.cycle ? describeCycle(cpmResult.cycle, tasks) : null,
+    conflicts: cpmResult.conflicts,
+    constraintWarnings,
     isCritical: (taskId: string) => cpmResult.criticalPath.includes(taskId),
     getTaskCPM: (taskId: string) => cpmResult.tasks.get(taskId),
   }
@@ -50,13 +78,19 @@ export function useRecalculateCriticalPath(projectId: string) {
       tasks,
       dependencies,
       projectStartDate,
+      calendar = DEFAULT_WORKING_CALENDAR,
     }: {
       tasks: HierarchicalTask[]
       dependencies: TaskDependency[]
       projectStartDate: Date
+      calendar?: WorkingCalendar
     }) => {
-      const cpmResult = calculateCriticalPath(tasks, dependencies)
-      const tasksWithCPM = applyCriticalPathToTasks(tasks, cpmResult, projectStartDate)
+      const cpmResult = calculateCriticalPath(tasks, dependencies, { projectStartDate, calendar })
+      if (cpmResult.cycle) {
+        throw new Error(`Ciclo de dependências: ${describeCycle(cpmResult.cycle, tasks)}`)
+      }
+
+      const tasksWithCPM = applyCriticalPathToTasks(tasks, cpmResult, projectStartDate, calendar)
 
       // Update each task with CPM data
       const updates = tasksWithCPM
@@ -96,12 +130,15 @@ export function useRecalculateCriticalPath(projectId: string) {
         updatedCount: updates.length,
       }
     },
-    onSuccess: ({ updatedCount }) => {
+    onSuccess: ({ cpmResult, updatedCount }) => {
       queryClient.invalidateQueries({ queryKey: ['tasks', projectId] })
       toast.success(`Caminho crítico recalculado (${updatedCount} tarefas)`)
+      if (cpmResult.conflicts.length > 0) {
+        toast.error(`${cpmResult.conflicts.length} restrição(ões) de data não podem ser cumpridas`)
+      }
     },
-    onError: () => {
-      toast.error('Erro ao recalcular caminho crítico')
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao recalcular caminho crítico')
     },
   })
 }
@@ -0,0 +1,131 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { fetchAllRows, supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import { buildEpicSummaries, isEpicLevel, type EpicLevel, type EpicRow, type EpicStoryRow, type EpicSummary } from '@/utils/epics'
+import toast from 'react-hot-toast'
+
+export interface EpicData {
+  epics: EpicRow[]
+  summaries: EpicSummary[]
+}
+
+export interface EpicInput {
+  id?: string
+  project_id: string
+  title: string
+  description: string
+  task_type: EpicLevel
+  /** Epic of a feature */
+  parent_task_id: string | null
+  status: string
+}
+
+/**
+ * Hook to fetch the epics and features of a project with the progress of
+ * the stories below them
+ *
+ * null reads the epics of every project; undefined or an empty id waits.
+ */
+export function useEpics(projectId: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.tasks.epics(projectId ?? undefined),
+    queryFn: async (): Promise<EpicData> => {
+      let query = supabase
+        .from('tasks')
+        .select('id, title, description, status, task_type, parent_task_id, project_id, created_at')
+        .in('task_type', ['epic', 'feature'])
+        .order('created_at')
+      if (projectId) query = query.eq('project_id', projectId)
+
+      const { data, error } = await query
+      if (error) throw error
+      const epics = (data || []) as EpicRow[]
+
+      const stories =
+        epics.length > 0
+          ? await fetchAllRows<EpicStoryRow & { task_type: string | null }>((from, to) =>
+              supabase
+                .from('tasks')
+                .select('id, parent_task_id, status, story_points, task_type')
+                .in('parent_task_id', epics.map((e) => e.id))
+                .order('id')
+                .range(from, to)
+            )
+          : []
+
+      return {
+        epics,
+        summaries: buildEpicSummaries(
+          epics,
+          stories.filter((story) => !isEpicLevel(story))
+        ),
+      }
+    },
+    enabled: projectId === null || !!projectId,
+    staleTime: 1000 * 60,
+  })
+}
+
+/**
+ * Hook to create or update an epic or feature
+ */
+export function useSaveEpic() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: EpicInput) => {
+      const values = {
+        ...input,
+        title: input.title.trim(),
+        description: input.description.trim(),
+        parent_task_id: input.task_type === 'feature' ? input.parent_task_id : null,
+      }
+
+      if (id) {
+        const { error } = await supabase.from('tasks').update(values).eq('id', id)
+        if (error) throw error
+      } else {
+        const { data: authData } = await supabase.auth.getUser()
+        const { error } = await supabase.from('tasks').insert({
+          ...values,
+          priority: 'medium',
+          story_points: 0,
+          sprint_id: null,
+          created_by: authData.user?.id,
+        })
+        if (error) throw error
+      }
+    },
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all })
+      toast.success(input.id ? 'Épico atualizado' : 'Épico criado')
+    },
+    onError: (error) => {
+      console.error('Error saving epic:', error)
+      toast.error('Erro ao salvar épico')
+    },
+  })
+}
+
+/**
+ * Hook to delete an epic or feature; its stories stay in the backlog
+ * without an epic (parent_task_id is set to null)
+ */
+export function useDeleteEpic() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('tasks').delete().eq('id', id)
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all })
+      toast.success('Épico excluído')
+    },
+    onError: (error) => {
+      console.error('Error deleting epic:', error)
+      toast.error('Erro ao excluir épico')
+    },
+  })
+}
@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchAllRows, supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import { isEpicLevel } from '@/utils/epics'
+import type { FlowTaskRow, FlowTransitionRow } from '@/utils/flowMetrics'
+
+export interface FlowData {
+  tasks: FlowTaskRow[]
+  transitions: FlowTransitionRow[]
+}
+
+/**
+ * Hook to fetch the tasks of a project with their status transitions, for
+ * the flow metrics (epics and features are containers, not work items)
+ */
+export function useFlowData(projectId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.tasks.flow(projectId || ''),
+    queryFn: async (): Promise<FlowData> => {
+      const [tasks, transitions] = await Promise.all([
+        fetchAllRows<FlowTaskRow & { task_type: string | null }>((from, to) =>
+          supabase
+            .from('tasks')
+            .select('id, title, status, created_at, completed_at, task_type')
+            .eq('project_id', projectId!)
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAllRows<FlowTransitionRow>((from, to) =>
+          supabase
+            .from('task_status_transitions')
+            .select('task_id, from_status, to_status, changed_at')
+            .eq('project_id', projectId!)
+            .order('changed_at')
+            .range(from, to)
+        ),
+      ])
+
+      return {
+        tasks: tasks.filter((task) => !isEpicLevel(task)),
+        transitions,
+      }
+    },
+    enabled: !!projectId,
+    staleTime: 1000 * 60,
+  })
+}
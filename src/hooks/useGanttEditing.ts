@@ -0,0 +1,245 @@
+import { useCallback, useState } from 'react'
+import { useUpdateTasksBatch } from '@/hooks/useTaskHierarchy'
+import { useCreateDependency, useDeleteDependency } from '@/hooks/useDependencies'
+import { propagateSchedule, type TaskDateChange } from '@/utils/gantt/rescheduling'
+import { calculateDuration, toDateKey, type WorkingCalendar } from '@/utils/gantt/workingCalendar'
+import type { HierarchicalTask, HierarchicalTaskUpdate, TaskDependency } from '@/types/hybrid'
+import toast from 'react-hot-toast'
+
+interface UseGanttEditingOptions {
+  projectId: string
+  tasks: HierarchicalTask[]
+  dependencies: TaskDependency[]
+  calendar: WorkingCalendar
+}
+
+/** Last interactive change, kept so it can be undone */
+interface GanttEdit {
+  label: string
+  previous: Array<{ id: string; updates: HierarchicalTaskUpdate }>
+  dependencyId?: string
+}
+
+const dateKey = (value: string | null) => (value ? value.split('T')[0] : null)
+
+const notifyMovedSuccessors = (count: number) => {
+  if (count > 0) {
+    toast.success(count === 1 ? '1 sucessora reagendada' : `${count} sucessoras reagendadas`)
+  }
+}
+
+/**
+ * Hook behind Gantt drag interactions: move/resize bars, set progress and link
+ * tasks, rescheduling successors and keeping the last change for undo.
+ * Also applies batch reschedules such as resource leveling.
+ */
+export function useGanttEditing({ projectId, tasks, dependencies, calendar }: UseGanttEditingOptions) {
+  const updateTasks = useUpdateTasksBatch()
+  const createDependency = useCreateDependency()
+  const deleteDependency = useDeleteDependency()
+  const [lastEdit, setLastEdit] = useState<GanttEdit | null>(null)
+
+  /**
+   * Save date changes that differ from the current schedule; returns the ones saved
+   */
+  const applyDateChanges = useCallback(
+    async (changes: TaskDateChange[], label: string, dependencyId?: string) => {
+      const taskMap = new Map(tasks.map((t) => [t.id, t]))
+      const effective = changes.filter((change) => {
+        const task = taskMap.get(change.id)
+        return (
+          task &&
+          (dateKey(task.start_date) !== change.start_date ||
+            dateKey(task.end_date) !== change.end_date)
+        )
+      })
+      if (effective.length === 0 && !dependencyId) return effective
+
+      const previous = effective.map((change) => {
+        const task = taskMap.get(change.id) as HierarchicalTask
+        return {
+          id: change.id,
+          updates: {
+            start_date: task.start_date,
+            end_date: task.end_date,
+            planned_duration: task.planned_duration,
+          },
+        }
+      })
+
+      if (effective.length > 0) {
+        await updateTasks.mutateAsync({
+          projectId,
+          updates: effective.map(({ id, ...updates }) => ({ id, updates })),
+        })
+      }
+
+      setLastEdit({ label, previous, dependencyId })
+      return effective
+    },
+    [tasks, projectId, updateTasks]
+  )
+
+  /**
+   * Set new dates for a task (drag or resize); successors are pushed as needed
+   */
+  const rescheduleTask = useCallback(
+    async (taskId: string, start: Date, end: Date, label: string) => {
+      const task = tasks.find((t) => t.id === taskId)
+      if (!task) return
+
+      const isMilestone = task.task_type === 'milestone'
+      const change: TaskDateChange = {
+        id: taskId,
+        start_date: toDateKey(start),
+        end_date: toDateKey(isMilestone ? start : end),
+        planned_duration: isMilestone ? 0 : calculateDuration(start, end, calendar),
+      }
+
+      try {
+        const saved = await applyDateChanges(
+          propagateSchedule(tasks, dependencies, [change], calendar),
+          label
+        )
+        // The first change is the task the user edited; the rest were pushed
+        notifyMovedSuccessors(saved.filter((c) => c.id !== taskId).length)
+      } catch {
+        // Error toast is shown by the mutation
+      }
+    },
+    [tasks, dependencies, calendar, applyDateChanges]
+  )
+
+  /**
+   * Set percent complete, keeping the status in sync like the grid does
+   */
+  const setProgress = useCallback(
+    async (taskId: string, percent: number) => {
+      const task = tasks.find((t) => t.id === taskId)
+      if (!task || task.percent_complete === percent) return
+
+      const updates: HierarchicalTaskUpdate = { percent_complete: percent }
+      if (percent === 100 && task.status !== 'done') {
+        updates.status = 'done'
+        updates.completed_at = new Date().toISOString()
+      } else if (percent < 100 && task.status === 'done') {
+        updates.status = 'in-progress'
+        updates.completed_at = null
+      } else if (percent > 0 && task.status === 'todo') {
+        updates.status = 'in-progress'
+      }
+
+      try {
+        await updateTasks.mutateAsync({ projectId, updates: [{ id: taskId, updates }] })
+        setLastEdit({
+          label: 'Progresso',
+          previous: [
+            {
+              id: taskId,
+              updates: {
+                percent_complete: task.percent_complete,
+                status: task.status,
+                completed_at: task.completed_at,
+              },
+            },
+          ],
+        })
+      } catch {
+        // Error toast is shown by the mutation
+      }
+    },
+    [tasks, projectId, updateTasks]
+  )
+
+  /**
+   * Create a finish-to-start link and push the successor if it now starts too early
+   */
+  const linkTasks = useCallback(
+    async (predecessorId: string, successorId: string) => {
+      const predecessor = tasks.find((t) => t.id === predecessorId)
+      if (!predecessor || predecessorId === successorId) return
+
+      try {
+        const dependency = await createDependency.mutateAsync({
+          predecessor_id: predecessorId,
+          successor_id: successorId,
+          dependency_type: 'FS',
+        })
+
+        const startKey = dateKey(predecessor.start_date)
+        const endKey = dateKey(predecessor.end_date) ?? startKey
+        const changes =
+          startKey && endKey
+            ? propagateSchedule(
+                tasks,
+                [...dependencies, dependency],
+                [
+                  {
+                    id: predecessorId,
+                    start_date: startKey,
+                    end_date: endKey,
+                    planned_duration: predecessor.planned_duration || 0,
+                  },
+                ],
+                calendar
+              )
+            : []
+
+        const saved = await applyDateChanges(changes, 'Vincular tarefas', dependency.id)
+        notifyMovedSuccessors(saved.filter((c) => c.id !== predecessorId).length)
+      } catch {
+        // Error toast is shown by the mutation
+      }
+    },
+    [tasks, dependencies, calendar, createDependency, applyDateChanges]
+  )
+
+  /**
+   * Apply a precomputed reschedule (e.g. resource leveling) as one undoable edit
+   */
+  const applySchedule = useCallback(
+    async (changes: TaskDateChange[], label: string) => {
+      try {
+        const saved = await applyDateChanges(changes, label)
+        if (saved.length > 0) {
+          toast.success(
+            saved.length === 1 ? '1 tarefa reagendada' : `${saved.length} tarefas reagendadas`
+          )
+        }
+        return true
+      } catch {
+        // Error toast is shown by the mutation
+        return false
+      }
+    },
+    [applyDateChanges]
+  )
+
+  const undo = useCallback(async () => {
+    if (!lastEdit) return
+
+    try {
+      if (lastEdit.dependencyId) {
+        await deleteDependency.mutateAsync(lastEdit.dependencyId)
+      }
+      if (lastEdit.previous.length > 0) {
+        await updateTasks.mutateAsync({ projectId, updates: lastEdit.previous })
+      }
+      setLastEdit(null)
+      toast.success(`Desfeito: ${lastEdit.label}`)
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  }, [lastEdit, projectId, deleteDependency, updateTasks])
+
+  return {
+    rescheduleTask,
+    setProgress,
+    linkTasks,
+    applySchedule,
+    undo,
+    canUndo: !!lastEdit,
+    lastEditLabel: lastEdit?.label ?? null,
+    isSaving: updateTasks.isPending || createDependency.isPending || deleteDependency.isPending,
+  }
+}
@@ -0,0 +1,105 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import { useAuth } from '@/contexts/AuthContext'
+import type { KanbanFilters, KanbanSavedFilter } from '@/types'
+import toast from 'react-hot-toast'
+
+/**
+ * Hook to fetch the Kanban filters the current user saved for a project
+ */
+export function useSavedKanbanFilters(projectId: string | undefined) {
+  const { user } = useAuth()
+
+  return useQuery({
+    queryKey: queryKeys.kanbanFilters.saved(user?.id ?? '', projectId || ''),
+    queryFn: async (): Promise<KanbanSavedFilter[]> => {
+      const { data, error } = await supabase
+        .from('kanban_saved_filters')
+        .select('*')
+        .eq('user_id', user!.id)
+        .eq('project_id', projectId)
+        .order('name')
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!user?.id && !!projectId,
+  })
+}
+
+/**
+ * Hook to save the current Kanban filters under a name (a filter with the
+ * same name is replaced)
+ */
+export function useSaveKanbanFilter() {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ projectId, name, filters }: { projectId: string; name: string; filters: KanbanFilters }) => {
+      if (!user?.id) throw new Error('User not authenticated')
+
+      const { error } = await supabase
+        .from('kanban_saved_filters')
+        .upsert(
+          { user_id: user.id, project_id: projectId, name: name.trim(), filters },
+          { onConflict: 'user_id,project_id,name' }
+        )
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.kanbanFilters.all })
+      toast.success('Filtro salvo')
+    },
+    onError: (error) => {
+      console.error('Error saving Kanban filter:', error)
+      toast.error('Erro ao salvar filtro')
+    },
+  })
+}
+
+/**
+ * Hook to delete a saved Kanban filter
+ */
+export function useDeleteKanbanFilter() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('kanban_saved_filters').delete().eq('id', id)
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.kanbanFilters.all })
+      toast.success('Filtro excluído')
+    },
+    onError: (error) => {
+      console.error('Error deleting Kanban filter:', error)
+      toast.error('Erro ao excluir filtro')
+    },
+  })
+}
+
+/**
+ * Hook to list the labels already used in a project, for suggestions
+ */
+export function useProjectLabels(projectId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.kanbanFilters.labels(projectId || ''),
+    queryFn: async (): Promise<string[]> => {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('labels')
+        .eq('project_id', projectId)
+        .not('labels', 'eq', '{}')
+
+      if (error) throw error
+      const labels = new Set<string>()
+      ;(data || []).forEach((row: { labels: string[] | null }) => (row.labels || []).forEach((label) => labels.add(label)))
+      return Array.from(labels).sort((a, b) => a.localeCompare(b))
+    },
+    enabled: !!projectId,
+    staleTime: 1000 * 60,
+  })
+}
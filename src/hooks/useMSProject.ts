@@ -0,0 +1,226 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import type { MSProjectImport } from '@/utils/msProjectXml'
+import toast from 'react-hot-toast'
+
+interface ImportMSProjectParams {
+  projectId: string
+  data: MSProjectImport
+  importDependencies: boolean
+  /** Baseline name; no baseline is created when null */
+  baselineName: string | null
+}
+
+/** What an import created, plus what was left out */
+export interface MSProjectImportReport {
+  tasksCreated: number
+  dependenciesCreated: number
+  baselineNumber: number | null
+  warnings: string[]
+}
+
+/**
+ * Remove what a failed import created: its baseline, then tasks from the
+ * deepest level up (links and task baselines go with their tasks)
+ */
+async function rollbackImport(createdLevels: string[][], baselineId: string | null) {
+  if (baselineId) {
+    await supabase.from('task_baselines').delete().eq('baseline_id', baselineId)
+    await supabase.from('project_baselines').delete().eq('id', baselineId)
+  }
+  for (const ids of [...createdLevels].reverse()) {
+    await supabase.from('task_dependencies').delete().in('successor_id', ids)
+    await supabase.from('task_dependencies').delete().in('predecessor_id', ids)
+    const { error } = await supabase.from('tasks').delete().in('id', ids)
+    if (error) console.error('Error rolling back MS Project import:', error)
+  }
+}
+
+/**
+ * Hook to import a parsed MS Project file into a project
+ *
+ * Tasks are appended after the existing ones, parents first, so the tree can
+ * be linked as it is created. Links the database rejects (e.g. cycles) are
+ * reported instead of failing the import; any other failure removes what the
+ * import already created.
+ */
+export function useImportMSProject() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      projectId,
+      data,
+      importDependencies,
+      baselineName,
+    }: ImportMSProjectParams): Promise<MSProjectImportReport> => {
+      const warnings = [...data.warnings]
+
+      const { data: lastRoot } = await supabase
+        .from('tasks')
+        .select('order_index')
+        .eq('project_id', projectId)
+        .is('parent_task_id', null)
+        .order('order_index', { ascending: false })
+        .limit(1)
+      const rootOffset = lastRoot?.[0]?.order_index || 0
+
+      // Resolve parents from outline levels and give each task a database id
+      const idByUid = new Map<string, string>()
+      const parentUidByUid = new Map<string, string | null>()
+      const siblingCount = new Map<string | null, number>()
+      const stack: { uid: string; level: number }[] = []
+
+      const rows = data.tasks.map((task) => {
+        while (stack.length > 0 && stack[stack.length - 1].level >= task.outlineLevel) stack.pop()
+        const parentUid = stack[stack.length - 1]?.uid ?? null
+        stack.push({ uid: task.uid, level: task.outlineLevel })
+
+        const id = crypto.randomUUID()
+        idByUid.set(task.uid, id)
+        parentUidByUid.set(task.uid, parentUid)
+
+        const siblingIndex = (siblingCount.get(parentUid) || 0) + 1
+        siblingCount.set(parentUid, siblingIndex)
+
+        return {
+          level: stack.length - 1,
+          row: {
+            id,
+            project_id: projectId,
+            title: task.title,
+            description: task.description,
+            parent_task_id: parentUid ? idByUid.get(parentUid) : null,
+            hierarchy_level: stack.length - 1,
+            order_index: parentUid ? siblingIndex : rootOffset + siblingIndex,
+            task_type: task.taskType,
+            is_summary: task.isSummary,
+            status: task.status,
+            priority: task.priority,
+            start_date: task.startDate,
+            end_date: task.endDate,
+            planned_duration: task.plannedDuration,
+            percent_complete: task.percentComplete,
+            completed_at: task.status === 'done' ? new Date().toISOString() : null,
+            constraint_type: task.constraintType,
+            constraint_date: task.constraintDate,
+            estimated_hours: task.estimatedHours,
+            actual_hours: task.actualHours,
+            wbs_code: task.wbsCode,
+          },
+        }
+      })
+
+      const createdLevels: string[][] = []
+      let baselineId: string | null = null
+      let dependenciesCreated = 0
+      let baselineNumber: number | null = null
+      try {
+        // Parents first: one insert per outline level
+        const maxLevel = Math.max(-1, ...rows.map((r) => r.level))
+        for (let level = 0; level <= maxLevel; level++) {
+          const levelRows = rows.filter((r) => r.level === level).map((r) => r.row)
+          if (levelRows.length === 0) continue
+          const { error } = await supabase.from('tasks').insert(levelRows)
+          if (error) throw error
+          createdLevels.push(levelRows.map((row) => row.id))
+        }
+
+        const { error: wbsError } = await supabase.rpc('recalculate_wbs_codes', { project_uuid: projectId })
+        if (wbsError) throw wbsError
+
+        // WBS codes follow the project's outline, so the file's codes may change
+        const { data: wbsRows, error: wbsFetchError } = await supabase
+          .from('tasks')
+          .select('id, wbs_code')
+          .eq('project_id', projectId)
+        if (wbsFetchError) throw wbsFetchError
+        const wbsById = new Map((wbsRows || []).map((row) => [row.id, row.wbs_code]))
+        const renumbered = rows.filter((r) => r.row.wbs_code && wbsById.get(r.row.id) !== r.row.wbs_code).length
+        if (renumbered > 0) {
+          warnings.push(`Código WBS de ${renumbered} tarefa(s) substituído pela numeração do projeto`)
+        }
+
+        if (importDependencies && data.links.length > 0) {
+          const results = await Promise.all(
+            data.links.map((link) =>
+              supabase.from('task_dependencies').insert({
+                predecessor_id: idByUid.get(link.predecessorUid),
+                successor_id: idByUid.get(link.successorUid),
+                dependency_type: link.type,
+                lag_days: link.lagDays,
+              })
+            )
+          )
+          const failed = results.filter((r) => r.error).length
+          dependenciesCreated = results.length - failed
+          if (failed > 0) warnings.push(`${failed} vínculo(s) recusado(s) (ciclo ou duplicado)`)
+        } else if (data.links.length > 0) {
+          warnings.push(`${data.links.length} vínculo(s) não importado(s) por opção`)
+        }
+
+        const baselineRows = data.tasks.filter((t) => t.baseline)
+        if (baselineName && baselineRows.length > 0) {
+          const [{ data: last }, { data: authData }] = await Promise.all([
+            supabase
+              .from('project_baselines')
+              .select('baseline_number')
+              .eq('project_id', projectId)
+              .order('baseline_number', { ascending: false })
+              .limit(1),
+            supabase.auth.getUser(),
+          ])
+          baselineNumber = (last?.[0]?.baseline_number || 0) + 1
+
+          const { data: baseline, error: baselineError } = await supabase
+            .from('project_baselines')
+            .insert({
+              project_id: projectId,
+              baseline_number: baselineNumber,
+              name: baselineName,
+              description: `Importada do MS Project (${data.projectName})`,
+              created_by: authData.user?.id,
+            })
+            .select('id')
+            .single()
+          if (baselineError) throw baselineError
+          baselineId = baseline.id
+
+          const { error: snapshotError } = await supabase.from('task_baselines').insert(
+            baselineRows.map((task) => ({
+              baseline_id: baseline.id,
+              task_id: idByUid.get(task.uid),
+              planned_start_date: task.baseline?.startDate,
+              planned_end_date: task.baseline?.endDate,
+              planned_duration: task.baseline?.duration,
+              planned_work_hours: task.baseline?.workHours,
+              planned_cost: task.baseline?.cost,
+            }))
+          )
+          if (snapshotError) throw snapshotError
+        }
+      } catch (error) {
+        await rollbackImport(createdLevels, baselineId)
+        throw error
+      }
+
+      return {
+        tasksCreated: rows.length,
+        dependenciesCreated,
+        baselineNumber,
+        warnings,
+      }
+    },
+    onSuccess: (report, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.hierarchy(projectId) })
+      queryClient.invalidateQueries({ queryKey: ['dependencies'] })
+      queryClient.invalidateQueries({ queryKey: queryKeys.baselines.list(projectId) })
+      toast.success(`${report.tasksCreated} tarefas importadas do MS Project`)
+    },
+    onError: (error) => {
+      console.error('Error importing MS Project file:', error)
+      toast.error('Erro ao importar arquivo do MS Project')
+    },
+  })
+}
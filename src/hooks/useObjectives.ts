@@ -0,0 +1,338 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { fetchAllRows, supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import { useAuth } from '@/contexts/AuthContext'
+import { buildObjectives, type ObjectiveWithProgress, type OkrTaskRow } from '@/utils/okrProgress'
+import type { KeyResult, KeyResultLink, StrategicObjective, TaskType } from '@/types'
+import toast from 'react-hot-toast'
+
+const OKR_TASK_COLUMNS = 'id, project_id, parent_task_id, task_type, is_summary, status, story_points'
+
+export type ObjectiveInput = Pick<
+  StrategicObjective,
+  'title' | 'description' | 'owner_id' | 'start_date' | 'end_date' | 'status'
+> & { id?: string }
+
+export type KeyResultInput = Pick<
+  KeyResult,
+  'objective_id' | 'title' | 'measure' | 'start_value' | 'target_value' | 'current_value' | 'unit'
+> & { id?: string; order_index?: number }
+
+export interface LinkableTask {
+  id: string
+  title: string
+  task_type: TaskType | null
+  story_points: number | null
+}
+
+/**
+ * Read the tasks reached by key result links: every task of the linked
+ * projects plus the linked tasks and their descendants (which may have no
+ * project, like backlog stories)
+ */
+async function fetchLinkedTasks(links: KeyResultLink[]): Promise<OkrTaskRow[]> {
+  const projectIds = [...new Set(links.map((l) => l.project_id).filter((id): id is string => !!id))]
+  const tasks = new Map<string, OkrTaskRow>()
+
+  if (projectIds.length > 0) {
+    const rows = await fetchAllRows<OkrTaskRow>((from, to) =>
+      supabase.from('tasks').select(OKR_TASK_COLUMNS).in('project_id', projectIds).order('id').range(from, to)
+    )
+    rows.forEach((row) => tasks.set(row.id, row))
+  }
+
+  // Walk down from the linked tasks one level at a time
+  let frontier = [...new Set(links.map((l) => l.task_id).filter((id): id is string => !!id))]
+  if (frontier.length > 0) {
+    const { data, error } = await supabase.from('tasks').select(OKR_TASK_COLUMNS).in('id', frontier)
+    if (error) throw error
+    ;(data || []).forEach((row: OkrTaskRow) => tasks.set(row.id, row))
+  }
+  while (frontier.length > 0) {
+    const parents = frontier
+    const rows = await fetchAllRows<OkrTaskRow>((from, to) =>
+      supabase.from('tasks').select(OKR_TASK_COLUMNS).in('parent_task_id', parents).order('id').range(from, to)
+    )
+    frontier = rows.filter((row) => !tasks.has(row.id)).map((row) => row.id)
+    rows.forEach((row) => tasks.set(row.id, row))
+  }
+
+  return Array.from(tasks.values())
+}
+
+/**
+ * Hook to fetch every strategic objective with its key results, linked work
+ * and computed progress
+ */
+export function useObjectives() {
+  return useQuery({
+    queryKey: queryKeys.objectives.list(),
+    queryFn: async (): Promise<ObjectiveWithProgress[]> => {
+      const [objectivesRes, keyResultsRes, linksRes] = await Promise.all([
+        supabase
+          .from('strategic_objectives')
+          .select('*, owner:profiles!strategic_objectives_owner_id_fkey(full_name, avatar_url)')
+          .order('created_at', { ascending: false }),
+        supabase.from('key_results').select('*').order('order_index'),
+        supabase
+          .from('key_result_links')
+          .select('id, key_result_id, project_id, task_id, project:projects(id, name), task:tasks(id, title, task_type, project_id)')
+          .order('created_at'),
+      ])
+
+      if (objectivesRes.error) throw objectivesRes.error
+      if (keyResultsRes.error) throw keyResultsRes.error
+      if (linksRes.error) throw linksRes.error
+
+      const links = (linksRes.data || []) as unknown as KeyResultLink[]
+      const tasks = await fetchLinkedTasks(links)
+
+      return buildObjectives({
+        objectives: objectivesRes.data || [],
+        keyResults: keyResultsRes.data || [],
+        links,
+        tasks,
+      })
+    },
+    staleTime: 1000 * 60 * 2,
+  })
+}
+
+/**
+ * Hook to list objectives for pickers and filters
+ */
+export function useObjectiveOptions() {
+  return useQuery({
+    queryKey: queryKeys.objectives.options(),
+    queryFn: async (): Promise<Pick<StrategicObjective, 'id' | 'title' | 'status'>[]> => {
+      const { data, error } = await supabase
+        .from('strategic_objectives')
+        .select('id, title, status')
+        .order('title')
+
+      if (error) throw error
+      return data || []
+    },
+    staleTime: 1000 * 60 * 5,
+  })
+}
+
+/**
+ * Hook to list the people and projects offered by the objective forms
+ */
+export function useObjectiveFormOptions() {
+  return useQuery({
+    queryKey: queryKeys.objectives.formOptions(),
+    queryFn: async () => {
+      const [profilesRes, projectsRes] = await Promise.all([
+        supabase.from('profiles').select('id, full_name').order('full_name'),
+        supabase.from('projects').select('id, name, status').order('name'),
+      ])
+
+      if (profilesRes.error) throw profilesRes.error
+      if (projectsRes.error) throw projectsRes.error
+      return {
+        profiles: (profilesRes.data || []) as { id: string; full_name: string }[],
+        projects: (projectsRes.data || []) as { id: string; name: string; status: string }[],
+      }
+    },
+    staleTime: 1000 * 60 * 5,
+  })
+}
+
+/**
+ * Hook to list the tasks of a project that can be linked to a key result
+ */
+export function useLinkableTasks(projectId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.objectives.linkableTasks(projectId || ''),
+    queryFn: async (): Promise<LinkableTask[]> => {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, task_type, story_points')
+        .eq('project_id', projectId)
+        .order('title')
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!projectId,
+  })
+}
+
+/**
+ * Hook to create or update an objective
+ */
+export function useSaveObjective() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: ObjectiveInput) => {
+      const values = {
+        ...input,
+        title: input.title.trim(),
+        description: input.description?.trim() || null,
+        updated_at: new Date().toISOString(),
+      }
+
+      const { data, error } = id
+        ? await supabase.from('strategic_objectives').update(values).eq('id', id).select().single()
+        : await supabase
+            .from('strategic_objectives')
+            .insert({ ...values, created_by: user?.id })
+            .select()
+            .single()
+
+      if (error) throw error
+      return data as StrategicObjective
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.objectives.all })
+      toast.success('Objetivo salvo')
+    },
+    onError: (error) => {
+      console.error('Error saving objective:', error)
+      toast.error('Erro ao salvar objetivo')
+    },
+  })
+}
+
+/**
+ * Hook to delete an objective with its key results and links
+ */
+export function useDeleteObjective() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('strategic_objectives').delete().eq('id', id)
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.objectives.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.portfolio.all })
+      toast.success('Objetivo excluído')
+    },
+    onError: (error) => {
+      console.error('Error deleting objective:', error)
+      toast.error('Erro ao excluir objetivo')
+    },
+  })
+}
+
+/**
+ * Hook to create or update a key result
+ */
+export function useSaveKeyResult() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: KeyResultInput) => {
+      const values = {
+        ...input,
+        title: input.title.trim(),
+        unit: input.unit?.trim() || null,
+        start_value: Number(input.start_value) || 0,
+        target_value: Number(input.target_value) || 0,
+        current_value: Number(input.current_value) || 0,
+        updated_at: new Date().toISOString(),
+      }
+
+      const { error } = id
+        ? await supabase.from('key_results').update(values).eq('id', id)
+        : await supabase.from('key_results').insert(values)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.objectives.all })
+    },
+    onError: (error) => {
+      console.error('Error saving key result:', error)
+      toast.error('Erro ao salvar resultado-chave')
+    },
+  })
+}
+
+/**
+ * Hook to delete a key result
+ */
+export function useDeleteKeyResult() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('key_results').delete().eq('id', id)
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.objectives.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.portfolio.all })
+    },
+    onError: (error) => {
+      console.error('Error deleting key result:', error)
+      toast.error('Erro ao excluir resultado-chave')
+    },
+  })
+}
+
+/**
+ * Hook to link a project or a task to a key result
+ */
+export function useAddKeyResultLink() {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+
+  return useMutation({
+    mutationFn: async ({
+      keyResultId,
+      projectId,
+      taskId,
+    }: {
+      keyResultId: string
+      projectId?: string
+      taskId?: string
+    }) => {
+      const { error } = await supabase.from('key_result_links').insert({
+        key_result_id: keyResultId,
+        project_id: taskId ? null : projectId,
+        task_id: taskId || null,
+        created_by: user?.id,
+      })
+
+      // Unique violation: already linked
+      if (error && error.code !== '23505') throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.objectives.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.portfolio.all })
+    },
+    onError: (error) => {
+      console.error('Error linking work to key result:', error)
+      toast.error('Erro ao vincular trabalho ao resultado-chave')
+    },
+  })
+}
+
+/**
+ * Hook to remove a link from a key result
+ */
+export function useRemoveKeyResultLink() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('key_result_links').delete().eq('id', id)
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.objectives.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.portfolio.all })
+    },
+    onError: (error) => {
+      console.error('Error unlinking work from key result:', error)
+      toast.error('Erro ao remover vínculo')
+    },
+  })
+}
@@ -0,0 +1,310 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import { isEpicLevel } from '@/utils/epics'
+import type {
+  PlanningPokerDeck,
+  PlanningPokerEstimate,
+  PlanningPokerSession,
+  PlanningPokerVote,
+} from '@/types'
+import toast from 'react-hot-toast'
+
+/** A story that can be estimated in a session */
+export interface PokerStory {
+  id: string
+  title: string
+  description: string | null
+  story_points: number | null
+  status: string
+  task_type: string | null
+}
+
+const unwrap = <T>(value: T | T[] | null | undefined): T | null =>
+  (Array.isArray(value) ? value[0] : value) ?? null
+
+/**
+ * Hook to list the planning poker sessions of a project, newest first
+ */
+export function usePlanningPokerSessions(projectId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.planningPoker.sessions(projectId || ''),
+    queryFn: async (): Promise<PlanningPokerSession[]> => {
+      const { data, error } = await supabase
+        .from('planning_poker_sessions')
+        .select('*, sprint:sprints(name)')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []).map((session: any) => ({ ...session, sprint: unwrap(session.sprint) }))
+    },
+    enabled: !!projectId,
+  })
+}
+
+/**
+ * Hook to fetch a planning poker session
+ */
+export function usePlanningPokerSession(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.planningPoker.session(sessionId || ''),
+    queryFn: async (): Promise<PlanningPokerSession> => {
+      const { data, error } = await supabase
+        .from('planning_poker_sessions')
+        .select('*, sprint:sprints(name)')
+        .eq('id', sessionId)
+        .single()
+
+      if (error) throw error
+      return { ...data, sprint: unwrap(data.sprint) }
+    },
+    enabled: !!sessionId,
+  })
+}
+
+/**
+ * Hook to list the stories of a session: the sprint's stories, or the
+ * project backlog for a refinement. Epics, features and done stories are left out.
+ */
+export function usePlanningPokerStories(session: PlanningPokerSession | undefined) {
+  return useQuery({
+    queryKey: queryKeys.planningPoker.stories(session?.id || ''),
+    queryFn: async (): Promise<PokerStory[]> => {
+      let query = supabase
+        .from('tasks')
+        .select('id, title, description, story_points, status, task_type')
+        .eq('project_id', session!.project_id)
+        .neq('status', 'done')
+        .order('created_at', { ascending: true })
+
+      query = session!.sprint_id ? query.eq('sprint_id', session!.sprint_id) : query.is('sprint_id', null)
+
+      const { data, error } = await query
+
+      if (error) throw error
+      return (data || []).filter((task) => !isEpicLevel(task))
+    },
+    enabled: !!session,
+  })
+}
+
+/**
+ * Hook to fetch the cards of a session visible to the current user: their
+ * own, plus everyone's once a round is revealed
+ */
+export function usePlanningPokerVotes(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.planningPoker.votes(sessionId || ''),
+    queryFn: async (): Promise<PlanningPokerVote[]> => {
+      const { data, error } = await supabase
+        .from('planning_poker_votes')
+        .select('*, user:profiles!user_id(full_name)')
+        .eq('session_id', sessionId)
+        .order('created_at')
+
+      if (error) throw error
+      return (data || []).map((vote: any) => ({ ...vote, user: unwrap(vote.user) }))
+    },
+    enabled: !!sessionId,
+  })
+}
+
+/**
+ * Hook to fetch the values agreed in a session (the session log)
+ */
+export function usePlanningPokerEstimates(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.planningPoker.estimates(sessionId || ''),
+    queryFn: async (): Promise<PlanningPokerEstimate[]> => {
+      const { data, error } = await supabase
+        .from('planning_poker_estimates')
+        .select('*, task:tasks(title)')
+        .eq('session_id', sessionId)
+        .order('decided_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []).map((estimate: any) => ({ ...estimate, task: unwrap(estimate.task) }))
+    },
+    enabled: !!sessionId,
+  })
+}
+
+/**
+ * Hook to open a planning poker session; whoever opens it facilitates
+ */
+export function useCreatePlanningPokerSession() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: {
+      projectId: string
+      sprintId: string | null
+      name: string
+      deck: PlanningPokerDeck
+    }): Promise<PlanningPokerSession> => {
+      const { data: user } = await supabase.auth.getUser()
+      const { data, error } = await supabase
+        .from('planning_poker_sessions')
+        .insert([
+          {
+            project_id: input.projectId,
+            sprint_id: input.sprintId,
+            name: input.name.trim(),
+            deck: input.deck,
+            facilitator_id: user.user?.id,
+            created_by: user.user?.id,
+          },
+        ])
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.planningPoker.sessions(session.project_id) })
+      toast.success('Sessão criada!')
+    },
+    onError: (error) => {
+      console.error('Error creating planning poker session:', error)
+      toast.error('Erro ao criar sessão')
+    },
+  })
+}
+
+/**
+ * Hook to change the state of a session (story, round, reveal, status).
+ * Only the facilitator can.
+ */
+export function useUpdatePlanningPokerSession() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      session,
+      changes,
+    }: {
+      session: PlanningPokerSession
+      changes: Partial<
+        Pick<PlanningPokerSession, 'current_task_id' | 'round' | 'revealed' | 'status' | 'closed_at' | 'deck'>
+      >
+    }) => {
+      const { error } = await supabase.from('planning_poker_sessions').update(changes).eq('id', session.id)
+
+      if (error) throw error
+      return session
+    },
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.planningPoker.session(session.id) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.planningPoker.votes(session.id) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.planningPoker.sessions(session.project_id) })
+    },
+    onError: (error) => {
+      console.error('Error updating planning poker session:', error)
+      toast.error('Erro ao atualizar sessão')
+    },
+  })
+}
+
+/**
+ * Hook to play, change or take back (value null) the current user's card
+ * on the open round
+ */
+export function usePlayPokerCard() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ session, value }: { session: PlanningPokerSession; value: string | null }) => {
+      const { data: user } = await supabase.auth.getUser()
+      const round = {
+        session_id: session.id,
+        task_id: session.current_task_id,
+        round: session.round,
+        user_id: user.user?.id,
+      }
+
+      if (value === null) {
+        const { error } = await supabase.from('planning_poker_votes').delete().match(round)
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from('planning_poker_votes')
+          .upsert({ ...round, value }, { onConflict: 'session_id,task_id,round,user_id' })
+        if (error) throw error
+      }
+
+      return session.id
+    },
+    onSuccess: (sessionId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.planningPoker.votes(sessionId) })
+    },
+    onError: (error) => {
+      console.error('Error playing planning poker card:', error)
+      toast.error('Erro ao registrar voto')
+    },
+  })
+}
+
+/**
+ * Hook to record the agreed value of the story being estimated, writing
+ * its story points to the task
+ */
+export function useRecordPokerEstimate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      sessionId,
+      value,
+      storyPoints,
+    }: {
+      sessionId: string
+      value: string
+      storyPoints: number | null
+    }) => {
+      const { error } = await supabase.rpc('record_planning_poker_estimate', {
+        p_session_id: sessionId,
+        p_value: value,
+        p_story_points: storyPoints,
+      })
+
+      if (error) throw error
+      return sessionId
+    },
+    onSuccess: (sessionId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.planningPoker.estimates(sessionId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.planningPoker.stories(sessionId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all })
+      toast.success('Estimativa registrada!')
+    },
+    onError: (error) => {
+      console.error('Error recording estimate:', error)
+      toast.error('Erro ao registrar estimativa')
+    },
+  })
+}
+
+/**
+ * Hook to take over the facilitation of a session
+ */
+export function useClaimPokerFacilitation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (sessionId: string) => {
+      const { error } = await supabase.rpc('claim_planning_poker_facilitation', { p_session_id: sessionId })
+
+      if (error) throw error
+      return sessionId
+    },
+    onSuccess: (sessionId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.planningPoker.session(sessionId) })
+      toast.success('Você assumiu a facilitação!')
+    },
+    onError: (error) => {
+      console.error('Error claiming planning poker facilitation:', error)
+      toast.error('Erro ao assumir a facilitação')
+    },
+  })
+}
@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import { useAuth } from '@/contexts/AuthContext'
+
+export interface PokerParticipant {
+  id: string
+  full_name: string
+  /** Played a card on the open round (the card itself stays hidden) */
+  voted: boolean
+}
+
+/**
+ * Hook to keep a planning poker session in sync for every participant
+ * through Supabase Realtime, returning who is in the room and who already
+ * voted (presence)
+ */
+export function usePlanningPokerRealtime(sessionId: string | undefined, voted: boolean) {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+  const [participants, setParticipants] = useState<PokerParticipant[]>([])
+  const channelRef = useRef<RealtimeChannel | null>(null)
+  const votedRef = useRef(voted)
+  votedRef.current = voted
+
+  const fullName = user?.user_metadata?.full_name || user?.email || 'Participante'
+
+  useEffect(() => {
+    if (!sessionId || !user) return
+
+    const invalidate = (...keys: ReadonlyArray<readonly unknown[]>) =>
+      keys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }))
+
+    const channel = supabase
+      .channel(`planning-poker-${sessionId}`, { config: { presence: { key: user.id } } })
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'planning_poker_sessions', filter: `id=eq.${sessionId}` },
+        // A reveal or a new round changes which cards are visible
+        () => invalidate(queryKeys.planningPoker.session(sessionId), queryKeys.planningPoker.votes(sessionId))
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'planning_poker_votes', filter: `session_id=eq.${sessionId}` },
+        () => invalidate(queryKeys.planningPoker.votes(sessionId))
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'planning_poker_estimates', filter: `session_id=eq.${sessionId}` },
+        () => invalidate(queryKeys.planningPoker.estimates(sessionId), queryKeys.planningPoker.stories(sessionId))
+      )
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<{ full_name: string; voted: boolean }>()
+        setParticipants(
+          Object.entries(state)
+            .map(([id, metas]) => ({
+              id,
+              full_name: metas[0]?.full_name || 'Participante',
+              voted: !!metas[0]?.voted,
+            }))
+            .sort((a, b) => a.full_name.localeCompare(b.full_name))
+        )
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          channelRef.current = channel
+          channel.track({ full_name: fullName, voted: votedRef.current })
+        }
+      })
+
+    return () => {
+      channelRef.current = null
+      supabase.removeChannel(channel)
+    }
+  }, [sessionId, user?.id, fullName])
+
+  useEffect(() => {
+    channelRef.current?.track({ full_name: fullName, voted })
+  }, [voted])
+
+  return { participants }
+}
@@ -0,0 +1,118 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchAllRows, supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import type {
+  PortfolioDependencyRow,
+  PortfolioProjectRow,
+  PortfolioTaskRow,
+} from '@/utils/portfolio'
+
+export interface PortfolioData {
+  projects: PortfolioProjectRow[]
+  teams: { id: string; name: string }[]
+  projectTeams: Map<string, string[]>
+  projectObjectives: Map<string, string[]>
+  tasks: PortfolioTaskRow[]
+  dependencies: PortfolioDependencyRow[]
+  baselineFinish: Map<string, string>
+}
+
+/**
+ * Hook to fetch what the portfolio roadmap needs across all projects:
+ * projects with their teams and objectives, scheduled tasks, dependencies and the finish
+ * date of each project's latest baseline
+ */
+export function usePortfolioData() {
+  return useQuery({
+    queryKey: queryKeys.portfolio.roadmap(),
+    queryFn: async (): Promise<PortfolioData> => {
+      const [projectsRes, teamsRes, projectTeamsRes, objectivesRes, baselinesRes] = await Promise.all([
+        supabase.from('projects').select('id, name, status, start_date, end_date').order('name'),
+        supabase.from('teams').select('id, name').order('name'),
+        supabase.from('project_teams').select('project_id, team_id'),
+        supabase.from('objective_projects').select('project_id, objective_id'),
+        supabase
+          .from('project_baselines')
+          .select('id, project_id, baseline_number')
+          .order('baseline_number', { ascending: false }),
+      ])
+
+      if (projectsRes.error) throw projectsRes.error
+      if (teamsRes.error) throw teamsRes.error
+      if (projectTeamsRes.error) throw projectTeamsRes.error
+      if (objectivesRes.error) throw objectivesRes.error
+      if (baselinesRes.error) throw baselinesRes.error
+
+      const [tasks, dependencies] = await Promise.all([
+        fetchAllRows<PortfolioTaskRow>((from, to) =>
+          supabase
+            .from('tasks')
+            .select(
+              'id, project_id, title, task_type, parent_task_id, is_summary, status, start_date, end_date, created_at, updated_at, completed_at'
+            )
+            .not('project_id', 'is', null)
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAllRows<PortfolioDependencyRow>((from, to) =>
+          supabase
+            .from('task_dependencies')
+            .select('id, predecessor_id, successor_id, dependency_type')
+            .order('id')
+            .range(from, to)
+        ),
+      ])
+
+      const projectTeams = new Map<string, string[]>()
+      ;(projectTeamsRes.data || []).forEach((row) => {
+        projectTeams.set(row.project_id, [...(projectTeams.get(row.project_id) || []), row.team_id])
+      })
+
+      const projectObjectives = new Map<string, string[]>()
+      ;(objectivesRes.data || []).forEach((row) => {
+        projectObjectives.set(row.project_id, [...(projectObjectives.get(row.project_id) || []), row.objective_id])
+      })
+
+      // Latest baseline of each project (rows come newest first)
+      const latestBaseline = new Map<string, string>()
+      ;(baselinesRes.data || []).forEach((baseline) => {
+        if (!latestBaseline.has(baseline.project_id)) latestBaseline.set(baseline.project_id, baseline.id)
+      })
+
+      const baselineFinish = new Map<string, string>()
+      if (latestBaseline.size > 0) {
+        const projectByBaseline = new Map(
+          Array.from(latestBaseline.entries()).map(([projectId, baselineId]) => [baselineId, projectId])
+        )
+        const snapshots = await fetchAllRows<{ baseline_id: string; planned_end_date: string | null }>(
+          (from, to) =>
+            supabase
+              .from('task_baselines')
+              .select('baseline_id, planned_end_date')
+              .in('baseline_id', Array.from(projectByBaseline.keys()))
+              .not('planned_end_date', 'is', null)
+              .order('id')
+              .range(from, to)
+        )
+        snapshots.forEach((snapshot) => {
+          const projectId = projectByBaseline.get(snapshot.baseline_id)
+          const end = snapshot.planned_end_date?.split('T')[0]
+          if (!projectId || !end) return
+          const current = baselineFinish.get(projectId)
+          if (!current || end > current) baselineFinish.set(projectId, end)
+        })
+      }
+
+      return {
+        projects: projectsRes.data || [],
+        teams: teamsRes.data || [],
+        projectTeams,
+        projectObjectives,
+        tasks,
+        dependencies,
+        baselineFinish,
+      }
+    },
+    staleTime: 1000 * 60 * 2,
+  })
+}
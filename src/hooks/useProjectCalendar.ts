@@ -0,0 +1,110 @@
+import { useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import { useProjectConfig } from '@/hooks/useProjectConfig'
+import { createWorkingCalendar } from '@/utils/gantt/workingCalendar'
+import type { ProjectCalendarException, ProjectCalendarExceptionCreate } from '@/types/hybrid'
+import toast from 'react-hot-toast'
+
+/**
+ * Hook to fetch calendar exceptions (holidays / extra working days) for a project
+ */
+export function useCalendarExceptions(projectId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.projectCalendar.exceptions(projectId || ''),
+    queryFn: async (): Promise<ProjectCalendarException[]> => {
+      if (!projectId) return []
+
+      const { data, error } = await supabase
+        .from('project_calendar_exceptions')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('exception_date', { ascending: true })
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!projectId,
+    staleTime: 1000 * 60 * 5, // 5 minutes - calendar rarely changes
+  })
+}
+
+/**
+ * Hook to get the project working calendar (work week + holidays)
+ */
+export function useProjectCalendar(projectId: string | undefined) {
+  const { data: config, isLoading: configLoading } = useProjectConfig(projectId)
+  const { data: exceptions = [], isLoading: exceptionsLoading } = useCalendarExceptions(projectId)
+
+  const calendar = useMemo(
+    () => createWorkingCalendar(config, exceptions),
+    [config, exceptions]
+  )
+
+  return {
+    calendar,
+    exceptions,
+    isLoading: configLoading || exceptionsLoading,
+  }
+}
+
+/**
+ * Hook to add a calendar exception
+ */
+export function useCreateCalendarException() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (exception: ProjectCalendarExceptionCreate): Promise<ProjectCalendarException> => {
+      const { data, error } = await supabase
+        .from('project_calendar_exceptions')
+        .insert([exception])
+        .select()
+        .single()
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('Já existe uma exceção para esta data')
+        }
+        throw error
+      }
+      return data
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.projectCalendar.exceptions(data.project_id) })
+      toast.success('Exceção adicionada ao calendário')
+    },
+    onError: (error: Error) => {
+      console.error('Error creating calendar exception:', error)
+      toast.error(error.message || 'Erro ao adicionar exceção')
+    },
+  })
+}
+
+/**
+ * Hook to remove a calendar exception
+ */
+export function useDeleteCalendarException() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, projectId }: { id: string; projectId: string }) => {
+      const { error } = await supabase
+        .from('project_calendar_exceptions')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+      return { projectId }
+    },
+    onSuccess: ({ projectId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.projectCalendar.exceptions(projectId) })
+      toast.success('Exceção removida')
+    },
+    onError: (error) => {
+      console.error('Error deleting calendar exception:', error)
+      toast.error('Erro ao remover exceção')
+    },
+  })
+}
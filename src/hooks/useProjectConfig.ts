@@ -75,7 +75,8 @@ export function useCreateProjectConfig() {
         gantt_zoom_level: modules?.gantt_zoom_level || 'week',
         working_days_per_week: modules?.working_days_per_week || 5,
         hours_per_day: modules?.hours_per_day || 8,
-        week_start_day: modules?.week_start_day || 1,
+        week_start_day: modules?.week_start_day ?? 1,
+        use_national_holidays: modules?.use_national_holidays ?? true,
         default_view: modules?.default_view || getDefaultView(methodology),
       }
 
@@ -274,6 +275,7 @@ export function getEnabledModules(config: ProjectConfiguration | null | undefine
 
   if (config.module_kanban) {
     modules.push({ key: 'kanban', route: 'kanban', label: 'Kanban', icon: 'ViewKanban' })
+    modules.push({ key: 'flow', route: 'flow', label: 'Fluxo', icon: 'Insights' })
   }
   if (config.module_backlog) {
     modules.push({ key: 'backlog', route: 'backlog', label: 'Backlog', icon: 'List' })
@@ -281,8 +283,12 @@ export function getEnabledModules(config: ProjectConfiguration | null | undefine
   if (config.module_sprints) {
     modules.push({ key: 'sprints', route: 'sprints', label: 'Sprints', icon: 'Speed' })
   }
+  if (config.module_backlog || config.module_sprints) {
+    modules.push({ key: 'poker', route: 'poker', label: 'Planning Poker', icon: 'Casino' })
+  }
   if (config.module_gantt) {
     modules.push({ key: 'gantt', route: 'gantt', label: 'Gantt', icon: 'Timeline' })
+    modules.push({ key: 'resources', route: 'resources', label: 'Recursos', icon: 'Groups' })
   }
   if (config.module_wbs) {
     modules.push({ key: 'wbs', route: 'wbs', label: 'WBS', icon: 'AccountTree' })
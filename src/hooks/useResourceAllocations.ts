@@ -0,0 +1,168 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import type { ResourceAllocation, ResourceAllocationCreate } from '@/types/hybrid'
+import toast from 'react-hot-toast'
+
+export interface ProjectMember {
+  id: string
+  full_name: string
+  avatar_url: string | null
+}
+
+const ALLOCATION_SELECT = `
+  *,
+  user:profiles!resource_allocations_user_id_fkey(id, full_name, avatar_url),
+  task:tasks(id, title, project_id, start_date, end_date, status, project:projects(id, name))
+`
+
+/**
+ * Hook to list the people on a project's teams (candidates for allocation)
+ */
+export function useProjectMembers(projectId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.resources.members(projectId || ''),
+    queryFn: async (): Promise<ProjectMember[]> => {
+      if (!projectId) return []
+
+      const { data: projectTeams, error: teamsError } = await supabase
+        .from('project_teams')
+        .select('team_id')
+        .eq('project_id', projectId)
+
+      if (teamsError) throw teamsError
+      if (!projectTeams || projectTeams.length === 0) return []
+
+      const { data: members, error } = await supabase
+        .from('team_members')
+        .select(`
+          user_id,
+          profiles:profiles!team_members_user_id_fkey(id, full_name, avatar_url)
+        `)
+        .in('team_id', projectTeams.map((pt) => pt.team_id))
+
+      if (error) throw error
+
+      const unique = new Map<string, ProjectMember>()
+      ;(members || []).forEach((m) => {
+        const profile = m.profiles as unknown as ProjectMember
+        if (profile && !unique.has(profile.id)) unique.set(profile.id, profile)
+      })
+      return Array.from(unique.values()).sort((a, b) => a.full_name.localeCompare(b.full_name))
+    },
+    enabled: !!projectId,
+  })
+}
+
+/**
+ * Hook to fetch allocations on the tasks of a project
+ */
+export function useProjectAllocations(projectId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.resources.project(projectId || ''),
+    queryFn: async (): Promise<ResourceAllocation[]> => {
+      if (!projectId) return []
+
+      const { data: tasks, error: tasksError } = await supabase
+        .from('tasks')
+        .select('id')
+        .eq('project_id', projectId)
+
+      if (tasksError) throw tasksError
+      if (!tasks || tasks.length === 0) return []
+
+      const { data, error } = await supabase
+        .from('resource_allocations')
+        .select(ALLOCATION_SELECT)
+        .in('task_id', tasks.map((t) => t.id))
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!projectId,
+  })
+}
+
+/**
+ * Hook to fetch every allocation of a set of people, across all projects
+ * (used for load histograms and the team workload widget)
+ */
+export function useUserAllocations(userIds: string[]) {
+  const sortedIds = [...userIds].sort()
+
+  return useQuery({
+    queryKey: queryKeys.resources.users(sortedIds),
+    queryFn: async (): Promise<ResourceAllocation[]> => {
+      if (sortedIds.length === 0) return []
+
+      const { data, error } = await supabase
+        .from('resource_allocations')
+        .select(ALLOCATION_SELECT)
+        .in('user_id', sortedIds)
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: sortedIds.length > 0,
+  })
+}
+
+/**
+ * Hook to replace the allocations of a task
+ *
+ * People missing from the list are unassigned; the rest are upserted on
+ * (task_id, user_id).
+ */
+export function useSetTaskAllocations() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      taskId,
+      projectId,
+      allocations,
+    }: {
+      taskId: string
+      projectId: string
+      allocations: ResourceAllocationCreate[]
+    }) => {
+      const keepUserIds = allocations.map((a) => a.user_id)
+
+      let deleteQuery = supabase.from('resource_allocations').delete().eq('task_id', taskId)
+      if (keepUserIds.length > 0) {
+        deleteQuery = deleteQuery.not('user_id', 'in', `(${keepUserIds.join(',')})`)
+      }
+      const { error: deleteError } = await deleteQuery
+      if (deleteError) throw deleteError
+
+      if (allocations.length > 0) {
+        const { error } = await supabase
+          .from('resource_allocations')
+          .upsert(
+            allocations.map((a) => ({
+              task_id: taskId,
+              user_id: a.user_id,
+              allocation_percent: Math.min(100, Math.max(1, Math.round(a.allocation_percent))),
+              start_date: a.start_date || null,
+              end_date: a.end_date || null,
+            })),
+            { onConflict: 'task_id,user_id' }
+          )
+
+        if (error) throw error
+      }
+
+      return { taskId, projectId }
+    },
+    onSuccess: ({ taskId, projectId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.resources.task(taskId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.resources.project(projectId) })
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.resources.all, 'users'] })
+      toast.success('Alocações atualizadas')
+    },
+    onError: (error) => {
+      console.error('Error saving allocations:', error)
+      toast.error('Erro ao salvar alocações')
+    },
+  })
+}
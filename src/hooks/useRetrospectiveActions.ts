@@ -0,0 +1,164 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import { OPEN_ACTION_STATUSES } from '@/utils/retrospective'
+import type { RetrospectiveItem } from '@/types'
+import toast from 'react-hot-toast'
+
+/** An open action item from the retrospective of an earlier sprint */
+export interface CarriedOverAction extends RetrospectiveItem {
+  sprintId: string
+  sprintName: string
+  /** Sprints since the action was written (1 = previous sprint) */
+  sprintsAgo: number
+  /** Days since the action was written */
+  daysOpen: number
+  task?: { id: string; title: string; status: string } | null
+}
+
+export interface ConvertedActionTask {
+  task_id: string
+  sprint_id: string | null
+  sprint_name: string | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Hook to list the action items still open from retrospectives of earlier
+ * sprints of the same team and project, oldest first
+ */
+export function useCarriedOverActions(sprintId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.retrospectives.carriedOver(sprintId || ''),
+    queryFn: async (): Promise<CarriedOverAction[]> => {
+      const { data: sprint, error: sprintError } = await supabase
+        .from('sprints')
+        .select('id, team_id, project_id, start_date')
+        .eq('id', sprintId)
+        .single()
+
+      if (sprintError) throw sprintError
+
+      let previousQuery = supabase
+        .from('sprints')
+        .select('id, name')
+        .eq('team_id', sprint.team_id)
+        .lt('start_date', sprint.start_date)
+        .order('start_date', { ascending: false })
+
+      previousQuery = sprint.project_id
+        ? previousQuery.eq('project_id', sprint.project_id)
+        : previousQuery.is('project_id', null)
+
+      const { data: previousSprints, error: previousError } = await previousQuery
+      if (previousError) throw previousError
+      if (!previousSprints || previousSprints.length === 0) return []
+
+      const { data: retros, error: retrosError } = await supabase
+        .from('sprint_retrospectives')
+        .select('id, sprint_id')
+        .in('sprint_id', previousSprints.map((s) => s.id))
+
+      if (retrosError) throw retrosError
+      if (!retros || retros.length === 0) return []
+
+      const { data: items, error: itemsError } = await supabase
+        .from('retrospective_items_visible')
+        .select('*, assigned_to_profile:profiles!assigned_to(full_name), task:tasks!task_id(id, title, status)')
+        .in('retrospective_id', retros.map((r) => r.id))
+        .eq('category', 'action_item')
+        .in('status', OPEN_ACTION_STATUSES)
+        .order('created_at')
+
+      if (itemsError) throw itemsError
+
+      const now = Date.now()
+      return (items || []).map((item: any) => {
+        const retro = retros.find((r) => r.id === item.retrospective_id)
+        const sprintIndex = previousSprints.findIndex((s) => s.id === retro?.sprint_id)
+        return {
+          ...item,
+          assigned_to_profile: Array.isArray(item.assigned_to_profile)
+            ? item.assigned_to_profile[0]
+            : item.assigned_to_profile,
+          task: Array.isArray(item.task) ? item.task[0] : item.task,
+          sprintId: retro?.sprint_id || '',
+          sprintName: previousSprints[sprintIndex]?.name || '',
+          sprintsAgo: sprintIndex + 1,
+          daysOpen: Math.max(0, Math.floor((now - new Date(item.created_at).getTime()) / DAY_MS)),
+        }
+      })
+    },
+    enabled: !!sprintId,
+  })
+}
+
+/**
+ * Hook to turn an action item into a task of the team's next sprint (or
+ * the project backlog when no sprint is planned)
+ */
+export function useConvertActionToTask() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (itemId: string): Promise<ConvertedActionTask> => {
+      const { data, error } = await supabase.rpc('convert_retrospective_action_to_task', {
+        p_item_id: itemId,
+      })
+
+      if (error) throw error
+      return (Array.isArray(data) ? data[0] : data) as ConvertedActionTask
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.retrospectives.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all })
+      toast.success(
+        result.sprint_name
+          ? `Tarefa criada no sprint ${result.sprint_name}`
+          : 'Tarefa criada no Backlog (nenhum sprint planejado)'
+      )
+    },
+    onError: (error: Error) => {
+      console.error('Error converting action item:', error)
+      toast.error(
+        error.message?.includes('Sprint has no project')
+          ? 'O sprint não tem projeto; não foi possível criar a tarefa'
+          : 'Erro ao converter ação em tarefa'
+      )
+    },
+  })
+}
+
+/**
+ * Hook to update the owner, due date or status of an action item
+ */
+export function useUpdateActionItem() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      itemId,
+      changes,
+    }: {
+      itemId: string
+      changes: Partial<Pick<RetrospectiveItem, 'assigned_to' | 'due_date' | 'status'>>
+    }) => {
+      // Action items of anonymous retrospectives can't be selected, so they're updated through a function
+      const { error } = await supabase.rpc('update_retrospective_action_item', {
+        p_item_id: itemId,
+        p_changes: changes,
+      })
+
+      if (error) throw error
+      return itemId
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.retrospectives.all })
+    },
+    onError: (error) => {
+      console.error('Error updating action item:', error)
+      toast.error('Erro ao atualizar ação')
+    },
+  })
+}
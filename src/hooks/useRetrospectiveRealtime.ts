@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import type { SprintRetrospective } from '@/types'
+
+export interface RetroParticipant {
+  id: string
+  full_name: string
+}
+
+interface RetrospectiveRealtimeHandlers {
+  /** A card or vote of the retrospective changed */
+  onItemsChange: () => void
+  /** The meeting state (phase, timer, facilitator...) changed */
+  onRetrospectiveChange: (retrospective: Partial<SprintRetrospective>) => void
+}
+
+/**
+ * Hook to keep a retrospective in sync for every participant through
+ * Supabase Realtime, returning who is in the room (presence)
+ */
+export function useRetrospectiveRealtime(
+  retrospectiveId: string | undefined,
+  handlers: RetrospectiveRealtimeHandlers
+) {
+  const { user } = useAuth()
+  const [participants, setParticipants] = useState<RetroParticipant[]>([])
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  const fullName = user?.user_metadata?.full_name || user?.email || 'Participante'
+
+  useEffect(() => {
+    if (!retrospectiveId || !user) return
+
+    // Bursts of changes (e.g. a merge) trigger a single refetch
+    let refetchTimer: ReturnType<typeof setTimeout> | undefined
+    const scheduleItemsChange = () => {
+      clearTimeout(refetchTimer)
+      refetchTimer = setTimeout(() => handlersRef.current.onItemsChange(), 150)
+    }
+
+    const channel = supabase
+      .channel(`retrospective-${retrospectiveId}`, { config: { presence: { key: user.id } } })
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'sprint_retrospectives',
+          filter: `id=eq.${retrospectiveId}`,
+        },
+        (payload) => {
+          handlersRef.current.onRetrospectiveChange(payload.new as Partial<SprintRetrospective>)
+          // Cards of anonymous retrospectives aren't broadcast; every card change
+          // touches items_changed_at, and a phase change may uncover cards
+          scheduleItemsChange()
+        }
+      )
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<{ full_name: string }>()
+        setParticipants(
+          Object.entries(state)
+            .map(([id, metas]) => ({ id, full_name: metas[0]?.full_name || 'Participante' }))
+            .sort((a, b) => a.full_name.localeCompare(b.full_name))
+        )
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') channel.track({ full_name: fullName })
+      })
+
+    return () => {
+      clearTimeout(refetchTimer)
+      supabase.removeChannel(channel)
+    }
+  }, [retrospectiveId, user?.id, fullName])
+
+  return { participants }
+}
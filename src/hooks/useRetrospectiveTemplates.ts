@@ -0,0 +1,106 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import type { RetrospectiveColumn, RetrospectiveTemplate } from '@/types'
+import toast from 'react-hot-toast'
+
+/**
+ * Hook to list the custom retrospective formats saved by a team
+ */
+export function useRetrospectiveTemplates(teamId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.retrospectives.templates(teamId || ''),
+    queryFn: async (): Promise<RetrospectiveTemplate[]> => {
+      const { data, error } = await supabase
+        .from('retrospective_templates')
+        .select('*')
+        .eq('team_id', teamId)
+        .order('name')
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!teamId,
+  })
+}
+
+/**
+ * Hook to create or update a team's custom retrospective format
+ */
+export function useSaveRetrospectiveTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      teamId,
+      name,
+      columns,
+    }: {
+      id?: string
+      teamId: string
+      name: string
+      columns: RetrospectiveColumn[]
+    }): Promise<RetrospectiveTemplate> => {
+      const payload = {
+        name: name.trim(),
+        columns: columns.map((column) => ({ ...column, title: column.title.trim() })),
+      }
+
+      if (id) {
+        const { data, error } = await supabase
+          .from('retrospective_templates')
+          .update(payload)
+          .eq('id', id)
+          .select()
+          .single()
+
+        if (error) throw error
+        return data
+      }
+
+      const { data: user } = await supabase.auth.getUser()
+      const { data, error } = await supabase
+        .from('retrospective_templates')
+        .insert([{ ...payload, team_id: teamId, created_by: user.user?.id }])
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.retrospectives.templates(template.team_id) })
+      toast.success('Formato salvo!')
+    },
+    onError: (error: { code?: string }) => {
+      console.error('Error saving retrospective template:', error)
+      toast.error(error.code === '23505' ? 'Já existe um formato com esse nome' : 'Erro ao salvar formato')
+    },
+  })
+}
+
+/**
+ * Hook to delete a team's custom retrospective format. Retrospectives that
+ * used it keep their columns.
+ */
+export function useDeleteRetrospectiveTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (template: RetrospectiveTemplate) => {
+      const { error } = await supabase.from('retrospective_templates').delete().eq('id', template.id)
+
+      if (error) throw error
+      return template
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.retrospectives.templates(template.team_id) })
+      toast.success('Formato removido!')
+    },
+    onError: (error) => {
+      console.error('Error deleting retrospective template:', error)
+      toast.error('Erro ao remover formato')
+    },
+  })
+}
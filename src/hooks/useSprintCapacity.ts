@@ -0,0 +1,145 @@
+import { useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import { useProjectCalendar } from '@/hooks/useProjectCalendar'
+import { useVelocityHistory } from '@/hooks/useVelocityHistory'
+import { calculateSprintCapacity, getSprintWorkingDays, type SprintCapacity } from '@/utils/sprintCapacity'
+import type { SprintMemberCapacity, SprintMemberCapacityInput } from '@/types'
+import toast from 'react-hot-toast'
+
+export interface TeamMemberProfile {
+  id: string
+  full_name: string
+  avatar_url: string | null
+}
+
+interface CapacitySprint {
+  id: string
+  team_id: string
+  project_id?: string | null
+  start_date: string
+  end_date: string
+}
+
+/**
+ * Hook to list the members of a team
+ */
+export function useTeamMembers(teamId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.teams.members(teamId || ''),
+    queryFn: async (): Promise<TeamMemberProfile[]> => {
+      const { data, error } = await supabase
+        .from('team_members')
+        .select('user_id, profiles:profiles!team_members_user_id_fkey(id, full_name, avatar_url)')
+        .eq('team_id', teamId)
+
+      if (error) throw error
+      return (data || [])
+        .map((m) => m.profiles as unknown as TeamMemberProfile | null)
+        .filter((profile): profile is TeamMemberProfile => !!profile)
+        .sort((a, b) => a.full_name.localeCompare(b.full_name))
+    },
+    enabled: !!teamId,
+  })
+}
+
+/**
+ * Hook to fetch the member availability recorded for a sprint
+ */
+export function useSprintCapacity(sprintId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.sprints.capacity(sprintId || ''),
+    queryFn: async (): Promise<SprintMemberCapacity[]> => {
+      const { data, error } = await supabase
+        .from('sprint_member_capacity')
+        .select('*, user:profiles!sprint_member_capacity_user_id_fkey(full_name, avatar_url)')
+        .eq('sprint_id', sprintId)
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!sprintId,
+  })
+}
+
+/**
+ * Hook to compute a sprint's capacity from its recorded availability
+ *
+ * capacity is null while loading or when no availability was recorded for
+ * the sprint (capacity not planned).
+ */
+export function useSprintCapacitySummary(sprint: CapacitySprint | null | undefined) {
+  const { data: rows = [], isLoading } = useSprintCapacity(sprint?.id)
+  const { calendar } = useProjectCalendar(sprint?.project_id || undefined)
+  const { data: history } = useVelocityHistory(sprint?.team_id || undefined)
+
+  const capacity = useMemo((): SprintCapacity | null => {
+    if (!sprint || rows.length === 0) return null
+    const velocities = (history?.samples || [])
+      .filter((s) => s.sprintId !== sprint.id)
+      .map((s) => ({
+        points: s.completedPoints,
+        workingDays: getSprintWorkingDays({ start_date: s.startDate, end_date: s.endDate }, calendar),
+      }))
+    return calculateSprintCapacity(rows, getSprintWorkingDays(sprint, calendar), calendar, velocities)
+  }, [sprint, rows, calendar, history])
+
+  return { capacity, isLoading }
+}
+
+/**
+ * Hook to replace the member availability of a sprint
+ *
+ * Members missing from the list are removed; the rest are upserted on
+ * (sprint_id, user_id).
+ */
+export function useSaveSprintCapacity() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      sprintId,
+      members,
+    }: {
+      sprintId: string
+      members: SprintMemberCapacityInput[]
+    }) => {
+      const keepUserIds = members.map((m) => m.user_id)
+
+      let deleteQuery = supabase.from('sprint_member_capacity').delete().eq('sprint_id', sprintId)
+      if (keepUserIds.length > 0) {
+        deleteQuery = deleteQuery.not('user_id', 'in', `(${keepUserIds.join(',')})`)
+      }
+      const { error: deleteError } = await deleteQuery
+      if (deleteError) throw deleteError
+
+      if (members.length > 0) {
+        const { error } = await supabase
+          .from('sprint_member_capacity')
+          .upsert(
+            members.map((m) => ({
+              sprint_id: sprintId,
+              user_id: m.user_id,
+              days_off: Math.max(0, Number(m.days_off) || 0),
+              hours_per_day: Math.min(24, Math.max(0, Number(m.hours_per_day) || 0)),
+              notes: m.notes?.trim() || null,
+              updated_at: new Date().toISOString(),
+            })),
+            { onConflict: 'sprint_id,user_id' }
+          )
+
+        if (error) throw error
+      }
+
+      return sprintId
+    },
+    onSuccess: (sprintId) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.sprints.capacity(sprintId) })
+    },
+    onError: (error) => {
+      console.error('Error saving sprint capacity:', error)
+      toast.error('Erro ao salvar capacidade do sprint')
+    },
+  })
+}
@@ -1,10 +1,11 @@
 import { useQuery } from '@tanstack/react-query'
 import { supabase } from '@/lib/supabase'
 import { queryKeys } from '@/lib/queryClient'
+import { findRecurringActions, type RecurringAction } from '@/utils/retrospective'
 
 interface RetrospectiveItem {
   id: string
-  category: 'went_well' | 'to_improve' | 'action_item'
+  category: 'went_well' | 'to_improve' | 'action_item' | 'other'
   content: string
   votes: number
   status: string
@@ -17,9 +18,14 @@ interface RetrospectiveInsights {
   actionItems: RetrospectiveItem[]
   improvementPoints: RetrospectiveItem[]
   pendingActions: RetrospectiveItem[]
+  /** Actions written again and again in recent retrospectives */
+  recurringActions: RecurringAction[]
   hasData: boolean
 }
 
+// Completed sprints looked at when searching for recurring actions
+const RECURRING_ACTIONS_SPRINTS = 6
+
 interface UseSprintRetrospectiveInsightsOptions {
   teamId?: string
   projectId?: string
@@ -28,7 +34,8 @@ interface UseSprintRetrospectiveInsightsOptions {
 
 /**
  * Fetches retrospective insights from the most recent completed sprint
- * for the given team or project. Used by Ada to provide contextual guidance
+ * for the given team or project, plus the actions that recur across the
+ * last few retrospectives. Used by Ada to provide contextual guidance
  * during sprint creation.
  */
 export function useSprintRetrospectiveInsights({
@@ -39,13 +46,13 @@ export function useSprintRetrospectiveInsights({
   return useQuery({
     queryKey: queryKeys.retrospectives.insights(teamId, projectId),
     queryFn: async (): Promise<RetrospectiveInsights> => {
-      // Find the most recent completed sprint for the team/project
+      // Find the most recent completed sprints for the team/project
       let sprintQuery = supabase
         .from('sprints')
         .select('id, name')
         .eq('status', 'completed')
         .order('end_date', { ascending: false })
-        .limit(1)
+        .limit(RECURRING_ACTIONS_SPRINTS)
 
       if (projectId) {
         sprintQuery = sprintQuery.eq('project_id', projectId)
@@ -64,11 +71,13 @@ export function useSprintRetrospectiveInsights({
           actionItems: [],
           improvementPoints: [],
           pendingActions: [],
+          recurringActions: [],
           hasData: false,
         }
       }
 
       const lastSprint = sprints[0]
+      const recurringActions = await fetchRecurringActions(sprints)
 
       // Fetch the retrospective for this sprint
       const { data: retrospective, error: retroError } = await supabase
@@ -86,15 +95,17 @@ export function useSprintRetrospectiveInsights({
           actionItems: [],
           improvementPoints: [],
           pendingActions: [],
+          recurringActions,
           hasData: false,
         }
       }
 
       // Fetch retrospective items
       const { data: items, error: itemsError } = await supabase
-        .from('retrospective_items')
+        .from('retrospective_items_visible')
         .select('*, assigned_to_profile:profiles!assigned_to(full_name)')
         .eq('retrospective_id', retrospective.id)
+        .not('content', 'is', null)
         .order('votes', { ascending: false })
 
       if (itemsError) throw itemsError
@@ -107,6 +118,7 @@ export function useSprintRetrospectiveInsights({
           : item.assigned_to_profile,
       }))
 
+      // Base categories are shared by every retrospective format
       const actionItems = transformedItems.filter(
         (item: RetrospectiveItem) => item.category === 'action_item'
       )
@@ -124,6 +136,7 @@ export function useSprintRetrospectiveInsights({
         actionItems,
         improvementPoints,
         pendingActions,
+        recurringActions,
         hasData: true,
       }
     },
@@ -132,6 +145,43 @@ export function useSprintRetrospectiveInsights({
   })
 }
 
+/**
+ * Actions of the given sprints' retrospectives (most recent sprint first)
+ * that were written in more than one of them
+ */
+async function fetchRecurringActions(sprints: Array<{ id: string; name: string }>): Promise<RecurringAction[]> {
+  if (sprints.length < 2) return []
+
+  const { data: retros, error: retrosError } = await supabase
+    .from('sprint_retrospectives')
+    .select('id, sprint_id')
+    .in('sprint_id', sprints.map((s) => s.id))
+
+  if (retrosError) throw retrosError
+  if (!retros || retros.length < 2) return []
+
+  const { data: items, error: itemsError } = await supabase
+    .from('retrospective_items_visible')
+    .select('content, status, retrospective_id')
+    .in('retrospective_id', retros.map((r) => r.id))
+    .eq('category', 'action_item')
+
+  if (itemsError) throw itemsError
+
+  const sources = (items || []).map((item) => {
+    const sprintId = retros.find((r) => r.id === item.retrospective_id)?.sprint_id || ''
+    return {
+      content: item.content,
+      status: item.status,
+      sprintId,
+      sprintName: sprints.find((s) => s.id === sprintId)?.name || '',
+      order: sprints.findIndex((s) => s.id === sprintId),
+    }
+  })
+
+  return findRecurringActions(sources.sort((a, b) => a.order - b.order))
+}
+
 /**
  * Fetches the sprint count for a project or team to determine the sprint number
  */
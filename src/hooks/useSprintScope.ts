@@ -0,0 +1,82 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import { getSnapshotNextDayStart } from '@/utils/sprintScope'
+import type { ActivityLogEntry, SprintScopeChange, SprintScopeSnapshot } from '@/types'
+
+/**
+ * Hook to fetch the daily scope snapshots of a sprint
+ */
+export function useSprintSnapshots(sprintId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.sprints.snapshots(sprintId || ''),
+    queryFn: async (): Promise<SprintScopeSnapshot[]> => {
+      if (!sprintId) return []
+
+      const { data, error } = await supabase
+        .from('sprint_scope_snapshots')
+        .select('*')
+        .eq('sprint_id', sprintId)
+        .order('snapshot_date', { ascending: true })
+
+      if (error) throw error
+      return data || []
+    },
+    enabled: !!sprintId,
+  })
+}
+
+/**
+ * Hook to list the stories added to or removed from a sprint after it started
+ *
+ * Read from the audit trail: task entries whose sprint_id changed to or from
+ * the sprint (creations and deletions included).
+ */
+export function useSprintScopeChanges(sprint: { id: string; start_date: string } | undefined) {
+  return useQuery({
+    queryKey: queryKeys.sprints.scopeChanges(sprint?.id || ''),
+    queryFn: async (): Promise<SprintScopeChange[]> => {
+      if (!sprint) return []
+
+      // Anything logged on the start date still counts as the commitment,
+      // with days cut like the snapshots whatever the browser's timezone
+      const startOfNextDay = getSnapshotNextDayStart(sprint.start_date.split('T')[0])
+
+      const { data, error } = await supabase
+        .from('activities')
+        .select('*, user:profiles!activities_user_id_fkey(full_name, avatar_url)')
+        .eq('entity_type', 'task')
+        .gte('created_at', startOfNextDay.toISOString())
+        .or(
+          `details->changes->sprint_id->>new.eq.${sprint.id},details->changes->sprint_id->>old.eq.${sprint.id}`
+        )
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      const entries = (data || []) as ActivityLogEntry[]
+      if (entries.length === 0) return []
+
+      // Points of stories that still exist; deleted ones carry them in the log
+      const { data: tasks } = await supabase
+        .from('tasks')
+        .select('id, story_points')
+        .in('id', [...new Set(entries.map((e) => e.entity_id))])
+      const pointsById = new Map((tasks || []).map((t) => [t.id, t.story_points || 0]))
+
+      return entries.map((entry) => {
+        const changes = entry.details?.changes || {}
+        const loggedPoints = changes.story_points?.old ?? changes.story_points?.new
+        return {
+          id: entry.id,
+          task_id: entry.entity_id,
+          title: entry.details?.name || 'História',
+          kind: changes.sprint_id?.new === sprint.id ? 'added' : 'removed',
+          points: pointsById.get(entry.entity_id) ?? (typeof loggedPoints === 'number' ? loggedPoints : 0),
+          changed_at: entry.created_at,
+          user_name: entry.user?.full_name || null,
+        }
+      })
+    },
+    enabled: !!sprint,
+  })
+}
@@ -1,6 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { supabase } from '@/lib/supabase'
 import { queryKeys } from '@/lib/queryClient'
+import { getSummaryRollupUpdates } from '@/utils/gantt/summaryRollup'
+import { createWorkingCalendar } from '@/utils/gantt/workingCalendar'
 import type { HierarchicalTask, HierarchicalTaskUpdate } from '@/types/hybrid'
 import toast from 'react-hot-toast'
 
@@ -34,6 +36,52 @@ export function useTaskHierarchy(projectId: string | undefined) {
   })
 }
 
+/**
+ * Recalculate summary tasks (dates, duration-weighted progress, hours) from
+ * their children after a change to the project's tasks
+ *
+ * Failures are reported but don't fail the change that triggered them.
+ */
+async function syncSummaryRollup(projectId: string) {
+  try {
+    const [tasksResult, configResult, exceptionsResult] = await Promise.all([
+      supabase
+        .from('tasks')
+        .select('id, parent_task_id, task_type, is_summary, status, start_date, end_date, planned_duration, percent_complete, estimated_hours, actual_hours')
+        .eq('project_id', projectId),
+      supabase
+        .from('project_configuration')
+        .select('working_days_per_week, hours_per_day, week_start_day, use_national_holidays')
+        .eq('project_id', projectId)
+        .maybeSingle(),
+      supabase
+        .from('project_calendar_exceptions')
+        .select('exception_date, name, is_working')
+        .eq('project_id', projectId),
+    ])
+
+    if (tasksResult.error) throw tasksResult.error
+
+    const calendar = createWorkingCalendar(configResult.data, exceptionsResult.data || [])
+    const updates = getSummaryRollupUpdates(tasksResult.data || [], calendar)
+
+    const results = await Promise.all(
+      updates.map(({ id, updates: rollup }) =>
+        supabase
+          .from('tasks')
+          .update(rollup)
+          .eq('id', id)
+      )
+    )
+
+    const failed = results.find((r) => r.error)
+    if (failed?.error) throw failed.error
+  } catch (error) {
+    console.error('Error rolling up summary tasks:', error)
+    toast.error('Erro ao recalcular tarefas resumo')
+  }
+}
+
 /**
  * Build a tree structure from flat task list
  */
@@ -139,6 +187,11 @@ export function useCreateTask() {
         .single()
 
       if (error) throw error
+
+      // A new child changes its parent's dates, progress and hours
+      if (task.parent_task_id) {
+        await syncSummaryRollup(task.project_id)
+      }
       return data
     },
     onSuccess: (data) => {
@@ -172,6 +225,7 @@ export function useUpdateTask() {
         .single()
 
       if (error) throw error
+      await syncSummaryRollup(projectId)
       return { ...data, projectId }
     },
     onMutate: async ({ id, projectId, updates }) => {
@@ -219,6 +273,7 @@ export function useDeleteTask() {
         .eq('id', id)
 
       if (error) throw error
+      await syncSummaryRollup(projectId)
       return { projectId }
     },
     onSuccess: ({ projectId }) => {
@@ -274,6 +329,7 @@ export function useIndentTask() {
           .eq('id', previousSibling.id)
       }
 
+      await syncSummaryRollup(data.project_id)
       return data
     },
     onSuccess: (data) => {
@@ -329,6 +385,7 @@ export function useOutdentTask() {
           .eq('id', parent.id)
       }
 
+      await syncSummaryRollup(data.project_id)
       return data
     },
     onSuccess: (data) => {
@@ -362,6 +419,11 @@ export function useReorderTasks() {
       )
 
       await Promise.all(promises)
+
+      // Moving a task under another parent changes both summaries
+      if (updates.some((u) => u.parent_task_id !== undefined)) {
+        await syncSummaryRollup(projectId)
+      }
       return { projectId }
     },
     onSuccess: ({ projectId }) => {
@@ -373,3 +435,59 @@ export function useReorderTasks() {
     },
   })
 }
+
+/**
+ * Hook to update several tasks at once (e.g. a Gantt drag and the successors
+ * it pushed), applied optimistically so bars don't jump back while saving
+ */
+export function useUpdateTasksBatch() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ projectId, updates }: {
+      projectId: string
+      updates: Array<{ id: string; updates: HierarchicalTaskUpdate }>
+    }) => {
+      const results = await Promise.all(
+        updates.map(({ id, updates: taskUpdates }) =>
+          supabase
+            .from('tasks')
+            .update(taskUpdates)
+            .eq('id', id)
+        )
+      )
+
+      const failed = results.find((r) => r.error)
+      if (failed?.error) throw failed.error
+      await syncSummaryRollup(projectId)
+      return { projectId }
+    },
+    onMutate: async ({ projectId, updates }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.tasks.hierarchy(projectId) })
+
+      const previousTasks = queryClient.getQueryData<HierarchicalTask[]>(
+        queryKeys.tasks.hierarchy(projectId)
+      )
+
+      if (previousTasks) {
+        const updateMap = new Map(updates.map((u) => [u.id, u.updates]))
+        queryClient.setQueryData(
+          queryKeys.tasks.hierarchy(projectId),
+          previousTasks.map((t) => (updateMap.has(t.id) ? { ...t, ...updateMap.get(t.id) } : t))
+        )
+      }
+
+      return { previousTasks }
+    },
+    onError: (err, { projectId }, context) => {
+      if (context?.previousTasks) {
+        queryClient.setQueryData(queryKeys.tasks.hierarchy(projectId), context.previousTasks)
+      }
+      console.error('Error updating tasks:', err)
+      toast.error('Erro ao atualizar tarefas')
+    },
+    onSettled: (_data, _error, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.hierarchy(projectId) })
+    },
+  })
+}
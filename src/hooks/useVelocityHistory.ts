@@ -0,0 +1,125 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import { parseDateKey } from '@/utils/gantt/workingCalendar'
+
+/** Completed sprints used as velocity samples */
+const VELOCITY_SAMPLE_SIZE = 10
+const DEFAULT_SPRINT_LENGTH_DAYS = 14
+
+export interface VelocitySample {
+  sprintId: string
+  name: string
+  completedPoints: number
+  lengthDays: number
+  startDate: string
+  endDate: string
+}
+
+export interface VelocityHistory {
+  samples: VelocitySample[]
+  /** Median length of the sampled sprints */
+  sprintLengthDays: number
+  /** First day after the team's latest planned/running sprint (or today) */
+  nextSprintStart: Date
+}
+
+export interface ForecastTeam {
+  id: string
+  name: string
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2)
+}
+
+/**
+ * Hook to fetch a team's velocity history (points done per completed sprint)
+ */
+export function useVelocityHistory(teamId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.sprints.velocity(teamId || ''),
+    queryFn: async (): Promise<VelocityHistory> => {
+      const { data: sprints, error } = await supabase
+        .from('sprints')
+        .select('id, name, status, start_date, end_date')
+        .eq('team_id', teamId)
+        .neq('status', 'cancelled')
+        .order('end_date', { ascending: false })
+
+      if (error) throw error
+
+      const completed = (sprints || []).filter((s) => s.status === 'completed').slice(0, VELOCITY_SAMPLE_SIZE)
+
+      let pointsBySprint = new Map<string, number>()
+      if (completed.length > 0) {
+        const { data: tasks, error: tasksError } = await supabase
+          .from('tasks')
+          .select('sprint_id, story_points')
+          .in('sprint_id', completed.map((s) => s.id))
+          .eq('status', 'done')
+
+        if (tasksError) throw tasksError
+        pointsBySprint = (tasks || []).reduce((map, task) => {
+          map.set(task.sprint_id, (map.get(task.sprint_id) || 0) + (task.story_points || 0))
+          return map
+        }, new Map<string, number>())
+      }
+
+      const samples = completed.map((sprint) => ({
+        sprintId: sprint.id,
+        name: sprint.name,
+        completedPoints: pointsBySprint.get(sprint.id) || 0,
+        lengthDays:
+          Math.round(
+            (parseDateKey(sprint.end_date).getTime() - parseDateKey(sprint.start_date).getTime()) / 86400000
+          ) + 1,
+        startDate: sprint.start_date,
+        endDate: sprint.end_date,
+      }))
+
+      const today = new Date()
+      today.setHours(0, 0, 0, 0)
+      const latestEnd = (sprints || [])[0]?.end_date
+      const nextSprintStart = latestEnd ? parseDateKey(latestEnd) : new Date(today)
+      nextSprintStart.setDate(nextSprintStart.getDate() + (latestEnd ? 1 : 0))
+
+      return {
+        samples,
+        sprintLengthDays: samples.length > 0 ? median(samples.map((s) => s.lengthDays)) : DEFAULT_SPRINT_LENGTH_DAYS,
+        nextSprintStart: nextSprintStart < today ? today : nextSprintStart,
+      }
+    },
+    enabled: !!teamId,
+  })
+}
+
+/**
+ * Hook to list the teams a forecast can be based on: the project's teams, or
+ * every team when no project is given
+ */
+export function useForecastTeams(projectId?: string) {
+  return useQuery({
+    queryKey: queryKeys.teams.list({ projectId, purpose: 'forecast' }),
+    queryFn: async (): Promise<ForecastTeam[]> => {
+      if (projectId) {
+        const { data, error } = await supabase
+          .from('project_teams')
+          .select('team:teams(id, name)')
+          .eq('project_id', projectId)
+
+        if (error) throw error
+        return (data || [])
+          .map((row) => row.team as unknown as ForecastTeam | null)
+          .filter((team): team is ForecastTeam => !!team)
+          .sort((a, b) => a.name.localeCompare(b.name))
+      }
+
+      const { data, error } = await supabase.from('teams').select('id, name').order('name')
+      if (error) throw error
+      return data || []
+    },
+  })
+}
@@ -0,0 +1,207 @@
+import { useCallback, useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { queryKeys } from '@/lib/queryClient'
+import {
+  buildWorkflow,
+  DEFAULT_WORKFLOW,
+  getWipScope,
+  type ResolvedWorkflow,
+  type WipScopeTaskRow,
+} from '@/utils/kanbanWorkflow'
+import type { TaskStatus, WipPolicy, WorkflowColumn, WorkflowTransition } from '@/types/hybrid'
+import toast from 'react-hot-toast'
+
+/** Column being edited; key is the column id, or a temporary key for new columns */
+export interface WorkflowColumnDraft {
+  key: string
+  id?: string
+  name: string
+  status: TaskStatus
+  color: string
+  wip_limit: number | null
+  wip_policy: WipPolicy
+}
+
+export interface WorkflowDraft {
+  projectId: string
+  columns: WorkflowColumnDraft[]
+  /** Allowed moves as [from key, to key]; empty allows any move */
+  transitions: Array<[string, string]>
+}
+
+/**
+ * Hook to fetch the raw workflow (columns and transitions) of a project
+ */
+export function useWorkflowDefinition(projectId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.workflows.detail(projectId || ''),
+    queryFn: async () => {
+      const [columnsRes, transitionsRes] = await Promise.all([
+        supabase.from('workflow_columns').select('*').eq('project_id', projectId).order('order_index'),
+        supabase.from('workflow_transitions').select('*').eq('project_id', projectId),
+      ])
+      if (columnsRes.error) throw columnsRes.error
+      if (transitionsRes.error) throw transitionsRes.error
+
+      return {
+        columns: (columnsRes.data || []) as WorkflowColumn[],
+        transitions: (transitionsRes.data || []) as WorkflowTransition[],
+      }
+    },
+    enabled: !!projectId,
+    staleTime: 1000 * 60 * 5, // 5 minutes - workflows rarely change
+  })
+}
+
+/**
+ * Hook to get the Kanban workflow of a project (the default one while
+ * loading or when the project has none)
+ */
+export function useProjectWorkflow(projectId: string | undefined): ResolvedWorkflow {
+  const { data } = useWorkflowDefinition(projectId)
+  return useMemo(() => (data ? buildWorkflow(data.columns, data.transitions) : DEFAULT_WORKFLOW), [data])
+}
+
+/**
+ * Fetch the tasks a WIP limit counts for a task (getWipScope), for views
+ * that don't load the whole sprint
+ */
+export async function fetchWipScope(task: { project_id: string; sprint_id?: string | null }): Promise<WipScopeTaskRow[]> {
+  let query = supabase
+    .from('tasks')
+    .select('id, status, workflow_column_id, project_id, sprint_id, task_type')
+    .eq('project_id', task.project_id)
+  query = task.sprint_id ? query.eq('sprint_id', task.sprint_id) : query.is('sprint_id', null)
+
+  const { data, error } = await query
+  if (error) throw error
+  return getWipScope(task, data || [])
+}
+
+/**
+ * Hook to get the workflows of every project, for cross-project boards
+ */
+export function useProjectWorkflows() {
+  const { data } = useQuery({
+    queryKey: queryKeys.workflows.list(),
+    queryFn: async () => {
+      const [columnsRes, transitionsRes] = await Promise.all([
+        supabase.from('workflow_columns').select('*').order('order_index'),
+        supabase.from('workflow_transitions').select('*'),
+      ])
+      if (columnsRes.error) throw columnsRes.error
+      if (transitionsRes.error) throw transitionsRes.error
+
+      const columns = (columnsRes.data || []) as WorkflowColumn[]
+      const transitions = (transitionsRes.data || []) as WorkflowTransition[]
+      const byProject = new Map<string, ResolvedWorkflow>()
+      new Set(columns.map((c) => c.project_id)).forEach((projectId) => {
+        byProject.set(
+          projectId,
+          buildWorkflow(
+            columns.filter((c) => c.project_id === projectId),
+            transitions.filter((t) => t.project_id === projectId)
+          )
+        )
+      })
+      return byProject
+    },
+    staleTime: 1000 * 60 * 5,
+  })
+
+  return useCallback(
+    (projectId: string | null | undefined) => (projectId && data?.get(projectId)) || DEFAULT_WORKFLOW,
+    [data]
+  )
+}
+
+/**
+ * Hook to save a project's workflow: columns are updated in place (so tasks
+ * keep their column), added or removed, and the transitions are replaced
+ */
+export function useSaveWorkflow() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ projectId, columns, transitions }: WorkflowDraft) => {
+      const { data: existing, error: existingError } = await supabase
+        .from('workflow_columns')
+        .select('id')
+        .eq('project_id', projectId)
+      if (existingError) throw existingError
+
+      const keptIds = new Set(columns.map((c) => c.id).filter(Boolean))
+      const removedIds = (existing || []).map((c) => c.id).filter((id) => !keptIds.has(id))
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from('workflow_columns').delete().in('id', removedIds)
+        if (error) throw error
+      }
+
+      const idByKey = new Map<string, string>()
+      for (const [index, column] of columns.entries()) {
+        const values = {
+          project_id: projectId,
+          name: column.name.trim(),
+          status: column.status,
+          color: column.color,
+          wip_limit: column.wip_limit,
+          wip_policy: column.wip_policy,
+          order_index: index,
+        }
+
+        if (column.id) {
+          const { error } = await supabase.from('workflow_columns').update(values).eq('id', column.id)
+          if (error) throw error
+          idByKey.set(column.key, column.id)
+        } else {
+          const { data, error } = await supabase.from('workflow_columns').insert(values).select('id').single()
+          if (error) throw error
+          idByKey.set(column.key, data.id)
+        }
+      }
+
+      const { error: clearError } = await supabase.from('workflow_transitions').delete().eq('project_id', projectId)
+      if (clearError) throw clearError
+
+      const rows = transitions
+        .filter(([from, to]) => idByKey.has(from) && idByKey.has(to) && from !== to)
+        .map(([from, to]) => ({ project_id: projectId, from_column_id: idByKey.get(from), to_column_id: idByKey.get(to) }))
+      if (rows.length > 0) {
+        const { error } = await supabase.from('workflow_transitions').insert(rows)
+        if (error) throw error
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workflows.all })
+      toast.success('Fluxo de trabalho salvo')
+    },
+    onError: (error) => {
+      console.error('Error saving workflow:', error)
+      toast.error('Erro ao salvar fluxo de trabalho')
+    },
+  })
+}
+
+/**
+ * Hook to go back to the default workflow (one column per status)
+ */
+export function useResetWorkflow() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (projectId: string) => {
+      // Transitions cascade; tasks lose their column and follow their status
+      const { error } = await supabase.from('workflow_columns').delete().eq('project_id', projectId)
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workflows.all })
+      toast.success('Fluxo padrão restaurado')
+    },
+    onError: (error) => {
+      console.error('Error resetting workflow:', error)
+      toast.error('Erro ao restaurar fluxo padrão')
+    },
+  })
+}
@@ -55,6 +55,26 @@ export const queryKeys = {
     detail: (projectId: string) => [...queryKeys.projectConfig.all, projectId] as const,
   },
 
+  // Project working calendar
+  projectCalendar: {
+    all: ['projectCalendar'] as const,
+    exceptions: (projectId: string) => [...queryKeys.projectCalendar.all, 'exceptions', projectId] as const,
+  },
+
+  // Kanban workflows (columns, WIP limits, transitions)
+  workflows: {
+    all: ['workflows'] as const,
+    list: () => [...queryKeys.workflows.all, 'list'] as const,
+    detail: (projectId: string) => [...queryKeys.workflows.all, 'detail', projectId] as const,
+  },
+
+  // Kanban saved filters (per user) and project labels
+  kanbanFilters: {
+    all: ['kanbanFilters'] as const,
+    saved: (userId: string, projectId: string) => [...queryKeys.kanbanFilters.all, 'saved', userId, projectId] as const,
+    labels: (projectId: string) => [...queryKeys.kanbanFilters.all, 'labels', projectId] as const,
+  },
+
   // Tasks
   tasks: {
     all: ['tasks'] as const,
@@ -64,6 +84,8 @@ export const queryKeys = {
     details: () => [...queryKeys.tasks.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.tasks.details(), id] as const,
     hierarchy: (projectId: string) => [...queryKeys.tasks.all, 'hierarchy', projectId] as const,
+    epics: (projectId?: string) => [...queryKeys.tasks.all, 'epics', projectId ?? 'all'] as const,
+    flow: (projectId: string) => [...queryKeys.tasks.all, 'flow', projectId] as const,
   },
 
   // Gantt-specific
@@ -121,6 +143,10 @@ export const queryKeys = {
     tasks: (sprintId: string) => [...queryKeys.sprints.all, 'tasks', sprintId] as const,
     count: (teamId?: string, projectId?: string) =>
       [...queryKeys.sprints.all, 'count', { teamId, projectId }] as const,
+    snapshots: (sprintId: string) => [...queryKeys.sprints.all, 'snapshots', sprintId] as const,
+    velocity: (teamId: string) => [...queryKeys.sprints.all, 'velocity', teamId] as const,
+    scopeChanges: (sprintId: string) => [...queryKeys.sprints.all, 'scopeChanges', sprintId] as const,
+    capacity: (sprintId: string) => [...queryKeys.sprints.all, 'capacity', sprintId] as const,
   },
 
   // Retrospectives
@@ -129,6 +155,18 @@ export const queryKeys = {
     detail: (sprintId: string) => [...queryKeys.retrospectives.all, 'detail', sprintId] as const,
     insights: (teamId?: string, projectId?: string) =>
       [...queryKeys.retrospectives.all, 'insights', { teamId, projectId }] as const,
+    carriedOver: (sprintId: string) => [...queryKeys.retrospectives.all, 'carried-over', sprintId] as const,
+    templates: (teamId: string) => [...queryKeys.retrospectives.all, 'templates', teamId] as const,
+  },
+
+  // Planning poker
+  planningPoker: {
+    all: ['planning-poker'] as const,
+    sessions: (projectId: string) => [...queryKeys.planningPoker.all, 'sessions', projectId] as const,
+    session: (sessionId: string) => [...queryKeys.planningPoker.all, 'session', sessionId] as const,
+    stories: (sessionId: string) => [...queryKeys.planningPoker.all, 'stories', sessionId] as const,
+    votes: (sessionId: string) => [...queryKeys.planningPoker.all, 'votes', sessionId] as const,
+    estimates: (sessionId: string) => [...queryKeys.planningPoker.all, 'estimates', sessionId] as const,
   },
 
   // Profiles / Users
@@ -144,6 +182,8 @@ export const queryKeys = {
     task: (taskId: string) => [...queryKeys.resources.all, 'task', taskId] as const,
     user: (userId: string) => [...queryKeys.resources.all, 'user', userId] as const,
     project: (projectId: string) => [...queryKeys.resources.all, 'project', projectId] as const,
+    users: (userIds: string[]) => [...queryKeys.resources.all, 'users', userIds] as const,
+    members: (projectId: string) => [...queryKeys.resources.all, 'members', projectId] as const,
   },
 
   // Calendar Subscriptions
@@ -160,6 +200,31 @@ export const queryKeys = {
       [...queryKeys.externalEvents.all, userId, weekStart] as const,
   },
 
+  // Activity log (audit trail)
+  activities: {
+    all: ['activities'] as const,
+    entity: (entityType: string, entityId: string) =>
+      [...queryKeys.activities.all, 'entity', entityType, entityId] as const,
+    project: (projectId: string) => [...queryKeys.activities.all, 'project', projectId] as const,
+    feed: (filters?: Record<string, unknown>) => [...queryKeys.activities.all, 'feed', filters] as const,
+    filterOptions: () => [...queryKeys.activities.all, 'filterOptions'] as const,
+  },
+
+  // Portfolio roadmap (all projects)
+  portfolio: {
+    all: ['portfolio'] as const,
+    roadmap: () => [...queryKeys.portfolio.all, 'roadmap'] as const,
+  },
+
+  // Strategic objectives and key results
+  objectives: {
+    all: ['objectives'] as const,
+    list: () => [...queryKeys.objectives.all, 'list'] as const,
+    options: () => [...queryKeys.objectives.all, 'options'] as const,
+    formOptions: () => [...queryKeys.objectives.all, 'formOptions'] as const,
+    linkableTasks: (projectId: string) => [...queryKeys.objectives.all, 'linkableTasks', projectId] as const,
+  },
+
   // Dashboard Configuration
   dashboardConfig: {
     all: ['dashboardConfig'] as const,
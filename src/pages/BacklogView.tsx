@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import {
   Box,
   Typography,
@@ -39,6 +39,9 @@ import { useProjectContext } from './ProjectDetail'
 import CreateBacklogItemModal from '@/components/CreateBacklogItemModal'
 import { supabase } from '@/lib/supabase'
 import { useUserRole } from '@/hooks/useUserRole'
+import { DeliveryForecastPanel, EpicChip, EpicFilter, EpicPanel } from '@/components/backlog'
+import { useEpics } from '@/hooks/useEpics'
+import { EPIC_FILTER_ALL, isEpicLevel, matchesEpicFilter, type EpicRow } from '@/utils/epics'
 import {
   DndContext,
   DragEndEvent,
@@ -66,6 +69,7 @@ interface BacklogItem {
   story_points: number
   assigned_to: string
   assigned_to_profile?: { full_name: string }
+  parent_task_id: string | null
   position?: number
 }
 
@@ -96,9 +100,11 @@ function SortableBacklogCard({
   onEdit,
   onDelete,
   onMoveToSprint,
+  epic,
   isStakeholder = false,
 }: {
   item: BacklogItem
+  epic?: EpicRow
   onEdit: (item: BacklogItem) => void
   onDelete: (id: string, title: string) => void
   onMoveToSprint: (itemId: string) => void
@@ -161,6 +167,8 @@ function SortableBacklogCard({
             </Typography>
 
             <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+              {epic && <EpicChip epic={epic} />}
+
               <Chip
                 label={statusInfo.label}
                 size="small"
@@ -264,6 +272,13 @@ export default function BacklogView() {
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null)
   const [activeId, setActiveId] = useState<string | null>(null)
   const [sortBy, setSortBy] = useState<'position' | 'priority' | 'points'>('position')
+  const [epicFilter, setEpicFilter] = useState(EPIC_FILTER_ALL)
+  const { data: epicData } = useEpics(project?.id)
+
+  const epicsById = useMemo(
+    () => new Map((epicData?.epics || []).map((epic) => [epic.id, epic])),
+    [epicData]
+  )
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -283,15 +298,15 @@ export default function BacklogView() {
     try {
       const { data, error } = await supabase
         .from('tasks')
-        .select('id, title, description, status, priority, story_points, assigned_to, assigned_to_profile:profiles!assigned_to(full_name)')
+        .select('id, title, description, status, priority, story_points, assigned_to, parent_task_id, task_type, assigned_to_profile:profiles!assigned_to(full_name)')
         .eq('project_id', project.id)
         .is('sprint_id', null)
         .order('created_at', { ascending: true })
 
       if (error) throw error
 
-      // Transform data
-      const transformed = (data || []).map((item: any, index: number) => ({
+      // Transform data; epics and features are managed in the epic panel
+      const transformed = (data || []).filter((item: any) => !isEpicLevel(item)).map((item: any, index: number) => ({
         ...item,
         assigned_to_profile: Array.isArray(item.assigned_to_profile)
           ? item.assigned_to_profile[0]
@@ -392,17 +407,18 @@ export default function BacklogView() {
   }
 
   const getSortedItems = () => {
+    const visibleItems = backlogItems.filter((item) => matchesEpicFilter(item.parent_task_id, epicFilter, epicsById))
     if (sortBy === 'priority') {
-      return [...backlogItems].sort((a, b) => {
+      return [...visibleItems].sort((a, b) => {
         const priorityA = priorityConfig[a.priority]?.order || 999
         const priorityB = priorityConfig[b.priority]?.order || 999
         return priorityA - priorityB
       })
     }
     if (sortBy === 'points') {
-      return [...backlogItems].sort((a, b) => (b.story_points || 0) - (a.story_points || 0))
+      return [...visibleItems].sort((a, b) => (b.story_points || 0) - (a.story_points || 0))
     }
-    return backlogItems
+    return visibleItems
   }
 
   const getTotalPoints = () => {
@@ -443,6 +459,10 @@ export default function BacklogView() {
           </Box>
 
           <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+            {(epicData?.summaries.length || 0) > 0 && (
+              <EpicFilter value={epicFilter} onChange={setEpicFilter} summaries={epicData?.summaries || []} />
+            )}
+
             <FormControl size="small" sx={{ minWidth: 150 }}>
               <InputLabel>Ordenar por</InputLabel>
               <Select
@@ -519,6 +539,17 @@ export default function BacklogView() {
         </Box>
       </Box>
 
+      <EpicPanel
+        projectId={project.id}
+        epics={epicData?.epics || []}
+        summaries={epicData?.summaries || []}
+        selected={epicFilter}
+        onSelect={setEpicFilter}
+        isStakeholder={isStakeholder}
+      />
+
+      {backlogItems.length > 0 && <DeliveryForecastPanel items={backlogItems} projectId={project.id} />}
+
       {/* Backlog Items */}
       {backlogItems.length === 0 ? (
         <Box
@@ -574,6 +605,11 @@ export default function BacklogView() {
         >
           <SortableContext items={sortedItems.map((i) => i.id)} strategy={verticalListSortingStrategy}>
             <Stack spacing={2}>
+              {sortedItems.length === 0 && (
+                <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+                  Nenhum item do backlog neste épico
+                </Typography>
+              )}
               {sortedItems.map((item) => (
                 <SortableBacklogCard
                   key={item.id}
@@ -581,6 +617,7 @@ export default function BacklogView() {
                   onEdit={handleEditItem}
                   onDelete={handleDeleteItem}
                   onMoveToSprint={handleOpenMoveDialog}
+                  epic={item.parent_task_id ? epicsById.get(item.parent_task_id) : undefined}
                   isStakeholder={isStakeholder}
                 />
               ))}
@@ -631,6 +668,7 @@ export default function BacklogView() {
                 story_points: editItem.story_points,
                 project_id: project.id,
                 assigned_to: editItem.assigned_to,
+                parent_task_id: editItem.parent_task_id,
               }
             : {
                 id: '',
@@ -641,6 +679,7 @@ export default function BacklogView() {
                 story_points: 0,
                 project_id: project.id,
                 assigned_to: '',
+                parent_task_id: epicFilter !== EPIC_FILTER_ALL && epicsById.has(epicFilter) ? epicFilter : null,
               }
         }
       />
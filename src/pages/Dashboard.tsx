@@ -11,6 +11,8 @@ import {
   Avatar,
   AvatarGroup,
   Tooltip as MuiTooltip,
+  TextField,
+  MenuItem,
 } from "@mui/material";
 import {
   KeyboardArrowLeft,
@@ -19,8 +21,8 @@ import {
   TrendingUp,
   CheckCircle,
   AddTask,
-  DirectionsRun,
-  FolderOpen,
+  EditNote,
+  DeleteOutline,
 } from "@mui/icons-material";
 import {
   PieChart,
@@ -48,11 +50,32 @@ import {
   StrategicFilter,
 } from "@/components/dashboard";
 import type { StrategicValue } from "@/components/dashboard";
+import {
+  filterByStrategicScope,
+  isInStrategicScope,
+  resolveStrategicScope,
+  type StrategicScope,
+} from "@/utils/strategicScope";
 import { IOSWidget } from "@/components/ui";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/lib/supabase";
 import { useDashboardConfig } from "@/hooks/useDashboardConfig";
+import {
+  useActivityFeed,
+  useActivityFilterOptions,
+} from "@/hooks/useActivityLog";
+import type { ActivityScope } from "@/hooks/useActivityLog";
 import { WidgetType } from "@/types";
+import type { ActivityAction } from "@/types";
+import {
+  ACTIVITY_ACTION_LABELS,
+  ACTIVITY_ENTITY_LABELS,
+  formatActivityTime,
+  getActivityTitle,
+} from "@/utils/activityLog";
+import type { ResourceAllocation } from "@/types/hybrid";
+import { summarizeResourceLoad } from "@/utils/gantt/resourceLoad";
+import { DEFAULT_WORKING_CALENDAR } from "@/utils/gantt/workingCalendar";
 
 interface TaskStats {
   todo: number;
@@ -63,11 +86,7 @@ interface TaskStats {
   total: number;
 }
 
-type ActivityType =
-  | "task_done"
-  | "task_created"
-  | "sprint_created"
-  | "project_created";
+type ActivityType = "task_done" | ActivityAction;
 
 interface Activity {
   id: string;
@@ -77,6 +96,7 @@ interface Activity {
   time: string;
   created_at: string;
   projectName?: string;
+  userName?: string;
 }
 
 const ACTIVITY_CONFIG: Record<
@@ -88,20 +108,20 @@ const ACTIVITY_CONFIG: Record<
     color: "#10b981",
     bg: "rgba(16, 185, 129, 0.1)",
   },
-  task_created: {
+  created: {
     Icon: AddTask,
     color: "#6366f1",
     bg: "rgba(99, 102, 241, 0.1)",
   },
-  sprint_created: {
-    Icon: DirectionsRun,
+  updated: {
+    Icon: EditNote,
     color: "#f59e0b",
     bg: "rgba(245, 158, 11, 0.1)",
   },
-  project_created: {
-    Icon: FolderOpen,
-    color: "#8b5cf6",
-    bg: "rgba(139, 92, 246, 0.1)",
+  deleted: {
+    Icon: DeleteOutline,
+    color: "#ef4444",
+    bg: "rgba(239, 68, 68, 0.1)",
   },
 };
 
@@ -118,8 +138,15 @@ interface TeamMember {
   avatar_url?: string;
   tasks_count: number;
   completed_count: number;
+  /** Average allocation over the next two weeks, across all projects (%) */
+  allocation_percent: number;
+  /** Busiest day in the same window (%) */
+  peak_allocation: number;
 }
 
+/** Days ahead used for the team workload widget */
+const WORKLOAD_WINDOW_DAYS = 14;
+
 interface ProductivityData {
   label: string;
   completed: number;
@@ -172,7 +199,14 @@ export default function Dashboard() {
   const [loading, setLoading] = useState(true);
   const [taskStats, setTaskStats] = useState<TaskStats | null>(null);
   const [projectStats, setProjectStats] = useState<ProjectStats | null>(null);
-  const [recentActivities, setRecentActivities] = useState<Activity[]>([]);
+  const [activityScope, setActivityScope] = useState<ActivityScope | null>(
+    null,
+  );
+  const [activityProjectFilter, setActivityProjectFilter] = useState("");
+  const [activityUserFilter, setActivityUserFilter] = useState("");
+  const [activityActionFilter, setActivityActionFilter] = useState<
+    ActivityAction | ""
+  >("");
   const [activitiesPage, setActivitiesPage] = useState(1);
   const [customizeModalOpen, setCustomizeModalOpen] = useState(false);
   const [productivityData, setProductivityData] = useState<ProductivityData[]>(
@@ -194,6 +228,39 @@ export default function Dashboard() {
   const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
   const [selectedStrategic, setSelectedStrategic] = useState<StrategicValue>("all");
 
+  const { data: activityFeed = [], isLoading: activitiesLoading } =
+    useActivityFeed({
+      scope: activityScope,
+      projectId: activityProjectFilter || null,
+      userId: activityUserFilter || null,
+      action: activityActionFilter || null,
+    });
+  const { data: activityFilterOptions } = useActivityFilterOptions();
+
+  const recentActivities = useMemo<Activity[]>(
+    () =>
+      activityFeed.map((entry) => {
+        const completed =
+          entry.entity_type === "task" &&
+          entry.action === "updated" &&
+          entry.details?.changes?.status?.new === "done";
+        return {
+          id: entry.id,
+          type: completed ? "task_done" : entry.action,
+          label: getActivityTitle(entry),
+          name:
+            entry.details?.name ||
+            ACTIVITY_ENTITY_LABELS[entry.entity_type] ||
+            "",
+          time: formatActivityTime(entry.created_at),
+          created_at: entry.created_at,
+          projectName: entry.details?.project_name,
+          userName: entry.user?.full_name || undefined,
+        };
+      }),
+    [activityFeed],
+  );
+
   const totalActivitiesPages = Math.ceil(
     recentActivities.length / ACTIVITIES_PER_PAGE,
   );
@@ -203,9 +270,13 @@ export default function Dashboard() {
     activitiesStartIndex + ACTIVITIES_PER_PAGE,
   );
 
-  // Sort team workload by tasks_count (descending) and paginate
+  // Sort team workload by allocation (descending) and paginate
   const sortedTeamWorkload = useMemo(() => {
-    return [...teamWorkload].sort((a, b) => b.tasks_count - a.tasks_count);
+    return [...teamWorkload].sort(
+      (a, b) =>
+        b.allocation_percent - a.allocation_percent ||
+        b.tasks_count - a.tasks_count,
+    );
   }, [teamWorkload]);
 
   const totalTeamWorkloadPages = Math.ceil(
@@ -245,50 +316,28 @@ export default function Dashboard() {
 
   const EMPTY_ID = "00000000-0000-0000-0000-000000000000";
 
-  /**
-   * Resolve project IDs for the given strategic filter.
-   * "all" → null (no restriction).
-   * "yes" → { ids: strategic project ids, includeNull: false }
-   * "no"  → { ids: non-strategic project ids, includeNull: true }
-   *          (includeNull means: also include sprints/tasks with no project/sprint)
-   */
-  const resolveStrategicScope = async (
-    strategic: StrategicValue,
-  ): Promise<{ ids: string[]; includeNull: boolean } | null> => {
-    if (strategic === "all") return null;
-    const { data } = await supabase
-      .from("projects")
-      .select("id")
-      .eq("strategic_planning", strategic === "yes");
-    return {
-      ids: (data ?? []).map((p: { id: string }) => p.id),
-      includeNull: strategic === "no",
-    };
-  };
-
   /**
    * Resolve sprint IDs given team and strategic scope.
    * Returns null when no restriction applies (fetches everything).
-   * For "Não": runs TWO separate queries (non-strategic projects + null project_id)
+   * For "Sem objetivo": runs TWO separate queries (unlinked projects + null project_id)
    * to avoid relying on PostgREST OR syntax with IS NULL.
    */
   const resolveSprintIds = async (
     teamId: string | null,
-    scope: { ids: string[]; includeNull: boolean } | null,
+    scope: StrategicScope | null,
   ): Promise<string[] | null> => {
     if (!teamId && !scope) return null; // no restriction at all
 
-    // "Não" case: collect sprint IDs from two sources
+    // "Sem objetivo" case: collect sprint IDs from two sources
     if (scope?.includeNull) {
       const collected: string[] = [];
 
-      // Source 1: sprints whose project IS non-strategic
-      if (scope.ids.length > 0) {
-        let q = supabase.from("sprints").select("id").in("project_id", scope.ids);
-        if (teamId) q = q.eq("team_id", teamId);
-        const { data } = await q;
-        collected.push(...(data ?? []).map((s: any) => s.id));
-      }
+      // Source 1: sprints whose project is linked to no objective
+      let q = supabase.from("sprints").select("id");
+      q = filterByStrategicScope(q, "project_id", scope);
+      if (teamId) q = q.eq("team_id", teamId);
+      const { data } = await q;
+      collected.push(...(data ?? []).map((s: any) => s.id));
 
       // Source 2: sprints with NO project (project_id IS NULL)
       let q2 = supabase.from("sprints").select("id").is("project_id", null);
@@ -299,29 +348,14 @@ export default function Dashboard() {
       return collected;
     }
 
-    // "Sim" or team-only: single query
+    // Objective or team-only: single query
     let q = supabase.from("sprints").select("id");
     if (teamId) q = q.eq("team_id", teamId);
-    if (scope) {
-      q = scope.ids.length > 0
-        ? q.in("project_id", scope.ids)
-        : q.in("project_id", [EMPTY_ID]);
-    }
+    q = filterByStrategicScope(q, "project_id", scope);
     const { data } = await q;
     return (data ?? []).map((s: any) => s.id);
   };
 
-  /** Apply strategic scope to a projects query (filter by id). */
-  const applyStrategicToProjects = (
-    query: any,
-    scope: { ids: string[]; includeNull: boolean } | null,
-  ): any => {
-    if (!scope) return query;
-    return scope.ids.length > 0
-      ? query.in("id", scope.ids)
-      : query.in("id", [EMPTY_ID]);
-  };
-
   const fetchDashboardData = async (
     teamId: string | null = null,
     strategic: StrategicValue = "all",
@@ -332,7 +366,7 @@ export default function Dashboard() {
       const strategicScope = await resolveStrategicScope(strategic);
       const sprintIds = await resolveSprintIds(teamId, strategicScope);
 
-      // "Não" without a team filter: also include tasks with no sprint at all
+      // "Sem objetivo" without a team filter: also include tasks with no sprint at all
       // (tasks not in any sprint are not part of any strategic project)
       const includeNullSprintTasks = strategicScope?.includeNull === true && !teamId;
 
@@ -371,7 +405,11 @@ export default function Dashboard() {
 
       // Fetch project stats (scoped to strategic filter and/or team)
       let projectsQuery = supabase.from("projects").select("id, status");
-      projectsQuery = applyStrategicToProjects(projectsQuery, strategicScope);
+      projectsQuery = filterByStrategicScope(
+        projectsQuery,
+        "id",
+        strategicScope,
+      );
       if (teamId) {
         const { data: teamProjects } = await supabase
           .from("sprints")
@@ -425,11 +463,29 @@ export default function Dashboard() {
           .select("id, full_name, avatar_url")
           .in("id", profileIds);
 
+        // Allocations across all projects drive the load shown in the widget
+        const { data: allocations } = await supabase
+          .from("resource_allocations")
+          .select(
+            "*, task:tasks(id, title, project_id, start_date, end_date, status)",
+          )
+          .in("user_id", profileIds);
+        const windowStart = new Date();
+        const windowEnd = new Date();
+        windowEnd.setDate(windowEnd.getDate() + WORKLOAD_WINDOW_DAYS - 1);
+
         if (!profilesError && profiles) {
           const workloadData: TeamMember[] = profiles.map((profile) => {
             const memberTasks = (tasks ?? []).filter(
               (t: any) => t.assigned_to === profile.id,
             );
+            const load = summarizeResourceLoad(
+              (allocations ?? []) as ResourceAllocation[],
+              profile.id,
+              windowStart,
+              windowEnd,
+              DEFAULT_WORKING_CALENDAR,
+            );
             return {
               id: profile.id,
               full_name: profile.full_name,
@@ -437,6 +493,8 @@ export default function Dashboard() {
               tasks_count: memberTasks.length,
               completed_count: memberTasks.filter((t: any) => t.status === "done")
                 .length,
+              allocation_percent: load.average,
+              peak_allocation: load.peak,
             };
           });
           setTeamWorkload(workloadData);
@@ -445,113 +503,36 @@ export default function Dashboard() {
         setTeamWorkload([]);
       }
 
-      // Fetch recent activities (scoped to team and/or strategic filter)
-      let activityTasksQuery = supabase
-        .from("tasks")
-        .select("id, title, status, project_id, sprint_id, created_at, updated_at")
-        .order("updated_at", { ascending: false })
-        .limit(15);
-      let activitySprintsQuery = supabase
-        .from("sprints")
-        .select("id, name, project_id, created_at")
-        .order("created_at", { ascending: false })
-        .limit(8);
-      let activityProjectsQuery = supabase
-        .from("projects")
-        .select("id, name, created_at")
-        .order("created_at", { ascending: false })
-        .limit(8);
-      if (sprintIds !== null) {
-        if (sprintIds.length > 0) {
-          activityTasksQuery = includeNullSprintTasks
-            ? activityTasksQuery.or(`sprint_id.is.null,sprint_id.in.(${sprintIds.join(",")})`)
-            : activityTasksQuery.in("sprint_id", sprintIds);
-          activitySprintsQuery = activitySprintsQuery.in("id", sprintIds);
-        } else if (includeNullSprintTasks) {
-          activityTasksQuery = activityTasksQuery.is("sprint_id", null);
-          activitySprintsQuery = activitySprintsQuery.in("id", [EMPTY_ID]);
-        } else {
-          activityTasksQuery = activityTasksQuery.in("sprint_id", [EMPTY_ID]);
-          activitySprintsQuery = activitySprintsQuery.in("id", [EMPTY_ID]);
-        }
-      }
-      activityProjectsQuery = applyStrategicToProjects(activityProjectsQuery, strategicScope);
-      const [tasksRes, sprintsRes2, projectsRes2] = await Promise.all([
-        activityTasksQuery,
-        activitySprintsQuery,
-        activityProjectsQuery,
-      ]);
-
-      // Batch-resolve project names for tasks and sprints
-      const activityProjectIds = [
-        ...new Set([
-          ...(tasksRes.data || []).map((t) => t.project_id).filter(Boolean),
-          ...(sprintsRes2.data || []).map((s) => s.project_id).filter(Boolean),
-        ]),
-      ];
-      const projectNameMap: Record<string, string> = {};
-      if (activityProjectIds.length > 0) {
-        const { data: projectNames } = await supabase
-          .from("projects")
-          .select("id, name")
-          .in("id", activityProjectIds);
-        projectNames?.forEach((p) => { projectNameMap[p.id] = p.name; });
-      }
-
-      const activities: Activity[] = [];
-
-      tasksRes.data?.forEach((task) => {
-        if (task.status === "done") {
-          activities.push({
-            id: `task-done-${task.id}`,
-            type: "task_done",
-            label: "Tarefa concluída",
-            name: task.title,
-            time: formatTimeAgo(task.updated_at || task.created_at),
-            created_at: task.updated_at || task.created_at,
-            projectName: task.project_id ? projectNameMap[task.project_id] : undefined,
-          });
-        } else {
-          activities.push({
-            id: `task-created-${task.id}`,
-            type: "task_created",
-            label: "Tarefa criada",
-            name: task.title,
-            time: formatTimeAgo(task.created_at),
-            created_at: task.created_at,
-            projectName: task.project_id ? projectNameMap[task.project_id] : undefined,
-          });
+      // Scope the activity feed to the projects behind the team and/or
+      // strategic filter (the log itself is read by useActivityFeed)
+      if (!teamId && !strategicScope) {
+        setActivityScope(null);
+      } else {
+        let scopeProjectIds = strategicScope?.ids ?? null;
+        let excludeProjects = strategicScope?.exclude ?? false;
+        if (teamId) {
+          const { data: teamSprints } = await supabase
+            .from("sprints")
+            .select("project_id")
+            .eq("team_id", teamId);
+          const teamProjectIds = [
+            ...new Set(
+              (teamSprints || [])
+                .map((s: { project_id: string | null }) => s.project_id)
+                .filter((id): id is string => !!id),
+            ),
+          ];
+          scopeProjectIds = teamProjectIds.filter((id) =>
+            isInStrategicScope(strategicScope, id),
+          );
+          excludeProjects = false;
         }
-      });
-
-      sprintsRes2.data?.forEach((sprint) => {
-        activities.push({
-          id: `sprint-${sprint.id}`,
-          type: "sprint_created",
-          label: "Sprint criado",
-          name: sprint.name,
-          time: formatTimeAgo(sprint.created_at),
-          created_at: sprint.created_at,
-          projectName: sprint.project_id ? projectNameMap[sprint.project_id] : undefined,
+        setActivityScope({
+          projectIds: scopeProjectIds ?? [],
+          exclude: excludeProjects,
+          includeNoProject: includeNullSprintTasks,
         });
-      });
-
-      projectsRes2.data?.forEach((project) => {
-        activities.push({
-          id: `project-${project.id}`,
-          type: "project_created",
-          label: "Projeto criado",
-          name: project.name,
-          time: formatTimeAgo(project.created_at),
-          created_at: project.created_at,
-        });
-      });
-
-      activities.sort(
-        (a, b) =>
-          new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
-      );
-      setRecentActivities(activities.slice(0, 20));
+      }
     } catch (error) {
       console.error("Error fetching dashboard data:", error);
     } finally {
@@ -823,21 +804,6 @@ export default function Dashboard() {
     fetchProductivityData(productivityPeriod, selectedTeamId, selectedStrategic);
   }, [productivityPeriod, selectedTeamId, selectedStrategic]);
 
-  const formatTimeAgo = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
-
-    if (diffMins < 60)
-      return `há ${diffMins} ${diffMins === 1 ? "minuto" : "minutos"}`;
-    if (diffHours < 24)
-      return `há ${diffHours} ${diffHours === 1 ? "hora" : "horas"}`;
-    return `há ${diffDays} ${diffDays === 1 ? "dia" : "dias"}`;
-  };
-
   const calculateProgress = () => {
     if (!taskStats || taskStats.total === 0) return 0;
     return Math.round((taskStats.done / taskStats.total) * 100);
@@ -1163,12 +1129,13 @@ export default function Dashboard() {
             ) : sortedTeamWorkload.length > 0 ? (
               <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
                 {paginatedTeamWorkload.map((member) => {
-                  const progress =
-                    member.tasks_count > 0
-                      ? Math.round(
-                          (member.completed_count / member.tasks_count) * 100,
-                        )
-                      : 0;
+                  const allocation = member.allocation_percent;
+                  const loadColor =
+                    member.peak_allocation > 100
+                      ? "#ef4444"
+                      : allocation >= 80
+                        ? "#f59e0b"
+                        : "#7c3aed";
 
                   return (
                     <Box
@@ -1230,44 +1197,40 @@ export default function Dashboard() {
                             {member.full_name.split(" ")[0]}
                           </Typography>
                           <Typography variant="caption" color="text.secondary">
-                            {member.completed_count}/{member.tasks_count}{" "}
-                            tarefas
+                            {member.tasks_count} tarefas
+                            {member.peak_allocation > 100 &&
+                              ` · pico ${member.peak_allocation}%`}
                           </Typography>
                         </Box>
-                        <LinearProgress
-                          variant="determinate"
-                          value={progress}
-                          sx={{
-                            height: 8,
-                            borderRadius: 4,
-                            bgcolor: "rgba(124, 58, 237, 0.1)",
-                            "& .MuiLinearProgress-bar": {
+                        <MuiTooltip
+                          title={`Alocação média nos próximos ${WORKLOAD_WINDOW_DAYS} dias, em todos os projetos`}
+                          arrow
+                        >
+                          <LinearProgress
+                            variant="determinate"
+                            value={Math.min(allocation, 100)}
+                            sx={{
+                              height: 8,
                               borderRadius: 4,
-                              bgcolor:
-                                progress >= 75
-                                  ? "#10b981"
-                                  : progress >= 50
-                                    ? "#f59e0b"
-                                    : "#7c3aed",
-                            },
-                          }}
-                        />
+                              bgcolor: "rgba(124, 58, 237, 0.1)",
+                              "& .MuiLinearProgress-bar": {
+                                borderRadius: 4,
+                                bgcolor: loadColor,
+                              },
+                            }}
+                          />
+                        </MuiTooltip>
                       </Box>
                       <Typography
                         variant="caption"
                         fontWeight={700}
                         sx={{
-                          color:
-                            progress >= 75
-                              ? "#10b981"
-                              : progress >= 50
-                                ? "#f59e0b"
-                                : "#7c3aed",
+                          color: loadColor,
                           minWidth: 36,
                           textAlign: "right",
                         }}
                       >
-                        {progress}%
+                        {allocation}%
                       </Typography>
                     </Box>
                   );
@@ -1692,11 +1655,72 @@ export default function Dashboard() {
             <Box
               sx={{ display: "flex", flexDirection: "column", height: "100%" }}
             >
-              <Typography variant="h6" fontWeight={700} sx={{ mb: 2.5 }}>
+              <Typography variant="h6" fontWeight={700} sx={{ mb: 1.5 }}>
                 Atividade Recente
               </Typography>
 
-              {loading ? (
+              <Box sx={{ display: "flex", gap: 1, mb: 2, flexWrap: "wrap" }}>
+                <TextField
+                  select
+                  size="small"
+                  label="Projeto"
+                  value={activityProjectFilter}
+                  onChange={(e) => {
+                    setActivityProjectFilter(e.target.value);
+                    setActivitiesPage(1);
+                  }}
+                  sx={{ flex: 1, minWidth: 120 }}
+                >
+                  <MenuItem value="">Todos</MenuItem>
+                  {activityFilterOptions?.projects.map((p) => (
+                    <MenuItem key={p.id} value={p.id}>
+                      {p.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  select
+                  size="small"
+                  label="Pessoa"
+                  value={activityUserFilter}
+                  onChange={(e) => {
+                    setActivityUserFilter(e.target.value);
+                    setActivitiesPage(1);
+                  }}
+                  sx={{ flex: 1, minWidth: 120 }}
+                >
+                  <MenuItem value="">Todas</MenuItem>
+                  {activityFilterOptions?.people.map((p) => (
+                    <MenuItem key={p.id} value={p.id}>
+                      {p.full_name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  select
+                  size="small"
+                  label="Ação"
+                  value={activityActionFilter}
+                  onChange={(e) => {
+                    setActivityActionFilter(
+                      e.target.value as ActivityAction | "",
+                    );
+                    setActivitiesPage(1);
+                  }}
+                  sx={{ flex: 1, minWidth: 110 }}
+                >
+                  <MenuItem value="">Todas</MenuItem>
+                  {(
+                    Object.keys(ACTIVITY_ACTION_LABELS) as ActivityAction[]
+                  ).map((action) => (
+                    <MenuItem key={action} value={action}>
+                      {ACTIVITY_ACTION_LABELS[action]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </Box>
+
+              {activitiesLoading ? (
                 <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
                   <CircularProgress />
                 </Box>
@@ -1796,6 +1820,11 @@ export default function Dashboard() {
                             >
                               {item.name}
                             </Typography>
+                            {item.userName && (
+                              <Typography variant="caption" color="text.secondary">
+                                por {item.userName}
+                              </Typography>
+                            )}
                           </Box>
                         </Box>
                       );
@@ -0,0 +1,181 @@
+import { useMemo, useState } from 'react'
+import { Box, Chip, CircularProgress, Paper, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material'
+import { useProjectContext } from './ProjectDetail'
+import { useFlowData } from '@/hooks/useFlowMetrics'
+import {
+  CumulativeFlowChart,
+  CycleTimeScatterChart,
+  LeadTimeDistributionChart,
+  ThroughputChart,
+} from '@/components/flow'
+import {
+  FLOW_PERCENTILE_COLORS,
+  FLOW_PERCENTILES,
+  buildFlowMetrics,
+  type FlowPercentile,
+} from '@/utils/flowMetrics'
+
+const PERIOD_OPTIONS = [30, 90, 180] as const
+
+function PercentileChips({ percentiles }: { percentiles: Record<FlowPercentile, number> | null }) {
+  if (!percentiles) return null
+  return (
+    <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+      {FLOW_PERCENTILES.map((p) => (
+        <Chip
+          key={p}
+          size="small"
+          label={`P${p}: ${percentiles[p]} dias`}
+          sx={{ bgcolor: `${FLOW_PERCENTILE_COLORS[p]}1a`, color: FLOW_PERCENTILE_COLORS[p], fontWeight: 700 }}
+        />
+      ))}
+    </Box>
+  )
+}
+
+function ChartCard({
+  title,
+  subtitle,
+  action,
+  children,
+}: {
+  title: string
+  subtitle: string
+  action?: React.ReactNode
+  children: React.ReactNode
+}) {
+  return (
+    <Paper elevation={0} sx={{ p: 3, borderRadius: 3, border: '2px solid rgba(99, 102, 241, 0.1)' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+        <Box>
+          <Typography variant="subtitle1" fontWeight={700}>
+            {title}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {subtitle}
+          </Typography>
+        </Box>
+        {action}
+      </Box>
+      {children}
+    </Paper>
+  )
+}
+
+export default function FlowMetricsView() {
+  const { project } = useProjectContext()
+  const { data, isLoading } = useFlowData(project?.id)
+  const [days, setDays] = useState<number>(90)
+
+  const metrics = useMemo(
+    () => (data ? buildFlowMetrics(data.tasks, data.transitions, { days }) : null),
+    [data, days]
+  )
+
+  if (isLoading || !metrics) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+        <CircularProgress size={60} />
+      </Box>
+    )
+  }
+
+  const weeks = metrics.throughput.length
+  const averageThroughput = weeks > 0 ? metrics.completed.length / weeks : 0
+
+  const summaryTiles = [
+    { label: 'Concluídas no período', value: String(metrics.completed.length), color: '#10b981' },
+    { label: 'Throughput médio', value: `${averageThroughput.toFixed(1)} / semana`, color: '#6366f1' },
+    {
+      label: 'Cycle time (P85)',
+      value: metrics.cycleTimePercentiles ? `${metrics.cycleTimePercentiles[85]} dias` : '—',
+      color: '#f59e0b',
+    },
+    {
+      label: 'Lead time (P85)',
+      value: metrics.leadTimePercentiles ? `${metrics.leadTimePercentiles[85]} dias` : '—',
+      color: '#8b5cf6',
+    },
+    { label: 'Em andamento agora', value: String(metrics.currentWip), color: '#0ea5e9' },
+  ]
+
+  return (
+    <Box>
+      {/* Statistics Header */}
+      <Box
+        sx={{
+          p: 3,
+          mb: 3,
+          borderRadius: 3,
+          background: 'linear-gradient(135deg, rgba(99, 102, 241, 0.08) 0%, rgba(139, 92, 246, 0.08) 100%)',
+          border: '2px solid rgba(99, 102, 241, 0.2)',
+        }}
+      >
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 2 }}>
+          <Box>
+            <Typography variant="h6" fontWeight={700}>
+              Métricas de Fluxo
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              Calculadas a partir do histórico de mudanças de status das tarefas
+            </Typography>
+          </Box>
+          <ToggleButtonGroup value={days} exclusive size="small" onChange={(_, value) => value && setDays(value)}>
+            {PERIOD_OPTIONS.map((option) => (
+              <ToggleButton key={option} value={option}>
+                {option} dias
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr 1fr', md: 'repeat(5, 1fr)' }, gap: 2 }}>
+          {summaryTiles.map((tile) => (
+            <Box key={tile.label}>
+              <Typography variant="caption" color="text.secondary" fontWeight={600}>
+                {tile.label}
+              </Typography>
+              <Typography variant="h5" fontWeight={800} sx={{ color: tile.color }}>
+                {tile.value}
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+      </Box>
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3 }}>
+        <ChartCard title="Diagrama de Fluxo Cumulativo" subtitle="Tarefas em cada status ao fim de cada dia">
+          <CumulativeFlowChart data={metrics.cumulativeFlow} />
+        </ChartCard>
+
+        <ChartCard
+          title="Cycle Time"
+          subtitle="Dias entre o início do trabalho e a conclusão de cada tarefa"
+          action={<PercentileChips percentiles={metrics.cycleTimePercentiles} />}
+        >
+          {metrics.cycleTimePercentiles ? (
+            <CycleTimeScatterChart items={metrics.completed} percentiles={metrics.cycleTimePercentiles} />
+          ) : (
+            <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+              Nenhuma tarefa concluída no período passou por "Em Progresso" ou "Em Revisão"
+            </Typography>
+          )}
+        </ChartCard>
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', lg: '1fr 1fr' }, gap: 3 }}>
+          <ChartCard
+            title="Distribuição do Lead Time"
+            subtitle="Dias entre a criação e a conclusão"
+            action={<PercentileChips percentiles={metrics.leadTimePercentiles} />}
+          >
+            <LeadTimeDistributionChart buckets={metrics.leadTimeDistribution} />
+          </ChartCard>
+
+          <ChartCard title="Throughput Semanal" subtitle="Tarefas concluídas por semana">
+            <ThroughputChart weeks={metrics.throughput} />
+          </ChartCard>
+        </Box>
+      </Box>
+    </Box>
+  )
+}
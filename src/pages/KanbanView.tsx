@@ -1,4 +1,5 @@
 import { useState, useEffect, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import {
   Box,
   Typography,
@@ -37,7 +38,6 @@ import {
   Timer,
   ExpandMore,
   FilterList,
-  People,
 } from '@mui/icons-material'
 import toast from 'react-hot-toast'
 import { useProjectContext } from './ProjectDetail'
@@ -46,6 +46,19 @@ import CreateUserStoryModal from '@/components/CreateUserStoryModal'
 import CreateSubtaskModal from '@/components/CreateSubtaskModal'
 import { supabase } from '@/lib/supabase'
 import { useUserRole } from '@/hooks/useUserRole'
+import { SprintCapacityAlert } from '@/components/capacity'
+import { EpicChip, EpicFilter } from '@/components/backlog'
+import { useEpics } from '@/hooks/useEpics'
+import { useProjectWorkflow } from '@/hooks/useWorkflow'
+import { EPIC_FILTER_ALL, isEpicLevel, matchesEpicFilter } from '@/utils/epics'
+import { KanbanFilterBar } from '@/components/kanban'
+import {
+  countActiveFilters,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  matchesKanbanFilters,
+} from '@/utils/kanbanFilters'
+import type { KanbanFilters } from '@/types'
 
 interface UserStory {
   id: string
@@ -54,8 +67,12 @@ interface UserStory {
   status: string
   priority: string
   story_points: number
+  estimated_hours?: number | null
   assigned_to: string
   sprint_id: string | null
+  parent_task_id: string | null
+  workflow_column_id?: string | null
+  labels?: string[] | null
   due_date?: string | null
   start_date?: string | null
   end_date?: string | null
@@ -79,6 +96,9 @@ interface Sprint {
   id: string
   name: string
   status: string
+  team_id: string
+  start_date: string
+  end_date: string
 }
 
 interface TeamMember {
@@ -113,7 +133,20 @@ export default function KanbanView() {
   const [createSubtaskOpen, setCreateSubtaskOpen] = useState(false)
   const [selectedStoryId, setSelectedStoryId] = useState<string>('')
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([])
-  const [selectedAssignee, setSelectedAssignee] = useState<string>('all')
+  const [epicFilter, setEpicFilter] = useState(EPIC_FILTER_ALL)
+  // Filters live in the URL so the board view can be shared as a link
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams])
+  const setFilters = (next: KanbanFilters) =>
+    setSearchParams(filtersToSearchParams(next, searchParams), { replace: true })
+  const { data: epicData } = useEpics(project?.id)
+  const workflow = useProjectWorkflow(project?.id)
+
+  const epicsById = useMemo(
+    () => new Map((epicData?.epics || []).map((epic) => [epic.id, epic])),
+    [epicData]
+  )
+  const hasEpics = (epicData?.epics.length || 0) > 0
 
   useEffect(() => {
     if (project?.id) {
@@ -127,7 +160,7 @@ export default function KanbanView() {
       // Fetch sprints for filter
       const { data: sprintsData, error: sprintsError } = await supabase
         .from('sprints')
-        .select('id, name, status')
+        .select('id, name, status, team_id, start_date, end_date')
         .eq('project_id', project.id)
         .order('start_date', { ascending: false })
 
@@ -183,8 +216,9 @@ export default function KanbanView() {
 
       if (storiesError) throw storiesError
 
-      // Transform stories to handle assigned_to_profile array
-      const transformedStories = (storiesData || []).map((story: any) => ({
+      // Transform stories to handle assigned_to_profile array; epics and
+      // features group stories and are not cards on the board
+      const transformedStories = (storiesData || []).filter((story: any) => !isEpicLevel(story)).map((story: any) => ({
         ...story,
         assigned_to_profile: Array.isArray(story.assigned_to_profile)
           ? story.assigned_to_profile[0]
@@ -288,11 +322,27 @@ export default function KanbanView() {
     return Math.round((completed / story.subtasks.length) * 100)
   }
 
-  // Filter stories by assignee
+  // Filter stories by the board filters and epic
   const filteredStories = useMemo(() => {
-    if (selectedAssignee === 'all') return stories
-    return stories.filter((story) => story.assigned_to === selectedAssignee)
-  }, [stories, selectedAssignee])
+    return stories.filter(
+      (story) => matchesKanbanFilters(story, filters) && matchesEpicFilter(story.parent_task_id, epicFilter, epicsById)
+    )
+  }, [stories, filters, epicFilter, epicsById])
+
+  const labelOptions = useMemo(
+    () => Array.from(new Set(stories.flatMap((story) => story.labels || []))).sort((a, b) => a.localeCompare(b)),
+    [stories]
+  )
+
+  // Capacity is checked against the whole sprint, whatever the assignee filter
+  const selectedSprint = sprints.find((sprint) => sprint.id === selectedSprintId)
+  const sprintCommitment = useMemo(
+    () => ({
+      points: stories.reduce((sum, story) => sum + (story.story_points || 0), 0),
+      hours: stories.reduce((sum, story) => sum + (Number(story.estimated_hours) || 0), 0),
+    }),
+    [stories]
+  )
 
   const getTotalPoints = () => {
     return filteredStories.reduce((sum, story) => sum + (story.story_points || 0), 0)
@@ -361,28 +411,10 @@ export default function KanbanView() {
               </Select>
             </FormControl>
 
-            {/* Assignee Filter */}
-            <FormControl size="small" sx={{ minWidth: 180 }}>
-              <InputLabel>
-                <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
-                  <People sx={{ fontSize: 18 }} />
-                  Responsável
-                </Box>
-              </InputLabel>
-              <Select
-                value={selectedAssignee}
-                label="Responsável"
-                onChange={(e) => setSelectedAssignee(e.target.value)}
-              >
-                <MenuItem value="all">Todos</MenuItem>
-                {teamMembers.length > 0 && <Divider />}
-                {teamMembers.map((member) => (
-                  <MenuItem key={member.id} value={member.id}>
-                    {member.full_name}
-                  </MenuItem>
-                ))}
-              </Select>
-            </FormControl>
+            {/* Epic Filter */}
+            {hasEpics && (
+              <EpicFilter value={epicFilter} onChange={setEpicFilter} summaries={epicData?.summaries || []} />
+            )}
 
             <ToggleButtonGroup
               value={viewMode}
@@ -468,8 +500,25 @@ export default function KanbanView() {
             </Typography>
           </Box>
         </Box>
+
+        {selectedSprint && selectedSprint.status !== 'completed' && selectedSprint.status !== 'cancelled' && (
+          <SprintCapacityAlert
+            sprint={{ ...selectedSprint, project_id: project.id }}
+            committed={sprintCommitment}
+            sx={{ mt: 2 }}
+          />
+        )}
       </Box>
 
+      <KanbanFilterBar
+        projectId={project.id}
+        filters={filters}
+        onChange={setFilters}
+        members={teamMembers}
+        labelOptions={labelOptions}
+        hasEpics={hasEpics}
+      />
+
       {/* Content */}
       {filteredStories.length === 0 ? (
         <Box
@@ -487,15 +536,17 @@ export default function KanbanView() {
             Nenhuma história encontrada
           </Typography>
           <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-            {selectedAssignee !== 'all'
-              ? 'Nenhuma história encontrada para este responsável'
+            {countActiveFilters(filters) > 0
+              ? 'Nenhuma história corresponde aos filtros'
+              : epicFilter !== EPIC_FILTER_ALL
+              ? 'Nenhuma história encontrada para este épico'
               : selectedSprintId === 'all'
               ? 'Crie sua primeira história para este projeto'
               : selectedSprintId === 'backlog'
               ? 'O backlog está vazio'
               : 'Este sprint não tem histórias'}
           </Typography>
-          {!isStakeholder && selectedAssignee === 'all' && (
+          {!isStakeholder && countActiveFilters(filters) === 0 && epicFilter === EPIC_FILTER_ALL && (
             <Button
               variant="contained"
               startIcon={<Add />}
@@ -513,6 +564,10 @@ export default function KanbanView() {
           onDeleteStory={handleDeleteStory}
           currentSprintId={selectedSprintId !== 'all' && selectedSprintId !== 'backlog' ? selectedSprintId : undefined}
           isStakeholder={isStakeholder}
+          epicsById={epicsById}
+          swimlaneBy={filters.swimlanes === 'epic' && !hasEpics ? 'none' : filters.swimlanes}
+          workflow={workflow}
+          wipScope={stories}
         />
       ) : (
         <Stack spacing={2}>
@@ -558,6 +613,9 @@ export default function KanbanView() {
                       {story.title}
                     </Typography>
                     <Box sx={{ display: 'flex', gap: 1, mt: 0.5, flexWrap: 'wrap' }}>
+                      {story.parent_task_id && epicsById.has(story.parent_task_id) && (
+                        <EpicChip epic={epicsById.get(story.parent_task_id)!} />
+                      )}
                       <Chip
                         label={statusConfig[story.status]?.label || story.status}
                         size="small"
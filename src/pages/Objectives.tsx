@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Container,
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material'
+import { Add, Flag } from '@mui/icons-material'
+import Navbar from '@/components/Navbar'
+import { KeyResultFormDialog, LinkWorkDialog, ObjectiveCard, ObjectiveFormDialog } from '@/components/objectives'
+import {
+  useDeleteKeyResult,
+  useDeleteObjective,
+  useObjectiveFormOptions,
+  useObjectives,
+} from '@/hooks/useObjectives'
+import type { KeyResultWithProgress, ObjectiveWithProgress } from '@/utils/okrProgress'
+import type { ObjectiveStatus } from '@/types'
+
+type StatusFilter = ObjectiveStatus | 'all'
+
+export default function Objectives() {
+  const navigate = useNavigate()
+  const { data: objectives = [], isLoading } = useObjectives()
+  const { data: formOptions } = useObjectiveFormOptions()
+  const deleteObjective = useDeleteObjective()
+  const deleteKeyResult = useDeleteKeyResult()
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active')
+  const [objectiveDialog, setObjectiveDialog] = useState<{ open: boolean; objective: ObjectiveWithProgress | null }>({
+    open: false,
+    objective: null,
+  })
+  const [keyResultDialog, setKeyResultDialog] = useState<{
+    objective: ObjectiveWithProgress
+    keyResult: KeyResultWithProgress | null
+  } | null>(null)
+  // Kept by id so the dialog follows the refetched links
+  const [linkingKeyResultId, setLinkingKeyResultId] = useState<string | null>(null)
+
+  const visibleObjectives = useMemo(
+    () => objectives.filter((o) => statusFilter === 'all' || o.status === statusFilter),
+    [objectives, statusFilter]
+  )
+
+  const linkingKeyResult = useMemo(
+    () =>
+      objectives.flatMap((o) => o.keyResults).find((kr) => kr.id === linkingKeyResultId) || null,
+    [objectives, linkingKeyResultId]
+  )
+
+  const active = objectives.filter((o) => o.status === 'active')
+  const measured = active.filter((o) => o.progress !== null)
+  const averageProgress =
+    measured.length > 0 ? measured.reduce((sum, o) => sum + (o.progress ?? 0), 0) / measured.length : null
+  const behindCount = active.filter((o) => o.behind).length
+
+  const handleDeleteObjective = (objective: ObjectiveWithProgress) => {
+    const confirmed = window.confirm(
+      `Excluir o objetivo "${objective.title}"? Os resultados-chave e vínculos também serão excluídos.`
+    )
+    if (confirmed) deleteObjective.mutate(objective.id)
+  }
+
+  const handleDeleteKeyResult = (keyResult: KeyResultWithProgress) => {
+    const confirmed = window.confirm(`Excluir o resultado-chave "${keyResult.title}"?`)
+    if (confirmed) deleteKeyResult.mutate(keyResult.id)
+  }
+
+  const summaryTiles = [
+    { label: 'Objetivos em andamento', value: String(active.length), color: '#6366f1' },
+    {
+      label: 'Progresso médio',
+      value: averageProgress === null ? '—' : `${Math.round(averageProgress * 100)}%`,
+      color: '#10b981',
+    },
+    { label: 'Abaixo do esperado', value: String(behindCount), color: behindCount > 0 ? '#f59e0b' : '#94a3b8' },
+  ]
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+      <Navbar />
+      <Container maxWidth="lg" sx={{ mt: 4, mb: 4 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 4, gap: 2, flexWrap: 'wrap' }}>
+          <Box>
+            <Typography variant="h3" fontWeight={800} gutterBottom>
+              Objetivos
+            </Typography>
+            <Typography variant="body1" color="text.secondary" sx={{ fontWeight: 500 }}>
+              Objetivos estratégicos e resultados-chave, medidos pelo trabalho vinculado
+            </Typography>
+          </Box>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => setObjectiveDialog({ open: true, objective: null })}
+            sx={{ background: 'linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)' }}
+          >
+            Novo Objetivo
+          </Button>
+        </Box>
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' }, gap: 2, mb: 3 }}>
+          {summaryTiles.map((tile) => (
+            <Paper key={tile.label} elevation={0} sx={{ p: 2, borderRadius: 3, border: `2px solid ${tile.color}26` }}>
+              <Typography variant="caption" color="text.secondary" fontWeight={600}>
+                {tile.label}
+              </Typography>
+              <Typography variant="h5" fontWeight={800} sx={{ color: tile.color }}>
+                {tile.value}
+              </Typography>
+            </Paper>
+          ))}
+        </Box>
+
+        <ToggleButtonGroup
+          value={statusFilter}
+          exclusive
+          size="small"
+          onChange={(_, value) => value && setStatusFilter(value)}
+          sx={{ mb: 3 }}
+        >
+          <ToggleButton value="active">Em andamento</ToggleButton>
+          <ToggleButton value="achieved">Atingidos</ToggleButton>
+          <ToggleButton value="cancelled">Cancelados</ToggleButton>
+          <ToggleButton value="all">Todos</ToggleButton>
+        </ToggleButtonGroup>
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+            <CircularProgress size={60} />
+          </Box>
+        ) : visibleObjectives.length === 0 ? (
+          <Box
+            sx={{
+              textAlign: 'center',
+              py: 8,
+              borderRadius: 3,
+              bgcolor: 'rgba(99, 102, 241, 0.05)',
+              border: '2px dashed rgba(99, 102, 241, 0.2)',
+            }}
+          >
+            <Flag sx={{ fontSize: 48, color: '#6366f1', mb: 1 }} />
+            <Typography variant="h6" fontWeight={700} gutterBottom>
+              Nenhum objetivo encontrado
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Crie um objetivo, defina resultados-chave e vincule projetos, épicos e histórias a eles
+            </Typography>
+          </Box>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {visibleObjectives.map((objective) => (
+              <ObjectiveCard
+                key={objective.id}
+                objective={objective}
+                onEdit={() => setObjectiveDialog({ open: true, objective })}
+                onDelete={() => handleDeleteObjective(objective)}
+                onAddKeyResult={() => setKeyResultDialog({ objective, keyResult: null })}
+                onEditKeyResult={(keyResult) => setKeyResultDialog({ objective, keyResult })}
+                onDeleteKeyResult={handleDeleteKeyResult}
+                onLinkWork={(keyResult) => setLinkingKeyResultId(keyResult.id)}
+                onOpenProject={(projectId) => navigate(`/projects/${projectId}/overview`)}
+              />
+            ))}
+          </Box>
+        )}
+      </Container>
+
+      <ObjectiveFormDialog
+        open={objectiveDialog.open}
+        objective={objectiveDialog.objective}
+        profiles={formOptions?.profiles || []}
+        onClose={() => setObjectiveDialog({ open: false, objective: null })}
+      />
+
+      <KeyResultFormDialog
+        open={!!keyResultDialog}
+        objectiveId={keyResultDialog?.objective.id || ''}
+        keyResult={keyResultDialog?.keyResult || null}
+        nextOrder={keyResultDialog?.objective.keyResults.length || 0}
+        onClose={() => setKeyResultDialog(null)}
+      />
+
+      <LinkWorkDialog
+        open={!!linkingKeyResultId}
+        keyResult={linkingKeyResult}
+        projects={formOptions?.projects || []}
+        onClose={() => setLinkingKeyResultId(null)}
+      />
+    </Box>
+  )
+}
@@ -62,6 +62,9 @@ import StoryDetailsModal from '@/components/StoryDetailsModal'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import { useTaskMilestone } from '@/hooks/useTaskMilestone'
+import { fetchWipScope, useProjectWorkflows } from '@/hooks/useWorkflow'
+import { checkStatusChange, getColumnUpdate, getWipScope } from '@/utils/kanbanWorkflow'
+import type { TaskStatus } from '@/types'
 import confetti from 'canvas-confetti'
 
 interface Task {
@@ -76,6 +79,8 @@ interface Task {
   start_date: string | null
   end_date: string | null
   project_id: string
+  sprint_id: string | null
+  workflow_column_id?: string | null
   project?: { id: string; name: string }
   profiles?: { full_name: string }
   subtasks?: Array<{ status: string }>
@@ -461,6 +466,7 @@ export default function Planner() {
   const navigate = useNavigate()
   const { user } = useAuth()
   const { checkAndNotifyMilestone } = useTaskMilestone()
+  const getWorkflow = useProjectWorkflows()
   const [loading, setLoading] = useState(true)
   const [tasks, setTasks] = useState<Task[]>([])
   const [filteredTasks, setFilteredTasks] = useState<Task[]>([])
@@ -806,8 +812,27 @@ export default function Planner() {
       return
     }
 
+    // The project's Kanban workflow applies here too: allowed transitions and
+    // WIP limits, counted over the task's sprint like on the board
+    const workflow = getWorkflow(task.project_id)
+    const wipScope = await fetchWipScope(task).catch((error) => {
+      console.error('Error fetching WIP scope:', error)
+      return getWipScope(task, tasks)
+    })
+    const move = checkStatusChange(workflow, task, newStatus as TaskStatus, wipScope)
+    if (!move.allowed) {
+      toast.error(move.message || 'Movimento não permitido')
+      const grouped = columns.reduce((acc, col) => {
+        acc[col.id] = filteredTasks.filter((task) => task.status === col.id)
+        return acc
+      }, {} as Record<string, Task[]>)
+      setTasksByStatus(grouped)
+      return
+    }
+    const columnUpdate = getColumnUpdate(workflow, move.column)
+
     try {
-      const updateData: Record<string, unknown> = { status: newStatus }
+      const updateData: Record<string, unknown> = { ...columnUpdate }
       if (newStatus === 'done') updateData.completed_at = new Date().toISOString()
       else if (task.status === 'done') updateData.completed_at = null
 
@@ -816,7 +841,8 @@ export default function Planner() {
       if (error) throw error
 
       // Update local state
-      setTasks((prev) => prev.map((t) => (t.id === taskId ? { ...t, status: newStatus } : t)))
+      setTasks((prev) => prev.map((t) => (t.id === taskId ? { ...t, ...columnUpdate } : t)))
+      if (move.message) toast(`⚠️ ${move.message}`)
 
       if (newStatus === 'done') {
         if (user && task.assigned_to === user.id) void checkAndNotifyMilestone(user.id)
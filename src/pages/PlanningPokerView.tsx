@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Typography,
+} from '@mui/material'
+import { Add, ArrowBack, Casino } from '@mui/icons-material'
+import { useProjectContext } from './ProjectDetail'
+import { usePlanningPokerSession, usePlanningPokerSessions } from '@/hooks/usePlanningPoker'
+import { CreatePokerSessionDialog, PokerRoom } from '@/components/poker'
+import { POKER_DECKS } from '@/utils/planningPoker'
+
+export default function PlanningPokerView() {
+  const { project } = useProjectContext()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const sessionId = searchParams.get('session') || undefined
+  const [createOpen, setCreateOpen] = useState(false)
+
+  const { data: sessions = [], isLoading } = usePlanningPokerSessions(project?.id)
+  const { data: session, isLoading: sessionLoading } = usePlanningPokerSession(sessionId)
+
+  // The session id lives in the URL so the room link can be shared
+  const openSession = (id: string | null) => setSearchParams(id ? { session: id } : {})
+
+  if (sessionId) {
+    return (
+      <Box>
+        <Button startIcon={<ArrowBack />} onClick={() => openSession(null)} sx={{ mb: 2 }}>
+          Sessões
+        </Button>
+        {sessionLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+            <CircularProgress size={60} />
+          </Box>
+        ) : session ? (
+          <PokerRoom session={session} />
+        ) : (
+          <Typography color="text.secondary">Sessão não encontrada</Typography>
+        )}
+      </Box>
+    )
+  }
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          p: 3,
+          mb: 3,
+          borderRadius: 3,
+          background: 'linear-gradient(135deg, rgba(99, 102, 241, 0.08) 0%, rgba(139, 92, 246, 0.08) 100%)',
+          border: '2px solid rgba(99, 102, 241, 0.2)',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: 2,
+          flexWrap: 'wrap',
+        }}
+      >
+        <Box>
+          <Typography variant="h6" fontWeight={700}>
+            Planning Poker
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Estime as histórias em equipe: votos ocultos, revelados juntos
+          </Typography>
+        </Box>
+        <Button variant="contained" startIcon={<Add />} onClick={() => setCreateOpen(true)} disabled={!project}>
+          Nova sessão
+        </Button>
+      </Box>
+
+      <Paper elevation={0} sx={{ borderRadius: 3, border: '2px solid rgba(99, 102, 241, 0.1)' }}>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress size={40} />
+          </Box>
+        ) : sessions.length === 0 ? (
+          <Box sx={{ textAlign: 'center', py: 6 }}>
+            <Casino sx={{ fontSize: 48, color: 'rgba(99, 102, 241, 0.3)', mb: 1 }} />
+            <Typography color="text.secondary">Nenhuma sessão de planning poker ainda</Typography>
+          </Box>
+        ) : (
+          <List>
+            {sessions.map((s) => (
+              <ListItemButton key={s.id} onClick={() => openSession(s.id)}>
+                <ListItemText
+                  primary={s.name}
+                  secondary={`${s.sprint?.name || 'Refinamento do backlog'} · ${POKER_DECKS[s.deck].label} · ${new Date(
+                    s.created_at
+                  ).toLocaleDateString('pt-BR')}`}
+                  primaryTypographyProps={{ fontWeight: 600 }}
+                />
+                <Chip
+                  label={s.status === 'active' ? 'Em andamento' : 'Encerrada'}
+                  size="small"
+                  color={s.status === 'active' ? 'success' : 'default'}
+                  sx={{ fontWeight: 600 }}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+      </Paper>
+
+      {project && (
+        <CreatePokerSessionDialog
+          open={createOpen}
+          projectId={project.id}
+          onClose={() => setCreateOpen(false)}
+          onCreated={(created) => openSession(created.id)}
+        />
+      )}
+    </Box>
+  )
+}
@@ -0,0 +1,282 @@
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Paper,
+  Select,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material'
+import { ArrowBack, FilterListOff, Groups } from '@mui/icons-material'
+import Navbar from '@/components/Navbar'
+import { PortfolioDependencies, PortfolioRoadmap, type PortfolioZoom } from '@/components/portfolio'
+import { usePortfolioData } from '@/hooks/usePortfolio'
+import { useObjectiveOptions } from '@/hooks/useObjectives'
+import { STRATEGIC_ALL, STRATEGIC_NONE, type StrategicValue } from '@/utils/strategicScope'
+import { buildPortfolio, PORTFOLIO_HEALTH_CONFIG, type PortfolioHealth } from '@/utils/portfolio'
+
+const statusOptions: { value: string; label: string }[] = [
+  { value: 'active', label: 'Ativo' },
+  { value: 'on-hold', label: 'Em Espera' },
+  { value: 'completed', label: 'Concluído' },
+  { value: 'archived', label: 'Arquivado' },
+]
+
+export default function Portfolio() {
+  const navigate = useNavigate()
+  const { data, isLoading } = usePortfolioData()
+  const [teamFilter, setTeamFilter] = useState<string[]>([])
+  const [statusFilter, setStatusFilter] = useState<string[]>(['active', 'on-hold'])
+  const { data: objectives = [] } = useObjectiveOptions()
+  const [strategicFilter, setStrategicFilter] = useState<StrategicValue>(STRATEGIC_ALL)
+  const [zoom, setZoom] = useState<PortfolioZoom>('month')
+
+  const portfolio = useMemo(() => (data ? buildPortfolio(data) : null), [data])
+
+  const visibleProjects = useMemo(() => {
+    if (!portfolio) return []
+    return portfolio.projects
+      .filter((project) => {
+        if (statusFilter.length > 0 && !statusFilter.includes(project.status)) return false
+        // Same scopes as the dashboard objective filter
+        if (strategicFilter === STRATEGIC_NONE && project.objectiveIds.length > 0) return false
+        if (
+          strategicFilter !== STRATEGIC_ALL &&
+          strategicFilter !== STRATEGIC_NONE &&
+          !project.objectiveIds.includes(strategicFilter)
+        ) {
+          return false
+        }
+        if (teamFilter.length > 0 && !project.teamIds.some((id) => teamFilter.includes(id))) return false
+        return true
+      })
+      .sort((a, b) => (a.start || '9999').localeCompare(b.start || '9999') || a.name.localeCompare(b.name))
+  }, [portfolio, statusFilter, strategicFilter, teamFilter])
+
+  // Links touching a visible project; the other side may be filtered out
+  const visibleLinks = useMemo(() => {
+    const ids = new Set(visibleProjects.map((p) => p.id))
+    return (portfolio?.links || []).filter(
+      (link) => ids.has(link.predecessor.projectId) || ids.has(link.successor.projectId)
+    )
+  }, [portfolio, visibleProjects])
+
+  const teamNames = useMemo(() => new Map((data?.teams || []).map((t) => [t.id, t.name])), [data])
+  const projectNames = useMemo(() => new Map((data?.projects || []).map((p) => [p.id, p.name])), [data])
+
+  const healthCounts = visibleProjects.reduce(
+    (counts, project) => ({ ...counts, [project.health]: counts[project.health] + 1 }),
+    { 'on-track': 0, 'at-risk': 0, 'off-track': 0 } as Record<PortfolioHealth, number>
+  )
+
+  const hasFilters = teamFilter.length > 0 || strategicFilter !== STRATEGIC_ALL || statusFilter.length > 0
+  const openProject = (projectId: string) => navigate(`/projects/${projectId}/overview`)
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+      <Navbar />
+      <Container maxWidth="xl" sx={{ mt: 4, mb: 4 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 4, gap: 2, flexWrap: 'wrap' }}>
+          <Box>
+            <Typography variant="h3" fontWeight={800} gutterBottom>
+              Portfólio
+            </Typography>
+            <Typography variant="body1" color="text.secondary" sx={{ fontWeight: 500 }}>
+              Roadmap de todos os projetos, com fases, marcos, dependências e saúde
+            </Typography>
+          </Box>
+          <Button variant="outlined" startIcon={<ArrowBack />} onClick={() => navigate('/projects')}>
+            Projetos
+          </Button>
+        </Box>
+
+        {/* Filters */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2,
+            mb: 3,
+            borderRadius: 3,
+            border: '2px solid rgba(99, 102, 241, 0.1)',
+            display: 'flex',
+            gap: 2,
+            flexWrap: 'wrap',
+            alignItems: 'center',
+          }}
+        >
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel id="portfolio-teams-label">Times</InputLabel>
+            <Select
+              labelId="portfolio-teams-label"
+              multiple
+              value={teamFilter}
+              onChange={(e) => setTeamFilter(e.target.value as string[])}
+              input={<OutlinedInput label="Times" />}
+              renderValue={(selected) =>
+                selected.length === 1 ? teamNames.get(selected[0]) : `${selected.length} times`
+              }
+            >
+              {(data?.teams || []).map((team) => (
+                <MenuItem key={team.id} value={team.id}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Groups sx={{ fontSize: 20, color: '#7c3aed' }} />
+                    {team.name}
+                  </Box>
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel id="portfolio-status-label">Status</InputLabel>
+            <Select
+              labelId="portfolio-status-label"
+              multiple
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as string[])}
+              input={<OutlinedInput label="Status" />}
+              renderValue={(selected) =>
+                selected.map((value) => statusOptions.find((o) => o.value === value)?.label || value).join(', ')
+              }
+            >
+              {statusOptions.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel id="portfolio-strategic-label">Objetivo Estratégico</InputLabel>
+            <Select
+              labelId="portfolio-strategic-label"
+              value={strategicFilter}
+              label="Objetivo Estratégico"
+              onChange={(e) => setStrategicFilter(e.target.value)}
+            >
+              <MenuItem value={STRATEGIC_ALL}>Todos</MenuItem>
+              {objectives
+                .filter((o) => o.status !== 'cancelled' || o.id === strategicFilter)
+                .map((o) => (
+                  <MenuItem key={o.id} value={o.id}>
+                    {o.title}
+                  </MenuItem>
+                ))}
+              <MenuItem value={STRATEGIC_NONE}>Sem objetivo</MenuItem>
+            </Select>
+          </FormControl>
+
+          {hasFilters && (
+            <Button
+              size="small"
+              startIcon={<FilterListOff />}
+              onClick={() => {
+                setTeamFilter([])
+                setStatusFilter([])
+                setStrategicFilter(STRATEGIC_ALL)
+              }}
+            >
+              Limpar filtros
+            </Button>
+          )}
+
+          <Box sx={{ flex: 1 }} />
+
+          <ToggleButtonGroup value={zoom} exclusive size="small" onChange={(_, value) => value && setZoom(value)}>
+            <ToggleButton value="month">Mês</ToggleButton>
+            <ToggleButton value="quarter">Trimestre</ToggleButton>
+          </ToggleButtonGroup>
+        </Paper>
+
+        {isLoading || !portfolio ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+            <CircularProgress size={60} />
+          </Box>
+        ) : (
+          <>
+            {/* Health summary */}
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr 1fr', md: 'repeat(5, 1fr)' }, gap: 2, mb: 3 }}>
+              <Paper elevation={0} sx={{ p: 2, borderRadius: 3, border: '2px solid rgba(99, 102, 241, 0.1)' }}>
+                <Typography variant="caption" color="text.secondary" fontWeight={600}>
+                  Projetos
+                </Typography>
+                <Typography variant="h5" fontWeight={800} sx={{ color: '#6366f1' }}>
+                  {visibleProjects.length}
+                </Typography>
+              </Paper>
+              {(Object.keys(PORTFOLIO_HEALTH_CONFIG) as PortfolioHealth[]).map((health) => (
+                <Paper
+                  key={health}
+                  elevation={0}
+                  sx={{ p: 2, borderRadius: 3, border: `2px solid ${PORTFOLIO_HEALTH_CONFIG[health].color}26` }}
+                >
+                  <Typography variant="caption" color="text.secondary" fontWeight={600}>
+                    {PORTFOLIO_HEALTH_CONFIG[health].label}
+                  </Typography>
+                  <Typography variant="h5" fontWeight={800} sx={{ color: PORTFOLIO_HEALTH_CONFIG[health].color }}>
+                    {healthCounts[health]}
+                  </Typography>
+                </Paper>
+              ))}
+              <Paper elevation={0} sx={{ p: 2, borderRadius: 3, border: '2px solid rgba(139, 92, 246, 0.15)' }}>
+                <Typography variant="caption" color="text.secondary" fontWeight={600}>
+                  Dependências entre projetos
+                </Typography>
+                <Typography variant="h5" fontWeight={800} sx={{ color: '#8b5cf6' }}>
+                  {visibleLinks.length}
+                </Typography>
+              </Paper>
+            </Box>
+
+            {visibleProjects.length === 0 ? (
+              <Box
+                sx={{
+                  textAlign: 'center',
+                  py: 8,
+                  borderRadius: 3,
+                  bgcolor: 'rgba(99, 102, 241, 0.05)',
+                  border: '2px dashed rgba(99, 102, 241, 0.2)',
+                }}
+              >
+                <Typography variant="h6" fontWeight={700} gutterBottom>
+                  Nenhum projeto encontrado
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Ajuste os filtros para ver outros projetos
+                </Typography>
+              </Box>
+            ) : (
+              <>
+                <PortfolioRoadmap
+                  projects={visibleProjects}
+                  links={visibleLinks}
+                  zoom={zoom}
+                  teamNames={teamNames}
+                  onOpenProject={openProject}
+                />
+                <Box sx={{ display: 'flex', gap: 2, mt: 1.5, mb: 3, flexWrap: 'wrap' }}>
+                  <Chip size="small" variant="outlined" label="◆ Marco" />
+                  <Chip size="small" variant="outlined" label="▬ Fase" />
+                  <Chip size="small" variant="outlined" label="┆ Término previsto (linha de base)" />
+                  <Chip size="small" variant="outlined" label="→ Dependência entre projetos" sx={{ color: '#8b5cf6' }} />
+                </Box>
+              </>
+            )}
+
+            <PortfolioDependencies links={visibleLinks} projectNames={projectNames} onOpenProject={openProject} />
+          </>
+        )}
+      </Container>
+    </Box>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import {
   Box,
   Container,
@@ -62,7 +62,10 @@ import {
 import { CSS } from '@dnd-kit/utilities'
 import Navbar from '@/components/Navbar'
 import CreateBacklogItemModal from '@/components/CreateBacklogItemModal'
+import { DeliveryForecastPanel, EpicChip } from '@/components/backlog'
 import { supabase } from '@/lib/supabase'
+import { useEpics } from '@/hooks/useEpics'
+import { EPIC_FILTER_ALL, EPIC_FILTER_NONE, isEpicLevel, matchesEpicFilter, type EpicRow } from '@/utils/epics'
 import toast from 'react-hot-toast'
 
 interface BacklogItem {
@@ -76,6 +79,8 @@ interface BacklogItem {
   assigned_to: string
   created_at: string
   order_index: number
+  parent_task_id: string | null
+  task_type?: string | null
   projects?: { name: string }
   assigned_to_profile?: { full_name: string }
 }
@@ -104,10 +109,11 @@ const priorityConfig: Record<string, { label: string; color: string; icon: strin
 // Draggable Backlog Item Component
 interface DraggableBacklogItemProps {
   item: BacklogItem
+  epic?: EpicRow
   onMenuClick: (event: React.MouseEvent<HTMLElement>, item: BacklogItem) => void
 }
 
-function DraggableBacklogItem({ item, onMenuClick }: DraggableBacklogItemProps) {
+function DraggableBacklogItem({ item, epic, onMenuClick }: DraggableBacklogItemProps) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: item.id,
   })
@@ -198,6 +204,7 @@ function DraggableBacklogItem({ item, onMenuClick }: DraggableBacklogItemProps)
             )}
 
             <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+              {epic && <EpicChip epic={epic} />}
               <Chip
                 label={statusConfig[item.status]?.label || item.status}
                 color={statusConfig[item.status]?.color || 'default'}
@@ -277,11 +284,21 @@ export default function ProductBacklog() {
   const [statusFilter, setStatusFilter] = useState('all')
   const [priorityFilter, setPriorityFilter] = useState('all')
   const [projectFilter, setProjectFilter] = useState('all')
+  const [epicFilter, setEpicFilter] = useState(EPIC_FILTER_ALL)
   const [projects, setProjects] = useState<any[]>([])
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
   const [selectedItem, setSelectedItem] = useState<BacklogItem | null>(null)
   const [sprintDialogOpen, setSprintDialogOpen] = useState(false)
   const [sprints, setSprints] = useState<Sprint[]>([])
+  const { data: epicData } = useEpics(null)
+
+  const epicsById = useMemo(
+    () => new Map((epicData?.epics || []).map((epic) => [epic.id, epic])),
+    [epicData]
+  )
+  const epicOptions = (epicData?.summaries || []).filter(
+    (epic) => projectFilter === 'all' || epic.project_id === projectFilter
+  )
 
   // Drag and drop sensors
   const sensors = useSensors(
@@ -303,7 +320,7 @@ export default function ProductBacklog() {
 
   useEffect(() => {
     filterItems()
-  }, [searchQuery, statusFilter, priorityFilter, projectFilter, backlogItems])
+  }, [searchQuery, statusFilter, priorityFilter, projectFilter, epicFilter, epicsById, backlogItems])
 
   const fetchBacklogItems = async () => {
     setLoading(true)
@@ -316,7 +333,8 @@ export default function ProductBacklog() {
         .order('created_at', { ascending: false })
 
       if (error) throw error
-      setBacklogItems(data || [])
+      // Epics and features group the backlog; they are not items of it
+      setBacklogItems((data || []).filter((item: BacklogItem) => !isEpicLevel(item)))
     } catch (error) {
       console.error('Error fetching backlog items:', error)
       toast.error('Erro ao carregar backlog')
@@ -378,6 +396,9 @@ export default function ProductBacklog() {
       filtered = filtered.filter((item) => item.project_id === projectFilter)
     }
 
+    // Epic filter
+    filtered = filtered.filter((item) => matchesEpicFilter(item.parent_task_id, epicFilter, epicsById))
+
     setFilteredItems(filtered)
   }
 
@@ -639,7 +660,7 @@ export default function ProductBacklog() {
           <Box
             sx={{
               display: 'grid',
-              gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr', md: '2fr 1fr 1fr 1fr' },
+              gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr', md: '2fr 1fr 1fr 1fr 1fr' },
               gap: 2,
             }}
           >
@@ -687,7 +708,10 @@ export default function ProductBacklog() {
               select
               label="Projeto"
               value={projectFilter}
-              onChange={(e) => setProjectFilter(e.target.value)}
+              onChange={(e) => {
+                setProjectFilter(e.target.value)
+                setEpicFilter(EPIC_FILTER_ALL)
+              }}
               size="small"
             >
               <MenuItem value="all">Todos</MenuItem>
@@ -697,9 +721,37 @@ export default function ProductBacklog() {
                 </MenuItem>
               ))}
             </TextField>
+            <TextField
+              select
+              label="Épico"
+              value={epicFilter}
+              onChange={(e) => setEpicFilter(e.target.value)}
+              size="small"
+            >
+              <MenuItem value={EPIC_FILTER_ALL}>Todos</MenuItem>
+              {epicOptions.flatMap((epic) => [
+                <MenuItem key={epic.id} value={epic.id}>
+                  {epic.title}
+                </MenuItem>,
+                ...epic.features.map((feature) => (
+                  <MenuItem key={feature.id} value={feature.id} sx={{ pl: 4 }}>
+                    {feature.title}
+                  </MenuItem>
+                )),
+              ])}
+              <MenuItem value={EPIC_FILTER_NONE}>Sem épico</MenuItem>
+            </TextField>
           </Box>
         </Card>
 
+        {/* Delivery forecast (follows the filters, in backlog order) */}
+        {filteredItems.length > 0 && (
+          <DeliveryForecastPanel
+            items={filteredItems}
+            projectId={projectFilter !== 'all' ? projectFilter : undefined}
+          />
+        )}
+
         {/* Backlog Items */}
         {loading ? (
           <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
@@ -745,7 +797,12 @@ export default function ProductBacklog() {
             <SortableContext items={filteredItems.map((item) => item.id)} strategy={verticalListSortingStrategy}>
               <Stack spacing={2}>
                 {filteredItems.map((item) => (
-                  <DraggableBacklogItem key={item.id} item={item} onMenuClick={handleMenuClick} />
+                  <DraggableBacklogItem
+                    key={item.id}
+                    item={item}
+                    epic={item.parent_task_id ? epicsById.get(item.parent_task_id) : undefined}
+                    onMenuClick={handleMenuClick}
+                  />
                 ))}
               </Stack>
             </SortableContext>
@@ -26,6 +26,9 @@ import {
   TableChart,
   CalendarMonth,
   LinearScale,
+  Groups,
+  Insights,
+  Casino,
 } from '@mui/icons-material'
 import toast from 'react-hot-toast'
 import Navbar from '@/components/Navbar'
@@ -54,9 +57,12 @@ const statusConfig: Record<string, { label: string; color: string }> = {
 const iconMap: Record<string, React.ReactNode> = {
   overview: <Dashboard />,
   kanban: <ViewKanban />,
+  flow: <Insights />,
   backlog: <List />,
   sprints: <Speed />,
+  poker: <Casino />,
   gantt: <Timeline />,
+  resources: <Groups />,
   wbs: <AccountTree />,
   grid: <TableChart />,
   calendar: <CalendarMonth />,
@@ -76,7 +82,7 @@ export default function ProjectDetail() {
   const { data: config, isLoading: configLoading } = useProjectConfig(projectId)
 
   // Valid tab values
-  const validTabs = ['overview', 'kanban', 'backlog', 'sprints', 'gantt', 'wbs', 'grid', 'calendar', 'timeline', 'settings']
+  const validTabs = ['overview', 'kanban', 'flow', 'backlog', 'sprints', 'poker', 'gantt', 'resources', 'wbs', 'grid', 'calendar', 'timeline', 'settings']
 
   // Get current tab from URL - check if last segment is a valid tab, otherwise default to overview
   const pathSegments = location.pathname.split('/')
@@ -16,6 +16,8 @@ import {
   Timeline,
 } from '@mui/icons-material'
 import { useProjectContext } from './ProjectDetail'
+import { EarnedValuePanel } from '@/components/project'
+import { ProjectObjectivesPanel } from '@/components/objectives'
 
 export default function ProjectOverview() {
   const { project, config } = useProjectContext()
@@ -207,6 +209,18 @@ export default function ProjectOverview() {
           </Paper>
         </Grid>
 
+        {/* Key results the project contributes to */}
+        <Grid item xs={12}>
+          <ProjectObjectivesPanel projectId={project.id} />
+        </Grid>
+
+        {/* Earned Value (predictive projects with a baseline) */}
+        {config?.module_gantt && (
+          <Grid item xs={12}>
+            <EarnedValuePanel projectId={project.id} projectName={project.name} />
+          </Grid>
+        )}
+
         {/* Quick Stats */}
         <Grid item xs={12}>
           <Typography variant="h6" fontWeight={700} gutterBottom>
@@ -44,6 +44,7 @@ import { useProjectContext } from './ProjectDetail'
 import { useUpdateProjectConfig, useCreateProjectConfig } from '@/hooks/useProjectConfig'
 import { supabase } from '@/lib/supabase'
 import DeleteProjectModal from '@/components/DeleteProjectModal'
+import { KanbanWorkflowSettings, WorkingCalendarSettings } from '@/components/settings'
 import type { ProjectConfiguration, GanttZoomLevel, Methodology } from '@/types/hybrid'
 
 interface ModuleOption {
@@ -178,6 +179,8 @@ const defaultConfig: Partial<ProjectConfiguration> = {
   gantt_zoom_level: 'week',
   working_days_per_week: 5,
   hours_per_day: 8,
+  week_start_day: 1,
+  use_national_holidays: true,
 }
 
 export default function ProjectSettings() {
@@ -687,6 +690,22 @@ export default function ProjectSettings() {
             {renderModulesByCategory('predictive')}
             {renderModulesByCategory('shared')}
           </Paper>
+
+          {/* Kanban Workflow */}
+          {project?.id && (localConfig.module_kanban ?? config?.module_kanban) && (
+            <Paper sx={{ p: 3, mt: 3 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <ViewKanban sx={{ color: '#6366f1' }} />
+                <Typography variant="h6" fontWeight={700}>
+                  Fluxo do Kanban
+                </Typography>
+              </Box>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+                Colunas do quadro, limites WIP e movimentos permitidos entre colunas
+              </Typography>
+              <KanbanWorkflowSettings projectId={project.id} />
+            </Paper>
+          )}
         </Grid>
 
         {/* Right Column */}
@@ -738,9 +757,59 @@ export default function ProjectSettings() {
                 }
                 inputProps={{ min: 1, max: 24, step: 0.5 }}
               />
+
+              <FormControl fullWidth size="small">
+                <InputLabel>Início da Semana de Trabalho</InputLabel>
+                <Select
+                  value={localConfig.week_start_day ?? config?.week_start_day ?? 1}
+                  label="Início da Semana de Trabalho"
+                  onChange={(e) => handleSettingChange('week_start_day', Number(e.target.value))}
+                >
+                  <MenuItem value={0}>Domingo</MenuItem>
+                  <MenuItem value={1}>Segunda-feira</MenuItem>
+                  <MenuItem value={2}>Terça-feira</MenuItem>
+                  <MenuItem value={3}>Quarta-feira</MenuItem>
+                  <MenuItem value={4}>Quinta-feira</MenuItem>
+                  <MenuItem value={5}>Sexta-feira</MenuItem>
+                  <MenuItem value={6}>Sábado</MenuItem>
+                </Select>
+              </FormControl>
+
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                <Box>
+                  <Typography variant="body2" fontWeight={600}>
+                    Feriados Nacionais
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    Não contar feriados nacionais como dias úteis
+                  </Typography>
+                </Box>
+                <Switch
+                  checked={localConfig.use_national_holidays ?? config?.use_national_holidays ?? true}
+                  onChange={(e) => handleSettingChange('use_national_holidays', e.target.checked)}
+                />
+              </Box>
             </Box>
           </Paper>
 
+          {/* Working Calendar */}
+          {project?.id && (
+            <Paper sx={{ p: 3, mb: 3 }}>
+              <Typography variant="h6" fontWeight={700} gutterBottom>
+                Calendário de Trabalho
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Feriados locais, folgas e dias úteis extras usados no cálculo do cronograma
+              </Typography>
+              <WorkingCalendarSettings
+                projectId={project.id}
+                useNationalHolidays={
+                  localConfig.use_national_holidays ?? config?.use_national_holidays ?? true
+                }
+              />
+            </Paper>
+          )}
+
           {/* Info Box */}
           <Paper
             sx={{
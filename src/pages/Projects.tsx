@@ -51,6 +51,7 @@ import {
   ViewModule,
   ViewList,
   ChevronRight,
+  ViewTimeline,
 } from "@mui/icons-material";
 import Navbar from "@/components/Navbar";
 import { ProjectCreationWizard } from "@/components/project";
@@ -408,6 +409,28 @@ export default function Projects() {
             >
               {exportLoading ? "Gerando PDF..." : "Exportar PDF"}
             </Button>
+            <Button
+              variant="outlined"
+              startIcon={<ViewTimeline />}
+              onClick={() => navigate("/portfolio")}
+              sx={{
+                px: 4,
+                py: 1.5,
+                fontSize: "1rem",
+                display: { xs: "none", sm: "flex" },
+                borderWidth: 2,
+                borderColor: "rgba(99, 102, 241, 0.3)",
+                color: "#6366f1",
+                fontWeight: 600,
+                "&:hover": {
+                  borderWidth: 2,
+                  borderColor: "#6366f1",
+                  backgroundColor: "rgba(99, 102, 241, 0.05)",
+                },
+              }}
+            >
+              Roadmap
+            </Button>
             <Button
               variant="contained"
               startIcon={<Add />}
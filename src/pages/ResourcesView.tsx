@@ -0,0 +1,17 @@
+import { Box, Typography } from '@mui/material'
+import { useParams } from 'react-router-dom'
+import { ResourceView } from '@/components/resources'
+
+export default function ResourcesView() {
+  const { projectId } = useParams<{ projectId: string }>()
+
+  if (!projectId) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Typography color="error">Projeto não encontrado</Typography>
+      </Box>
+    )
+  }
+
+  return <ResourceView projectId={projectId} />
+}
@@ -26,6 +26,7 @@ import CreateSprintModal from '@/components/CreateSprintModal'
 import EditSprintModal from '@/components/EditSprintModal'
 import BurndownChart from '@/components/BurndownChart'
 import VelocityChart from '@/components/VelocityChart'
+import { SprintCapacityAlert } from '@/components/capacity'
 import { supabase } from '@/lib/supabase'
 
 interface Sprint {
@@ -44,6 +45,7 @@ interface SprintStats {
   completedStories: number
   totalPoints: number
   completedPoints: number
+  totalHours: number
 }
 
 const sprintStatusConfig: Record<string, { label: string; color: string }> = {
@@ -94,15 +96,16 @@ export default function SprintsView() {
       for (const sprint of sprintsData || []) {
         const { data: tasks } = await supabase
           .from('tasks')
-          .select('id, status, story_points')
+          .select('id, status, story_points, estimated_hours')
           .eq('sprint_id', sprint.id)
 
         const totalStories = tasks?.length || 0
         const completedStories = tasks?.filter(t => t.status === 'done').length || 0
         const totalPoints = tasks?.reduce((sum, t) => sum + (t.story_points || 0), 0) || 0
         const completedPoints = tasks?.filter(t => t.status === 'done').reduce((sum, t) => sum + (t.story_points || 0), 0) || 0
+        const totalHours = tasks?.reduce((sum, t) => sum + (Number(t.estimated_hours) || 0), 0) || 0
 
-        stats[sprint.id] = { totalStories, completedStories, totalPoints, completedPoints }
+        stats[sprint.id] = { totalStories, completedStories, totalPoints, completedPoints, totalHours }
       }
       setSprintStats(stats)
 
@@ -264,6 +267,7 @@ export default function SprintsView() {
             <Grid item xs={12} lg={6}>
               <BurndownChart
                 sprint={{
+                  id: activeSprint.id,
                   start_date: activeSprint.start_date,
                   end_date: activeSprint.end_date,
                 }}
@@ -321,7 +325,7 @@ export default function SprintsView() {
       ) : (
         <Stack spacing={2}>
           {sprints.map((sprint) => {
-            const stats = sprintStats[sprint.id] || { totalStories: 0, completedStories: 0, totalPoints: 0, completedPoints: 0 }
+            const stats = sprintStats[sprint.id] || { totalStories: 0, completedStories: 0, totalPoints: 0, completedPoints: 0, totalHours: 0 }
             const progress = calculateProgress(sprint.id)
             const statusInfo = sprintStatusConfig[sprint.status] || sprintStatusConfig.planning
 
@@ -423,6 +427,14 @@ export default function SprintsView() {
                     </Box>
                   </Box>
 
+                  {(sprint.status === 'planning' || sprint.status === 'active') && (
+                    <SprintCapacityAlert
+                      sprint={{ ...sprint, project_id: project.id }}
+                      committed={{ points: stats.totalPoints, hours: stats.totalHours }}
+                      sx={{ mb: 1.5 }}
+                    />
+                  )}
+
                   <LinearProgress
                     variant="determinate"
                     value={progress}
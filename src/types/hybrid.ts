@@ -10,8 +10,11 @@
 /** Project methodology type */
 export type Methodology = 'agile' | 'predictive' | 'hybrid';
 
-/** Task type for different visualizations */
-export type TaskType = 'task' | 'milestone' | 'phase' | 'summary';
+/**
+ * Task type for different visualizations
+ * epic / feature group user stories in the agile backlog (via parent_task_id)
+ */
+export type TaskType = 'task' | 'milestone' | 'phase' | 'summary' | 'epic' | 'feature';
 
 /** Dependency types for Gantt chart */
 export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
@@ -68,6 +71,7 @@ export interface ProjectConfiguration {
   working_days_per_week: number;
   hours_per_day: number;
   week_start_day: number;
+  use_national_holidays: boolean;
 
   // Default view
   default_view: string;
@@ -80,6 +84,19 @@ export interface ProjectConfiguration {
 /** Partial config for updates */
 export type ProjectConfigurationUpdate = Partial<Omit<ProjectConfiguration, 'id' | 'project_id' | 'created_at' | 'updated_at'>>;
 
+/** Project calendar exception (holiday or extra working day) */
+export interface ProjectCalendarException {
+  id: string;
+  project_id: string;
+  exception_date: string;
+  name: string;
+  is_working: boolean;
+  created_at: string;
+}
+
+/** Calendar exception for creating */
+export type ProjectCalendarExceptionCreate = Omit<ProjectCalendarException, 'id' | 'created_at'>;
+
 /** Module configuration map */
 export interface ModuleConfig {
   key: keyof Pick<ProjectConfiguration,
@@ -93,6 +110,33 @@ export interface ModuleConfig {
   route: string;
 }
 
+// ================================================
+// KANBAN WORKFLOW
+// ================================================
+
+/** What happens when a column goes over its WIP limit */
+export type WipPolicy = 'warn' | 'block';
+
+/** Board column of a project's workflow, mapped onto a base status */
+export interface WorkflowColumn {
+  id: string;
+  project_id: string;
+  name: string;
+  status: TaskStatus;
+  color: string;
+  wip_limit: number | null;
+  wip_policy: WipPolicy;
+  order_index: number;
+}
+
+/** Allowed move between two columns of a workflow */
+export interface WorkflowTransition {
+  id: string;
+  project_id: string;
+  from_column_id: string;
+  to_column_id: string;
+}
+
 // ================================================
 // HIERARCHICAL TASK
 // ================================================
@@ -151,6 +195,11 @@ export interface HierarchicalTask extends BaseTask {
   // Blocking
   blocked_comment_id: string | null;
 
+  // Kanban column, when the project has a custom workflow
+  workflow_column_id?: string | null;
+  /** Free-text labels, used by the Kanban filters */
+  labels?: string[];
+
   // Populated relations (optional)
   children?: HierarchicalTask[];
   dependencies?: TaskDependency[];
@@ -242,12 +291,58 @@ export interface TaskBaseline {
 export interface BaselineComparison {
   task_id: string;
   task_title: string;
+  wbs_code: string | null;
+  is_milestone: boolean;
   current_start: string | null;
   current_end: string | null;
   baseline_start: string | null;
   baseline_end: string | null;
+  /** Working days; positive = later than baseline */
   start_variance_days: number;
   end_variance_days: number;
+  /** Milestone finishing later than its baseline date */
+  is_slipped_milestone: boolean;
+}
+
+/** Unit EVM values are measured in: baseline cost when available, else planned hours */
+export type EarnedValueUnit = 'cost' | 'hours';
+
+/** Earned value indicators at a status date */
+export interface EarnedValueMetrics {
+  unit: EarnedValueUnit;
+  status_date: string;
+  /** Budget at completion */
+  bac: number;
+  /** Planned value */
+  pv: number;
+  /** Earned value */
+  ev: number;
+  /** Actual cost */
+  ac: number;
+  /** Schedule variance (EV - PV) */
+  sv: number;
+  /** Cost variance (EV - AC) */
+  cv: number;
+  /** Schedule performance index (EV / PV); null until something is planned */
+  spi: number | null;
+  /** Cost performance index (EV / AC); null until some cost is recorded */
+  cpi: number | null;
+  /** Estimate at completion (BAC / CPI) */
+  eac: number;
+  /** Estimate to complete (EAC - AC) */
+  etc: number;
+  /** Variance at completion (BAC - EAC) */
+  vac: number;
+  planned_percent: number;
+  earned_percent: number;
+}
+
+/** One point of the EVM S-curve; EV and AC are null after the status date */
+export interface EarnedValuePoint {
+  date: string;
+  pv: number;
+  ev: number | null;
+  ac: number | null;
 }
 
 // ================================================
@@ -283,6 +378,9 @@ export interface GanttTask {
   barWidth: number;
 }
 
+/** Interaction started by dragging a Gantt bar or one of its handles */
+export type GanttDragMode = 'move' | 'resize-start' | 'resize-end' | 'progress' | 'link';
+
 /** Gantt view state */
 export interface GanttViewState {
   zoom: GanttZoomLevel;
@@ -310,6 +408,7 @@ export interface GanttTimelineUnit {
   width: number;
   isWeekend: boolean;
   isToday: boolean;
+  holidayName?: string | null;
 }
 
 /** Dependency line for SVG rendering */
@@ -430,6 +529,39 @@ export interface ResourceAllocation {
     full_name: string;
     avatar_url: string | null;
   };
+  task?: {
+    id: string;
+    title: string;
+    project_id: string;
+    start_date: string | null;
+    end_date: string | null;
+    status: string;
+    project?: {
+      id: string;
+      name: string;
+    } | null;
+  };
+}
+
+/** Allocation for creating/replacing a task's assignments */
+export type ResourceAllocationCreate = Pick<ResourceAllocation, 'user_id' | 'allocation_percent'> &
+  Partial<Pick<ResourceAllocation, 'start_date' | 'end_date'>>;
+
+/** Load of one person in one histogram period (day or week) */
+export interface ResourceLoadBucket {
+  /** Period start (yyyy-mm-dd) */
+  date: string;
+  /** Average allocation over the working days of the period (%) */
+  load: number;
+  /** Highest single-day allocation in the period (%) */
+  peak: number;
+  isOverallocated: boolean;
+  tasks: {
+    taskId: string;
+    title: string;
+    projectName: string | null;
+    percent: number;
+  }[];
 }
 
 // ================================================
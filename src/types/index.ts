@@ -25,6 +25,99 @@ export interface Sprint {
   updated_at: string
 }
 
+/** Daily scope of a sprint (public.sprint_scope_snapshots) */
+export interface SprintScopeSnapshot {
+  id: string
+  sprint_id: string
+  snapshot_date: string
+  scope_points: number
+  completed_points: number
+  remaining_points: number
+  story_count: number
+  completed_count: number
+  story_ids: string[]
+}
+
+/** A story added to or removed from a sprint after it started */
+export interface SprintScopeChange {
+  id: string
+  task_id: string
+  title: string
+  kind: 'added' | 'removed'
+  points: number
+  changed_at: string
+  user_name: string | null
+}
+
+/** A member's availability in a sprint (public.sprint_member_capacity) */
+export interface SprintMemberCapacity {
+  id: string
+  sprint_id: string
+  user_id: string
+  /** Personal days off inside the sprint (vacations, leave) */
+  days_off: number
+  /** Hours worked per day (lower for part-time members) */
+  hours_per_day: number
+  notes: string | null
+  user?: {
+    full_name: string
+    avatar_url: string | null
+  }
+}
+
+export type SprintMemberCapacityInput = Pick<
+  SprintMemberCapacity,
+  'user_id' | 'days_off' | 'hours_per_day' | 'notes'
+>
+
+// Strategic objectives and key results (OKRs)
+export type ObjectiveStatus = 'active' | 'achieved' | 'cancelled'
+
+/**
+ * How a key result measures progress: story points or items done in the
+ * linked work, or a value updated by hand
+ */
+export type KeyResultMeasure = 'points' | 'items' | 'manual'
+
+export interface StrategicObjective {
+  id: string
+  title: string
+  description: string | null
+  owner_id: string | null
+  start_date: string | null
+  end_date: string | null
+  status: ObjectiveStatus
+  created_at: string
+  updated_at: string
+  owner?: {
+    full_name: string
+    avatar_url: string | null
+  } | null
+}
+
+export interface KeyResult {
+  id: string
+  objective_id: string
+  title: string
+  measure: KeyResultMeasure
+  /** Baseline, target and current values, used by manual key results */
+  start_value: number
+  target_value: number
+  current_value: number
+  unit: string | null
+  order_index: number
+}
+
+/** A project or task (with everything below it) linked to a key result */
+export interface KeyResultLink {
+  id: string
+  key_result_id: string
+  project_id: string | null
+  task_id: string | null
+  project?: { id: string; name: string } | null
+  task?: { id: string; title: string; task_type: string | null; project_id: string | null } | null
+}
+
 export interface Project {
   id: string
   name: string
@@ -55,6 +148,201 @@ export interface Task {
   updated_at: string
 }
 
+/** A status change of a task (public.task_status_transitions, written by a database trigger) */
+export interface TaskStatusTransition {
+  id: string
+  task_id: string
+  project_id: string | null
+  /** Null for the status the task was created with */
+  from_status: string | null
+  to_status: string
+  changed_by: string | null
+  changed_at: string
+}
+
+// Kanban filters (kept in the URL, saved by name per user)
+export type KanbanSwimlaneMode = 'none' | 'assignee' | 'priority' | 'epic' | 'blocked'
+
+export interface KanbanFilters {
+  /** "all", "unassigned" or a profile id */
+  assignee: string
+  /** "all" or a priority */
+  priority: string
+  /** Stories with any of these labels; empty matches all */
+  labels: string[]
+  text: string
+  swimlanes: KanbanSwimlaneMode
+}
+
+/** A named Kanban filter of a user (public.kanban_saved_filters) */
+export interface KanbanSavedFilter {
+  id: string
+  user_id: string
+  project_id: string
+  name: string
+  filters: Partial<KanbanFilters>
+  created_at: string
+}
+
+// Sprint retrospectives (facilitated in phases, synced live)
+export type RetrospectivePhase = 'write' | 'group' | 'vote' | 'discuss'
+
+/** Base category of a card, whatever column of the format it was written in */
+export type RetrospectiveItemCategory = 'went_well' | 'to_improve' | 'action_item' | 'other'
+
+/** A column of a retrospective format */
+export interface RetrospectiveColumn {
+  key: string
+  title: string
+  color: string
+  category: RetrospectiveItemCategory
+}
+
+/** A custom column set saved by a team (public.retrospective_templates) */
+export interface RetrospectiveTemplate {
+  id: string
+  team_id: string
+  name: string
+  columns: RetrospectiveColumn[]
+  created_by: string | null
+  created_at: string
+}
+
+export interface SprintRetrospective {
+  id: string
+  sprint_id: string
+  meeting_date: string
+  mood_rating: number | null
+  summary: string | null
+  phase: RetrospectivePhase
+  facilitator_id: string | null
+  /** Authors are hidden and other participants' cards stay covered while writing */
+  anonymous: boolean
+  votes_per_person: number
+  /** End of the shared countdown; null when no timer is running */
+  timer_ends_at: string | null
+  /** Built-in template key, or "team:<id>" for a team's custom set */
+  template: string
+  /** Columns copied from the template; null for the classic columns */
+  columns: RetrospectiveColumn[] | null
+  /** Touched by a trigger on every card change, so participants refetch */
+  items_changed_at: string | null
+  created_by: string | null
+}
+
+export interface RetrospectiveItem {
+  id: string
+  retrospective_id: string
+  category: RetrospectiveItemCategory
+  /** Column of the format the card is in; older cards only have a category */
+  column_key: string | null
+  content: string
+  /** Total dot votes (kept by a database trigger) */
+  votes: number
+  status: string
+  /** Card heading the group this card was grouped into */
+  group_id: string | null
+  /** Owner of an action item */
+  assigned_to: string | null
+  due_date: string | null
+  /** Task created from an action item; its status flows back to the item */
+  task_id: string | null
+  created_by: string | null
+  created_at: string
+  assigned_to_profile?: { full_name: string } | null
+  /** Set by retrospective_items_visible unless the retrospective is anonymous */
+  author_name?: string | null
+}
+
+/** One dot vote of a participant (public.retrospective_votes) */
+export interface RetrospectiveVote {
+  id: string
+  retrospective_id: string
+  item_id: string
+  user_id: string
+}
+
+// Planning poker (estimation sessions synced live)
+export type PlanningPokerDeck = 'fibonacci' | 'tshirt'
+
+export interface PlanningPokerSession {
+  id: string
+  project_id: string
+  /** Null for a backlog refinement session */
+  sprint_id: string | null
+  name: string
+  deck: PlanningPokerDeck
+  status: 'active' | 'closed'
+  facilitator_id: string | null
+  /** Story being estimated */
+  current_task_id: string | null
+  /** Voting round of the current story; a re-vote starts a new one */
+  round: number
+  revealed: boolean
+  created_by: string | null
+  created_at: string
+  closed_at: string | null
+  sprint?: { name: string } | null
+}
+
+/** A card played by a participant; others only see it once revealed */
+export interface PlanningPokerVote {
+  id: string
+  session_id: string
+  task_id: string
+  round: number
+  user_id: string
+  value: string
+  user?: { full_name: string } | null
+}
+
+/** A value agreed for a story (the session log) */
+export interface PlanningPokerEstimate {
+  id: string
+  session_id: string
+  task_id: string
+  value: string
+  /** Points written to the task; null for cards without points */
+  story_points: number | null
+  rounds: number
+  decided_by: string | null
+  decided_at: string
+  task?: { title: string } | null
+}
+
+// Audit trail (public.activities, written by database triggers)
+export type ActivityAction = 'created' | 'updated' | 'deleted'
+
+export type ActivityEntityType = 'project' | 'sprint' | 'task' | 'team' | 'comment'
+
+export interface ActivityFieldChange {
+  old: unknown
+  new: unknown
+}
+
+export interface ActivityDetails {
+  name?: string | null
+  project_name?: string
+  /** Set on comment entries */
+  task_id?: string
+  changes?: Record<string, ActivityFieldChange>
+}
+
+export interface ActivityLogEntry {
+  id: string
+  user_id: string | null
+  action: ActivityAction
+  entity_type: ActivityEntityType
+  entity_id: string
+  project_id: string | null
+  details: ActivityDetails | null
+  created_at: string
+  user?: {
+    full_name: string | null
+    avatar_url: string | null
+  } | null
+}
+
 // Dashboard Widget Configuration Types
 export type WidgetType =
   | 'activeProjects'
@@ -0,0 +1,159 @@
+import type { ActivityAction, ActivityEntityType, ActivityFieldChange, ActivityLogEntry } from '@/types'
+
+export const ACTIVITY_ACTION_LABELS: Record<ActivityAction, string> = {
+  created: 'Criação',
+  updated: 'Alteração',
+  deleted: 'Exclusão',
+}
+
+export const ACTIVITY_ENTITY_LABELS: Record<ActivityEntityType, string> = {
+  project: 'Projeto',
+  sprint: 'Sprint',
+  task: 'Tarefa',
+  team: 'Time',
+  comment: 'Comentário',
+}
+
+const ACTIVITY_TITLES: Record<ActivityEntityType, Record<ActivityAction, string>> = {
+  project: { created: 'Projeto criado', updated: 'Projeto atualizado', deleted: 'Projeto excluído' },
+  sprint: { created: 'Sprint criado', updated: 'Sprint atualizado', deleted: 'Sprint excluído' },
+  task: { created: 'Tarefa criada', updated: 'Tarefa atualizada', deleted: 'Tarefa excluída' },
+  team: { created: 'Time criado', updated: 'Time atualizado', deleted: 'Time excluído' },
+  comment: { created: 'Comentário adicionado', updated: 'Comentário editado', deleted: 'Comentário removido' },
+}
+
+export const ACTIVITY_FIELD_LABELS: Record<string, string> = {
+  title: 'Título',
+  name: 'Nome',
+  description: 'Descrição',
+  content: 'Conteúdo',
+  goal: 'Objetivo',
+  status: 'Status',
+  priority: 'Prioridade',
+  assigned_to: 'Responsável',
+  created_by: 'Criado por',
+  story_points: 'Story points',
+  sprint_id: 'Sprint',
+  project_id: 'Projeto',
+  team_id: 'Time',
+  parent_task_id: 'Tarefa pai',
+  start_date: 'Início',
+  end_date: 'Término',
+  due_date: 'Prazo',
+  completed_at: 'Concluída em',
+  percent_complete: '% concluído',
+  planned_duration: 'Duração',
+  estimated_hours: 'Horas estimadas',
+  actual_hours: 'Horas realizadas',
+  task_type: 'Tipo',
+  is_summary: 'Tarefa resumo',
+  constraint_type: 'Restrição',
+  constraint_date: 'Data da restrição',
+  velocity: 'Velocidade',
+  strategic_planning: 'Planejamento estratégico',
+}
+
+/** Fields holding ids, mapped to the table used to resolve their names */
+export const ACTIVITY_REFERENCE_FIELDS: Record<string, 'profiles' | 'sprints' | 'tasks' | 'teams' | 'projects'> = {
+  assigned_to: 'profiles',
+  created_by: 'profiles',
+  user_id: 'profiles',
+  sprint_id: 'sprints',
+  parent_task_id: 'tasks',
+  team_id: 'teams',
+  project_id: 'projects',
+}
+
+const VALUE_LABELS: Record<string, string> = {
+  todo: 'A Fazer',
+  'in-progress': 'Em Progresso',
+  review: 'Em Revisão',
+  done: 'Concluído',
+  blocked: 'Bloqueado',
+  planning: 'Planejamento',
+  active: 'Ativo',
+  completed: 'Concluído',
+  cancelled: 'Cancelado',
+  'on-hold': 'Em Espera',
+  archived: 'Arquivado',
+  low: 'Baixa',
+  medium: 'Média',
+  high: 'Alta',
+  urgent: 'Urgente',
+}
+
+const MAX_VALUE_LENGTH = 80
+
+/**
+ * Headline for an entry, e.g. "Tarefa criada"; status changes to done read
+ * as "Tarefa concluída"
+ */
+export function getActivityTitle(entry: ActivityLogEntry): string {
+  const status = entry.details?.changes?.status?.new
+  if (entry.entity_type === 'task' && entry.action === 'updated' && status === 'done') {
+    return 'Tarefa concluída'
+  }
+  return ACTIVITY_TITLES[entry.entity_type]?.[entry.action] ?? entry.action
+}
+
+/** Changed fields of an update, in a stable display order */
+export function getActivityChanges(entry: ActivityLogEntry): [string, ActivityFieldChange][] {
+  if (entry.action !== 'updated') return []
+  const order = Object.keys(ACTIVITY_FIELD_LABELS)
+  return Object.entries(entry.details?.changes || {}).sort(([a], [b]) => {
+    const ia = order.indexOf(a)
+    const ib = order.indexOf(b)
+    return (ia === -1 ? order.length : ia) - (ib === -1 ? order.length : ib)
+  })
+}
+
+export function getActivityFieldLabel(field: string): string {
+  return ACTIVITY_FIELD_LABELS[field] ?? field.replace(/_/g, ' ')
+}
+
+/**
+ * Human-readable value for a logged field
+ * @param references - Names for id fields, keyed by id
+ */
+export function formatActivityValue(
+  field: string,
+  value: unknown,
+  references: Record<string, string> = {}
+): string {
+  if (value === null || value === undefined || value === '') return '—'
+
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não'
+  if (typeof value === 'number') return field === 'percent_complete' ? `${value}%` : String(value)
+
+  if (typeof value === 'string') {
+    if (ACTIVITY_REFERENCE_FIELDS[field]) return references[value] ?? 'item removido'
+    if (VALUE_LABELS[value]) return VALUE_LABELS[value]
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      const [y, m, d] = value.split('-').map(Number)
+      return new Date(y, m - 1, d).toLocaleDateString('pt-BR')
+    }
+    if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+      return new Date(value).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })
+    }
+
+    return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value
+  }
+
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—'
+  return JSON.stringify(value)
+}
+
+/** "há 5 minutos" style relative time */
+export function formatActivityTime(dateString: string): string {
+  const diffMs = Date.now() - new Date(dateString).getTime()
+  const diffMins = Math.floor(diffMs / 60000)
+  const diffHours = Math.floor(diffMs / 3600000)
+  const diffDays = Math.floor(diffMs / 86400000)
+
+  if (diffMins < 1) return 'agora mesmo'
+  if (diffMins < 60) return `há ${diffMins} ${diffMins === 1 ? 'minuto' : 'minutos'}`
+  if (diffHours < 24) return `há ${diffHours} ${diffHours === 1 ? 'hora' : 'horas'}`
+  if (diffDays < 30) return `há ${diffDays} ${diffDays === 1 ? 'dia' : 'dias'}`
+  return new Date(dateString).toLocaleDateString('pt-BR')
+}
@@ -0,0 +1,139 @@
+import type { TaskType } from '@/types'
+
+/**
+ * Backlog hierarchy for agile projects: epic → feature (optional) → story.
+ * Epics and features are tasks like any other; stories hang below them via
+ * parent_task_id, the hierarchy predictive projects use for phases.
+ */
+
+export type EpicLevel = Extract<TaskType, 'epic' | 'feature'>
+
+export const EPIC_LEVEL_CONFIG: Record<EpicLevel, { label: string; plural: string }> = {
+  epic: { label: 'Épico', plural: 'Épicos' },
+  feature: { label: 'Funcionalidade', plural: 'Funcionalidades' },
+}
+
+/** Filter values besides an epic / feature id */
+export const EPIC_FILTER_ALL = 'all'
+export const EPIC_FILTER_NONE = 'none'
+
+const EPIC_COLORS = ['#6366f1', '#ec4899', '#14b8a6', '#f97316', '#8b5cf6', '#0ea5e9', '#84cc16', '#e11d48']
+
+export interface EpicRow {
+  id: string
+  title: string
+  description: string | null
+  status: string
+  task_type: EpicLevel
+  parent_task_id: string | null
+  project_id: string | null
+  created_at: string
+}
+
+export interface EpicStoryRow {
+  id: string
+  parent_task_id: string | null
+  status: string
+  story_points: number | null
+}
+
+export interface EpicSummary extends EpicRow {
+  color: string
+  storyCount: number
+  doneCount: number
+  totalPoints: number
+  donePoints: number
+  /** 0..1 by story points, by story count while nothing is estimated */
+  progress: number
+  /** Features of an epic (always empty for features) */
+  features: EpicSummary[]
+}
+
+export function isEpicLevel(task: { task_type?: string | null }): boolean {
+  return task.task_type === 'epic' || task.task_type === 'feature'
+}
+
+/** Stable color per epic, so chips and swimlanes match across views */
+export function getEpicColor(epicId: string): string {
+  let hash = 0
+  for (let i = 0; i < epicId.length; i++) hash = (hash * 31 + epicId.charCodeAt(i)) >>> 0
+  return EPIC_COLORS[hash % EPIC_COLORS.length]
+}
+
+/**
+ * Top-level epic a story belongs to: its parent, or the parent's epic when
+ * the story sits under a feature. Null for stories outside any epic.
+ */
+export function getRootEpic(parentId: string | null | undefined, epicsById: Map<string, EpicRow>): EpicRow | null {
+  let current = parentId ? epicsById.get(parentId) : undefined
+  const seen = new Set<string>()
+  while (current && current.parent_task_id && epicsById.has(current.parent_task_id) && !seen.has(current.id)) {
+    seen.add(current.id)
+    current = epicsById.get(current.parent_task_id)
+  }
+  return current || null
+}
+
+/**
+ * Whether a story matches an epic filter: "all", "none" (outside any epic)
+ * or an epic / feature id (directly or through a feature of the epic)
+ */
+export function matchesEpicFilter(
+  parentId: string | null | undefined,
+  filter: string,
+  epicsById: Map<string, EpicRow>
+): boolean {
+  if (filter === EPIC_FILTER_ALL) return true
+  if (filter === EPIC_FILTER_NONE) return !parentId || !epicsById.has(parentId)
+
+  let current = parentId ? epicsById.get(parentId) : undefined
+  const seen = new Set<string>()
+  while (current && !seen.has(current.id)) {
+    if (current.id === filter) return true
+    seen.add(current.id)
+    current = current.parent_task_id ? epicsById.get(current.parent_task_id) : undefined
+  }
+  return false
+}
+
+const summarize = (epic: EpicRow, stories: EpicStoryRow[], features: EpicSummary[]): EpicSummary => {
+  const own = stories.filter((s) => s.parent_task_id === epic.id)
+  const done = own.filter((s) => s.status === 'done')
+  const storyCount = own.length + features.reduce((sum, f) => sum + f.storyCount, 0)
+  const doneCount = done.length + features.reduce((sum, f) => sum + f.doneCount, 0)
+  const totalPoints =
+    own.reduce((sum, s) => sum + (s.story_points || 0), 0) + features.reduce((sum, f) => sum + f.totalPoints, 0)
+  const donePoints =
+    done.reduce((sum, s) => sum + (s.story_points || 0), 0) + features.reduce((sum, f) => sum + f.donePoints, 0)
+
+  return {
+    ...epic,
+    color: getEpicColor(epic.id),
+    storyCount,
+    doneCount,
+    totalPoints,
+    donePoints,
+    progress: totalPoints > 0 ? donePoints / totalPoints : storyCount > 0 ? doneCount / storyCount : 0,
+    features,
+  }
+}
+
+/**
+ * Epics with their features and the progress of the stories below them.
+ * Features without an epic are listed at the top level.
+ */
+export function buildEpicSummaries(epics: EpicRow[], stories: EpicStoryRow[]): EpicSummary[] {
+  const epicIds = new Set(epics.filter((e) => e.task_type === 'epic').map((e) => e.id))
+  const byCreation = (a: EpicRow, b: EpicRow) => a.created_at.localeCompare(b.created_at)
+
+  const featuresOf = (epicId: string) =>
+    epics
+      .filter((e) => e.task_type === 'feature' && e.parent_task_id === epicId)
+      .sort(byCreation)
+      .map((feature) => summarize(feature, stories, []))
+
+  return epics
+    .filter((e) => e.task_type === 'epic' || !e.parent_task_id || !epicIds.has(e.parent_task_id))
+    .sort(byCreation)
+    .map((epic) => summarize(epic, stories, epic.task_type === 'epic' ? featuresOf(epic.id) : []))
+}
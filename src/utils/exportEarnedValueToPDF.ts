@@ -0,0 +1,185 @@
+import { jsPDF } from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import type { EarnedValueMetrics, EarnedValuePoint, EarnedValueUnit } from '@/types/hybrid'
+
+interface EarnedValueExportOptions {
+  projectName: string
+  baselineName: string
+  metrics: EarnedValueMetrics
+  curve: EarnedValuePoint[]
+}
+
+/**
+ * Format an EVM amount in its unit (R$ for cost, hours otherwise)
+ */
+export function formatEarnedValue(value: number, unit: EarnedValueUnit): string {
+  if (unit === 'cost') {
+    return value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })
+  }
+  return `${value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} h`
+}
+
+/**
+ * Format a performance index (SPI/CPI)
+ */
+export function formatIndex(value: number | null): string {
+  return value === null ? '-' : value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+const formatDate = (value: string) => {
+  const [y, m, d] = value.split('-')
+  return `${d}/${m}/${y}`
+}
+
+/**
+ * Rows of the indicators table
+ */
+function buildMetricRows(metrics: EarnedValueMetrics): string[][] {
+  const amount = (value: number) => formatEarnedValue(value, metrics.unit)
+  return [
+    ['BAC', 'Orçamento no término', amount(metrics.bac)],
+    ['PV', 'Valor planejado', `${amount(metrics.pv)} (${metrics.planned_percent}%)`],
+    ['EV', 'Valor agregado', `${amount(metrics.ev)} (${metrics.earned_percent}%)`],
+    ['AC', 'Custo real', amount(metrics.ac)],
+    ['SV', 'Variação de prazo (EV - PV)', amount(metrics.sv)],
+    ['CV', 'Variação de custo (EV - AC)', amount(metrics.cv)],
+    ['SPI', 'Índice de desempenho de prazo', formatIndex(metrics.spi)],
+    ['CPI', 'Índice de desempenho de custo', formatIndex(metrics.cpi)],
+    ['EAC', 'Estimativa no término', amount(metrics.eac)],
+    ['ETC', 'Estimativa para terminar', amount(metrics.etc)],
+    ['VAC', 'Variação no término', amount(metrics.vac)],
+  ]
+}
+
+/**
+ * Draw the S-curve (PV, EV, AC) as line series inside a box
+ */
+function drawSCurve(doc: jsPDF, curve: EarnedValuePoint[], x: number, y: number, width: number, height: number) {
+  const maxValue = Math.max(1, ...curve.flatMap((p) => [p.pv, p.ev ?? 0, p.ac ?? 0]))
+  const toX = (index: number) => x + (curve.length > 1 ? (index / (curve.length - 1)) * width : 0)
+  const toY = (value: number) => y + height - (value / maxValue) * height
+
+  doc.setDrawColor(200, 200, 200)
+  doc.setLineWidth(0.2)
+  doc.rect(x, y, width, height)
+
+  const series: { key: 'pv' | 'ev' | 'ac'; label: string; color: [number, number, number] }[] = [
+    { key: 'pv', label: 'PV', color: [99, 102, 241] },
+    { key: 'ev', label: 'EV', color: [16, 185, 129] },
+    { key: 'ac', label: 'AC', color: [239, 68, 68] },
+  ]
+
+  series.forEach(({ key, label, color }, seriesIndex) => {
+    doc.setDrawColor(color[0], color[1], color[2])
+    doc.setLineWidth(0.6)
+    let previous: { px: number; py: number } | null = null
+    curve.forEach((point, index) => {
+      const value = point[key]
+      if (value === null) return
+      const current = { px: toX(index), py: toY(value) }
+      if (previous) doc.line(previous.px, previous.py, current.px, current.py)
+      previous = current
+    })
+
+    // Legend
+    const legendX = x + seriesIndex * 25
+    doc.line(legendX, y + height + 8, legendX + 8, y + height + 8)
+    doc.setFontSize(8)
+    doc.setTextColor(80, 80, 80)
+    doc.text(label, legendX + 10, y + height + 9)
+  })
+
+  doc.setFontSize(7)
+  doc.setTextColor(120, 120, 120)
+  doc.text(formatDate(curve[0].date), x, y + height + 4)
+  doc.text(formatDate(curve[curve.length - 1].date), x + width, y + height + 4, { align: 'right' })
+}
+
+export async function exportEarnedValueToPDF({
+  projectName,
+  baselineName,
+  metrics,
+  curve,
+}: EarnedValueExportOptions) {
+  try {
+    const doc = new jsPDF({
+      orientation: 'landscape',
+      unit: 'mm',
+      format: 'a4',
+    })
+
+    const primaryColor = [99, 102, 241] // #6366f1
+    const secondaryColor = [139, 92, 246] // #8b5cf6
+    const textColor = [31, 41, 55] // #1f2937
+
+    doc.setFontSize(20)
+    doc.setTextColor(primaryColor[0], primaryColor[1], primaryColor[2])
+    doc.setFont('helvetica', 'bold')
+    doc.text('Gerenciamento de Valor Agregado', 148, 15, { align: 'center' })
+
+    doc.setFontSize(11)
+    doc.setTextColor(secondaryColor[0], secondaryColor[1], secondaryColor[2])
+    doc.setFont('helvetica', 'normal')
+    doc.text(`${projectName} — Linha de base: ${baselineName}`, 148, 22, { align: 'center' })
+
+    doc.setFontSize(9)
+    doc.setTextColor(100, 100, 100)
+    doc.text(`Data de status: ${formatDate(metrics.status_date)}`, 277, 15, { align: 'right' })
+    doc.text(
+      metrics.unit === 'cost' ? 'Valores em custo (R$)' : 'Valores em horas de trabalho',
+      277,
+      20,
+      { align: 'right' }
+    )
+
+    autoTable(doc, {
+      startY: 30,
+      head: [['Indicador', 'Descrição', 'Valor']],
+      body: buildMetricRows(metrics),
+      theme: 'grid',
+      headStyles: {
+        fillColor: primaryColor as [number, number, number],
+        textColor: [255, 255, 255],
+        fontStyle: 'bold',
+        fontSize: 10,
+      },
+      bodyStyles: {
+        textColor: textColor as [number, number, number],
+        fontSize: 9,
+        cellPadding: 2.5,
+      },
+      columnStyles: {
+        0: { cellWidth: 22, fontStyle: 'bold' },
+        1: { cellWidth: 65 },
+        2: { cellWidth: 40, halign: 'right' },
+      },
+      alternateRowStyles: {
+        fillColor: [248, 250, 252],
+      },
+      margin: { left: 15 },
+      tableWidth: 127,
+    })
+
+    if (curve.length > 1) {
+      doc.setFontSize(11)
+      doc.setTextColor(textColor[0], textColor[1], textColor[2])
+      doc.setFont('helvetica', 'bold')
+      doc.text('Curva S', 155, 33)
+      doc.setFont('helvetica', 'normal')
+      drawSCurve(doc, curve, 155, 37, 125, 110)
+    }
+
+    doc.setFontSize(8)
+    doc.setTextColor(100, 100, 100)
+    doc.setFont('helvetica', 'italic')
+    doc.text('DaherLab - Sistema de Gestão de Projetos', 148, 200, { align: 'center' })
+
+    const fileName = `EVM_${projectName.replace(/[^\w-]+/g, '_')}_${metrics.status_date}.pdf`
+    doc.save(fileName)
+
+    return true
+  } catch (error) {
+    console.error('Error generating EVM PDF:', error)
+    throw error
+  }
+}
@@ -1,5 +1,5 @@
 import XLSX from 'xlsx-js-style'
-import type { HierarchicalTask, TaskDependency } from '@/types/hybrid'
+import type { BaselineComparison, HierarchicalTask, TaskDependency } from '@/types/hybrid'
 
 interface ExportOptions {
   projectName: string
@@ -7,6 +7,11 @@ interface ExportOptions {
   tasks: HierarchicalTask[]
   dependencies: TaskDependency[]
   teamMembers: Map<string, string>
+  /** Adds a variance sheet against the selected baseline */
+  baseline?: {
+    name: string
+    comparisons: BaselineComparison[]
+  }
 }
 
 // Colors
@@ -254,6 +259,118 @@ function getIndentedName(task: HierarchicalTask): string {
   return indent + task.title
 }
 
+/**
+ * Format a working-day variance with sign (+3, -2, 0)
+ */
+function formatVariance(days: number): string {
+  return days > 0 ? `+${days}` : String(days)
+}
+
+/**
+ * Build the baseline variance sheet (one row per compared task)
+ */
+function buildBaselineVarianceSheet(
+  baselineName: string,
+  comparisons: BaselineComparison[]
+): XLSX.WorkSheet {
+  const headers = [
+    'EDT',
+    'TAREFA',
+    'INÍCIO LB',
+    'INÍCIO ATUAL',
+    'VAR. INÍCIO',
+    'TÉRMINO LB',
+    'TÉRMINO ATUAL',
+    'VAR. TÉRMINO',
+    'MARCO ATRASADO',
+  ]
+
+  const wsData: (string | number | null)[][] = [
+    [`VARIAÇÃO EM RELAÇÃO À LINHA DE BASE: ${baselineName}`, ...Array(headers.length - 1).fill(null)],
+    ['Variações em dias úteis (positivo = atrasado)', ...Array(headers.length - 1).fill(null)],
+    Array(headers.length).fill(null),
+    headers,
+  ]
+
+  comparisons.forEach(row => {
+    wsData.push([
+      row.wbs_code || '',
+      row.task_title,
+      formatDate(row.baseline_start),
+      formatDate(row.current_start),
+      formatVariance(row.start_variance_days),
+      formatDate(row.baseline_end),
+      formatDate(row.current_end),
+      formatVariance(row.end_variance_days),
+      row.is_slipped_milestone ? 'SIM' : '',
+    ])
+  })
+
+  const ws = XLSX.utils.aoa_to_sheet(wsData)
+  ws['!cols'] = [
+    { wch: 10 },
+    { wch: 40 },
+    { wch: 12 },
+    { wch: 12 },
+    { wch: 12 },
+    { wch: 12 },
+    { wch: 14 },
+    { wch: 13 },
+    { wch: 16 },
+  ]
+  ws['!merges'] = [
+    { s: { r: 0, c: 0 }, e: { r: 0, c: headers.length - 1 } },
+    { s: { r: 1, c: 0 }, e: { r: 1, c: headers.length - 1 } },
+  ]
+
+  const titleCell = XLSX.utils.encode_cell({ r: 0, c: 0 })
+  if (ws[titleCell]) ws[titleCell].s = { ...STYLES.title, font: { ...STYLES.title.font, sz: 16 } }
+  const subtitleCell = XLSX.utils.encode_cell({ r: 1, c: 0 })
+  if (ws[subtitleCell]) ws[subtitleCell].s = STYLES.subtitle
+
+  headers.forEach((_, col) => {
+    const cell = XLSX.utils.encode_cell({ r: 3, c: col })
+    if (ws[cell]) ws[cell].s = STYLES.header
+  })
+
+  comparisons.forEach((row, index) => {
+    const rowIndex = 4 + index
+    const baseStyle = index % 2 === 1 ? STYLES.taskRowAlt : STYLES.taskRow
+
+    for (let col = 0; col < headers.length; col++) {
+      const cell = XLSX.utils.encode_cell({ r: rowIndex, c: col })
+      if (!ws[cell]) {
+        ws[cell] = { v: '', t: 's' }
+      }
+
+      const cellStyle: any = { ...baseStyle }
+      if (col >= 2) {
+        cellStyle.alignment = { horizontal: 'center', vertical: 'center' }
+      }
+
+      // Late variances in red, early in green
+      const variance = col === 4 ? row.start_variance_days : col === 7 ? row.end_variance_days : 0
+      if (variance !== 0) {
+        cellStyle.font = {
+          name: 'Calibri',
+          sz: 10,
+          bold: true,
+          color: { rgb: variance > 0 ? COLORS.blocked : COLORS.done },
+        }
+      }
+
+      if (col === 8 && row.is_slipped_milestone) {
+        cellStyle.font = { name: 'Calibri', sz: 9, bold: true, color: { rgb: COLORS.textWhite } }
+        cellStyle.fill = { fgColor: { rgb: COLORS.blocked } }
+      }
+
+      ws[cell].s = cellStyle
+    }
+  })
+
+  return ws
+}
+
 /**
  * Export Gantt chart to professional XLSX
  */
@@ -457,6 +574,14 @@ export function exportGanttToXLSX(options: ExportOptions): void {
   // Add worksheet to workbook
   XLSX.utils.book_append_sheet(workbook, ws, 'Cronograma')
 
+  if (options.baseline) {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      buildBaselineVarianceSheet(options.baseline.name, options.baseline.comparisons),
+      'Variação Linha de Base'
+    )
+  }
+
   // Generate filename
   const dateStr = new Date().toISOString().split('T')[0]
   const safeName = projectName.replace(/[^a-zA-Z0-9\s]/g, '').replace(/\s+/g, '_')
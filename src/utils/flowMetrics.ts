@@ -0,0 +1,211 @@
+import type { TaskStatus, TaskStatusTransition } from '@/types'
+import { toDateKey } from '@/utils/gantt/workingCalendar'
+import { TASK_STATUSES } from '@/utils/kanbanWorkflow'
+
+/**
+ * Kanban flow metrics from the status history of a project's tasks
+ *
+ * Lead time runs from creation to completion, cycle time from the first move
+ * into work (in progress or review) to completion. A task completed, reopened
+ * and completed again counts at its last completion.
+ */
+
+export const FLOW_PERCENTILES = [50, 85, 95] as const
+
+export type FlowPercentile = (typeof FLOW_PERCENTILES)[number]
+
+export const FLOW_PERCENTILE_COLORS: Record<FlowPercentile, string> = {
+  50: '#10b981',
+  85: '#f59e0b',
+  95: '#ef4444',
+}
+
+export interface FlowTaskRow {
+  id: string
+  title: string
+  status: string
+  created_at: string
+  completed_at: string | null
+}
+
+export type FlowTransitionRow = Pick<TaskStatusTransition, 'task_id' | 'from_status' | 'to_status' | 'changed_at'>
+
+export interface CompletedFlowItem {
+  id: string
+  title: string
+  completedAt: string
+  /** Completion time as epoch ms, for the scatterplot axis */
+  completedTime: number
+  leadTimeDays: number
+  /** Null when the task never went through a work status before done */
+  cycleTimeDays: number | null
+}
+
+export type CumulativeFlowPoint = Record<TaskStatus, number> & {
+  dateKey: string
+  label: string
+}
+
+export interface ThroughputWeek {
+  weekStart: string
+  label: string
+  count: number
+}
+
+export interface LeadTimeBucket {
+  label: string
+  /** Upper bound in days (inclusive); Infinity for the last bucket */
+  maxDays: number
+  count: number
+}
+
+export interface FlowMetrics {
+  completed: CompletedFlowItem[]
+  cycleTimePercentiles: Record<FlowPercentile, number> | null
+  leadTimePercentiles: Record<FlowPercentile, number> | null
+  cumulativeFlow: CumulativeFlowPoint[]
+  throughput: ThroughputWeek[]
+  leadTimeDistribution: LeadTimeBucket[]
+  /** Tasks in progress or in review right now */
+  currentWip: number
+}
+
+/** Statuses that mean work has started */
+const WORK_STATUSES = new Set(['in-progress', 'review'])
+
+const LEAD_TIME_BUCKETS: Array<Pick<LeadTimeBucket, 'label' | 'maxDays'>> = [
+  { label: '≤ 1 dia', maxDays: 1 },
+  { label: '2-3 dias', maxDays: 3 },
+  { label: '4-7 dias', maxDays: 7 },
+  { label: '8-14 dias', maxDays: 14 },
+  { label: '15-30 dias', maxDays: 30 },
+  { label: '> 30 dias', maxDays: Infinity },
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toDays = (ms: number) => Math.max(0, Math.round((ms / DAY_MS) * 10) / 10)
+
+const shortLabel = (date: Date) => date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })
+
+const startOfWeek = (date: Date) => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7))
+  return monday
+}
+
+/** Nearest-rank percentiles of a list of values */
+export function getPercentiles(values: number[]): Record<FlowPercentile, number> | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const result = {} as Record<FlowPercentile, number>
+  FLOW_PERCENTILES.forEach((p) => {
+    result[p] = sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)]
+  })
+  return result
+}
+
+/**
+ * Flow metrics of the last `days` days
+ *
+ * Tasks without any recorded transition (created before history existed)
+ * fall back to created_at / completed_at.
+ */
+export function buildFlowMetrics(
+  tasks: FlowTaskRow[],
+  transitions: FlowTransitionRow[],
+  { days = 90, today = new Date() }: { days?: number; today?: Date } = {}
+): FlowMetrics {
+  const windowStart = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1))
+
+  const historyByTask = new Map<string, FlowTransitionRow[]>()
+  ;[...transitions]
+    .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+    .forEach((transition) => {
+      const list = historyByTask.get(transition.task_id) || []
+      list.push(transition)
+      historyByTask.set(transition.task_id, list)
+    })
+
+  // Completed items
+  const completed: CompletedFlowItem[] = []
+  tasks.forEach((task) => {
+    if (task.status !== 'done') return
+    const history = historyByTask.get(task.id) || []
+    const lastDone = [...history].reverse().find((t) => t.to_status === 'done')
+    const completedAt = lastDone?.changed_at || task.completed_at
+    if (!completedAt) return
+
+    const completedTime = new Date(completedAt).getTime()
+    if (completedTime < windowStart.getTime()) return
+
+    const started = history.find((t) => WORK_STATUSES.has(t.to_status))
+    completed.push({
+      id: task.id,
+      title: task.title,
+      completedAt,
+      completedTime,
+      leadTimeDays: toDays(completedTime - new Date(task.created_at).getTime()),
+      cycleTimeDays: started ? toDays(completedTime - new Date(started.changed_at).getTime()) : null,
+    })
+  })
+  completed.sort((a, b) => a.completedTime - b.completedTime)
+
+  const cycleTimes = completed.flatMap((item) => (item.cycleTimeDays === null ? [] : [item.cycleTimeDays]))
+  const leadTimes = completed.map((item) => item.leadTimeDays)
+
+  // Cumulative flow: status of every existing task at the end of each day
+  const cumulativeFlow: CumulativeFlowPoint[] = []
+  for (let offset = 0; offset < days; offset++) {
+    const day = new Date(windowStart.getFullYear(), windowStart.getMonth(), windowStart.getDate() + offset)
+    const endOfDay = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime()
+    const point = { dateKey: toDateKey(day), label: shortLabel(day) } as CumulativeFlowPoint
+    TASK_STATUSES.forEach((status) => {
+      point[status] = 0
+    })
+
+    tasks.forEach((task) => {
+      if (new Date(task.created_at).getTime() >= endOfDay) return
+      const history = historyByTask.get(task.id) || []
+      let status: string | undefined
+      for (const transition of history) {
+        if (new Date(transition.changed_at).getTime() >= endOfDay) break
+        status = transition.to_status
+      }
+      if (!status) {
+        status = task.completed_at && new Date(task.completed_at).getTime() < endOfDay ? 'done' : 'todo'
+      }
+      if (status in point) point[status as TaskStatus]++
+    })
+
+    cumulativeFlow.push(point)
+  }
+
+  // Throughput per week (weeks start on Monday)
+  const throughput: ThroughputWeek[] = []
+  for (let week = startOfWeek(windowStart); week.getTime() <= today.getTime(); ) {
+    throughput.push({ weekStart: toDateKey(week), label: shortLabel(week), count: 0 })
+    week = new Date(week.getFullYear(), week.getMonth(), week.getDate() + 7)
+  }
+  completed.forEach((item) => {
+    const weekKey = toDateKey(startOfWeek(new Date(item.completedAt)))
+    const week = throughput.find((w) => w.weekStart === weekKey)
+    if (week) week.count++
+  })
+
+  const leadTimeDistribution: LeadTimeBucket[] = LEAD_TIME_BUCKETS.map((bucket) => ({ ...bucket, count: 0 }))
+  leadTimes.forEach((value) => {
+    const bucket = leadTimeDistribution.find((b) => value <= b.maxDays)
+    if (bucket) bucket.count++
+  })
+
+  return {
+    completed,
+    cycleTimePercentiles: getPercentiles(cycleTimes),
+    leadTimePercentiles: getPercentiles(leadTimes),
+    cumulativeFlow,
+    throughput,
+    leadTimeDistribution,
+    currentWip: tasks.filter((task) => task.status === 'in-progress' || task.status === 'review').length,
+  }
+}
@@ -0,0 +1,73 @@
+import type { BaselineComparison, HierarchicalTask, TaskBaseline } from '@/types/hybrid'
+import { parseDateKey, workingDayOffset, type WorkingCalendar } from './workingCalendar'
+
+/** Summary of a baseline comparison */
+export interface BaselineVarianceSummary {
+  comparedTasks: number
+  lateTasks: number
+  earlyTasks: number
+  slippedMilestones: number
+  /** Largest finish variance in working days (0 when nothing slipped) */
+  maxEndVariance: number
+}
+
+/**
+ * Working-day variance between a baseline date and the current date
+ * (positive = current is later)
+ */
+function varianceDays(
+  baseline: string | null,
+  current: string | null,
+  calendar: WorkingCalendar
+): number {
+  if (!baseline || !current) return 0
+  return workingDayOffset(parseDateKey(baseline), parseDateKey(current), calendar)
+}
+
+/**
+ * Compare current task dates with a baseline snapshot
+ *
+ * Tasks created after the baseline are not compared; they have no planned dates.
+ */
+export function compareWithBaseline(
+  tasks: HierarchicalTask[],
+  taskBaselines: TaskBaseline[],
+  calendar: WorkingCalendar
+): BaselineComparison[] {
+  const baselineByTask = new Map(taskBaselines.map((b) => [b.task_id, b]))
+
+  return tasks
+    .filter((task) => baselineByTask.has(task.id))
+    .map((task) => {
+      const baseline = baselineByTask.get(task.id)!
+      const isMilestone = task.task_type === 'milestone'
+      const endVariance = varianceDays(baseline.planned_end_date, task.end_date, calendar)
+
+      return {
+        task_id: task.id,
+        task_title: task.title,
+        wbs_code: task.wbs_code,
+        is_milestone: isMilestone,
+        current_start: task.start_date,
+        current_end: task.end_date,
+        baseline_start: baseline.planned_start_date,
+        baseline_end: baseline.planned_end_date,
+        start_variance_days: varianceDays(baseline.planned_start_date, task.start_date, calendar),
+        end_variance_days: endVariance,
+        is_slipped_milestone: isMilestone && endVariance > 0,
+      }
+    })
+}
+
+/**
+ * Aggregate counts for the variance table header
+ */
+export function summarizeBaselineVariance(rows: BaselineComparison[]): BaselineVarianceSummary {
+  return {
+    comparedTasks: rows.length,
+    lateTasks: rows.filter((r) => r.end_variance_days > 0).length,
+    earlyTasks: rows.filter((r) => r.end_variance_days < 0).length,
+    slippedMilestones: rows.filter((r) => r.is_slipped_milestone).length,
+    maxEndVariance: rows.reduce((max, r) => Math.max(max, r.end_variance_days), 0),
+  }
+}
@@ -1,9 +1,49 @@
-import type { HierarchicalTask, TaskDependency } from '@/types/hybrid'
+import type {
+  ConstraintType,
+  DependencyType,
+  HierarchicalTask,
+  TaskDependency,
+} from '@/types/hybrid'
+import { CONSTRAINT_TYPE_INFO } from '@/types/hybrid'
+import {
+  DEFAULT_WORKING_CALENDAR,
+  addWorkingDays,
+  parseDateKey,
+  toDateKey,
+  workingDayOffset,
+  type WorkingCalendar,
+} from './workingCalendar'
+
+/** Link between two tasks in the CPM network */
+export interface CPMLink {
+  taskId: string
+  type: DependencyType
+  lag: number
+}
+
+/** Scheduling constraint converted to CPM day numbers */
+export interface CPMConstraint {
+  type: ConstraintType
+  /** Start day for start constraints, exclusive finish day for finish constraints */
+  day: number
+  date: string
+}
+
+/** Constraint that the dependency logic makes impossible to meet */
+export interface CPMConstraintConflict {
+  taskId: string
+  constraintType: ConstraintType
+  constraintDate: string
+  /** Working days by which the predecessors push the task past its constraint */
+  days: number
+}
 
 export interface CPMTask {
   id: string
   duration: number
-  predecessors: string[]
+  predecessors: CPMLink[]
+  successors: CPMLink[]
+  constraint: CPMConstraint | null
   earlyStart: number
   earlyFinish: number
   lateStart: number
@@ -12,44 +52,76 @@ export interface CPMTask {
   isCritical: boolean
 }
 
-interface CPMResult {
+export interface CPMResult {
   tasks: Map<string, CPMTask>
   criticalPath: string[]
   projectDuration: number
+  /** Task chain forming a dependency cycle (first id repeated at the end), or null */
+  cycle: string[] | null
+  conflicts: CPMConstraintConflict[]
+}
+
+export interface CPMOptions {
+  /** Day 0 of the schedule; constraint dates are measured from it */
+  projectStartDate?: Date
+  calendar?: WorkingCalendar
 }
 
+/** Constraints that need a date; 'asap' and 'alap' do not */
+const DATED_CONSTRAINTS: ConstraintType[] = ['mso', 'mfo', 'snet', 'snlt', 'fnet', 'fnlt']
+const FINISH_CONSTRAINTS: ConstraintType[] = ['mfo', 'fnet', 'fnlt']
+
 /**
  * Calculate Critical Path using the Critical Path Method (CPM)
  *
- * Algorithm:
- * 1. Forward Pass: Calculate Early Start (ES) and Early Finish (EF)
- *    - ES = max(EF of all predecessors) + lag
- *    - EF = ES + duration
+ * Day numbers are working-day offsets from the project start (see
+ * workingCalendar.ts); a task occupies [start, start + duration), so
+ * EF = ES + duration.
+ *
+ * 1. Forward Pass: ES is the latest start allowed by every predecessor link
+ *    - FS: ES >= EF(pred) + lag
+ *    - SS: ES >= ES(pred) + lag
+ *    - FF: EF >= EF(pred) + lag
+ *    - SF: EF >= ES(pred) + lag
  *
- * 2. Backward Pass: Calculate Late Start (LS) and Late Finish (LF)
- *    - LF = min(LS of all successors) - lag
- *    - LS = LF - duration
+ * 2. Backward Pass: LF is the earliest finish allowed by every successor link
+ *    - FS: LF <= LS(succ) - lag
+ *    - SS: LS <= LS(succ) - lag
+ *    - FF: LF <= LF(succ) - lag
+ *    - SF: LS <= LF(succ) - lag
  *
  * 3. Calculate Slack (Float)
  *    - Slack = LS - ES = LF - EF
- *    - Tasks with Slack = 0 are on the critical path
+ *    - Tasks with Slack <= 0 are on the critical path
+ *
+ * Negative lag (lead) is allowed, but no task starts before day 0.
+ *
+ * Task constraints are applied on both passes: SNET/FNET delay the early
+ * dates, SNLT/FNLT cap the late dates, MSO/MFO pin both, and ALAP tasks are
+ * scheduled on their late dates (taking their successors along, so they use
+ * up the slack of the chain). When the dependency logic makes a constraint
+ * impossible it is reported in `conflicts`, and the capped late dates show up
+ * as negative slack on the task and its predecessors.
  */
 export function calculateCriticalPath(
   tasks: HierarchicalTask[],
-  dependencies: TaskDependency[]
+  dependencies: TaskDependency[],
+  options: CPMOptions = {}
 ): CPMResult {
-  // Build task map with durations
   const cpmTasks = new Map<string, CPMTask>()
+  const projectStartDate = options.projectStartDate ?? new Date()
+  const calendar = options.calendar ?? DEFAULT_WORKING_CALENDAR
 
-  // Initialize tasks
   tasks.forEach((task) => {
     // Skip summary tasks in CPM calculation (they auto-calculate from children)
     if (task.is_summary) return
 
     cpmTasks.set(task.id, {
       id: task.id,
-      duration: task.planned_duration || 1,
+      duration: task.task_type === 'milestone' ? 0 : Math.max(task.planned_duration || 1, 0),
       predecessors: [],
+      successors: [],
+      constraint: toCPMConstraint(task, projectStartDate, calendar),
       earlyStart: 0,
       earlyFinish: 0,
       lateStart: Infinity,
@@ -59,100 +131,86 @@ export function calculateCriticalPath(
     })
   })
 
-  // Build predecessor lists from dependencies
-  const successorMap = new Map<string, { successorId: string; lag: number }[]>()
-
+  // Link tasks; dependencies touching tasks outside the network are ignored
   dependencies.forEach((dep) => {
-    const cpmTask = cpmTasks.get(dep.successor_id)
-    if (cpmTask) {
-      cpmTask.predecessors.push(dep.predecessor_id)
-    }
-
-    // Build successor map for backward pass
-    if (!successorMap.has(dep.predecessor_id)) {
-      successorMap.set(dep.predecessor_id, [])
-    }
-    successorMap.get(dep.predecessor_id)!.push({
-      successorId: dep.successor_id,
-      lag: dep.lag_days,
-    })
+    const predecessor = cpmTasks.get(dep.predecessor_id)
+    const successor = cpmTasks.get(dep.successor_id)
+    if (!predecessor || !successor) return
+
+    const type = dep.dependency_type || 'FS'
+    const lag = dep.lag_days || 0
+    successor.predecessors.push({ taskId: predecessor.id, type, lag })
+    predecessor.successors.push({ taskId: successor.id, type, lag })
   })
 
-  // Topological sort for processing order
-  const sortedTasks = topologicalSort(Array.from(cpmTasks.values()))
+  const { order, cycle } = topologicalSort(cpmTasks)
+  const conflicts: CPMConstraintConflict[] = []
+
+  const logicStart = (task: CPMTask) => {
+    let earlyStart = 0
+    task.predecessors.forEach((link) => {
+      const pred = cpmTasks.get(link.taskId)
+      if (pred) {
+        earlyStart = Math.max(earlyStart, earliestStartFrom(pred, task, link))
+      }
+    })
+    return earlyStart
+  }
 
   // Forward Pass
-  sortedTasks.forEach((task) => {
-    if (task.predecessors.length === 0) {
-      // No predecessors - start at day 0
-      task.earlyStart = 0
-    } else {
-      // ES = max(EF of predecessors)
-      let maxEF = 0
-      task.predecessors.forEach((predId) => {
-        const pred = cpmTasks.get(predId)
-        if (pred) {
-          // Find lag for this dependency
-          const dep = dependencies.find(
-            (d) => d.predecessor_id === predId && d.successor_id === task.id
-          )
-          const lag = dep?.lag_days || 0
-          maxEF = Math.max(maxEF, pred.earlyFinish + lag)
-        }
+  order.forEach((task) => {
+    const { start, conflictDays } = applyForwardConstraint(task, logicStart(task))
+    if (task.constraint && conflictDays > 0) {
+      conflicts.push({
+        taskId: task.id,
+        constraintType: task.constraint.type,
+        constraintDate: task.constraint.date,
+        days: conflictDays,
       })
-      task.earlyStart = maxEF
     }
-    task.earlyFinish = task.earlyStart + task.duration
+
+    task.earlyStart = start
+    task.earlyFinish = start + task.duration
   })
 
-  // Find project duration (max EF)
   let projectDuration = 0
   cpmTasks.forEach((task) => {
     projectDuration = Math.max(projectDuration, task.earlyFinish)
   })
 
-  // Find tasks with no successors (end tasks)
-  const endTasks = Array.from(cpmTasks.values()).filter((task) => {
-    const successors = successorMap.get(task.id)
-    return !successors || successors.length === 0
-  })
-
-  // Initialize end tasks with LF = project duration
-  endTasks.forEach((task) => {
-    task.lateFinish = projectDuration
-    task.lateStart = task.lateFinish - task.duration
-  })
-
   // Backward Pass (reverse order)
-  const reversedTasks = [...sortedTasks].reverse()
-
-  reversedTasks.forEach((task) => {
-    const successors = successorMap.get(task.id)
-
-    if (!successors || successors.length === 0) {
-      // End task - already initialized
-      return
-    }
-
-    // LF = min(LS of successors) - lag
-    let minLS = Infinity
-    successors.forEach(({ successorId, lag }) => {
-      const succ = cpmTasks.get(successorId)
+  ;[...order].reverse().forEach((task) => {
+    let lateFinish = projectDuration
+    task.successors.forEach((link) => {
+      const succ = cpmTasks.get(link.taskId)
       if (succ) {
-        minLS = Math.min(minLS, succ.lateStart - lag)
+        lateFinish = Math.min(lateFinish, latestFinishFrom(succ, task, link))
       }
     })
-
-    task.lateFinish = minLS
+    task.lateFinish = applyBackwardConstraint(task, lateFinish)
     task.lateStart = task.lateFinish - task.duration
   })
 
+  // ALAP tasks move to their late dates, which pushes their successors:
+  // forward pass again from the moved tasks. Late dates already account for
+  // every successor, so nothing moves past the project finish.
+  if (order.some((task) => task.constraint?.type === 'alap')) {
+    order.forEach((task) => {
+      const start =
+        task.constraint?.type === 'alap'
+          ? Math.max(logicStart(task), task.lateStart)
+          : applyForwardConstraint(task, logicStart(task)).start
+      task.earlyStart = start
+      task.earlyFinish = start + task.duration
+    })
+  }
+
   // Calculate slack and identify critical path
   const criticalPath: string[] = []
 
   cpmTasks.forEach((task) => {
     task.slack = task.lateStart - task.earlyStart
-    task.isCritical = task.slack === 0
+    task.isCritical = task.slack <= 0
 
     if (task.isCritical) {
       criticalPath.push(task.id)
@@ -170,70 +228,254 @@ export function calculateCriticalPath(
     tasks: cpmTasks,
     criticalPath,
     projectDuration,
+    cycle,
+    conflicts,
   }
 }
 
 /**
- * Topological sort using Kahn's algorithm
+ * Convert a task's constraint to CPM day numbers
  */
-function topologicalSort(tasks: CPMTask[]): CPMTask[] {
-  const taskMap = new Map(tasks.map((t) => [t.id, t]))
-  const inDegree = new Map<string, number>()
-  const adjacency = new Map<string, string[]>()
+function toCPMConstraint(
+  task: HierarchicalTask,
+  projectStartDate: Date,
+  calendar: WorkingCalendar
+): CPMConstraint | null {
+  const type = task.constraint_type || 'asap'
+  if (type === 'asap') return null
+  if (type === 'alap') return { type, day: 0, date: '' }
+  if (!DATED_CONSTRAINTS.includes(type) || !task.constraint_date) return null
+
+  const date = parseDateKey(task.constraint_date)
+  if (FINISH_CONSTRAINTS.includes(type)) {
+    // Finish constraints are inclusive dates; CPM finishes are exclusive
+    const dayAfter = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+    return { type, day: workingDayOffset(projectStartDate, dayAfter, calendar), date: task.constraint_date }
+  }
 
-  // Initialize
-  tasks.forEach((task) => {
-    inDegree.set(task.id, task.predecessors.length)
-    adjacency.set(task.id, [])
-  })
+  return { type, day: workingDayOffset(projectStartDate, date, calendar), date: task.constraint_date }
+}
 
-  // Build adjacency list (predecessor -> successors)
-  tasks.forEach((task) => {
-    task.predecessors.forEach((predId) => {
-      if (adjacency.has(predId)) {
-        adjacency.get(predId)!.push(task.id)
+/**
+ * Apply a constraint to the early start computed from predecessors
+ *
+ * Returns the constrained start and by how many days the logic-driven start
+ * overshoots the constraint (0 when it can be met).
+ */
+function applyForwardConstraint(
+  task: CPMTask,
+  logicStart: number
+): { start: number; conflictDays: number } {
+  const constraint = task.constraint
+  if (!constraint) return { start: logicStart, conflictDays: 0 }
+
+  const { day } = constraint
+  switch (constraint.type) {
+    case 'snet':
+      return { start: Math.max(logicStart, day), conflictDays: 0 }
+    case 'fnet':
+      return { start: Math.max(logicStart, day - task.duration), conflictDays: 0 }
+    case 'mso':
+      return { start: day, conflictDays: Math.max(logicStart - day, 0) }
+    case 'mfo':
+      return {
+        start: day - task.duration,
+        conflictDays: Math.max(logicStart - (day - task.duration), 0),
       }
-    })
-  })
+    case 'snlt':
+      return { start: logicStart, conflictDays: Math.max(logicStart - day, 0) }
+    case 'fnlt':
+      return { start: logicStart, conflictDays: Math.max(logicStart + task.duration - day, 0) }
+    default:
+      return { start: logicStart, conflictDays: 0 }
+  }
+}
+
+/**
+ * Apply a constraint to the late finish computed from successors
+ */
+function applyBackwardConstraint(task: CPMTask, lateFinish: number): number {
+  const constraint = task.constraint
+  if (!constraint) return lateFinish
+
+  const { day } = constraint
+  switch (constraint.type) {
+    case 'mso':
+      return day + task.duration
+    case 'mfo':
+      return day
+    case 'snlt':
+      return Math.min(lateFinish, day + task.duration)
+    case 'fnlt':
+      return Math.min(lateFinish, day)
+    default:
+      return lateFinish
+  }
+}
+
+/**
+ * Earliest start a predecessor link allows for the successor
+ */
+function earliestStartFrom(pred: CPMTask, succ: CPMTask, link: CPMLink): number {
+  switch (link.type) {
+    case 'SS':
+      return pred.earlyStart + link.lag
+    case 'FF':
+      return pred.earlyFinish + link.lag - succ.duration
+    case 'SF':
+      return pred.earlyStart + link.lag - succ.duration
+    case 'FS':
+    default:
+      return pred.earlyFinish + link.lag
+  }
+}
+
+/**
+ * Latest finish a successor link allows for the predecessor
+ */
+function latestFinishFrom(succ: CPMTask, pred: CPMTask, link: CPMLink): number {
+  switch (link.type) {
+    case 'SS':
+      return succ.lateStart - link.lag + pred.duration
+    case 'FF':
+      return succ.lateFinish - link.lag
+    case 'SF':
+      return succ.lateFinish - link.lag + pred.duration
+    case 'FS':
+    default:
+      return succ.lateStart - link.lag
+  }
+}
+
+/**
+ * Topological sort using Kahn's algorithm
+ *
+ * Tasks caught in a cycle are appended after the acyclic ones so every task
+ * still gets dates, and one offending chain is returned for reporting.
+ */
+function topologicalSort(cpmTasks: Map<string, CPMTask>): {
+  order: CPMTask[]
+  cycle: string[] | null
+} {
+  const inDegree = new Map<string, number>()
+  cpmTasks.forEach((task) => inDegree.set(task.id, task.predecessors.length))
 
   // Start with tasks that have no predecessors
-  const queue: CPMTask[] = tasks.filter((t) => t.predecessors.length === 0)
-  const result: CPMTask[] = []
+  const queue: CPMTask[] = Array.from(cpmTasks.values()).filter(
+    (t) => t.predecessors.length === 0
+  )
+  const order: CPMTask[] = []
 
   while (queue.length > 0) {
     const task = queue.shift()!
-    result.push(task)
+    order.push(task)
 
-    // Process successors
-    const successors = adjacency.get(task.id) || []
-    successors.forEach((succId) => {
-      const newDegree = (inDegree.get(succId) || 0) - 1
-      inDegree.set(succId, newDegree)
+    task.successors.forEach(({ taskId }) => {
+      const newDegree = (inDegree.get(taskId) || 0) - 1
+      inDegree.set(taskId, newDegree)
 
       if (newDegree === 0) {
-        const succTask = taskMap.get(succId)
-        if (succTask) {
-          queue.push(succTask)
-        }
+        queue.push(cpmTasks.get(taskId)!)
       }
     })
   }
 
-  // Check for cycles (if result doesn't contain all tasks)
-  if (result.length !== tasks.length) {
-    console.warn('Cycle detected in task dependencies')
+  if (order.length === cpmTasks.size) {
+    return { order, cycle: null }
   }
 
-  return result
+  const remaining = Array.from(cpmTasks.values()).filter((t) => (inDegree.get(t.id) || 0) > 0)
+  const cycle = findCycle(remaining, cpmTasks)
+  console.warn('Cycle detected in task dependencies:', cycle?.join(' -> '))
+
+  return { order: [...order, ...remaining], cycle }
+}
+
+/**
+ * Walk predecessor links among unsorted tasks until a task repeats
+ *
+ * Every task left over by Kahn's algorithm has at least one unsorted
+ * predecessor, so the walk always closes a loop.
+ */
+function findCycle(remaining: CPMTask[], cpmTasks: Map<string, CPMTask>): string[] | null {
+  if (remaining.length === 0) return null
+
+  const unsorted = new Set(remaining.map((t) => t.id))
+  const path: string[] = []
+  const position = new Map<string, number>()
+  let current: CPMTask | undefined = remaining[0]
+
+  while (current && !position.has(current.id)) {
+    position.set(current.id, path.length)
+    path.push(current.id)
+    const next: CPMLink | undefined = current.predecessors.find((link) => unsorted.has(link.taskId))
+    current = next ? cpmTasks.get(next.taskId) : undefined
+  }
+
+  if (!current) return null
+
+  // Path was built walking backwards; report it in predecessor -> successor order
+  const loop = path.slice(position.get(current.id)!).reverse()
+  return [...loop, loop[0]]
+}
+
+/**
+ * Human-readable chain for a dependency cycle (e.g. "1.1 Projeto → 1.2 Obra → 1.1 Projeto")
+ */
+export function describeCycle(cycle: string[], tasks: HierarchicalTask[]): string {
+  const taskMap = new Map(tasks.map((t) => [t.id, t]))
+  return cycle
+    .map((id) => {
+      const task = taskMap.get(id)
+      if (!task) return id
+      return task.wbs_code ? `${task.wbs_code} ${task.title}` : task.title
+    })
+    .join(' → ')
+}
+
+/**
+ * Human-readable explanation of a constraint conflict
+ */
+export function describeConstraintConflict(conflict: CPMConstraintConflict): string {
+  const label = CONSTRAINT_TYPE_INFO[conflict.constraintType].label
+  const date = parseDateKey(conflict.constraintDate).toLocaleDateString('pt-BR')
+  const days = `${conflict.days} ${conflict.days === 1 ? 'dia útil' : 'dias úteis'}`
+  return `${label} ${date}: as predecessoras atrasam a tarefa em ${days}`
+}
+
+/**
+ * Day 0 of the schedule: earliest task start date, or today when no task has one
+ */
+export function getScheduleStartDate(tasks: HierarchicalTask[]): Date {
+  const starts = tasks
+    .filter((t) => t.start_date)
+    .map((t) => parseDateKey(t.start_date!).getTime())
+  return starts.length > 0 ? new Date(Math.min(...starts)) : parseDateKey(toDateKey(new Date()))
 }
 
 /**
  * Convert CPM day numbers to actual dates
+ *
+ * Day numbers count working days from the project start in the given calendar.
+ */
+export function cpmDaysToDate(
+  startDate: Date,
+  days: number,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
+): Date {
+  return addWorkingDays(startDate, days, calendar)
+}
+
+/**
+ * Convert an exclusive CPM finish day number to the (inclusive) last working day
  */
-export function cpmDaysToDate(startDate: Date, days: number): Date {
-  const result = new Date(startDate)
-  result.setDate(result.getDate() + days)
-  return result
+function cpmFinishToDate(
+  startDate: Date,
+  start: number,
+  finish: number,
+  calendar: WorkingCalendar
+): Date {
+  return cpmDaysToDate(startDate, finish > start ? finish - 1 : start, calendar)
 }
 
 /**
@@ -242,7 +484,8 @@ export function cpmDaysToDate(startDate: Date, days: number): Date {
 export function applyCriticalPathToTasks(
   tasks: HierarchicalTask[],
   cpmResult: CPMResult,
-  projectStartDate: Date
+  projectStartDate: Date,
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR
 ): HierarchicalTask[] {
   return tasks.map((task) => {
     const cpmTask = cpmResult.tasks.get(task.id)
@@ -250,10 +493,14 @@ export function applyCriticalPathToTasks(
 
     return {
       ...task,
-      early_start: cpmDaysToDate(projectStartDate, cpmTask.earlyStart).toISOString().split('T')[0],
-      early_finish: cpmDaysToDate(projectStartDate, cpmTask.earlyFinish).toISOString().split('T')[0],
-      late_start: cpmDaysToDate(projectStartDate, cpmTask.lateStart).toISOString().split('T')[0],
-      late_finish: cpmDaysToDate(projectStartDate, cpmTask.lateFinish).toISOString().split('T')[0],
+      early_start: toDateKey(cpmDaysToDate(projectStartDate, cpmTask.earlyStart, calendar)),
+      early_finish: toDateKey(
+        cpmFinishToDate(projectStartDate, cpmTask.earlyStart, cpmTask.earlyFinish, calendar)
+      ),
+      late_start: toDateKey(cpmDaysToDate(projectStartDate, cpmTask.lateStart, calendar)),
+      late_finish: toDateKey(
+        cpmFinishToDate(projectStartDate, cpmTask.lateStart, cpmTask.lateFinish, calendar)
+      ),
       slack: cpmTask.slack,
       is_critical: cpmTask.isCritical,
     }
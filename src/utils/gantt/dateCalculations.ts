@@ -1,4 +1,5 @@
-import type { GanttZoomLevel } from '@/types/hybrid'
+import type { GanttTimelineUnit, GanttZoomLevel } from '@/types/hybrid'
+import { getHolidayName, isWorkingDay, type WorkingCalendar } from './workingCalendar'
 
 /**
  * Calculate the number of days between two dates
@@ -161,24 +162,30 @@ export function getUnitsInRange(start: Date, end: Date, zoom: GanttZoomLevel): n
 
 /**
  * Generate timeline units for the header
+ *
+ * Non-working flags only apply to day units; with a calendar, holidays and
+ * the project's work week replace the plain Saturday/Sunday check.
  */
 export function generateTimelineUnits(
   start: Date,
   end: Date,
-  zoom: GanttZoomLevel
-): Array<{ date: Date; label: string; width: number; isWeekend: boolean; isToday: boolean }> {
-  const units: Array<{ date: Date; label: string; width: number; isWeekend: boolean; isToday: boolean }> = []
+  zoom: GanttZoomLevel,
+  calendar?: WorkingCalendar
+): GanttTimelineUnit[] {
+  const units: GanttTimelineUnit[] = []
   const unitWidth = getUnitWidth(zoom)
 
   let current = new Date(start)
 
   while (current <= end) {
+    const isDayUnit = zoom === 'day'
     units.push({
       date: new Date(current),
       label: formatDateForZoom(current, zoom),
       width: unitWidth,
-      isWeekend: isWeekend(current),
+      isWeekend: isDayUnit && (calendar ? !isWorkingDay(current, calendar) : isWeekend(current)),
       isToday: isToday(current),
+      holidayName: isDayUnit && calendar ? getHolidayName(current, calendar) : null,
     })
 
     // Increment based on zoom level
@@ -251,6 +258,29 @@ export function dateRangeToWidth(start: Date, end: Date, zoom: GanttZoomLevel):
   }
 }
 
+/**
+ * Convert a horizontal pixel distance to a whole number of calendar days
+ * (inverse of dateToX, used when dragging bars)
+ */
+export function pixelsToDays(pixels: number, zoom: GanttZoomLevel): number {
+  const unitWidth = getUnitWidth(zoom)
+
+  switch (zoom) {
+    case 'day':
+      return Math.round(pixels / unitWidth)
+    case 'week':
+      return Math.round((pixels / unitWidth) * 7)
+    case 'month':
+      return Math.round((pixels / unitWidth) * 30)
+    case 'quarter':
+      return Math.round((pixels / unitWidth) * 91)
+    case 'year':
+      return Math.round((pixels / unitWidth) * 365)
+    default:
+      return Math.round(pixels / unitWidth)
+  }
+}
+
 /**
  * Get date range for project tasks
  */
@@ -0,0 +1,202 @@
+import type {
+  EarnedValueMetrics,
+  EarnedValuePoint,
+  EarnedValueUnit,
+  HierarchicalTask,
+  TaskBaseline,
+} from '@/types/hybrid'
+import { parseDateKey, toDateKey, workingDaysBetween, type WorkingCalendar } from './workingCalendar'
+
+export interface EarnedValueResult {
+  metrics: EarnedValueMetrics
+  curve: EarnedValuePoint[]
+}
+
+/** Per-task inputs for EVM, in the chosen unit */
+interface EarnedValueTask {
+  budget: number
+  plannedStart: Date | null
+  plannedEnd: Date | null
+  actualStart: Date | null
+  actualEnd: Date
+  earnedFraction: number
+  actualCost: number
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Share of [start, end] elapsed by a date, counted in working days
+ */
+function elapsedFraction(start: Date, end: Date, date: Date, calendar: WorkingCalendar): number {
+  if (date < start) return 0
+  if (date >= end) return 1
+  const total = workingDaysBetween(start, end, calendar)
+  return total > 0 ? workingDaysBetween(start, date, calendar) / total : 1
+}
+
+/**
+ * Build EVM inputs from the baseline snapshot and the current tasks
+ *
+ * Only leaf tasks present in the baseline count (summary rows would double
+ * count their children). The budget is the baseline cost when the baseline
+ * has costs, otherwise its planned hours; in cost mode actual hours are
+ * converted at each task's planned cost per hour.
+ */
+function buildTasks(
+  tasks: HierarchicalTask[],
+  taskBaselines: TaskBaseline[],
+  statusDate: Date
+): { unit: EarnedValueUnit; items: EarnedValueTask[] } {
+  const taskMap = new Map(tasks.map((t) => [t.id, t]))
+  const rows = taskBaselines.filter((b) => {
+    const task = taskMap.get(b.task_id)
+    return task && !task.is_summary
+  })
+  const unit: EarnedValueUnit = rows.some((b) => (b.planned_cost || 0) > 0) ? 'cost' : 'hours'
+
+  const items = rows.map((baseline) => {
+    const task = taskMap.get(baseline.task_id) as HierarchicalTask
+    const plannedHours = Number(baseline.planned_work_hours) || 0
+    const budget = unit === 'cost' ? Number(baseline.planned_cost) || 0 : plannedHours
+    const actualHours = Number(task.actual_hours) || 0
+    const isDone = task.status === 'done'
+
+    const finishedOn = isDone ? task.completed_at || task.end_date : null
+    const actualEnd = finishedOn ? parseDateKey(finishedOn) : statusDate
+
+    return {
+      budget,
+      plannedStart: baseline.planned_start_date ? parseDateKey(baseline.planned_start_date) : null,
+      plannedEnd: baseline.planned_end_date
+        ? parseDateKey(baseline.planned_end_date)
+        : baseline.planned_start_date
+          ? parseDateKey(baseline.planned_start_date)
+          : null,
+      actualStart: task.start_date ? parseDateKey(task.start_date) : actualEnd,
+      actualEnd: actualEnd > statusDate ? statusDate : actualEnd,
+      earnedFraction: isDone ? 1 : Math.min(Math.max(task.percent_complete || 0, 0), 100) / 100,
+      actualCost:
+        unit === 'cost'
+          ? plannedHours > 0
+            ? (actualHours * budget) / plannedHours
+            : 0
+          : actualHours,
+    }
+  })
+
+  return { unit, items }
+}
+
+/**
+ * PV, EV and AC at a date
+ *
+ * PV follows the baseline dates linearly. Only current progress and hours are
+ * stored, so EV and AC before the status date are spread linearly over each
+ * task's actual span (start to completion, or to the status date).
+ */
+function valuesAt(
+  items: EarnedValueTask[],
+  date: Date,
+  calendar: WorkingCalendar,
+  projectPlannedEnd: Date | null
+) {
+  let pv = 0
+  let ev = 0
+  let ac = 0
+
+  items.forEach((item) => {
+    if (item.plannedStart && item.plannedEnd) {
+      pv += item.budget * elapsedFraction(item.plannedStart, item.plannedEnd, date, calendar)
+    } else if (projectPlannedEnd && date >= projectPlannedEnd) {
+      // Undated work is only planned once the whole baseline has elapsed
+      pv += item.budget
+    }
+
+    if (item.actualStart) {
+      const progress = elapsedFraction(item.actualStart, item.actualEnd, date, calendar)
+      ev += item.budget * item.earnedFraction * progress
+      ac += item.actualCost * progress
+    }
+  })
+
+  return { pv, ev, ac }
+}
+
+/**
+ * Earned value metrics of a project against a baseline, plus the S-curve
+ *
+ * BAC is the baseline budget of the tasks still in the project; EAC assumes
+ * the current cost performance holds (BAC / CPI).
+ */
+export function calculateEarnedValue(
+  tasks: HierarchicalTask[],
+  taskBaselines: TaskBaseline[],
+  calendar: WorkingCalendar,
+  statusDate: Date = new Date()
+): EarnedValueResult {
+  const today = new Date(statusDate.getFullYear(), statusDate.getMonth(), statusDate.getDate())
+  const { unit, items } = buildTasks(tasks, taskBaselines, today)
+
+  const plannedStarts = items.flatMap((i) => (i.plannedStart ? [i.plannedStart.getTime()] : []))
+  const plannedEnds = items.flatMap((i) => (i.plannedEnd ? [i.plannedEnd.getTime()] : []))
+  const projectPlannedStart = plannedStarts.length > 0 ? new Date(Math.min(...plannedStarts)) : null
+  const projectPlannedEnd = plannedEnds.length > 0 ? new Date(Math.max(...plannedEnds)) : null
+
+  const bac = items.reduce((sum, i) => sum + i.budget, 0)
+  const { pv, ev, ac } = valuesAt(items, today, calendar, projectPlannedEnd)
+  const spi = pv > 0 ? ev / pv : null
+  const cpi = ac > 0 ? ev / ac : null
+  const eac = cpi ? bac / cpi : bac
+
+  const metrics: EarnedValueMetrics = {
+    unit,
+    status_date: toDateKey(today),
+    bac: round(bac),
+    pv: round(pv),
+    ev: round(ev),
+    ac: round(ac),
+    sv: round(ev - pv),
+    cv: round(ev - ac),
+    spi: spi === null ? null : round(spi),
+    cpi: cpi === null ? null : round(cpi),
+    eac: round(eac),
+    etc: round(Math.max(eac - ac, 0)),
+    vac: round(bac - eac),
+    planned_percent: bac > 0 ? Math.round((pv / bac) * 100) : 0,
+    earned_percent: bac > 0 ? Math.round((ev / bac) * 100) : 0,
+  }
+
+  // S-curve: weekly points (monthly for long projects) plus the status date
+  const curve: EarnedValuePoint[] = []
+  if (projectPlannedStart && projectPlannedEnd) {
+    const lastDate = projectPlannedEnd > today ? projectPlannedEnd : today
+    const totalDays = (lastDate.getTime() - projectPlannedStart.getTime()) / (1000 * 60 * 60 * 24)
+    const step = totalDays > 730 ? 30 : 7
+
+    const dates: Date[] = []
+    const current = new Date(projectPlannedStart)
+    while (current < lastDate) {
+      dates.push(new Date(current))
+      current.setDate(current.getDate() + step)
+    }
+    dates.push(lastDate)
+    if (today > projectPlannedStart && !dates.some((d) => d.getTime() === today.getTime())) {
+      dates.push(today)
+      dates.sort((a, b) => a.getTime() - b.getTime())
+    }
+
+    dates.forEach((date) => {
+      const values = valuesAt(items, date, calendar, projectPlannedEnd)
+      const isFuture = date > today
+      curve.push({
+        date: toDateKey(date),
+        pv: round(values.pv),
+        ev: isFuture ? null : round(values.ev),
+        ac: isFuture ? null : round(values.ac),
+      })
+    })
+  }
+
+  return { metrics, curve }
+}
@@ -0,0 +1,172 @@
+import type { HierarchicalTask, TaskDependency } from '@/types/hybrid'
+import {
+  addWorkingDays,
+  calculateDuration,
+  parseDateKey,
+  snapToWorkingDay,
+  toDateKey,
+  workingDayOffset,
+  type WorkingCalendar,
+} from './workingCalendar'
+
+/** New dates for a task after an interactive edit */
+export interface TaskDateChange {
+  id: string
+  start_date: string
+  end_date: string
+  planned_duration: number
+}
+
+/** Task position in working days from a reference date (finish is exclusive) */
+interface ScheduledTask {
+  start: number
+  finish: number
+  duration: number
+}
+
+/**
+ * Dates for a task that starts on a date and keeps its working-day duration
+ */
+export function shiftTaskDates(
+  start: Date,
+  duration: number,
+  isMilestone: boolean,
+  calendar: WorkingCalendar
+): Omit<TaskDateChange, 'id'> {
+  const startDate = snapToWorkingDay(start, calendar)
+  const endDate = isMilestone
+    ? startDate
+    : addWorkingDays(startDate, Math.max(duration, 1) - 1, calendar)
+
+  return {
+    start_date: toDateKey(startDate),
+    end_date: toDateKey(endDate),
+    planned_duration: isMilestone ? 0 : Math.max(duration, 1),
+  }
+}
+
+/**
+ * Push successors of edited tasks so every dependency (type and lag) still holds
+ *
+ * Successors only move later: a task already starting after its predecessors
+ * keeps its dates, so manual gaps in the schedule survive a drag. Summary tasks
+ * are skipped, like in the critical path. Returns the edited tasks followed by
+ * every successor that had to move.
+ */
+export function propagateSchedule(
+  tasks: HierarchicalTask[],
+  dependencies: TaskDependency[],
+  changes: TaskDateChange[],
+  calendar: WorkingCalendar
+): TaskDateChange[] {
+  const taskMap = new Map(tasks.filter((t) => !t.is_summary).map((t) => [t.id, t]))
+  const changeMap = new Map(changes.map((c) => [c.id, c]))
+
+  const datedKeys = [
+    ...changes.map((c) => c.start_date),
+    ...tasks.filter((t) => t.start_date).map((t) => t.start_date as string),
+  ]
+  if (datedKeys.length === 0) return changes
+
+  // Working-day numbers are counted from the earliest date in the schedule
+  const reference = snapToWorkingDay(
+    parseDateKey(datedKeys.reduce((min, d) => (d < min ? d : min))),
+    calendar
+  )
+
+  const scheduled = new Map<string, ScheduledTask>()
+  const toScheduled = (task: HierarchicalTask): ScheduledTask | null => {
+    const change = changeMap.get(task.id)
+    const startKey = change?.start_date ?? task.start_date
+    if (!startKey) return null
+
+    const endKey = change?.end_date ?? task.end_date
+    const startDate = parseDateKey(startKey)
+    const duration = task.task_type === 'milestone'
+      ? 0
+      : endKey
+      ? calculateDuration(startDate, parseDateKey(endKey), calendar)
+      : Math.max(task.planned_duration || 1, 1)
+    const start = workingDayOffset(reference, startDate, calendar)
+    return { start, finish: start + duration, duration }
+  }
+  taskMap.forEach((task) => {
+    const entry = toScheduled(task)
+    if (entry) scheduled.set(task.id, entry)
+  })
+
+  const successorsOf = new Map<string, TaskDependency[]>()
+  dependencies.forEach((dep) => {
+    const list = successorsOf.get(dep.predecessor_id) || []
+    list.push(dep)
+    successorsOf.set(dep.predecessor_id, list)
+  })
+
+  // Predecessors of edited tasks are queued too, so a task dropped before its
+  // predecessor allows is pushed back to the earliest valid date
+  const moved = new Set<string>()
+  const queue: { id: string; onlySuccessor?: string }[] = [
+    ...dependencies
+      .filter((dep) => changeMap.has(dep.successor_id))
+      .map((dep) => ({ id: dep.predecessor_id, onlySuccessor: dep.successor_id })),
+    ...changes.map((c) => ({ id: c.id })),
+  ]
+  // A cycle would loop forever; each link can only push so many times
+  let budget = (dependencies.length + 1) * (taskMap.size + 1)
+
+  while (queue.length > 0 && budget-- > 0) {
+    const { id: predId, onlySuccessor } = queue.shift()!
+    const pred = scheduled.get(predId)
+    if (!pred) continue
+
+    for (const dep of successorsOf.get(predId) || []) {
+      if (onlySuccessor && dep.successor_id !== onlySuccessor) continue
+      const succ = scheduled.get(dep.successor_id)
+      if (!succ) continue
+
+      const lag = dep.lag_days || 0
+      let earliestStart: number
+      switch (dep.dependency_type) {
+        case 'SS':
+          earliestStart = pred.start + lag
+          break
+        case 'FF':
+          earliestStart = pred.finish + lag - succ.duration
+          break
+        case 'SF':
+          earliestStart = pred.start + lag - succ.duration
+          break
+        case 'FS':
+        default:
+          earliestStart = pred.finish + lag
+      }
+
+      if (succ.start < earliestStart) {
+        succ.start = earliestStart
+        succ.finish = earliestStart + succ.duration
+        moved.add(dep.successor_id)
+        queue.push({ id: dep.successor_id })
+      }
+    }
+  }
+
+  const toChange = (id: string): TaskDateChange => {
+    const task = taskMap.get(id) as HierarchicalTask
+    const entry = scheduled.get(id) as ScheduledTask
+    return {
+      id,
+      ...shiftTaskDates(
+        addWorkingDays(reference, entry.start, calendar),
+        entry.duration,
+        task.task_type === 'milestone',
+        calendar
+      ),
+    }
+  }
+
+  const result = changes.map((change) => (moved.has(change.id) ? toChange(change.id) : change))
+  moved.forEach((id) => {
+    if (!changeMap.has(id)) result.push(toChange(id))
+  })
+  return result
+}
@@ -0,0 +1,284 @@
+import type {
+  HierarchicalTask,
+  ResourceAllocation,
+  TaskDependency,
+  TaskPriority,
+} from '@/types/hybrid'
+import { propagateSchedule, type TaskDateChange } from './rescheduling'
+import { FULL_ALLOCATION, getDailyLoad } from './resourceLoad'
+import {
+  addWorkingDays,
+  calculateDuration,
+  parseDateKey,
+  toDateKey,
+  workingDayOffset,
+  type WorkingCalendar,
+} from './workingCalendar'
+
+/** Proposed shift of one task */
+export interface LevelingChange extends TaskDateChange {
+  title: string
+  wbs_code: string | null
+  previous_start: string
+  previous_end: string
+  /** Working days the task moves */
+  delay: number
+  reason: string
+}
+
+/** Over-allocation leveling could not remove */
+export interface LevelingConflict {
+  userId: string
+  userName: string
+  date: string
+  load: number
+}
+
+export interface LevelingResult {
+  changes: LevelingChange[]
+  unresolved: LevelingConflict[]
+}
+
+interface LevelingOptions {
+  /** Project tasks with CPM data (slack, is_critical) applied */
+  tasks: HierarchicalTask[]
+  dependencies: TaskDependency[]
+  /** Allocations of the people involved, across all projects */
+  allocations: ResourceAllocation[]
+  calendar: WorkingCalendar
+  /** Over-allocation before this date is left alone (defaults to today) */
+  from?: Date
+}
+
+interface TaskState {
+  start: Date
+  end: Date
+  delay: number
+  maxDelay: number
+  reason: string
+}
+
+/** Lower priorities are delayed first */
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  urgent: 3,
+}
+
+/** Safety limit on one-day shifts */
+const MAX_ITERATIONS = 2000
+
+/**
+ * Working days a task may be delayed without moving the project finish or
+ * breaking its constraint. Critical, started and pinned (MSO/MFO) tasks can't move.
+ */
+function getMaxDelay(task: HierarchicalTask, start: Date, end: Date, calendar: WorkingCalendar): number {
+  if (task.is_summary || task.task_type === 'milestone') return 0
+  if (task.status === 'done' || (task.percent_complete || 0) > 0) return 0
+  if (task.is_critical || !task.slack || task.slack <= 0) return 0
+
+  let maxDelay = task.slack
+  const constraintDate = task.constraint_date ? parseDateKey(task.constraint_date) : null
+
+  switch (task.constraint_type) {
+    case 'mso':
+    case 'mfo':
+      return 0
+    case 'snlt':
+      if (constraintDate) maxDelay = Math.min(maxDelay, workingDayOffset(start, constraintDate, calendar))
+      break
+    case 'fnlt':
+      if (constraintDate) maxDelay = Math.min(maxDelay, workingDayOffset(end, constraintDate, calendar))
+      break
+  }
+
+  return Math.max(maxDelay, 0)
+}
+
+/**
+ * Resource leveling: delay non-critical tasks within their slack until no one
+ * is allocated above 100% on any working day
+ *
+ * Works day by day from the earliest over-allocation. On each conflict the
+ * task to delay is the lowest priority one, then the one with most slack left,
+ * then the one starting last; it moves one working day at a time, pushing its
+ * successors. A shift that would push any task past its own slack is rejected.
+ * Allocations with their own dates, and tasks from other projects, stay put.
+ */
+export function levelResources({
+  tasks,
+  dependencies,
+  allocations,
+  calendar,
+  from = new Date(),
+}: LevelingOptions): LevelingResult {
+  const taskMap = new Map(tasks.map((t) => [t.id, t]))
+  const state = new Map<string, TaskState>()
+
+  tasks.forEach((task) => {
+    if (task.is_summary || !task.start_date) return
+    const start = parseDateKey(task.start_date)
+    const end = task.end_date ? parseDateKey(task.end_date) : start
+    state.set(task.id, {
+      start,
+      end,
+      delay: 0,
+      maxDelay: getMaxDelay(task, start, end, calendar),
+      reason: '',
+    })
+  })
+
+  const userNames = new Map<string, string>()
+  allocations.forEach((a) => {
+    if (a.user) userNames.set(a.user_id, a.user.full_name)
+  })
+
+  // Allocations that follow this project's tasks move with them
+  const isMovable = (a: ResourceAllocation) =>
+    state.has(a.task_id) && !a.start_date && !a.end_date
+
+  const currentAllocations = (): ResourceAllocation[] =>
+    allocations.map((a) => {
+      if (!isMovable(a) || !a.task) return a
+      const entry = state.get(a.task_id) as TaskState
+      return {
+        ...a,
+        task: { ...a.task, start_date: toDateKey(entry.start), end_date: toDateKey(entry.end) },
+      }
+    })
+
+  const horizonEnd = () => {
+    let max = from
+    state.forEach((entry) => {
+      if (entry.end > max) max = entry.end
+    })
+    allocations.forEach((a) => {
+      const key = a.end_date || a.task?.end_date
+      if (key && parseDateKey(key) > max) max = parseDateKey(key)
+    })
+    return max
+  }
+
+  // Delay a task one working day and push its successors; false if anything overruns its slack
+  const shiftTask = (taskId: string, reason: string): boolean => {
+    const entry = state.get(taskId) as TaskState
+    const task = taskMap.get(taskId) as HierarchicalTask
+    const start = addWorkingDays(entry.start, 1, calendar)
+    const duration = calculateDuration(entry.start, entry.end, calendar)
+    const end = addWorkingDays(start, duration - 1, calendar)
+
+    const scheduled = tasks.map((t) => {
+      const s = state.get(t.id)
+      return s ? { ...t, start_date: toDateKey(s.start), end_date: toDateKey(s.end) } : t
+    })
+    const changes = propagateSchedule(
+      scheduled,
+      dependencies,
+      [{ id: taskId, start_date: toDateKey(start), end_date: toDateKey(end), planned_duration: duration }],
+      calendar
+    )
+
+    const updates = changes.map((change) => {
+      const current = state.get(change.id) as TaskState
+      const newStart = parseDateKey(change.start_date)
+      return {
+        id: change.id,
+        start: newStart,
+        end: parseDateKey(change.end_date),
+        delay: current.delay + workingDayOffset(current.start, newStart, calendar),
+      }
+    })
+    if (updates.some((u) => u.delay > (state.get(u.id) as TaskState).maxDelay)) return false
+
+    updates.forEach((u) => {
+      const current = state.get(u.id) as TaskState
+      state.set(u.id, {
+        ...current,
+        start: u.start,
+        end: u.end,
+        delay: u.delay,
+        reason: u.id === taskId ? reason : current.reason || `Empurrada por ${task.title}`,
+      })
+    })
+    return true
+  }
+
+  const unresolved = new Map<string, LevelingConflict>()
+  const fromKey = toDateKey(from)
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const daily = getDailyLoad(currentAllocations(), from, horizonEnd(), calendar)
+
+    // Earliest over-allocated (day, person) not already known to be stuck
+    let conflict: { userId: string; date: string; percent: number; allocations: ResourceAllocation[] } | null = null
+    for (const [userId, byDay] of daily) {
+      for (const [date, day] of byDay) {
+        if (date < fromKey || day.percent <= FULL_ALLOCATION) continue
+        if (unresolved.has(`${userId}:${date}`)) continue
+        if (!conflict || date < conflict.date) {
+          conflict = { userId, date, percent: day.percent, allocations: day.allocations }
+        }
+      }
+    }
+    if (!conflict) break
+
+    const { userId, date, percent, allocations: dayAllocations } = conflict
+    const userName = userNames.get(userId) || 'Usuário'
+
+    const candidates = dayAllocations
+      .filter((a) => isMovable(a))
+      .map((a) => a.task_id)
+      .filter((id, index, ids) => ids.indexOf(id) === index)
+      .filter((id) => {
+        const entry = state.get(id) as TaskState
+        return entry.delay < entry.maxDelay
+      })
+      .sort((a, b) => {
+        const taskA = taskMap.get(a) as HierarchicalTask
+        const taskB = taskMap.get(b) as HierarchicalTask
+        const stateA = state.get(a) as TaskState
+        const stateB = state.get(b) as TaskState
+        return (
+          (PRIORITY_RANK[taskA.priority] ?? 1) - (PRIORITY_RANK[taskB.priority] ?? 1) ||
+          (stateB.maxDelay - stateB.delay) - (stateA.maxDelay - stateA.delay) ||
+          stateB.start.getTime() - stateA.start.getTime()
+        )
+      })
+
+    const shifted = candidates.some((id) => {
+      if (shiftTask(id, `Sobrealocação de ${userName}`)) return true
+      // This task can't move further without overrunning some slack
+      const entry = state.get(id) as TaskState
+      state.set(id, { ...entry, maxDelay: entry.delay })
+      return false
+    })
+
+    if (!shifted) {
+      unresolved.set(`${userId}:${date}`, { userId, userName, date, load: percent })
+    }
+  }
+
+  const changes: LevelingChange[] = []
+  state.forEach((entry, id) => {
+    if (entry.delay === 0) return
+    const task = taskMap.get(id) as HierarchicalTask
+    changes.push({
+      id,
+      title: task.title,
+      wbs_code: task.wbs_code,
+      previous_start: (task.start_date as string).split('T')[0],
+      previous_end: (task.end_date || task.start_date as string).split('T')[0],
+      start_date: toDateKey(entry.start),
+      end_date: toDateKey(entry.end),
+      planned_duration: calculateDuration(entry.start, entry.end, calendar),
+      delay: entry.delay,
+      reason: entry.reason,
+    })
+  })
+
+  return {
+    changes: changes.sort((a, b) => a.start_date.localeCompare(b.start_date)),
+    unresolved: Array.from(unresolved.values()).sort((a, b) => a.date.localeCompare(b.date)),
+  }
+}
@@ -0,0 +1,164 @@
+import type { ResourceAllocation, ResourceLoadBucket } from '@/types/hybrid'
+import { startOfWeek } from './dateCalculations'
+import { isWorkingDay, parseDateKey, toDateKey, type WorkingCalendar } from './workingCalendar'
+
+export type ResourceLoadGranularity = 'day' | 'week'
+
+/** Allocations above this percentage of a working day are over-allocation */
+export const FULL_ALLOCATION = 100
+
+/**
+ * Date range an allocation consumes: its own dates when set, otherwise the
+ * task's. Allocations on completed or undated tasks consume nothing.
+ */
+export function getAllocationRange(
+  allocation: ResourceAllocation
+): { start: Date; end: Date } | null {
+  if (allocation.task?.status === 'done') return null
+
+  const startKey = allocation.start_date || allocation.task?.start_date
+  const endKey = allocation.end_date || allocation.task?.end_date || startKey
+  if (!startKey || !endKey) return null
+
+  return { start: parseDateKey(startKey), end: parseDateKey(endKey) }
+}
+
+/**
+ * Daily allocation per person over a date range (working days only)
+ */
+export function getDailyLoad(
+  allocations: ResourceAllocation[],
+  from: Date,
+  to: Date,
+  calendar: WorkingCalendar
+): Map<string, Map<string, { percent: number; allocations: ResourceAllocation[] }>> {
+  const result = new Map<string, Map<string, { percent: number; allocations: ResourceAllocation[] }>>()
+
+  allocations.forEach((allocation) => {
+    const range = getAllocationRange(allocation)
+    if (!range) return
+
+    const start = range.start > from ? range.start : from
+    const end = range.end < to ? range.end : to
+    const byDay = result.get(allocation.user_id) || new Map()
+    result.set(allocation.user_id, byDay)
+
+    const current = new Date(start.getFullYear(), start.getMonth(), start.getDate())
+    while (current <= end) {
+      if (isWorkingDay(current, calendar)) {
+        const key = toDateKey(current)
+        const day = byDay.get(key) || { percent: 0, allocations: [] }
+        day.percent += allocation.allocation_percent
+        day.allocations.push(allocation)
+        byDay.set(key, day)
+      }
+      current.setDate(current.getDate() + 1)
+    }
+  })
+
+  return result
+}
+
+/**
+ * Load histogram per person: one bucket per working day, or per week with the
+ * average over the week's working days and its busiest day as the peak
+ */
+export function calculateResourceLoad(
+  allocations: ResourceAllocation[],
+  userIds: string[],
+  from: Date,
+  to: Date,
+  granularity: ResourceLoadGranularity,
+  calendar: WorkingCalendar
+): Map<string, ResourceLoadBucket[]> {
+  const daily = getDailyLoad(allocations, from, to, calendar)
+
+  // Period start -> working days it contains
+  const periods = new Map<string, string[]>()
+  const current = new Date(from.getFullYear(), from.getMonth(), from.getDate())
+  while (current <= to) {
+    if (isWorkingDay(current, calendar)) {
+      const periodKey = granularity === 'week' ? toDateKey(startOfWeek(current)) : toDateKey(current)
+      periods.set(periodKey, [...(periods.get(periodKey) || []), toDateKey(current)])
+    }
+    current.setDate(current.getDate() + 1)
+  }
+
+  const result = new Map<string, ResourceLoadBucket[]>()
+  userIds.forEach((userId) => {
+    const byDay = daily.get(userId)
+
+    result.set(
+      userId,
+      Array.from(periods.entries()).map(([date, days]) => {
+        const dayLoads = days.map((d) => byDay?.get(d))
+        const total = dayLoads.reduce((sum, d) => sum + (d?.percent || 0), 0)
+        const peak = dayLoads.reduce((max, d) => Math.max(max, d?.percent || 0), 0)
+
+        // Each task once, at its allocation percentage
+        const tasks = new Map<string, ResourceLoadBucket['tasks'][number]>()
+        dayLoads.forEach((d) =>
+          d?.allocations.forEach((a) => {
+            if (tasks.has(a.task_id)) return
+            tasks.set(a.task_id, {
+              taskId: a.task_id,
+              title: a.task?.title || '',
+              projectName: a.task?.project?.name ?? null,
+              percent: a.allocation_percent,
+            })
+          })
+        )
+
+        return {
+          date,
+          load: Math.round(total / days.length),
+          peak,
+          isOverallocated: peak > FULL_ALLOCATION,
+          tasks: Array.from(tasks.values()),
+        }
+      })
+    )
+  })
+
+  return result
+}
+
+/**
+ * Average load and busiest day of one person over a date range
+ */
+export function summarizeResourceLoad(
+  allocations: ResourceAllocation[],
+  userId: string,
+  from: Date,
+  to: Date,
+  calendar: WorkingCalendar
+): { average: number; peak: number; overallocatedDays: number } {
+  const byDay = getDailyLoad(
+    allocations.filter((a) => a.user_id === userId),
+    from,
+    to,
+    calendar
+  ).get(userId)
+
+  let workingDays = 0
+  let total = 0
+  let peak = 0
+  let overallocatedDays = 0
+  const current = new Date(from.getFullYear(), from.getMonth(), from.getDate())
+  while (current <= to) {
+    if (isWorkingDay(current, calendar)) {
+      const percent = byDay?.get(toDateKey(current))?.percent || 0
+      workingDays++
+      total += percent
+      peak = Math.max(peak, percent)
+      if (percent > FULL_ALLOCATION) overallocatedDays++
+    }
+    current.setDate(current.getDate() + 1)
+  }
+
+  return {
+    average: workingDays > 0 ? Math.round(total / workingDays) : 0,
+    peak,
+    overallocatedDays,
+  }
+}
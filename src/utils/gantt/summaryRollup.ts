@@ -0,0 +1,186 @@
+import type { HierarchicalTask, HierarchicalTaskUpdate } from '@/types/hybrid'
+import { calculateDuration, parseDateKey, type WorkingCalendar } from './workingCalendar'
+
+/** Values a summary task derives from its children */
+export interface SummaryRollup {
+  start_date: string | null
+  end_date: string | null
+  planned_duration: number | null
+  percent_complete: number
+  estimated_hours: number | null
+  actual_hours: number | null
+}
+
+/** Roll-up of a subtree, with the working days its progress is weighted by */
+interface NodeRollup extends SummaryRollup {
+  weight: number
+}
+
+type RollupTask = Pick<
+  HierarchicalTask,
+  | 'id'
+  | 'parent_task_id'
+  | 'task_type'
+  | 'is_summary'
+  | 'status'
+  | 'start_date'
+  | 'end_date'
+  | 'planned_duration'
+  | 'percent_complete'
+  | 'estimated_hours'
+  | 'actual_hours'
+>
+
+const dateKey = (value: string | null) => (value ? value.split('T')[0] : null)
+
+const sameHours = (a: number | null, b: number | null) =>
+  a === null || b === null ? (a ?? null) === (b ?? null) : Number(a) === Number(b)
+
+const sumOrNull = (values: (number | null)[]) => {
+  const present = values.filter((v): v is number => v !== null && v !== undefined)
+  return present.length > 0 ? present.reduce((sum, v) => sum + Number(v), 0) : null
+}
+
+/**
+ * Whether a task takes its values from its children. Epics and features
+ * also have children (their stories) but keep their own dates and progress.
+ */
+export function isSummaryTask(task: Pick<RollupTask, 'task_type' | 'is_summary'>): boolean {
+  return !!task.is_summary || task.task_type === 'summary' || task.task_type === 'phase'
+}
+
+/**
+ * Derive dates, progress and hours of every summary or phase task that has
+ * children (see isSummaryTask)
+ *
+ * - Start/end: earliest child start and latest child finish
+ * - Percent complete: weighted by working-day duration (blocked children are
+ *   on hold and left out; milestones weigh nothing). Falls back to a plain
+ *   average when no child has a duration.
+ * - Estimated/actual hours: sum of the children
+ *
+ * Nested summaries roll up first, so grandchildren count through them.
+ */
+export function calculateSummaryRollup(
+  tasks: RollupTask[],
+  calendar: WorkingCalendar
+): Map<string, SummaryRollup> {
+  const childrenByParent = new Map<string, RollupTask[]>()
+  tasks.forEach((task) => {
+    if (!task.parent_task_id) return
+    childrenByParent.set(task.parent_task_id, [...(childrenByParent.get(task.parent_task_id) || []), task])
+  })
+
+  const result = new Map<string, SummaryRollup>()
+  const visiting = new Set<string>()
+
+  const rollUp = (task: RollupTask): NodeRollup => {
+    const children = childrenByParent.get(task.id) || []
+    const start = dateKey(task.start_date)
+    const end = dateKey(task.end_date) ?? start
+
+    if (children.length === 0 || visiting.has(task.id) || !isSummaryTask(task)) {
+      // Summaries below a task that keeps its own values still roll up
+      if (children.length > 0 && !visiting.has(task.id)) {
+        visiting.add(task.id)
+        children.forEach(rollUp)
+        visiting.delete(task.id)
+      }
+
+      const duration =
+        task.task_type === 'milestone'
+          ? 0
+          : start && end
+            ? calculateDuration(parseDateKey(start), parseDateKey(end), calendar)
+            : task.planned_duration || 0
+      return {
+        start_date: start,
+        end_date: end,
+        planned_duration: task.planned_duration,
+        percent_complete: task.percent_complete || 0,
+        estimated_hours: task.estimated_hours,
+        actual_hours: task.actual_hours,
+        weight: duration,
+      }
+    }
+
+    visiting.add(task.id)
+    const rolled = children.map((child) => ({ child, values: rollUp(child) }))
+    visiting.delete(task.id)
+
+    const starts = rolled.map((r) => r.values.start_date).filter((d): d is string => !!d).sort()
+    const ends = rolled.map((r) => r.values.end_date).filter((d): d is string => !!d).sort()
+    const startDate = starts[0] ?? null
+    const endDate = ends[ends.length - 1] ?? null
+
+    const active = rolled.filter((r) => r.child.status !== 'blocked')
+    const weight = active.reduce((sum, r) => sum + r.values.weight, 0)
+    const percent =
+      active.length === 0
+        ? task.percent_complete || 0
+        : weight > 0
+          ? active.reduce((sum, r) => sum + r.values.percent_complete * r.values.weight, 0) / weight
+          : active.reduce((sum, r) => sum + r.values.percent_complete, 0) / active.length
+
+    const rollup: SummaryRollup = {
+      start_date: startDate,
+      end_date: endDate,
+      planned_duration:
+        startDate && endDate
+          ? calculateDuration(parseDateKey(startDate), parseDateKey(endDate), calendar)
+          : task.planned_duration,
+      percent_complete: Math.round(percent),
+      estimated_hours: sumOrNull(rolled.map((r) => r.values.estimated_hours)),
+      actual_hours: sumOrNull(rolled.map((r) => r.values.actual_hours)),
+    }
+    result.set(task.id, rollup)
+
+    return { ...rollup, weight: rolled.reduce((sum, r) => sum + r.values.weight, 0) }
+  }
+
+  const taskIds = new Set(tasks.map((t) => t.id))
+  tasks.filter((t) => !t.parent_task_id || !taskIds.has(t.parent_task_id)).forEach(rollUp)
+
+  return result
+}
+
+/**
+ * Updates needed to bring stored summary rows in line with their children
+ * (only summaries whose values actually changed)
+ */
+export function getSummaryRollupUpdates(
+  tasks: RollupTask[],
+  calendar: WorkingCalendar
+): Array<{ id: string; updates: HierarchicalTaskUpdate }> {
+  const taskMap = new Map(tasks.map((t) => [t.id, t]))
+  const updates: Array<{ id: string; updates: HierarchicalTaskUpdate }> = []
+
+  calculateSummaryRollup(tasks, calendar).forEach((rollup, id) => {
+    const task = taskMap.get(id) as RollupTask
+    const changed: HierarchicalTaskUpdate = {}
+
+    // Keep typed dates when no child is scheduled yet
+    if (rollup.start_date && rollup.start_date !== dateKey(task.start_date)) {
+      changed.start_date = rollup.start_date
+    }
+    if (rollup.end_date && rollup.end_date !== dateKey(task.end_date)) {
+      changed.end_date = rollup.end_date
+    }
+    if (rollup.planned_duration !== task.planned_duration) {
+      changed.planned_duration = rollup.planned_duration
+    }
+    if (rollup.percent_complete !== (task.percent_complete || 0)) {
+      changed.percent_complete = rollup.percent_complete
+    }
+    if (!sameHours(rollup.estimated_hours, task.estimated_hours)) {
+      changed.estimated_hours = rollup.estimated_hours
+    }
+    if (!sameHours(rollup.actual_hours, task.actual_hours)) {
+      changed.actual_hours = rollup.actual_hours
+    }
+
+    if (Object.keys(changed).length > 0) updates.push({ id, updates: changed })
+  })
+
+  return updates
+}
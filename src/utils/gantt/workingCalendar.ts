@@ -0,0 +1,317 @@
+import type { ProjectCalendarException, ProjectConfiguration } from '@/types/hybrid'
+
+/**
+ * Working calendar used by scheduling (CPM, grid durations, Gantt bars)
+ *
+ * Durations are counted in working days: a 5-day task starting on a Friday
+ * ends on the following Thursday in a Monday–Friday week.
+ */
+export interface WorkingCalendar {
+  /** Weekdays that are worked (0 = Sunday ... 6 = Saturday) */
+  workingWeekdays: Set<number>
+  /** Observe Brazilian national holidays (generated per year on demand) */
+  nationalHolidays: boolean
+  /** Project non-working dates keyed by yyyy-mm-dd, with the holiday name */
+  holidays: Map<string, string>
+  /** Dates worked even though they fall on a non-working weekday */
+  workingExceptions: Set<string>
+  hoursPerDay: number
+}
+
+/** Safety limit when scanning for working days (about 10 years) */
+const MAX_SCAN_DAYS = 3660
+
+/**
+ * Format a date as yyyy-mm-dd in local time
+ */
+export function toDateKey(date: Date): string {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  const d = String(date.getDate()).padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+/**
+ * Parse a yyyy-mm-dd (or ISO timestamp) string as a local date
+ */
+export function parseDateKey(value: string): Date {
+  const [y, m, d] = value.split('T')[0].split('-').map(Number)
+  return new Date(y, m - 1, d)
+}
+
+/**
+ * Working weekdays from the project work week settings
+ * (e.g. 5 days starting Monday = Monday to Friday)
+ */
+export function getWorkingWeekdays(workingDaysPerWeek: number, weekStartDay: number): Set<number> {
+  const days = new Set<number>()
+  const count = Math.min(Math.max(workingDaysPerWeek, 1), 7)
+  for (let i = 0; i < count; i++) {
+    days.add((weekStartDay + i) % 7)
+  }
+  return days
+}
+
+/**
+ * Easter Sunday for a given year (anonymous Gregorian algorithm)
+ */
+function getEasterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Brazilian national holidays for a year, plus Carnival and Corpus Christi
+ * (optional days off that most companies observe)
+ */
+export function getBrazilianHolidays(year: number): { date: string; name: string }[] {
+  const easter = getEasterSunday(year)
+  const fromEaster = (offset: number) => {
+    const date = new Date(easter)
+    date.setDate(date.getDate() + offset)
+    return toDateKey(date)
+  }
+  const fixed = (month: number, day: number) => toDateKey(new Date(year, month - 1, day))
+
+  const holidays = [
+    { date: fixed(1, 1), name: 'Confraternização Universal' },
+    { date: fromEaster(-48), name: 'Carnaval' },
+    { date: fromEaster(-47), name: 'Carnaval' },
+    { date: fromEaster(-2), name: 'Sexta-feira Santa' },
+    { date: fixed(4, 21), name: 'Tiradentes' },
+    { date: fixed(5, 1), name: 'Dia do Trabalho' },
+    { date: fromEaster(60), name: 'Corpus Christi' },
+    { date: fixed(9, 7), name: 'Independência do Brasil' },
+    { date: fixed(10, 12), name: 'Nossa Senhora Aparecida' },
+    { date: fixed(11, 2), name: 'Finados' },
+    { date: fixed(11, 15), name: 'Proclamação da República' },
+    { date: fixed(12, 25), name: 'Natal' },
+  ]
+
+  // Dia Nacional de Zumbi e da Consciência Negra became a national holiday in 2024
+  if (year >= 2024) {
+    holidays.push({ date: fixed(11, 20), name: 'Consciência Negra' })
+  }
+
+  return holidays
+}
+
+const nationalHolidayCache = new Map<number, Map<string, string>>()
+
+/**
+ * National holidays of a year keyed by yyyy-mm-dd, built once per year
+ */
+function getNationalHolidays(year: number): Map<string, string> {
+  let holidays = nationalHolidayCache.get(year)
+  if (!holidays) {
+    holidays = new Map(getBrazilianHolidays(year).map(({ date, name }) => [date, name]))
+    nationalHolidayCache.set(year, holidays)
+  }
+  return holidays
+}
+
+/** Default calendar: Monday–Friday, 8h/day, no holidays */
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  workingWeekdays: getWorkingWeekdays(5, 1),
+  nationalHolidays: false,
+  holidays: new Map(),
+  workingExceptions: new Set(),
+  hoursPerDay: 8,
+}
+
+/**
+ * Build a working calendar from project configuration and calendar exceptions
+ *
+ * National holidays are looked up per year when the project opts in, so any
+ * date is covered; project exceptions override them either way.
+ */
+export function createWorkingCalendar(
+  config: Pick<
+    ProjectConfiguration,
+    'working_days_per_week' | 'hours_per_day' | 'week_start_day' | 'use_national_holidays'
+  > | null | undefined,
+  exceptions: Pick<ProjectCalendarException, 'exception_date' | 'name' | 'is_working'>[] = []
+): WorkingCalendar {
+  const workingWeekdays = getWorkingWeekdays(
+    config?.working_days_per_week ?? 5,
+    config?.week_start_day ?? 1
+  )
+  const holidays = new Map<string, string>()
+  const workingExceptions = new Set<string>()
+
+  exceptions.forEach((exception) => {
+    const key = exception.exception_date.split('T')[0]
+    if (exception.is_working) {
+      holidays.delete(key)
+      workingExceptions.add(key)
+    } else {
+      holidays.set(key, exception.name)
+      workingExceptions.delete(key)
+    }
+  })
+
+  return {
+    workingWeekdays,
+    nationalHolidays: config?.use_national_holidays ?? true,
+    holidays,
+    workingExceptions,
+    hoursPerDay: Number(config?.hours_per_day) || 8,
+  }
+}
+
+/**
+ * Check if a date is a working day in the calendar
+ */
+export function isWorkingDay(date: Date, calendar: WorkingCalendar): boolean {
+  const key = toDateKey(date)
+  if (calendar.workingExceptions.has(key)) return true
+  if (calendar.holidays.has(key)) return false
+  if (calendar.nationalHolidays && getNationalHolidays(date.getFullYear()).has(key)) return false
+  return calendar.workingWeekdays.has(date.getDay())
+}
+
+/**
+ * Name of the holiday on a date, if any
+ */
+export function getHolidayName(date: Date, calendar: WorkingCalendar): string | null {
+  const key = toDateKey(date)
+  if (calendar.workingExceptions.has(key)) return null
+  return (
+    calendar.holidays.get(key) ??
+    (calendar.nationalHolidays ? getNationalHolidays(date.getFullYear()).get(key) : undefined) ??
+    null
+  )
+}
+
+/**
+ * Non-working holidays (national and project) in a range of years, keyed by yyyy-mm-dd
+ */
+export function getCalendarHolidays(
+  calendar: WorkingCalendar,
+  fromYear: number,
+  toYear: number
+): Map<string, string> {
+  const result = new Map<string, string>()
+  if (calendar.nationalHolidays) {
+    for (let year = fromYear; year <= toYear; year++) {
+      getNationalHolidays(year).forEach((name, date) => result.set(date, name))
+    }
+  }
+  calendar.holidays.forEach((name, date) => {
+    const year = Number(date.slice(0, 4))
+    if (year >= fromYear && year <= toYear) result.set(date, name)
+  })
+  calendar.workingExceptions.forEach((date) => result.delete(date))
+  return result
+}
+
+/**
+ * First working day on or after (direction 1) / before (direction -1) a date
+ */
+export function snapToWorkingDay(date: Date, calendar: WorkingCalendar, direction: 1 | -1 = 1): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  for (let i = 0; i < MAX_SCAN_DAYS && !isWorkingDay(result, calendar); i++) {
+    result.setDate(result.getDate() + direction)
+  }
+  return result
+}
+
+/**
+ * Move a date by a number of working days (negative moves backwards)
+ *
+ * The start date is first snapped to a working day, so adding 0 returns
+ * the first working day on or after the date.
+ */
+export function addWorkingDays(date: Date, days: number, calendar: WorkingCalendar): Date {
+  const direction = days < 0 ? -1 : 1
+  const result = snapToWorkingDay(date, calendar, direction)
+  let remaining = Math.abs(Math.round(days))
+
+  for (let i = 0; remaining > 0 && i < MAX_SCAN_DAYS; i++) {
+    result.setDate(result.getDate() + direction)
+    if (isWorkingDay(result, calendar)) remaining--
+  }
+
+  return result
+}
+
+/**
+ * Number of working days in [start, end], both inclusive
+ */
+export function workingDaysBetween(start: Date, end: Date, calendar: WorkingCalendar): number {
+  if (end < start) return -workingDaysBetween(end, start, calendar)
+
+  const current = new Date(start.getFullYear(), start.getMonth(), start.getDate())
+  const last = new Date(end.getFullYear(), end.getMonth(), end.getDate())
+  let count = 0
+
+  for (let i = 0; current <= last && i < MAX_SCAN_DAYS; i++) {
+    if (isWorkingDay(current, calendar)) count++
+    current.setDate(current.getDate() + 1)
+  }
+
+  return count
+}
+
+/**
+ * Working-day offset of a date from a start date: the number of working days
+ * in [start, date), negative when the date is before the start
+ */
+export function workingDayOffset(start: Date, date: Date, calendar: WorkingCalendar): number {
+  const from = new Date(start.getFullYear(), start.getMonth(), start.getDate())
+  const to = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  if (to.getTime() === from.getTime()) return 0
+
+  const dayBefore = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate() - 1)
+  return to > from
+    ? workingDaysBetween(from, dayBefore(to), calendar)
+    : -workingDaysBetween(to, dayBefore(from), calendar)
+}
+
+/**
+ * End date (inclusive) of a task that starts on a date and lasts N working days
+ */
+export function calculateEndDate(start: Date, duration: number, calendar: WorkingCalendar): Date {
+  return addWorkingDays(start, Math.max(duration, 1) - 1, calendar)
+}
+
+/**
+ * Working-day duration of a task spanning [start, end] (at least 1)
+ */
+export function calculateDuration(start: Date, end: Date, calendar: WorkingCalendar): number {
+  return Math.max(workingDaysBetween(start, end, calendar), 1)
+}
+
+/**
+ * Non-working dates (weekends, holidays) inside a range, for shading
+ */
+export function getNonWorkingDays(
+  start: Date,
+  end: Date,
+  calendar: WorkingCalendar
+): { date: Date; holidayName: string | null }[] {
+  const result: { date: Date; holidayName: string | null }[] = []
+  const current = new Date(start.getFullYear(), start.getMonth(), start.getDate())
+
+  for (let i = 0; current <= end && i < MAX_SCAN_DAYS; i++) {
+    if (!isWorkingDay(current, calendar)) {
+      result.push({ date: new Date(current), holidayName: getHolidayName(current, calendar) })
+    }
+    current.setDate(current.getDate() + 1)
+  }
+
+  return result
+}
@@ -0,0 +1,206 @@
+import type { KanbanFilters, KanbanSwimlaneMode } from '@/types'
+import { getEpicColor, getRootEpic, type EpicRow } from '@/utils/epics'
+
+/**
+ * Kanban board filters and swimlanes. Filters live in the URL (so a board
+ * view can be shared as a link) and can be saved by name per user.
+ */
+
+export const DEFAULT_KANBAN_FILTERS: KanbanFilters = {
+  assignee: 'all',
+  priority: 'all',
+  labels: [],
+  text: '',
+  swimlanes: 'none',
+}
+
+export const UNASSIGNED_FILTER = 'unassigned'
+
+export const SWIMLANE_MODE_LABELS: Record<KanbanSwimlaneMode, string> = {
+  none: 'Sem raias',
+  assignee: 'Por responsável',
+  priority: 'Por prioridade',
+  epic: 'Por épico',
+  blocked: 'Bloqueio / dependência',
+}
+
+/** Highest priority first */
+export const KANBAN_PRIORITIES: Array<{ value: string; label: string; color: string }> = [
+  { value: 'urgent', label: 'Urgente', color: '#dc2626' },
+  { value: 'high', label: 'Alta', color: '#ef4444' },
+  { value: 'medium', label: 'Média', color: '#f59e0b' },
+  { value: 'low', label: 'Baixa', color: '#6b7280' },
+]
+
+export interface Swimlane {
+  id: string
+  label: string
+  color: string
+}
+
+export interface FilterableStory {
+  id: string
+  title: string
+  description?: string | null
+  status: string
+  priority: string
+  assigned_to?: string | null
+  labels?: string[] | null
+  parent_task_id?: string | null
+  assigned_to_profile?: { full_name: string } | null
+  profiles?: { full_name: string } | null
+}
+
+const SEARCH_PARAMS = {
+  assignee: 'responsavel',
+  priority: 'prioridade',
+  labels: 'etiquetas',
+  text: 'busca',
+  swimlanes: 'raias',
+} as const
+
+export function matchesKanbanFilters(story: FilterableStory, filters: KanbanFilters): boolean {
+  if (filters.assignee === UNASSIGNED_FILTER) {
+    if (story.assigned_to) return false
+  } else if (filters.assignee !== 'all' && story.assigned_to !== filters.assignee) {
+    return false
+  }
+  if (filters.priority !== 'all' && story.priority !== filters.priority) return false
+  if (filters.labels.length > 0 && !(story.labels || []).some((label) => filters.labels.includes(label))) return false
+
+  const text = filters.text.trim().toLowerCase()
+  if (text) {
+    const haystack = [story.title, story.description || '', ...(story.labels || [])].join(' ').toLowerCase()
+    if (!haystack.includes(text)) return false
+  }
+  return true
+}
+
+/** Filters narrowing the board (swimlanes only change the layout) */
+export function countActiveFilters(filters: KanbanFilters): number {
+  return (
+    (filters.assignee !== 'all' ? 1 : 0) +
+    (filters.priority !== 'all' ? 1 : 0) +
+    (filters.labels.length > 0 ? 1 : 0) +
+    (filters.text.trim() ? 1 : 0)
+  )
+}
+
+export function filtersFromSearchParams(params: URLSearchParams): KanbanFilters {
+  const swimlanes = params.get(SEARCH_PARAMS.swimlanes) as KanbanSwimlaneMode | null
+  return {
+    assignee: params.get(SEARCH_PARAMS.assignee) || DEFAULT_KANBAN_FILTERS.assignee,
+    priority: params.get(SEARCH_PARAMS.priority) || DEFAULT_KANBAN_FILTERS.priority,
+    labels: (params.get(SEARCH_PARAMS.labels) || '').split(',').filter(Boolean),
+    text: params.get(SEARCH_PARAMS.text) || '',
+    swimlanes: swimlanes && swimlanes in SWIMLANE_MODE_LABELS ? swimlanes : DEFAULT_KANBAN_FILTERS.swimlanes,
+  }
+}
+
+/** The params with the filters applied; defaults are left out so links stay short */
+export function filtersToSearchParams(filters: KanbanFilters, params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params)
+  const values: Record<keyof KanbanFilters, string> = {
+    assignee: filters.assignee === 'all' ? '' : filters.assignee,
+    priority: filters.priority === 'all' ? '' : filters.priority,
+    labels: filters.labels.join(','),
+    text: filters.text,
+    swimlanes: filters.swimlanes === 'none' ? '' : filters.swimlanes,
+  }
+  ;(Object.keys(SEARCH_PARAMS) as Array<keyof KanbanFilters>).forEach((key) => {
+    if (values[key]) next.set(SEARCH_PARAMS[key], values[key])
+    else next.delete(SEARCH_PARAMS[key])
+  })
+  return next
+}
+
+/** Saved filters may predate fields added later */
+export function normalizeKanbanFilters(stored: Partial<KanbanFilters> | null | undefined): KanbanFilters {
+  return { ...DEFAULT_KANBAN_FILTERS, ...(stored || {}), labels: stored?.labels || [] }
+}
+
+/**
+ * Swimlanes of the board and the lane of each story; null swimlanes for a
+ * flat board. Only lanes holding stories are returned.
+ */
+export function buildSwimlanes(
+  mode: KanbanSwimlaneMode,
+  stories: FilterableStory[],
+  {
+    epicsById,
+    hasPendingDependency,
+  }: { epicsById?: Map<string, EpicRow>; hasPendingDependency: (storyId: string) => boolean }
+): { swimlanes: Swimlane[] | null; laneOf: Map<string, string> } {
+  const laneOf = new Map<string, string>()
+  const lanes = new Map<string, Swimlane>()
+  const assign = (story: FilterableStory, lane: Swimlane) => {
+    laneOf.set(story.id, lane.id)
+    lanes.set(lane.id, lane)
+  }
+
+  switch (mode) {
+    case 'assignee':
+      stories.forEach((story) => {
+        const name = story.assigned_to_profile?.full_name || story.profiles?.full_name
+        assign(
+          story,
+          story.assigned_to
+            ? { id: story.assigned_to, label: name || 'Responsável desconhecido', color: '#6366f1' }
+            : { id: UNASSIGNED_FILTER, label: 'Sem responsável', color: '#94a3b8' }
+        )
+      })
+      return {
+        swimlanes: Array.from(lanes.values()).sort((a, b) =>
+          a.id === UNASSIGNED_FILTER ? 1 : b.id === UNASSIGNED_FILTER ? -1 : a.label.localeCompare(b.label)
+        ),
+        laneOf,
+      }
+
+    case 'priority': {
+      stories.forEach((story) => {
+        const priority = KANBAN_PRIORITIES.find((p) => p.value === story.priority)
+        assign(story, priority
+          ? { id: priority.value, label: priority.label, color: priority.color }
+          : { id: story.priority || 'none', label: story.priority || 'Sem prioridade', color: '#94a3b8' })
+      })
+      const order = KANBAN_PRIORITIES.map((p) => p.value)
+      const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length)
+      return { swimlanes: Array.from(lanes.values()).sort((a, b) => rank(a.id) - rank(b.id)), laneOf }
+    }
+
+    case 'epic': {
+      if (!epicsById) return { swimlanes: null, laneOf }
+      stories.forEach((story) => {
+        const epic = getRootEpic(story.parent_task_id, epicsById)
+        assign(story, epic
+          ? { id: epic.id, label: epic.title, color: getEpicColor(epic.id) }
+          : { id: 'no-epic', label: 'Sem épico', color: '#94a3b8' })
+      })
+      // Epic order, then stories outside any epic
+      const epicOrder = Array.from(epicsById.keys())
+      const rank = (id: string) => (epicOrder.includes(id) ? epicOrder.indexOf(id) : epicOrder.length)
+      return { swimlanes: Array.from(lanes.values()).sort((a, b) => rank(a.id) - rank(b.id)), laneOf }
+    }
+
+    case 'blocked': {
+      const order = ['blocked', 'waiting', 'free']
+      stories.forEach((story) => {
+        assign(
+          story,
+          story.status === 'blocked'
+            ? { id: 'blocked', label: 'Bloqueadas', color: '#ef4444' }
+            : story.status !== 'done' && hasPendingDependency(story.id)
+              ? { id: 'waiting', label: 'Aguardando dependência', color: '#f59e0b' }
+              : { id: 'free', label: 'Sem impedimentos', color: '#10b981' }
+        )
+      })
+      return {
+        swimlanes: Array.from(lanes.values()).sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id)),
+        laneOf,
+      }
+    }
+
+    default:
+      return { swimlanes: null, laneOf }
+  }
+}
@@ -0,0 +1,222 @@
+import type { TaskStatus, WipPolicy, WorkflowColumn, WorkflowTransition } from '@/types'
+import { isEpicLevel } from '@/utils/epics'
+
+/**
+ * Kanban workflows: per-project board columns mapped onto the base task
+ * statuses, with WIP limits and allowed transitions. Projects without a
+ * custom workflow use one column per status and allow any move.
+ */
+
+export interface BoardColumn {
+  /** workflow_columns id, or the status itself for default columns */
+  id: string
+  name: string
+  status: TaskStatus
+  color: string
+  wip_limit: number | null
+  wip_policy: WipPolicy
+  /**
+   * Default column added for a status the custom workflow does not map, so
+   * its tasks stay visible; shown only while it has tasks
+   */
+  implicit: boolean
+}
+
+export interface ResolvedWorkflow {
+  columns: BoardColumn[]
+  /** Allowed moves as "from>to" column ids; empty allows any move */
+  transitions: Set<string>
+  isCustom: boolean
+}
+
+export interface WorkflowTaskRow {
+  id: string
+  status: string
+  workflow_column_id?: string | null
+}
+
+/** Task fields that decide which tasks share a WIP limit */
+export interface WipScopeTaskRow extends WorkflowTaskRow {
+  project_id?: string | null
+  sprint_id?: string | null
+  task_type?: string | null
+}
+
+export interface MoveCheck {
+  allowed: boolean
+  /** Why the move is refused, or the WIP warning of an allowed move */
+  message?: string
+  /** Column the task lands in */
+  column: BoardColumn
+}
+
+export const TASK_STATUS_CONFIG: Record<TaskStatus, { label: string; color: string }> = {
+  todo: { label: 'A Fazer', color: '#6b7280' },
+  'in-progress': { label: 'Em Progresso', color: '#f59e0b' },
+  review: { label: 'Em Revisão', color: '#8b5cf6' },
+  done: { label: 'Concluído', color: '#10b981' },
+  blocked: { label: 'Bloqueado', color: '#ef4444' },
+}
+
+export const TASK_STATUSES = Object.keys(TASK_STATUS_CONFIG) as TaskStatus[]
+
+export const WIP_POLICY_LABELS: Record<WipPolicy, string> = {
+  warn: 'Avisar',
+  block: 'Bloquear',
+}
+
+const defaultColumn = (status: TaskStatus, implicit: boolean): BoardColumn => ({
+  id: status,
+  name: TASK_STATUS_CONFIG[status].label,
+  status,
+  color: TASK_STATUS_CONFIG[status].color,
+  wip_limit: null,
+  wip_policy: 'warn',
+  implicit,
+})
+
+export const transitionKey = (fromColumnId: string, toColumnId: string) => `${fromColumnId}>${toColumnId}`
+
+export const DEFAULT_WORKFLOW: ResolvedWorkflow = {
+  columns: TASK_STATUSES.map((status) => defaultColumn(status, false)),
+  transitions: new Set(),
+  isCustom: false,
+}
+
+export function buildWorkflow(columns: WorkflowColumn[], transitions: WorkflowTransition[]): ResolvedWorkflow {
+  if (columns.length === 0) return DEFAULT_WORKFLOW
+
+  const boardColumns: BoardColumn[] = [...columns]
+    .sort((a, b) => a.order_index - b.order_index)
+    .map((column) => ({
+      id: column.id,
+      name: column.name,
+      status: column.status,
+      color: column.color,
+      wip_limit: column.wip_limit,
+      wip_policy: column.wip_policy,
+      implicit: false,
+    }))
+  const mapped = new Set(boardColumns.map((column) => column.status))
+
+  return {
+    columns: [
+      ...boardColumns,
+      ...TASK_STATUSES.filter((status) => !mapped.has(status)).map((status) => defaultColumn(status, true)),
+    ],
+    transitions: new Set(transitions.map((t) => transitionKey(t.from_column_id, t.to_column_id))),
+    isCustom: true,
+  }
+}
+
+/** Column a task sits in: its own column while it matches the status, else the first one of the status */
+export function getTaskColumn(workflow: ResolvedWorkflow, task: Pick<WorkflowTaskRow, 'status' | 'workflow_column_id'>): BoardColumn {
+  const own = task.workflow_column_id
+    ? workflow.columns.find((column) => column.id === task.workflow_column_id && column.status === task.status)
+    : undefined
+  return (
+    own ||
+    workflow.columns.find((column) => column.status === task.status) ||
+    workflow.columns[0]
+  )
+}
+
+export function canTransition(workflow: ResolvedWorkflow, from: BoardColumn, to: BoardColumn): boolean {
+  if (from.id === to.id || workflow.transitions.size === 0) return true
+  // Moves into or out of columns the workflow does not define are free
+  if (from.implicit || to.implicit) return true
+  return workflow.transitions.has(transitionKey(from.id, to.id))
+}
+
+/** Tasks per column id */
+export function countByColumn(workflow: ResolvedWorkflow, tasks: WorkflowTaskRow[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  tasks.forEach((task) => {
+    const column = getTaskColumn(workflow, task)
+    counts.set(column.id, (counts.get(column.id) || 0) + 1)
+  })
+  return counts
+}
+
+export function isOverWip(column: BoardColumn, count: number): boolean {
+  return column.wip_limit !== null && count > column.wip_limit
+}
+
+/**
+ * Whether a task may move to a column: the transition must be allowed and,
+ * for blocking WIP limits, the column must have room. scope holds the tasks
+ * the WIP limit counts (see getWipScope).
+ */
+export function checkColumnMove(
+  workflow: ResolvedWorkflow,
+  task: WorkflowTaskRow,
+  target: BoardColumn,
+  scope: WorkflowTaskRow[]
+): MoveCheck {
+  const from = getTaskColumn(workflow, task)
+  if (from.id === target.id) return { allowed: true, column: target }
+
+  if (!canTransition(workflow, from, target)) {
+    return {
+      allowed: false,
+      message: `Transição não permitida: ${from.name} → ${target.name}`,
+      column: target,
+    }
+  }
+
+  if (target.wip_limit !== null) {
+    const count = scope.filter((t) => t.id !== task.id && getTaskColumn(workflow, t).id === target.id).length + 1
+    if (count > target.wip_limit) {
+      const message = `Limite WIP de "${target.name}" excedido (${count}/${target.wip_limit})`
+      return target.wip_policy === 'block'
+        ? { allowed: false, message, column: target }
+        : { allowed: true, message, column: target }
+    }
+  }
+
+  return { allowed: true, column: target }
+}
+
+/**
+ * Tasks a WIP limit counts for a task: the cards of its sprint (or of the
+ * project backlog when it has no sprint), as on the sprint board. Every view
+ * checks moves against this scope so a policy gives the same answer anywhere.
+ */
+export function getWipScope<T extends WipScopeTaskRow>(
+  task: Pick<WipScopeTaskRow, 'project_id' | 'sprint_id'>,
+  tasks: T[]
+): T[] {
+  return tasks.filter(
+    (t) =>
+      t.project_id === task.project_id &&
+      (t.sprint_id ?? null) === (task.sprint_id ?? null) &&
+      !isEpicLevel(t)
+  )
+}
+
+/**
+ * checkColumnMove for views that edit the status directly (grid, planner):
+ * the task stays in its column when the status does not change, and goes to
+ * the first column of the new status otherwise
+ */
+export function checkStatusChange(
+  workflow: ResolvedWorkflow,
+  task: WorkflowTaskRow,
+  status: TaskStatus,
+  scope: WorkflowTaskRow[]
+): MoveCheck {
+  const current = getTaskColumn(workflow, task)
+  const target =
+    current.status === status
+      ? current
+      : workflow.columns.find((column) => column.status === status) || defaultColumn(status, true)
+  return checkColumnMove(workflow, task, target, scope)
+}
+
+/** Task fields to write when a task lands in a column */
+export function getColumnUpdate(workflow: ResolvedWorkflow, column: BoardColumn) {
+  return {
+    status: column.status,
+    workflow_column_id: workflow.isCustom && !column.implicit ? column.id : null,
+  }
+}
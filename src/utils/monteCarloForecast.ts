@@ -0,0 +1,91 @@
+/**
+ * Monte Carlo delivery forecast
+ *
+ * Each trial draws past sprint velocities at random (with replacement) until
+ * the remaining points are burned; the spread of sprint counts over many
+ * trials gives the confidence levels.
+ */
+
+export const FORECAST_CONFIDENCE_LEVELS = [50, 85, 95] as const
+
+export type ForecastConfidence = (typeof FORECAST_CONFIDENCE_LEVELS)[number]
+
+export interface ForecastBucket {
+  sprints: number
+  /** Share of trials finishing in exactly this many sprints (0-1) */
+  probability: number
+  /** Share of trials finishing in this many sprints or fewer (0-1) */
+  cumulative: number
+}
+
+export interface MonteCarloForecast {
+  trials: number
+  /** Sprints needed at each confidence level */
+  sprintsAt: Record<ForecastConfidence, number>
+  distribution: ForecastBucket[]
+}
+
+interface MonteCarloOptions {
+  velocities: number[]
+  remainingPoints: number
+  trials?: number
+  /** Safety cap for a single trial */
+  maxSprints?: number
+  random?: () => number
+}
+
+const DEFAULT_TRIALS = 10000
+const DEFAULT_MAX_SPRINTS = 200
+
+/**
+ * Simulate how many sprints the remaining points take
+ * @returns null when there is no usable velocity history
+ */
+export function runMonteCarloForecast({
+  velocities,
+  remainingPoints,
+  trials = DEFAULT_TRIALS,
+  maxSprints = DEFAULT_MAX_SPRINTS,
+  random = Math.random,
+}: MonteCarloOptions): MonteCarloForecast | null {
+  if (velocities.length === 0 || Math.max(...velocities) <= 0) return null
+
+  const results: number[] = new Array(trials)
+  for (let t = 0; t < trials; t++) {
+    let done = 0
+    let sprints = 0
+    while (done < remainingPoints && sprints < maxSprints) {
+      done += velocities[Math.floor(random() * velocities.length)]
+      sprints++
+    }
+    results[t] = sprints
+  }
+  results.sort((a, b) => a - b)
+
+  const counts = new Map<number, number>()
+  results.forEach((sprints) => counts.set(sprints, (counts.get(sprints) || 0) + 1))
+
+  let cumulative = 0
+  const distribution = Array.from(counts.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([sprints, count]) => {
+      cumulative += count
+      return { sprints, probability: count / trials, cumulative: cumulative / trials }
+    })
+
+  const sprintsAt = {} as Record<ForecastConfidence, number>
+  FORECAST_CONFIDENCE_LEVELS.forEach((level) => {
+    sprintsAt[level] = results[Math.min(trials - 1, Math.ceil((level / 100) * trials) - 1)]
+  })
+
+  return { trials, sprintsAt, distribution }
+}
+
+/**
+ * Finish date of the n-th sprint from a start date (calendar days)
+ */
+export function getSprintFinishDate(nextStart: Date, sprintLengthDays: number, sprints: number): Date {
+  const date = new Date(nextStart)
+  date.setDate(date.getDate() + sprints * sprintLengthDays - 1)
+  return date
+}
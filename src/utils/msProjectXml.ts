@@ -0,0 +1,548 @@
+import type {
+  ConstraintType,
+  DependencyType,
+  HierarchicalTask,
+  TaskBaseline,
+  TaskDependency,
+  TaskPriority,
+  TaskStatus,
+} from '@/types/hybrid'
+import {
+  calculateDuration,
+  getCalendarHolidays,
+  parseDateKey,
+  toDateKey,
+  type WorkingCalendar,
+} from '@/utils/gantt/workingCalendar'
+
+/**
+ * Microsoft Project XML (MSPDI) import and export
+ *
+ * MSPDI is the XML format MS Project saves as "XML Format (*.xml)". Only what
+ * maps to the hybrid task model is read or written; everything else is listed
+ * in the report so nothing is dropped silently.
+ */
+
+const MSPDI_NAMESPACE = 'http://schemas.microsoft.com/project'
+
+/** MSPDI ConstraintType codes, in order */
+const CONSTRAINT_CODES: ConstraintType[] = ['asap', 'alap', 'mso', 'mfo', 'snet', 'snlt', 'fnet', 'fnlt']
+
+/** MSPDI PredecessorLink Type codes */
+const LINK_TYPE_CODES: Record<string, DependencyType> = { '0': 'FF', '1': 'FS', '2': 'SF', '3': 'SS' }
+const LINK_TYPE_TO_CODE: Record<DependencyType, number> = { FF: 0, FS: 1, SF: 2, SS: 3 }
+
+/** MSPDI priority (0-1000) used on export */
+const PRIORITY_TO_CODE: Record<TaskPriority, number> = { low: 300, medium: 500, high: 700, urgent: 900 }
+
+/** Lag formats counted in elapsed (calendar) time rather than working time */
+const ELAPSED_LAG_FORMATS = new Set(['4', '6', '8', '10', '12', '20', '36', '38', '40', '42', '44', '52'])
+
+/** Task read from an MSPDI file, already in hybrid terms */
+export interface MSProjectTask {
+  uid: string
+  outlineLevel: number
+  title: string
+  description: string
+  wbsCode: string | null
+  taskType: HierarchicalTask['task_type']
+  isSummary: boolean
+  status: TaskStatus
+  priority: TaskPriority
+  startDate: string | null
+  endDate: string | null
+  plannedDuration: number | null
+  percentComplete: number
+  constraintType: ConstraintType
+  constraintDate: string | null
+  estimatedHours: number | null
+  actualHours: number | null
+  baseline: {
+    startDate: string | null
+    endDate: string | null
+    duration: number | null
+    workHours: number | null
+    cost: number | null
+  } | null
+}
+
+/** Dependency between two MSPDI task UIDs */
+export interface MSProjectLink {
+  predecessorUid: string
+  successorUid: string
+  type: DependencyType
+  lagDays: number
+}
+
+export interface MSProjectImport {
+  projectName: string
+  /** Tasks in file order (parents before their children) */
+  tasks: MSProjectTask[]
+  links: MSProjectLink[]
+  hasBaseline: boolean
+  /** Things in the file that could not be mapped */
+  warnings: string[]
+}
+
+interface MSProjectExportOptions {
+  projectName: string
+  tasks: HierarchicalTask[]
+  dependencies: TaskDependency[]
+  calendar: WorkingCalendar
+  /** Baseline written as MS Project "Baseline" (number 0) */
+  baselineTasks?: TaskBaseline[]
+}
+
+// ─── Import ────────────────────────────────────────────────────────────────────
+
+const childText = (element: Element, name: string): string | null => {
+  for (const child of Array.from(element.children)) {
+    if (child.localName === name) return child.textContent?.trim() ?? null
+  }
+  return null
+}
+
+const childElements = (element: Element, name: string): Element[] =>
+  Array.from(element.children).filter((child) => child.localName === name)
+
+const flag = (element: Element, name: string) => childText(element, name) === '1'
+
+/** MSPDI datetime (2030-01-07T08:00:00) -> yyyy-mm-dd */
+const xmlDate = (value: string | null) => (value ? value.split('T')[0] : null)
+
+/** MSPDI duration (PT24H0M0S) -> hours */
+function durationToHours(value: string | null): number | null {
+  if (!value) return null
+  const match = value.match(/^-?P(?:(\d+(?:\.\d+)?)D)?T?(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?$/)
+  if (!match) return null
+  const [, days, hours, minutes, seconds] = match.map((v) => Number(v) || 0)
+  return days * 24 + hours + minutes / 60 + seconds / 3600
+}
+
+/** MSPDI priority (0-1000, 500 = medium) */
+function priorityFromCode(value: string | null): TaskPriority {
+  const code = Number(value ?? 500)
+  if (code >= 800) return 'urgent'
+  if (code >= 600) return 'high'
+  if (code >= 400) return 'medium'
+  return 'low'
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Parse an MSPDI document into tasks, links and baseline data
+ *
+ * Throws when the text isn't an MS Project XML file.
+ */
+export function parseMSProjectXML(xml: string, calendar: WorkingCalendar): MSProjectImport {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const root = doc.documentElement
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'Project') {
+    throw new Error('Arquivo não é um XML do MS Project (MSPDI)')
+  }
+
+  const warnings: string[] = []
+  const minutesPerDay = Number(childText(root, 'MinutesPerDay')) || calendar.hoursPerDay * 60
+  const hoursPerDay = minutesPerDay / 60
+  const projectName = childText(root, 'Title') || childText(root, 'Name') || 'Projeto importado'
+
+  const tasksElement = childElements(root, 'Tasks')[0]
+  const taskElements = tasksElement ? childElements(tasksElement, 'Task') : []
+
+  const tasks: MSProjectTask[] = []
+  const links: MSProjectLink[] = []
+  const linkElements: { successorUid: string; element: Element }[] = []
+  let skippedNull = 0
+  let hasBaseline = false
+  let elapsedLags = 0
+  let deadlines = 0
+  let recurring = 0
+  let external = 0
+
+  taskElements.forEach((element) => {
+    const uid = childText(element, 'UID')
+    const outlineLevel = Number(childText(element, 'OutlineLevel') ?? 1)
+
+    // UID 0 / outline level 0 is the project summary task
+    if (!uid || outlineLevel === 0 || uid === '0') return
+    if (flag(element, 'IsNull')) {
+      skippedNull++
+      return
+    }
+    if (flag(element, 'ExternalTask')) {
+      external++
+      return
+    }
+    if (flag(element, 'Recurring')) recurring++
+    if (childText(element, 'Deadline')) deadlines++
+
+    const isSummary = flag(element, 'Summary')
+    const isMilestone = flag(element, 'Milestone')
+    const percentComplete = Math.min(Math.max(Number(childText(element, 'PercentComplete')) || 0, 0), 100)
+    const startDate = xmlDate(childText(element, 'Start'))
+    const endDate = isMilestone ? startDate : xmlDate(childText(element, 'Finish'))
+    const durationHours = durationToHours(childText(element, 'Duration'))
+
+    const constraintCode = Number(childText(element, 'ConstraintType') ?? 0)
+    const constraintType = CONSTRAINT_CODES[constraintCode] ?? 'asap'
+    const workHours = durationToHours(childText(element, 'Work'))
+    const actualWorkHours = durationToHours(childText(element, 'ActualWork'))
+
+    const baselineElement = childElements(element, 'Baseline').find(
+      (b) => (childText(b, 'Number') ?? '0') === '0'
+    )
+    let baseline: MSProjectTask['baseline'] = null
+    if (baselineElement) {
+      const baselineHours = durationToHours(childText(baselineElement, 'Duration'))
+      const baselineWork = durationToHours(childText(baselineElement, 'Work'))
+      const baselineCost = childText(baselineElement, 'Cost')
+      baseline = {
+        startDate: xmlDate(childText(baselineElement, 'Start')),
+        endDate: xmlDate(childText(baselineElement, 'Finish')),
+        duration: baselineHours === null ? null : Math.round(baselineHours / hoursPerDay),
+        workHours: baselineWork === null ? null : round(baselineWork),
+        // MSPDI costs are stored in cents
+        cost: baselineCost ? round(Number(baselineCost) / 100) : null,
+      }
+      hasBaseline = hasBaseline || !!(baseline.startDate || baseline.endDate)
+    }
+
+    tasks.push({
+      uid,
+      outlineLevel,
+      title: childText(element, 'Name') || 'Sem nome',
+      description: childText(element, 'Notes') || '',
+      wbsCode: childText(element, 'WBS') || childText(element, 'OutlineNumber'),
+      taskType: isMilestone ? 'milestone' : isSummary ? 'summary' : 'task',
+      isSummary,
+      status: percentComplete >= 100 ? 'done' : percentComplete > 0 ? 'in-progress' : 'todo',
+      priority: priorityFromCode(childText(element, 'Priority')),
+      startDate,
+      endDate,
+      plannedDuration: isMilestone
+        ? 0
+        : startDate && endDate
+          ? calculateDuration(parseDateKey(startDate), parseDateKey(endDate), calendar)
+          : durationHours === null
+            ? null
+            : Math.round(durationHours / hoursPerDay),
+      percentComplete,
+      constraintType,
+      constraintDate: ['asap', 'alap'].includes(constraintType)
+        ? null
+        : xmlDate(childText(element, 'ConstraintDate')),
+      estimatedHours: workHours ? round(workHours) : null,
+      actualHours: actualWorkHours ? round(actualWorkHours) : null,
+      baseline,
+    })
+
+    childElements(element, 'PredecessorLink').forEach((link) => {
+      linkElements.push({ successorUid: uid, element: link })
+    })
+  })
+
+  const taskUids = new Set(tasks.map((t) => t.uid))
+  let missingLinks = 0
+
+  linkElements.forEach(({ successorUid, element }) => {
+    const predecessorUid = childText(element, 'PredecessorUID')
+    if (!predecessorUid || !taskUids.has(predecessorUid)) {
+      missingLinks++
+      return
+    }
+
+    // LinkLag is in tenths of a minute
+    const lagFormat = childText(element, 'LagFormat') ?? '7'
+    const lagMinutes = (Number(childText(element, 'LinkLag')) || 0) / 10
+    const isElapsed = ELAPSED_LAG_FORMATS.has(lagFormat)
+    if (isElapsed && lagMinutes !== 0) elapsedLags++
+
+    links.push({
+      predecessorUid,
+      successorUid,
+      type: LINK_TYPE_CODES[childText(element, 'Type') ?? '1'] ?? 'FS',
+      lagDays: Math.round(lagMinutes / (isElapsed ? 1440 : minutesPerDay)),
+    })
+  })
+
+  if (skippedNull > 0) warnings.push(`${skippedNull} linha(s) em branco ignorada(s)`)
+  if (external > 0) warnings.push(`${external} tarefa(s) externa(s) de outros projetos não importada(s)`)
+  if (missingLinks > 0) warnings.push(`${missingLinks} vínculo(s) com tarefas fora do arquivo não importado(s)`)
+  if (elapsedLags > 0) {
+    warnings.push(`${elapsedLags} atraso(s) em dias corridos convertido(s) para dias úteis`)
+  }
+  if (deadlines > 0) warnings.push(`${deadlines} data(s) limite (Deadline) não importada(s)`)
+  if (recurring > 0) warnings.push(`${recurring} tarefa(s) recorrente(s) importada(s) como tarefas simples`)
+
+  const resources = childElements(childElements(root, 'Resources')[0] ?? root, 'Resource').filter(
+    (r) => childText(r, 'UID') !== '0' && !flag(r, 'IsNull')
+  )
+  if (resources.length > 0) {
+    warnings.push(
+      `${resources.length} recurso(s) e suas atribuições não importados; atribua os responsáveis no projeto`
+    )
+  }
+  if (childElements(root, 'Calendars')[0]?.children.length) {
+    warnings.push('Calendários do arquivo não importados; o calendário de trabalho do projeto é usado')
+  }
+
+  return { projectName, tasks, links, hasBaseline, warnings }
+}
+
+// ─── Export ────────────────────────────────────────────────────────────────────
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+const element = (name: string, value: string | number | null | undefined) =>
+  value === null || value === undefined || value === '' ? '' : `<${name}>${escapeXml(String(value))}</${name}>`
+
+const hoursToDuration = (hours: number) => {
+  const whole = Math.floor(hours)
+  const minutes = Math.round((hours - whole) * 60)
+  return `PT${whole}H${minutes}M0S`
+}
+
+/**
+ * Tasks in outline order (depth-first by order_index), with their depth
+ */
+function outlineOrder(tasks: HierarchicalTask[]): { task: HierarchicalTask; level: number; outline: string }[] {
+  const byParent = new Map<string | null, HierarchicalTask[]>()
+  const ids = new Set(tasks.map((t) => t.id))
+  tasks.forEach((task) => {
+    const parent = task.parent_task_id && ids.has(task.parent_task_id) ? task.parent_task_id : null
+    byParent.set(parent, [...(byParent.get(parent) || []), task])
+  })
+
+  const result: { task: HierarchicalTask; level: number; outline: string }[] = []
+  const visited = new Set<string>()
+  const visit = (parentId: string | null, level: number, prefix: string) => {
+    const children = (byParent.get(parentId) || []).sort((a, b) => a.order_index - b.order_index)
+    children.forEach((task, index) => {
+      if (visited.has(task.id)) return
+      visited.add(task.id)
+      const outline = prefix ? `${prefix}.${index + 1}` : String(index + 1)
+      result.push({ task, level, outline })
+      visit(task.id, level + 1, outline)
+    })
+  }
+  visit(null, 1, '')
+  return result
+}
+
+/**
+ * Build an MSPDI document from the project's tasks, links and baseline
+ *
+ * Returns the XML and a report of what has no MS Project equivalent.
+ */
+export function buildMSProjectXML({
+  projectName,
+  tasks,
+  dependencies,
+  calendar,
+  baselineTasks = [],
+}: MSProjectExportOptions): { xml: string; warnings: string[] } {
+  const warnings: string[] = []
+  const hoursPerDay = calendar.hoursPerDay
+  // Work starts at 08:00 with a one-hour lunch break on full days; a day
+  // longer than the clock allows finishes at 23:59
+  const finishMinutes = Math.min(
+    Math.round(8 * 60 + hoursPerDay * 60 + (hoursPerDay >= 8 ? 60 : 0)),
+    23 * 60 + 59
+  )
+  const finishTime = `T${String(Math.floor(finishMinutes / 60)).padStart(2, '0')}:${String(finishMinutes % 60).padStart(
+    2,
+    '0'
+  )}:00`
+  const ordered = outlineOrder(tasks)
+  const uidByTask = new Map(ordered.map((entry, index) => [entry.task.id, index + 1]))
+  const baselineByTask = new Map(baselineTasks.map((b) => [b.task_id, b]))
+
+  const datedStarts = tasks.map((t) => t.start_date).filter((d): d is string => !!d).sort()
+  const projectStart = datedStarts[0]?.split('T')[0] ?? toDateKey(new Date())
+
+  // Resources from assignees (one assignment per task at 100%)
+  const resources = new Map<string, { uid: number; name: string }>()
+  tasks.forEach((task) => {
+    if (task.assigned_to && !resources.has(task.assigned_to)) {
+      resources.set(task.assigned_to, {
+        uid: resources.size + 1,
+        name: task.assigned_to_profile?.full_name || 'Responsável',
+      })
+    }
+  })
+
+  const predecessorsByTask = new Map<string, TaskDependency[]>()
+  let externalLinks = 0
+  dependencies.forEach((dep) => {
+    if (!uidByTask.has(dep.predecessor_id) || !uidByTask.has(dep.successor_id)) {
+      externalLinks++
+      return
+    }
+    predecessorsByTask.set(dep.successor_id, [...(predecessorsByTask.get(dep.successor_id) || []), dep])
+  })
+
+  let undated = 0
+  let blocked = 0
+  let inReview = 0
+  let withStoryPoints = 0
+  let inSprint = 0
+
+  const taskXml = ordered.map(({ task, level, outline }) => {
+    const uid = uidByTask.get(task.id) as number
+    const isMilestone = task.task_type === 'milestone'
+    const start = task.start_date?.split('T')[0] ?? null
+    const end = (isMilestone ? start : task.end_date?.split('T')[0]) ?? start
+    if (!start) undated++
+    if (task.status === 'blocked') blocked++
+    if (task.status === 'review') inReview++
+    if (task.story_points) withStoryPoints++
+    if (task.sprint_id) inSprint++
+
+    const startKey = start ?? projectStart
+    const endKey = end ?? startKey
+    const durationDays = isMilestone
+      ? 0
+      : calculateDuration(parseDateKey(startKey), parseDateKey(endKey), calendar)
+    const percent = task.status === 'done' ? 100 : task.percent_complete || 0
+
+    const links = (predecessorsByTask.get(task.id) || [])
+      .map(
+        (dep) =>
+          `<PredecessorLink>${element('PredecessorUID', uidByTask.get(dep.predecessor_id))}${element(
+            'Type',
+            LINK_TYPE_TO_CODE[dep.dependency_type]
+          )}${element('CrossProject', 0)}${element('LinkLag', (dep.lag_days || 0) * hoursPerDay * 60 * 10)}${element(
+            'LagFormat',
+            7
+          )}</PredecessorLink>`
+      )
+      .join('')
+
+    const baseline = baselineByTask.get(task.id)
+    const baselineXml =
+      baseline && (baseline.planned_start_date || baseline.planned_end_date)
+        ? `<Baseline>${element('Number', 0)}${element(
+            'Start',
+            baseline.planned_start_date ? `${baseline.planned_start_date.split('T')[0]}T08:00:00` : null
+          )}${element(
+            'Finish',
+            baseline.planned_end_date ? `${baseline.planned_end_date.split('T')[0]}${finishTime}` : null
+          )}${element(
+            'Duration',
+            baseline.planned_duration !== null ? hoursToDuration(baseline.planned_duration * hoursPerDay) : null
+          )}${element(
+            'Work',
+            baseline.planned_work_hours !== null ? hoursToDuration(Number(baseline.planned_work_hours)) : null
+          )}${element(
+            'Cost',
+            baseline.planned_cost !== null ? Math.round(Number(baseline.planned_cost) * 100) : null
+          )}</Baseline>`
+        : ''
+
+    const constraintCode = CONSTRAINT_CODES.indexOf(task.constraint_type || 'asap')
+
+    // MS Project rejects elements out of schema order
+    return [
+      '<Task>',
+      element('UID', uid),
+      element('ID', uid),
+      element('Name', task.title),
+      element('Type', 1),
+      element('IsNull', 0),
+      element('WBS', task.wbs_code || outline),
+      element('OutlineNumber', outline),
+      element('OutlineLevel', level),
+      element('Priority', PRIORITY_TO_CODE[task.priority] ?? 500),
+      element('Start', `${startKey}T08:00:00`),
+      element('Finish', `${endKey}${isMilestone ? 'T08:00:00' : finishTime}`),
+      element('Duration', hoursToDuration(durationDays * hoursPerDay)),
+      element('DurationFormat', 7),
+      element('Work', task.estimated_hours !== null ? hoursToDuration(Number(task.estimated_hours)) : null),
+      element('Milestone', isMilestone ? 1 : 0),
+      element('Summary', task.is_summary ? 1 : 0),
+      element('Critical', task.is_critical ? 1 : 0),
+      element('PercentComplete', percent),
+      element('ActualWork', task.actual_hours !== null ? hoursToDuration(Number(task.actual_hours)) : null),
+      element('ConstraintType', Math.max(constraintCode, 0)),
+      element('ConstraintDate', task.constraint_date ? `${task.constraint_date.split('T')[0]}T08:00:00` : null),
+      element('Notes', task.description),
+      links,
+      baselineXml,
+      '</Task>',
+    ].join('')
+  })
+
+  // Working week for the standard calendar (1 = Sunday in MSPDI)
+  const weekDays = Array.from({ length: 7 }, (_, day) =>
+    `<WeekDay>${element('DayType', day + 1)}${element('DayWorking', calendar.workingWeekdays.has(day) ? 1 : 0)}</WeekDay>`
+  ).join('')
+  const datedEnds = tasks.map((t) => t.end_date).filter((d): d is string => !!d).sort()
+  const firstYear = Number(projectStart.slice(0, 4))
+  const lastYear = Math.max(firstYear, Number((datedEnds[datedEnds.length - 1] ?? projectStart).slice(0, 4)))
+  const holidays = Array.from(getCalendarHolidays(calendar, firstYear, lastYear).keys())
+    .sort()
+    .map(
+      (date) =>
+        `<WeekDay>${element('DayType', 0)}${element('DayWorking', 0)}<TimePeriod>${element(
+          'FromDate',
+          `${date}T00:00:00`
+        )}${element('ToDate', `${date}T23:59:00`)}</TimePeriod></WeekDay>`
+    )
+    .join('')
+
+  const resourceXml = Array.from(resources.values())
+    .map((r) => `<Resource>${element('UID', r.uid)}${element('ID', r.uid)}${element('Name', r.name)}${element('Type', 1)}</Resource>`)
+    .join('')
+  let assignmentUid = 0
+  const assignmentXml = ordered
+    .filter(({ task }) => task.assigned_to && !task.is_summary)
+    .map(({ task }) => {
+      assignmentUid++
+      return `<Assignment>${element('UID', assignmentUid)}${element('TaskUID', uidByTask.get(task.id))}${element(
+        'ResourceUID',
+        resources.get(task.assigned_to as string)?.uid
+      )}${element('Units', 1)}</Assignment>`
+    })
+    .join('')
+
+  if (undated > 0) warnings.push(`${undated} tarefa(s) sem datas exportada(s) no início do projeto`)
+  if (blocked > 0) warnings.push(`${blocked} tarefa(s) bloqueada(s): o MS Project não tem status de bloqueio`)
+  if (inReview > 0) warnings.push(`${inReview} tarefa(s) em revisão exportada(s) apenas com o % concluído`)
+  if (withStoryPoints > 0) warnings.push(`Pontos de história de ${withStoryPoints} tarefa(s) não exportados`)
+  if (inSprint > 0) warnings.push(`Vínculo com sprints de ${inSprint} tarefa(s) não exportado`)
+  if (externalLinks > 0) warnings.push(`${externalLinks} vínculo(s) com tarefas de outros projetos não exportado(s)`)
+  if (calendar.workingExceptions.size > 0) {
+    warnings.push(`${calendar.workingExceptions.size} dia(s) útil(eis) extra(s) do calendário não exportado(s)`)
+  }
+
+  // Header elements in schema order, like the task records
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<Project xmlns="${MSPDI_NAMESPACE}">`,
+    element('Name', `${projectName}.xml`),
+    element('Title', projectName),
+    element('ScheduleFromStart', 1),
+    element('StartDate', `${projectStart}T08:00:00`),
+    element('CalendarUID', 1),
+    element('MinutesPerDay', Math.round(hoursPerDay * 60)),
+    element('MinutesPerWeek', Math.round(hoursPerDay * 60 * calendar.workingWeekdays.size)),
+    element('DaysPerMonth', 20),
+    `<Calendars><Calendar>${element('UID', 1)}${element('Name', 'Padrão')}${element(
+      'IsBaseCalendar',
+      1
+    )}<WeekDays>${weekDays}${holidays}</WeekDays></Calendar></Calendars>`,
+    `<Tasks>${taskXml.join('')}</Tasks>`,
+    `<Resources>${resourceXml}</Resources>`,
+    `<Assignments>${assignmentXml}</Assignments>`,
+    '</Project>',
+  ].join('\n')
+
+  return { xml, warnings }
+}
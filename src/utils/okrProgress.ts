@@ -0,0 +1,217 @@
+import type { KeyResult, KeyResultLink, ObjectiveStatus, StrategicObjective, TaskType } from '@/types'
+import { isEpicLevel } from '@/utils/epics'
+import { parseDateKey, toDateKey } from '@/utils/gantt/workingCalendar'
+
+/**
+ * OKR progress: key results measured from the work linked to them (whole
+ * projects or tasks with everything below them) and rolled up to objectives
+ */
+
+/** Progress below the time-elapsed expectation by more than this is "behind" */
+export const OKR_BEHIND_MARGIN = 0.15
+
+export const OBJECTIVE_STATUS_CONFIG: Record<ObjectiveStatus, { label: string; color: string }> = {
+  active: { label: 'Em andamento', color: '#6366f1' },
+  achieved: { label: 'Atingido', color: '#10b981' },
+  cancelled: { label: 'Cancelado', color: '#94a3b8' },
+}
+
+export const KEY_RESULT_MEASURE_LABELS: Record<KeyResult['measure'], string> = {
+  points: 'Story points concluídos',
+  items: 'Itens concluídos',
+  manual: 'Valor manual',
+}
+
+export interface OkrTaskRow {
+  id: string
+  project_id: string | null
+  parent_task_id: string | null
+  task_type: TaskType | null
+  is_summary: boolean | null
+  status: string
+  story_points: number | null
+}
+
+export interface KeyResultProgress {
+  /** 0..1 */
+  progress: number
+  current: number
+  target: number
+  unit: string
+  /** Countable work items reached through the links */
+  itemCount: number
+  doneCount: number
+}
+
+export interface KeyResultWithProgress extends KeyResult {
+  links: KeyResultLink[]
+  result: KeyResultProgress
+}
+
+export interface ObjectiveWithProgress extends StrategicObjective {
+  keyResults: KeyResultWithProgress[]
+  /** Average of the key results, null when the objective has none */
+  progress: number | null
+  /** Share of the objective's period already elapsed, null without dates */
+  expectedProgress: number | null
+  behind: boolean
+  /** Projects contributing to the objective, directly or through tasks */
+  projectIds: string[]
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+/**
+ * Work items reached by a set of links, without duplicates. Linked projects
+ * contribute all their tasks, linked tasks themselves and their descendants.
+ * Only leaf work counts: summaries, phases and milestones are containers or
+ * markers, and counting them would double the work below them.
+ */
+export function collectLinkedWork(
+  links: Pick<KeyResultLink, 'project_id' | 'task_id'>[],
+  tasks: OkrTaskRow[]
+): OkrTaskRow[] {
+  const byId = new Map(tasks.map((t) => [t.id, t]))
+  const children = new Map<string, string[]>()
+  tasks.forEach((task) => {
+    if (!task.parent_task_id) return
+    children.set(task.parent_task_id, [...(children.get(task.parent_task_id) || []), task.id])
+  })
+
+  const reached = new Set<string>()
+  const visit = (taskId: string) => {
+    if (reached.has(taskId) || !byId.has(taskId)) return
+    reached.add(taskId)
+    ;(children.get(taskId) || []).forEach(visit)
+  }
+
+  links.forEach((link) => {
+    if (link.task_id) visit(link.task_id)
+    if (link.project_id) tasks.filter((t) => t.project_id === link.project_id).forEach((t) => visit(t.id))
+  })
+
+  return Array.from(reached)
+    .map((id) => byId.get(id) as OkrTaskRow)
+    .filter(
+      (task) =>
+        !children.has(task.id) &&
+        !task.is_summary &&
+        task.task_type !== 'summary' &&
+        task.task_type !== 'phase' &&
+        task.task_type !== 'milestone' &&
+        !isEpicLevel(task)
+    )
+}
+
+/**
+ * Progress of a key result. Points measures fall back to item counts while
+ * the linked work has no estimates.
+ */
+export function computeKeyResultProgress(
+  keyResult: Pick<KeyResult, 'measure' | 'start_value' | 'target_value' | 'current_value' | 'unit'>,
+  work: OkrTaskRow[]
+): KeyResultProgress {
+  const done = work.filter((t) => t.status === 'done')
+
+  if (keyResult.measure === 'manual') {
+    const start = Number(keyResult.start_value) || 0
+    const target = Number(keyResult.target_value) || 0
+    const current = Number(keyResult.current_value) || 0
+    return {
+      progress: target === start ? (current >= target ? 1 : 0) : clamp((current - start) / (target - start)),
+      current,
+      target,
+      unit: keyResult.unit || '',
+      itemCount: work.length,
+      doneCount: done.length,
+    }
+  }
+
+  const totalPoints = work.reduce((sum, t) => sum + (t.story_points || 0), 0)
+  if (keyResult.measure === 'points' && totalPoints > 0) {
+    const donePoints = done.reduce((sum, t) => sum + (t.story_points || 0), 0)
+    return {
+      progress: clamp(donePoints / totalPoints),
+      current: donePoints,
+      target: totalPoints,
+      unit: 'pts',
+      itemCount: work.length,
+      doneCount: done.length,
+    }
+  }
+
+  return {
+    progress: work.length > 0 ? done.length / work.length : 0,
+    current: done.length,
+    target: work.length,
+    unit: 'itens',
+    itemCount: work.length,
+    doneCount: done.length,
+  }
+}
+
+/** Share of [start, end] elapsed at `today`, null when the period is incomplete */
+export function getExpectedProgress(start: string | null, end: string | null, today: Date): number | null {
+  if (!start || !end) return null
+  const from = parseDateKey(start.split('T')[0]).getTime()
+  const to = parseDateKey(end.split('T')[0]).getTime()
+  const now = parseDateKey(toDateKey(today)).getTime()
+  if (to <= from) return now >= to ? 1 : 0
+  return clamp((now - from) / (to - from))
+}
+
+/**
+ * Attach key results, links and computed progress to each objective
+ */
+export function buildObjectives({
+  objectives,
+  keyResults,
+  links,
+  tasks,
+  today = new Date(),
+}: {
+  objectives: StrategicObjective[]
+  keyResults: KeyResult[]
+  links: KeyResultLink[]
+  tasks: OkrTaskRow[]
+  today?: Date
+}): ObjectiveWithProgress[] {
+  const taskProject = new Map(tasks.map((t) => [t.id, t.project_id]))
+
+  return objectives.map((objective) => {
+    const objectiveKeyResults = keyResults
+      .filter((kr) => kr.objective_id === objective.id)
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((kr) => {
+        const krLinks = links.filter((link) => link.key_result_id === kr.id)
+        return { ...kr, links: krLinks, result: computeKeyResultProgress(kr, collectLinkedWork(krLinks, tasks)) }
+      })
+
+    const progress =
+      objectiveKeyResults.length > 0
+        ? objectiveKeyResults.reduce((sum, kr) => sum + kr.result.progress, 0) / objectiveKeyResults.length
+        : null
+    const expectedProgress = getExpectedProgress(objective.start_date, objective.end_date, today)
+
+    const projectIds = new Set<string>()
+    objectiveKeyResults.forEach((kr) =>
+      kr.links.forEach((link) => {
+        const projectId = link.project_id || (link.task_id ? taskProject.get(link.task_id) : null)
+        if (projectId) projectIds.add(projectId)
+      })
+    )
+
+    return {
+      ...objective,
+      keyResults: objectiveKeyResults,
+      progress,
+      expectedProgress,
+      behind:
+        objective.status === 'active' &&
+        progress !== null &&
+        expectedProgress !== null &&
+        progress < expectedProgress - OKR_BEHIND_MARGIN,
+      projectIds: Array.from(projectIds),
+    }
+  })
+}
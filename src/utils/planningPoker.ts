@@ -0,0 +1,124 @@
+import type { PlanningPokerDeck } from '@/types'
+
+/**
+ * Planning poker decks. Cards are ordered from smallest to largest; "?"
+ * (no idea) and "☕" (need a break) don't count towards the estimate.
+ */
+
+export interface PokerCard {
+  value: string
+  /** Story points written to the task when this card is agreed */
+  points: number | null
+}
+
+export const POKER_DECKS: Record<PlanningPokerDeck, { label: string; cards: PokerCard[] }> = {
+  fibonacci: {
+    label: 'Fibonacci',
+    cards: [
+      { value: '0', points: 0 },
+      { value: '1', points: 1 },
+      { value: '2', points: 2 },
+      { value: '3', points: 3 },
+      { value: '5', points: 5 },
+      { value: '8', points: 8 },
+      { value: '13', points: 13 },
+      { value: '21', points: 21 },
+      { value: '34', points: 34 },
+      { value: '?', points: null },
+      { value: '☕', points: null },
+    ],
+  },
+  tshirt: {
+    label: 'Camiseta (T-shirt)',
+    cards: [
+      { value: 'XS', points: 1 },
+      { value: 'S', points: 2 },
+      { value: 'M', points: 3 },
+      { value: 'L', points: 5 },
+      { value: 'XL', points: 8 },
+      { value: 'XXL', points: 13 },
+      { value: '?', points: null },
+      { value: '☕', points: null },
+    ],
+  },
+}
+
+/** Cards that express a size (everything but "?" and "☕") */
+export const getSizedCards = (deck: PlanningPokerDeck) =>
+  POKER_DECKS[deck].cards.filter((card) => card.points !== null)
+
+export function getCardPoints(deck: PlanningPokerDeck, value: string): number | null {
+  return POKER_DECKS[deck].cards.find((card) => card.value === value)?.points ?? null
+}
+
+export interface PokerVoteSummary {
+  /** Cards per value, in deck order */
+  distribution: Array<{ value: string; count: number }>
+  /** Votes with a sized card */
+  sizedCount: number
+  min: string | null
+  max: string | null
+  /** Positions in the deck between the smallest and the largest card */
+  spread: number
+  consensus: boolean
+  /** Most voted sized card; ties go to the larger card */
+  mostVoted: string | null
+  /** Card at the (upper) median, suggested as the agreed value */
+  suggested: string | null
+  /** Voters at least two cards away from the median, worth hearing out */
+  outlierUserIds: string[]
+}
+
+const OUTLIER_DISTANCE = 2
+
+export function summarizeVotes(
+  deck: PlanningPokerDeck,
+  votes: Array<{ user_id: string; value: string }>
+): PokerVoteSummary {
+  const cards = POKER_DECKS[deck].cards
+  const sized = getSizedCards(deck).map((card) => card.value)
+  const sizedVotes = votes
+    .filter((vote) => sized.includes(vote.value))
+    .map((vote) => ({ ...vote, index: sized.indexOf(vote.value) }))
+    .sort((a, b) => a.index - b.index)
+
+  const distribution = cards
+    .map((card) => ({ value: card.value, count: votes.filter((vote) => vote.value === card.value).length }))
+    .filter((entry) => entry.count > 0)
+
+  if (sizedVotes.length === 0) {
+    return {
+      distribution,
+      sizedCount: 0,
+      min: null,
+      max: null,
+      spread: 0,
+      consensus: false,
+      mostVoted: null,
+      suggested: null,
+      outlierUserIds: [],
+    }
+  }
+
+  const minIndex = sizedVotes[0].index
+  const maxIndex = sizedVotes[sizedVotes.length - 1].index
+  const medianIndex = sizedVotes[Math.floor(sizedVotes.length / 2)].index
+
+  const counts = new Map<number, number>()
+  sizedVotes.forEach((vote) => counts.set(vote.index, (counts.get(vote.index) || 0) + 1))
+  const [mostVotedIndex] = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]
+
+  return {
+    distribution,
+    sizedCount: sizedVotes.length,
+    min: sized[minIndex],
+    max: sized[maxIndex],
+    spread: maxIndex - minIndex,
+    consensus: sizedVotes.length > 1 && minIndex === maxIndex,
+    mostVoted: sized[mostVotedIndex],
+    suggested: sized[medianIndex],
+    outlierUserIds: sizedVotes
+      .filter((vote) => Math.abs(vote.index - medianIndex) >= OUTLIER_DISTANCE)
+      .map((vote) => vote.user_id),
+  }
+}
@@ -0,0 +1,300 @@
+import type { DependencyType, TaskType } from '@/types'
+import { parseDateKey, toDateKey } from '@/utils/gantt/workingCalendar'
+
+/**
+ * Portfolio roadmap: every project on one time axis with its phases,
+ * milestones, cross-project dependencies and a health roll-up
+ */
+
+export type PortfolioHealth = 'on-track' | 'at-risk' | 'off-track'
+
+/** Schedule slip (calendar days) from which a project is at risk / off track */
+export const SLIP_AT_RISK_DAYS = 1
+export const SLIP_OFF_TRACK_DAYS = 10
+/** Blocked tasks from which a project is at risk / off track */
+export const BLOCKED_AT_RISK = 1
+export const BLOCKED_OFF_TRACK = 3
+/** Days without movement from which an active project is at risk / off track (same scale as the latency widget) */
+export const IDLE_AT_RISK_DAYS = 8
+export const IDLE_OFF_TRACK_DAYS = 15
+
+export const PORTFOLIO_HEALTH_CONFIG: Record<PortfolioHealth, { label: string; color: string }> = {
+  'on-track': { label: 'No prazo', color: '#10b981' },
+  'at-risk': { label: 'Em risco', color: '#f59e0b' },
+  'off-track': { label: 'Crítico', color: '#ef4444' },
+}
+
+export interface PortfolioProjectRow {
+  id: string
+  name: string
+  status: string
+  start_date: string | null
+  end_date: string | null
+}
+
+export interface PortfolioTaskRow {
+  id: string
+  project_id: string
+  title: string
+  task_type: TaskType | null
+  parent_task_id: string | null
+  is_summary: boolean | null
+  status: string
+  start_date: string | null
+  end_date: string | null
+  created_at: string | null
+  updated_at: string | null
+  completed_at: string | null
+}
+
+export interface PortfolioDependencyRow {
+  id: string
+  predecessor_id: string
+  successor_id: string
+  dependency_type: DependencyType
+}
+
+export interface PortfolioPhase {
+  id: string
+  title: string
+  start: string
+  end: string
+  status: string
+}
+
+export interface PortfolioMilestone {
+  id: string
+  title: string
+  date: string
+  done: boolean
+}
+
+export interface PortfolioProject {
+  id: string
+  name: string
+  status: string
+  /** Strategic objectives the project contributes to */
+  objectiveIds: string[]
+  teamIds: string[]
+  /** Span drawn on the axis: project dates widened by its tasks */
+  start: string | null
+  end: string | null
+  phases: PortfolioPhase[]
+  milestones: PortfolioMilestone[]
+  /** Latest baseline finish, else the project end date */
+  plannedFinish: string | null
+  plannedFinishSource: 'baseline' | 'project' | null
+  /** Latest task end, pushed to today when open tasks are overdue */
+  forecastFinish: string | null
+  /** forecastFinish - plannedFinish in calendar days (positive = late) */
+  slipDays: number | null
+  blockedCount: number
+  taskCount: number
+  doneCount: number
+  /** Days since the last task movement, -1 without tasks */
+  idleDays: number
+  health: PortfolioHealth
+  healthReasons: string[]
+}
+
+export interface PortfolioLinkEnd {
+  taskId: string
+  title: string
+  projectId: string
+  date: string | null
+}
+
+export interface PortfolioLink {
+  id: string
+  type: DependencyType
+  predecessor: PortfolioLinkEnd
+  successor: PortfolioLinkEnd
+  /** Successor scheduled before its predecessor allows (FS only) */
+  conflict: boolean
+}
+
+export interface PortfolioInput {
+  projects: PortfolioProjectRow[]
+  tasks: PortfolioTaskRow[]
+  dependencies: PortfolioDependencyRow[]
+  /** project_id -> team ids */
+  projectTeams: Map<string, string[]>
+  /** project_id -> strategic objective ids */
+  projectObjectives: Map<string, string[]>
+  /** project_id -> latest baseline finish (yyyy-mm-dd) */
+  baselineFinish: Map<string, string>
+  today?: Date
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / 86400000)
+
+const maxKey = (a: string | null, b: string | null) => (!a ? b : !b ? a : a > b ? a : b)
+const minKey = (a: string | null, b: string | null) => (!a ? b : !b ? a : a < b ? a : b)
+
+const isPhase = (task: PortfolioTaskRow) =>
+  task.task_type === 'phase' || (!task.parent_task_id && (task.is_summary || task.task_type === 'summary'))
+
+function latestMovement(task: PortfolioTaskRow): number | null {
+  const times = [task.created_at, task.updated_at, task.completed_at]
+    .filter((t): t is string => !!t)
+    .map((t) => new Date(t).getTime())
+    .filter((n) => !isNaN(n))
+  return times.length > 0 ? Math.max(...times) : null
+}
+
+function rateHealth(
+  project: Pick<PortfolioProject, 'status' | 'slipDays' | 'blockedCount' | 'idleDays'>
+): { health: PortfolioHealth; reasons: string[] } {
+  const reasons: string[] = []
+  let level = 0
+  const raise = (to: number) => {
+    level = Math.max(level, to)
+  }
+
+  if (project.slipDays !== null && project.slipDays >= SLIP_AT_RISK_DAYS) {
+    raise(project.slipDays >= SLIP_OFF_TRACK_DAYS ? 2 : 1)
+    reasons.push(`Atraso de ${project.slipDays} dia${project.slipDays > 1 ? 's' : ''}`)
+  }
+  if (project.blockedCount >= BLOCKED_AT_RISK) {
+    raise(project.blockedCount >= BLOCKED_OFF_TRACK ? 2 : 1)
+    reasons.push(`${project.blockedCount} tarefa${project.blockedCount > 1 ? 's' : ''} bloqueada${project.blockedCount > 1 ? 's' : ''}`)
+  }
+  if (project.status === 'active' && project.idleDays >= IDLE_AT_RISK_DAYS) {
+    raise(project.idleDays >= IDLE_OFF_TRACK_DAYS ? 2 : 1)
+    reasons.push(`Sem movimentação há ${project.idleDays} dias`)
+  }
+
+  return { health: (['on-track', 'at-risk', 'off-track'] as const)[level], reasons }
+}
+
+/**
+ * Build the roadmap rows and the links between projects
+ */
+export function buildPortfolio({
+  projects,
+  tasks,
+  dependencies,
+  projectTeams,
+  projectObjectives,
+  baselineFinish,
+  today = new Date(),
+}: PortfolioInput): { projects: PortfolioProject[]; links: PortfolioLink[] } {
+  const todayKey = toDateKey(today)
+  const tasksByProject = new Map<string, PortfolioTaskRow[]>()
+  tasks.forEach((task) => {
+    const list = tasksByProject.get(task.project_id) || []
+    list.push(task)
+    tasksByProject.set(task.project_id, list)
+  })
+
+  const rows = projects.map((project): PortfolioProject => {
+    const projectTasks = tasksByProject.get(project.id) || []
+    let start = project.start_date?.split('T')[0] || null
+    let end = project.end_date?.split('T')[0] || null
+    let lastTaskEnd: string | null = null
+    let overdue = false
+    let latestMs: number | null = null
+
+    for (const task of projectTasks) {
+      const taskStart = task.start_date?.split('T')[0] || null
+      const taskEnd = task.end_date?.split('T')[0] || null
+      start = minKey(start, taskStart)
+      end = maxKey(end, taskEnd)
+      lastTaskEnd = maxKey(lastTaskEnd, taskEnd)
+      if (task.status !== 'done' && taskEnd && taskEnd < todayKey) overdue = true
+      const moved = latestMovement(task)
+      if (moved !== null && (latestMs === null || moved > latestMs)) latestMs = moved
+    }
+
+    const phases = projectTasks
+      .filter((task) => isPhase(task) && task.start_date && task.end_date)
+      .map((task) => ({
+        id: task.id,
+        title: task.title,
+        start: task.start_date!.split('T')[0],
+        end: task.end_date!.split('T')[0],
+        status: task.status,
+      }))
+      .sort((a, b) => a.start.localeCompare(b.start))
+
+    const milestones = projectTasks
+      .filter((task) => task.task_type === 'milestone' && (task.end_date || task.start_date))
+      .map((task) => ({
+        id: task.id,
+        title: task.title,
+        date: (task.end_date || task.start_date)!.split('T')[0],
+        done: task.status === 'done',
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date))
+
+    const baseline = baselineFinish.get(project.id) || null
+    const plannedFinish = baseline || project.end_date?.split('T')[0] || null
+    const isOpen = project.status !== 'completed' && project.status !== 'archived'
+    const forecastFinish = overdue && isOpen ? maxKey(lastTaskEnd, todayKey) : lastTaskEnd
+    const slipDays = plannedFinish && forecastFinish ? daysBetween(plannedFinish, forecastFinish) : null
+
+    const blockedCount = projectTasks.filter((t) => t.status === 'blocked').length
+    const idleDays =
+      latestMs !== null ? Math.max(0, Math.floor((today.getTime() - latestMs) / 86400000)) : -1
+
+    const base = {
+      status: project.status,
+      slipDays: isOpen ? slipDays : null,
+      blockedCount,
+      idleDays,
+    }
+    const { health, reasons } = rateHealth(base)
+
+    return {
+      id: project.id,
+      name: project.name,
+      status: project.status,
+      objectiveIds: projectObjectives.get(project.id) || [],
+      teamIds: projectTeams.get(project.id) || [],
+      start,
+      end: maxKey(end, forecastFinish),
+      phases,
+      milestones,
+      plannedFinish,
+      plannedFinishSource: baseline ? 'baseline' : plannedFinish ? 'project' : null,
+      forecastFinish,
+      slipDays: base.slipDays,
+      blockedCount,
+      taskCount: projectTasks.length,
+      doneCount: projectTasks.filter((t) => t.status === 'done').length,
+      idleDays,
+      health,
+      healthReasons: reasons,
+    }
+  })
+
+  const taskById = new Map(tasks.map((task) => [task.id, task]))
+  const toEnd = (task: PortfolioTaskRow, side: 'start' | 'end'): PortfolioLinkEnd => ({
+    taskId: task.id,
+    title: task.title,
+    projectId: task.project_id,
+    date: (side === 'start' ? task.start_date || task.end_date : task.end_date || task.start_date)?.split('T')[0] || null,
+  })
+
+  const links = dependencies.flatMap((dependency): PortfolioLink[] => {
+    const predecessor = taskById.get(dependency.predecessor_id)
+    const successor = taskById.get(dependency.successor_id)
+    if (!predecessor || !successor || predecessor.project_id === successor.project_id) return []
+
+    // Anchor each end on the side of the bar the dependency type refers to
+    const from = toEnd(predecessor, dependency.dependency_type[0] === 'S' ? 'start' : 'end')
+    const to = toEnd(successor, dependency.dependency_type[1] === 'S' ? 'start' : 'end')
+    return [
+      {
+        id: dependency.id,
+        type: dependency.dependency_type,
+        predecessor: from,
+        successor: to,
+        conflict: dependency.dependency_type === 'FS' && !!from.date && !!to.date && to.date <= from.date,
+      },
+    ]
+  })
+
+  return { projects: rows, links }
+}
@@ -0,0 +1,282 @@
+import type {
+  RetrospectiveColumn,
+  RetrospectiveItem,
+  RetrospectiveItemCategory,
+  RetrospectivePhase,
+  RetrospectiveTemplate,
+  SprintRetrospective,
+} from '@/types'
+
+/**
+ * Facilitated retrospectives: the facilitator moves the team through
+ * write → group → vote → discuss, and every participant sees the cards,
+ * phase and timer change live.
+ */
+
+export const RETRO_PHASES: Array<{ key: RetrospectivePhase; label: string; hint: string }> = [
+  { key: 'write', label: 'Escrever', hint: 'Cada participante adiciona seus cartões' },
+  { key: 'group', label: 'Agrupar', hint: 'O facilitador agrupa ou mescla cartões parecidos' },
+  { key: 'vote', label: 'Votar', hint: 'Distribua seus votos entre os cartões mais importantes' },
+  { key: 'discuss', label: 'Discutir', hint: 'Discuta os mais votados e defina ações' },
+]
+
+export const RETRO_TIMER_PRESETS = [3, 5, 10, 15]
+
+export const getPhaseIndex = (phase: RetrospectivePhase) => RETRO_PHASES.findIndex((p) => p.key === phase)
+
+/** Whole seconds left on the shared timer; 0 once expired, null without a timer */
+export function getRemainingSeconds(endsAt: string | null, now: number = Date.now()): number | null {
+  if (!endsAt) return null
+  return Math.max(0, Math.ceil((new Date(endsAt).getTime() - now) / 1000))
+}
+
+export function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  return `${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+// Formats
+
+export const RETRO_CATEGORY_LABELS: Record<RetrospectiveItemCategory, string> = {
+  went_well: 'Foi bem',
+  to_improve: 'A melhorar',
+  action_item: 'Ação',
+  other: 'Outro',
+}
+
+// Every format ends with the action column, so action tracking works the same
+const ACTION_COLUMN: RetrospectiveColumn = {
+  key: 'action_item',
+  title: 'Ações para o próximo sprint 🎯',
+  color: '#6366f1',
+  category: 'action_item',
+}
+
+export const RETRO_TEMPLATES: Array<{ key: string; name: string; columns: RetrospectiveColumn[] }> = [
+  {
+    key: 'classic',
+    name: 'Clássica',
+    columns: [
+      { key: 'went_well', title: 'O que foi bem? 😊', color: '#10b981', category: 'went_well' },
+      { key: 'to_improve', title: 'O que melhorar? 🤔', color: '#f59e0b', category: 'to_improve' },
+      ACTION_COLUMN,
+    ],
+  },
+  {
+    key: 'start_stop_continue',
+    name: 'Start, Stop, Continue',
+    columns: [
+      { key: 'start', title: 'Começar a fazer 🚀', color: '#0ea5e9', category: 'to_improve' },
+      { key: 'stop', title: 'Parar de fazer ✋', color: '#ef4444', category: 'to_improve' },
+      { key: 'continue', title: 'Continuar fazendo 🔁', color: '#10b981', category: 'went_well' },
+      ACTION_COLUMN,
+    ],
+  },
+  {
+    key: '4ls',
+    name: '4Ls',
+    columns: [
+      { key: 'liked', title: 'Gostei 👍', color: '#10b981', category: 'went_well' },
+      { key: 'learned', title: 'Aprendi 📚', color: '#0ea5e9', category: 'other' },
+      { key: 'lacked', title: 'Faltou 🕳️', color: '#ef4444', category: 'to_improve' },
+      { key: 'longed_for', title: 'Desejei 🌠', color: '#f59e0b', category: 'to_improve' },
+      ACTION_COLUMN,
+    ],
+  },
+  {
+    key: 'mad_sad_glad',
+    name: 'Mad, Sad, Glad',
+    columns: [
+      { key: 'mad', title: 'Irritado 😠', color: '#ef4444', category: 'to_improve' },
+      { key: 'sad', title: 'Triste 😢', color: '#f59e0b', category: 'to_improve' },
+      { key: 'glad', title: 'Feliz 😄', color: '#10b981', category: 'went_well' },
+      ACTION_COLUMN,
+    ],
+  },
+  {
+    key: 'sailboat',
+    name: 'Barco a vela',
+    columns: [
+      { key: 'wind', title: 'Vento: o que nos impulsiona 💨', color: '#10b981', category: 'went_well' },
+      { key: 'anchors', title: 'Âncoras: o que nos segura ⚓', color: '#f59e0b', category: 'to_improve' },
+      { key: 'rocks', title: 'Rochas: riscos à frente 🪨', color: '#ef4444', category: 'to_improve' },
+      { key: 'island', title: 'Ilha: onde queremos chegar 🏝️', color: '#0ea5e9', category: 'other' },
+      ACTION_COLUMN,
+    ],
+  },
+]
+
+export const CUSTOM_TEMPLATE_PREFIX = 'team:'
+
+/** Columns of a retrospective; retrospectives from before formats use the classic ones */
+export function getRetroColumns(retrospective: Pick<SprintRetrospective, 'columns'> | null | undefined) {
+  return retrospective?.columns?.length ? retrospective.columns : RETRO_TEMPLATES[0].columns
+}
+
+/** Column a card belongs to; cards from before formats only have a category */
+export const getItemColumnKey = (item: Pick<RetrospectiveItem, 'column_key' | 'category'>) =>
+  item.column_key || item.category
+
+/** Display name of a retrospective's format */
+export function getTemplateName(template: string, teamTemplates: RetrospectiveTemplate[] = []): string {
+  if (template.startsWith(CUSTOM_TEMPLATE_PREFIX)) {
+    const id = template.slice(CUSTOM_TEMPLATE_PREFIX.length)
+    return teamTemplates.find((t) => t.id === id)?.name || 'Personalizado'
+  }
+  return RETRO_TEMPLATES.find((t) => t.key === template)?.name || 'Clássica'
+}
+
+/** Columns of a built-in template key or a "team:<id>" key, null when unknown */
+export function resolveTemplateColumns(
+  template: string,
+  teamTemplates: RetrospectiveTemplate[] = []
+): RetrospectiveColumn[] | null {
+  if (template.startsWith(CUSTOM_TEMPLATE_PREFIX)) {
+    const id = template.slice(CUSTOM_TEMPLATE_PREFIX.length)
+    return teamTemplates.find((t) => t.id === id)?.columns || null
+  }
+  return RETRO_TEMPLATES.find((t) => t.key === template)?.columns || null
+}
+
+/** Why a custom column set can't be saved, or null when it is valid */
+export function validateRetroColumns(columns: RetrospectiveColumn[]): string | null {
+  if (columns.length < 2 || columns.length > 6) return 'Use de 2 a 6 colunas'
+  if (columns.some((column) => !column.title.trim())) return 'Todas as colunas precisam de um título'
+  if (!columns.some((column) => column.category === 'action_item')) {
+    return 'Inclua uma coluna de ações'
+  }
+  if (new Set(columns.map((column) => column.key)).size !== columns.length) return 'Colunas repetidas'
+  return null
+}
+
+export interface RetroCardGroup<T extends RetrospectiveItem = RetrospectiveItem> {
+  /** Card heading the group; the only one receiving votes */
+  head: T
+  members: T[]
+  /** Votes of the head plus any votes members had before being grouped */
+  totalVotes: number
+}
+
+/**
+ * Cards of a column as groups, in writing order or, when discussing,
+ * most voted first. Cards grouped into a missing card stand on their own.
+ */
+export function buildCardGroups<T extends RetrospectiveItem>(
+  items: T[],
+  { byVotes = false }: { byVotes?: boolean } = {}
+): RetroCardGroup<T>[] {
+  const ids = new Set(items.map((item) => item.id))
+  const isHead = (item: T) => !item.group_id || !ids.has(item.group_id)
+
+  const groups = items.filter(isHead).map((head) => {
+    const members = items.filter((item) => !isHead(item) && item.group_id === head.id)
+    return {
+      head,
+      members,
+      totalVotes: head.votes + members.reduce((sum, member) => sum + member.votes, 0),
+    }
+  })
+
+  const byCreation = (a: RetroCardGroup<T>, b: RetroCardGroup<T>) => a.head.created_at.localeCompare(b.head.created_at)
+  return groups.sort(byVotes ? (a, b) => b.totalVotes - a.totalVotes || byCreation(a, b) : byCreation)
+}
+
+// Action items
+
+export const ACTION_STATUS_CONFIG: Record<string, { label: string; color: string }> = {
+  pending: { label: 'Pendente', color: '#f59e0b' },
+  in_progress: { label: 'Em progresso', color: '#6366f1' },
+  done: { label: 'Concluída', color: '#10b981' },
+  cancelled: { label: 'Cancelada', color: '#6b7280' },
+}
+
+export const OPEN_ACTION_STATUSES = ['pending', 'in_progress']
+
+export function isActionOverdue(
+  action: { due_date: string | null; status: string },
+  today: Date = new Date()
+): boolean {
+  if (!action.due_date || !OPEN_ACTION_STATUSES.includes(action.status)) return false
+  const [year, month, day] = action.due_date.split('-').map(Number)
+  return new Date(year, month - 1, day) < new Date(today.getFullYear(), today.getMonth(), today.getDate())
+}
+
+/** How long an open action has been carried over, e.g. "há 2 sprints · 24 dias" */
+export function getCarryOverLabel(sprintsAgo: number, days: number): string {
+  const sprints = `há ${sprintsAgo} ${sprintsAgo === 1 ? 'sprint' : 'sprints'}`
+  return `${sprints} · ${days} ${days === 1 ? 'dia' : 'dias'}`
+}
+
+export interface RecurringActionSource {
+  content: string
+  sprintId: string
+  sprintName: string
+  status: string
+}
+
+/** An action the team keeps writing down in different sprints */
+export interface RecurringAction {
+  /** Wording of the most recent occurrence */
+  content: string
+  occurrences: number
+  sprintNames: string[]
+  /** Occurrences still open */
+  openCount: number
+}
+
+const STOPWORDS = new Set([
+  'para', 'com', 'que', 'dos', 'das', 'uma', 'umas', 'uns', 'por', 'mais', 'nos', 'nas', 'pelo', 'pela',
+  'ser', 'ter', 'sobre', 'entre', 'cada', 'todo', 'toda', 'todos', 'todas', 'sempre', 'melhorar', 'the', 'and',
+])
+
+const toTokens = (content: string) =>
+  new Set(
+    content
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .split(' ')
+      .filter((token) => token.length >= 3 && !STOPWORDS.has(token))
+  )
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  a.forEach((token) => {
+    if (b.has(token)) shared++
+  })
+  return shared / (a.size + b.size - shared)
+}
+
+/**
+ * Actions written in more than one sprint with similar wording (shared
+ * words over all words, ignoring accents and filler words). Sources are
+ * expected most recent first.
+ */
+export function findRecurringActions(sources: RecurringActionSource[], threshold = 0.5): RecurringAction[] {
+  const clusters: Array<{ tokens: Set<string>; items: RecurringActionSource[] }> = []
+
+  sources.forEach((source) => {
+    const tokens = toTokens(source.content)
+    const cluster = clusters.find((c) => similarity(c.tokens, tokens) >= threshold)
+    if (cluster) cluster.items.push(source)
+    else clusters.push({ tokens, items: [source] })
+  })
+
+  return clusters
+    .filter(({ items }) => new Set(items.map((item) => item.sprintId)).size > 1)
+    .map(({ items }) => {
+      const sprintNames: string[] = []
+      items.forEach((item) => {
+        if (!sprintNames.includes(item.sprintName)) sprintNames.push(item.sprintName)
+      })
+      return {
+        content: items[0].content,
+        occurrences: items.length,
+        sprintNames,
+        openCount: items.filter((item) => OPEN_ACTION_STATUSES.includes(item.status)).length,
+      }
+    })
+    .sort((a, b) => b.sprintNames.length - a.sprintNames.length || b.occurrences - a.occurrences)
+}
@@ -0,0 +1,109 @@
+import type { SprintMemberCapacityInput } from '@/types'
+import { parseDateKey, workingDaysBetween, type WorkingCalendar } from '@/utils/gantt/workingCalendar'
+
+/** Completed sprints averaged for the points estimate ("yesterday's weather") */
+export const CAPACITY_VELOCITY_WINDOW = 3
+
+export interface SprintCapacity {
+  /** Working days in the sprint from the project calendar */
+  workingDays: number
+  memberCount: number
+  /** Person-days after days off */
+  availableDays: number
+  availableHours: number
+  /** Hours if every member worked every working day at the calendar's hours/day */
+  fullHours: number
+  /** availableHours / fullHours (0-1) */
+  availability: number
+  /** Average points of the last completed sprints, null without history */
+  averageVelocity: number | null
+  /** Points per available person-day of the last completed sprints */
+  pointsPerPersonDay: number | null
+  /** pointsPerPersonDay × availableDays, null without history */
+  points: number | null
+}
+
+export interface CapacityOverload {
+  points: { committed: number; capacity: number } | null
+  hours: { committed: number; capacity: number } | null
+}
+
+/**
+ * Working days between the sprint dates (inclusive)
+ */
+export function getSprintWorkingDays(
+  sprint: { start_date: string; end_date: string },
+  calendar: WorkingCalendar
+): number {
+  if (!sprint.start_date || !sprint.end_date) return 0
+  return Math.max(0, workingDaysBetween(parseDateKey(sprint.start_date), parseDateKey(sprint.end_date), calendar))
+}
+
+/** Points a past sprint delivered and how many working days it had */
+export interface CapacityVelocitySample {
+  points: number
+  workingDays: number
+}
+
+/**
+ * Team capacity of a sprint in hours and points
+ *
+ * Points come from the team's recent rate per person-day (past sprints are
+ * counted at the current team size) times this sprint's available
+ * person-days, so a longer sprint or fewer days off means more points.
+ */
+export function calculateSprintCapacity(
+  members: Pick<SprintMemberCapacityInput, 'days_off' | 'hours_per_day'>[],
+  workingDays: number,
+  calendar: WorkingCalendar,
+  velocities: CapacityVelocitySample[] = []
+): SprintCapacity {
+  let availableDays = 0
+  let availableHours = 0
+  members.forEach((member) => {
+    const days = Math.max(0, workingDays - (Number(member.days_off) || 0))
+    availableDays += days
+    availableHours += days * (Number(member.hours_per_day) || 0)
+  })
+
+  const fullHours = members.length * workingDays * calendar.hoursPerDay
+  const availability = fullHours > 0 ? Math.min(1, availableHours / fullHours) : 0
+
+  const recent = velocities.filter((v) => v.workingDays > 0).slice(0, CAPACITY_VELOCITY_WINDOW)
+  const averageVelocity = recent.length > 0 ? recent.reduce((sum, v) => sum + v.points, 0) / recent.length : null
+  const sampledPersonDays = recent.reduce((sum, v) => sum + v.workingDays, 0) * members.length
+  const pointsPerPersonDay =
+    sampledPersonDays > 0 ? recent.reduce((sum, v) => sum + v.points, 0) / sampledPersonDays : null
+
+  return {
+    workingDays,
+    memberCount: members.length,
+    availableDays,
+    availableHours: Math.round(availableHours * 10) / 10,
+    fullHours,
+    availability,
+    averageVelocity: averageVelocity !== null ? Math.round(averageVelocity) : null,
+    pointsPerPersonDay,
+    points: pointsPerPersonDay !== null ? Math.round(pointsPerPersonDay * availableDays) : null,
+  }
+}
+
+/**
+ * Compare the committed work with the capacity; each entry is set only when
+ * it goes over
+ */
+export function getCapacityOverload(
+  capacity: SprintCapacity,
+  committed: { points: number; hours: number }
+): CapacityOverload {
+  return {
+    points:
+      capacity.points !== null && committed.points > capacity.points
+        ? { committed: committed.points, capacity: capacity.points }
+        : null,
+    hours:
+      committed.hours > capacity.availableHours
+        ? { committed: committed.hours, capacity: capacity.availableHours }
+        : null,
+  }
+}
@@ -0,0 +1,129 @@
+import type { SprintScopeSnapshot } from '@/types'
+import { parseDateKey, toDateKey } from '@/utils/gantt/workingCalendar'
+
+export interface SprintScopePoint {
+  day: number
+  dateKey: string
+  date: string
+  /** Ideal remaining points, from the committed scope down to zero */
+  ideal: number
+  /** Ideal completed points, from zero up to the committed scope */
+  idealDone: number
+  remaining: number | null
+  scope: number | null
+  completed: number | null
+  /** Net points added (positive) or removed (negative) since the previous day */
+  scopeDelta: number
+  /** No snapshot yet: values rebuilt from the stories currently in the sprint */
+  estimated: boolean
+  isToday: boolean
+}
+
+export interface SprintScopeSeries {
+  points: SprintScopePoint[]
+  committedPoints: number
+  hasEstimatedDays: boolean
+}
+
+/**
+ * Snapshots are cut by calendar day in America/Sao_Paulo (see the
+ * 20261020 migration), which has kept UTC-3 all year since 2019
+ */
+const SNAPSHOT_UTC_OFFSET = '-03:00'
+
+/** Instant the day after dateKey starts, in the snapshots' timezone */
+export function getSnapshotNextDayStart(dateKey: string): Date {
+  const start = new Date(`${dateKey}T00:00:00${SNAPSHOT_UTC_OFFSET}`)
+  return new Date(start.getTime() + 24 * 60 * 60 * 1000)
+}
+
+interface StoryLike {
+  story_points: number
+  status: string
+  completed_at?: string | null
+}
+
+/**
+ * Build the daily series of a sprint for burndown/burnup charts
+ *
+ * Each past day uses the latest snapshot taken on or before it; today uses
+ * the stories as they are now. Days before the first snapshot (sprints that
+ * started before snapshots existed) fall back to the stories currently in the
+ * sprint and their completion dates.
+ */
+export function buildSprintScopeSeries(
+  sprint: { start_date: string; end_date: string },
+  snapshots: SprintScopeSnapshot[],
+  stories: StoryLike[],
+  today: Date = new Date()
+): SprintScopeSeries {
+  const start = parseDateKey(sprint.start_date)
+  const end = parseDateKey(sprint.end_date)
+  const todayKey = toDateKey(today)
+  const sorted = [...snapshots].sort((a, b) => a.snapshot_date.localeCompare(b.snapshot_date))
+
+  const currentScope = stories.reduce((sum, s) => sum + (s.story_points || 0), 0)
+  const completionKeys = stories
+    .filter((s) => s.status === 'done' && s.completed_at)
+    .map((s) => ({ key: toDateKey(new Date(s.completed_at!)), points: s.story_points || 0 }))
+
+  const days: Omit<SprintScopePoint, 'ideal' | 'idealDone' | 'scopeDelta'>[] = []
+  let snapshotIndex = -1
+  const cursor = new Date(start)
+
+  for (let day = 0; cursor <= end; day++) {
+    const dateKey = toDateKey(cursor)
+    while (snapshotIndex + 1 < sorted.length && sorted[snapshotIndex + 1].snapshot_date <= dateKey) {
+      snapshotIndex++
+    }
+    const snapshot = snapshotIndex >= 0 ? sorted[snapshotIndex] : null
+    const isFuture = dateKey > todayKey
+
+    let scope: number | null = null
+    let completed: number | null = null
+    if (dateKey === todayKey) {
+      // Today is read live so the chart follows edits without waiting for a refetch
+      scope = currentScope
+      completed = stories.filter((s) => s.status === 'done').reduce((sum, s) => sum + (s.story_points || 0), 0)
+    } else if (!isFuture) {
+      if (snapshot) {
+        scope = snapshot.scope_points
+        completed = snapshot.completed_points
+      } else {
+        scope = currentScope
+        completed = completionKeys.filter((c) => c.key <= dateKey).reduce((sum, c) => sum + c.points, 0)
+      }
+    }
+
+    days.push({
+      day,
+      dateKey,
+      date: cursor.toLocaleDateString('pt-BR', { month: 'short', day: 'numeric' }),
+      remaining: scope !== null && completed !== null ? scope - completed : null,
+      scope,
+      completed,
+      estimated: !isFuture && !snapshot && dateKey !== todayKey,
+      isToday: dateKey === todayKey,
+    })
+    cursor.setDate(cursor.getDate() + 1)
+  }
+
+  const committedPoints = days[0]?.scope ?? sorted[0]?.scope_points ?? currentScope
+  const span = Math.max(days.length - 1, 1)
+
+  const points = days.map((point, index) => {
+    const previous = index > 0 ? days[index - 1].scope : null
+    return {
+      ...point,
+      ideal: Math.max(0, committedPoints - (committedPoints / span) * point.day),
+      idealDone: Math.min(committedPoints, (committedPoints / span) * point.day),
+      scopeDelta: point.scope !== null && previous !== null ? point.scope - previous : 0,
+    }
+  })
+
+  return {
+    points,
+    committedPoints,
+    hasEstimatedDays: points.some((p) => p.estimated),
+  }
+}
@@ -0,0 +1,74 @@
+import { fetchAllRows, supabase } from '@/lib/supabase'
+
+/**
+ * Dashboard strategic filter: "all", "none" (work outside any objective)
+ * or the id of a strategic objective
+ */
+export type StrategicValue = string
+
+export const STRATEGIC_ALL: StrategicValue = 'all'
+export const STRATEGIC_NONE: StrategicValue = 'none'
+
+/**
+ * Projects in scope of a strategic filter.
+ * exclude: ids lists the projects left out (every other project is in
+ * scope), so "none" never sends the whole project list to the server.
+ * includeNull: also include sprints/tasks with no project, which can
+ * only be "outside any objective".
+ */
+export interface StrategicScope {
+  ids: string[]
+  exclude: boolean
+  includeNull: boolean
+}
+
+const EMPTY_ID = '00000000-0000-0000-0000-000000000000'
+
+/**
+ * Resolve the projects selected by the strategic filter
+ * "all"        → null (no restriction)
+ * objective id → projects contributing to the objective
+ * "none"       → every project but those linked to an objective, plus work
+ *                with no project
+ */
+export async function resolveStrategicScope(strategic: StrategicValue): Promise<StrategicScope | null> {
+  if (strategic === STRATEGIC_ALL) return null
+
+  const rows = await fetchAllRows<{ project_id: string }>((from, to) => {
+    const query = supabase.from('objective_projects').select('project_id')
+    return (strategic === STRATEGIC_NONE ? query : query.eq('objective_id', strategic))
+      .order('project_id')
+      .range(from, to)
+  })
+  const ids = [...new Set(rows.map((row) => row.project_id))]
+
+  return strategic === STRATEGIC_NONE
+    ? { ids, exclude: true, includeNull: true }
+    : { ids, exclude: false, includeNull: false }
+}
+
+/** Whether a project is in scope (null scope: every project) */
+export function isInStrategicScope(scope: StrategicScope | null, projectId: string): boolean {
+  return !scope || scope.ids.includes(projectId) !== scope.exclude
+}
+
+interface ProjectFilterQuery {
+  in(column: string, values: string[]): unknown
+  not(column: string, operator: string, value: unknown): unknown
+}
+
+/**
+ * Restrict a query to rows whose project column is in scope. Rows with
+ * no project never match; callers that includeNull fetch them apart.
+ */
+export function filterByStrategicScope<Q extends ProjectFilterQuery>(
+  query: Q,
+  column: string,
+  scope: StrategicScope | null
+): Q {
+  if (!scope) return query
+  if (!scope.exclude) return query.in(column, scope.ids.length > 0 ? scope.ids : [EMPTY_ID]) as Q
+
+  const withProject = query.not(column, 'is', null) as Q
+  return scope.ids.length > 0 ? (withProject.not(column, 'in', `(${scope.ids.join(',')})`) as Q) : withProject
+}
@@ -0,0 +1,36 @@
+-- =========================================================
+-- Project working calendar
+-- Holidays and extra working days per project, used by the
+-- scheduler (CPM), grid durations and Gantt shading.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Opt-in for Brazilian national holidays (generated client-side)
+ALTER TABLE public.project_configuration
+  ADD COLUMN IF NOT EXISTS use_national_holidays BOOLEAN NOT NULL DEFAULT true;
+
+-- 2. Calendar exceptions
+--    is_working = false -> holiday / day off
+--    is_working = true  -> worked day (e.g. a Saturday, or a cancelled holiday)
+CREATE TABLE IF NOT EXISTS public.project_calendar_exceptions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+    exception_date DATE NOT NULL,
+    name TEXT NOT NULL,
+    is_working BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+
+    UNIQUE(project_id, exception_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_exceptions_project
+  ON public.project_calendar_exceptions(project_id);
+
+-- 3. RLS (same model as project_configuration)
+ALTER TABLE public.project_calendar_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Calendar exceptions viewable by authenticated users" ON public.project_calendar_exceptions
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can manage calendar exceptions" ON public.project_calendar_exceptions
+    FOR ALL USING (auth.role() = 'authenticated');
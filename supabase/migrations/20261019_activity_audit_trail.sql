@@ -0,0 +1,148 @@
+-- =========================================================
+-- Activity audit trail
+-- Records every create/update/delete of tasks, sprints,
+-- projects, teams and comments in public.activities, with
+-- field-level before/after values in details.changes.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Project scope for filtering the feed.
+--    No foreign key: entries must outlive the project (and the
+--    cascade that deletes its tasks writes entries pointing to it).
+ALTER TABLE public.activities
+  ADD COLUMN IF NOT EXISTS project_id UUID;
+
+-- History of one entity, newest first. Replaces the setup script's
+-- idx_activities_entity on (entity_type, entity_id), a prefix of it.
+CREATE INDEX IF NOT EXISTS idx_activities_entity_history
+  ON public.activities(entity_type, entity_id, created_at DESC);
+DROP INDEX IF EXISTS public.idx_activities_entity;
+CREATE INDEX IF NOT EXISTS idx_activities_project
+  ON public.activities(project_id, created_at DESC);
+
+-- 2. Generic logger. TG_ARGV[0] is the entity_type.
+--
+--    details = {
+--      name, project_name, task_id (comments only),
+--      changes: { field: { old, new } }
+--    }
+--
+--    Inserts list the filled fields (old = null), deletes list the
+--    previous values (new = null). Updates that only touch
+--    bookkeeping columns are not logged.
+CREATE OR REPLACE FUNCTION public.log_entity_activity()
+RETURNS TRIGGER AS $$
+DECLARE
+    entity TEXT := TG_ARGV[0];
+    old_row JSONB := '{}'::jsonb;
+    new_row JSONB := '{}'::jsonb;
+    row_data JSONB;
+    changes JSONB := '{}'::jsonb;
+    field TEXT;
+    old_value JSONB;
+    new_value JSONB;
+    v_project_id UUID;
+    v_project_name TEXT;
+    v_task_id UUID;
+    v_details JSONB;
+    ignored_fields TEXT[] := ARRAY[
+        'id', 'created_at', 'updated_at', 'order_index', 'wbs_code', 'hierarchy_level'
+    ];
+BEGIN
+    IF TG_OP <> 'INSERT' THEN old_row := to_jsonb(OLD); END IF;
+    IF TG_OP <> 'DELETE' THEN new_row := to_jsonb(NEW); END IF;
+    row_data := CASE WHEN TG_OP = 'DELETE' THEN old_row ELSE new_row END;
+
+    FOR field IN SELECT jsonb_object_keys(old_row || new_row) LOOP
+        CONTINUE WHEN field = ANY (ignored_fields);
+        old_value := COALESCE(old_row -> field, 'null'::jsonb);
+        new_value := COALESCE(new_row -> field, 'null'::jsonb);
+        IF old_value IS DISTINCT FROM new_value THEN
+            changes := changes || jsonb_build_object(
+                field, jsonb_build_object('old', old_value, 'new', new_value)
+            );
+        END IF;
+    END LOOP;
+
+    IF TG_OP = 'UPDATE' AND changes = '{}'::jsonb THEN
+        RETURN NULL;
+    END IF;
+
+    IF entity = 'project' THEN
+        v_project_id := (row_data ->> 'id')::uuid;
+        v_project_name := row_data ->> 'name';
+    ELSIF entity = 'comment' THEN
+        v_task_id := (row_data ->> 'task_id')::uuid;
+        SELECT project_id INTO v_project_id FROM public.tasks WHERE id = v_task_id;
+    ELSIF entity IN ('task', 'sprint') THEN
+        v_project_id := (row_data ->> 'project_id')::uuid;
+    END IF;
+
+    IF v_project_id IS NOT NULL AND v_project_name IS NULL THEN
+        SELECT name INTO v_project_name FROM public.projects WHERE id = v_project_id;
+    END IF;
+
+    v_details := jsonb_build_object(
+        'name', COALESCE(row_data ->> 'title', row_data ->> 'name', left(row_data ->> 'content', 120)),
+        'changes', changes
+    );
+    IF v_project_name IS NOT NULL THEN
+        v_details := v_details || jsonb_build_object('project_name', v_project_name);
+    END IF;
+    IF v_task_id IS NOT NULL THEN
+        v_details := v_details || jsonb_build_object('task_id', v_task_id);
+    END IF;
+
+    INSERT INTO public.activities (user_id, action, entity_type, entity_id, project_id, details)
+    VALUES (
+        auth.uid(),
+        CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END,
+        entity,
+        (row_data ->> 'id')::uuid,
+        v_project_id,
+        v_details
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 3. Triggers
+DROP TRIGGER IF EXISTS log_task_activity ON public.tasks;
+CREATE TRIGGER log_task_activity
+    AFTER INSERT OR UPDATE OR DELETE ON public.tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_entity_activity('task');
+
+DROP TRIGGER IF EXISTS log_sprint_activity ON public.sprints;
+CREATE TRIGGER log_sprint_activity
+    AFTER INSERT OR UPDATE OR DELETE ON public.sprints
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_entity_activity('sprint');
+
+DROP TRIGGER IF EXISTS log_project_activity ON public.projects;
+CREATE TRIGGER log_project_activity
+    AFTER INSERT OR UPDATE OR DELETE ON public.projects
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_entity_activity('project');
+
+DROP TRIGGER IF EXISTS log_team_activity ON public.teams;
+CREATE TRIGGER log_team_activity
+    AFTER INSERT OR UPDATE OR DELETE ON public.teams
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_entity_activity('team');
+
+DROP TRIGGER IF EXISTS log_comment_activity ON public.comments;
+CREATE TRIGGER log_comment_activity
+    AFTER INSERT OR UPDATE OR DELETE ON public.comments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_entity_activity('comment');
+
+-- 4. RLS: readable by authenticated users, written only by the triggers
+ALTER TABLE public.activities ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Activities are viewable by authenticated users" ON public.activities;
+DROP POLICY IF EXISTS "System can insert activities" ON public.activities;
+CREATE POLICY "Activities are viewable by authenticated users"
+    ON public.activities FOR SELECT
+    USING (auth.role() = 'authenticated');
@@ -0,0 +1,137 @@
+-- =========================================================
+-- Sprint scope snapshots
+-- One row per sprint per day with the scope and remaining
+-- points, so burndown/burnup charts keep history when stories
+-- are added to or removed from a running sprint.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Snapshots
+CREATE TABLE IF NOT EXISTS public.sprint_scope_snapshots (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    sprint_id UUID REFERENCES public.sprints(id) ON DELETE CASCADE NOT NULL,
+    snapshot_date DATE NOT NULL,
+    scope_points INTEGER NOT NULL DEFAULT 0,
+    completed_points INTEGER NOT NULL DEFAULT 0,
+    remaining_points INTEGER NOT NULL DEFAULT 0,
+    story_count INTEGER NOT NULL DEFAULT 0,
+    completed_count INTEGER NOT NULL DEFAULT 0,
+    story_ids UUID[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+
+    UNIQUE(sprint_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sprint_scope_snapshots_sprint
+  ON public.sprint_scope_snapshots(sprint_id, snapshot_date);
+
+-- 2. Capture (upsert) today's snapshot of a sprint.
+--    Days are counted in the team's timezone. Before the sprint starts
+--    the row is written on the start date (the commitment); finished or
+--    cancelled sprints are frozen.
+CREATE OR REPLACE FUNCTION public.capture_sprint_snapshot(sprint_uuid UUID)
+RETURNS void AS $$
+DECLARE
+    v_sprint RECORD;
+    v_today DATE := (NOW() AT TIME ZONE 'America/Sao_Paulo')::date;
+BEGIN
+    SELECT id, start_date, end_date, status INTO v_sprint
+    FROM public.sprints
+    WHERE id = sprint_uuid;
+
+    IF NOT FOUND
+       OR v_sprint.status IN ('completed', 'cancelled')
+       OR v_today > v_sprint.end_date THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.sprint_scope_snapshots (
+        sprint_id, snapshot_date, scope_points, completed_points, remaining_points,
+        story_count, completed_count, story_ids
+    )
+    SELECT
+        sprint_uuid,
+        GREATEST(v_today, v_sprint.start_date),
+        COALESCE(SUM(t.story_points), 0),
+        COALESCE(SUM(t.story_points) FILTER (WHERE t.status = 'done'), 0),
+        COALESCE(SUM(t.story_points) FILTER (WHERE t.status <> 'done'), 0),
+        COUNT(t.id),
+        COUNT(t.id) FILTER (WHERE t.status = 'done'),
+        COALESCE(array_agg(t.id) FILTER (WHERE t.id IS NOT NULL), '{}')
+    FROM public.tasks t
+    WHERE t.sprint_id = sprint_uuid
+    ON CONFLICT (sprint_id, snapshot_date) DO UPDATE SET
+        scope_points = EXCLUDED.scope_points,
+        completed_points = EXCLUDED.completed_points,
+        remaining_points = EXCLUDED.remaining_points,
+        story_count = EXCLUDED.story_count,
+        completed_count = EXCLUDED.completed_count,
+        story_ids = EXCLUDED.story_ids,
+        updated_at = TIMEZONE('utc', NOW());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Snapshot of every running sprint. Changes already refresh the
+-- snapshot through the triggers below; schedule this daily (pg_cron)
+-- to also get a row for days without any change:
+--   SELECT cron.schedule('sprint-scope-snapshots', '5 3 * * *',
+--                        'SELECT public.capture_active_sprint_snapshots()');
+CREATE OR REPLACE FUNCTION public.capture_active_sprint_snapshots()
+RETURNS void AS $$
+DECLARE
+    v_sprint_id UUID;
+BEGIN
+    FOR v_sprint_id IN
+        SELECT id FROM public.sprints WHERE status IN ('planning', 'active')
+    LOOP
+        PERFORM public.capture_sprint_snapshot(v_sprint_id);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 3. Keep snapshots current
+CREATE OR REPLACE FUNCTION public.trigger_capture_sprint_snapshot_on_task()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP <> 'DELETE' AND NEW.sprint_id IS NOT NULL THEN
+        PERFORM public.capture_sprint_snapshot(NEW.sprint_id);
+    END IF;
+
+    IF TG_OP <> 'INSERT' AND OLD.sprint_id IS NOT NULL
+       AND (TG_OP = 'DELETE' OR OLD.sprint_id IS DISTINCT FROM NEW.sprint_id) THEN
+        PERFORM public.capture_sprint_snapshot(OLD.sprint_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS capture_sprint_snapshot_on_task ON public.tasks;
+CREATE TRIGGER capture_sprint_snapshot_on_task
+    AFTER INSERT OR DELETE OR UPDATE OF sprint_id, story_points, status ON public.tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.trigger_capture_sprint_snapshot_on_task();
+
+CREATE OR REPLACE FUNCTION public.trigger_capture_sprint_snapshot_on_sprint()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM public.capture_sprint_snapshot(NEW.id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS capture_sprint_snapshot_on_sprint ON public.sprints;
+CREATE TRIGGER capture_sprint_snapshot_on_sprint
+    AFTER INSERT OR UPDATE OF status, start_date, end_date ON public.sprints
+    FOR EACH ROW
+    EXECUTE FUNCTION public.trigger_capture_sprint_snapshot_on_sprint();
+
+-- 4. RLS: readable by authenticated users, written only by the functions above
+ALTER TABLE public.sprint_scope_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sprint snapshots viewable by authenticated users" ON public.sprint_scope_snapshots
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- 5. Start history for the sprints already running
+SELECT public.capture_active_sprint_snapshots();
@@ -0,0 +1,34 @@
+-- =========================================================
+-- Sprint capacity planning
+-- Per-member availability for a sprint: days off (vacations,
+-- leave) and hours per day (part-time). Working days and
+-- holidays come from the project calendar, so the capacity
+-- follows the sprint dates without being re-entered.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Member availability per sprint
+CREATE TABLE IF NOT EXISTS public.sprint_member_capacity (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    sprint_id UUID REFERENCES public.sprints(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    days_off NUMERIC(4,1) NOT NULL DEFAULT 0 CHECK (days_off >= 0),
+    hours_per_day NUMERIC(4,1) NOT NULL DEFAULT 8 CHECK (hours_per_day >= 0 AND hours_per_day <= 24),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+
+    UNIQUE(sprint_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sprint_member_capacity_sprint
+  ON public.sprint_member_capacity(sprint_id);
+
+-- 2. RLS (same model as resource_allocations)
+ALTER TABLE public.sprint_member_capacity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sprint capacity viewable by authenticated users" ON public.sprint_member_capacity
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can manage sprint capacity" ON public.sprint_member_capacity
+    FOR ALL USING (auth.role() = 'authenticated');
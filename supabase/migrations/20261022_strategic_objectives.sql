@@ -0,0 +1,116 @@
+-- =========================================================
+-- Strategic objectives and key results (OKRs)
+-- Objectives hold measurable key results; projects and
+-- individual work items (stories, epics, phases) are linked
+-- to the key results they move. Progress of "points" and
+-- "items" key results is computed from the linked work;
+-- "manual" key results are updated by hand.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Objectives
+CREATE TABLE IF NOT EXISTS public.strategic_objectives (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    title TEXT NOT NULL,
+    description TEXT,
+    owner_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    start_date DATE,
+    end_date DATE,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'achieved', 'cancelled')),
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- 2. Key results
+CREATE TABLE IF NOT EXISTS public.key_results (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    objective_id UUID REFERENCES public.strategic_objectives(id) ON DELETE CASCADE NOT NULL,
+    title TEXT NOT NULL,
+    measure TEXT NOT NULL DEFAULT 'points' CHECK (measure IN ('points', 'items', 'manual')),
+    start_value NUMERIC NOT NULL DEFAULT 0,
+    target_value NUMERIC NOT NULL DEFAULT 100,
+    current_value NUMERIC NOT NULL DEFAULT 0,
+    unit TEXT,
+    order_index INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_key_results_objective
+  ON public.key_results(objective_id);
+
+-- 3. Work linked to a key result: a whole project or a single task
+--    (epic, story, phase...) together with everything below it
+CREATE TABLE IF NOT EXISTS public.key_result_links (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    key_result_id UUID REFERENCES public.key_results(id) ON DELETE CASCADE NOT NULL,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+    task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+
+    CHECK ((project_id IS NULL) <> (task_id IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_key_result_links_project
+  ON public.key_result_links(key_result_id, project_id) WHERE project_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_key_result_links_task
+  ON public.key_result_links(key_result_id, task_id) WHERE task_id IS NOT NULL;
+
+-- 4. Projects contributing to each objective, directly or through
+--    linked tasks (used by the dashboard objective filter)
+CREATE OR REPLACE VIEW public.objective_projects
+WITH (security_invoker = true) AS
+SELECT DISTINCT kr.objective_id, COALESCE(l.project_id, t.project_id) AS project_id
+FROM public.key_result_links l
+JOIN public.key_results kr ON kr.id = l.key_result_id
+LEFT JOIN public.tasks t ON t.id = l.task_id
+WHERE COALESCE(l.project_id, t.project_id) IS NOT NULL;
+
+-- 5. RLS (same model as the other planning tables)
+ALTER TABLE public.strategic_objectives ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.key_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.key_result_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Objectives viewable by authenticated users" ON public.strategic_objectives
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can manage objectives" ON public.strategic_objectives
+    FOR ALL USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Key results viewable by authenticated users" ON public.key_results
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can manage key results" ON public.key_results
+    FOR ALL USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Key result links viewable by authenticated users" ON public.key_result_links
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can manage key result links" ON public.key_result_links
+    FOR ALL USING (auth.role() = 'authenticated');
+
+-- 6. Carry over the old yes/no flag: projects marked as strategic
+--    planning are linked to a starter objective so the dashboard
+--    filter keeps showing them until real OKRs are set up
+DO $$
+DECLARE
+    v_objective UUID;
+    v_key_result UUID;
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.projects WHERE strategic_planning)
+       AND NOT EXISTS (SELECT 1 FROM public.strategic_objectives) THEN
+        INSERT INTO public.strategic_objectives (title, description)
+        VALUES ('Planejamento Estratégico', 'Projetos marcados como planejamento estratégico')
+        RETURNING id INTO v_objective;
+
+        INSERT INTO public.key_results (objective_id, title, measure)
+        VALUES (v_objective, 'Entregar os projetos estratégicos', 'items')
+        RETURNING id INTO v_key_result;
+
+        INSERT INTO public.key_result_links (key_result_id, project_id)
+        SELECT v_key_result, id FROM public.projects WHERE strategic_planning;
+    END IF;
+END $$;
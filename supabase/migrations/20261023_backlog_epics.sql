@@ -0,0 +1,18 @@
+-- =========================================================
+-- Epics and features in the agile backlog
+-- Epics (and optionally features) are tasks one level above
+-- user stories. Stories point to their epic or feature through
+-- the same parent_task_id hierarchy predictive projects use
+-- for phases and summary tasks.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Allow the new task types
+ALTER TABLE public.tasks DROP CONSTRAINT IF EXISTS tasks_task_type_check;
+
+ALTER TABLE public.tasks ADD CONSTRAINT tasks_task_type_check
+    CHECK (task_type IN ('task', 'milestone', 'phase', 'summary', 'epic', 'feature'));
+
+-- 2. Epic lookups by project (backlog panels, filters, swimlanes)
+CREATE INDEX IF NOT EXISTS idx_tasks_project_task_type
+  ON public.tasks(project_id, task_type);
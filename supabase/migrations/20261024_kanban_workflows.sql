@@ -0,0 +1,62 @@
+-- =========================================================
+-- Configurable Kanban workflows
+-- Per-project board columns mapped onto the base task
+-- statuses, with optional WIP limits and allowed transitions.
+-- Projects without columns keep the default board (one
+-- column per status, no limits, any move allowed).
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Board columns
+CREATE TABLE IF NOT EXISTS public.workflow_columns (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    -- Base status the column stands for; reports keep using tasks.status
+    status TEXT NOT NULL CHECK (status IN ('todo', 'in-progress', 'review', 'done', 'blocked')),
+    color TEXT NOT NULL DEFAULT '#6b7280',
+    wip_limit INTEGER CHECK (wip_limit IS NULL OR wip_limit > 0),
+    -- 'warn' highlights an exceeded limit, 'block' refuses the drop
+    wip_policy TEXT NOT NULL DEFAULT 'warn' CHECK (wip_policy IN ('warn', 'block')),
+    order_index INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_columns_project
+  ON public.workflow_columns(project_id, order_index);
+
+-- 2. Allowed moves between columns. A project without transitions
+--    allows any move; once one exists, only listed moves are allowed.
+CREATE TABLE IF NOT EXISTS public.workflow_transitions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+    from_column_id UUID REFERENCES public.workflow_columns(id) ON DELETE CASCADE NOT NULL,
+    to_column_id UUID REFERENCES public.workflow_columns(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+
+    UNIQUE(from_column_id, to_column_id),
+    CHECK (from_column_id <> to_column_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_transitions_project
+  ON public.workflow_transitions(project_id);
+
+-- 3. Column of each task, when several columns share a status
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS workflow_column_id UUID REFERENCES public.workflow_columns(id) ON DELETE SET NULL;
+
+-- 4. RLS
+ALTER TABLE public.workflow_columns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workflow_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Workflow columns viewable by authenticated users" ON public.workflow_columns
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can manage workflow columns" ON public.workflow_columns
+    FOR ALL USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Workflow transitions viewable by authenticated users" ON public.workflow_transitions
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can manage workflow transitions" ON public.workflow_transitions
+    FOR ALL USING (auth.role() = 'authenticated');
@@ -0,0 +1,69 @@
+-- =========================================================
+-- Task status transitions
+-- One row per status change of a task, with its timestamp,
+-- so flow metrics (cycle time, lead time, cumulative flow,
+-- throughput) can be computed from the real history instead
+-- of created_at / completed_at only.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Transitions. from_status is null for the status a task
+--    was created with.
+CREATE TABLE IF NOT EXISTS public.task_status_transitions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_status_transitions_task
+  ON public.task_status_transitions(task_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_task_status_transitions_project
+  ON public.task_status_transitions(project_id, changed_at);
+
+-- 2. Record creations and status changes, whatever screen wrote them
+CREATE OR REPLACE FUNCTION public.record_task_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO public.task_status_transitions (task_id, project_id, from_status, to_status, changed_by)
+        VALUES (NEW.id, NEW.project_id, NULL, NEW.status, auth.uid());
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO public.task_status_transitions (task_id, project_id, from_status, to_status, changed_by)
+        VALUES (NEW.id, NEW.project_id, OLD.status, NEW.status, auth.uid());
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_task_status_transition ON public.tasks;
+CREATE TRIGGER record_task_status_transition
+    AFTER INSERT OR UPDATE OF status ON public.tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_task_status_transition();
+
+-- 3. RLS: readable by authenticated users, written only by the trigger
+ALTER TABLE public.task_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Status transitions viewable by authenticated users" ON public.task_status_transitions
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- 4. Approximate history for existing tasks: created as "todo", then
+--    moved to the current status when completed (or last updated)
+INSERT INTO public.task_status_transitions (task_id, project_id, from_status, to_status, changed_at)
+SELECT t.id, t.project_id, NULL, 'todo', t.created_at
+FROM public.tasks t
+WHERE NOT EXISTS (SELECT 1 FROM public.task_status_transitions s WHERE s.task_id = t.id);
+
+INSERT INTO public.task_status_transitions (task_id, project_id, from_status, to_status, changed_at)
+SELECT t.id, t.project_id, 'todo', t.status, GREATEST(t.created_at, COALESCE(t.completed_at, t.updated_at, t.created_at))
+FROM public.tasks t
+WHERE t.status <> 'todo'
+  AND NOT EXISTS (
+      SELECT 1 FROM public.task_status_transitions s
+      WHERE s.task_id = t.id AND s.from_status IS NOT NULL
+  );
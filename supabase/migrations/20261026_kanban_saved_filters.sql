@@ -0,0 +1,39 @@
+-- =========================================================
+-- Kanban labels and saved filters
+-- Free-text labels on tasks, and named Kanban filters
+-- (assignee, labels, priority, text, swimlanes) saved per
+-- user and project. Filters are shared by URL, so a saved
+-- filter only needs to be readable by its owner.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Labels
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS labels TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_tasks_labels
+  ON public.tasks USING GIN (labels);
+
+-- 2. Saved filters
+CREATE TABLE IF NOT EXISTS public.kanban_saved_filters (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+
+    UNIQUE(user_id, project_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_kanban_saved_filters_user_project
+  ON public.kanban_saved_filters(user_id, project_id);
+
+-- 3. RLS: each user manages their own filters
+ALTER TABLE public.kanban_saved_filters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own Kanban filters" ON public.kanban_saved_filters
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own Kanban filters" ON public.kanban_saved_filters
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
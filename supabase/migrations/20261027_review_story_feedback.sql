@@ -0,0 +1,29 @@
+-- =========================================================
+-- Sprint review: acceptance per story
+-- review_story_feedback gets one row per (review, story) so
+-- the review form can upsert the demonstrated / accepted /
+-- feedback of each story, and remember when a rejected story
+-- was sent back to the product backlog.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Keep the latest row when a story was recorded twice
+DELETE FROM public.review_story_feedback f
+USING public.review_story_feedback newer
+WHERE f.review_id = newer.review_id
+  AND f.story_id = newer.story_id
+  AND (f.created_at, f.id) < (newer.created_at, newer.id);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'review_story_feedback_review_story_key'
+    ) THEN
+        ALTER TABLE public.review_story_feedback
+            ADD CONSTRAINT review_story_feedback_review_story_key UNIQUE (review_id, story_id);
+    END IF;
+END $$;
+
+-- 2. When a rejected story left the sprint for the backlog
+ALTER TABLE public.review_story_feedback
+    ADD COLUMN IF NOT EXISTS returned_to_backlog_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,210 @@
+-- =========================================================
+-- Facilitated, real-time retrospectives
+-- A retrospective moves through facilitator-driven phases
+-- (write -> group -> vote -> discuss) with a shared countdown
+-- timer and an optional anonymous writing mode. Cards can be
+-- grouped under another card or merged into it, and votes are
+-- dots (one row each) limited per participant.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Meeting state, shared by every participant
+ALTER TABLE public.sprint_retrospectives
+    ADD COLUMN IF NOT EXISTS phase TEXT NOT NULL DEFAULT 'write'
+        CHECK (phase IN ('write', 'group', 'vote', 'discuss')),
+    ADD COLUMN IF NOT EXISTS facilitator_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS anonymous BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS votes_per_person INTEGER NOT NULL DEFAULT 3
+        CHECK (votes_per_person BETWEEN 1 AND 20),
+    ADD COLUMN IF NOT EXISTS timer_ends_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.sprint_retrospectives
+SET facilitator_id = created_by
+WHERE facilitator_id IS NULL;
+
+-- Existing retrospectives already happened
+UPDATE public.sprint_retrospectives r
+SET phase = 'discuss'
+WHERE EXISTS (SELECT 1 FROM public.retrospective_items i WHERE i.retrospective_id = r.id AND i.votes > 0);
+
+-- 2. Grouped cards point at the card heading their group
+ALTER TABLE public.retrospective_items
+    ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES public.retrospective_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_retrospective_items_group ON public.retrospective_items(group_id);
+
+-- 3. Dot votes. retrospective_items.votes stays as the total so
+--    existing readers (insights, sprint report) keep working.
+CREATE TABLE IF NOT EXISTS public.retrospective_votes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    retrospective_id UUID REFERENCES public.sprint_retrospectives(id) ON DELETE CASCADE NOT NULL,
+    item_id UUID REFERENCES public.retrospective_items(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_retrospective_votes_retro_user
+  ON public.retrospective_votes(retrospective_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_retrospective_votes_item ON public.retrospective_votes(item_id);
+
+-- Votes are only accepted in the vote phase and up to the limit per person
+CREATE OR REPLACE FUNCTION public.check_retrospective_vote()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_phase TEXT;
+    v_limit INTEGER;
+    v_used INTEGER;
+BEGIN
+    SELECT i.retrospective_id INTO NEW.retrospective_id
+    FROM public.retrospective_items i
+    WHERE i.id = NEW.item_id;
+
+    SELECT r.phase, r.votes_per_person INTO v_phase, v_limit
+    FROM public.sprint_retrospectives r
+    WHERE r.id = NEW.retrospective_id;
+
+    IF v_phase IS DISTINCT FROM 'vote' THEN
+        RAISE EXCEPTION 'Retrospective is not in the vote phase';
+    END IF;
+
+    SELECT COUNT(*) INTO v_used
+    FROM public.retrospective_votes
+    WHERE retrospective_id = NEW.retrospective_id AND user_id = NEW.user_id;
+
+    IF v_used >= v_limit THEN
+        RAISE EXCEPTION 'Vote limit of % reached', v_limit;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_retrospective_vote ON public.retrospective_votes;
+CREATE TRIGGER check_retrospective_vote
+    BEFORE INSERT ON public.retrospective_votes
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_retrospective_vote();
+
+CREATE OR REPLACE FUNCTION public.sync_retrospective_item_votes()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_item_id UUID := COALESCE(NEW.item_id, OLD.item_id);
+BEGIN
+    UPDATE public.retrospective_items
+    SET votes = (SELECT COUNT(*) FROM public.retrospective_votes WHERE item_id = v_item_id)
+    WHERE id = v_item_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_retrospective_item_votes ON public.retrospective_votes;
+CREATE TRIGGER sync_retrospective_item_votes
+    AFTER INSERT OR DELETE ON public.retrospective_votes
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_retrospective_item_votes();
+
+-- 4. RLS: participants manage their own votes; the facilitator
+--    drives the meeting and may group the cards of others
+ALTER TABLE public.retrospective_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Retrospective votes viewable by authenticated users" ON public.retrospective_votes;
+DROP POLICY IF EXISTS "Users can add their retrospective votes" ON public.retrospective_votes;
+DROP POLICY IF EXISTS "Users can remove their retrospective votes" ON public.retrospective_votes;
+DROP POLICY IF EXISTS "Facilitators can update retrospectives" ON public.sprint_retrospectives;
+DROP POLICY IF EXISTS "Facilitators can update retrospective items" ON public.retrospective_items;
+
+CREATE POLICY "Retrospective votes viewable by authenticated users"
+    ON public.retrospective_votes FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Users can add their retrospective votes"
+    ON public.retrospective_votes FOR INSERT
+    WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove their retrospective votes"
+    ON public.retrospective_votes FOR DELETE
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Facilitators can update retrospectives"
+    ON public.sprint_retrospectives FOR UPDATE
+    USING (facilitator_id = auth.uid());
+
+CREATE POLICY "Facilitators can update retrospective items"
+    ON public.retrospective_items FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.sprint_retrospectives r
+            WHERE r.id = retrospective_items.retrospective_id
+              AND r.facilitator_id = auth.uid()
+        )
+    );
+
+-- 5. Any participant can take over facilitation (the retrospective
+--    is created by whoever opens it first)
+CREATE OR REPLACE FUNCTION public.claim_retrospective_facilitation(p_retrospective_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    UPDATE public.sprint_retrospectives
+    SET facilitator_id = auth.uid()
+    WHERE id = p_retrospective_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Merge a card into another: contents are joined, votes and
+--    grouped cards move to the target, the source is deleted
+CREATE OR REPLACE FUNCTION public.merge_retrospective_items(p_target_id UUID, p_source_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_target public.retrospective_items%ROWTYPE;
+    v_source public.retrospective_items%ROWTYPE;
+BEGIN
+    SELECT * INTO v_target FROM public.retrospective_items WHERE id = p_target_id;
+    SELECT * INTO v_source FROM public.retrospective_items WHERE id = p_source_id;
+
+    IF v_target.id IS NULL OR v_source.id IS NULL OR v_target.id = v_source.id
+       OR v_target.retrospective_id <> v_source.retrospective_id THEN
+        RAISE EXCEPTION 'Invalid cards to merge';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.sprint_retrospectives
+        WHERE id = v_target.retrospective_id AND facilitator_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Only the facilitator can merge cards';
+    END IF;
+
+    UPDATE public.retrospective_items
+    SET content = v_target.content || E'\n' || v_source.content
+    WHERE id = p_target_id;
+
+    UPDATE public.retrospective_items SET group_id = p_target_id WHERE group_id = p_source_id;
+
+    UPDATE public.retrospective_votes SET item_id = p_target_id WHERE item_id = p_source_id;
+
+    DELETE FROM public.retrospective_items WHERE id = p_source_id;
+
+    UPDATE public.retrospective_items
+    SET votes = (SELECT COUNT(*) FROM public.retrospective_votes WHERE item_id = p_target_id)
+    WHERE id = p_target_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Broadcast changes to the participants of a retrospective
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    FOREACH v_table IN ARRAY ARRAY['sprint_retrospectives', 'retrospective_items', 'retrospective_votes'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+        END IF;
+    END LOOP;
+END $$;
@@ -0,0 +1,110 @@
+-- =========================================================
+-- Retrospective action items as tracked work
+-- Action items get a due date and can be turned into a task
+-- in the next sprint of the team (or the project backlog when
+-- none is planned). The task's status flows back to the
+-- action item, so open actions carry over until done.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Due date and the task doing the work
+ALTER TABLE public.retrospective_items
+    ADD COLUMN IF NOT EXISTS due_date DATE,
+    ADD COLUMN IF NOT EXISTS task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_retrospective_items_task ON public.retrospective_items(task_id);
+
+-- 2. Owners update their own action items (status, due date)
+DROP POLICY IF EXISTS "Action owners can update their retrospective items" ON public.retrospective_items;
+
+CREATE POLICY "Action owners can update their retrospective items"
+    ON public.retrospective_items FOR UPDATE
+    USING (assigned_to = auth.uid());
+
+-- 3. Create the task for an action item in the sprint following the
+--    retrospective's sprint (same team and project)
+CREATE OR REPLACE FUNCTION public.convert_retrospective_action_to_task(p_item_id UUID)
+RETURNS TABLE (task_id UUID, sprint_id UUID, sprint_name TEXT) AS $$
+DECLARE
+    v_item public.retrospective_items%ROWTYPE;
+    v_sprint public.sprints%ROWTYPE;
+    v_next public.sprints%ROWTYPE;
+    v_project_id UUID;
+    v_task_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO v_item FROM public.retrospective_items WHERE id = p_item_id;
+    IF v_item.id IS NULL OR v_item.category <> 'action_item' THEN
+        RAISE EXCEPTION 'Action item not found';
+    END IF;
+    IF v_item.task_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Action item already has a task';
+    END IF;
+
+    SELECT s.* INTO v_sprint
+    FROM public.sprints s
+    JOIN public.sprint_retrospectives r ON r.sprint_id = s.id
+    WHERE r.id = v_item.retrospective_id;
+
+    SELECT s.* INTO v_next
+    FROM public.sprints s
+    WHERE s.team_id = v_sprint.team_id
+      AND s.project_id IS NOT DISTINCT FROM v_sprint.project_id
+      AND s.id <> v_sprint.id
+      AND s.start_date > v_sprint.start_date
+      AND s.status IN ('planning', 'active')
+    ORDER BY s.start_date
+    LIMIT 1;
+
+    v_project_id := COALESCE(v_next.project_id, v_sprint.project_id);
+    IF v_project_id IS NULL THEN
+        RAISE EXCEPTION 'Sprint has no project';
+    END IF;
+
+    INSERT INTO public.tasks (title, description, status, priority, sprint_id, project_id, assigned_to, due_date, created_by)
+    VALUES (
+        LEFT(SPLIT_PART(v_item.content, E'\n', 1), 200),
+        'Ação da retrospectiva da ' || v_sprint.name || E':\n' || v_item.content,
+        'todo',
+        'medium',
+        v_next.id,
+        v_project_id,
+        v_item.assigned_to,
+        v_item.due_date,
+        auth.uid()
+    )
+    RETURNING id INTO v_task_id;
+
+    UPDATE public.retrospective_items SET task_id = v_task_id WHERE id = p_item_id;
+
+    RETURN QUERY SELECT v_task_id, v_next.id, v_next.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4. The task's progress is the action item's progress
+CREATE OR REPLACE FUNCTION public.sync_retrospective_action_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        UPDATE public.retrospective_items
+        SET status = CASE NEW.status
+                WHEN 'done' THEN 'done'
+                WHEN 'todo' THEN 'pending'
+                ELSE 'in_progress'
+            END
+        WHERE task_id = NEW.id
+          AND status <> 'cancelled';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_retrospective_action_status ON public.tasks;
+CREATE TRIGGER sync_retrospective_action_status
+    AFTER UPDATE OF status ON public.tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_retrospective_action_status();
@@ -0,0 +1,68 @@
+-- =========================================================
+-- Retrospective formats
+-- A retrospective uses a set of columns: a built-in template
+-- (classic, Start/Stop/Continue, 4Ls, Mad/Sad/Glad, Sailboat)
+-- or a custom set saved by the team. Each column stands for a
+-- base category (went well, to improve, action item, other),
+-- so reports and action tracking keep aggregating on
+-- retrospective_items.category whatever the format.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Base categories: cards of informational columns (e.g.
+--    "Learned" or the Sailboat island) are 'other'
+ALTER TABLE public.retrospective_items
+    DROP CONSTRAINT IF EXISTS retrospective_items_category_check;
+
+ALTER TABLE public.retrospective_items
+    ADD CONSTRAINT retrospective_items_category_check
+    CHECK (category IN ('went_well', 'to_improve', 'action_item', 'other'));
+
+-- 2. Column of the format each card was written in
+ALTER TABLE public.retrospective_items
+    ADD COLUMN IF NOT EXISTS column_key TEXT;
+
+UPDATE public.retrospective_items
+SET column_key = category
+WHERE column_key IS NULL;
+
+-- 3. Format of each retrospective. Columns are copied from the
+--    template, so editing a team template doesn't change past
+--    retrospectives; null means the classic three columns.
+ALTER TABLE public.sprint_retrospectives
+    ADD COLUMN IF NOT EXISTS template TEXT NOT NULL DEFAULT 'classic',
+    ADD COLUMN IF NOT EXISTS columns JSONB;
+
+-- 4. Custom column sets of a team
+--    columns: [{ "key", "title", "color", "category" }]
+CREATE TABLE IF NOT EXISTS public.retrospective_templates (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    columns JSONB NOT NULL,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+
+    UNIQUE(team_id, name),
+    CHECK (jsonb_typeof(columns) = 'array' AND jsonb_array_length(columns) BETWEEN 2 AND 6)
+);
+
+CREATE INDEX IF NOT EXISTS idx_retrospective_templates_team
+  ON public.retrospective_templates(team_id);
+
+DROP TRIGGER IF EXISTS update_retrospective_templates_updated_at ON public.retrospective_templates;
+CREATE TRIGGER update_retrospective_templates_updated_at BEFORE UPDATE ON public.retrospective_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 5. RLS
+ALTER TABLE public.retrospective_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Retrospective templates viewable by authenticated users" ON public.retrospective_templates;
+DROP POLICY IF EXISTS "Authenticated users can manage retrospective templates" ON public.retrospective_templates;
+
+CREATE POLICY "Retrospective templates viewable by authenticated users" ON public.retrospective_templates
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can manage retrospective templates" ON public.retrospective_templates
+    FOR ALL USING (auth.role() = 'authenticated');
@@ -0,0 +1,208 @@
+-- =========================================================
+-- Planning poker
+-- Estimation sessions for a sprint or a backlog refinement.
+-- The facilitator picks the story being estimated; everyone
+-- votes with a card of the session's deck (Fibonacci or
+-- T-shirt). Votes stay hidden from the other participants
+-- until the facilitator reveals the round, and the agreed
+-- value is written to tasks.story_points. Votes of every
+-- round and the agreed values are kept as the session log.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Sessions (sprint_id is null for a backlog refinement)
+CREATE TABLE IF NOT EXISTS public.planning_poker_sessions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+    sprint_id UUID REFERENCES public.sprints(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    deck TEXT NOT NULL DEFAULT 'fibonacci' CHECK (deck IN ('fibonacci', 'tshirt')),
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+    facilitator_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    -- Story being estimated and its voting round (re-votes start a new round)
+    current_task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+    round INTEGER NOT NULL DEFAULT 1,
+    revealed BOOLEAN NOT NULL DEFAULT false,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+    closed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_planning_poker_sessions_project
+  ON public.planning_poker_sessions(project_id, created_at DESC);
+
+-- 2. One card per participant, story and round
+CREATE TABLE IF NOT EXISTS public.planning_poker_votes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    session_id UUID REFERENCES public.planning_poker_sessions(id) ON DELETE CASCADE NOT NULL,
+    task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+    round INTEGER NOT NULL,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+    value TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+
+    UNIQUE(session_id, task_id, round, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_planning_poker_votes_session
+  ON public.planning_poker_votes(session_id, task_id, round);
+
+-- 3. Agreed values (the session log)
+CREATE TABLE IF NOT EXISTS public.planning_poker_estimates (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    session_id UUID REFERENCES public.planning_poker_sessions(id) ON DELETE CASCADE NOT NULL,
+    task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE NOT NULL,
+    -- Card agreed on, and the story points written to the task
+    value TEXT NOT NULL,
+    story_points INTEGER,
+    rounds INTEGER NOT NULL DEFAULT 1,
+    decided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_planning_poker_estimates_session
+  ON public.planning_poker_estimates(session_id, decided_at);
+
+-- 4. Cards can only be played on the open round of the story being estimated
+CREATE OR REPLACE FUNCTION public.check_planning_poker_vote()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_session public.planning_poker_sessions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_session FROM public.planning_poker_sessions WHERE id = NEW.session_id;
+
+    IF v_session.status <> 'active' OR v_session.revealed
+       OR v_session.current_task_id IS DISTINCT FROM NEW.task_id
+       OR v_session.round <> NEW.round THEN
+        RAISE EXCEPTION 'Voting is closed for this round';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_planning_poker_vote ON public.planning_poker_votes;
+CREATE TRIGGER check_planning_poker_vote
+    BEFORE INSERT OR UPDATE ON public.planning_poker_votes
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_planning_poker_vote();
+
+-- 5. RLS
+ALTER TABLE public.planning_poker_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.planning_poker_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.planning_poker_estimates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Poker sessions viewable by authenticated users" ON public.planning_poker_sessions;
+DROP POLICY IF EXISTS "Authenticated users can create poker sessions" ON public.planning_poker_sessions;
+DROP POLICY IF EXISTS "Facilitators can update poker sessions" ON public.planning_poker_sessions;
+DROP POLICY IF EXISTS "Facilitators can delete poker sessions" ON public.planning_poker_sessions;
+DROP POLICY IF EXISTS "Poker votes viewable once revealed" ON public.planning_poker_votes;
+DROP POLICY IF EXISTS "Users can play their poker cards" ON public.planning_poker_votes;
+DROP POLICY IF EXISTS "Users can change their poker cards" ON public.planning_poker_votes;
+DROP POLICY IF EXISTS "Users can take back their poker cards" ON public.planning_poker_votes;
+DROP POLICY IF EXISTS "Poker estimates viewable by authenticated users" ON public.planning_poker_estimates;
+
+CREATE POLICY "Poker sessions viewable by authenticated users"
+    ON public.planning_poker_sessions FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Authenticated users can create poker sessions"
+    ON public.planning_poker_sessions FOR INSERT
+    WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Facilitators can update poker sessions"
+    ON public.planning_poker_sessions FOR UPDATE
+    USING (facilitator_id = auth.uid());
+
+CREATE POLICY "Facilitators can delete poker sessions"
+    ON public.planning_poker_sessions FOR DELETE
+    USING (facilitator_id = auth.uid() OR created_by = auth.uid());
+
+-- Other participants' cards of the open round stay hidden until revealed
+CREATE POLICY "Poker votes viewable once revealed"
+    ON public.planning_poker_votes FOR SELECT
+    USING (
+        user_id = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.planning_poker_sessions s
+            WHERE s.id = planning_poker_votes.session_id
+              AND (s.revealed
+                   OR s.current_task_id IS DISTINCT FROM planning_poker_votes.task_id
+                   OR s.round <> planning_poker_votes.round)
+        )
+    );
+
+CREATE POLICY "Users can play their poker cards"
+    ON public.planning_poker_votes FOR INSERT
+    WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can change their poker cards"
+    ON public.planning_poker_votes FOR UPDATE
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can take back their poker cards"
+    ON public.planning_poker_votes FOR DELETE
+    USING (user_id = auth.uid());
+
+-- Estimates are written by record_planning_poker_estimate only
+CREATE POLICY "Poker estimates viewable by authenticated users"
+    ON public.planning_poker_estimates FOR SELECT
+    USING (auth.role() = 'authenticated');
+
+-- 6. Any participant can take over facilitation
+CREATE OR REPLACE FUNCTION public.claim_planning_poker_facilitation(p_session_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    UPDATE public.planning_poker_sessions
+    SET facilitator_id = auth.uid()
+    WHERE id = p_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Record the agreed value of the story being estimated and write its
+--    story points to the task
+CREATE OR REPLACE FUNCTION public.record_planning_poker_estimate(
+    p_session_id UUID,
+    p_value TEXT,
+    p_story_points INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+    v_session public.planning_poker_sessions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_session FROM public.planning_poker_sessions WHERE id = p_session_id;
+
+    IF v_session.id IS NULL OR v_session.facilitator_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Only the facilitator can record estimates';
+    END IF;
+    IF v_session.current_task_id IS NULL THEN
+        RAISE EXCEPTION 'No story is being estimated';
+    END IF;
+
+    INSERT INTO public.planning_poker_estimates (session_id, task_id, value, story_points, rounds, decided_by)
+    VALUES (p_session_id, v_session.current_task_id, p_value, p_story_points, v_session.round, auth.uid());
+
+    IF p_story_points IS NOT NULL THEN
+        UPDATE public.tasks SET story_points = p_story_points WHERE id = v_session.current_task_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 8. Broadcast changes to the participants of a session
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    FOREACH v_table IN ARRAY ARRAY['planning_poker_sessions', 'planning_poker_votes', 'planning_poker_estimates'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+        END IF;
+    END LOOP;
+END $$;
@@ -0,0 +1,214 @@
+-- =========================================================
+-- Anonymous retrospectives, enforced by the database
+-- In an anonymous retrospective the author of a card is only
+-- known to its author, and while writing the other cards are
+-- covered. Cards are read through retrospective_items_visible,
+-- which hides both; the table itself only returns (and
+-- broadcasts over Realtime) the cards of non-anonymous
+-- retrospectives and the user's own. Participants learn about
+-- changes through sprint_retrospectives.items_changed_at.
+-- Run this in the Supabase SQL editor
+-- =========================================================
+
+-- 1. Cards as each participant may see them. The view runs with its
+--    owner's rights, so it only lists the cards of retrospectives the
+--    user can select: whatever access rules the deployment applies to
+--    sprint_retrospectives (e.g. project access) apply to the cards too.
+CREATE OR REPLACE FUNCTION public.can_view_retrospective(p_retrospective_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (SELECT 1 FROM public.sprint_retrospectives WHERE id = p_retrospective_id);
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+CREATE OR REPLACE VIEW public.retrospective_items_visible AS
+SELECT
+    i.id,
+    i.retrospective_id,
+    i.category,
+    i.column_key,
+    CASE
+        WHEN r.anonymous AND r.phase = 'write' AND i.created_by IS DISTINCT FROM auth.uid() THEN NULL
+        ELSE i.content
+    END AS content,
+    i.votes,
+    i.status,
+    i.order_index,
+    i.group_id,
+    i.assigned_to,
+    i.due_date,
+    i.task_id,
+    CASE
+        WHEN r.anonymous AND i.created_by IS DISTINCT FROM auth.uid() THEN NULL
+        ELSE i.created_by
+    END AS created_by,
+    CASE WHEN r.anonymous THEN NULL ELSE p.full_name END AS author_name,
+    i.created_at,
+    i.updated_at
+FROM public.retrospective_items i
+JOIN public.sprint_retrospectives r ON r.id = i.retrospective_id
+LEFT JOIN public.profiles p ON p.id = i.created_by
+WHERE auth.role() = 'authenticated'
+  AND public.can_view_retrospective(i.retrospective_id);
+
+GRANT SELECT ON public.retrospective_items_visible TO authenticated;
+
+-- 2. The table hides the cards of others in anonymous retrospectives.
+--    Permissive policies are OR-ed, so every existing policy (including
+--    FOR ALL ones from earlier RLS scripts) is dropped and the write
+--    policies are recreated.
+DO $$
+DECLARE
+    pol RECORD;
+BEGIN
+    FOR pol IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = 'retrospective_items'
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.retrospective_items', pol.policyname);
+    END LOOP;
+END $$;
+
+ALTER TABLE public.retrospective_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Retrospective items viewable unless anonymous"
+    ON public.retrospective_items FOR SELECT TO authenticated
+    USING (
+        public.can_view_retrospective(retrospective_id)
+        AND (
+            created_by = auth.uid()
+            OR NOT EXISTS (
+                SELECT 1 FROM public.sprint_retrospectives r
+                WHERE r.id = retrospective_items.retrospective_id
+                  AND r.anonymous
+            )
+        )
+    );
+
+CREATE POLICY "Participants can add their retrospective items"
+    ON public.retrospective_items FOR INSERT TO authenticated
+    WITH CHECK (created_by = auth.uid() AND public.can_view_retrospective(retrospective_id));
+
+CREATE POLICY "Authors can update their retrospective items"
+    ON public.retrospective_items FOR UPDATE TO authenticated
+    USING (created_by = auth.uid());
+
+CREATE POLICY "Facilitators can update retrospective items"
+    ON public.retrospective_items FOR UPDATE TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.sprint_retrospectives r
+            WHERE r.id = retrospective_items.retrospective_id
+              AND r.facilitator_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Action owners can update their retrospective items"
+    ON public.retrospective_items FOR UPDATE TO authenticated
+    USING (assigned_to = auth.uid());
+
+CREATE POLICY "Authors and facilitators can delete retrospective items"
+    ON public.retrospective_items FOR DELETE TO authenticated
+    USING (
+        created_by = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.sprint_retrospectives r
+            WHERE r.id = retrospective_items.retrospective_id
+              AND r.facilitator_id = auth.uid()
+        )
+    );
+
+-- 3. Changes to other people's cards go through functions, since
+--    their rows can't be selected in anonymous retrospectives
+CREATE OR REPLACE FUNCTION public.group_retrospective_item(p_item_id UUID, p_group_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_item public.retrospective_items%ROWTYPE;
+BEGIN
+    SELECT * INTO v_item FROM public.retrospective_items WHERE id = p_item_id;
+
+    IF v_item.id IS NULL THEN
+        RAISE EXCEPTION 'Retrospective item not found';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.sprint_retrospectives
+        WHERE id = v_item.retrospective_id AND facilitator_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Only the facilitator can group cards';
+    END IF;
+
+    IF p_group_id IS NULL THEN
+        UPDATE public.retrospective_items SET group_id = NULL WHERE id = p_item_id;
+    ELSE
+        IF NOT EXISTS (
+            SELECT 1 FROM public.retrospective_items
+            WHERE id = p_group_id AND retrospective_id = v_item.retrospective_id AND id <> p_item_id
+        ) THEN
+            RAISE EXCEPTION 'Invalid card to group into';
+        END IF;
+
+        -- Cards already grouped under this one move along with it
+        UPDATE public.retrospective_items
+        SET group_id = p_group_id
+        WHERE id = p_item_id OR group_id = p_item_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the keys present in p_changes are updated. Same people as the
+-- UPDATE policies: the action's owner, its author or the facilitator.
+CREATE OR REPLACE FUNCTION public.update_retrospective_action_item(p_item_id UUID, p_changes JSONB)
+RETURNS VOID AS $$
+DECLARE
+    v_item public.retrospective_items%ROWTYPE;
+BEGIN
+    SELECT * INTO v_item
+    FROM public.retrospective_items
+    WHERE id = p_item_id AND category = 'action_item';
+
+    IF v_item.id IS NULL THEN
+        RAISE EXCEPTION 'Action item not found';
+    END IF;
+
+    IF auth.uid() IS NULL OR NOT (
+        v_item.assigned_to = auth.uid()
+        OR v_item.created_by = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.sprint_retrospectives
+            WHERE id = v_item.retrospective_id AND facilitator_id = auth.uid()
+        )
+    ) THEN
+        RAISE EXCEPTION 'Only the owner, the author or the facilitator can change this action item';
+    END IF;
+
+    IF p_changes ? 'status'
+       AND (p_changes->>'status') NOT IN ('pending', 'in_progress', 'done', 'cancelled') THEN
+        RAISE EXCEPTION 'Invalid action item status: %', p_changes->>'status';
+    END IF;
+
+    UPDATE public.retrospective_items
+    SET assigned_to = CASE WHEN p_changes ? 'assigned_to' THEN (p_changes->>'assigned_to')::UUID ELSE assigned_to END,
+        due_date = CASE WHEN p_changes ? 'due_date' THEN (p_changes->>'due_date')::DATE ELSE due_date END,
+        status = CASE WHEN p_changes ? 'status' THEN p_changes->>'status' ELSE status END
+    WHERE id = p_item_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4. Every card change touches its retrospective, whose updates
+--    reach all participants
+ALTER TABLE public.sprint_retrospectives
+    ADD COLUMN IF NOT EXISTS items_changed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.touch_retrospective_items_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.sprint_retrospectives
+    SET items_changed_at = NOW()
+    WHERE id = COALESCE(NEW.retrospective_id, OLD.retrospective_id);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS touch_retrospective_items_changed ON public.retrospective_items;
+CREATE TRIGGER touch_retrospective_items_changed
+    AFTER INSERT OR UPDATE OR DELETE ON public.retrospective_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.touch_retrospective_items_changed();